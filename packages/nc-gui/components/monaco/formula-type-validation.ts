@@ -934,6 +934,9 @@ export class FormulaTypeValidator {
         break
 
       case 'DATESTR':
+      case 'DATETIME_FORMAT':
+      case 'SET_TIMEZONE':
+      case 'WORKDAY':
       case 'DAY':
       case 'MONTH':
       case 'YEAR':
@@ -953,6 +956,24 @@ export class FormulaTypeValidator {
         }
         break
 
+      case 'NETWORKDAYS':
+        // Check if start and end arguments are dates
+        for (let i = 0; i < 2; i++) {
+          if (
+            node.arguments[i] &&
+            node.arguments[i].dataType !== FormulaDataTypes.DATE &&
+            node.arguments[i].dataType !== FormulaDataTypes.NULL &&
+            node.arguments[i].dataType !== FormulaDataTypes.UNKNOWN
+          ) {
+            errors.push({
+              message: `Argument ${i + 1} of NETWORKDAYS should be a Date`,
+              severity: MarkerSeverity.Warning,
+              ...this.findNodePosition(node.arguments[i], formula),
+            })
+          }
+        }
+        break
+
       case 'WEEKDAY':
         // Check if first argument is a date
         if (
@@ -1135,7 +1156,9 @@ export class FormulaTypeValidator {
       if (
         typeof value === 'string' &&
         /^\d{4}-\d{2}-\d{2}/.test(value) &&
-        !['DATEADD', 'DATESTR', 'DAY', 'MONTH', 'YEAR'].includes(node.parentFunction)
+        !['DATEADD', 'DATESTR', 'DAY', 'MONTH', 'YEAR', 'DATETIME_FORMAT', 'SET_TIMEZONE', 'WORKDAY', 'NETWORKDAYS'].includes(
+          node.parentFunction,
+        )
       ) {
         errors.push({
           message: `"${value}" looks like a date but is used as Text. Use a date function if date operations are intended.`,
@@ -192,7 +192,7 @@ export const MultiSelectCellRenderer: CellRenderer = {
   },
 
   async handleClick({ row, column, makeCellEditable }) {
-    if (column.columnObj?.readonly) return false
+    if (column.readonly || column.columnObj?.readonly) return false
     makeCellEditable(row, column)
     return true
   },
@@ -1,4 +1,4 @@
-import { type ColumnType, type RollupType, UITypes, getRenderAsTextFunForUiType } from 'nocodb-sdk'
+import { type ColumnType, RollupTextFunctions, type RollupType, UITypes, getRenderAsTextFunForUiType } from 'nocodb-sdk'
 
 import rfdc from 'rfdc'
 
@@ -64,7 +64,10 @@ export const RollupCellRenderer: CellRenderer = {
       ...parseProp(column?.meta),
     }
 
-    if (colOptions?.rollup_function && renderAsTextFun.includes(colOptions?.rollup_function)) {
+    if (colOptions?.rollup_function && RollupTextFunctions.includes(colOptions?.rollup_function)) {
+      // Render joined values as text cell
+      renderProps.column.uidt = UITypes.SingleLineText
+    } else if (colOptions?.rollup_function && renderAsTextFun.includes(colOptions?.rollup_function)) {
       // Render as decimal cell
       renderProps.column.uidt = UITypes.Decimal
     }
@@ -41,6 +41,18 @@ import { parseKey } from '../../../../../utils/groupbyUtils'
 import type { CanvasElement } from '../utils/CanvasElement'
 import { ElementTypes } from '../utils/CanvasElement'
 import type { RenderTagProps } from '../utils/types'
+import type { RealtimeCollaborator } from '~/composables/useRealtime'
+
+interface CollaboratorState {
+  col: CanvasGridColumn
+  x: number
+  y: number
+  width: number
+  height: number
+  collaborator: RealtimeCollaborator
+}
+
+const COLLABORATOR_COLORS = ['#FA8231', '#7D26CD', '#17A2B8', '#E91E63', '#1B8E3E', '#B8860B']
 
 export function useCanvasRender({
   width,
@@ -94,6 +106,7 @@ export function useCanvasRender({
   draggedRowGroupPath,
   removeInlineAddRecord,
   upgradeModalInlineState,
+  collaboratorCells,
 }: {
   width: Ref<number>
   height: Ref<number>
@@ -170,6 +183,7 @@ export function useCanvasRender({
     isHoveredLearnMore: boolean
     isHoveredUpgrade: boolean
   }>
+  collaboratorCells: ComputedRef<Map<string, RealtimeCollaborator>>
 }) {
   const canvasRef = ref<HTMLCanvasElement>()
   const colResizeHoveredColIds = ref(new Set())
@@ -705,6 +719,7 @@ export function useCanvasRender({
   const renderActiveState = (
     ctx: CanvasRenderingContext2D,
     activeState: { x: number; y: number; width: number; height: number; col: CanvasGridColumn } | null,
+    borderColor = '#3366ff',
   ) => {
     if (!activeState) return
 
@@ -713,7 +728,7 @@ export function useCanvasRender({
 
     if (activeState.col.fixed || !isInFixedArea) {
       roundedRect(ctx, activeState.x, activeState.y, activeState.width, activeState.height, 2, {
-        borderColor: '#3366ff',
+        borderColor,
         borderWidth: 2,
       })
       ctx.lineWidth = 1
@@ -733,13 +748,45 @@ export function useCanvasRender({
       }
       // add extra 1px offset to x, since there is an additional border separating fixed and non-fixed columns
       roundedRect(ctx, adjustedState.x + 1, adjustedState.y, adjustedState.width, adjustedState.height, 2, {
-        borderColor: '#3366ff',
+        borderColor,
         borderWidth: 2,
       })
       ctx.lineWidth = 1
     }
   }
 
+  const getCollaboratorColor = (collaborator: RealtimeCollaborator) => {
+    const key = collaborator.id ?? collaborator.socketId
+    let hash = 0
+    for (let i = 0; i < key.length; i++) hash = (hash * 31 + key.charCodeAt(i)) | 0
+    return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length]!
+  }
+
+  // outline the cells selected by collaborators along with a name tag in the top right corner
+  const renderCollaboratorStates = (ctx: CanvasRenderingContext2D, collaboratorStates: CollaboratorState[]) => {
+    for (const { collaborator, ...state } of collaboratorStates) {
+      const color = getCollaboratorColor(collaborator)
+
+      renderActiveState(ctx, state, color)
+
+      const name = collaborator.display_name || collaborator.email?.split('@')[0]
+      if (!name) continue
+
+      const labelProps = {
+        text: name,
+        maxWidth: state.width - 12,
+        fontSize: 10,
+        fontFamily: '500 10px Inter',
+        py: 2,
+      }
+      const { width: labelWidth } = renderSingleLineText(ctx, { ...labelProps, render: false })
+      const labelX = state.x + state.width - labelWidth - 8
+
+      roundedRect(ctx, labelX, state.y, labelWidth + 8, 14, { bottomLeft: 4, topRight: 2 }, { backgroundColor: color })
+      renderSingleLineText(ctx, { ...labelProps, x: labelX + 4, y: state.y, fillStyle: '#ffffff' })
+    }
+  }
+
   const calculateXPosition = (colIndex: number) => {
     let xPos = 0
     for (let i = 0; i < colIndex; i++) {
@@ -1183,6 +1230,7 @@ export function useCanvasRender({
       rowIndex: number
       column: CanvasGridColumn
     }[] = []
+    const collaboratorStates: CollaboratorState[] = []
     const groupPath = generateGroupPath(group)
     const isHovered = hoverRow.value?.rowIndex === rowIdx && comparePath(hoverRow.value?.path, row?.rowMeta?.path ?? group?.path)
     const isActiveCellInCurrentGroup = comparePath(activeCell.value?.path, groupPath ?? group?.path)
@@ -1271,6 +1319,19 @@ export function useCanvasRender({
           }
         }
 
+        const collaborator = !isActive && collaboratorCells.value.get(`${pk}:${column.columnObj?.id}`)
+
+        if (collaborator) {
+          collaboratorStates.push({
+            col: column,
+            x: xOffset - scrollLeft.value,
+            y: yOffset,
+            width,
+            height: rowHeight.value,
+            collaborator,
+          })
+        }
+
         const value = row.row[column.title]
 
         if (isColumnRequiredAndNull(column.columnObj, row.row)) {
@@ -1356,6 +1417,19 @@ export function useCanvasRender({
                 height: rowHeight.value,
               }
             }
+
+            const collaborator = !isActive && collaboratorCells.value.get(`${pk}:${column.columnObj?.id}`)
+
+            if (collaborator) {
+              collaboratorStates.push({
+                col: column,
+                x: xOffset,
+                y: yOffset,
+                width,
+                height: rowHeight.value,
+                collaborator,
+              })
+            }
             ctx.save()
 
             if (isColumnRequiredAndNull(column.columnObj, row.row)) {
@@ -1554,6 +1628,7 @@ export function useCanvasRender({
     return {
       activeState,
       renderRedBorders,
+      collaboratorStates,
     }
   }
 
@@ -1577,6 +1652,8 @@ export function useCanvasRender({
       column: CanvasGridColumn
     }[] = []
 
+    let collaboratorStates: CollaboratorState[] = []
+
     const adjustedWidth = Math.max(
       fixedColsWidth.value,
       totalWidth.value - scrollLeft.value - 256 < width.value ? totalWidth.value - scrollLeft.value - 256 : width.value,
@@ -1626,6 +1703,7 @@ export function useCanvasRender({
         })
         activeState = renderedProp.activeState ?? activeState
         renderRedBorders = [...renderRedBorders, ...renderedProp.renderRedBorders]
+        collaboratorStates = [...collaboratorStates, ...renderedProp.collaboratorStates]
 
         if (rowIdx === draggedRowIndex.value) {
           ctx.globalAlpha = 1
@@ -1728,6 +1806,7 @@ export function useCanvasRender({
         fontFamily: '600 12px Inter',
       })
     }
+    renderCollaboratorStates(ctx, collaboratorStates)
     renderActiveState(ctx, activeState)
 
     for (const { rowIndex, column } of renderRedBorders) {
@@ -2282,6 +2361,8 @@ export function useCanvasRender({
       column: CanvasGridColumn
     }[] = []
 
+    let collaboratorStates: CollaboratorState[] = []
+
     let warningRow: { row: Row; yOffset: number } | null = null
     yOffset += 1
     const indent = level * 13 + 1
@@ -2334,6 +2415,7 @@ export function useCanvasRender({
 
       activeState = renderedProp.activeState ?? activeState
       renderRedBorders = [...renderRedBorders, ...renderedProp.renderRedBorders]
+      collaboratorStates = [...collaboratorStates, ...renderedProp.collaboratorStates]
 
       // Bottom border for each row
       ctx.strokeStyle = '#e7e7e9'
@@ -2506,6 +2588,7 @@ export function useCanvasRender({
         ctx.lineWidth = 1
       }
 
+      renderCollaboratorStates(ctx, collaboratorStates)
       renderActiveState(ctx, activeState)
       renderFillHandle(ctx)
     }
@@ -1,6 +1,17 @@
-import { UITypes, isAIPromptCol, isLinksOrLTAR, isOrderCol, isReadonly, isSystemColumn, isVirtualCol } from 'nocodb-sdk'
+import {
+  ColumnPermission,
+  UITypes,
+  getColumnPermission,
+  isAIPromptCol,
+  isLinksOrLTAR,
+  isOrderCol,
+  isReadonly,
+  isSystemColumn,
+  isVirtualCol,
+} from 'nocodb-sdk'
 import type { ButtonType, ColumnType, TableType, UserType, ViewType } from 'nocodb-sdk'
 import type { WritableComputedRef } from '@vue/reactivity'
+import type { RealtimeCellSelection, RealtimeCollaborator } from '~/composables/useRealtime'
 import { SpriteLoader } from '../loaders/SpriteLoader'
 import { ImageWindowLoader } from '../loaders/ImageLoader'
 import { getSingleMultiselectColOptions, getUserColOptions, parseCellWidth } from '../utils/cell'
@@ -210,7 +221,7 @@ export function useCanvasTable({
   const { addUndo, defineViewScope } = useUndoRedo()
   const { activeView } = storeToRefs(useViewsStore())
   const { meta: metaKey, ctrl: ctrlKey } = useMagicKeys()
-  const { isDataReadOnly, isUIAllowed } = useRoles()
+  const { isDataReadOnly, isUIAllowed, baseRoles } = useRoles()
   const { aiIntegrations, generateRows: _generateRows } = useNocoAi()
   const { isFeatureEnabled } = useBetaFeatureToggle()
   const automationStore = useAutomationStore()
@@ -237,6 +248,29 @@ export function useCanvasTable({
 
   const isGroupBy = computed(() => !!groupByColumns.value?.length)
 
+  const {
+    onSchemaChange,
+    onCellSelect,
+    selectCell: broadcastCellSelection,
+  } = useRealtime(
+    computed(() =>
+      !isPublicView.value && meta.value?.id && view.value?.id
+        ? { baseId: meta.value.base_id as string, tableId: meta.value.id, viewId: view.value.id }
+        : null,
+    ),
+  )
+
+  // cells selected by collaborators in the same view, keyed by their socket id
+  const collaboratorSelections = ref(new Map<string, RealtimeCellSelection>())
+
+  const collaboratorCells = computed(() => {
+    const cells = new Map<string, RealtimeCollaborator>()
+    for (const { rowId, columnId, collaborator } of collaboratorSelections.value.values()) {
+      cells.set(`${rowId}:${columnId}`, collaborator)
+    }
+    return cells
+  })
+
   const removeInlineAddRecord = computed(() => {
     return (
       !isGroupBy.value &&
@@ -358,7 +392,12 @@ export function useCanvasTable({
               : parseCellWidth(gridViewCol.width) > width.value * (3 / 4)
               ? false
               : !!f.pv,
-          readonly: f.readonly || isDataReadOnly.value || isSqlView.value || isPublicView.value,
+          readonly:
+            f.readonly ||
+            isDataReadOnly.value ||
+            isSqlView.value ||
+            isPublicView.value ||
+            getColumnPermission(f, baseRoles.value) !== ColumnPermission.EDITABLE,
           isCellEditable: !isReadonly(f),
           pv: !!f.pv,
           virtual: isVirtualCol(f),
@@ -736,6 +775,7 @@ export function useCanvasTable({
   })
 
   const { canvasRef, renderCanvas, colResizeHoveredColIds } = useCanvasRender({
+    collaboratorCells,
     width,
     mousePosition,
     elementMap,
@@ -1239,6 +1279,37 @@ export function useCanvasTable({
     renderCanvas()
   }
 
+  onCellSelect((cellSelection) => {
+    if (cellSelection.rowId && cellSelection.columnId) {
+      collaboratorSelections.value.set(cellSelection.collaborator.socketId, cellSelection)
+    } else {
+      collaboratorSelections.value.delete(cellSelection.collaborator.socketId)
+    }
+    triggerRefreshCanvas()
+  })
+
+  onSchemaChange(async () => {
+    if (!meta.value?.id) return
+    await getMeta(meta.value.id, true)
+    eventBus.emit(SmartsheetStoreEvents.FIELD_RELOAD)
+    reloadViewDataHook.trigger()
+  })
+
+  watch(
+    () => [activeCell.value.row, activeCell.value.column, activeCell.value.path],
+    () => {
+      const row = getDataCache(activeCell.value.path).cachedRows.value.get(activeCell.value.row ?? -1)
+      const columnId = columns.value[activeCell.value.column ?? -1]?.columnObj?.id
+
+      if (!row || row.rowMeta.new || !columnId) {
+        broadcastCellSelection(null, null)
+        return
+      }
+
+      broadcastCellSelection(extractPkFromRow(row.row, meta.value?.columns ?? []), columnId)
+    },
+  )
+
   watch(rowHeight, () => {
     clearTextCache()
     triggerRefreshCanvas()
@@ -8,6 +8,7 @@ export function addAxiosInterceptors(api: Api<any>) {
   const router = useRouter()
   const route = router.currentRoute
   const optimisedQuery = useState('optimisedQuery', () => true)
+  const nuxtApp = useNuxtApp()
 
   const axiosInstance = api.instance
 
@@ -28,6 +29,11 @@ export function addAxiosInterceptors(api: Api<any>) {
       }
     }
 
+    // lets the server skip realtime updates for changes made by this client
+    if (nuxtApp.$ncSocket?.value?.id) {
+      config.headers['xc-socket-id'] = nuxtApp.$ncSocket.value.id
+    }
+
     if (!optimisedQuery.value) {
       config.params = { ...(config.params ?? {}), opt: 'false' }
     }
@@ -690,6 +690,29 @@ const [useProvideCalendarViewStore, useCalendarViewStore] = useInjectionState(
       }
     }
 
+    // replaces the token of the iCalendar feed, previous feed urls stop working
+    async function regenerateFeedToken() {
+      if (!viewMeta?.value?.id || isPublic.value) return
+
+      try {
+        const { ics_token } = await $api.dbView.calendarFeedGenerate(viewMeta.value.id)
+        calendarMetaData.value = { ...calendarMetaData.value, ics_token }
+      } catch (e: any) {
+        message.error(await extractSdkResponseErrorMsg(e))
+      }
+    }
+
+    async function revokeFeedToken() {
+      if (!viewMeta?.value?.id || isPublic.value) return
+
+      try {
+        await $api.dbView.calendarFeedRevoke(viewMeta.value.id)
+        calendarMetaData.value = { ...calendarMetaData.value, ics_token: null }
+      } catch (e: any) {
+        message.error(await extractSdkResponseErrorMsg(e))
+      }
+    }
+
     function findRowInState(rowData: Record<string, any>) {
       const pk: Record<string, string> = rowPkData(rowData, meta?.value?.columns as ColumnType[])
       for (const row of formattedData.value) {
@@ -976,6 +999,8 @@ const [useProvideCalendarViewStore, useCalendarViewStore] = useInjectionState(
     return {
       fetchActiveDates,
       formattedSideBarData,
+      regenerateFeedToken,
+      revokeFeedToken,
       loadMoreSidebarData,
       updateCalendarMeta,
       loadSidebarData,
@@ -1,6 +1,7 @@
 import type { ComputedRef, Ref } from 'vue'
 import {
   type Api,
+  AppEvents,
   type ColumnType,
   type LinkToAnotherRecordType,
   NcApiVersion,
@@ -1755,6 +1756,87 @@ export function useInfiniteData(args: {
     return rows
   }
 
+  const { onDataChange } = useRealtime(
+    computed(() =>
+      !isPublic?.value && meta.value?.id && viewMeta.value?.id
+        ? { baseId: meta.value.base_id as string, tableId: meta.value.id, viewId: viewMeta.value.id }
+        : null,
+    ),
+  )
+
+  const getLoadedPaths = (): Array<Array<number>> =>
+    groupByColumns.value?.length ? Array.from(groupDataCache.value.keys()).map((key) => key.split('-').map(Number)) : [[]]
+
+  // rows which are being edited or saved locally are left untouched
+  const isRowBusy = (row: Row) => !!(row.rowMeta.new || row.rowMeta.saving || row.rowMeta.changed)
+
+  // fetch the loaded chunks holding rows changed by a collaborator again, rows are
+  // read through the data api so that row and field access of the user applies
+  const refreshChangedChunks = async (rowIds: string[]) => {
+    const columns = (meta.value?.columns ?? []) as ColumnType[]
+    const changedRowIds = new Set(rowIds)
+
+    let refreshed = false
+
+    for (const path of getLoadedPaths()) {
+      const dataCache = getDataCache(path)
+      const chunkIds = new Set<number>()
+      const busyChunkIds = new Set<number>()
+
+      for (const [rowIndex, row] of dataCache.cachedRows.value) {
+        if (isRowBusy(row)) busyChunkIds.add(getChunkIndex(rowIndex))
+        else if (changedRowIds.has(extractPkFromRow(row.row, columns))) chunkIds.add(getChunkIndex(rowIndex))
+      }
+
+      const staleChunkIds = [...chunkIds].filter(
+        (chunkId) => !busyChunkIds.has(chunkId) && dataCache.chunkStates.value[chunkId] === 'loaded',
+      )
+      if (!staleChunkIds.length) continue
+
+      await Promise.all(staleChunkIds.map((chunkId) => fetchChunk(chunkId, path, true)))
+      callbacks?.reloadAggregate?.({ path })
+      refreshed = true
+    }
+
+    return refreshed
+  }
+
+  // inserted or deleted rows shift row indexes, so the loaded chunks are fetched again
+  const refreshCachedRows = async () => {
+    for (const path of getLoadedPaths()) {
+      const dataCache = getDataCache(path)
+
+      if (Array.from(dataCache.cachedRows.value.values()).some(isRowBusy)) continue
+
+      await syncCount(path)
+
+      for (const rowIndex of dataCache.cachedRows.value.keys()) {
+        if (rowIndex >= dataCache.totalRows.value) dataCache.cachedRows.value.delete(rowIndex)
+      }
+
+      const loadedChunks = dataCache.chunkStates.value.flatMap((state, chunkId) => (state === 'loaded' ? [chunkId] : []))
+
+      await Promise.all(loadedChunks.map((chunkId) => fetchChunk(chunkId, path, true)))
+
+      callbacks?.reloadAggregate?.({ path })
+    }
+
+    callbacks?.syncVisibleData?.()
+  }
+
+  onDataChange(async ({ action, rowIds }) => {
+    try {
+      if (action === AppEvents.DATA_UPDATE && rowIds) {
+        if (await refreshChangedChunks(rowIds)) callbacks?.syncVisibleData?.()
+        return
+      }
+
+      await refreshCachedRows()
+    } catch (e) {
+      console.error('Failed to apply realtime changes', e)
+    }
+  })
+
   return {
     getDataCache,
     insertRow,
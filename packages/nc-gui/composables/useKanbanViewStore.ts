@@ -1,7 +1,22 @@
 import type { ComputedRef, Ref } from 'vue'
-import type { Api, ColumnType, KanbanType, SelectOptionType, SelectOptionsType, TableType, ViewType } from 'nocodb-sdk'
+import type { Api, ColumnType, KanbanType, SelectOptionType, SelectOptionsType, TableType, UserType, ViewType } from 'nocodb-sdk'
+import { UITypes } from 'nocodb-sdk'
 
-type GroupingFieldColOptionsType = SelectOptionType & { collapsed: boolean }
+type WipLimitModeType = 'warn' | 'block'
+
+type GroupingFieldColOptionsType = SelectOptionType & {
+  collapsed: boolean
+  // max number of records in the stack, moves beyond it warn or get blocked based on the mode
+  wip_limit?: number | null
+  wip_limit_mode?: WipLimitModeType
+}
+
+interface SwimlaneType {
+  key: string | null
+  title: string | null
+  color?: string
+  user?: UserType
+}
 
 const [useProvideKanbanViewStore, useKanbanViewStore] = useInjectionState(
   (
@@ -23,6 +38,8 @@ const [useProvideKanbanViewStore, useKanbanViewStore] = useInjectionState(
 
     const { base, sqlUis } = storeToRefs(useBase())
 
+    const { basesUser } = storeToRefs(useBases())
+
     const { $e, $api } = useNuxtApp()
 
     const { sorts, nestedFilters } = useSmartsheetStoreOrThrow()
@@ -93,6 +110,15 @@ const [useProvideKanbanViewStore, useKanbanViewStore] = useInjectionState(
     // }
     const countByStack = ref<Map<string | null, number>>(new Map<string | null, number>())
 
+    // countByStackAndLane structure
+    // {
+    //   [val1]: {
+    //     [laneKey1]: 10,
+    //     [laneKey2]: 20
+    //   },
+    // }
+    const countByStackAndLane = ref<Map<string | null, Map<string | null, number>>>(new Map())
+
     // grouping field title
     const groupingField = ref<string>('')
 
@@ -104,6 +130,119 @@ const [useProvideKanbanViewStore, useKanbanViewStore] = useInjectionState(
 
     const shouldScrollToRight = ref(false)
 
+    // swimlane field column - cards of each stack are split into horizontal lanes by its value
+    const swimlaneFieldColumn = computed(() => {
+      const column = ((meta.value as TableType)?.columns as ColumnType[] | undefined)?.find(
+        (c) => c.id && c.id === (kanbanMetaData.value as KanbanType & { fk_swimlane_col_id?: string }).fk_swimlane_col_id,
+      )
+
+      return column && [UITypes.SingleSelect, UITypes.User].includes(column.uidt as UITypes) ? column : undefined
+    })
+
+    // lane key of a record - title of the select option or id of the user
+    function getLaneKey(row: Record<string, any>): string | null {
+      const column = swimlaneFieldColumn.value
+      if (!column) return null
+
+      const value = row[column.title!]
+
+      if (column.uidt === UITypes.User) {
+        const user = Array.isArray(value) ? value[0] : value
+        return (typeof user === 'object' && user?.id) || null
+      }
+
+      return typeof value === 'string' && value.length ? value : null
+    }
+
+    const swimlanes = computed<SwimlaneType[]>(() => {
+      const column = swimlaneFieldColumn.value
+      if (!column) return []
+
+      if (column.uidt === UITypes.SingleSelect) {
+        return [
+          ...[...((column.colOptions as SelectOptionsType)?.options ?? [])]
+            .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+            .map((option) => ({ key: option.title!, title: option.title!, color: option.color })),
+          { key: null, title: null },
+        ]
+      }
+
+      // only the users assigned to any of the records get a lane
+      const users = new Map<string, UserType>()
+      for (const rows of formattedData.value.values()) {
+        for (const { row } of rows) {
+          const value = row[column.title!]
+          for (const user of Array.isArray(value) ? value : [value]) {
+            if (user?.id) users.set(user.id, user)
+          }
+        }
+      }
+
+      const laneKeys = new Set<string>(users.keys())
+      for (const laneCounts of countByStackAndLane.value.values()) {
+        for (const [laneKey, count] of laneCounts) {
+          if (laneKey && count) laneKeys.add(laneKey)
+        }
+      }
+
+      const baseUsers = basesUser.value.get((meta.value as TableType)?.base_id ?? base.value?.id ?? '') ?? []
+
+      return [
+        ...[...laneKeys].map((key) => {
+          const user = users.get(key) ?? (baseUsers.find((u) => u.id === key) as UserType | undefined)
+          return { key, title: user?.display_name || user?.email || key, user }
+        }),
+        { key: null, title: null },
+      ]
+    })
+
+    function updateLaneCount(stackTitle: string | null, laneKey: string | null, diff: number) {
+      if (!countByStackAndLane.value.has(stackTitle)) {
+        countByStackAndLane.value.set(stackTitle, new Map())
+      }
+      const laneCounts = countByStackAndLane.value.get(stackTitle)!
+      laneCounts.set(laneKey, Math.max((laneCounts.get(laneKey) ?? 0) + diff, 0))
+    }
+
+    // work in progress limit of a stack, stored along with the stack meta
+    function getStackWipLimit(stackTitle: string | null) {
+      const stack = groupingFieldColOptions.value.find((s) => s.title === stackTitle)
+
+      return stack?.wip_limit ? { limit: stack.wip_limit, mode: stack.wip_limit_mode ?? 'warn' } : null
+    }
+
+    function isWipLimitReached(stackTitle: string | null) {
+      const wipLimit = getStackWipLimit(stackTitle)
+
+      return !!wipLimit && (countByStack.value.get(stackTitle) ?? 0) >= wipLimit.limit
+    }
+
+    // checks the limit of the target stack before a card is moved into it
+    // stacks in `block` mode reject the move once the limit is reached, others only warn
+    function canMoveToStack(stackTitle: string | null, notify = true) {
+      const wipLimit = getStackWipLimit(stackTitle)
+
+      if (!wipLimit || !isWipLimitReached(stackTitle)) return true
+
+      if (notify) {
+        const msg = t('activity.kanban.wipLimitReached', { stack: stackTitle ?? 'Uncategorized', limit: wipLimit.limit })
+        if (wipLimit.mode === 'block') message.error(msg)
+        else message.warning(msg)
+      }
+
+      return wipLimit.mode !== 'block'
+    }
+
+    async function updateStackWipLimit(stackIdx: number, wipLimit: { limit: number; mode: WipLimitModeType } | null) {
+      const stack = groupingFieldColOptions.value[stackIdx]
+      if (!stack) return
+
+      stack.wip_limit = wipLimit?.limit ?? null
+      stack.wip_limit_mode = wipLimit?.mode ?? 'warn'
+
+      await updateKanbanStackMeta()
+    }
+
     const formatData = (list: Record<string, any>[]) =>
       list.map((row) => ({
         row: { ...row },
@@ -118,6 +257,7 @@ const [useProvideKanbanViewStore, useKanbanViewStore] = useInjectionState(
       // reset formattedData & countByStack to avoid storing previous data after changing grouping field
       formattedData.value = new Map<string | null, Row[]>()
       countByStack.value = new Map<string | null, number>()
+      countByStackAndLane.value = new Map<string | null, Map<string | null, number>>()
 
       let groupData
 
@@ -142,6 +282,13 @@ const [useProvideKanbanViewStore, useKanbanViewStore] = useInjectionState(
         const key = typeof data.key === 'string' ? (data.key?.length ? data.key : null) : null
         formattedData.value.set(key, formatData(data.value.list))
         countByStack.value.set(key, data.value.pageInfo.totalRows || 0)
+        // record count of each lane, returned if the view has a swimlane field
+        if (data.lanes) {
+          countByStackAndLane.value.set(
+            key,
+            new Map((data.lanes as { key: string | null; count: number }[]).map((lane) => [lane.key || null, lane.count])),
+          )
+        }
       }
     }
 
@@ -220,7 +367,7 @@ const [useProvideKanbanViewStore, useKanbanViewStore] = useInjectionState(
           const idx = stackMetaObj.value[fk_grp_col_id].findIndex((ele) => ele.id === option.id)
           if (idx !== -1) {
             // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            const { collapsed, ...rest } = stackMetaObj.value[fk_grp_col_id][idx]
+            const { collapsed, wip_limit, wip_limit_mode, ...rest } = stackMetaObj.value[fk_grp_col_id][idx]
             if (!deepCompare(rest, option)) {
               // Don't update stack meta if it is shared view and
               // shared view meta grouping field options not matched with actual column options
@@ -470,6 +617,67 @@ const [useProvideKanbanViewStore, useKanbanViewStore] = useInjectionState(
       }
     }
 
+    function getLaneRows(stackTitle: string | null, laneKey: string | null) {
+      return (formattedData.value.get(stackTitle) ?? []).filter(({ row }) => getLaneKey(row) === laneKey)
+    }
+
+    // moves a card to another stack and/or lane, both field values are saved in a single update
+    async function moveRowToStackAndLane(row: Row, stackTitle: string | null, laneKey: string | null, rowIndex?: number) {
+      const column = swimlaneFieldColumn.value
+      if (!column) return
+
+      const oldStackTitle = row.row[groupingField.value] || null
+      const oldLaneKey = getLaneKey(row.row)
+
+      if (oldStackTitle === stackTitle && oldLaneKey === laneKey) return
+
+      const primaryKey = extractPkFromRow(row.row, meta.value!.columns as ColumnType[])
+
+      formattedData.value.set(
+        oldStackTitle,
+        (formattedData.value.get(oldStackTitle) ?? []).filter(
+          (ele) => extractPkFromRow(ele.row, meta.value!.columns as ColumnType[]) !== primaryKey,
+        ),
+      )
+      const targetStack = [...(formattedData.value.get(stackTitle) ?? [])]
+      targetStack.splice(rowIndex ?? targetStack.length, 0, row)
+      formattedData.value.set(stackTitle, targetStack)
+
+      if (oldStackTitle !== stackTitle) {
+        countByStack.value.set(oldStackTitle, (countByStack.value.get(oldStackTitle) ?? 1) - 1)
+        countByStack.value.set(stackTitle, (countByStack.value.get(stackTitle) ?? 0) + 1)
+      }
+      updateLaneCount(oldStackTitle, oldLaneKey, -1)
+      updateLaneCount(stackTitle, laneKey, 1)
+
+      const isUserLane = column.uidt === UITypes.User
+      const lane = swimlanes.value.find((l) => l.key === laneKey)
+
+      row.row[groupingField.value] = stackTitle
+      row.row[column.title!] = isUserLane ? (laneKey ? [lane?.user ?? { id: laneKey }] : null) : laneKey
+
+      try {
+        const updatedRowData = await $api.dbViewRow.update(
+          NOCO,
+          meta.value?.base_id ?? (base?.value.id as string),
+          meta.value?.id as string,
+          viewMeta?.value?.id as string,
+          encodeURIComponent(primaryKey),
+          {
+            [groupingField.value]: stackTitle,
+            [column.title!]: isUserLane ? (laneKey ? [{ id: laneKey }] : null) : laneKey,
+          },
+        )
+
+        Object.assign(row.row, updatedRowData)
+        Object.assign(row.oldRow, updatedRowData)
+      } catch (e: any) {
+        message.error(`${t('msg.error.rowUpdateFailed')} ${await extractSdkResponseErrorMsg(e)}`)
+        // local state is out of sync with the saved records
+        await loadKanbanData()
+      }
+    }
+
     async function bulkUpdateGroupingFieldValue(stackTitle: string, moveToUncategorizedStack = false) {
       try {
         // set groupingField to target value for all records under the target stack
@@ -572,6 +780,7 @@ const [useProvideKanbanViewStore, useKanbanViewStore] = useInjectionState(
           }
           // increase the current count in the target stack by 1
           countByStack.value.set(stackTitle, countByStack.value.get(stackTitle)! + 1)
+          if (swimlaneFieldColumn.value) updateLaneCount(stackTitle, getLaneKey(row.row), 1)
           // clear the one under uncategorized since we don't reload the view
           removeRowFromUncategorizedStack()
         } else {
@@ -633,6 +842,7 @@ const [useProvideKanbanViewStore, useKanbanViewStore] = useInjectionState(
       )
       // decrease countByStack of target stack by 1
       countByStack.value.set(stackTitle, countByStack.value.get(stackTitle)! - 1)
+      if (swimlaneFieldColumn.value) updateLaneCount(stackTitle, getLaneKey(row.row), -1)
     }
 
     function removeRowFromUncategorizedStack() {
@@ -714,6 +924,16 @@ const [useProvideKanbanViewStore, useKanbanViewStore] = useInjectionState(
       kanbanMetaData,
       formattedData,
       countByStack,
+      countByStackAndLane,
+      swimlaneFieldColumn,
+      swimlanes,
+      getLaneKey,
+      getLaneRows,
+      moveRowToStackAndLane,
+      getStackWipLimit,
+      isWipLimitReached,
+      canMoveToStack,
+      updateStackWipLimit,
       groupingField,
       groupingFieldColOptions,
       groupingFieldColumn,
@@ -11,6 +11,27 @@ const formatData = (list: Record<string, any>[]) =>
       } as Row),
   )
 
+// below this zoom level the markers are clustered by the server
+const GEO_CLUSTER_ZOOM_LEVEL = 10
+
+export interface MapViewport {
+  south: number
+  west: number
+  north: number
+  east: number
+  zoom: number
+}
+
+export interface MapGeoCluster {
+  lat: number
+  lng: number
+  count: number
+}
+
+const normalizeLongitude = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180
+
+const clampLatitude = (lat: number) => Math.min(90, Math.max(-90, lat))
+
 const [useProvideMapViewStore, useMapViewStore] = useInjectionState(
   (
     meta: Ref<(MapType & { id: string }) | undefined>,
@@ -38,7 +59,7 @@ const [useProvideMapViewStore, useMapViewStore] = useInjectionState(
 
     const { sorts, nestedFilters } = useSmartsheetStoreOrThrow()
 
-    const { sharedView, fetchSharedViewData } = useSharedView()
+    const { sharedView, fetchSharedViewData, fetchSharedViewGeoClusters } = useSharedView()
 
     const mapMetaData = ref<MapType>({})
 
@@ -46,9 +67,34 @@ const [useProvideMapViewStore, useMapViewStore] = useInjectionState(
 
     const paginationData = ref<PaginatedType>({ page: 1, pageSize: defaultPageSize })
 
+    const viewport = ref<MapViewport>()
+
+    const geoClusters = ref<MapGeoCluster[]>([])
+
+    const isClustered = computed(() => !!viewport.value && viewport.value.zoom < GEO_CLUSTER_ZOOM_LEVEL)
+
+    // restrict the records to the visible part of the map
+    const viewportWhere = computed(() => {
+      if (!viewport.value || !geoDataFieldColumn.value?.title) return
+
+      const { south, west, north, east } = viewport.value
+
+      // the map shows the whole world once zoomed out enough
+      const [minLng, maxLng] = east - west >= 360 ? [-180, 180] : [normalizeLongitude(west), normalizeLongitude(east)]
+
+      return `(${geoDataFieldColumn.value.title},withinBoundingBox,${clampLatitude(south)};${minLng};${clampLatitude(
+        north,
+      )};${maxLng})`
+    })
+
+    const mapWhere = computed(() => {
+      if (!viewportWhere.value) return where?.value ?? ''
+      return where?.value ? `(${where.value})~and${viewportWhere.value}` : viewportWhere.value
+    })
+
     const queryParams = computed(() => ({
       limit: paginationData.value.pageSize ?? defaultPageSize,
-      where: where?.value ?? '',
+      where: mapWhere.value,
     }))
 
     async function syncCount() {
@@ -69,20 +115,50 @@ const [useProvideMapViewStore, useMapViewStore] = useInjectionState(
         (meta.value.columns as ColumnType[]).filter((f) => f.id === mapMetaData.value.fk_geo_data_col_id)[0] || {}
     }
 
+    async function loadMapClusters() {
+      if (!viewport.value || !geoDataFieldColumn.value?.id) return
+
+      geoClusters.value = !isPublic.value
+        ? (
+            await $api.instance.get(
+              `/api/v1/db/data/noco/${base.value.id}/${meta.value!.id}/views/${viewMeta.value!.id}/geo-clusters/${
+                geoDataFieldColumn.value.id
+              }`,
+              {
+                params: {
+                  zoom: viewport.value.zoom,
+                  where: mapWhere.value,
+                  ...(isUIAllowed('filterSync') ? {} : { filterArrJson: JSON.stringify(nestedFilters.value) }),
+                },
+              },
+            )
+          ).data
+        : await fetchSharedViewGeoClusters({ zoom: viewport.value.zoom, filtersArr: nestedFilters.value, where: mapWhere.value })
+
+      formattedData.value = []
+    }
+
     async function loadMapData() {
       if ((!base?.value?.id || !meta.value?.id || !viewMeta.value?.id) && !isPublic?.value) return
 
+      if (isClustered.value) return loadMapClusters()
+
       const res = !isPublic.value
         ? await api.dbViewRow.list('noco', base.value.id!, meta.value!.id!, viewMeta.value!.id!, {
             ...queryParams.value,
             ...(isUIAllowed('filterSync') ? {} : { filterArrJson: JSON.stringify(nestedFilters.value) }),
-            where: where?.value,
           })
-        : await fetchSharedViewData({ sortsArr: sorts.value, filtersArr: nestedFilters.value })
+        : await fetchSharedViewData({ sortsArr: sorts.value, filtersArr: nestedFilters.value, where: mapWhere.value })
 
+      geoClusters.value = []
       formattedData.value = formatData(res!.list)
     }
 
+    async function updateViewport(nextViewport: MapViewport) {
+      viewport.value = nextViewport
+      await loadMapData()
+    }
+
     async function updateMapMeta(updateObj: Partial<MapType>) {
       if (!viewMeta?.value?.id || !isUIAllowed('dataEdit', { skipSourceCheck: true })) return
       await $api.dbView.mapUpdate(viewMeta.value.id, updateObj)
@@ -146,6 +222,9 @@ const [useProvideMapViewStore, useMapViewStore] = useInjectionState(
 
     return {
       formattedData,
+      geoClusters,
+      isClustered,
+      updateViewport,
       loadMapData,
       loadMapMeta,
       updateMapMeta,
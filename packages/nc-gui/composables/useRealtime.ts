@@ -0,0 +1,150 @@
+import type { AppEvents } from 'nocodb-sdk'
+import type { ComputedRef } from 'vue'
+import type { Socket } from 'socket.io-client'
+
+export interface RealtimeSubscription {
+  baseId: string
+  tableId: string
+  viewId?: string
+}
+
+export interface RealtimeDataChange {
+  action: AppEvents.DATA_CREATE | AppEvents.DATA_UPDATE | AppEvents.DATA_DELETE
+  tableId: string
+  viewId?: string
+  userId?: string
+  // primary keys of the changed rows, null when too many rows changed at once
+  // and the view should be reloaded instead
+  rowIds: string[] | null
+}
+
+export interface RealtimeSchemaChange {
+  action: AppEvents.COLUMN_CREATE | AppEvents.COLUMN_UPDATE | AppEvents.COLUMN_DELETE
+  tableId: string
+  columnId: string
+}
+
+export interface RealtimeCollaborator {
+  socketId: string
+  id?: string
+  email?: string
+  display_name?: string
+}
+
+export interface RealtimeCellSelection {
+  viewId: string
+  rowId: string | null
+  columnId: string | null
+  collaborator: RealtimeCollaborator
+}
+
+const realtimeState = createGlobalState(() => {
+  // several composables can subscribe to the same room, only the last one leaving unsubscribes
+  const subscriptionCount = new Map<string, number>()
+  return { subscriptionCount }
+})
+
+/**
+ * Joins the table and view rooms of the socket gateway while `subscription` is set
+ * and forwards row, schema and cell selection changes made by collaborators.
+ */
+export function useRealtime(subscription: ComputedRef<RealtimeSubscription | null | undefined>) {
+  const { $ncSocket } = useNuxtApp()
+
+  const { subscriptionCount } = realtimeState()
+
+  const listeners: Array<[string, (payload: any) => void]> = []
+
+  const getKey = (sub: RealtimeSubscription) => `${sub.tableId}:${sub.viewId ?? ''}`
+
+  const subscribe = (sub: RealtimeSubscription) => {
+    const key = getKey(sub)
+    subscriptionCount.set(key, (subscriptionCount.get(key) ?? 0) + 1)
+    $ncSocket?.value?.emit('subscribe', sub)
+  }
+
+  const unsubscribe = (sub: RealtimeSubscription) => {
+    const key = getKey(sub)
+    const count = (subscriptionCount.get(key) ?? 1) - 1
+
+    if (count > 0) {
+      subscriptionCount.set(key, count)
+      return
+    }
+
+    subscriptionCount.delete(key)
+    $ncSocket?.value?.emit('unsubscribe', sub)
+  }
+
+  // rooms are lost on reconnect, so join them again
+  const onConnect = () => {
+    if (subscription.value) $ncSocket?.value?.emit('subscribe', subscription.value)
+  }
+
+  const bind = (socket?: Socket) => {
+    if (!socket) return
+    socket.on('connect', onConnect)
+    for (const [event, listener] of listeners) socket.on(event, listener)
+  }
+
+  const unbind = (socket?: Socket) => {
+    if (!socket) return
+    socket.off('connect', onConnect)
+    for (const [event, listener] of listeners) socket.off(event, listener)
+  }
+
+  const on = <T>(event: string, filter: (payload: T) => boolean, handler: (payload: T) => void) => {
+    const listener = (payload: T) => {
+      if (subscription.value && filter(payload)) handler(payload)
+    }
+    listeners.push([event, listener])
+    $ncSocket?.value?.on(event, listener)
+  }
+
+  const onDataChange = (handler: (payload: RealtimeDataChange) => void) =>
+    on<RealtimeDataChange>('data:change', (payload) => payload.tableId === subscription.value?.tableId, handler)
+
+  const onSchemaChange = (handler: (payload: RealtimeSchemaChange) => void) =>
+    on<RealtimeSchemaChange>('schema:change', (payload) => payload.tableId === subscription.value?.tableId, handler)
+
+  const onCellSelect = (handler: (payload: RealtimeCellSelection) => void) =>
+    on<RealtimeCellSelection>('cell:select', (payload) => payload.viewId === subscription.value?.viewId, handler)
+
+  const selectCell = (rowId: string | null, columnId: string | null) => {
+    if (!subscription.value?.viewId) return
+    $ncSocket?.value?.emit('cell:select', { viewId: subscription.value.viewId, rowId, columnId })
+  }
+
+  watch(
+    subscription,
+    (next, prev) => {
+      if (next && prev && getKey(next) === getKey(prev)) return
+      if (prev) unsubscribe(prev)
+      if (next) subscribe(next)
+    },
+    { immediate: true },
+  )
+
+  if ($ncSocket) {
+    watch(
+      $ncSocket,
+      (socket, oldSocket) => {
+        unbind(oldSocket)
+        bind(socket)
+      },
+      { immediate: true },
+    )
+  }
+
+  tryOnScopeDispose(() => {
+    if (subscription.value) unsubscribe(subscription.value)
+    unbind($ncSocket?.value)
+  })
+
+  return {
+    onDataChange,
+    onSchemaChange,
+    onCellSelect,
+    selectCell,
+  }
+}
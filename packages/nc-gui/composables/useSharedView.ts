@@ -105,8 +105,8 @@ export function useSharedView() {
         if (range.fk_from_column_id) {
           rangeFields.push(range.fk_from_column_id)
         }
-        if ((range as any).fk_to_column_id) {
-          rangeFields.push((range as any).fk_to_column_id)
+        if (range.fk_to_column_id) {
+          rangeFields.push(range.fk_to_column_id)
         }
       }
     }
@@ -231,6 +231,23 @@ export function useSharedView() {
     )
   }
 
+  const fetchSharedViewGeoClusters = async (param: { zoom: number; filtersArr?: FilterType[]; where?: string }) => {
+    if (!sharedView.value) return []
+
+    const { data } = await $api.instance.get(`/api/v2/public/shared-view/${sharedView.value.uuid}/geo-clusters`, {
+      params: {
+        zoom: param.zoom,
+        where: param.where,
+        filterArrJson: JSON.stringify(param.filtersArr ?? nestedFilters.value),
+      },
+      headers: {
+        'xc-password': password.value,
+      },
+    })
+
+    return data as { lat: number; lng: number; count: number }[]
+  }
+
   const fetchAggregatedData = async (param: {
     aggregation?: Array<{
       field: string
@@ -462,6 +479,7 @@ export function useSharedView() {
     fetchSharedViewData,
     fetchSharedViewActiveDate,
     fetchSharedCalendarViewData,
+    fetchSharedViewGeoClusters,
     fetchSharedViewGroupedData,
     fetchAggregatedData,
     fetchBulkAggregatedData,
@@ -47,6 +47,7 @@ const [useProvideSmartsheetStore, useSmartsheetStore] = useInjectionState(
     const isCalendar = computed(() => view.value?.type === ViewTypes.CALENDAR)
     const isKanban = computed(() => view.value?.type === ViewTypes.KANBAN)
     const isMap = computed(() => view.value?.type === ViewTypes.MAP)
+    const isTimeline = computed(() => view.value?.type === ViewTypes.TIMELINE)
     const isSharedForm = computed(() => isForm.value && shared)
     const isDefaultView = computed(() => view.value?.is_default)
     const gridEditEnabled = ref(true)
@@ -196,6 +197,7 @@ const [useProvideSmartsheetStore, useSmartsheetStore] = useInjectionState(
       isKanban,
       isMap,
       isCalendar,
+      isTimeline,
       isSharedForm,
       sorts,
       nestedFilters,
@@ -0,0 +1,282 @@
+import type { ComputedRef, Ref } from 'vue'
+import type {
+  ColumnType,
+  LinkToAnotherRecordType,
+  PaginatedType,
+  RelationTypes,
+  TableType,
+  TimelineType,
+  ViewType,
+} from 'nocodb-sdk'
+import { UITypes, ViewTypes } from 'nocodb-sdk'
+import dayjs from 'dayjs'
+
+const formatData = (list: Record<string, any>[]) =>
+  list.map(
+    (row) =>
+      ({
+        row: { ...row },
+        oldRow: { ...row },
+        rowMeta: {},
+      } as Row),
+  )
+
+const [useProvideTimelineViewStore, useTimelineViewStore] = useInjectionState(
+  (
+    meta: Ref<TableType | undefined> | ComputedRef<TableType | undefined>,
+    viewMeta: Ref<ViewType | undefined> | ComputedRef<ViewType | undefined>,
+  ) => {
+    if (!meta) {
+      throw new Error('Table meta is not available')
+    }
+
+    const defaultPageSize = 1000
+
+    // max number of records for which the linked "depends on" records are loaded
+    const maxDependencyRequests = 200
+
+    // number of "depends on" requests sent in parallel
+    const dependencyBatchSize = 10
+
+    const { t } = useI18n()
+
+    const { api } = useApi()
+
+    const { base } = storeToRefs(useBase())
+
+    const { $api } = useNuxtApp()
+
+    const { isUIAllowed } = useRoles()
+
+    const { addUndo, clone, defineViewScope } = useUndoRedo()
+
+    const { sorts, nestedFilters, xWhere } = useSmartsheetStoreOrThrow()
+
+    const formattedData = ref<Row[]>([])
+
+    const timelineMetaData = ref<TimelineType>({})
+
+    const isLoading = ref(false)
+
+    const paginationData = ref<PaginatedType>({ page: 1, pageSize: defaultPageSize })
+
+    // primary key of a record to the primary keys of the records it depends on
+    const dependencies = ref<Map<string, string[]>>(new Map())
+
+    const columnById = (columnId?: string | null) =>
+      columnId ? (meta.value?.columns as ColumnType[] | undefined)?.find((c) => c.id === columnId) : undefined
+
+    const startColumn = computed(() => columnById(timelineMetaData.value.fk_start_col_id))
+
+    const endColumn = computed(() => columnById(timelineMetaData.value.fk_end_col_id))
+
+    const groupColumn = computed(() => columnById(timelineMetaData.value.fk_grp_col_id))
+
+    const dependencyColumn = computed(() => columnById(timelineMetaData.value.fk_dependency_col_id))
+
+    const isDateTime = computed(() => startColumn.value?.uidt === UITypes.DateTime)
+
+    const isEditable = computed(() => isUIAllowed('dataEdit') && !startColumn.value?.readonly)
+
+    const getRowPk = (row: Row) => extractPkFromRow(row.row, meta.value?.columns as ColumnType[])
+
+    // bars without an end date span a single day
+    const getRowRange = (row: Row) => {
+      const startValue = startColumn.value ? row.row[startColumn.value.title!] : null
+      if (!startValue) return null
+
+      const start = dayjs(startValue)
+      if (!start.isValid()) return null
+
+      const endValue = endColumn.value ? row.row[endColumn.value.title!] : null
+      const end = endValue ? dayjs(endValue) : null
+
+      return {
+        start,
+        end: end?.isValid() && !end.isBefore(start) ? end : start,
+      }
+    }
+
+    async function loadTimelineMeta() {
+      if (!viewMeta?.value?.id || viewMeta.value.type !== ViewTypes.TIMELINE) return
+
+      timelineMetaData.value = await $api.dbView.timelineRead(viewMeta.value.id)
+    }
+
+    async function loadDependencies() {
+      dependencies.value = new Map()
+
+      const column = dependencyColumn.value
+      if (!column || !meta.value?.id) return
+
+      const relationType = (column.colOptions as LinkToAnotherRecordType)?.type as RelationTypes
+
+      // list api only returns the number of linked records, load the links of the records which have any
+      const rows = formattedData.value.filter((row) => row.row[column.title!]).slice(0, maxDependencyRequests)
+
+      const loadLinkedPks = async (row: Row): Promise<[string, string[]]> => {
+        const rowId = getRowPk(row)
+
+        const res = await $api.dbTableRow.nestedList(
+          NOCO,
+          meta.value?.base_id ?? (base?.value?.id as string),
+          meta.value!.id!,
+          encodeURIComponent(rowId),
+          relationType,
+          column.id!,
+          { limit: '100', offset: '0' } as any,
+        )
+
+        const linked = (res?.list ?? []) as Record<string, any>[]
+
+        return [rowId, linked.map((record) => extractPkFromRow(record, meta.value?.columns as ColumnType[]))]
+      }
+
+      const entries: [string, string[]][] = []
+
+      try {
+        // load in batches to avoid sending all the requests at once
+        for (let i = 0; i < rows.length; i += dependencyBatchSize) {
+          entries.push(...(await Promise.all(rows.slice(i, i + dependencyBatchSize).map(loadLinkedPks))))
+        }
+      } catch (e: any) {
+        message.error(await extractSdkResponseErrorMsg(e))
+      }
+
+      dependencies.value = new Map(entries)
+    }
+
+    async function loadTimelineData() {
+      if (!base?.value?.id || !meta.value?.id || !viewMeta.value?.id || viewMeta.value.type !== ViewTypes.TIMELINE) return
+
+      isLoading.value = true
+
+      try {
+        const res = await api.dbViewRow.list('noco', base.value.id!, meta.value!.id!, viewMeta.value!.id!, {
+          limit: paginationData.value.pageSize ?? defaultPageSize,
+          ...(isUIAllowed('sortSync') ? {} : { sortArrJson: JSON.stringify(sorts.value) }),
+          ...(isUIAllowed('filterSync') ? {} : { filterArrJson: JSON.stringify(nestedFilters.value) }),
+          where: xWhere?.value,
+        })
+
+        formattedData.value = formatData(res!.list)
+        paginationData.value.totalRows = res?.pageInfo?.totalRows
+
+        await loadDependencies()
+      } catch (e: any) {
+        message.error(await extractSdkResponseErrorMsg(e))
+      } finally {
+        isLoading.value = false
+      }
+    }
+
+    async function updateTimelineMeta(updateObj: Partial<TimelineType>) {
+      if (!viewMeta?.value?.id || !isUIAllowed('viewCreateOrEdit')) return
+
+      await $api.dbView.timelineUpdate(viewMeta.value.id, updateObj)
+
+      timelineMetaData.value = { ...timelineMetaData.value, ...updateObj }
+
+      if (viewMeta.value.view) Object.assign(viewMeta.value.view, updateObj)
+    }
+
+    const formatDateValue = (date: dayjs.Dayjs) =>
+      isDateTime.value ? date.format('YYYY-MM-DD HH:mm:ssZ') : date.format('YYYY-MM-DD')
+
+    async function updateRowRange(toUpdate: Row, range: { start: dayjs.Dayjs; end: dayjs.Dayjs }, undo = false) {
+      if (!startColumn.value || !meta.value?.id || !viewMeta.value?.id) return
+
+      const updateObj: Record<string, any> = {
+        [startColumn.value.title!]: formatDateValue(range.start),
+        ...(endColumn.value && !endColumn.value.readonly ? { [endColumn.value.title!]: formatDateValue(range.end) } : {}),
+      }
+
+      const previousRange = getRowRange({ ...toUpdate, row: toUpdate.oldRow })
+
+      try {
+        // render the new position right away, reverted if the update fails
+        Object.assign(toUpdate.row, updateObj)
+
+        const updatedRowData = await $api.dbViewRow.update(
+          NOCO,
+          meta.value.base_id ?? (base?.value.id as string),
+          meta.value.id,
+          viewMeta.value.id,
+          encodeURIComponent(getRowPk(toUpdate)),
+          updateObj,
+        )
+
+        if (!undo && previousRange) {
+          addUndo({
+            redo: {
+              fn: async (row: Row, nextRange: { start: dayjs.Dayjs; end: dayjs.Dayjs }) => {
+                const rowInState = formattedData.value.find((r) => getRowPk(r) === getRowPk(row))
+                if (rowInState) await updateRowRange(rowInState, nextRange, true)
+              },
+              args: [clone(toUpdate), range],
+            },
+            undo: {
+              fn: async (row: Row, prevRange: { start: dayjs.Dayjs; end: dayjs.Dayjs }) => {
+                const rowInState = formattedData.value.find((r) => getRowPk(r) === getRowPk(row))
+                if (rowInState) await updateRowRange(rowInState, prevRange, true)
+              },
+              args: [clone(toUpdate), previousRange],
+            },
+            scope: defineViewScope({ view: viewMeta.value as ViewType }),
+          })
+        }
+
+        /** update row data(to sync formula and other related columns) */
+        Object.assign(toUpdate.row, updatedRowData)
+        Object.assign(toUpdate.oldRow, updatedRowData)
+
+        return updatedRowData
+      } catch (e: any) {
+        Object.assign(toUpdate.row, toUpdate.oldRow)
+        message.error(`${t('msg.error.rowUpdateFailed')} ${await extractSdkResponseErrorMsg(e)}`)
+      }
+    }
+
+    function addEmptyRow(addAfter = formattedData.value.length, row: Record<string, any> = {}) {
+      formattedData.value.splice(addAfter, 0, {
+        row,
+        oldRow: {},
+        rowMeta: { new: true },
+      })
+
+      return formattedData.value[addAfter]
+    }
+
+    return {
+      formattedData,
+      timelineMetaData,
+      isLoading,
+      paginationData,
+      dependencies,
+      startColumn,
+      endColumn,
+      groupColumn,
+      dependencyColumn,
+      isDateTime,
+      isEditable,
+      getRowPk,
+      getRowRange,
+      loadTimelineMeta,
+      loadTimelineData,
+      loadDependencies,
+      updateTimelineMeta,
+      updateRowRange,
+      addEmptyRow,
+    }
+  },
+)
+
+export { useProvideTimelineViewStore }
+
+export function useTimelineViewStoreOrThrow() {
+  const timelineViewStore = useTimelineViewStore()
+
+  if (timelineViewStore == null) throw new Error('Please call `useProvideTimelineViewStore` on the appropriate parent component')
+
+  return timelineViewStore
+}
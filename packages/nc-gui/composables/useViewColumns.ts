@@ -5,6 +5,7 @@ import {
   type GridColumnType,
   type MapType,
   type TableType,
+  type TimelineType,
   type ViewType,
 } from 'nocodb-sdk'
 import { ViewTypes, isHiddenCol, isSystemColumn } from 'nocodb-sdk'
@@ -50,6 +51,11 @@ const [useProvideViewColumns, useViewColumns] = useInjectionState(
       // TODO: consider at some point ti delegate this via a cleaner design pattern to view specific check logic
       // which could be inside of a view specific helper class (and generalized via an interface)
       // (on the other hand, the logic complexity is still very low atm - might be overkill)
+      if (view.value?.type === ViewTypes.TIMELINE) {
+        const timeline = view.value?.view as TimelineType
+        return [timeline?.fk_start_col_id, timeline?.fk_end_col_id].includes(column.id)
+      }
+
       return view.value?.type === ViewTypes.MAP && (view.value?.view as MapType)?.fk_geo_data_col_id === column.id
     }
 
@@ -89,6 +89,7 @@ const rolePermissions = {
       baseDuplicate: true,
       sourceCreate: true,
       baseAuditList: true,
+      recordTrashDelete: true,
 
       extensionList: true,
     },
@@ -104,6 +105,7 @@ const rolePermissions = {
       csvTableImport: true,
       excelTableImport: true,
       hookTrigger: true,
+      recordTrash: true,
     },
   },
   [ProjectRoles.COMMENTER]: {
@@ -1,4 +1,6 @@
 import type { Api as BaseAPI } from 'nocodb-sdk'
+import type { Socket } from 'socket.io-client'
+import type { ShallowRef } from 'vue'
 import type { UseGlobalReturn } from './composables/useGlobal/types'
 import type { NocoI18n } from './lib'
 import type { TabType } from './composables'
@@ -12,6 +14,8 @@ declare module '#app' {
     }
     /** {@link import('./plugins/tele') Telemetry} Emit telemetry event */
     $e: (event: string, data?: any) => void
+    /** {@link import('./plugins/tele') Socket} used for realtime collaboration, not available in EE */
+    $ncSocket?: ShallowRef<Socket | undefined>
     /** {@link import('./plugins/report') Error reporting} Error reporting */
     $report: (event: Error) => void
     $state: UseGlobalReturn
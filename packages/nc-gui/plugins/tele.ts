@@ -12,6 +12,9 @@ export default defineNuxtPlugin(async (nuxtApp) => {
 
     let socket: Socket
 
+    // exposed for realtime collaboration, replaced whenever the token changes
+    const socketRef = shallowRef<Socket>()
+
     const init = async (token: string) => {
       try {
         if (socket) socket.disconnect()
@@ -28,6 +31,8 @@ export default defineNuxtPlugin(async (nuxtApp) => {
         socket.on('connect_error', () => {
           socket.disconnect()
         })
+
+        socketRef.value = socket
       } catch {}
     }
 
@@ -92,6 +97,7 @@ export default defineNuxtPlugin(async (nuxtApp) => {
     })
 
     nuxtApp.provide('tele', tele)
+    nuxtApp.provide('ncSocket', socketRef)
     nuxtApp.provide('e', (e: string, data?: Record<string, any>) => tele.emit(e, { data }))
   }
 
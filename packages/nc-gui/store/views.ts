@@ -443,7 +443,7 @@ export const useViewsStore = defineStore('viewsStore', () => {
       // for calendar view only
       calendar_range: Array<{
         fk_from_column_id: string
-        fk_to_column_id: string | null // for ee only
+        fk_to_column_id: string | null
       }>
       fk_cover_image_col_id: string | null
     } = {
@@ -489,6 +489,10 @@ export const useViewsStore = defineStore('viewsStore', () => {
             })) || []
 
           return await $api.dbView.calendarCreate(view.fk_model_id, payload)
+
+        case _ViewTypes.TIMELINE:
+          // timeline fields are copied from the source view
+          return await $api.dbView.timelineCreate(view.fk_model_id, payload)
       }
     } catch (e: any) {
       console.error(e)
@@ -10,7 +10,7 @@ interface ProjectCreateForm {
   title: string
   dataSource: {
     client: ClientType
-    connection: DefaultConnection | SQLiteConnection | SnowflakeConnection | DatabricksConnection
+    connection: DefaultConnection | SQLiteConnection | SnowflakeConnection | DatabricksConnection | DuckdbConnection
     searchPath?: string[]
   }
   inflection: {
@@ -43,6 +43,11 @@ interface SQLiteConnection {
   useNullAsDefault?: boolean
 }
 
+interface DuckdbConnection {
+  filename?: string
+  files: { path: string; table_name?: string }[]
+}
+
 interface SnowflakeConnection {
   account: string
   username: string
@@ -73,10 +78,18 @@ export const clientTypes = [
     text: 'PostgreSQL',
     value: ClientType.PG,
   },
+  {
+    text: 'SQL Server',
+    value: ClientType.MSSQL,
+  },
   {
     text: 'SQLite',
     value: ClientType.SQLITE,
   },
+  {
+    text: 'DuckDB',
+    value: ClientType.DUCKDB,
+  },
   {
     text: 'Snowflake',
     value: ClientType.SNOWFLAKE,
@@ -95,7 +108,7 @@ export const clientTypesMap = clientTypes.reduce((acc, curr) => {
 const homeDir = ''
 
 type ConnectionClientType =
-  | Exclude<ClientType, ClientType.SQLITE | ClientType.SNOWFLAKE | ClientType.DATABRICKS>
+  | Exclude<ClientType, ClientType.SQLITE | ClientType.SNOWFLAKE | ClientType.DATABRICKS | ClientType.DUCKDB>
   | 'tidb'
   | 'yugabyte'
   | 'citusdb'
@@ -105,7 +118,7 @@ type ConnectionClientType =
 
 const sampleConnectionData: { [key in ConnectionClientType]: DefaultConnection } & { [ClientType.SQLITE]: SQLiteConnection } & {
   [ClientType.SNOWFLAKE]: SnowflakeConnection
-} & { [ClientType.DATABRICKS]: DatabricksConnection } = {
+} & { [ClientType.DATABRICKS]: DatabricksConnection } & { [ClientType.DUCKDB]: DuckdbConnection } = {
   [ClientType.PG]: {
     host: defaultHost,
     port: '5432',
@@ -120,6 +133,13 @@ const sampleConnectionData: { [key in ConnectionClientType]: DefaultConnection }
     password: 'password',
     database: '_test',
   },
+  [ClientType.MSSQL]: {
+    host: defaultHost,
+    port: '1433',
+    user: 'sa',
+    password: 'Password123.',
+    database: '_test',
+  },
   [ClientType.VITESS]: {
     host: defaultHost,
     port: '15306',
@@ -135,6 +155,10 @@ const sampleConnectionData: { [key in ConnectionClientType]: DefaultConnection }
     },
     useNullAsDefault: true,
   },
+  [ClientType.DUCKDB]: {
+    filename: '',
+    files: [{ path: '', table_name: '' }],
+  },
   [ClientType.SNOWFLAKE]: {
     account: 'LOCATOR.REGION',
     username: 'USERNAME',
@@ -198,7 +222,11 @@ export const getDefaultConnectionConfig = (client: ClientType): ProjectCreateFor
   return {
     client,
     connection: sampleConnectionData[client],
-    searchPath: [ClientType.PG].includes(client) ? (client === ClientType.PG ? ['public'] : ['dbo']) : undefined,
+    searchPath: [ClientType.PG, ClientType.MSSQL].includes(client)
+      ? client === ClientType.PG
+        ? ['public']
+        : ['dbo']
+      : undefined,
   }
 }
 
@@ -265,4 +293,5 @@ export {
   SQLiteConnection,
   SnowflakeConnection,
   DatabricksConnection,
+  DuckdbConnection,
 }
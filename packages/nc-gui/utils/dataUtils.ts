@@ -1,5 +1,6 @@
 import {
   RelationTypes,
+  RollupTextFunctions,
   UITypes,
   dateFormats,
   getRenderAsTextFunForUiType,
@@ -410,6 +411,10 @@ export const getRollupValue = (modelValue: string | null | number, params: Parse
     ...parseProp(col?.meta),
   }
 
+  if (RollupTextFunctions.includes(colOptions.rollup_function ?? '')) {
+    return modelValue?.toString() ?? ''
+  }
+
   if (renderAsTextFun.includes(colOptions.rollup_function ?? '')) {
     childColumn.uidt = UITypes.Decimal
   }
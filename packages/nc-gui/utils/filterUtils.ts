@@ -344,6 +344,18 @@ export const comparisonOpList = (
     ignoreVal: true,
     includedTypes: [UITypes.Date, UITypes.DateTime, UITypes.LastModifiedTime, UITypes.CreatedTime],
   },
+  {
+    text: 'is within radius',
+    value: 'withinRadius',
+    ignoreVal: false,
+    includedTypes: [UITypes.GeoData],
+  },
+  {
+    text: 'is within bounding box',
+    value: 'withinBoundingBox',
+    ignoreVal: false,
+    includedTypes: [UITypes.GeoData],
+  },
   {
     text: 'is blank',
     value: 'blank',
@@ -908,6 +908,7 @@ export const iconMap = {
   'form': NcFormViewIcon,
   'gallery': NcGalleryViewIcon,
   'kanban': NcKanbanViewIcon,
+  'timeline': NcViewGantt,
 
   'strike': NcStrike,
   'atSign': NcAtSign,
@@ -135,6 +135,20 @@ export const allIntegrations: IntegrationItemType[] = [
     type: IntegrationCategoryType.DATABASE,
     isAvailable: true,
   },
+  {
+    title: 'objects.syncData.sqlServer',
+    sub_type: ClientType.MSSQL,
+    icon: iconMap.mssqlServer,
+    type: IntegrationCategoryType.DATABASE,
+    isAvailable: true,
+  },
+  {
+    title: 'objects.syncData.duckdb',
+    sub_type: ClientType.DUCKDB,
+    icon: iconMap.database,
+    type: IntegrationCategoryType.DATABASE,
+    isAvailable: true,
+  },
   {
     title: 'objects.syncData.sqlite',
     sub_type: ClientType.SQLITE,
@@ -12,6 +12,7 @@ export const viewIcons: Record<number | string, { icon: any; color: string }> =
   [ViewTypes.GALLERY]: { icon: iconMap.gallery, color: '#FC3AC6' },
   [ViewTypes.MAP]: { icon: iconMap.map, color: 'blue' },
   [ViewTypes.KANBAN]: { icon: iconMap.kanban, color: '#FF9052' },
+  [ViewTypes.TIMELINE]: { icon: iconMap.timeline, color: '#2D8A6E' },
   view: { icon: iconMap.view, color: 'blue' },
 }
 
@@ -3,7 +3,11 @@ import AbstractColumnHelper, {
   SerializerOrParserFnProps,
 } from '../column.interface';
 import { ColumnHelper } from '../column-helper';
-import { getRenderAsTextFunForUiType, parseProp } from '~/lib/helperFunctions';
+import {
+  getRenderAsTextFunForUiType,
+  parseProp,
+  RollupTextFunctions,
+} from '~/lib/helperFunctions';
 import UITypes from '~/lib/UITypes';
 import { ComputedTypePasteError } from '~/lib/error';
 import { precisionFormats } from '../utils';
@@ -34,6 +38,11 @@ export class RollupHelper extends AbstractColumnHelper {
     const { col, meta, metas } = params;
 
     const colOptions = col.colOptions as RollupType;
+
+    // linked values are already joined into a text
+    if (RollupTextFunctions.includes(colOptions.rollup_function)) {
+      return value;
+    }
     const relationColumnOptions = colOptions.fk_relation_column_id
       ? (meta?.columns?.find((c) => c.id === colOptions.fk_relation_column_id)
           ?.colOptions as LinkToAnotherRecordType)
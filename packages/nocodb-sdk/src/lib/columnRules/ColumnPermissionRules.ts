@@ -0,0 +1,75 @@
+import { ProjectRoles } from '../enums';
+import { RolesType } from '../globals';
+import { extractRolesObj } from '../helperFunctions';
+
+export enum ColumnPermission {
+  HIDDEN = 'hidden',
+  READONLY = 'readonly',
+  EDITABLE = 'editable',
+}
+
+// roles which can be restricted per column, owner and creator always have full access
+export const ColumnPermissionRoles = [
+  ProjectRoles.EDITOR,
+  ProjectRoles.COMMENTER,
+  ProjectRoles.VIEWER,
+];
+
+export type ColumnPermissionsType = Partial<
+  Record<ProjectRoles, ColumnPermission>
+>;
+
+const permissionRank = {
+  [ColumnPermission.HIDDEN]: 0,
+  [ColumnPermission.READONLY]: 1,
+  [ColumnPermission.EDITABLE]: 2,
+};
+
+/**
+ * Get the permission of a column for the given base roles.
+ * If the user has multiple roles the most permissive one is used,
+ * internal operations without roles are never restricted.
+ */
+export const getColumnPermission = (
+  column: { permissions?: ColumnPermissionsType | string | null },
+  roles?: RolesType | null
+): ColumnPermission => {
+  const rolesObj = extractRolesObj(roles);
+
+  if (
+    !rolesObj ||
+    rolesObj[ProjectRoles.OWNER] ||
+    rolesObj[ProjectRoles.CREATOR]
+  ) {
+    return ColumnPermission.EDITABLE;
+  }
+
+  let permissions = column?.permissions;
+
+  if (typeof permissions === 'string') {
+    try {
+      permissions = JSON.parse(permissions) as ColumnPermissionsType;
+    } catch {
+      permissions = null;
+    }
+  }
+
+  if (!permissions) return ColumnPermission.EDITABLE;
+
+  const userRoles = ColumnPermissionRoles.filter((role) => rolesObj[role]);
+
+  if (!userRoles.length) return ColumnPermission.EDITABLE;
+
+  return userRoles
+    .map(
+      (role) =>
+        (permissions as ColumnPermissionsType)[role] ??
+        ColumnPermission.EDITABLE
+    )
+    .reduce((a, b) => (permissionRank[a] >= permissionRank[b] ? a : b));
+};
+
+export const isColumnHiddenForRoles = (
+  column: { permissions?: ColumnPermissionsType | string | null },
+  roles?: RolesType | null
+) => getColumnPermission(column, roles) === ColumnPermission.HIDDEN;
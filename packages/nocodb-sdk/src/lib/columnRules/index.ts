@@ -1 +1,2 @@
 export * from './QrAndBarcodeRules';
+export * from './ColumnPermissionRules';
@@ -108,6 +108,10 @@ export enum AppEvents {
   MAP_UPDATE = 'map.update',
   MAP_DELETE = 'map.delete',
 
+  TIMELINE_CREATE = 'timeline.create',
+  TIMELINE_UPDATE = 'timeline.update',
+  TIMELINE_DELETE = 'timeline.delete',
+
   KANBAN_CREATE = 'kanban.create',
   KANBAN_UPDATE = 'kanban.update',
 
@@ -160,6 +164,7 @@ export enum AppEvents {
   INTEGRATION_UPDATE = 'integration.update',
 
   ROW_USER_MENTION = 'row.user.mention',
+  ROW_USER_ASSIGN = 'row.user.assign',
   CALENDAR_CREATE = 'calendar.create',
   FORM_DUPLICATE = 'form.duplicate',
   CALENDAR_UPDATE = 'calendar.update',
@@ -365,6 +370,8 @@ export enum ClientType {
   VITESS = 'vitess',
   SNOWFLAKE = 'snowflake',
   DATABRICKS = 'databricks',
+  MSSQL = 'mssql',
+  DUCKDB = 'duckdb',
 }
 
 export enum SSLUsage {
@@ -480,3 +487,15 @@ export enum NcApiVersion {
   V2,
   V3,
 }
+
+export enum HookLogDeliveryStatus {
+  SUCCESS = 'success',
+  RETRYING = 'retrying',
+  DEAD_LETTER = 'dead_letter',
+}
+
+export enum NotificationEmailPreference {
+  INSTANT = 'instant',
+  DIGEST = 'digest',
+  OFF = 'off',
+}
@@ -10,6 +10,13 @@ import { buildFilterTree } from '~/lib/filterHelpers';
 import { parseProp } from '~/lib/helperFunctions';
 import UITypes from '~/lib/UITypes';
 import { getLookupColumnType } from '~/lib/columnHelper/utils/get-lookup-column-type';
+import {
+  isGeoPointWithinBoundingBox,
+  isGeoPointWithinRadius,
+  parseGeoBoundingBoxFilterValue,
+  parseGeoPoint,
+  parseGeoRadiusFilterValue,
+} from '~/lib/geoDataUtils';
 import { CURRENT_USER_TOKEN } from '../globals';
 import { ColumnHelper } from '../columnHelper';
 
@@ -350,6 +357,24 @@ export function validateRowFilters(params: {
             case 'ge':
               res = +data[field] >= +filter.value;
               break;
+            case 'withinRadius': {
+              const point = parseGeoPoint(data[field]);
+              const radiusFilter = parseGeoRadiusFilterValue(filter.value);
+              res =
+                !!point &&
+                !!radiusFilter &&
+                isGeoPointWithinRadius(point, radiusFilter);
+              break;
+            }
+            case 'withinBoundingBox': {
+              const point = parseGeoPoint(data[field]);
+              const boundingBox = parseGeoBoundingBoxFilterValue(filter.value);
+              res =
+                !!point &&
+                !!boundingBox &&
+                isGeoPointWithinBoundingBox(point, boundingBox);
+              break;
+            }
           }
         }
       }
@@ -138,6 +138,114 @@ describe('Formula parsing and type validation', () => {
     });
   });
 
+  describe('date formatting and working days', () => {
+    const columns = [
+      {
+        id: 'date1',
+        title: 'Date1',
+        uidt: UITypes.Date,
+      },
+      {
+        id: 'date2',
+        title: 'Date2',
+        uidt: UITypes.DateTime,
+      },
+    ];
+
+    it(`returns the expected types`, async () => {
+      const expectations = {
+        'DATETIME_FORMAT({Date1}, "DD MMM YYYY [at] HH:mm")':
+          FormulaDataTypes.STRING,
+        'DATETIME_PARSE("25.12.2024", "DD.MM.YYYY")': FormulaDataTypes.DATE,
+        'SET_TIMEZONE({Date2}, "Europe/Berlin")': FormulaDataTypes.DATE,
+        'SET_TIMEZONE({Date2}, "-03:30")': FormulaDataTypes.DATE,
+        'WORKDAY({Date1}, 10, "2024-12-25")': FormulaDataTypes.DATE,
+        'NETWORKDAYS({Date1}, {Date2})': FormulaDataTypes.NUMERIC,
+      };
+
+      for (const [formula, dataType] of Object.entries(expectations)) {
+        const result = await validateFormulaAndExtractTreeWithType({
+          formula,
+          columns,
+          clientOrSqlUi: 'pg',
+          getMeta: async () => ({}),
+        });
+        expect(result.dataType).toEqual(dataType);
+      }
+    });
+
+    it(`DATETIME_PARSE only accepts fixed width patterns`, async () => {
+      await expect(
+        validateFormulaAndExtractTreeWithType({
+          formula: 'DATETIME_PARSE("5 March 2024", "D MMMM YYYY")',
+          columns,
+          clientOrSqlUi: 'pg',
+          getMeta: async () => ({}),
+        })
+      ).rejects.toThrow('DATETIME_PARSE');
+    });
+
+    it(`SET_TIMEZONE validates the time zone`, async () => {
+      await expect(
+        validateFormulaAndExtractTreeWithType({
+          formula: 'SET_TIMEZONE({Date2}, "Mars/Olympus")',
+          columns,
+          clientOrSqlUi: 'pg',
+          getMeta: async () => ({}),
+        })
+      ).rejects.toThrow('SET_TIMEZONE');
+    });
+  });
+
+  describe('array functions', () => {
+    const columns = [
+      {
+        id: 'cid',
+        title: 'column',
+        uidt: UITypes.SingleLineText,
+      },
+      {
+        id: 'lid',
+        title: 'lookup',
+        uidt: UITypes.Lookup,
+      },
+    ];
+
+    it(`array functions can be nested`, async () => {
+      const result = await validateFormulaAndExtractTreeWithType({
+        formula: 'ARRAYJOIN(ARRAYUNIQUE(ARRAYCOMPACT({lookup})), " | ")',
+        columns,
+        clientOrSqlUi: 'pg',
+        getMeta: async () => ({}),
+      });
+      expect(result.dataType).toBe(FormulaDataTypes.STRING);
+      expect(result.isDataArray).toBeFalsy();
+      expect((result as any).arguments[0].isDataArray).toBe(true);
+    });
+
+    it(`array functions require a list`, async () => {
+      await expect(
+        validateFormulaAndExtractTreeWithType({
+          formula: 'ARRAYUNIQUE({column})',
+          columns,
+          clientOrSqlUi: 'pg',
+          getMeta: async () => ({}),
+        })
+      ).rejects.toThrow('ARRAYUNIQUE requires a Lookup or Links field');
+    });
+
+    it(`ARRAYSORT validates the order`, async () => {
+      await expect(
+        validateFormulaAndExtractTreeWithType({
+          formula: 'ARRAYSORT({lookup}, "up")',
+          columns,
+          clientOrSqlUi: 'pg',
+          getMeta: async () => ({}),
+        })
+      ).rejects.toThrow('ARRAYSORT()');
+    });
+  });
+
   describe('binary expression', () => {
     it(`& operator will return string`, async () => {
       const result = await validateFormulaAndExtractTreeWithType({
@@ -44,6 +44,8 @@ export type BaseFormulaNode = {
   dataType?: FormulaDataTypes;
   cast?: FormulaDataTypes;
   errors?: Set<string>;
+  // value is a list, eg. Lookup/Links values or result of an array function
+  isDataArray?: boolean;
 };
 
 export interface BinaryExpressionNode extends BaseFormulaNode {
@@ -150,6 +152,34 @@ export const jsepCurlyHook = {
   },
 } as jsep.IPlugin;
 
+// DATETIME_PARSE only accepts fixed width numeric tokens, since
+// the pattern has to be applied identically in every database
+function isParsableDateTimePattern(pattern: unknown) {
+  if (typeof pattern !== 'string') return false;
+  const tokens: string[] =
+    pattern
+      .replace(/\[[^\]]*]/g, '')
+      .match(/YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A/g) ?? [];
+  return (
+    tokens.includes('YYYY') &&
+    new Set(tokens).size === tokens.length &&
+    tokens.every((token) =>
+      ['YYYY', 'MM', 'DD', 'HH', 'mm', 'ss'].includes(token)
+    )
+  );
+}
+
+function isValidFormulaTimezone(tz: unknown) {
+  if (typeof tz !== 'string') return false;
+  if (/^(UTC|Z|[+-]\d{2}:?\d{2})$/i.test(tz)) return true;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 function validateDateWithUnknownFormat(v: string) {
   for (const format of dateFormats) {
     if (dayjs(v, format, true).isValid() as any) {
@@ -367,6 +397,9 @@ interface FormulaMeta {
       // array of allowed types when args types are not same
       // types should be in order of args
       type?: FormulaDataTypes | FormulaDataTypes[];
+
+      // first argument should be a list, eg. a Lookup or Links field
+      array?: boolean;
     };
     custom?: (args: FormulaDataTypes[], parseTree: any) => void;
   };
@@ -374,9 +407,19 @@ interface FormulaMeta {
   syntax?: string;
   examples?: string[];
   returnType?: ((args: any[]) => FormulaDataTypes) | FormulaDataTypes;
+  // result is a list which can be passed to other array functions
+  returnsArray?: boolean;
   docsUrl?: string;
 }
 
+export const ArrayFormulaFunctions = [
+  'ARRAYJOIN',
+  'ARRAYUNIQUE',
+  'ARRAYCOMPACT',
+  'ARRAYSORT',
+  'ARRAYSLICE',
+];
+
 export const formulas: Record<string, FormulaMeta> = {
   AVG: {
     docsUrl:
@@ -619,6 +662,207 @@ export const formulas: Record<string, FormulaMeta> = {
     ],
     returnType: FormulaDataTypes.NUMERIC,
   },
+  DATETIME_FORMAT: {
+    docsUrl:
+      'https://docs.nocodb.com/fields/field-types/formula/date-functions#datetime_format',
+    validation: {
+      args: {
+        min: 1,
+        max: 2,
+        type: [FormulaDataTypes.DATE, FormulaDataTypes.STRING],
+      },
+      custom: (_argTypes: FormulaDataTypes[], parsedTree: any) => {
+        if (parsedTree.arguments[0].type === JSEPNode.LITERAL) {
+          if (!validateDateWithUnknownFormat(parsedTree.arguments[0].value)) {
+            throw new FormulaError(
+              FormulaErrorType.TYPE_MISMATCH,
+              { key: 'msg.formula.firstParamDateTimeFormatHaveDate' },
+              'First parameter of DATETIME_FORMAT should be a date'
+            );
+          }
+        }
+
+        if (
+          parsedTree.arguments[1] &&
+          (parsedTree.arguments[1].type !== JSEPNode.LITERAL ||
+            typeof parsedTree.arguments[1].value !== 'string')
+        ) {
+          throw new FormulaError(
+            FormulaErrorType.INVALID_ARG,
+            { key: 'msg.formula.secondParamDateTimeFormatHavePattern' },
+            'Second parameter of DATETIME_FORMAT should be a format string'
+          );
+        }
+      },
+    },
+    description:
+      'Formats a date / datetime using the given pattern (default is "YYYY-MM-DD")',
+    syntax: 'DATETIME_FORMAT(date | datetime, [pattern])',
+    examples: [
+      'DATETIME_FORMAT({column1})',
+      'DATETIME_FORMAT({column1}, "YYYY-MM-DD HH:mm")',
+      'DATETIME_FORMAT({column1}, "dddd, MMMM D [at] h:mm A")',
+    ],
+    returnType: FormulaDataTypes.STRING,
+  },
+  DATETIME_PARSE: {
+    docsUrl:
+      'https://docs.nocodb.com/fields/field-types/formula/date-functions#datetime_parse',
+    validation: {
+      args: {
+        rqd: 2,
+        type: FormulaDataTypes.STRING,
+      },
+      custom: (_argTypes: FormulaDataTypes[], parsedTree: any) => {
+        if (
+          parsedTree.arguments[1].type !== JSEPNode.LITERAL ||
+          !isParsableDateTimePattern(parsedTree.arguments[1].value)
+        ) {
+          throw new FormulaError(
+            FormulaErrorType.INVALID_ARG,
+            { key: 'msg.formula.secondParamDateTimeParseHavePattern' },
+            'Second parameter of DATETIME_PARSE should be a format string made of YYYY, MM, DD, HH, mm and ss'
+          );
+        }
+      },
+    },
+    description:
+      'Parses a string into a datetime using the given pattern, returns blank when the string does not match',
+    syntax: 'DATETIME_PARSE(text, pattern)',
+    examples: [
+      'DATETIME_PARSE("25.12.2024", "DD.MM.YYYY")',
+      'DATETIME_PARSE({column1}, "YYYY-MM-DD HH:mm")',
+    ],
+    returnType: FormulaDataTypes.DATE,
+  },
+  SET_TIMEZONE: {
+    docsUrl:
+      'https://docs.nocodb.com/fields/field-types/formula/date-functions#set_timezone',
+    validation: {
+      args: {
+        rqd: 2,
+        type: [FormulaDataTypes.DATE, FormulaDataTypes.STRING],
+      },
+      custom: (_argTypes: FormulaDataTypes[], parsedTree: any) => {
+        if (parsedTree.arguments[0].type === JSEPNode.LITERAL) {
+          if (!validateDateWithUnknownFormat(parsedTree.arguments[0].value)) {
+            throw new FormulaError(
+              FormulaErrorType.TYPE_MISMATCH,
+              { key: 'msg.formula.firstParamSetTimezoneHaveDate' },
+              'First parameter of SET_TIMEZONE should be a date'
+            );
+          }
+        }
+
+        if (
+          parsedTree.arguments[1].type !== JSEPNode.LITERAL ||
+          !isValidFormulaTimezone(parsedTree.arguments[1].value)
+        ) {
+          throw new FormulaError(
+            FormulaErrorType.INVALID_ARG,
+            { key: 'msg.formula.secondParamSetTimezoneHaveTimezone' },
+            'Second parameter of SET_TIMEZONE should be a time zone name or an UTC offset'
+          );
+        }
+      },
+    },
+    description:
+      'Converts a UTC datetime into the local datetime of the given time zone',
+    syntax: 'SET_TIMEZONE(datetime, timezone)',
+    examples: [
+      'SET_TIMEZONE({column1}, "Europe/Berlin")',
+      'SET_TIMEZONE(NOW(), "+05:30")',
+    ],
+    returnType: FormulaDataTypes.DATE,
+  },
+  WORKDAY: {
+    docsUrl:
+      'https://docs.nocodb.com/fields/field-types/formula/date-functions#workday',
+    validation: {
+      args: {
+        min: 2,
+        max: 3,
+        type: [
+          FormulaDataTypes.DATE,
+          FormulaDataTypes.NUMERIC,
+          FormulaDataTypes.STRING,
+        ],
+      },
+      custom: (_argTypes: FormulaDataTypes[], parsedTree: any) => {
+        if (parsedTree.arguments[0].type === JSEPNode.LITERAL) {
+          if (!validateDateWithUnknownFormat(parsedTree.arguments[0].value)) {
+            throw new FormulaError(
+              FormulaErrorType.TYPE_MISMATCH,
+              { key: 'msg.formula.firstParamWorkdayHaveDate' },
+              'First parameter of WORKDAY should be a date'
+            );
+          }
+        }
+
+        if (
+          parsedTree.arguments[1].type === JSEPNode.LITERAL &&
+          typeof parsedTree.arguments[1].value !== 'number'
+        ) {
+          throw new FormulaError(
+            FormulaErrorType.TYPE_MISMATCH,
+            { key: 'msg.formula.secondParamWorkdayHaveNumber' },
+            'Second parameter of WORKDAY should be a number'
+          );
+        }
+      },
+    },
+    description:
+      'Returns the date which is the given number of working days (Monday to Friday) away, skipping the optional comma separated "YYYY-MM-DD" holidays',
+    syntax: 'WORKDAY(date, count, [holidays])',
+    examples: [
+      'WORKDAY({column1}, 10)',
+      'WORKDAY({column1}, -3)',
+      'WORKDAY({column1}, 5, "2024-12-25, 2024-12-26")',
+    ],
+    returnType: FormulaDataTypes.DATE,
+  },
+  NETWORKDAYS: {
+    docsUrl:
+      'https://docs.nocodb.com/fields/field-types/formula/date-functions#networkdays',
+    validation: {
+      args: {
+        min: 2,
+        max: 3,
+        type: [
+          FormulaDataTypes.DATE,
+          FormulaDataTypes.DATE,
+          FormulaDataTypes.STRING,
+        ],
+      },
+      custom: (_argTypes: FormulaDataTypes[], parsedTree: any) => {
+        for (const [index, key] of [
+          'firstParamNetworkdaysHaveDate',
+          'secondParamNetworkdaysHaveDate',
+        ].entries()) {
+          if (
+            parsedTree.arguments[index].type === JSEPNode.LITERAL &&
+            !validateDateWithUnknownFormat(parsedTree.arguments[index].value)
+          ) {
+            throw new FormulaError(
+              FormulaErrorType.TYPE_MISMATCH,
+              { key: `msg.formula.${key}` },
+              `${
+                index ? 'Second' : 'First'
+              } parameter of NETWORKDAYS should be a date`
+            );
+          }
+        }
+      },
+    },
+    description:
+      'Counts the working days (Monday to Friday) between two dates including both, skipping the optional comma separated "YYYY-MM-DD" holidays',
+    syntax: 'NETWORKDAYS(startDate, endDate, [holidays])',
+    examples: [
+      'NETWORKDAYS({column1}, {column2})',
+      'NETWORKDAYS({column1}, {column2}, "2024-12-25, 2024-12-26")',
+    ],
+    returnType: FormulaDataTypes.NUMERIC,
+  },
   AND: {
     docsUrl:
       'https://docs.nocodb.com/fields/field-types/formula/conditional-expressions#and',
@@ -1535,6 +1779,143 @@ export const formulas: Record<string, FormulaMeta> = {
     ],
     returnType: FormulaDataTypes.STRING,
   },
+  ARRAYJOIN: {
+    validation: {
+      args: {
+        min: 1,
+        max: 2,
+        array: true,
+      },
+      custom: (_argTypes: FormulaDataTypes[], parsedTree: any) => {
+        if (
+          parsedTree.arguments[1] &&
+          parsedTree.arguments[1].type !== JSEPNode.LITERAL
+        ) {
+          throw new FormulaError(
+            FormulaErrorType.INVALID_ARG,
+            {
+              key: 'msg.formula.arraySeparatorShouldBeString',
+            },
+            'The separator of ARRAYJOIN() should be a string'
+          );
+        }
+      },
+    },
+    description:
+      'Joins the values of a Lookup or Links field into a string using the separator (default is ", ")',
+    syntax: 'ARRAYJOIN(values, [separator])',
+    examples: ['ARRAYJOIN({lookup})', "ARRAYJOIN({lookup}, ' | ')"],
+    returnType: FormulaDataTypes.STRING,
+    docsUrl:
+      'https://docs.nocodb.com/fields/field-types/formula/array-functions#arrayjoin',
+  },
+  ARRAYUNIQUE: {
+    validation: {
+      args: {
+        rqd: 1,
+        array: true,
+      },
+    },
+    description:
+      'Returns the unique values of a Lookup or Links field in order of their first appearance',
+    syntax: 'ARRAYUNIQUE(values)',
+    examples: ['ARRAYUNIQUE({lookup})', 'ARRAYJOIN(ARRAYUNIQUE({lookup}))'],
+    returnType: FormulaDataTypes.STRING,
+    returnsArray: true,
+    docsUrl:
+      'https://docs.nocodb.com/fields/field-types/formula/array-functions#arrayunique',
+  },
+  ARRAYCOMPACT: {
+    validation: {
+      args: {
+        rqd: 1,
+        array: true,
+      },
+    },
+    description:
+      'Removes empty strings and null values from the values of a Lookup or Links field',
+    syntax: 'ARRAYCOMPACT(values)',
+    examples: ['ARRAYCOMPACT({lookup})', 'ARRAYJOIN(ARRAYCOMPACT({lookup}))'],
+    returnType: FormulaDataTypes.STRING,
+    returnsArray: true,
+    docsUrl:
+      'https://docs.nocodb.com/fields/field-types/formula/array-functions#arraycompact',
+  },
+  ARRAYSORT: {
+    validation: {
+      args: {
+        min: 1,
+        max: 2,
+        array: true,
+      },
+      custom: (_argTypes: FormulaDataTypes[], parsedTree: any) => {
+        if (
+          parsedTree.arguments[1] &&
+          !(
+            parsedTree.arguments[1].type === JSEPNode.LITERAL &&
+            ['asc', 'desc'].includes(
+              String(parsedTree.arguments[1].value).toLowerCase()
+            )
+          )
+        ) {
+          throw new FormulaError(
+            FormulaErrorType.INVALID_ARG,
+            {
+              key: 'msg.formula.secondParamArraySortHaveOrder',
+            },
+            'The second parameter of ARRAYSORT() should have the value either "asc" or "desc"'
+          );
+        }
+      },
+    },
+    description:
+      'Sorts the values of a Lookup or Links field in ascending (default) or descending order',
+    syntax: 'ARRAYSORT(values, ["asc" | "desc"])',
+    examples: ['ARRAYSORT({lookup})', "ARRAYJOIN(ARRAYSORT({lookup}, 'desc'))"],
+    returnType: FormulaDataTypes.STRING,
+    returnsArray: true,
+    docsUrl:
+      'https://docs.nocodb.com/fields/field-types/formula/array-functions#arraysort',
+  },
+  ARRAYSLICE: {
+    validation: {
+      args: {
+        min: 2,
+        max: 3,
+        array: true,
+      },
+      custom: (argTypes: FormulaDataTypes[]) => {
+        if (
+          argTypes
+            .slice(1)
+            .some(
+              (type) =>
+                ![
+                  FormulaDataTypes.NUMERIC,
+                  FormulaDataTypes.NULL,
+                  FormulaDataTypes.UNKNOWN,
+                ].includes(type)
+            )
+        ) {
+          throw new FormulaError(
+            FormulaErrorType.INVALID_ARG,
+            {
+              key: 'msg.formula.arraySliceHaveNumericPositions',
+            },
+            'The start and end positions of ARRAYSLICE() should be numeric'
+          );
+        }
+      },
+    },
+    description:
+      'Returns the values of a Lookup or Links field from the start position up to the end position (1-based, inclusive)',
+    syntax: 'ARRAYSLICE(values, start, [end])',
+    examples: ['ARRAYSLICE({lookup}, 2)', 'ARRAYSLICE({lookup}, 1, 3)'],
+    returnType: FormulaDataTypes.STRING,
+    returnsArray: true,
+    docsUrl:
+      'https://docs.nocodb.com/fields/field-types/formula/array-functions#arrayslice',
+  },
   // Disabling these functions for now; these act as alias for CreatedAt & UpdatedAt fields;
   // Issue: Error noticed if CreatedAt & UpdatedAt fields are removed from the table after creating these formulas
   //
@@ -1647,10 +2028,14 @@ async function extractColumnIdentifierType({
             'countDistinct',
             'sumDistinct',
             'avgDistinct',
+            'median',
           ].includes(rollupFunction)
         ) {
           // these functions produce a numeric value, which can be used in numeric functions
           res.dataType = FormulaDataTypes.NUMERIC;
+        } else if (['concat', 'arrayUnique'].includes(rollupFunction)) {
+          // linked values are joined into a text
+          res.dataType = FormulaDataTypes.STRING;
         } else {
           const relationColumnOpt = columns.find(
             (column) =>
@@ -1837,6 +2222,21 @@ export async function validateFormulaAndExtractTreeWithType({
 
       const argTypes = validateResult.map((v: any) => v.dataType);
 
+      // array functions accept only lists, eg. Lookup/Links values
+      if (
+        formulas[calleeName].validation?.args?.array &&
+        !validateResult[0]?.isDataArray
+      ) {
+        throw new FormulaError(
+          FormulaErrorType.INVALID_ARG,
+          {
+            key: 'msg.formula.arrayFieldExpected',
+            calleeName,
+          },
+          `${calleeName} requires a Lookup or Links field at position 1`
+        );
+      }
+
       // if validation function is present, call it
       if (formulas[calleeName].validation?.custom) {
         formulas[calleeName].validation?.custom(argTypes, parsedTree);
@@ -1923,6 +2323,10 @@ export async function validateFormulaAndExtractTreeWithType({
       } else if (formulas[calleeName].returnType) {
         res.dataType = formulas[calleeName].returnType as FormulaDataTypes;
       }
+
+      if (formulas[calleeName].returnsArray) {
+        res.isDataArray = true;
+      }
     } else if (parsedTree.type === JSEPNode.IDENTIFIER) {
       const col = (colIdToColMap[(parsedTree as IdentifierNode).name] ||
         colAliasToColMap[(parsedTree as IdentifierNode).name]) as Record<
@@ -1997,6 +2401,13 @@ export async function validateFormulaAndExtractTreeWithType({
             clientOrSqlUi,
           })
         );
+
+        if (
+          col?.uidt === UITypes.Lookup ||
+          col?.uidt === UITypes.LinkToAnotherRecord
+        ) {
+          res.isDataArray = true;
+        }
       }
     } else if (parsedTree.type === JSEPNode.LITERAL) {
       if (typeof parsedTree.value === 'number') {
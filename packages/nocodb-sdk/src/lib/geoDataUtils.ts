@@ -4,3 +4,120 @@ export const convertGeoNumberToString = (val: number) => {
 
 export const latLongToJoinedString = (lat: number, long: number) =>
   [lat, long].map((k) => convertGeoNumberToString(k)).join(';');
+
+// approximate length of one degree of latitude in kilometres
+export const KM_PER_LATITUDE_DEGREE = 111.32;
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface GeoBoundingBox {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+const parseGeoNumbers = (value: unknown, length: number) => {
+  if (value === null || value === undefined) return null;
+
+  const parts = (Array.isArray(value) ? value.join(';') : `${value}`)
+    .split(/[;,]/)
+    .map((k) => k.trim());
+
+  if (
+    parts.length !== length ||
+    parts.some((k) => k === '' || isNaN(Number(k)))
+  ) {
+    return null;
+  }
+  return parts.map(Number);
+};
+
+const isValidLatitude = (lat: number) => lat >= -90 && lat <= 90;
+
+const isValidLongitude = (lng: number) => lng >= -180 && lng <= 180;
+
+/**
+ * Parses a GeoData cell value (`lat;lng`) into a point
+ */
+export const parseGeoPoint = (value: unknown): GeoPoint | null => {
+  const numbers = parseGeoNumbers(value, 2);
+  if (!numbers) return null;
+
+  const [lat, lng] = numbers;
+  if (!isValidLatitude(lat) || !isValidLongitude(lng)) return null;
+
+  return { lat, lng };
+};
+
+/**
+ * Parses the value of a `withinRadius` filter: `lat;lng;radius` with the radius in kilometres
+ */
+export const parseGeoRadiusFilterValue = (
+  value: unknown
+): (GeoPoint & { radius: number }) | null => {
+  const numbers = parseGeoNumbers(value, 3);
+  if (!numbers) return null;
+
+  const [lat, lng, radius] = numbers;
+  if (!isValidLatitude(lat) || !isValidLongitude(lng) || !(radius > 0))
+    return null;
+
+  return { lat, lng, radius };
+};
+
+/**
+ * Parses the value of a `withinBoundingBox` filter: `minLat;minLng;maxLat;maxLng`.
+ * `minLng` can be greater than `maxLng` when the box crosses the antimeridian.
+ */
+export const parseGeoBoundingBoxFilterValue = (
+  value: unknown
+): GeoBoundingBox | null => {
+  const numbers = parseGeoNumbers(value, 4);
+  if (!numbers) return null;
+
+  const [minLat, minLng, maxLat, maxLng] = numbers;
+  if (
+    !isValidLatitude(minLat) ||
+    !isValidLatitude(maxLat) ||
+    !isValidLongitude(minLng) ||
+    !isValidLongitude(maxLng) ||
+    minLat > maxLat
+  ) {
+    return null;
+  }
+
+  return { minLat, minLng, maxLat, maxLng };
+};
+
+/**
+ * Checks whether the point is within the radius (in kilometres) around the centre.
+ * Uses an equirectangular approximation, which is accurate enough for radii of
+ * a few hundred kilometres and matches the SQL used by the `withinRadius` filter.
+ */
+export const isGeoPointWithinRadius = (
+  point: GeoPoint,
+  { lat, lng, radius }: GeoPoint & { radius: number }
+) => {
+  const lngScale = Math.cos((lat * Math.PI) / 180);
+  const dLat = point.lat - lat;
+  const dLng = (point.lng - lng) * lngScale;
+
+  return (
+    dLat * dLat + dLng * dLng <= Math.pow(radius / KM_PER_LATITUDE_DEGREE, 2)
+  );
+};
+
+export const isGeoPointWithinBoundingBox = (
+  point: GeoPoint,
+  { minLat, minLng, maxLat, maxLng }: GeoBoundingBox
+) => {
+  if (point.lat < minLat || point.lat > maxLat) return false;
+
+  return minLng <= maxLng
+    ? point.lng >= minLng && point.lng <= maxLng
+    : point.lng >= minLng || point.lng <= maxLng;
+};
@@ -39,6 +39,7 @@ export enum ViewTypes {
   KANBAN = 4,
   MAP = 5,
   CALENDAR = 6,
+  TIMELINE = 7,
 }
 
 export const viewTypeAlias: Record<ViewTypes, string> = {
@@ -48,6 +49,7 @@ export const viewTypeAlias: Record<ViewTypes, string> = {
   [ViewTypes.KANBAN]: 'kanban',
   [ViewTypes.MAP]: 'map',
   [ViewTypes.CALENDAR]: 'calendar',
+  [ViewTypes.TIMELINE]: 'timeline',
 };
 
 export const viewTypeToStringMap: Record<ViewTypes, string> = {
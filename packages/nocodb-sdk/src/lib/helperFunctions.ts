@@ -100,6 +100,9 @@ const getAvailableRollupForUiType = (type: string) => {
       'countDistinct',
       'sumDistinct',
       'avgDistinct',
+      'median',
+      'concat',
+      'arrayUnique',
     ];
   }
 
@@ -114,7 +117,7 @@ const getAvailableRollupForUiType = (type: string) => {
       UITypes.JSON,
     ].includes(type as UITypes)
   ) {
-    return ['count', 'countDistinct'];
+    return ['count', 'countDistinct', 'concat', 'arrayUnique'];
   }
   if ([UITypes.Checkbox].includes(type as UITypes)) {
     return ['count', 'sum'];
@@ -123,7 +126,7 @@ const getAvailableRollupForUiType = (type: string) => {
     return [];
   }
   if ([UITypes.SingleSelect, UITypes.MultiSelect].includes(type as UITypes)) {
-    return ['count', 'countDistinct'];
+    return ['count', 'countDistinct', 'concat', 'arrayUnique'];
   }
   return [
     'sum',
@@ -134,6 +137,9 @@ const getAvailableRollupForUiType = (type: string) => {
     'countDistinct',
     'sumDistinct',
     'avgDistinct',
+    'median',
+    'concat',
+    'arrayUnique',
   ];
 };
 
@@ -153,13 +159,16 @@ const getAvailableRollupForFormulaType = (type: FormulaDataTypes) => {
         'countDistinct',
         'sumDistinct',
         'avgDistinct',
+        'median',
+        'concat',
+        'arrayUnique',
       ];
     }
     case FormulaDataTypes.BOOLEAN: {
       return ['count', 'sum'];
     }
     case FormulaDataTypes.STRING: {
-      return ['count', 'countDistinct'];
+      return ['count', 'countDistinct', 'concat', 'arrayUnique'];
     }
     case FormulaDataTypes.UNKNOWN:
     default: {
@@ -193,9 +202,13 @@ const getRenderAsTextFunForUiType = (type: UITypes) => {
     'countDistinct',
     'sumDistinct',
     'avgDistinct',
+    'median',
   ];
 };
 
+// rollup functions joining the linked values into a comma separated text
+const RollupTextFunctions = ['concat', 'arrayUnique'];
+
 const getFileName = ({ name, count, ext }) =>
   `${name}${count ? `(${count})` : ''}${ext ? `${ext}` : ''}`;
 
@@ -250,6 +263,7 @@ export {
   getAvailableRollupForUiType,
   getAvailableRollupForFormulaType,
   getRenderAsTextFunForUiType,
+  RollupTextFunctions,
   populateUniqueFileName,
   roundUpToPrecision,
 };
@@ -260,6 +274,7 @@ const testDataBaseNames = {
   [ClientType.PG]: 'postgres',
   oracledb: 'xe',
   [ClientType.SQLITE]: 'a.sqlite',
+  [ClientType.MSSQL]: 'master',
 };
 
 export const getTestDatabaseName = (db: {
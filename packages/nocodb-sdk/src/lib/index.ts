@@ -63,4 +63,5 @@ export * from '~/lib/error';
 export * from '~/lib/error-handler';
 export * from '~/lib/geoDataUtils';
 export * from '~/lib/stringHelpers';
+export * from '~/lib/webhookSignature';
 export * from '~/lib/filter';
@@ -37,8 +37,12 @@ export const COMPARISON_OPS = <const>[
   'isWithin',
   'btw',
   'nbtw',
+  'withinRadius',
+  'withinBoundingBox',
 ];
 
+export const GEO_COMPARISON_OPS = <const>['withinRadius', 'withinBoundingBox'];
+
 export const COMPARISON_OPS_ALIAS = <const>[
   'isblank',
   'is_blank',
@@ -821,6 +821,16 @@ export class DatabricksUi implements SqlUi {
       'DAY',
       'MONTH',
       'HOUR',
+      'ARRAYJOIN',
+      'ARRAYUNIQUE',
+      'ARRAYCOMPACT',
+      'ARRAYSORT',
+      'ARRAYSLICE',
+      'DATETIME_FORMAT',
+      'DATETIME_PARSE',
+      'SET_TIMEZONE',
+      'WORKDAY',
+      'NETWORKDAYS',
     ];
   }
 
@@ -0,0 +1,44 @@
+import UITypes from '../UITypes';
+import { DuckdbUi } from './DuckdbUi';
+import { SqlUiFactory } from './SqlUiFactory';
+
+describe('DuckdbUi', () => {
+  it('is created for duckdb connections', () => {
+    expect(SqlUiFactory.create({ client: 'duckdb' })).toBeInstanceOf(DuckdbUi);
+  });
+
+  describe('getUIType', () => {
+    it('will map file column types', () => {
+      const sqlUi = new DuckdbUi();
+      expect(sqlUi.getUIType({ dt: 'BIGINT' })).toBe('Number');
+      expect(sqlUi.getUIType({ dt: 'DECIMAL(18,3)' })).toBe('Decimal');
+      expect(sqlUi.getUIType({ dt: 'TIMESTAMP WITH TIME ZONE' })).toBe(
+        'DateTime'
+      );
+      expect(sqlUi.getUIType({ dt: 'VARCHAR' })).toBe('SingleLineText');
+      expect(sqlUi.getUIType({ dt: 'JSON' })).toBe('JSON');
+    });
+  });
+
+  it('will not allow editing columns', () => {
+    const sqlUi = new DuckdbUi();
+    expect(sqlUi.columnEditable({ dt: 'varchar' })).toBe(false);
+  });
+
+  it('will treat integer types of different width as equal', () => {
+    const sqlUi = new DuckdbUi();
+    expect(sqlUi.isEqual('INTEGER', 'bigint')).toBe(true);
+    expect(sqlUi.isEqual('integer', 'varchar')).toBe(false);
+  });
+
+  it('will return current date default based on datatype', () => {
+    const sqlUi = new DuckdbUi();
+    expect(sqlUi.getCurrentDateDefault({ dt: 'timestamp' })).toBe(
+      'current_timestamp'
+    );
+    expect(sqlUi.getCurrentDateDefault({ uidt: UITypes.DateTime })).toBe(
+      'current_timestamp'
+    );
+    expect(sqlUi.getCurrentDateDefault({ dt: 'varchar' })).toBeNull();
+  });
+});
@@ -0,0 +1,576 @@
+import UITypes from '../UITypes';
+import { ColumnType, IDType } from '~/lib';
+import { SqlUi } from './SqlUI.types';
+import { numberize } from '../numberUtils';
+
+const dbTypes = [
+  'bigint',
+  'blob',
+  'boolean',
+  'date',
+  'decimal',
+  'double',
+  'float',
+  'hugeint',
+  'integer',
+  'interval',
+  'json',
+  'smallint',
+  'time',
+  'timestamp',
+  'timestamp with time zone',
+  'tinyint',
+  'ubigint',
+  'uinteger',
+  'usmallint',
+  'utinyint',
+  'uuid',
+  'varchar',
+];
+
+// duckdb sources are attached files which are always read only, so the
+// column editing helpers below only matter for displaying existing columns
+export class DuckdbUi implements SqlUi {
+  //#region statics
+  static getNewTableColumns() {
+    return [
+      {
+        column_name: 'id',
+        title: 'Id',
+        dt: 'integer',
+        dtx: 'integer',
+        ct: 'integer',
+        nrqd: false,
+        rqd: true,
+        ck: false,
+        pk: true,
+        un: false,
+        ai: true,
+        cdf: null,
+        clen: null,
+        np: 32,
+        ns: 0,
+        dtxp: '',
+        dtxs: '',
+        altered: 1,
+        uidt: 'ID',
+        uip: '',
+        uicn: '',
+      },
+      {
+        column_name: 'title',
+        title: 'Title',
+        dt: 'varchar',
+        dtx: 'specificType',
+        ct: 'varchar',
+        nrqd: true,
+        rqd: false,
+        ck: false,
+        pk: false,
+        un: false,
+        ai: false,
+        cdf: null,
+        clen: null,
+        np: null,
+        ns: null,
+        dtxp: '',
+        dtxs: '',
+        altered: 1,
+        uidt: 'SingleLineText',
+        uip: '',
+        uicn: '',
+      },
+    ];
+  }
+
+  static getNewColumn(suffix) {
+    return {
+      column_name: 'title' + suffix,
+      dt: 'varchar',
+      dtx: 'specificType',
+      ct: 'varchar',
+      nrqd: true,
+      rqd: false,
+      ck: false,
+      pk: false,
+      un: false,
+      ai: false,
+      cdf: null,
+      clen: null,
+      np: null,
+      ns: null,
+      dtxp: '',
+      dtxs: '',
+      altered: 1,
+      uidt: 'SingleLineText',
+      uip: '',
+      uicn: '',
+    };
+  }
+
+  static getDefaultLengthForDatatype(type): any {
+    switch (type) {
+      case 'decimal':
+        return 18;
+
+      default:
+        return '';
+    }
+  }
+
+  static getDefaultLengthIsDisabled(type): any {
+    switch (type) {
+      case 'decimal':
+        return false;
+
+      default:
+        return true;
+    }
+  }
+
+  static getDefaultValueForDatatype(type): any {
+    switch (type) {
+      case 'bigint':
+      case 'integer':
+      case 'smallint':
+      case 'tinyint':
+      case 'hugeint':
+      case 'decimal':
+        return 'eg : ' + 10;
+
+      case 'double':
+      case 'float':
+        return 'eg : ' + 10.0;
+
+      case 'boolean':
+        return 'eg : ' + true;
+
+      case 'date':
+        return 'eg : ' + '2020-09-09';
+
+      case 'timestamp':
+      case 'timestamp with time zone':
+        return 'eg : ' + 'current_timestamp';
+
+      case 'time':
+        return 'eg : ' + '10:10:10';
+
+      case 'uuid':
+        return 'eg : ' + 'gen_random_uuid()';
+
+      default:
+        return 'eg : hey';
+    }
+  }
+
+  static getDefaultScaleForDatatype(type): any {
+    switch (type) {
+      case 'decimal':
+        return '3';
+
+      default:
+        return ' ';
+    }
+  }
+
+  static colPropAIDisabled(_col, _columns) {
+    // auto increment is done with sequences, there is no column property
+    return true;
+  }
+
+  static colPropUNDisabled(_col) {
+    // unsigned types are separate types, eg: uinteger
+    return true;
+  }
+
+  static onCheckboxChangeAI(col) {
+    col.altered = col.altered || 2;
+  }
+
+  static showScale(columnObj) {
+    return columnObj.dt === 'decimal';
+  }
+
+  static removeUnsigned(columns) {
+    for (let i = 0; i < columns.length; ++i) {
+      if (columns[i].altered === 1) {
+        columns[i].un = false;
+      }
+    }
+  }
+
+  static columnEditable(_colObj) {
+    return false;
+  }
+
+  static onCheckboxChangeAU(col) {
+    col.altered = col.altered || 2;
+  }
+
+  static colPropAuDisabled(_col) {
+    return true;
+  }
+
+  static getAbstractType(col): any {
+    switch (col.dt?.replace(/\(.*\)$/, '').toLowerCase()) {
+      case 'bigint':
+      case 'integer':
+      case 'smallint':
+      case 'tinyint':
+      case 'hugeint':
+      case 'ubigint':
+      case 'uinteger':
+      case 'usmallint':
+      case 'utinyint':
+        return 'integer';
+      case 'decimal':
+      case 'double':
+      case 'float':
+        return 'float';
+      case 'boolean':
+        return 'boolean';
+      case 'timestamp':
+      case 'timestamp with time zone':
+      case 'timestamp_s':
+      case 'timestamp_ms':
+      case 'timestamp_ns':
+        return 'datetime';
+      case 'date':
+        return 'date';
+      case 'time':
+        return 'time';
+      case 'varchar':
+      case 'uuid':
+        return 'string';
+      case 'json':
+        return 'json';
+      case 'blob':
+        return 'blob';
+    }
+    return 'string';
+  }
+
+  static getUIType(col): any {
+    switch (this.getAbstractType(col)) {
+      case 'integer':
+        return 'Number';
+      case 'boolean':
+        return 'Checkbox';
+      case 'float':
+        return 'Decimal';
+      case 'date':
+        return 'Date';
+      case 'datetime':
+        return 'DateTime';
+      case 'time':
+        return 'Time';
+      case 'string':
+        return 'SingleLineText';
+      case 'json':
+        return 'JSON';
+      case 'blob':
+        return 'SpecificDBType';
+    }
+  }
+
+  static getDataTypeForUiType(col: { uidt: UITypes }, idType?: IDType) {
+    const colProp: any = {};
+    switch (col.uidt) {
+      case 'ID':
+        {
+          const isAutoIncId = idType === 'AI';
+          const isAutoGenId = idType === 'AG';
+          colProp.dt = isAutoGenId ? 'varchar' : 'integer';
+          colProp.pk = true;
+          colProp.ai = isAutoIncId;
+          colProp.rqd = true;
+          colProp.meta = isAutoGenId ? { ag: 'nc' } : undefined;
+        }
+        break;
+      case 'Checkbox':
+        colProp.dt = 'boolean';
+        colProp.cdf = 'false';
+        break;
+      case 'Date':
+        colProp.dt = 'date';
+        break;
+      case 'Year':
+        colProp.dt = 'integer';
+        break;
+      case 'Time':
+        colProp.dt = 'time';
+        break;
+      case 'PhoneNumber':
+        colProp.dt = 'varchar';
+        colProp.validate = {
+          func: ['isMobilePhone'],
+          args: [''],
+          msg: ['Validation failed : isMobilePhone'],
+        };
+        break;
+      case 'Email':
+        colProp.dt = 'varchar';
+        colProp.validate = {
+          func: ['isEmail'],
+          args: [''],
+          msg: ['Validation failed : isEmail'],
+        };
+        break;
+      case 'URL':
+        colProp.dt = 'varchar';
+        colProp.validate = {
+          func: ['isURL'],
+          args: [''],
+          msg: ['Validation failed : isURL'],
+        };
+        break;
+      case 'Number':
+        colProp.dt = 'bigint';
+        break;
+      case 'Decimal':
+        colProp.dt = 'decimal';
+        break;
+      case 'Currency':
+        colProp.dt = 'decimal';
+        colProp.validate = {
+          func: ['isCurrency'],
+          args: [''],
+          msg: ['Validation failed : isCurrency'],
+        };
+        break;
+      case 'Percent':
+        colProp.dt = 'double';
+        break;
+      case 'Duration':
+        colProp.dt = 'decimal';
+        break;
+      case 'Rating':
+        colProp.dt = 'smallint';
+        colProp.cdf = '0';
+        break;
+      case 'Count':
+      case 'AutoNumber':
+        colProp.dt = 'integer';
+        break;
+      case 'DateTime':
+      case 'CreatedTime':
+      case 'LastModifiedTime':
+        colProp.dt = 'timestamp with time zone';
+        break;
+      case 'JSON':
+        colProp.dt = 'json';
+        break;
+      case 'Order':
+        colProp.dt = 'decimal';
+        colProp.dtxp = '38';
+        colProp.dtxs = '18';
+        break;
+      default:
+        colProp.dt = 'varchar';
+        break;
+    }
+    return colProp;
+  }
+
+  static getDataTypeListForUiType(col: { uidt: UITypes }, idType?: IDType) {
+    switch (col.uidt) {
+      case 'ID':
+        if (idType === 'AG') {
+          return ['varchar', 'uuid'];
+        } else if (idType === 'AI') {
+          return ['integer', 'bigint'];
+        } else {
+          return dbTypes;
+        }
+
+      case 'Checkbox':
+        return ['boolean', 'tinyint', 'integer'];
+
+      case 'Year':
+        return ['integer', 'smallint'];
+
+      case 'Time':
+        return ['time'];
+
+      case 'Number':
+      case 'Rating':
+      case 'Count':
+      case 'AutoNumber':
+        return ['integer', 'bigint', 'smallint', 'tinyint', 'hugeint'];
+
+      case 'Decimal':
+      case 'Currency':
+        return ['decimal', 'double', 'float'];
+
+      case 'Percent':
+      case 'Duration':
+        return ['decimal', 'double', 'float', 'integer', 'bigint'];
+
+      case 'Date':
+        return ['date', 'timestamp'];
+
+      case 'DateTime':
+      case 'CreatedTime':
+      case 'LastModifiedTime':
+        return ['timestamp with time zone', 'timestamp'];
+
+      case 'JSON':
+        return ['json', 'varchar'];
+
+      case 'ForeignKey':
+        return dbTypes;
+
+      default:
+        return ['varchar'];
+    }
+  }
+
+  static getUnsupportedFnList() {
+    return [
+      'WORKDAY',
+      'NETWORKDAYS',
+      'ARRAYJOIN',
+      'ARRAYUNIQUE',
+      'ARRAYCOMPACT',
+      'ARRAYSORT',
+      'ARRAYSLICE',
+    ];
+  }
+
+  static getCurrentDateDefault(col: Partial<ColumnType>) {
+    if (
+      (col.dt &&
+        ['timestamp', 'timestamp with time zone'].includes(
+          col.dt.toLowerCase()
+        )) ||
+      (!col.dt && col.uidt === UITypes.DateTime)
+    ) {
+      return 'current_timestamp';
+    }
+    return null;
+  }
+
+  static isEqual(dataType1: string, dataType2: string) {
+    if (dataType1?.toLowerCase() === dataType2?.toLowerCase()) return true;
+
+    const abstractType1 = this.getAbstractType({ dt: dataType1 });
+    const abstractType2 = this.getAbstractType({ dt: dataType2 });
+
+    if (
+      abstractType1 &&
+      abstractType1 === abstractType2 &&
+      ['integer', 'float'].includes(abstractType1)
+    )
+      return true;
+
+    return false;
+  }
+  //#endregion statics
+
+  //#region methods
+  getNewTableColumns(): readonly any[] {
+    return DuckdbUi.getNewTableColumns();
+  }
+  getNewColumn(suffix: string): {
+    column_name: string;
+    dt: string;
+    dtx: string;
+    ct: string;
+    nrqd: boolean;
+    rqd: boolean;
+    ck: boolean;
+    pk: boolean;
+    un: boolean;
+    ai: boolean;
+    cdf: null;
+    clen: number;
+    np: number;
+    ns: number;
+    dtxp: string;
+    dtxs: string;
+    altered: number;
+    uidt: string;
+    uip: string;
+    uicn: string;
+  } {
+    return DuckdbUi.getNewColumn(suffix);
+  }
+  getDefaultLengthForDatatype(type: string): number | string {
+    return DuckdbUi.getDefaultLengthForDatatype(type);
+  }
+  getDefaultLengthIsDisabled(type: string) {
+    return DuckdbUi.getDefaultLengthIsDisabled(type);
+  }
+  getDefaultValueForDatatype(type: string) {
+    return DuckdbUi.getDefaultValueForDatatype(type);
+  }
+  getDefaultScaleForDatatype(type: any): string {
+    return DuckdbUi.getDefaultScaleForDatatype(type);
+  }
+  colPropAIDisabled(col: ColumnType, columns: ColumnType[]): boolean {
+    return DuckdbUi.colPropAIDisabled(col, columns);
+  }
+  colPropUNDisabled(col: ColumnType): boolean {
+    return DuckdbUi.colPropUNDisabled(col);
+  }
+  onCheckboxChangeAI(col: ColumnType): void {
+    return DuckdbUi.onCheckboxChangeAI(col);
+  }
+  showScale(columnObj: ColumnType): boolean {
+    return DuckdbUi.showScale(columnObj);
+  }
+  removeUnsigned(columns: ColumnType[]): void {
+    return DuckdbUi.removeUnsigned(columns);
+  }
+  columnEditable(colObj: ColumnType): boolean {
+    return DuckdbUi.columnEditable(colObj);
+  }
+  onCheckboxChangeAU(col: ColumnType): void {
+    return DuckdbUi.onCheckboxChangeAU(col);
+  }
+  colPropAuDisabled(col: ColumnType): boolean {
+    return DuckdbUi.colPropAuDisabled(col);
+  }
+  getAbstractType(col: ColumnType): string {
+    return DuckdbUi.getAbstractType(col);
+  }
+  getUIType(col: ColumnType): string {
+    return DuckdbUi.getUIType(col);
+  }
+  getDataTypeForUiType(col: { uidt: UITypes }, idType?: IDType) {
+    return DuckdbUi.getDataTypeForUiType(col, idType);
+  }
+  getDataTypeListForUiType(col: { uidt: UITypes }, idType?: IDType): string[] {
+    return DuckdbUi.getDataTypeListForUiType(col, idType);
+  }
+  getUnsupportedFnList(): string[] {
+    return DuckdbUi.getUnsupportedFnList();
+  }
+  getCurrentDateDefault(_col: Partial<ColumnType>) {
+    return DuckdbUi.getCurrentDateDefault(_col);
+  }
+  isEqual(dataType1: string, dataType2: string): boolean {
+    return DuckdbUi.isEqual(dataType1, dataType2);
+  }
+  adjustLengthAndScale(newColumn: Partial<ColumnType>, oldColumn?: ColumnType) {
+    if (newColumn.dt === 'decimal') {
+      // duckdb decimals are limited to a precision of 38
+      const defaultDtxs = numberize(
+        DuckdbUi.getDefaultScaleForDatatype(newColumn.dt)
+      );
+      const newDtxs = numberize(newColumn.dtxs) ?? defaultDtxs;
+      const lastDtxp =
+        numberize(oldColumn?.dtxp) ??
+        numberize(DuckdbUi.getDefaultLengthForDatatype(newColumn.dt));
+      newColumn.dtxp = Math.min(38, Math.max(lastDtxp, newDtxs + 1));
+      newColumn.dtxs = newDtxs;
+    }
+  }
+  isParsedJsonReturnType(col: ColumnType): boolean {
+    return col.dt?.toLowerCase() === 'json';
+  }
+  get tableNameLengthLimit(): number {
+    return 255;
+  }
+  //#endregion methods
+}
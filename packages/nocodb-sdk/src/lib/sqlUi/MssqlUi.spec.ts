@@ -0,0 +1,71 @@
+import UITypes from '../UITypes';
+import { MssqlUi } from './MssqlUi';
+import { SqlUiFactory } from './SqlUiFactory';
+
+describe('MssqlUi', () => {
+  it('is created for mssql connections', () => {
+    expect(SqlUiFactory.create({ client: 'mssql' })).toBeInstanceOf(MssqlUi);
+  });
+
+  describe('getDataTypeForUiType', () => {
+    it('will use identity int for auto increment id', () => {
+      const sqlUi = new MssqlUi();
+      const colProp = sqlUi.getDataTypeForUiType({ uidt: UITypes.ID }, 'AI');
+      expect(colProp.dt).toBe('int');
+      expect(colProp.ai).toBe(true);
+    });
+    it('will use bounded nvarchar for auto generated id', () => {
+      const sqlUi = new MssqlUi();
+      const colProp = sqlUi.getDataTypeForUiType({ uidt: UITypes.ID }, 'AG');
+      expect(colProp.dt).toBe('nvarchar');
+      expect(colProp.dtxp).toBe('255');
+      expect(colProp.meta).toEqual({ ag: 'nc' });
+    });
+    it('will use nvarchar(max) for long text and bit for checkbox', () => {
+      const sqlUi = new MssqlUi();
+      expect(
+        sqlUi.getDataTypeForUiType({ uidt: UITypes.LongText })
+      ).toMatchObject({ dt: 'nvarchar', dtxp: 'max' });
+      expect(
+        sqlUi.getDataTypeForUiType({ uidt: UITypes.Checkbox })
+      ).toMatchObject({ dt: 'bit', cdf: '0' });
+    });
+  });
+
+  describe('getAbstractType', () => {
+    it('will ignore length when mapping types', () => {
+      const sqlUi = new MssqlUi();
+      expect(sqlUi.getAbstractType({ dt: 'nvarchar(max)' })).toBe('string');
+      expect(sqlUi.getAbstractType({ dt: 'decimal(38,18)' })).toBe('float');
+      expect(sqlUi.getAbstractType({ dt: 'datetimeoffset' })).toBe('datetime');
+    });
+  });
+
+  describe('adjustLengthAndScale', () => {
+    it('will grow precision along with the scale', () => {
+      const sqlUi = new MssqlUi();
+      const oldColumn = {
+        dt: 'decimal',
+        dtxs: '2',
+        dtxp: 18,
+      };
+      const newColumn = {
+        dt: 'decimal',
+        dtxs: 5,
+        dtxp: undefined,
+      };
+      sqlUi.adjustLengthAndScale(newColumn, oldColumn);
+      expect(newColumn.dtxp).toBe(21);
+      expect(newColumn.dtxs).toBe(5);
+    });
+  });
+
+  it('will return current date default based on datatype', () => {
+    const sqlUi = new MssqlUi();
+    expect(sqlUi.getCurrentDateDefault({ dt: 'datetime2' })).toBe('GETDATE()');
+    expect(sqlUi.getCurrentDateDefault({ uidt: UITypes.DateTime })).toBe(
+      'SYSDATETIMEOFFSET()'
+    );
+    expect(sqlUi.getCurrentDateDefault({ dt: 'nvarchar' })).toBeNull();
+  });
+});
@@ -0,0 +1,859 @@
+import UITypes from '../UITypes';
+import { ColumnType, IDType } from '~/lib';
+import { SqlUi } from './SqlUI.types';
+import { numberize } from '../numberUtils';
+
+const dbTypes = [
+  'bigint',
+  'binary',
+  'bit',
+  'char',
+  'date',
+  'datetime',
+  'datetime2',
+  'datetimeoffset',
+  'decimal',
+  'float',
+  'image',
+  'int',
+  'money',
+  'nchar',
+  'ntext',
+  'numeric',
+  'nvarchar',
+  'real',
+  'smalldatetime',
+  'smallint',
+  'smallmoney',
+  'text',
+  'time',
+  'tinyint',
+  'uniqueidentifier',
+  'varbinary',
+  'varchar',
+  'xml',
+];
+
+export class MssqlUi implements SqlUi {
+  //#region statics
+  static getNewTableColumns() {
+    return [
+      {
+        column_name: 'id',
+        title: 'Id',
+        dt: 'int',
+        dtx: 'integer',
+        ct: 'int',
+        nrqd: false,
+        rqd: true,
+        ck: false,
+        pk: true,
+        un: false,
+        ai: true,
+        cdf: null,
+        clen: null,
+        np: 10,
+        ns: 0,
+        dtxp: '',
+        dtxs: '',
+        altered: 1,
+        uidt: 'ID',
+        uip: '',
+        uicn: '',
+      },
+      {
+        column_name: 'title',
+        title: 'Title',
+        dt: 'nvarchar',
+        dtx: 'specificType',
+        ct: 'nvarchar(255)',
+        nrqd: true,
+        rqd: false,
+        ck: false,
+        pk: false,
+        un: false,
+        ai: false,
+        cdf: null,
+        clen: 255,
+        np: null,
+        ns: null,
+        dtxp: '255',
+        dtxs: '',
+        altered: 1,
+        uidt: 'SingleLineText',
+        uip: '',
+        uicn: '',
+      },
+      {
+        column_name: 'created_at',
+        title: 'CreatedAt',
+        dt: 'datetimeoffset',
+        dtx: 'specificType',
+        ct: 'datetimeoffset',
+        nrqd: true,
+        rqd: false,
+        ck: false,
+        pk: false,
+        un: false,
+        ai: false,
+        clen: 45,
+        np: null,
+        ns: null,
+        dtxp: '',
+        dtxs: '',
+        altered: 1,
+        uidt: UITypes.CreatedTime,
+        uip: '',
+        uicn: '',
+        system: true,
+      },
+      {
+        column_name: 'updated_at',
+        title: 'UpdatedAt',
+        dt: 'datetimeoffset',
+        dtx: 'specificType',
+        ct: 'datetimeoffset',
+        nrqd: true,
+        rqd: false,
+        ck: false,
+        pk: false,
+        un: false,
+        ai: false,
+        clen: 45,
+        np: null,
+        ns: null,
+        dtxp: '',
+        dtxs: '',
+        altered: 1,
+        uidt: UITypes.LastModifiedTime,
+        uip: '',
+        uicn: '',
+        system: true,
+      },
+      {
+        column_name: 'created_by',
+        title: 'nc_created_by',
+        dt: 'nvarchar',
+        dtx: 'specificType',
+        ct: 'nvarchar(45)',
+        nrqd: true,
+        rqd: false,
+        ck: false,
+        pk: false,
+        un: false,
+        ai: false,
+        clen: 45,
+        np: null,
+        ns: null,
+        dtxp: '45',
+        dtxs: '',
+        altered: 1,
+        uidt: UITypes.CreatedBy,
+        uip: '',
+        uicn: '',
+        system: true,
+      },
+      {
+        column_name: 'updated_by',
+        title: 'nc_updated_by',
+        dt: 'nvarchar',
+        dtx: 'specificType',
+        ct: 'nvarchar(45)',
+        nrqd: true,
+        rqd: false,
+        ck: false,
+        pk: false,
+        un: false,
+        ai: false,
+        clen: 45,
+        np: null,
+        ns: null,
+        dtxp: '45',
+        dtxs: '',
+        altered: 1,
+        uidt: UITypes.LastModifiedBy,
+        uip: '',
+        uicn: '',
+        system: true,
+      },
+      {
+        column_name: 'nc_order',
+        title: 'nc_order',
+        dt: 'decimal',
+        dtx: 'specificType',
+        ct: 'decimal(38,18)',
+        nrqd: true,
+        rqd: false,
+        ck: false,
+        pk: false,
+        un: false,
+        ai: false,
+        cdf: null,
+        clen: null,
+        np: 38,
+        ns: 18,
+        dtxp: '38',
+        dtxs: '18',
+        altered: 1,
+        uidt: UITypes.Order,
+        uip: '',
+        uicn: '',
+        system: true,
+      },
+    ];
+  }
+
+  static getNewColumn(suffix) {
+    return {
+      column_name: 'title' + suffix,
+      dt: 'nvarchar',
+      dtx: 'specificType',
+      ct: 'nvarchar(255)',
+      nrqd: true,
+      rqd: false,
+      ck: false,
+      pk: false,
+      un: false,
+      ai: false,
+      cdf: null,
+      clen: 255,
+      np: null,
+      ns: null,
+      dtxp: '255',
+      dtxs: '',
+      altered: 1,
+      uidt: 'SingleLineText',
+      uip: '',
+      uicn: '',
+    };
+  }
+
+  static getDefaultLengthForDatatype(type): any {
+    switch (type) {
+      case 'char':
+      case 'nchar':
+      case 'binary':
+        return 1;
+
+      case 'varchar':
+      case 'nvarchar':
+      case 'varbinary':
+        return 255;
+
+      case 'decimal':
+      case 'numeric':
+        return 18;
+
+      default:
+        return '';
+    }
+  }
+
+  static getDefaultLengthIsDisabled(type): any {
+    switch (type) {
+      case 'char':
+      case 'nchar':
+      case 'binary':
+      case 'varchar':
+      case 'nvarchar':
+      case 'varbinary':
+      case 'decimal':
+      case 'numeric':
+        return false;
+
+      default:
+        return true;
+    }
+  }
+
+  static getDefaultValueForDatatype(type): any {
+    switch (type) {
+      case 'bigint':
+      case 'int':
+      case 'smallint':
+      case 'tinyint':
+      case 'decimal':
+      case 'numeric':
+        return 'eg : ' + 10;
+
+      case 'float':
+      case 'real':
+      case 'money':
+      case 'smallmoney':
+        return 'eg : ' + 10.0;
+
+      case 'bit':
+        return 'eg : ' + 1;
+
+      case 'date':
+        return 'eg : ' + '2020-09-09';
+
+      case 'datetime':
+      case 'datetime2':
+      case 'smalldatetime':
+        return 'eg : ' + 'GETDATE()';
+
+      case 'datetimeoffset':
+        return 'eg : ' + 'SYSDATETIMEOFFSET()';
+
+      case 'time':
+        return 'eg : ' + '10:10:10';
+
+      case 'uniqueidentifier':
+        return 'eg : ' + 'NEWID()';
+
+      default:
+        return 'eg : hey';
+    }
+  }
+
+  static getDefaultScaleForDatatype(type): any {
+    switch (type) {
+      case 'decimal':
+      case 'numeric':
+        return '2';
+
+      default:
+        return ' ';
+    }
+  }
+
+  static colPropAIDisabled(col, columns) {
+    if (
+      col.dt === 'int' ||
+      col.dt === 'bigint' ||
+      col.dt === 'smallint' ||
+      col.dt === 'tinyint'
+    ) {
+      // only one identity column is allowed per table
+      for (let i = 0; i < columns.length; ++i) {
+        if (columns[i].cn !== col.cn && columns[i].ai) {
+          return true;
+        }
+      }
+      return false;
+    } else {
+      return true;
+    }
+  }
+
+  static colPropUNDisabled(_col) {
+    return true;
+  }
+
+  static onCheckboxChangeAI(col) {
+    if (
+      col.dt === 'int' ||
+      col.dt === 'bigint' ||
+      col.dt === 'smallint' ||
+      col.dt === 'tinyint'
+    ) {
+      col.altered = col.altered || 2;
+    }
+  }
+
+  static showScale(columnObj) {
+    return columnObj.dt === 'decimal' || columnObj.dt === 'numeric';
+  }
+
+  static removeUnsigned(columns) {
+    // sql server has no unsigned types
+    for (let i = 0; i < columns.length; ++i) {
+      if (columns[i].altered === 1) {
+        columns[i].un = false;
+      }
+    }
+  }
+
+  static columnEditable(_colObj) {
+    return true;
+  }
+
+  static onCheckboxChangeAU(col) {
+    col.altered = col.altered || 2;
+  }
+
+  static colPropAuDisabled(col) {
+    if (col.altered !== 1) {
+      return true;
+    }
+
+    switch (col.dt) {
+      case 'date':
+      case 'datetime':
+      case 'datetime2':
+      case 'datetimeoffset':
+      case 'smalldatetime':
+      case 'time':
+        return false;
+
+      default:
+        return true;
+    }
+  }
+
+  static getAbstractType(col): any {
+    switch (col.dt?.replace(/\(.*\)$/, '').toLowerCase()) {
+      case 'bigint':
+      case 'int':
+      case 'smallint':
+      case 'tinyint':
+        return 'integer';
+      case 'decimal':
+      case 'numeric':
+      case 'float':
+      case 'real':
+      case 'money':
+      case 'smallmoney':
+        return 'float';
+      case 'bit':
+        return 'boolean';
+      case 'datetime':
+      case 'datetime2':
+      case 'datetimeoffset':
+      case 'smalldatetime':
+        return 'datetime';
+      case 'date':
+        return 'date';
+      case 'time':
+        return 'time';
+      case 'char':
+      case 'nchar':
+      case 'varchar':
+      case 'nvarchar':
+      case 'uniqueidentifier':
+        return 'string';
+      case 'text':
+      case 'ntext':
+      case 'xml':
+        return 'text';
+      case 'binary':
+      case 'varbinary':
+      case 'image':
+        return 'blob';
+    }
+    return 'string';
+  }
+
+  static getUIType(col): any {
+    switch (this.getAbstractType(col)) {
+      case 'integer':
+        return 'Number';
+      case 'boolean':
+        return 'Checkbox';
+      case 'float':
+        return 'Decimal';
+      case 'date':
+        return 'Date';
+      case 'datetime':
+        return 'CreatedTime';
+      case 'time':
+        return 'Time';
+      case 'string':
+        return 'SingleLineText';
+      case 'text':
+        return 'LongText';
+      case 'blob':
+        return 'Attachment';
+    }
+  }
+
+  static getDataTypeForUiType(col: { uidt: UITypes }, idType?: IDType) {
+    const colProp: any = {};
+    switch (col.uidt) {
+      case 'ID':
+        {
+          const isAutoIncId = idType === 'AI';
+          const isAutoGenId = idType === 'AG';
+          colProp.dt = isAutoGenId ? 'nvarchar' : 'int';
+          colProp.dtxp = isAutoGenId ? '255' : '';
+          colProp.pk = true;
+          colProp.ai = isAutoIncId;
+          colProp.rqd = true;
+          colProp.meta = isAutoGenId ? { ag: 'nc' } : undefined;
+        }
+        break;
+      case 'ForeignKey':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = '255';
+        break;
+      case 'SingleLineText':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = '255';
+        break;
+      case 'LongText':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = 'max';
+        break;
+      case 'Attachment':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = 'max';
+        break;
+      case 'GeoData':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = '255';
+        break;
+      case 'Checkbox':
+        colProp.dt = 'bit';
+        colProp.cdf = '0';
+        break;
+      case 'MultiSelect':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = 'max';
+        break;
+      case 'SingleSelect':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = '255';
+        break;
+      case 'Collaborator':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = '255';
+        break;
+      case 'Date':
+        colProp.dt = 'date';
+        break;
+      case 'Year':
+        colProp.dt = 'int';
+        break;
+      case 'Time':
+        colProp.dt = 'time';
+        break;
+      case 'PhoneNumber':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = '255';
+        colProp.validate = {
+          func: ['isMobilePhone'],
+          args: [''],
+          msg: ['Validation failed : isMobilePhone'],
+        };
+        break;
+      case 'Email':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = '255';
+        colProp.validate = {
+          func: ['isEmail'],
+          args: [''],
+          msg: ['Validation failed : isEmail'],
+        };
+        break;
+      case 'URL':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = 'max';
+        colProp.validate = {
+          func: ['isURL'],
+          args: [''],
+          msg: ['Validation failed : isURL'],
+        };
+        break;
+      case 'Number':
+        colProp.dt = 'bigint';
+        break;
+      case 'Decimal':
+        colProp.dt = 'decimal';
+        break;
+      case 'Currency':
+        colProp.dt = 'decimal';
+        colProp.validate = {
+          func: ['isCurrency'],
+          args: [''],
+          msg: ['Validation failed : isCurrency'],
+        };
+        break;
+      case 'Percent':
+        colProp.dt = 'float';
+        break;
+      case 'Duration':
+        colProp.dt = 'decimal';
+        break;
+      case 'Rating':
+        colProp.dt = 'smallint';
+        colProp.cdf = '0';
+        break;
+      case 'Formula':
+      case 'Button':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = 'max';
+        break;
+      case 'Rollup':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = '255';
+        break;
+      case 'Count':
+        colProp.dt = 'int';
+        break;
+      case 'Lookup':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = '255';
+        break;
+      case 'DateTime':
+      case 'CreatedTime':
+      case 'LastModifiedTime':
+        colProp.dt = 'datetimeoffset';
+        break;
+      case 'AutoNumber':
+        colProp.dt = 'int';
+        break;
+      case 'Barcode':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = '255';
+        break;
+      case 'JSON':
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = 'max';
+        break;
+      case 'Order':
+        colProp.dt = 'decimal';
+        colProp.dtxp = '38';
+        colProp.dtxs = '18';
+        break;
+      default:
+        colProp.dt = 'nvarchar';
+        colProp.dtxp = '255';
+        break;
+    }
+    return colProp;
+  }
+
+  static getDataTypeListForUiType(col: { uidt: UITypes }, idType?: IDType) {
+    switch (col.uidt) {
+      case 'ID':
+        if (idType === 'AG') {
+          return ['char', 'nchar', 'varchar', 'nvarchar', 'uniqueidentifier'];
+        } else if (idType === 'AI') {
+          return ['int', 'bigint', 'smallint', 'tinyint'];
+        } else {
+          return dbTypes;
+        }
+      case 'ForeignKey':
+        return dbTypes;
+
+      case 'SingleLineText':
+      case 'PhoneNumber':
+      case 'Email':
+      case 'Barcode':
+      case 'Lookup':
+      case 'Rollup':
+      case 'Collaborator':
+      case 'GeoData':
+        return ['nvarchar', 'varchar', 'nchar', 'char'];
+
+      case 'LongText':
+      case 'Attachment':
+      case 'JSON':
+      case 'URL':
+      case 'Formula':
+      case 'Button':
+        return ['nvarchar', 'varchar', 'ntext', 'text'];
+
+      case 'MultiSelect':
+      case 'SingleSelect':
+        return ['nvarchar', 'varchar'];
+
+      case 'Checkbox':
+        return ['bit', 'tinyint', 'smallint', 'int'];
+
+      case 'Year':
+        return ['int', 'smallint'];
+
+      case 'Time':
+        return ['time'];
+
+      case 'Number':
+        return ['int', 'bigint', 'smallint', 'tinyint'];
+
+      case 'Decimal':
+        return ['decimal', 'numeric', 'float', 'real'];
+
+      case 'Currency':
+        return ['decimal', 'numeric', 'money', 'smallmoney'];
+
+      case 'Percent':
+      case 'Duration':
+        return ['decimal', 'numeric', 'float', 'real', 'int', 'bigint'];
+
+      case 'Rating':
+      case 'Count':
+      case 'AutoNumber':
+        return ['int', 'bigint', 'smallint', 'tinyint'];
+
+      case 'Date':
+        return ['date', 'datetime', 'datetime2', 'smalldatetime'];
+
+      case 'DateTime':
+      case 'CreatedTime':
+      case 'LastModifiedTime':
+        return ['datetimeoffset', 'datetime2', 'datetime', 'smalldatetime'];
+
+      default:
+        return dbTypes;
+    }
+  }
+
+  static getUnsupportedFnList() {
+    return [
+      'REGEX_MATCH',
+      'REGEX_EXTRACT',
+      'REGEX_REPLACE',
+      'VALUE',
+      'WORKDAY',
+      'NETWORKDAYS',
+      'ARRAYJOIN',
+      'ARRAYUNIQUE',
+      'ARRAYCOMPACT',
+      'ARRAYSORT',
+      'ARRAYSLICE',
+    ];
+  }
+
+  static getCurrentDateDefault(col: Partial<ColumnType>) {
+    if (
+      col.dt &&
+      ['datetime', 'datetime2', 'smalldatetime'].includes(col.dt.toLowerCase())
+    ) {
+      return 'GETDATE()';
+    }
+    if (
+      (col.dt && col.dt.toLowerCase() === 'datetimeoffset') ||
+      (!col.dt && col.uidt === UITypes.DateTime)
+    ) {
+      return 'SYSDATETIMEOFFSET()';
+    }
+    return null;
+  }
+
+  static isEqual(dataType1: string, dataType2: string) {
+    if (dataType1 === dataType2) return true;
+
+    const abstractType1 = this.getAbstractType({ dt: dataType1 });
+    const abstractType2 = this.getAbstractType({ dt: dataType2 });
+
+    if (
+      abstractType1 &&
+      abstractType1 === abstractType2 &&
+      ['integer', 'float'].includes(abstractType1)
+    )
+      return true;
+
+    return false;
+  }
+  //#endregion statics
+
+  //#region methods
+  getNewTableColumns(): readonly any[] {
+    return MssqlUi.getNewTableColumns();
+  }
+  getNewColumn(suffix: string): {
+    column_name: string;
+    dt: string;
+    dtx: string;
+    ct: string;
+    nrqd: boolean;
+    rqd: boolean;
+    ck: boolean;
+    pk: boolean;
+    un: boolean;
+    ai: boolean;
+    cdf: null;
+    clen: number;
+    np: number;
+    ns: number;
+    dtxp: string;
+    dtxs: string;
+    altered: number;
+    uidt: string;
+    uip: string;
+    uicn: string;
+  } {
+    return MssqlUi.getNewColumn(suffix);
+  }
+  getDefaultLengthForDatatype(type: string): number | string {
+    return MssqlUi.getDefaultLengthForDatatype(type);
+  }
+  getDefaultLengthIsDisabled(type: string) {
+    return MssqlUi.getDefaultLengthIsDisabled(type);
+  }
+  getDefaultValueForDatatype(type: string) {
+    return MssqlUi.getDefaultValueForDatatype(type);
+  }
+  getDefaultScaleForDatatype(type: any): string {
+    return MssqlUi.getDefaultScaleForDatatype(type);
+  }
+  colPropAIDisabled(col: ColumnType, columns: ColumnType[]): boolean {
+    return MssqlUi.colPropAIDisabled(col, columns);
+  }
+  colPropUNDisabled(col: ColumnType): boolean {
+    return MssqlUi.colPropUNDisabled(col);
+  }
+  onCheckboxChangeAI(col: ColumnType): void {
+    return MssqlUi.onCheckboxChangeAI(col);
+  }
+  showScale(columnObj: ColumnType): boolean {
+    return MssqlUi.showScale(columnObj);
+  }
+  removeUnsigned(columns: ColumnType[]): void {
+    return MssqlUi.removeUnsigned(columns);
+  }
+  columnEditable(colObj: ColumnType): boolean {
+    return MssqlUi.columnEditable(colObj);
+  }
+  onCheckboxChangeAU(col: ColumnType): void {
+    return MssqlUi.onCheckboxChangeAU(col);
+  }
+  colPropAuDisabled(col: ColumnType): boolean {
+    return MssqlUi.colPropAuDisabled(col);
+  }
+  getAbstractType(col: ColumnType): string {
+    return MssqlUi.getAbstractType(col);
+  }
+  getUIType(col: ColumnType): string {
+    return MssqlUi.getUIType(col);
+  }
+  getDataTypeForUiType(col: { uidt: UITypes }, idType?: IDType) {
+    return MssqlUi.getDataTypeForUiType(col, idType);
+  }
+  getDataTypeListForUiType(col: { uidt: UITypes }, idType?: IDType): string[] {
+    return MssqlUi.getDataTypeListForUiType(col, idType);
+  }
+  getUnsupportedFnList(): string[] {
+    return MssqlUi.getUnsupportedFnList();
+  }
+  getCurrentDateDefault(_col: Partial<ColumnType>) {
+    return MssqlUi.getCurrentDateDefault(_col);
+  }
+  isEqual(dataType1: string, dataType2: string): boolean {
+    return MssqlUi.isEqual(dataType1, dataType2);
+  }
+  adjustLengthAndScale(newColumn: Partial<ColumnType>, oldColumn?: ColumnType) {
+    if (['decimal', 'numeric'].includes(newColumn.dt)) {
+      // get old column length and default length
+      const defaultDtxp: number = numberize(
+        MssqlUi.getDefaultLengthForDatatype(newColumn.dt)
+      );
+      let lastDtxp = defaultDtxp;
+      if (oldColumn) {
+        lastDtxp = numberize(oldColumn.dtxp) ?? lastDtxp;
+      }
+      // get default and new column scale
+      const defaultDtxs = numberize(
+        MssqlUi.getDefaultScaleForDatatype(newColumn.dt)
+      );
+      const newDtxs = numberize(newColumn.dtxs) ?? defaultDtxs;
+
+      // precision has to grow along with the scale to keep the integer digits
+      const newDtxp = Math.max(
+        defaultDtxp,
+        lastDtxp,
+        defaultDtxp + Math.max(newDtxs - defaultDtxs, 0)
+      );
+      newColumn.dtxp = newDtxp;
+      newColumn.dtxs = newDtxs;
+    }
+  }
+  isParsedJsonReturnType(_col: ColumnType): boolean {
+    return false;
+  }
+  get tableNameLengthLimit(): number {
+    return 128;
+  }
+  //#endregion methods
+}
@@ -976,6 +976,16 @@ export class OracleUi implements SqlUi {
       'ROUNDDOWN',
       'ROUNDUP',
       'DATESTR',
+      'ARRAYJOIN',
+      'ARRAYUNIQUE',
+      'ARRAYCOMPACT',
+      'ARRAYSORT',
+      'ARRAYSLICE',
+      'DATETIME_FORMAT',
+      'DATETIME_PARSE',
+      'SET_TIMEZONE',
+      'WORKDAY',
+      'NETWORKDAYS',
     ];
   }
 
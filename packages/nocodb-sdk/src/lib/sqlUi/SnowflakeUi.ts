@@ -1059,6 +1059,16 @@ export class SnowflakeUi implements SqlUi {
       'COUNTA',
       'COUNT',
       'DATESTR',
+      'ARRAYJOIN',
+      'ARRAYUNIQUE',
+      'ARRAYCOMPACT',
+      'ARRAYSORT',
+      'ARRAYSLICE',
+      'DATETIME_FORMAT',
+      'DATETIME_PARSE',
+      'SET_TIMEZONE',
+      'WORKDAY',
+      'NETWORKDAYS',
     ];
   }
 
@@ -7,6 +7,8 @@ import { PgUi } from './PgUi';
 import { SqliteUi } from './SqliteUi';
 import { SnowflakeUi } from './SnowflakeUi';
 import { DatabricksUi } from './DatabricksUi';
+import { MssqlUi } from './MssqlUi';
+import { DuckdbUi } from './DuckdbUi';
 import { SqlUi } from './SqlUI.types';
 
 // import {YugabyteUi} from "./YugabyteUi";
@@ -50,6 +52,14 @@ export class SqlUiFactory {
       return new DatabricksUi();
     }
 
+    if (connectionConfig.client === 'mssql') {
+      return new MssqlUi();
+    }
+
+    if (connectionConfig.client === 'duckdb') {
+      return new DuckdbUi();
+    }
+
     throw new Error('Database not supported');
   }
 }
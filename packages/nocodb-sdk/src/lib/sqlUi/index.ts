@@ -5,4 +5,6 @@ export * from './PgUi';
 export * from './OracleUi';
 export * from './SqliteUi';
 export * from './SnowflakeUi';
+export * from './MssqlUi';
+export * from './DuckdbUi';
 export * from './SqlUiFactory';
@@ -1,3 +1,5 @@
+import UITypes from '~/lib/UITypes';
+
 export enum SyncType {
   Full = 'full',
   Incremental = 'incremental',
@@ -37,7 +39,7 @@ export const SyncTriggerMeta = {
     label: 'Webhook',
     description: 'Sync data via a webhook',
   },
-}
+};
 
 export const OnDeleteActionMeta = {
   [OnDeleteAction.Delete]: {
@@ -50,7 +52,7 @@ export const OnDeleteActionMeta = {
     label: 'Mark Deleted',
     description: 'Mark data as deleted in NocoDB',
   },
-}
+};
 
 export const SyncTypeMeta = {
   [SyncType.Full]: {
@@ -63,7 +65,7 @@ export const SyncTypeMeta = {
     label: 'Incremental',
     description: 'Sync only new and updated data',
   },
-}
+};
 
 export const SyncCategoryMeta = {
   [SyncCategory.TICKETING]: {
@@ -90,7 +92,7 @@ export const SyncCategoryMeta = {
     description: 'Sync data from a dynamic source',
     icon: 'ncDatabase',
   },
-}
+};
 
 export enum TARGET_TABLES {
   TICKETING_TICKET = 'ticketing_ticket',
@@ -132,4 +134,73 @@ export const TARGET_TABLES_META = {
     description: 'Sync all teams from the source',
     required: false,
   },
-}
+};
+
+// columns added to every synced table to track the remote record
+export const syncSystemFields: {
+  column_name: string;
+  title: string;
+  uidt: UITypes;
+}[] = [
+  // Generic System Fields
+  {
+    column_name: 'remote_id',
+    title: 'RemoteId',
+    uidt: UITypes.SingleLineText,
+  },
+  {
+    column_name: 'remote_created_at',
+    title: 'RemoteCreatedAt',
+    uidt: UITypes.DateTime,
+  },
+  {
+    column_name: 'remote_updated_at',
+    title: 'RemoteUpdatedAt',
+    uidt: UITypes.DateTime,
+  },
+  {
+    column_name: 'remote_deleted_at',
+    title: 'RemoteDeletedTime',
+    uidt: UITypes.DateTime,
+  },
+  {
+    column_name: 'remote_deleted',
+    title: 'RemoteDeleted',
+    uidt: UITypes.Checkbox,
+  },
+  {
+    column_name: 'remote_raw',
+    title: 'RemoteRaw',
+    uidt: UITypes.LongText,
+  },
+  {
+    column_name: 'remote_synced_at',
+    title: 'RemoteSyncedAt',
+    uidt: UITypes.DateTime,
+  },
+  {
+    column_name: 'remote_namespace',
+    title: 'RemoteNamespace',
+    uidt: UITypes.SingleLineText,
+  },
+  {
+    column_name: 'sync_config_id',
+    title: 'SyncConfigId',
+    uidt: UITypes.SingleLineText,
+  },
+  {
+    column_name: 'sync_run_id',
+    title: 'SyncRunId',
+    uidt: UITypes.SingleLineText,
+  },
+  {
+    column_name: 'sync_provider',
+    title: 'SyncProvider',
+    uidt: UITypes.SingleLineText,
+  },
+];
+
+export const syncSystemFieldsMap = syncSystemFields.reduce((acc, field) => {
+  acc[field.title] = field;
+  return acc;
+}, {} as Record<string, (typeof syncSystemFields)[number]>);
@@ -0,0 +1,123 @@
+import {
+  generateWebhookSignature,
+  hmacSha256Hex,
+  verifyWebhookSignature,
+} from './webhookSignature';
+
+describe('webhookSignature', () => {
+  describe('hmacSha256Hex', () => {
+    it('matches RFC 4231 test vectors', async () => {
+      // test case 2
+      expect(await hmacSha256Hex('Jefe', 'what do ya want for nothing?')).toBe(
+        '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+      );
+      // test case 6, key longer than block size is hashed first
+      expect(
+        await hmacSha256Hex(
+          new Uint8Array(131).fill(0xaa),
+          'Test Using Larger Than Block-Size Key - Hash Key First'
+        )
+      ).toBe(
+        '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54'
+      );
+    });
+
+    it('handles empty, unicode and multi block payloads', async () => {
+      const cases = [
+        {
+          payload: '',
+          expected:
+            '43c0f4d23c8e8841358fad4624b1a592799222b29f25bb59baea43cdcb522ed1',
+        },
+        {
+          payload: 'a',
+          expected:
+            '57a024802aa87e885e1c8e7d55e8e46452906051cbfbe2d7cb40954c4a834fad',
+        },
+        {
+          payload: JSON.stringify({
+            type: 'records.after.insert',
+            data: { Title: 'ü€😀' },
+          }),
+          expected:
+            '2772a71d7f8537d5cc14132d18bc1a66a3733e524f6df361300d2daf4ca20bd1',
+        },
+        {
+          payload: 'x'.repeat(1000),
+          expected:
+            '35375faa98412cba6e5a6008cc64b58f3213274d5b736a637b6ab14ec43d2b40',
+        },
+      ];
+      for (const { payload, expected } of cases) {
+        expect(await hmacSha256Hex('whsec_test', payload)).toBe(expected);
+      }
+    });
+  });
+
+  describe('verifyWebhookSignature', () => {
+    const secret = 'whsec_test';
+    const payload = JSON.stringify({ id: 1, title: 'Hello' });
+    const timestamp = 1700000000;
+    let signature: string;
+
+    beforeAll(async () => {
+      signature = await generateWebhookSignature(secret, timestamp, payload);
+    });
+
+    it('accepts a valid signature', async () => {
+      expect(signature.startsWith('sha256=')).toBe(true);
+      expect(
+        await verifyWebhookSignature({
+          payload,
+          signature,
+          timestamp,
+          secret,
+          currentTimestamp: timestamp + 10,
+        })
+      ).toBe(true);
+    });
+
+    it('rejects tampered payload or wrong secret', async () => {
+      expect(
+        await verifyWebhookSignature({
+          payload: payload.replace('Hello', 'Bye'),
+          signature,
+          timestamp,
+          secret,
+          currentTimestamp: timestamp,
+        })
+      ).toBe(false);
+      expect(
+        await verifyWebhookSignature({
+          payload,
+          signature,
+          timestamp,
+          secret: 'whsec_other',
+          currentTimestamp: timestamp,
+        })
+      ).toBe(false);
+    });
+
+    it('rejects timestamps outside tolerance', async () => {
+      expect(
+        await verifyWebhookSignature({
+          payload,
+          signature,
+          timestamp,
+          secret,
+          currentTimestamp: timestamp + 301,
+        })
+      ).toBe(false);
+      expect(
+        await verifyWebhookSignature({
+          payload,
+          signature,
+          timestamp,
+          secret,
+          toleranceInSeconds: 0,
+          currentTimestamp: timestamp + 3600,
+        })
+      ).toBe(true);
+    });
+  });
+});
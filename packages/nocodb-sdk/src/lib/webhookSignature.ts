@@ -0,0 +1,105 @@
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Nocodb-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Nocodb-Timestamp';
+
+// default window in which a signed request is accepted
+export const WEBHOOK_SIGNATURE_TOLERANCE_IN_SECONDS = 5 * 60;
+
+export const WEBHOOK_SIGNATURE_PREFIX = 'sha256=';
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+
+/**
+ * HMAC-SHA256 of the message, returned as lowercase hex string.
+ * Uses Web Crypto, which is available in browsers and node 19+.
+ */
+export const hmacSha256Hex = async (
+  key: string | Uint8Array,
+  message: string
+): Promise<string> => {
+  const encoder = new TextEncoder();
+
+  const cryptoKey = await globalThis.crypto.subtle.importKey(
+    'raw',
+    typeof key === 'string' ? encoder.encode(key) : key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  return toHex(
+    await globalThis.crypto.subtle.sign(
+      'HMAC',
+      cryptoKey,
+      encoder.encode(message)
+    )
+  );
+};
+
+/**
+ * Generate the value of `X-Nocodb-Signature` header, the signature covers
+ * the timestamp and the raw request body in the form `<timestamp>.<body>`
+ */
+export const generateWebhookSignature = async (
+  secret: string,
+  timestamp: number | string,
+  payload: string
+) => {
+  return `${WEBHOOK_SIGNATURE_PREFIX}${await hmacSha256Hex(
+    secret,
+    `${timestamp}.${payload}`
+  )}`;
+};
+
+// compare without returning early to avoid leaking the match length
+const safeCompare = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+};
+
+/**
+ * Verify a signed webhook request received from NocoDB.
+ *
+ * `payload` must be the raw request body as received, not the parsed JSON.
+ * Requests with a timestamp outside of the tolerance window are rejected
+ * to protect against replay.
+ */
+export const verifyWebhookSignature = async ({
+  payload,
+  signature,
+  timestamp,
+  secret,
+  toleranceInSeconds = WEBHOOK_SIGNATURE_TOLERANCE_IN_SECONDS,
+  currentTimestamp = Math.floor(Date.now() / 1000),
+}: {
+  payload: string;
+  signature: string;
+  timestamp: number | string;
+  secret: string;
+  toleranceInSeconds?: number;
+  currentTimestamp?: number;
+}): Promise<boolean> => {
+  if (!payload && payload !== '') return false;
+  if (!signature || !timestamp || !secret) return false;
+
+  const timestampNumber = Number(timestamp);
+  if (!Number.isFinite(timestampNumber)) return false;
+
+  if (
+    toleranceInSeconds > 0 &&
+    Math.abs(currentTimestamp - timestampNumber) > toleranceInSeconds
+  ) {
+    return false;
+  }
+
+  return safeCompare(
+    await generateWebhookSignature(secret, timestamp, payload),
+    signature.trim()
+  );
+};
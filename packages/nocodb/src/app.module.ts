@@ -20,6 +20,7 @@ import { RawBodyMiddleware } from '~/middlewares/raw-body.middleware';
 import { JsonBodyMiddleware } from '~/middlewares/json-body.middleware';
 
 import { UrlEncodeMiddleware } from '~/middlewares/url-encode.middleware';
+import apiMetrics from '~/helpers/apiMetrics';
 
 export const ceModuleConfig = {
   imports: [
@@ -64,6 +65,8 @@ export class AppModule {
       .apply(GuiMiddleware)
       .forRoutes({ path: `${dashboardPath}*`, method: RequestMethod.GET })
       .apply(GlobalMiddleware)
+      .forRoutes({ path: '*', method: RequestMethod.ALL })
+      .apply(apiMetrics)
       .forRoutes({ path: '*', method: RequestMethod.ALL });
   }
 }
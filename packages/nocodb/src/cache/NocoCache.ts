@@ -3,6 +3,7 @@ import RedisMockCacheMgr from './RedisMockCacheMgr';
 import type CacheMgr from './CacheMgr';
 import { CACHE_PREFIX, CacheGetType } from '~/utils/globals';
 import { getRedisURL } from '~/helpers/redisHelpers';
+import { recordCacheLookup } from '~/helpers/metricsHelpers';
 
 export default class NocoCache {
   private static client: CacheMgr;
@@ -59,7 +60,14 @@ export default class NocoCache {
       else if (type === CacheGetType.TYPE_OBJECT) return Promise.resolve(null);
       return Promise.resolve(null);
     }
-    return this.client.get(`${this.prefix}:${key}`, type);
+    const value = await this.client.get(`${this.prefix}:${key}`, type);
+    recordCacheLookup(
+      key,
+      Array.isArray(value)
+        ? !!value.length
+        : value !== null && value !== undefined,
+    );
+    return value;
   }
 
   public static async del(key): Promise<boolean> {
@@ -86,7 +94,9 @@ export default class NocoCache {
         list: [],
         isNoneList: false,
       });
-    return this.client.getList(scope, subKeys, orderBy);
+    const result = await this.client.getList(scope, subKeys, orderBy);
+    recordCacheLookup(scope, !!result?.list?.length || !!result?.isNoneList);
+    return result;
   }
 
   public static async setList(
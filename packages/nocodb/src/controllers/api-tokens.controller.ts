@@ -37,7 +37,10 @@ export class ApiTokensController {
     '/api/v2/meta/bases/:baseId/api-tokens',
   ])
   @HttpCode(200)
-  @Acl('baseApiTokenCreate')
+  @Acl('baseApiTokenCreate', {
+    // a token shouldn't be able to mint tokens outside of its own scope
+    blockApiTokenAccess: true,
+  })
   async apiTokenCreate(@Req() req: NcRequest, @Body() body) {
     return await this.apiTokensService.apiTokenCreate({
       tokenBody: body,
@@ -50,7 +53,9 @@ export class ApiTokensController {
     '/api/v1/db/meta/projects/:baseId/api-tokens/:tokenId',
     '/api/v2/meta/bases/:baseId/api-tokens/:tokenId',
   ])
-  @Acl('baseApiTokenDelete')
+  @Acl('baseApiTokenDelete', {
+    blockApiTokenAccess: true,
+  })
   async apiTokenDelete(
     @Req() req: NcRequest,
     @Param('tokenId') tokenId: string,
@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { GlobalGuard } from '~/guards/global/global.guard';
+import { MetaApiLimiterGuard } from '~/guards/meta-api-limiter.guard';
+import { PublicApiLimiterGuard } from '~/guards/public-api-limiter.guard';
+import { CalendarFeedsService } from '~/services/calendar-feeds.service';
+import { Acl } from '~/middlewares/extract-ids/extract-ids.middleware';
+import { TenantContext } from '~/decorators/tenant-context.decorator';
+import { NcContext } from '~/interface/config';
+
+@Controller()
+export class CalendarFeedsController {
+  constructor(private readonly calendarFeedsService: CalendarFeedsService) {}
+
+  @Post(['/api/v2/meta/calendars/:calendarViewId/feed'])
+  @HttpCode(200)
+  @UseGuards(MetaApiLimiterGuard, GlobalGuard)
+  @Acl('calendarFeedTokenGenerate')
+  async calendarFeedTokenGenerate(
+    @TenantContext() context: NcContext,
+    @Param('calendarViewId') calendarViewId: string,
+  ) {
+    return await this.calendarFeedsService.calendarFeedTokenGenerate(context, {
+      calendarViewId,
+    });
+  }
+
+  @Delete(['/api/v2/meta/calendars/:calendarViewId/feed'])
+  @UseGuards(MetaApiLimiterGuard, GlobalGuard)
+  @Acl('calendarFeedTokenRevoke')
+  async calendarFeedTokenRevoke(
+    @TenantContext() context: NcContext,
+    @Param('calendarViewId') calendarViewId: string,
+  ) {
+    return await this.calendarFeedsService.calendarFeedTokenRevoke(context, {
+      calendarViewId,
+    });
+  }
+
+  @Get(['/api/v2/public/calendar-feed/:icsToken/calendar.ics'])
+  @UseGuards(PublicApiLimiterGuard)
+  async calendarFeedIcs(
+    @TenantContext() context: NcContext,
+    @Param('icsToken') icsToken: string,
+    @Res() res: Response,
+  ) {
+    const { title, ics } = await this.calendarFeedsService.calendarFeedIcs(
+      context,
+      { icsToken },
+    );
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename="${encodeURIComponent(title)}.ics"`,
+    );
+    res.send(ics);
+  }
+}
@@ -10,7 +10,7 @@ import {
   Req,
   UseGuards,
 } from '@nestjs/common';
-import { ColumnReqType } from 'nocodb-sdk';
+import { ColumnPermissionsReqType, ColumnReqType } from 'nocodb-sdk';
 import type { Column } from '~/models';
 import { GlobalGuard } from '~/guards/global/global.guard';
 import { ColumnsService } from '~/services/columns.service';
@@ -106,6 +106,21 @@ export class ColumnsController {
     });
   }
 
+  @Patch(['/api/v2/meta/columns/:columnId/permissions'])
+  @Acl('columnPermissionsUpdate')
+  async columnPermissionsUpdate(
+    @TenantContext() context: NcContext,
+    @Param('columnId') columnId: string,
+    @Body() body: ColumnPermissionsReqType,
+    @Req() req: NcRequest,
+  ) {
+    return await this.columnsService.columnPermissionsUpdate(context, {
+      columnId,
+      permissions: body,
+      req,
+    });
+  }
+
   @Get([
     '/api/v1/db/meta/tables/:tableId/columns/hash',
     '/api/v2/meta/tables/:tableId/columns/hash',
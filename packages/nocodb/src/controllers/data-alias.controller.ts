@@ -305,4 +305,26 @@ export class DataAliasController {
     res.setHeader('xc-db-response', elapsedSeconds);
     res.json(groupedData);
   }
+
+  @Get([
+    '/api/v1/db/data/:orgs/:baseName/:tableName/geo-clusters/:columnId',
+    '/api/v1/db/data/:orgs/:baseName/:tableName/views/:viewName/geo-clusters/:columnId',
+  ])
+  @Acl('geoClusterList')
+  async geoClusterList(
+    @TenantContext() context: NcContext,
+    @Req() req: NcRequest,
+    @Param('baseName') baseName: string,
+    @Param('tableName') tableName: string,
+    @Param('viewName') viewName: string,
+    @Param('columnId') columnId: string,
+  ) {
+    return await this.datasService.geoClusterList(context, {
+      baseName: baseName,
+      tableName: tableName,
+      viewName: viewName,
+      query: req.query,
+      columnId: columnId,
+    });
+  }
 }
@@ -156,6 +156,49 @@ export class HooksController {
     );
   }
 
+  @Post(['/api/v2/meta/hooks/:hookId/logs/:hookLogId/redeliver'])
+  @HttpCode(200)
+  @Acl('hookLogRedeliver')
+  async hookLogRedeliver(
+    @TenantContext() context: NcContext,
+    @Param('hookId') hookId: string,
+    @Param('hookLogId') hookLogId: string,
+    @Req() req: NcRequest,
+  ) {
+    return await this.hooksService.hookLogRedeliver(context, {
+      hookId,
+      hookLogId,
+      req,
+    });
+  }
+
+  @Post(['/api/v2/meta/hooks/:hookId/secret'])
+  @HttpCode(200)
+  @Acl('hookSecretRotate')
+  async hookSecretRotate(
+    @TenantContext() context: NcContext,
+    @Param('hookId') hookId: string,
+    @Req() req: NcRequest,
+  ) {
+    return await this.hooksService.hookSecretRotate(context, {
+      hookId,
+      req,
+    });
+  }
+
+  @Delete(['/api/v2/meta/hooks/:hookId/secret'])
+  @Acl('hookSecretDelete')
+  async hookSecretDelete(
+    @TenantContext() context: NcContext,
+    @Param('hookId') hookId: string,
+    @Req() req: NcRequest,
+  ) {
+    return await this.hooksService.hookSecretDelete(context, {
+      hookId,
+      req,
+    });
+  }
+
   @Post(['/api/v2/meta/hooks/:hookId/trigger/:rowId'])
   @Acl('hookTrigger')
   async hookTrigger(
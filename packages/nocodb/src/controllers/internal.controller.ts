@@ -12,6 +12,7 @@ import { NcContext, NcRequest } from 'nocodb-sdk';
 import { MetaApiLimiterGuard } from '~/guards/meta-api-limiter.guard';
 import { GlobalGuard } from '~/guards/global/global.guard';
 import { McpTokenService } from '~/services/mcp.service';
+import { SyncModuleService } from '~/services/sync-module.service';
 import { TenantContext } from '~/decorators/tenant-context.decorator';
 import { NcError } from '~/helpers/catchError';
 import { AclMiddleware } from '~/middlewares/extract-ids/extract-ids.middleware';
@@ -25,6 +26,7 @@ import {
 export class InternalController {
   constructor(
     protected readonly mcpService: McpTokenService,
+    protected readonly syncModuleService: SyncModuleService,
     protected readonly aclMiddleware: AclMiddleware,
   ) {}
 
@@ -34,6 +36,14 @@ export class InternalController {
       mcpCreate: 'base',
       mcpUpdate: 'base',
       mcpDelete: 'base',
+      listSync: 'base',
+      readSync: 'base',
+      createSync: 'base',
+      updateSync: 'base',
+      deleteSync: 'base',
+      triggerSync: 'base',
+      syncIntegrationFetchDestinationSchema: 'base',
+      syncIntegrationFetchOptions: 'base',
     };
   }
 
@@ -63,6 +73,13 @@ export class InternalController {
         return await this.mcpService.list(context, req);
       case 'mcpGet':
         return await this.mcpService.get(context, req.query.tokenId as string);
+      case 'listSync':
+        return await this.syncModuleService.listSync(context);
+      case 'readSync':
+        return await this.syncModuleService.readSync(
+          context,
+          req.query.id as string,
+        );
       default:
         return NcError.notFound('Operation');
     }
@@ -90,6 +107,38 @@ export class InternalController {
         );
       case 'mcpDelete':
         return await this.mcpService.delete(context, payload.tokenId);
+      case 'createSync':
+        return await this.syncModuleService.createSync(context, {
+          sync: payload,
+          req,
+        });
+      case 'updateSync':
+        return await this.syncModuleService.updateSync(context, {
+          syncConfigId: payload.syncConfigId,
+          sync: payload,
+          req,
+        });
+      case 'deleteSync':
+        return await this.syncModuleService.deleteSync(context, {
+          syncConfigId: payload.syncConfigId,
+          req,
+        });
+      case 'triggerSync':
+        return await this.syncModuleService.triggerSync(context, {
+          syncConfigId: payload.syncConfigId,
+          bulk: payload.bulk,
+          req,
+        });
+      case 'syncIntegrationFetchDestinationSchema':
+        return await this.syncModuleService.syncIntegrationFetchDestinationSchema(
+          context,
+          { integration: payload.integration },
+        );
+      case 'syncIntegrationFetchOptions':
+        return await this.syncModuleService.syncIntegrationFetchOptions(
+          context,
+          { integration: payload.integration, key: payload.key },
+        );
       default:
         NcError.notFound('Operation');
     }
@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import { Controller, Get, Header, Req } from '@nestjs/common';
+import { Request } from 'express';
+import { MetricsService } from '~/services/metrics.service';
+import { isMetricsEnabled } from '~/helpers/metricsHelpers';
+import { NcError } from '~/helpers/catchError';
+
+@Controller()
+export class MetricsController {
+  constructor(protected readonly metricsService: MetricsService) {}
+
+  // opt-in with NC_METRICS_ENABLED and NC_METRICS_TOKEN, scrapers have to
+  // send the token as a bearer token
+  @Get('/api/v1/metrics')
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  async metrics(@Req() req: Request) {
+    if (!isMetricsEnabled()) {
+      NcError.notFound();
+    }
+
+    const provided = Buffer.from(
+      `${req.headers.authorization ?? ''}`.replace(/^Bearer\s+/i, ''),
+    );
+    const expected = Buffer.from(process.env.NC_METRICS_TOKEN);
+
+    if (
+      provided.length !== expected.length ||
+      !crypto.timingSafeEqual(provided, expected)
+    ) {
+      NcError.unauthorized('Invalid metrics token');
+    }
+
+    return await this.metricsService.render();
+  }
+}
@@ -123,6 +123,22 @@ export class PublicDatasController {
     return groupedData;
   }
 
+  @Get([
+    '/api/v1/db/public/shared-view/:sharedViewUuid/geo-clusters',
+    '/api/v2/public/shared-view/:sharedViewUuid/geo-clusters',
+  ])
+  async geoClusterList(
+    @TenantContext() context: NcContext,
+    @Req() req: NcRequest,
+    @Param('sharedViewUuid') sharedViewUuid: string,
+  ) {
+    return await this.publicDatasService.geoClusterList(context, {
+      query: req.query,
+      password: req.headers?.['xc-password'] as string,
+      sharedViewUuid,
+    });
+  }
+
   @Post([
     '/api/v1/db/public/shared-view/:sharedViewUuid/rows',
     '/api/v2/public/shared-view/:sharedViewUuid/rows',
@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { GlobalGuard } from '~/guards/global/global.guard';
+import { Acl } from '~/middlewares/extract-ids/extract-ids.middleware';
+import { DataApiLimiterGuard } from '~/guards/data-api-limiter.guard';
+import { TenantContext } from '~/decorators/tenant-context.decorator';
+import { NcContext, NcRequest } from '~/interface/config';
+import { RecordRevisionsService } from '~/services/record-revisions.service';
+
+@Controller()
+@UseGuards(DataApiLimiterGuard, GlobalGuard)
+export class RecordRevisionsController {
+  constructor(
+    protected readonly recordRevisionsService: RecordRevisionsService,
+  ) {}
+
+  @Get(['/api/v2/tables/:modelId/records/:rowId/revisions'])
+  @Acl('recordRevisionList')
+  async recordRevisionList(
+    @TenantContext() context: NcContext,
+    @Param('modelId') modelId: string,
+    @Param('rowId') rowId: string,
+    @Query() query: { limit?: string; offset?: string },
+  ) {
+    return await this.recordRevisionsService.recordRevisionList(context, {
+      modelId,
+      rowId,
+      query,
+    });
+  }
+
+  @Post([
+    '/api/v2/tables/:modelId/records/:rowId/revisions/:revisionId/restore',
+  ])
+  @HttpCode(200)
+  @Acl('recordRevisionRestore')
+  async recordRevisionRestore(
+    @TenantContext() context: NcContext,
+    @Req() req: NcRequest,
+    @Param('modelId') modelId: string,
+    @Param('rowId') rowId: string,
+    @Param('revisionId') revisionId: string,
+    @Body() body: { fields?: string[] },
+  ) {
+    return await this.recordRevisionsService.recordRevisionRestore(context, {
+      modelId,
+      rowId,
+      revisionId,
+      body,
+      req,
+    });
+  }
+}
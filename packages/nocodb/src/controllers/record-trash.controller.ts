@@ -0,0 +1,70 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { GlobalGuard } from '~/guards/global/global.guard';
+import { Acl } from '~/middlewares/extract-ids/extract-ids.middleware';
+import { MetaApiLimiterGuard } from '~/guards/meta-api-limiter.guard';
+import { TenantContext } from '~/decorators/tenant-context.decorator';
+import { NcContext, NcRequest } from '~/interface/config';
+import { RecordTrashService } from '~/services/record-trash.service';
+
+@Controller()
+@UseGuards(MetaApiLimiterGuard, GlobalGuard)
+export class RecordTrashController {
+  constructor(protected readonly recordTrashService: RecordTrashService) {}
+
+  @Get(['/api/v2/meta/bases/:baseId/trash'])
+  @Acl('recordTrashList')
+  async recordTrashList(
+    @TenantContext() context: NcContext,
+    @Param('baseId') baseId: string,
+    @Query()
+    query: {
+      fk_model_id?: string;
+      limit?: string;
+      offset?: string;
+    },
+  ) {
+    return await this.recordTrashService.recordTrashList(context, {
+      baseId,
+      query,
+    });
+  }
+
+  @Post(['/api/v2/meta/bases/:baseId/trash/:recordTrashId/restore'])
+  @HttpCode(200)
+  @Acl('recordTrashRestore')
+  async recordTrashRestore(
+    @TenantContext() context: NcContext,
+    @Req() req: NcRequest,
+    @Param('baseId') baseId: string,
+    @Param('recordTrashId') recordTrashId: string,
+  ) {
+    return await this.recordTrashService.recordTrashRestore(context, {
+      baseId,
+      recordTrashId,
+      req,
+    });
+  }
+
+  @Delete(['/api/v2/meta/bases/:baseId/trash/:recordTrashId'])
+  @Acl('recordTrashDelete')
+  async recordTrashDelete(
+    @TenantContext() context: NcContext,
+    @Param('baseId') baseId: string,
+    @Param('recordTrashId') recordTrashId: string,
+  ) {
+    return await this.recordTrashService.recordTrashDelete(context, {
+      baseId,
+      recordTrashId,
+    });
+  }
+}
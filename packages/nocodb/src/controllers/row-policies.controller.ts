@@ -0,0 +1,74 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { RowPolicyReqType } from 'nocodb-sdk';
+import { GlobalGuard } from '~/guards/global/global.guard';
+import { PagedResponseImpl } from '~/helpers/PagedResponse';
+import { RowPoliciesService } from '~/services/row-policies.service';
+import { Acl } from '~/middlewares/extract-ids/extract-ids.middleware';
+import { MetaApiLimiterGuard } from '~/guards/meta-api-limiter.guard';
+import { TenantContext } from '~/decorators/tenant-context.decorator';
+import { NcContext } from '~/interface/config';
+
+@Controller()
+@UseGuards(MetaApiLimiterGuard, GlobalGuard)
+export class RowPoliciesController {
+  constructor(private readonly rowPoliciesService: RowPoliciesService) {}
+
+  @Get(['/api/v2/meta/tables/:tableId/row-policies'])
+  @Acl('rowPolicyList')
+  async rowPolicyList(
+    @TenantContext() context: NcContext,
+    @Param('tableId') tableId: string,
+  ) {
+    return new PagedResponseImpl(
+      await this.rowPoliciesService.rowPolicyList(context, { tableId }),
+    );
+  }
+
+  @Post(['/api/v2/meta/tables/:tableId/row-policies'])
+  @HttpCode(200)
+  @Acl('rowPolicyCreate')
+  async rowPolicyCreate(
+    @TenantContext() context: NcContext,
+    @Param('tableId') tableId: string,
+    @Body() body: RowPolicyReqType,
+  ) {
+    return await this.rowPoliciesService.rowPolicyCreate(context, {
+      tableId,
+      rowPolicy: body,
+    });
+  }
+
+  @Patch(['/api/v2/meta/row-policies/:rowPolicyId'])
+  @Acl('rowPolicyUpdate')
+  async rowPolicyUpdate(
+    @TenantContext() context: NcContext,
+    @Param('rowPolicyId') rowPolicyId: string,
+    @Body() body: RowPolicyReqType,
+  ) {
+    return await this.rowPoliciesService.rowPolicyUpdate(context, {
+      rowPolicyId,
+      rowPolicy: body,
+    });
+  }
+
+  @Delete(['/api/v2/meta/row-policies/:rowPolicyId'])
+  @Acl('rowPolicyDelete')
+  async rowPolicyDelete(
+    @TenantContext() context: NcContext,
+    @Param('rowPolicyId') rowPolicyId: string,
+  ) {
+    return await this.rowPoliciesService.rowPolicyDelete(context, {
+      rowPolicyId,
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  Controller,
+  HttpCode,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { PublicApiLimiterGuard } from '~/guards/public-api-limiter.guard';
+import { SyncModuleService } from '~/services/sync-module.service';
+import { TenantContext } from '~/decorators/tenant-context.decorator';
+import { NcContext, NcRequest } from '~/interface/config';
+
+@Controller()
+@UseGuards(PublicApiLimiterGuard)
+export class SyncModuleController {
+  constructor(protected readonly syncModuleService: SyncModuleService) {}
+
+  // trigger url of a sync, secret is accepted only as header so that it
+  // doesn't end up in access logs
+  @Post(['/api/v2/public/syncs/:syncConfigId/trigger'])
+  @HttpCode(200)
+  async syncTrigger(
+    @TenantContext() context: NcContext,
+    @Param('syncConfigId') syncConfigId: string,
+    @Req() req: NcRequest,
+  ) {
+    return await this.syncModuleService.triggerSyncByUrl(context, {
+      syncConfigId,
+      secret: req.headers['xc-sync-secret'] as string,
+      req,
+    });
+  }
+}
@@ -7,6 +7,7 @@ import {
   Param,
   Patch,
   Post,
+  Put,
   Query,
   Req,
   Res,
@@ -107,6 +108,21 @@ export class Datav3Controller {
     });
   }
 
+  @Put([`${PREFIX_APIV3_DATA}/:modelId/upsert`])
+  @Acl('dataUpsert')
+  async dataUpsert(
+    @TenantContext() context: NcContext,
+    @Req() req: NcRequest,
+    @Param('modelId') modelId: string,
+    @Body() body: any,
+  ) {
+    return await this.dataV3Service.dataUpsert(context, {
+      modelId: modelId,
+      body: body,
+      cookie: req,
+    });
+  }
+
   @Get([`${PREFIX_APIV3_DATA}/:modelId/links/:columnId/:rowId`])
   @Acl('nestedDataList')
   async nestedDataList(
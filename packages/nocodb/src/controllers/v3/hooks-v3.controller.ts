@@ -1,11 +1,20 @@
-import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
 import { GlobalGuard } from '~/guards/global/global.guard';
 import { PagedResponseImpl } from '~/helpers/PagedResponse';
 import { HooksService } from '~/services/hooks.service';
 import { Acl } from '~/middlewares/extract-ids/extract-ids.middleware';
 import { MetaApiLimiterGuard } from '~/guards/meta-api-limiter.guard';
 import { TenantContext } from '~/decorators/tenant-context.decorator';
-import { NcContext } from '~/interface/config';
+import { NcContext, NcRequest } from '~/interface/config';
 import { PREFIX_APIV3_METABASE } from '~/constants/controllers';
 
 @Controller()
@@ -23,4 +32,31 @@ export class HooksController {
       await this.hooksService.hookList(context, { tableId }),
     );
   }
+
+  @Post(`${PREFIX_APIV3_METABASE}/hooks/:hookId/secret`)
+  @HttpCode(200)
+  @Acl('hookSecretRotate')
+  async hookSecretRotate(
+    @TenantContext() context: NcContext,
+    @Param('hookId') hookId: string,
+    @Req() req: NcRequest,
+  ) {
+    return await this.hooksService.hookSecretRotate(context, {
+      hookId,
+      req,
+    });
+  }
+
+  @Delete(`${PREFIX_APIV3_METABASE}/hooks/:hookId/secret`)
+  @Acl('hookSecretDelete')
+  async hookSecretDelete(
+    @TenantContext() context: NcContext,
+    @Param('hookId') hookId: string,
+    @Req() req: NcRequest,
+  ) {
+    return await this.hooksService.hookSecretDelete(context, {
+      hookId,
+      req,
+    });
+  }
 }
@@ -10,10 +10,13 @@ import groupBy from 'lodash/groupBy';
 import {
   AuditOperationSubTypes,
   AuditV1OperationTypes,
+  ColumnPermission,
   convertDurationToSeconds,
   enumColors,
   extractFilterFromXwhere,
+  getColumnPermission,
   isAIPromptCol,
+  isColumnHiddenForRoles,
   isCreatedOrLastModifiedByCol,
   isCreatedOrLastModifiedTimeCol,
   isLinksOrLTAR,
@@ -34,6 +37,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { addOrRemoveLinks } from './BaseModelSqlv2/add-remove-links';
 import { baseModelInsert } from './BaseModelSqlv2/insert';
 import { NestedLinkPreparator } from './BaseModelSqlv2/nested-link-preparator';
+import { recordTrash } from './BaseModelSqlv2/record-trash';
 import { relationDataFetcher } from './BaseModelSqlv2/relation-data-fetcher';
 import { selectObject } from './BaseModelSqlv2/select-object';
 import { FieldHandler } from './field-handler';
@@ -63,6 +67,7 @@ import type { NcContext } from '~/interface/config';
 import type {
   FormulaColumn,
   LinkToAnotherRecordColumn,
+  RecordTrash,
   SelectOption,
   User,
 } from '~/models';
@@ -72,10 +77,17 @@ import applyAggregation from '~/db/aggregation';
 import { groupBy as baseModelGroupBy } from '~/db/BaseModelSqlv2/group-by';
 import conditionV2 from '~/db/conditionV2';
 import formulaQueryBuilderv2 from '~/db/formulav2/formulaQueryBuilderv2';
+import {
+  GEO_CLUSTER_MAX_ZOOM,
+  geoClusterCellIndex,
+  getGeoClusterCellSize,
+  getGeoDataCoordinates,
+} from '~/db/geoData';
 import { RelationManager } from '~/db/relation-manager';
 import sortV2 from '~/db/sortV2';
 import { customValidators } from '~/db/util/customValidators';
 import { NcError, OptionsNotExistsError } from '~/helpers/catchError';
+import { verifyColumnNotHidden } from '~/helpers/columnPermissionHelpers';
 import {
   _wherePk,
   applyPaginate,
@@ -104,6 +116,7 @@ import {
   GridViewColumn,
   Model,
   PresignedUrl,
+  RowPolicy,
   Sort,
   Source,
   View,
@@ -220,6 +233,7 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
     });
 
     qb.where(_wherePk(this.model.primaryKeys, id));
+    await this.applyRowPolicies(qb);
     let data;
 
     try {
@@ -315,6 +329,7 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
       return false;
     }
     qb.where(_wherePk(pks, id)).first();
+    await this.applyRowPolicies(qb);
     return !!(await this.execAndParse(qb, null, { raw: true, first: true }));
   }
 
@@ -359,6 +374,7 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
       ],
       qb,
     );
+    await this.applyRowPolicies(qb);
 
     const orderColumn = columns.find((c) => isOrderCol(c));
 
@@ -526,6 +542,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
       await sortV2(this, sorts, qb, undefined, throwErrorIfInvalidParams);
     }
 
+    await this.applyRowPolicies(qb);
+
     const orderColumn = columns.find((c) => isOrderCol(c));
     // sort by primary key if not autogenerated string
     // if autogenerated string sort by created_at column if present
@@ -674,6 +692,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
       );
     }
 
+    await this.applyRowPolicies(qb);
+
     qb.count(sanitize(this.model.primaryKey?.column_name) || '*', {
       as: 'count',
     }).first();
@@ -736,6 +756,7 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
       ],
       qb,
     );
+    await this.applyRowPolicies(qb);
     if (args?.groupByColumnName) {
       qb.groupBy(args?.groupByColumnName);
     }
@@ -800,6 +821,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
     }>,
     view: View,
   ) {
+    await this.verifyAggregationColumns(args);
+
     try {
       if (!bulkFilterList?.length) {
         return {};
@@ -813,7 +836,11 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
         await GridViewColumn.list(this.context, this.viewId)
       ).filter((c) => {
         const col = this.model.columnsById[c.fk_column_id];
-        return c.show && (view.show_system_fields || !isSystemColumn(col));
+        return (
+          c.show &&
+          (view.show_system_fields || !isSystemColumn(col)) &&
+          !isColumnHiddenForRoles(col, this.context.user?.base_roles)
+        );
       });
 
       // By default, the aggregation is done based on the columns configured in the view
@@ -871,6 +898,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
         viewId: this.viewId,
       });
 
+      const rowPolicyFilter = await this.getRowPolicyFilter();
+
       const selectors = [] as Array<Knex.Raw>;
       // Generate a knex raw query for each filter in the bulkFilterList
       for (const f of bulkFilterList) {
@@ -923,6 +952,7 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
                   }),
                 ]
               : []),
+            ...(rowPolicyFilter ? [rowPolicyFilter] : []),
           ],
           tQb,
         );
@@ -991,6 +1021,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
   }
 
   async aggregate(args: { filterArr?: Filter[]; where?: string }, view: View) {
+    await this.verifyAggregationColumns(args);
+
     try {
       const { where, aggregation } = this._getListArgs(args as any);
 
@@ -1000,7 +1032,11 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
         await GridViewColumn.list(this.context, this.viewId)
       ).filter((c) => {
         const col = this.model.columnsById[c.fk_column_id];
-        return c.show && (view.show_system_fields || !isSystemColumn(col));
+        return (
+          c.show &&
+          (view.show_system_fields || !isSystemColumn(col)) &&
+          !isColumnHiddenForRoles(col, this.context.user?.base_roles)
+        );
       });
 
       // By default, the aggregation is done based on the columns configured in the view
@@ -1059,6 +1095,7 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
         ],
         qb,
       );
+      await this.applyRowPolicies(qb);
 
       const selectors: Array<Knex.Raw> = [];
 
@@ -1107,6 +1144,20 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
     }
   }
 
+  // errors of the aggregations are swallowed, hence verified upfront
+  private async verifyAggregationColumns(args) {
+    const { aggregation } = this._getListArgs(args);
+    if (!aggregation?.length) return;
+
+    const columns = await this.model.getColumns(this.context);
+    for (const { field } of aggregation) {
+      verifyColumnNotHidden(
+        this.context,
+        columns.find((c) => c.id === field),
+      );
+    }
+  }
+
   async groupBy(args: {
     where?: string;
     column_name: string;
@@ -1317,6 +1368,26 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
 
   // #endregion relation list count part 2
 
+  /**
+   * Get the row policy filter of the table for the roles of the requesting user
+   */
+  async getRowPolicyFilter(): Promise<Filter | null> {
+    return await RowPolicy.getRowFilter(this.context, {
+      fk_model_id: this.model.id,
+      roles: this.context.user?.base_roles,
+    });
+  }
+
+  /**
+   * Restrict the query to the rows accessible by the requesting user
+   */
+  async applyRowPolicies(qb: Knex.QueryBuilder, alias?: string) {
+    const rowPolicyFilter = await this.getRowPolicyFilter();
+    if (!rowPolicyFilter) return;
+
+    await conditionV2(this, [rowPolicyFilter], qb, alias);
+  }
+
   async applySortAndFilter({
     table,
     view,
@@ -1802,8 +1873,10 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
   public async shuffle({ qb }: { qb: Knex.QueryBuilder }): Promise<void> {
     if (this.isMySQL) {
       qb.orderByRaw('RAND()');
-    } else if (this.isPg || this.isSqlite) {
+    } else if (this.isPg || this.isSqlite || this.isDuckdb) {
       qb.orderByRaw('RANDOM()');
+    } else if (this.isMssql) {
+      qb.orderByRaw('NEWID()');
     }
   }
 
@@ -1842,8 +1915,19 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
         getHiddenColumn: true,
         source,
       });
+
+      // record is not accessible for the user due to row policies
+      if (!data && (await this.getRowPolicyFilter())) {
+        NcError.recordNotFound(id);
+      }
+
       await this.beforeDelete(id, trx, cookie);
 
+      const where = await this._wherePk(id);
+
+      // capture the record and its links before they are cleared
+      const trashEntries = await recordTrash(this).capture([where]);
+
       const execQueries: ((trx: Knex.Transaction) => Promise<any>)[] = [];
 
       for (const column of this.model.columns) {
@@ -1914,7 +1998,6 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
             break;
         }
       }
-      const where = await this._wherePk(id);
       if (!trx) {
         trx = await this.dbDriver.transaction();
       }
@@ -1925,6 +2008,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
 
       if (!_trx) await trx.commit();
 
+      await this.saveToTrash(trashEntries, cookie);
+
       await this.clearFileReferences({
         oldData: [data],
         columns: this.model.columns,
@@ -1933,7 +2018,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
       await this.afterDelete(data, trx, cookie);
       return response;
     } catch (e) {
-      if (!_trx) await trx.rollback();
+      // transaction is not started yet when the record isn't accessible
+      if (!_trx) await trx?.rollback();
       await this.errorDelete(e, id, trx, cookie);
       throw e;
     }
@@ -2127,7 +2213,7 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
 
   public getTnPath(tb: { table_name: string } | string, alias?: string) {
     const tn = typeof tb === 'string' ? tb : tb.table_name;
-    if (this.isPg && this.schema) {
+    if ((this.isPg || this.isMssql) && this.schema) {
       return `${this.schema}.${tn}${alias ? ` as ${alias}` : ``}`;
     } else if (this.isSnowflake) {
       return `${[
@@ -2173,6 +2259,14 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
     return this.clientType === 'databricks';
   }
 
+  get isMssql() {
+    return this.clientType === 'mssql';
+  }
+
+  get isDuckdb() {
+    return this.clientType === 'duckdb';
+  }
+
   get clientType() {
     return this.dbDriver.clientType();
   }
@@ -2239,7 +2333,7 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
       let response;
       const query = this.dbDriver(this.tnPath).insert(insertObj);
 
-      if (this.isPg && this.model.primaryKey) {
+      if ((this.isPg || this.isMssql) && this.model.primaryKey) {
         query.returning(
           `${this.model.primaryKey.column_name} as ${this.model.primaryKey.id}`,
         );
@@ -2420,6 +2514,26 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
   }
 
   async bulkUpsert(
+    datas: any[],
+    params: {
+      chunkSize?: number;
+      cookie?: any;
+      raw?: boolean;
+      foreign_key_checks?: boolean;
+      undo?: boolean;
+    } = {},
+  ) {
+    const { insertedRecords, updatedRecords } = await this.bulkUpsertRecords(
+      datas,
+      params,
+    );
+
+    return [...updatedRecords, ...insertedRecords];
+  }
+
+  // upsert records and return inserted and updated records separately,
+  // existing records are identified by primary key or by `matchColumns` if provided
+  async bulkUpsertRecords(
     datas: any[],
     {
       chunkSize = 100,
@@ -2427,14 +2541,18 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
       raw = false,
       foreign_key_checks = true,
       undo = false,
+      typecast = false,
+      matchColumns,
     }: {
       chunkSize?: number;
       cookie?: any;
       raw?: boolean;
       foreign_key_checks?: boolean;
       undo?: boolean;
+      typecast?: boolean;
+      matchColumns?: Column[];
     } = {},
-  ) {
+  ): Promise<{ insertedRecords: any[]; updatedRecords: any[] }> {
     let trx;
     try {
       const columns = await this.model.getColumns(this.context);
@@ -2452,7 +2570,7 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
         ? datas
         : await Promise.all(
             datas.map(async (d) => {
-              await this.validate(d, columns);
+              await this.validate(d, columns, { typecast });
               return this.model.mapAliasToColumn(
                 this.context,
                 d,
@@ -2463,6 +2581,18 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
             }),
           );
 
+      const matchValues = matchColumns?.length
+        ? await this.getMatchValues(datas, matchColumns)
+        : null;
+
+      const matchedPks = matchValues
+        ? await this.populatePksByMatchColumns(
+            matchValues,
+            preparedDatas,
+            matchColumns,
+          )
+        : null;
+
       const dataWithPks = [];
       const dataWithoutPks = [];
 
@@ -2510,11 +2640,30 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
 
       trx = await this.dbDriver.transaction();
 
+      // match records again within the transaction, records which got
+      // inserted or updated by concurrent requests in the meantime
+      // would otherwise end up duplicated or overwritten
+      if (
+        matchedPks &&
+        JSON.stringify(
+          await this.populatePksByMatchColumns(
+            matchValues,
+            preparedDatas.map(() => ({})),
+            matchColumns,
+            trx,
+          ),
+        ) !== JSON.stringify(matchedPks)
+      ) {
+        NcError.badRequest(
+          'Records matching the request were modified in the meantime, please retry',
+        );
+      }
+
       const updatedPks = [];
 
       if (toUpdate.length > 0) {
         for (const data of toUpdate) {
-          if (!raw) await this.validate(data, columns);
+          if (!raw) await this.validate(data, columns, { typecast });
           const pkValues = this.extractPksValues(data);
           updatedPks.push(pkValues);
           const wherePk = await this._wherePk(pkValues, true);
@@ -2561,7 +2710,7 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
           }
 
           responses =
-            !raw && this.isPg
+            !raw && (this.isPg || this.isMssql)
               ? await trx
                   .batchInsert(this.tnPath, toInsert, chunkSize)
                   .returning(
@@ -2601,26 +2750,28 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
             })
           : [];
 
-      if (insertedDatas.length === 1) {
-        await this.afterInsert({
-          data: insertedDataList[0],
-          trx: this.dbDriver,
-          req: cookie,
-          insertData: datas[0],
-        });
-
-        await this.statsUpdate({
-          count: insertedDataList.length,
-        });
-      } else if (insertedDatas.length > 1) {
-        await this.afterBulkInsert(insertedDataList, this.dbDriver, cookie);
+      // single record hooks only apply when a single record is upserted,
+      // the input record isn't known otherwise
+      const isSingleRecordUpsert = datas.length === 1;
+
+      if (insertedDataList.length > 0) {
+        if (isSingleRecordUpsert) {
+          await this.afterInsert({
+            data: insertedDataList[0],
+            trx: this.dbDriver,
+            req: cookie,
+            insertData: datas[0],
+          });
+        } else {
+          await this.afterBulkInsert(insertedDataList, this.dbDriver, cookie);
+        }
 
         await this.statsUpdate({
           count: insertedDataList.length,
         });
       }
 
-      if (updatedDataList.length === 1) {
+      if (updatedDataList.length > 0 && isSingleRecordUpsert) {
         await this.afterUpdate(
           existingRecords[0],
           updatedDataList[0],
@@ -2628,7 +2779,7 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
           cookie,
           datas[0],
         );
-      } else {
+      } else if (updatedDataList.length > 0) {
         await this.afterBulkUpdate(
           existingRecords,
           updatedDataList,
@@ -2637,13 +2788,138 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
         );
       }
 
-      return [...updatedDataList, ...insertedDataList];
+      return {
+        insertedRecords: insertedDataList,
+        updatedRecords: updatedDataList,
+      };
     } catch (e) {
       await trx?.rollback();
       throw e;
     }
   }
 
+  // values of the match columns of each record in the format stored in db
+  protected async getMatchValues(datas: any[], matchColumns: Column[]) {
+    const fieldHandler = FieldHandler.fromBaseModel(this);
+
+    return Promise.all(
+      datas.map((d) =>
+        Promise.all(
+          matchColumns.map(async (col) => {
+            const val = d?.[col.title] ?? d?.[col.id] ?? d?.[col.column_name];
+            if (ncIsUndefined(val) || val === null) {
+              NcError.get(this.context).requiredFieldMissing(col.title);
+            }
+            return (
+              await fieldHandler.parseUserInput({
+                value: val,
+                row: d,
+                column: col,
+                options: { context: this.context },
+              })
+            ).value;
+          }),
+        ),
+      ),
+    );
+  }
+
+  // look up existing records by the match values and copy their pk values
+  // into the prepared data so that they get updated instead of inserted,
+  // returns the pk of the matched record for each of the records
+  protected async populatePksByMatchColumns(
+    matchValues: any[][],
+    preparedDatas: any[],
+    matchColumns: Column[],
+    trx?: Knex.Transaction,
+  ) {
+    const fieldHandler = FieldHandler.fromBaseModel(this);
+
+    // values of both the request and the db are read through the column
+    // handlers, so that e.g. dates and checkboxes match regardless of format
+    const getMatchKey = async (values: any[], row: any) =>
+      JSON.stringify(
+        await Promise.all(
+          values.map(async (value, i) => {
+            const { value: parsedValue } = await fieldHandler.parseDbValue({
+              value,
+              row,
+              column: matchColumns[i],
+              options: { context: this.context },
+            });
+            return ncIsUndefined(parsedValue) || parsedValue === null
+              ? null
+              : String(parsedValue);
+          }),
+        ),
+      );
+
+    const matchKeys = await Promise.all(
+      matchValues.map((values, i) => getMatchKey(values, preparedDatas[i])),
+    );
+
+    if (new Set(matchKeys).size !== matchKeys.length) {
+      NcError.badRequest(
+        `Duplicate values for match fields '${matchColumns
+          .map((c) => c.title)
+          .join(', ')}' found in the request`,
+      );
+    }
+
+    const existingRecordsMap = new Map<string, any>();
+
+    for (const chunk of chunkArray(matchValues, 100)) {
+      const qb = (trx ?? this.dbDriver)(this.tnPath)
+        .select([
+          ...new Set(
+            [...this.model.primaryKeys, ...matchColumns].map(
+              (c) => c.column_name,
+            ),
+          ),
+        ])
+        .where((whereQb) => {
+          for (const values of chunk) {
+            whereQb.orWhere((rowQb) => {
+              matchColumns.forEach((col, i) => {
+                rowQb.where(col.column_name, values[i]);
+              });
+            });
+          }
+        });
+
+      // executed through the query builder as it may belong to the transaction
+      const records = await qb;
+
+      for (const record of records) {
+        const key = await getMatchKey(
+          matchColumns.map((col) => record[col.column_name]),
+          record,
+        );
+
+        if (existingRecordsMap.has(key)) {
+          NcError.badRequest(
+            `Multiple records match the values of '${matchColumns
+              .map((c) => c.title)
+              .join(', ')}', use unique fields to match records`,
+          );
+        }
+
+        existingRecordsMap.set(key, record);
+      }
+    }
+
+    return matchKeys.map((key, i) => {
+      const existingRecord = existingRecordsMap.get(key);
+      if (!existingRecord) return null;
+
+      for (const pk of this.model.primaryKeys) {
+        preparedDatas[i][pk.column_name] = existingRecord[pk.column_name];
+      }
+
+      return this.extractPksValues(preparedDatas[i], true);
+    });
+  }
+
   async chunkList(args: { pks: string[]; chunkSize?: number }) {
     const { pks, chunkSize = 1000 } = args;
 
@@ -2720,6 +2996,16 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
           );
         }
 
+        if (
+          !allowSystemColumn &&
+          getColumnPermission(col, this.context.user?.base_roles) !==
+            ColumnPermission.EDITABLE
+        ) {
+          NcError.forbidden(
+            `Column "${col.title}" is not editable for your role`,
+          );
+        }
+
         if (
           col.system &&
           !allowSystemColumn &&
@@ -3198,6 +3484,11 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
           );
         }
 
+        const rowPolicyFilter = await this.getRowPolicyFilter();
+        if (rowPolicyFilter) {
+          conditionObj.push(rowPolicyFilter);
+        }
+
         await conditionV2(this, conditionObj, qb, undefined, true);
 
         count = (
@@ -3240,10 +3531,12 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
       cookie,
       throwExceptionIfNotExist = false,
       isSingleRecordDeletion = false,
+      allowSystemColumn = false,
     }: {
       cookie?: any;
       throwExceptionIfNotExist?: boolean;
       isSingleRecordDeletion?: boolean;
+      allowSystemColumn?: boolean;
     } = {},
   ) {
     const columns = await this.model.getColumns(this.context);
@@ -3317,7 +3610,9 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
         }
       }
 
-      await this.beforeBulkDelete(deleted, this.dbDriver, cookie);
+      await this.beforeBulkDelete(deleted, this.dbDriver, cookie, {
+        allowSystemColumn,
+      });
 
       const execQueries: ((
         trx: Knex.Transaction,
@@ -3383,6 +3678,11 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
 
       const idsVals = res.map((d) => d[this.model.primaryKey.column_name]);
 
+      // capture the records and their links before they are cleared
+      const trashEntries = await recordTrash(this).capture(
+        res.map((d) => _wherePk(this.model.primaryKeys, d)),
+      );
+
       transaction = await this.dbDriver.transaction();
 
       if (base.isMeta() && execQueries.length > 0) {
@@ -3397,6 +3697,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
 
       await transaction.commit();
 
+      await this.saveToTrash(trashEntries, cookie);
+
       await this.clearFileReferences({
         oldData: deleted,
         columns: columns,
@@ -3458,6 +3760,7 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
         undefined,
         true,
       );
+      await this.applyRowPolicies(qb);
       const execQueries: ((trx: Knex.Transaction, qb: any) => Promise<any>)[] =
         [];
       // qb.del();
@@ -3500,13 +3803,13 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
               });
               const vTn = assocBaseModel.getTnPath(vTable);
 
-              execQueries.push(() =>
-                this.dbDriver(vTn)
-                  .where({
-                    [vChildCol.column_name]: this.dbDriver(childTn)
-                      .select(childColumn.column_name)
-                      .first(),
-                  })
+              // links of all the deleted records, within the transaction
+              execQueries.push((trx, qb) =>
+                trx(vTn)
+                  .whereIn(
+                    vChildCol.column_name,
+                    qb.select(childColumn.column_name),
+                  )
                   .delete(),
               );
             }
@@ -3525,15 +3828,10 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
 
               execQueries.push((trx, qb) =>
                 trx(childTn)
-                  .where({
-                    [childColumn.column_name]: this.dbDriver.from(
-                      qb
-                        .select(parentColumn.column_name)
-                        // .where(_wherePk(parentTable.primaryKeys, rowId))
-                        .first()
-                        .as('___cn_alias'),
-                    ),
-                  })
+                  .whereIn(
+                    childColumn.column_name,
+                    qb.select(parentColumn.column_name),
+                  )
                   .update({
                     [childColumn.column_name]: null,
                   }),
@@ -3566,6 +3864,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
 
       const fileReferenceIds: string[] = [];
 
+      const trashEntries: Partial<RecordTrash>[] = [];
+
       // eslint-disable-next-line no-constant-condition
       while (true) {
         const rows = await this.execAndParse(
@@ -3627,6 +3927,20 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
           response.push(primaryData);
         }
 
+        // capture the records and their links before they are cleared
+        trashEntries.push(
+          ...(await recordTrash(this).capture(
+            rows.map((row) =>
+              Object.fromEntries(
+                this.model.primaryKeys.map((pk) => [
+                  pk.column_name,
+                  row[pk.column_name],
+                ]),
+              ),
+            ),
+          )),
+        );
+
         if (lastPage) {
           break;
         }
@@ -3657,6 +3971,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
 
       await trx.commit();
 
+      await this.saveToTrash(trashEntries, cookie);
+
       if (!skip_hooks) {
         await this.afterBulkDelete(response, this.dbDriver, cookie, true);
       }
@@ -4151,8 +4467,17 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
     await this.handleHooks('before.delete', null, data, req);
   }
 
-  public async beforeBulkDelete(_data: any, _trx: any, _req): Promise<void> {
-    if (this.model.synced) {
+  public async beforeBulkDelete(
+    _data: any,
+    _trx: any,
+    _req,
+    params?: {
+      allowSystemColumn?: boolean;
+    },
+  ): Promise<void> {
+    const { allowSystemColumn = false } = params || {};
+
+    if (!allowSystemColumn && this.model.synced) {
       NcError._.prohibitedSyncTableOperation({
         modelName: this.model.title,
         operation: 'delete',
@@ -4170,6 +4495,9 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
       viewId: this.viewId,
       modelId: this.model.id,
       tnPath: this.tnPath,
+      // socket of the client which made the change, used to skip realtime echoes
+      clientId: req?.headers?.['xc-socket-id'],
+      siteUrl: req?.ncSiteUrl,
     });
   }
 
@@ -4260,6 +4588,16 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
             `Column "${column.title}" is readonly column and cannot be updated`,
           );
         }
+
+        if (
+          !allowSystemColumn &&
+          getColumnPermission(column, this.context.user?.base_roles) !==
+            ColumnPermission.EDITABLE
+        ) {
+          NcError.forbidden(
+            `Column "${column.title}" is not editable for your role`,
+          );
+        }
       }
       try {
         await this.validateOptions(column, data);
@@ -4865,14 +5203,14 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
         );
         groupingValues.add(null);
       } else {
+        const distinctQb = this.dbDriver(this.tnPath)
+          .select(column.column_name)
+          .distinct();
+        await this.applyRowPolicies(distinctQb);
         groupingValues = new Set(
-          (
-            await this.execAndParse(
-              this.dbDriver(this.tnPath).select(column.column_name).distinct(),
-              null,
-              { raw: true },
-            )
-          ).map((row) => row[column.column_name]),
+          (await this.execAndParse(distinctQb, null, { raw: true })).map(
+            (row) => row[column.column_name],
+          ),
         );
         groupingValues.add(null);
       }
@@ -4949,6 +5287,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
         if (sorts?.['length']) await sortV2(this, sorts, qb);
       }
 
+      await this.applyRowPolicies(qb);
+
       // sort by primary key if not autogenerated string
       // if autogenerated string sort by created_at column if present
       const orderColumn = columns.find((c) => isOrderCol(c));
@@ -5024,6 +5364,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
   public async groupedListCount(
     args: {
       groupColumnId: string;
+      // count the records of each group by the values of a second column
+      subGroupColumnId?: string;
       ignoreViewFilterAndSort?: boolean;
     } & XcFilter,
   ) {
@@ -5046,6 +5388,31 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
       qb.groupBy(column.column_name);
     }
 
+    if (args.subGroupColumnId) {
+      const subGroupColumn = columns?.find(
+        (col) => col.id === args.subGroupColumnId,
+      );
+
+      if (!subGroupColumn) NcError.fieldNotFound(args.subGroupColumnId);
+      if (isVirtualCol(subGroupColumn))
+        NcError.notImplemented('Grouping for virtual columns');
+
+      // empty values are counted along with the null values
+      const subGroupKey = [UITypes.SingleSelect, UITypes.User].includes(
+        subGroupColumn.uidt,
+      )
+        ? `COALESCE(NULLIF(??, ''), NULL)`
+        : '??';
+
+      qb.select(
+        this.dbDriver.raw(`${subGroupKey} as ??`, [
+          subGroupColumn.column_name,
+          'sub_key',
+        ]),
+      );
+      qb.groupBy(this.dbDriver.raw(subGroupKey, [subGroupColumn.column_name]));
+    }
+
     // todo: refactor and move to a common method (applyFilterAndSort)
     const aliasColObjMap = await this.model.getAliasColObjMap(
       this.context,
@@ -5101,6 +5468,8 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
       );
     }
 
+    await this.applyRowPolicies(qb);
+
     await this.selectObject({
       qb,
       columns: [
@@ -5115,6 +5484,100 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
     return await this.execAndParse(qb);
   }
 
+  /**
+   * Buckets the records of a GeoData column into a grid of the given map zoom
+   * level and returns the number of records and their mean position per bucket
+   */
+  public async geoClusterList(
+    args: {
+      geoColumnId: string;
+      zoom: number;
+      ignoreViewFilterAndSort?: boolean;
+    } & XcFilter,
+  ): Promise<{ lat: number; lng: number; count: number }[]> {
+    const columns = await this.model.getColumns(this.context);
+    const column = columns?.find((col) => col.id === args.geoColumnId);
+
+    if (!column) NcError.fieldNotFound(args.geoColumnId);
+    if (column.uidt !== UITypes.GeoData)
+      NcError.badRequest(`Field '${column.title}' is not a GeoData field`);
+    verifyColumnNotHidden(this.context, column);
+
+    const zoom = Number(args.zoom);
+    if (!Number.isInteger(zoom) || zoom < 0 || zoom > GEO_CLUSTER_MAX_ZOOM)
+      NcError.badRequest(
+        `Zoom level must be an integer between 0 and ${GEO_CLUSTER_MAX_ZOOM}`,
+      );
+
+    const { latitude, longitude } = getGeoDataCoordinates(
+      this.dbDriver,
+      column.column_name,
+    );
+    const cellSize = getGeoClusterCellSize(zoom);
+
+    const qb = this.dbDriver(this.tnPath)
+      .select(
+        this.dbDriver.raw('COUNT(*) as ??', ['count']),
+        this.dbDriver.raw('AVG(?) as ??', [latitude, 'lat']),
+        this.dbDriver.raw('AVG(?) as ??', [longitude, 'lng']),
+      )
+      .whereNotNull(column.column_name)
+      .whereNot(column.column_name, '')
+      // a raw group by expression takes no further arguments
+      .groupBy(geoClusterCellIndex(this.dbDriver, latitude, 90, cellSize))
+      .groupBy(geoClusterCellIndex(this.dbDriver, longitude, 180, cellSize));
+
+    const aliasColObjMap = await this.model.getAliasColObjMap(
+      this.context,
+      columns,
+    );
+    const { filters: filterObj } = extractFilterFromXwhere(
+      this.context,
+      args.where,
+      aliasColObjMap,
+    );
+
+    await conditionV2(
+      this,
+      [
+        ...(!args.ignoreViewFilterAndSort && this.viewId
+          ? [
+              new Filter({
+                children:
+                  (await Filter.rootFilterList(this.context, {
+                    viewId: this.viewId,
+                  })) || [],
+                is_group: true,
+              }),
+            ]
+          : []),
+        new Filter({
+          children: args.filterArr || [],
+          is_group: true,
+          logical_op: 'and',
+        }),
+        new Filter({
+          children: filterObj,
+          is_group: true,
+          logical_op: 'and',
+        }),
+      ],
+      qb,
+    );
+
+    await this.applyRowPolicies(qb);
+
+    const buckets = await this.execAndParse(qb, null, { raw: true });
+
+    return buckets
+      .map((bucket) => ({
+        lat: +bucket.lat,
+        lng: +bucket.lng,
+        count: +bucket.count,
+      }))
+      .filter((bucket) => !isNaN(bucket.lat) && !isNaN(bucket.lng));
+  }
+
   public async execAndGetRows(query: string, trx?: Knex | CustomKnex) {
     trx = trx || this.dbDriver;
 
@@ -5994,6 +6457,25 @@ class BaseModelSqlv2 implements IBaseModelSqlV2 {
     return data;
   }
 
+  async restoreFromTrash(entry: RecordTrash, cookie?: NcRequest) {
+    return recordTrash(this).restore(entry, cookie);
+  }
+
+  protected async saveToTrash(
+    trashEntries: Partial<RecordTrash>[],
+    cookie?: NcRequest,
+  ) {
+    // record is already deleted at this point, so failing to keep a copy
+    // in the trash shouldn't fail the request
+    try {
+      await recordTrash(this).save(trashEntries, cookie);
+    } catch (e) {
+      logger.error(
+        `Failed to move deleted records of ${this.model.id} to trash: ${e.message}`,
+      );
+    }
+  }
+
   async addLinks(params: {
     cookie: any;
     childIds: (string | number | Record<string, any>)[];
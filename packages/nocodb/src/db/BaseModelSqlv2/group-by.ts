@@ -9,6 +9,7 @@ import conditionV2 from '~/db/conditionV2';
 import generateLookupSelectQuery from '~/db/generateLookupSelectQuery';
 import genRollupSelectv2 from '~/db/genRollupSelectv2';
 import { NcError } from '~/helpers/catchError';
+import { verifyColumnNotHidden } from '~/helpers/columnPermissionHelpers';
 import {
   applyPaginate,
   extractSortsObject,
@@ -45,6 +46,7 @@ export const groupBy = (baseModel: IBaseModelSqlV2, logger: Logger) => {
       (c) =>
         c.title === subGroupColumnName || c.column_name === subGroupColumnName,
     );
+    verifyColumnNotHidden(baseModel.context, subGroupColumn);
 
     const processColumn = async (col: string, isSubGroup: boolean = false) => {
       let column = columns.find(
@@ -53,6 +55,7 @@ export const groupBy = (baseModel: IBaseModelSqlV2, logger: Logger) => {
       if (!column) {
         throw NcError.fieldNotFound(col);
       }
+      verifyColumnNotHidden(baseModel.context, column);
       // if qrCode or Barcode replace it with value column nd keep the alias
       if ([UITypes.QrCode, UITypes.Barcode].includes(column.uidt)) {
         column = new Column({
@@ -269,6 +272,7 @@ export const groupBy = (baseModel: IBaseModelSqlV2, logger: Logger) => {
       ],
       qb,
     );
+    await baseModel.applyRowPolicies(qb);
 
     if (!sorts) {
       if (args.sortArr?.length) {
@@ -405,6 +409,7 @@ export const groupBy = (baseModel: IBaseModelSqlV2, logger: Logger) => {
         if (!column) {
           throw NcError.fieldNotFound(col);
         }
+        verifyColumnNotHidden(baseModel.context, column);
 
         // if qrCode or Barcode replace it with value column nd keep the alias
         if ([UITypes.QrCode, UITypes.Barcode].includes(column.uidt))
@@ -619,6 +624,7 @@ export const groupBy = (baseModel: IBaseModelSqlV2, logger: Logger) => {
       ],
       qb,
     );
+    await baseModel.applyRowPolicies(qb);
 
     qb.groupBy(...groupBySelectors);
 
@@ -679,6 +685,7 @@ export const groupBy = (baseModel: IBaseModelSqlV2, logger: Logger) => {
             let column = columns.find(
               (c) => c.column_name === col || c.title === col,
             );
+            verifyColumnNotHidden(baseModel.context, column);
 
             // if qrCode or Barcode replace it with value column nd keep the alias
             if ([UITypes.QrCode, UITypes.Barcode].includes(column.uidt)) {
@@ -884,6 +891,7 @@ export const groupBy = (baseModel: IBaseModelSqlV2, logger: Logger) => {
           ],
           tQb,
         );
+        await baseModel.applyRowPolicies(tQb);
 
         tQb.groupBy(...groupBySelectors);
 
@@ -1005,6 +1013,7 @@ export const groupBy = (baseModel: IBaseModelSqlV2, logger: Logger) => {
             if (!column) {
               throw NcError.fieldNotFound(col);
             }
+            verifyColumnNotHidden(baseModel.context, column);
             return column?.id;
           })
           .join('_');
@@ -1219,6 +1228,7 @@ export const groupBy = (baseModel: IBaseModelSqlV2, logger: Logger) => {
           ],
           tQb,
         );
+        await baseModel.applyRowPolicies(tQb);
 
         if (!groupSort) {
           if (rest.sortArr?.length) {
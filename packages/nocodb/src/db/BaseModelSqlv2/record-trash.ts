@@ -0,0 +1,383 @@
+import dayjs from 'dayjs';
+import {
+  isLinksOrLTAR,
+  isVirtualCol,
+  ncIsNullOrUndefined,
+  UITypes,
+} from 'nocodb-sdk';
+import type { Knex } from 'knex';
+import type { NcRequest } from 'nocodb-sdk';
+import type { IBaseModelSqlV2 } from '~/db/IBaseModelSqlV2';
+import type { Column, LinkToAnotherRecordColumn } from '~/models';
+import type { RecordTrashLink } from '~/models/RecordTrash';
+import { NcError } from '~/helpers/catchError';
+import { _wherePk, getCompositePkValue } from '~/helpers/dbHelpers';
+import { FileReference, Model, RecordTrash } from '~/models';
+import { chunkArray } from '~/utils/tsUtils';
+
+export const recordTrash = (baseModel: IBaseModelSqlV2) => {
+  const getLinkColumns = async () => {
+    const linkColumns: {
+      column: Column;
+      colOptions: LinkToAnotherRecordColumn;
+    }[] = [];
+
+    for (const column of await baseModel.model.getColumns(baseModel.context)) {
+      if (!isLinksOrLTAR(column)) continue;
+
+      const colOptions = await column.getColOptions<LinkToAnotherRecordColumn>(
+        baseModel.context,
+      );
+
+      if (colOptions.type !== 'mm' && colOptions.type !== 'hm') continue;
+
+      // skip if it's an mm table column
+      if (colOptions.type === 'hm') {
+        const { refContext } = colOptions.getRelContext(baseModel.context);
+        const relatedTable = await colOptions.getRelatedTable(refContext);
+        if (relatedTable.mm) continue;
+      }
+
+      linkColumns.push({ column, colOptions });
+    }
+
+    return linkColumns;
+  };
+
+  // dates are kept in the format they are written in so that
+  // the record can be inserted back as it is
+  const serializeRow = (row: Record<string, any>) => {
+    for (const [key, value] of Object.entries(row)) {
+      if (value instanceof Date) {
+        row[key] = dayjs(value)
+          .utc()
+          .format(
+            baseModel.isMySQL ? 'YYYY-MM-DD HH:mm:ss' : 'YYYY-MM-DD HH:mm:ssZ',
+          );
+      }
+    }
+    return row;
+  };
+
+  const getLinks = async (
+    row: Record<string, any>,
+    linkColumns: Awaited<ReturnType<typeof getLinkColumns>>,
+  ) => {
+    const links: RecordTrashLink[] = [];
+
+    for (const { column, colOptions } of linkColumns) {
+      const { mmContext, refContext } = colOptions.getRelContext(
+        baseModel.context,
+      );
+
+      let ids: any[];
+
+      if (colOptions.type === 'mm') {
+        const childColumn = await colOptions.getChildColumn(baseModel.context);
+        const mmTable = await colOptions.getMMModel(baseModel.context);
+        const mmChildColumn = await colOptions.getMMChildColumn(
+          baseModel.context,
+        );
+        const mmParentColumn = await colOptions.getMMParentColumn(
+          baseModel.context,
+        );
+        const mmBaseModel = await Model.getBaseModelSQL(mmContext, {
+          model: mmTable,
+          dbDriver: baseModel.dbDriver,
+        });
+
+        ids = (
+          await baseModel.execAndParse(
+            baseModel
+              .dbDriver(mmBaseModel.getTnPath(mmTable))
+              .select(mmParentColumn.column_name)
+              .where(mmChildColumn.column_name, row[childColumn.column_name]),
+            null,
+            { raw: true },
+          )
+        ).map((r) => r[mmParentColumn.column_name]);
+      } else {
+        const parentColumn = await colOptions.getParentColumn(
+          baseModel.context,
+        );
+        const childColumn = await colOptions.getChildColumn(baseModel.context);
+        const relatedTable = await colOptions.getRelatedTable(refContext);
+        await relatedTable.getColumns(refContext);
+
+        if (!relatedTable.primaryKey) continue;
+
+        const relatedBaseModel = await Model.getBaseModelSQL(refContext, {
+          model: relatedTable,
+          dbDriver: baseModel.dbDriver,
+        });
+
+        ids = (
+          await baseModel.execAndParse(
+            baseModel
+              .dbDriver(relatedBaseModel.getTnPath(relatedTable))
+              .select(relatedTable.primaryKey.column_name)
+              .where(childColumn.column_name, row[parentColumn.column_name]),
+            null,
+            { raw: true },
+          )
+        ).map((r) => r[relatedTable.primaryKey.column_name]);
+      }
+
+      if (ids.length) {
+        links.push({
+          fk_column_id: column.id,
+          type: colOptions.type as RecordTrashLink['type'],
+          ids,
+        });
+      }
+    }
+
+    return links;
+  };
+
+  // reads the records which are about to be deleted along with the records
+  // linked to them, has to be called before the links are cleared
+  const capture = async (wheres: Record<string, any>[]) => {
+    if (!RecordTrash.isEnabled() || baseModel.model.mm || !wheres.length) {
+      return [];
+    }
+
+    const columns = await baseModel.model.getColumns(baseModel.context);
+    const linkColumns = await getLinkColumns();
+    const displayValueColumn = baseModel.model.displayValue;
+
+    const recordTrashList: Partial<RecordTrash>[] = [];
+
+    for (const chunk of chunkArray(wheres, 100)) {
+      const rows = await baseModel.execAndParse(
+        baseModel.dbDriver(baseModel.tnPath).where((qb) => {
+          for (const where of chunk) qb.orWhere(where);
+        }),
+        null,
+        { raw: true },
+      );
+
+      for (const row of rows) {
+        const displayValue =
+          displayValueColumn && !isVirtualCol(displayValueColumn)
+            ? row[displayValueColumn.column_name]
+            : null;
+
+        recordTrashList.push({
+          source_id: baseModel.model.source_id,
+          fk_model_id: baseModel.model.id,
+          row_id: `${getCompositePkValue(baseModel.model.primaryKeys, row)}`,
+          display_value: ncIsNullOrUndefined(displayValue)
+            ? null
+            : `${displayValue}`,
+          links: await getLinks(row, linkColumns),
+          data: serializeRow(
+            Object.fromEntries(
+              columns
+                .filter((c) => !isVirtualCol(c) && c.column_name in row)
+                .map((c) => [c.column_name, row[c.column_name]]),
+            ),
+          ),
+        });
+      }
+    }
+
+    return recordTrashList;
+  };
+
+  // stores the captured records once the delete is committed
+  const save = async (
+    recordTrashList: Partial<RecordTrash>[],
+    cookie?: NcRequest,
+  ) => {
+    if (!recordTrashList?.length) return;
+
+    await RecordTrash.bulkInsert(
+      baseModel.context,
+      recordTrashList.map((recordTrash) => ({
+        ...recordTrash,
+        deleted_by: cookie?.user?.id,
+        deleted_by_email: cookie?.user?.email,
+      })),
+    );
+  };
+
+  // inserts the record back with its original primary key and links it
+  // again to the mm / hm records which still exist
+  const restore = async (entry: RecordTrash, cookie?: NcRequest) => {
+    const columns = await baseModel.model.getColumns(baseModel.context);
+
+    const insertObj = Object.fromEntries(
+      columns
+        .filter((c) => !isVirtualCol(c) && c.column_name in (entry.data ?? {}))
+        .map((c) => [c.column_name, entry.data[c.column_name]]),
+    );
+
+    const where = _wherePk(baseModel.model.primaryKeys, insertObj);
+
+    const existing = await baseModel.execAndParse(
+      baseModel.dbDriver(baseModel.tnPath).where(where),
+      null,
+      { raw: true, first: true },
+    );
+
+    if (existing) {
+      NcError.badRequest(`Record '${entry.row_id}' already exists`);
+    }
+
+    const linkOps: ((trx: Knex.Transaction) => Promise<any>)[] = [];
+
+    for (const link of entry.links ?? []) {
+      const column = columns.find((c) => c.id === link.fk_column_id);
+
+      // skip links of fields which were deleted meanwhile
+      if (!column || !isLinksOrLTAR(column)) continue;
+
+      const colOptions = await column.getColOptions<LinkToAnotherRecordColumn>(
+        baseModel.context,
+      );
+
+      if (colOptions.type !== link.type) continue;
+
+      const { mmContext, refContext } = colOptions.getRelContext(
+        baseModel.context,
+      );
+
+      const relatedTable = await colOptions.getRelatedTable(refContext);
+      await relatedTable.getColumns(refContext);
+
+      const relatedBaseModel = await Model.getBaseModelSQL(refContext, {
+        model: relatedTable,
+        dbDriver: baseModel.dbDriver,
+      });
+
+      if (link.type === 'mm') {
+        const childColumn = await colOptions.getChildColumn(baseModel.context);
+        const parentColumn = await colOptions.getParentColumn(
+          baseModel.context,
+        );
+        const mmTable = await colOptions.getMMModel(baseModel.context);
+        const mmChildColumn = await colOptions.getMMChildColumn(
+          baseModel.context,
+        );
+        const mmParentColumn = await colOptions.getMMParentColumn(
+          baseModel.context,
+        );
+        const mmBaseModel = await Model.getBaseModelSQL(mmContext, {
+          model: mmTable,
+          dbDriver: baseModel.dbDriver,
+        });
+
+        // linked records might have been deleted as well
+        const ids = (
+          await baseModel.execAndParse(
+            baseModel
+              .dbDriver(relatedBaseModel.getTnPath(relatedTable))
+              .select(parentColumn.column_name)
+              .whereIn(parentColumn.column_name, link.ids),
+            null,
+            { raw: true },
+          )
+        ).map((r) => r[parentColumn.column_name]);
+
+        if (!ids.length) continue;
+
+        linkOps.push((trx) =>
+          trx.batchInsert(
+            mmBaseModel.getTnPath(mmTable) as string,
+            ids.map((id) => ({
+              [mmChildColumn.column_name]: insertObj[childColumn.column_name],
+              [mmParentColumn.column_name]: id,
+            })),
+            baseModel.isSqlite ? 10 : 100,
+          ),
+        );
+      } else {
+        const parentColumn = await colOptions.getParentColumn(
+          baseModel.context,
+        );
+        const childColumn = await colOptions.getChildColumn(baseModel.context);
+
+        if (!relatedTable.primaryKey) continue;
+
+        // records which got linked to another record meanwhile are left as is
+        linkOps.push((trx) =>
+          trx(relatedBaseModel.getTnPath(relatedTable))
+            .update({
+              [childColumn.column_name]: insertObj[parentColumn.column_name],
+            })
+            .whereIn(relatedTable.primaryKey.column_name, link.ids)
+            .whereNull(childColumn.column_name),
+        );
+      }
+    }
+
+    const trx = await baseModel.dbDriver.transaction();
+    try {
+      await trx(baseModel.tnPath).insert(insertObj);
+
+      for (const linkOp of linkOps) {
+        await linkOp(trx);
+      }
+
+      await trx.commit();
+    } catch (e) {
+      await trx.rollback();
+      throw e;
+    }
+
+    await restoreFileReferences(insertObj);
+
+    const rowId = getCompositePkValue(baseModel.model.primaryKeys, insertObj);
+
+    const data = await baseModel.readByPk(
+      rowId,
+      false,
+      {},
+      { ignoreView: true, getHiddenColumn: true },
+    );
+
+    await baseModel.afterInsert({
+      data,
+      insertData: data,
+      trx: baseModel.dbDriver,
+      req: cookie,
+    });
+
+    await RecordTrash.delete(baseModel.context, entry.id);
+
+    return data;
+  };
+
+  // attachments are marked as deleted along with the record
+  const restoreFileReferences = async (row: Record<string, any>) => {
+    const fileReferenceIds: string[] = [];
+
+    for (const column of baseModel.model.columns) {
+      if (column.uidt !== UITypes.Attachment || !row[column.column_name]) {
+        continue;
+      }
+
+      try {
+        const attachments =
+          typeof row[column.column_name] === 'string'
+            ? JSON.parse(row[column.column_name])
+            : row[column.column_name];
+
+        for (const attachment of attachments ?? []) {
+          if (attachment?.id) fileReferenceIds.push(attachment.id);
+        }
+      } catch {
+        // ignore attachments which can't be parsed
+      }
+    }
+
+    await FileReference.restore(baseModel.context, fileReferenceIds);
+  };
+
+  return {
+    capture,
+    save,
+    restore,
+  };
+};
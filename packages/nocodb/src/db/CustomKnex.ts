@@ -5,6 +5,7 @@ import type { FilterType } from 'nocodb-sdk';
 import type { BaseModelSqlv2 } from '~/db/BaseModelSqlv2';
 import Filter from '~/models/Filter';
 import { NcError } from '~/helpers/catchError';
+import Client_DuckDB from '~/db/sql-client/lib/duckdb/DuckdbDialect';
 
 // refer : https://github.com/brianc/node-pg-types/blob/master/lib/builtins.js
 const pgTypes = {
@@ -1049,7 +1050,12 @@ function CustomKnex(
     arg.useNullAsDefault = true;
   }
 
-  const kn: any = knex(arg);
+  // duckdb is not a builtin knex dialect, swap the client name with its implementation
+  const kn: any = knex(
+    arg?.client === 'duckdb'
+      ? { ...arg, client: Client_DuckDB, useNullAsDefault: true }
+      : arg,
+  );
 
   const knexRaw = kn.raw;
 
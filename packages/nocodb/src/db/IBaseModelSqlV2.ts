@@ -11,7 +11,7 @@ import type {
   NcRequest,
   RelationTypes,
 } from 'nocodb-sdk';
-import type { Column, Model, View } from '~/models';
+import type { Column, Filter, Model, View } from '~/models';
 import type { Knex } from 'knex';
 import type CustomKnex from '~/db/CustomKnex';
 
@@ -221,6 +221,9 @@ export interface IBaseModelSqlV2 {
   }): Promise<any>;
   getHighestOrderInTable(): Promise<BigNumber>;
 
+  getRowPolicyFilter(): Promise<Filter | null>;
+  applyRowPolicies(qb: Knex.QueryBuilder, alias?: string): Promise<void>;
+
   shuffle({ qb }: { qb: Knex.QueryBuilder }): Promise<void>;
   getSelectQueryBuilderForFormula(
     column: Column<any>,
@@ -291,6 +294,8 @@ export interface IBaseModelSqlV2 {
   get isSqlite(): boolean;
   get isPg(): boolean;
   get isMySQL(): boolean;
+  get isMssql(): boolean;
+  get isDuckdb(): boolean;
   get isSnowflake(): boolean;
   get isDatabricks(): boolean;
   get clientType(): string;
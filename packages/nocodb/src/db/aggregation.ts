@@ -21,6 +21,8 @@ import generateLookupSelectQuery from '~/db/generateLookupSelectQuery';
 import { genPgAggregateQuery } from '~/db/aggregations/pg';
 import { genMysql2AggregatedQuery } from '~/db/aggregations/mysql2';
 import { genSqlite3AggregateQuery } from '~/db/aggregations/sqlite3';
+import { genMssqlAggregateQuery } from '~/db/aggregations/mssql';
+import { genDuckdbAggregateQuery } from '~/db/aggregations/duckdb';
 
 const validateColType = (column: Column, aggregation: string) => {
   const agg = getAvailableAggregations(
@@ -212,6 +214,27 @@ export default async function applyAggregation({
       aggType,
       alias: alias,
     });
+  } else if (knex.client.config.client === 'mssql') {
+    return genMssqlAggregateQuery({
+      column,
+      baseModelSqlv2,
+      aggregation,
+      column_query: column_name_query,
+      parsedFormulaType,
+      aggType,
+      alias: alias,
+    });
+  } else if (knex.clientType() === 'duckdb') {
+    // config.client holds the dialect class for duckdb
+    return genDuckdbAggregateQuery({
+      column,
+      baseModelSqlv2,
+      aggregation,
+      column_query: column_name_query,
+      parsedFormulaType,
+      aggType,
+      alias: alias,
+    });
   } else {
     NcError.notImplemented(
       `Aggregation is not implemented for ${knex.client.config.client} yet.`,
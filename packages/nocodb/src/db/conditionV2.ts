@@ -1,6 +1,7 @@
 import dayjs from 'dayjs';
 import {
   FormulaDataTypes,
+  GEO_COMPARISON_OPS,
   getEquivalentUIType,
   isAIPromptCol,
   isDateMonthFormat,
@@ -18,6 +19,7 @@ import { replaceDelimitedWithKeyValueSqlite3 } from '~/db/aggregations/sqlite3';
 import generateLookupSelectQuery from '~/db/generateLookupSelectQuery';
 import { getRefColumnIfAlias } from '~/helpers';
 import { NcError } from '~/helpers/catchError';
+import { verifyFilterColumnNotHidden } from '~/helpers/columnPermissionHelpers';
 import { getColumnName } from '~/helpers/dbHelpers';
 import { sanitize } from '~/helpers/sqlSanitize';
 import { type BarcodeColumn, BaseUser, type QrCodeColumn } from '~/models';
@@ -124,7 +126,7 @@ const parseConditionV2 = async (
           baseModelSqlv2,
           child,
           aliasCount,
-          undefined,
+          alias,
           undefined,
           throwErrorIfInvalid,
         ),
@@ -210,6 +212,32 @@ const parseConditionV2 = async (
         NcError.fieldNotFound(filter.fk_column_id);
       }
     }
+    await verifyFilterColumnNotHidden(context, filter, filterColumn);
+    // geo comparisons are only implemented in the GeoData field handler,
+    // lookups are resolved to the GeoData field by the lookup handler below
+    if (
+      GEO_COMPARISON_OPS.includes(filter.comparison_op as any) &&
+      column.uidt !== UITypes.Lookup
+    ) {
+      if (column.uidt !== UITypes.GeoData) {
+        NcError.badRequest(
+          `'${filter.comparison_op}' is only supported for ${UITypes.GeoData} fields`,
+        );
+      }
+      return FieldHandler.fromBaseModel(baseModelSqlv2).applyFilter(
+        filter,
+        column,
+        {
+          alias,
+          conditionParser: parseConditionV2,
+          depth: aliasCount,
+          context,
+          throwErrorIfInvalid,
+          customWhereClause,
+        },
+      );
+    }
+
     if (
       [
         UITypes.JSON,
@@ -401,6 +429,14 @@ const parseConditionV2 = async (
               field = knex.raw(`json_extract(??, '$.value')`, [
                 column.column_name,
               ]);
+            } else if (knex.clientType() === 'mssql') {
+              field = knex.raw(`JSON_VALUE(??, '$.value')`, [
+                column.column_name,
+              ]);
+            } else if (knex.clientType() === 'duckdb') {
+              field = knex.raw(`json_extract_string(??, '$.value')`, [
+                column.column_name,
+              ]);
             }
           }
 
@@ -642,7 +678,17 @@ const parseConditionV2 = async (
                             ),
                           );
                         else qb = qb.where(knex.raw('?? = ?', [field, val]));
-                      } else
+                      } else if (
+                        knex.clientType() === 'mssql' ||
+                        knex.clientType() === 'duckdb'
+                      )
+                        qb = qb.where(
+                          knex.raw('CAST(?? AS DATE) = CAST(? AS DATE)', [
+                            field,
+                            val,
+                          ]),
+                        );
+                      else
                         qb = qb.where(
                           knex.raw('DATE(??) = DATE(?)', [field, val]),
                         );
@@ -670,7 +716,9 @@ const parseConditionV2 = async (
                     });
                   } else if (
                     knex.clientType().startsWith('mysql') ||
-                    knex.clientType() === 'sqlite3'
+                    knex.clientType() === 'sqlite3' ||
+                    knex.clientType() === 'mssql' ||
+                    knex.clientType() === 'duckdb'
                   ) {
                     qb = qb.where((nestedQb) => {
                       nestedQb.whereNot(field, '{}').whereNot(field, '[]');
@@ -921,6 +969,14 @@ const parseConditionV2 = async (
                         dayjs(val).utc().format('YYYY-MM-DD HH:mm:ss'),
                       ]),
                     );
+                  } else if (qb.client.config.client === 'mssql') {
+                    qb.where(
+                      field,
+                      gt_op,
+                      knex.raw('CAST(? AS DATETIME2)', [
+                        dayjs(val).utc().format('YYYY-MM-DD HH:mm:ss'),
+                      ]),
+                    );
                   } else {
                     qb.where(field, gt_op, val);
                   }
@@ -980,6 +1036,14 @@ const parseConditionV2 = async (
                         dayjs(val).utc().format('YYYY-MM-DD HH:mm:ss'),
                       ]),
                     );
+                  } else if (qb.client.config.client === 'mssql') {
+                    qb.where(
+                      field,
+                      ge_op,
+                      knex.raw('CAST(? AS DATETIME2)', [
+                        dayjs(val).utc().format('YYYY-MM-DD HH:mm:ss'),
+                      ]),
+                    );
                   } else {
                     qb.where(field, ge_op, val);
                   }
@@ -1038,6 +1102,14 @@ const parseConditionV2 = async (
                         dayjs(val).utc().format('YYYY-MM-DD HH:mm:ss'),
                       ]),
                     );
+                  } else if (qb.client.config.client === 'mssql') {
+                    qb.where(
+                      field,
+                      lt_op,
+                      knex.raw('CAST(? AS DATETIME2)', [
+                        dayjs(val).utc().format('YYYY-MM-DD HH:mm:ss'),
+                      ]),
+                    );
                   } else {
                     qb.where(field, lt_op, val);
                   }
@@ -1098,6 +1170,14 @@ const parseConditionV2 = async (
                         dayjs(val).utc().format('YYYY-MM-DD HH:mm:ss'),
                       ]),
                     );
+                  } else if (qb.client.config.client === 'mssql') {
+                    qb.where(
+                      field,
+                      le_op,
+                      knex.raw('CAST(? AS DATETIME2)', [
+                        dayjs(val).utc().format('YYYY-MM-DD HH:mm:ss'),
+                      ]),
+                    );
                   } else {
                     qb.where(field, le_op, val);
                   }
@@ -1180,7 +1260,9 @@ const parseConditionV2 = async (
                     .orWhere(knex.raw("??::jsonb = '[]'::jsonb", [field]));
                 } else if (
                   knex.clientType().startsWith('mysql') ||
-                  knex.clientType() === 'sqlite3'
+                  knex.clientType() === 'sqlite3' ||
+                  knex.clientType() === 'mssql' ||
+                  knex.clientType() === 'duckdb'
                 ) {
                   qb = qb
                     .whereNull(field)
@@ -1227,7 +1309,9 @@ const parseConditionV2 = async (
                     .whereNot(knex.raw("??::jsonb = '[]'::jsonb", [field]));
                 } else if (
                   knex.clientType().startsWith('mysql') ||
-                  knex.clientType() === 'sqlite3'
+                  knex.clientType() === 'sqlite3' ||
+                  knex.clientType() === 'mssql' ||
+                  knex.clientType() === 'duckdb'
                 ) {
                   qb = qb
                     .whereNotNull(field)
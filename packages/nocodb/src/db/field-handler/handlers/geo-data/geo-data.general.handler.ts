@@ -0,0 +1,138 @@
+import {
+  parseGeoBoundingBoxFilterValue,
+  parseGeoRadiusFilterValue,
+} from 'nocodb-sdk';
+import type { Knex } from 'knex';
+import type CustomKnex from '~/db/CustomKnex';
+import type {
+  FilterOptions,
+  FilterVerificationResult,
+} from '~/db/field-handler/field-handler.interface';
+import type { Column, Filter } from '~/models';
+import { GenericFieldHandler } from '~/db/field-handler/handlers/generic';
+import {
+  geoWithinBoundingBoxCondition,
+  geoWithinRadiusCondition,
+} from '~/db/geoData';
+
+export class GeoDataGeneralHandler extends GenericFieldHandler {
+  override async verifyFilter(filter: Filter, column: Column) {
+    if (
+      filter.comparison_op === 'withinRadius' &&
+      !parseGeoRadiusFilterValue(filter.value)
+    ) {
+      return {
+        isValid: false,
+        errors: [
+          `Value ${filter.value} is not supported for ${filter.comparison_op} on column ${column.title}, expected 'latitude;longitude;radius in km'`,
+        ],
+      } as FilterVerificationResult;
+    }
+
+    if (
+      filter.comparison_op === 'withinBoundingBox' &&
+      !parseGeoBoundingBoxFilterValue(filter.value)
+    ) {
+      return {
+        isValid: false,
+        errors: [
+          `Value ${filter.value} is not supported for ${filter.comparison_op} on column ${column.title}, expected 'minLatitude;minLongitude;maxLatitude;maxLongitude'`,
+        ],
+      } as FilterVerificationResult;
+    }
+
+    return {
+      isValid: true,
+    } as FilterVerificationResult;
+  }
+
+  override async handleFilter(
+    args: {
+      sourceField: string | Knex.QueryBuilder | Knex.RawBuilder;
+      val: any;
+    },
+    rootArgs: {
+      knex: CustomKnex;
+      filter: Filter;
+      column: Column;
+    },
+    options: FilterOptions,
+  ) {
+    switch (rootArgs.filter.comparison_op) {
+      case 'withinRadius':
+        return this.filterWithinRadius(args, rootArgs, options);
+      case 'withinBoundingBox':
+        return this.filterWithinBoundingBox(args, rootArgs, options);
+    }
+    return super.handleFilter(args, rootArgs, options);
+  }
+
+  async filterWithinRadius(
+    args: {
+      sourceField: string | Knex.QueryBuilder | Knex.RawBuilder;
+      val: any;
+    },
+    rootArgs: {
+      knex: CustomKnex;
+      filter: Filter;
+      column: Column;
+    },
+    _options: FilterOptions,
+  ) {
+    const { val, sourceField } = args;
+    const { knex } = rootArgs;
+    const radiusFilter = parseGeoRadiusFilterValue(val);
+
+    return {
+      rootApply: undefined,
+      clause: (qb: Knex.QueryBuilder) => {
+        // an invalid value is rejected on verification, match nothing otherwise
+        if (!radiusFilter) {
+          qb.whereRaw('1 = 0');
+          return;
+        }
+        qb.where((nestedQb) => {
+          nestedQb
+            .whereNotNull(sourceField as any)
+            .whereNot(sourceField as any, '')
+            .where(geoWithinRadiusCondition(knex, sourceField, radiusFilter));
+        });
+      },
+    };
+  }
+
+  async filterWithinBoundingBox(
+    args: {
+      sourceField: string | Knex.QueryBuilder | Knex.RawBuilder;
+      val: any;
+    },
+    rootArgs: {
+      knex: CustomKnex;
+      filter: Filter;
+      column: Column;
+    },
+    _options: FilterOptions,
+  ) {
+    const { val, sourceField } = args;
+    const { knex } = rootArgs;
+    const boundingBox = parseGeoBoundingBoxFilterValue(val);
+
+    return {
+      rootApply: undefined,
+      clause: (qb: Knex.QueryBuilder) => {
+        if (!boundingBox) {
+          qb.whereRaw('1 = 0');
+          return;
+        }
+        qb.where((nestedQb) => {
+          nestedQb
+            .whereNotNull(sourceField as any)
+            .whereNot(sourceField as any, '')
+            .where(
+              geoWithinBoundingBoxCondition(knex, sourceField, boundingBox),
+            );
+        });
+      },
+    };
+  }
+}
@@ -68,6 +68,7 @@ import { Column } from '~/models';
 import { JsonPgHandler } from '~/db/field-handler/handlers/json/json.pg.handler';
 import { DecimalPgHandler } from '~/db/field-handler/handlers/decimal/decimal.pg.handler';
 import { EmailGeneralHandler } from '~/db/field-handler/handlers/email/email.general.handler';
+import { GeoDataGeneralHandler } from '~/db/field-handler/handlers/geo-data/geo-data.general.handler';
 
 const CLIENT_DEFAULT = '_default';
 
@@ -119,7 +120,9 @@ const HANDLER_REGISTRY: Partial<
   [UITypes.PhoneNumber]: {
     [CLIENT_DEFAULT]: PhoneNumberGeneralHandler,
   },
-  [UITypes.GeoData]: {},
+  [UITypes.GeoData]: {
+    [CLIENT_DEFAULT]: GeoDataGeneralHandler,
+  },
   [UITypes.Email]: {
     [CLIENT_DEFAULT]: EmailGeneralHandler,
   },
@@ -1,5 +1,43 @@
+import { ArrayFormulaFunctions } from 'nocodb-sdk';
 import type CustomKnex from '~/db/CustomKnex';
 
+/**
+ * Lists are passed between array functions as JSON array text,
+ * aggregate the values of a lookup into it.
+ */
+export const getJsonArrayAgg = (knex: CustomKnex, cn) => {
+  switch (knex.clientType()) {
+    case 'pg':
+      return knex.raw(`COALESCE(jsonb_agg(??)::text, '[]')`, [cn]);
+    case 'mysql':
+    case 'mysql2':
+      return knex.raw(
+        `CAST(COALESCE(JSON_ARRAYAGG(??), JSON_ARRAY()) AS CHAR)`,
+        [cn],
+      );
+    default:
+      return knex.raw(`json_group_array(??)`, [cn]);
+  }
+};
+
+/**
+ * Wrap a single value (eg. lookup over belongs to relation) into a JSON array text
+ */
+export const getJsonArrayOf = (knex: CustomKnex, builder) => {
+  switch (knex.clientType()) {
+    case 'pg':
+      return knex.raw(`jsonb_build_array(?)::text`, [builder]);
+    case 'mysql':
+    case 'mysql2':
+      return knex.raw(`CAST(JSON_ARRAY(?) AS CHAR)`, [builder]);
+    default:
+      return knex.raw(`json_array(?)`, [builder]);
+  }
+};
+
+export const isArrayFormulaFn = (fnName?: string) =>
+  ArrayFormulaFunctions.includes(fnName?.toUpperCase());
+
 export const getAggregateFn: (
   fnName: string,
 ) => (args: { qb; knex?: CustomKnex; cn }) => any = (parentFn) => {
@@ -25,6 +63,14 @@ export const getAggregateFn: (
     //       .select(
     //         knex.raw('sum(??)/(count(??)) + ?)', [cn, cn, (argsCount || 1) - 1])
     //       );
+    case 'ARRAYJOIN':
+    case 'ARRAYUNIQUE':
+    case 'ARRAYCOMPACT':
+    case 'ARRAYSORT':
+    case 'ARRAYSLICE':
+      return ({ qb, knex, cn }) =>
+        qb.clear('select').select(getJsonArrayAgg(knex, cn));
+
     case 'CONCAT':
     default:
       return ({ qb, cn }) => qb.clear('select').concat(cn);
@@ -14,6 +14,10 @@ import genRollupSelectv2 from '../genRollupSelectv2';
 import { replaceDelimitedWithKeyValuePg } from '../aggregations/pg';
 import { replaceDelimitedWithKeyValueSqlite3 } from '../aggregations/sqlite3';
 import { lookupOrLtarBuilder } from './lookup-or-ltar-builder';
+import {
+  getJsonArrayOf,
+  isArrayFormulaFn,
+} from './formula-query-builder.helpers';
 import {
   binaryExpressionBuilder,
   callExpressionBuilder,
@@ -299,6 +303,22 @@ async function _formulaQueryBuilder(params: FormulaQueryBuilderBaseParams) {
                 ]),
               };
             };
+          } else if (knex.clientType() === 'mssql') {
+            aliasToColumn[col.id] = async (): Promise<any> => {
+              return {
+                builder: knex.raw(`JSON_VALUE(??, '$.value')`, [
+                  col.column_name,
+                ]),
+              };
+            };
+          } else if (knex.clientType() === 'duckdb') {
+            aliasToColumn[col.id] = async (): Promise<any> => {
+              return {
+                builder: knex.raw(`json_extract_string(??, '$.value')`, [
+                  col.column_name,
+                ]),
+              };
+            };
           }
         } else {
           aliasToColumn[col.id] = () =>
@@ -366,6 +386,11 @@ async function _formulaQueryBuilder(params: FormulaQueryBuilderBaseParams) {
         return { builder: knex.raw(`??`, builder(pt.fnName)) };
       }
 
+      // array functions expect a list, wrap the single value of a belongs to lookup
+      if (isArrayFormulaFn(pt.fnName)) {
+        return { builder: getJsonArrayOf(knex, builder) };
+      }
+
       if (
         knex.clientType() === 'databricks' &&
         builder.toQuery().endsWith(')')
@@ -94,7 +94,10 @@ export const callExpressionBuilder = async ({
         } else {
           return fn(pt.arguments[0], prevBinaryOp);
         }
-      } else if (knex.clientType() === 'databricks') {
+      } else if (
+        knex.clientType() === 'databricks' ||
+        knex.clientType() === 'mssql'
+      ) {
         const res = await mapFunctionName({
           pt,
           knex,
@@ -541,7 +544,11 @@ export const binaryExpressionBuilder = async ({
           : (pt.right as any).value === ''
         : 0
     })`;
-  } else if (knex.clientType() === 'sqlite3' || knex.clientType() === 'pg') {
+  } else if (
+    knex.clientType() === 'sqlite3' ||
+    knex.clientType() === 'pg' ||
+    knex.clientType() === 'duckdb'
+  ) {
     if (pt.operator === '=') {
       if (pt.left.type === 'Literal' && pt.left.value === '') {
         sql = `${right} IS NULL OR CAST(${right} AS TEXT) = ''`;
@@ -591,6 +598,24 @@ export const binaryExpressionBuilder = async ({
     } else {
       sql = `${sql} `;
     }
+  } else if (knex.clientType() === 'mssql') {
+    if (ComparisonOperators.includes(pt.operator as ComparisonOperator)) {
+      if (pt.operator === '=' || pt.operator === '!=') {
+        const emptyCheck =
+          pt.operator === '=' ? 'IS NULL OR' : 'IS NOT NULL AND';
+        if (pt.left.type === 'Literal' && pt.left.value === '') {
+          sql = `${right} ${emptyCheck} CAST(${right} AS NVARCHAR(MAX)) ${pt.operator} ''`;
+        } else if (pt.right.type === 'Literal' && pt.right.value === '') {
+          sql = `${left} ${emptyCheck} CAST(${left} AS NVARCHAR(MAX)) ${pt.operator} ''`;
+        }
+      }
+      // comparisons are predicates in SQL Server and can't be selected
+      // as a value, so convert them to a bit like value
+      sql = `(CASE WHEN ${sql} THEN 1 ELSE 0 END)`;
+    } else if (pt.operator === '/') {
+      // handle divide by zero
+      sql = `${left} / NULLIF(${right}, 0)`;
+    }
   }
   const query = knex.raw(sql.replace(/\?/g, '\\?'));
   if (prevBinaryOp && pt.operator !== prevBinaryOp) {
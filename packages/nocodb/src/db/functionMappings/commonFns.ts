@@ -4,7 +4,7 @@ import type { MapFnArgs } from '~/db/mapFunctionName';
 import { concatKnexRaw } from '~/helpers/dbHelpers';
 import { NcError } from '~/helpers/catchError';
 
-async function treatArgAsConditionalExp(
+export async function treatArgAsConditionalExp(
   args: MapFnArgs,
   argument = args.pt?.arguments?.[0],
 ) {
@@ -28,7 +28,10 @@ async function treatArgAsConditionalExp(
       bindings = { condArg };
       break;
     case FormulaDataTypes.BOOLEAN:
-      condStr = `(:condArg) IS NOT NULL AND (:condArg) != false`;
+      // SQL Server has no boolean literals, booleans are bit values
+      condStr = `(:condArg) IS NOT NULL AND (:condArg) != ${
+        args.knex.clientType() === 'mssql' ? 0 : 'false'
+      }`;
       bindings = { condArg };
       break;
     case FormulaDataTypes.DATE:
@@ -0,0 +1,317 @@
+import commonFns, { treatArgAsConditionalExp } from './commonFns';
+import type { MapFnArgs } from '../mapFunctionName';
+import { convertUnits } from '~/helpers/convertUnits';
+import {
+  getDateTimeFormat,
+  getDateTimeParseLayout,
+  parseUtcOffset,
+} from '~/helpers/formulaDateTimeHelper';
+import { getWeekdayByText } from '~/helpers/formulaFnHelper';
+
+const datePart = (part: string) => {
+  return async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(`DATE_PART('${part}', (?)::TIMESTAMP)`, [source]),
+    };
+  };
+};
+
+const duckdb = {
+  ...commonFns,
+  LEN: 'length',
+  MIN: 'least',
+  MAX: 'greatest',
+  CEILING: 'ceil',
+  POWER: 'pow',
+  MID: 'SUBSTR',
+  SEARCH: async (args: MapFnArgs) => {
+    const needle = (await args.fn(args.pt.arguments[1])).builder;
+    const source = (await args.fn(args.pt.arguments[0])).builder;
+
+    return {
+      builder: args.knex.raw(`POSITION(? in ?)`, [needle, source]),
+    };
+  },
+  LOG: async ({ fn, knex, pt }: MapFnArgs) => {
+    // LOG(base, value) in formula, DuckDB only has the base 10 LOG
+    if (pt.arguments.length === 1) {
+      return {
+        builder: knex.raw(`LOG10(?)`, [(await fn(pt.arguments[0])).builder]),
+      };
+    }
+    const base = (await fn(pt.arguments[0])).builder;
+    const value = (await fn(pt.arguments[1])).builder;
+    return {
+      builder: knex.raw(`(LN(?) / LN(?))`, [value, base]),
+    };
+  },
+  INT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(`TRUNC(TRY_CAST(? AS DOUBLE))::BIGINT`, [source]),
+    };
+  },
+  FLOAT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(`TRY_CAST(? AS DOUBLE)`, [source]).wrap('(', ')'),
+    };
+  },
+  ROUND: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const precision = pt?.arguments[1]
+      ? (await fn(pt.arguments[1])).builder
+      : 0;
+
+    return {
+      builder: knex.raw(`ROUND((?)::DOUBLE, ?)`, [source, precision]),
+    };
+  },
+  MOD: async ({ fn, knex, pt }: MapFnArgs) => {
+    const x = (await fn(pt.arguments[0])).builder;
+    const y = (await fn(pt.arguments[1])).builder;
+    return {
+      builder: knex.raw(`((?) % NULLIF(?, 0))`, [x, y]),
+    };
+  },
+  SUBSTR: async ({ fn, knex, pt }: MapFnArgs) => {
+    const str = (await fn(pt.arguments[0])).builder;
+    const positionFrom = (await fn(pt.arguments[1] ?? 1)).builder;
+    const numberOfCharacters = pt.arguments[2]
+      ? (await fn(pt.arguments[2])).builder
+      : null;
+    if (numberOfCharacters) {
+      return {
+        builder: knex.raw(`SUBSTR(?::TEXT, ?, ?)`, [
+          str,
+          positionFrom,
+          numberOfCharacters,
+        ]),
+      };
+    } else {
+      return {
+        builder: knex.raw(`SUBSTR(?::TEXT, ?)`, [str, positionFrom]),
+      };
+    }
+  },
+  DATEADD: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const modifier = (await fn(pt.arguments[1])).builder;
+    // interval unit is a keyword and can't be bound
+    const unit = String((await fn(pt.arguments[2])).builder).replace(
+      /[^a-zA-Z]/g,
+      '',
+    );
+    return {
+      builder: knex
+        .raw(`(?)::TIMESTAMP + INTERVAL (?) ${unit}`, [source, modifier])
+        .wrap('(', ')'),
+    };
+  },
+  DATETIME_DIFF: async ({ fn, knex, pt }: MapFnArgs) => {
+    const datetime_expr1 = (await fn(pt.arguments[0])).builder;
+    const datetime_expr2 = (await fn(pt.arguments[1])).builder;
+    const rawUnit = pt.arguments[2]
+      ? (await fn(pt.arguments[2])).builder.bindings[0]
+      : 'seconds';
+    const unit = convertUnits(rawUnit, 'pg')
+      .replace(/[^a-zA-Z]/g, '')
+      .replace(/s$/, '');
+
+    // DATE_SUB counts the complete units between both dates
+    return {
+      builder: knex.raw(`DATE_SUB('${unit}', (?)::TIMESTAMP, (?)::TIMESTAMP)`, [
+        datetime_expr2,
+        datetime_expr1,
+      ]),
+    };
+  },
+  WEEKDAY: async ({ fn, knex, pt }: MapFnArgs) => {
+    // isodow: the day of the week as Monday (1) to Sunday (7)
+    // WEEKDAY() returns an index from 0 to 6 for Monday to Sunday
+    const source = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(
+        `((ISODOW((?)::DATE) - 1 - ${getWeekdayByText(
+          pt?.arguments[1]?.value,
+        )} % 7 + 7) % 7)::INTEGER`,
+        [source],
+      ),
+    };
+  },
+  DATESTR: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(`STRFTIME((?)::TIMESTAMP, '%Y-%m-%d')`, [source]),
+    };
+  },
+  DAY: datePart('day'),
+  MONTH: datePart('month'),
+  YEAR: datePart('year'),
+  HOUR: datePart('hour'),
+  DATETIME_FORMAT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const format = getDateTimeFormat(
+      pt.arguments[1]?.value ?? 'YYYY-MM-DD',
+      'duckdb',
+    );
+    return {
+      builder: knex.raw(`STRFTIME((?)::TIMESTAMP, ?)`, [source, format]),
+    };
+  },
+  DATETIME_PARSE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    // validates the pattern, only fixed width tokens can be parsed
+    getDateTimeParseLayout(pt.arguments[1].value);
+    // TRY_STRPTIME returns NULL on mismatching input
+    return {
+      builder: knex.raw(`TRY_STRPTIME((?)::TEXT, ?)`, [
+        source,
+        getDateTimeFormat(pt.arguments[1].value, 'duckdb'),
+      ]),
+    };
+  },
+  SET_TIMEZONE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const offset = parseUtcOffset(pt.arguments[1].value);
+    return {
+      builder:
+        offset !== null
+          ? knex.raw(`((?)::TIMESTAMP + INTERVAL '${offset} minutes')`, [
+              source,
+            ])
+          : knex.raw(`((?)::TIMESTAMP AT TIME ZONE 'UTC' AT TIME ZONE ?)`, [
+              source,
+              pt.arguments[1].value,
+            ]),
+    };
+  },
+  AND: async (args: MapFnArgs) => {
+    const { builder } = await commonFns.AND(args);
+    return {
+      builder: args.knex.raw(`CASE WHEN ? THEN TRUE ELSE FALSE END`, [builder]),
+    };
+  },
+  OR: async (args: MapFnArgs) => {
+    const { builder } = await commonFns.OR(args);
+    return {
+      builder: args.knex.raw(`CASE WHEN ? THEN TRUE ELSE FALSE END`, [builder]),
+    };
+  },
+  XOR: async (args: MapFnArgs) => {
+    const predicates = await Promise.all(
+      args.pt.arguments.map(
+        async (arg) => (await treatArgAsConditionalExp(args, arg)).builder,
+      ),
+    );
+    return {
+      builder: args.knex.raw(
+        `((${predicates
+          .map(() => '(CASE WHEN ? THEN 1 ELSE 0 END)')
+          .join(' + ')}) % 2)`,
+        predicates,
+      ),
+    };
+  },
+  REGEX_MATCH: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const pattern = (await fn(pt.arguments[1])).builder;
+    return {
+      builder: knex.raw(
+        `CASE WHEN REGEXP_MATCHES(?::TEXT, ?::TEXT) THEN 1 ELSE 0 END`,
+        [source, pattern],
+      ),
+    };
+  },
+  REGEX_EXTRACT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const pattern = (await fn(pt.arguments[1])).builder;
+    // REGEXP_EXTRACT returns an empty string when nothing matches
+    return {
+      builder: knex.raw(`NULLIF(REGEXP_EXTRACT(?::TEXT, ?::TEXT), '')`, [
+        source,
+        pattern,
+      ]),
+    };
+  },
+  REGEX_REPLACE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const pattern = (await fn(pt.arguments[1])).builder;
+    const replacement = (await fn(pt.arguments[2])).builder;
+    return {
+      builder: knex.raw(`REGEXP_REPLACE(?::TEXT, ?::TEXT, ?::TEXT, 'g')`, [
+        source,
+        pattern,
+        replacement,
+      ]),
+    };
+  },
+  COUNT: async ({ fn, knex, pt }: MapFnArgs) => {
+    return {
+      builder: knex.raw(
+        `${(
+          await Promise.all(
+            pt.arguments.map(async (arg) => {
+              const { builder } = await fn(arg);
+              return `CASE WHEN (TYPEOF(${builder}) IN ('TINYINT', 'SMALLINT', 'INTEGER', 'BIGINT', 'HUGEINT', 'FLOAT', 'DOUBLE') OR TYPEOF(${builder}) LIKE 'DECIMAL%') AND ${builder} IS NOT NULL THEN 1 ELSE 0 END`;
+            }),
+          )
+        ).join(' + ')}`,
+      ),
+    };
+  },
+  COUNTA: async ({ fn, knex, pt }: MapFnArgs) => {
+    return {
+      builder: knex.raw(
+        `${(
+          await Promise.all(
+            pt.arguments.map(async (arg) => {
+              const { builder } = await fn(arg);
+              return `CASE WHEN ${builder} IS NOT NULL AND ${builder}::TEXT != '' THEN 1 ELSE 0 END`;
+            }),
+          )
+        ).join(' + ')}`,
+      ),
+    };
+  },
+  VALUE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const value = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(
+        `CASE
+  WHEN :value IS NULL OR REGEXP_REPLACE(:value ::TEXT, '[^\\d.]+', '', 'g') IN ('.', '') OR LENGTH(REGEXP_REPLACE(:value ::TEXT, '[^.]+', '', 'g')) > 1 THEN NULL
+  WHEN LENGTH(REGEXP_REPLACE(:value ::TEXT, '[^%]', '','g')) > 0 THEN POW(-1, LENGTH(REGEXP_REPLACE(:value ::TEXT, '[^-]','', 'g'))) * (REGEXP_REPLACE(:value ::TEXT, '[^\\d.]+', '', 'g'))::DOUBLE / 100
+  ELSE POW(-1, LENGTH(REGEXP_REPLACE(:value ::TEXT, '[^-]', '', 'g'))) * (REGEXP_REPLACE(:value ::TEXT, '[^\\d.]+', '', 'g'))::DOUBLE
+END`,
+        {
+          value,
+        },
+      ),
+    };
+  },
+  STRING: async (args: MapFnArgs) => {
+    const source = (await args.fn(args.pt.arguments[0])).builder;
+    return {
+      builder: args.knex.raw(`(?)::TEXT`, [source]),
+    };
+  },
+  BOOLEAN: async (args: MapFnArgs) => {
+    const source = (await args.fn(args.pt.arguments[0])).builder;
+    return {
+      builder: args.knex.raw(`(?)::BOOLEAN`, [source]),
+    };
+  },
+  JSON_EXTRACT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const needle = (await fn(pt.arguments[1])).builder;
+    return {
+      builder: knex.raw(
+        `CASE WHEN JSON_VALID((?)::TEXT) THEN JSON_EXTRACT((?)::TEXT, CONCAT('$', ?)) END`,
+        [source, source, needle],
+      ),
+    };
+  },
+};
+
+export default duckdb;
@@ -0,0 +1,386 @@
+import dayjs from 'dayjs';
+import commonFns, { treatArgAsConditionalExp } from './commonFns';
+import type { MapFnArgs } from '../mapFunctionName';
+import { convertUnits } from '~/helpers/convertUnits';
+import {
+  getDateTimeFormat,
+  getDateTimeParseLayout,
+  getTimezoneOffsetPeriods,
+  parseUtcOffset,
+} from '~/helpers/formulaDateTimeHelper';
+import { getWeekdayByText } from '~/helpers/formulaFnHelper';
+
+// SQL Server can't select a predicate as a value,
+// so predicates are converted to 1 / 0
+const toBit = async (
+  args: MapFnArgs,
+  fn: (args: MapFnArgs) => Promise<{ builder: any }>,
+) => {
+  const { builder } = await fn(args);
+  return {
+    builder: args.knex.raw(`(CASE WHEN ? THEN 1 ELSE 0 END)`, [builder]),
+  };
+};
+
+// MIN / MAX over multiple values, LEAST / GREATEST are not available
+// before SQL Server 2022
+const aggregateValues = async (
+  { fn, knex, pt }: MapFnArgs,
+  aggregate: 'MIN' | 'MAX',
+) => {
+  const values = await Promise.all(
+    pt.arguments.map(async (arg) => (await fn(arg)).builder),
+  );
+  return {
+    builder: knex.raw(
+      `(SELECT ${aggregate}(v) FROM (VALUES ${values
+        .map(() => '(?)')
+        .join(', ')}) AS t(v))`,
+      values,
+    ),
+  };
+};
+
+// SUBSTRING requires the length, fallback to the rest of the string
+const substring = async ({ fn, knex, pt }: MapFnArgs) => {
+  const source = (await fn(pt.arguments[0])).builder;
+  const position = (await fn(pt.arguments[1])).builder;
+  const length = pt.arguments[2]
+    ? (await fn(pt.arguments[2])).builder
+    : knex.raw('LEN(?)', [source]);
+  return {
+    builder: knex.raw(`SUBSTRING(?, ?, ?)`, [source, position, length]),
+  };
+};
+
+const mssql = {
+  ...commonFns,
+  AND: (args: MapFnArgs) => toBit(args, commonFns.AND),
+  OR: (args: MapFnArgs) => toBit(args, commonFns.OR),
+  ISBLANK: (args: MapFnArgs) => toBit(args, commonFns.ISBLANK),
+  ISNOTBLANK: (args: MapFnArgs) => toBit(args, commonFns.ISNOTBLANK),
+  ISNULL: (args: MapFnArgs) => toBit(args, commonFns.ISNULL),
+  ISNOTNULL: (args: MapFnArgs) => toBit(args, commonFns.ISNOTNULL),
+  XOR: async (args: MapFnArgs) => {
+    const predicates = await Promise.all(
+      args.pt.arguments.map(
+        async (arg) => (await treatArgAsConditionalExp(args, arg)).builder,
+      ),
+    );
+    return {
+      builder: args.knex.raw(
+        `((${predicates
+          .map(() => '(CASE WHEN ? THEN 1 ELSE 0 END)')
+          .join(' + ')}) % 2)`,
+        predicates,
+      ),
+    };
+  },
+  CONCAT: async ({ fn, knex, pt }: MapFnArgs) => {
+    // CONCAT requires at least two arguments
+    if (pt.arguments.length === 1) {
+      return {
+        builder: knex.raw(`CONCAT(?, '')`, [
+          (await fn(pt.arguments[0])).builder,
+        ]),
+      };
+    }
+  },
+  MIN: (args: MapFnArgs) => aggregateValues(args, 'MIN'),
+  MAX: (args: MapFnArgs) => aggregateValues(args, 'MAX'),
+  NOW: 'GETDATE',
+  REPEAT: 'REPLICATE',
+  SEARCH: async (args: MapFnArgs) => {
+    args.pt.callee.name = 'CHARINDEX';
+    const temp = args.pt.arguments[0];
+    args.pt.arguments[0] = args.pt.arguments[1];
+    args.pt.arguments[1] = temp;
+  },
+  LOG: async (args: MapFnArgs) => {
+    // LOG(base, value) in formula, LOG(value, base) in SQL Server
+    if (args.pt.arguments.length > 1) {
+      const temp = args.pt.arguments[0];
+      args.pt.arguments[0] = args.pt.arguments[1];
+      args.pt.arguments[1] = temp;
+    }
+  },
+  MOD: async ({ fn, knex, pt }: MapFnArgs) => {
+    const x = (await fn(pt.arguments[0])).builder;
+    const y = (await fn(pt.arguments[1])).builder;
+    return {
+      builder: knex.raw(`(? % NULLIF(?, 0))`, [x, y]),
+    };
+  },
+  ROUND: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const precision = pt.arguments[1] ? (await fn(pt.arguments[1])).builder : 0;
+    return {
+      builder: knex.raw(`ROUND(?, ?)`, [source, precision]),
+    };
+  },
+  ROUNDDOWN: async ({ fn, knex, pt }: MapFnArgs) => {
+    const value = (await fn(pt.arguments[0])).builder;
+    const precision = pt.arguments[1]
+      ? (await fn(pt.arguments[1])).builder
+      : knex.raw('0');
+    return {
+      builder: knex.raw(
+        `(FLOOR((${value}) * POWER(10.0, ${precision})) / POWER(10.0, ${precision}))`,
+      ),
+    };
+  },
+  ROUNDUP: async ({ fn, knex, pt }: MapFnArgs) => {
+    const value = (await fn(pt.arguments[0])).builder;
+    const precision = pt.arguments[1]
+      ? (await fn(pt.arguments[1])).builder
+      : knex.raw('0');
+    return {
+      builder: knex.raw(
+        `(CEILING((${value}) * POWER(10.0, ${precision})) / POWER(10.0, ${precision}))`,
+      ),
+    };
+  },
+  EVEN: async ({ fn, knex, pt }: MapFnArgs) => {
+    const query = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(
+        `CASE WHEN :query >= 0 THEN CEILING((:query) / 2.0) * 2 \n ELSE FLOOR((:query + 2) / 2.0) * 2 - 2\n END`,
+        { query },
+      ),
+    };
+  },
+  ODD: async ({ fn, knex, pt }: MapFnArgs) => {
+    const query = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(
+        `CASE WHEN :query >= 0 THEN CEILING((:query - 1) / 2.0) * 2 + 1 \n ELSE FLOOR((:query + 1) / 2.0) * 2 - 1\n END`,
+        { query },
+      ),
+    };
+  },
+  INT: async ({ fn, knex, pt }: MapFnArgs) => {
+    return {
+      builder: knex.raw(`CAST(TRY_CAST(? AS FLOAT) AS BIGINT)`, [
+        (await fn(pt.arguments[0])).builder,
+      ]),
+    };
+  },
+  FLOAT: async ({ fn, knex, pt }: MapFnArgs) => {
+    return {
+      builder: knex
+        .raw(`TRY_CAST(? AS FLOAT)`, [(await fn(pt.arguments[0])).builder])
+        .wrap('(', ')'),
+    };
+  },
+  STRING: async ({ fn, knex, pt }: MapFnArgs) => {
+    return {
+      builder: knex.raw(`CAST(? AS NVARCHAR(MAX))`, [
+        (await fn(pt.arguments[0])).builder,
+      ]),
+    };
+  },
+  SUBSTR: substring,
+  MID: substring,
+  COUNT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const values = await Promise.all(
+      pt.arguments.map(async (arg) => (await fn(arg)).builder),
+    );
+    return {
+      builder: knex.raw(
+        values
+          .map(
+            () =>
+              `(CASE WHEN SQL_VARIANT_PROPERTY(?, 'BaseType') IN ('tinyint', 'smallint', 'int', 'bigint', 'decimal', 'numeric', 'real', 'float', 'money', 'smallmoney') THEN 1 ELSE 0 END)`,
+          )
+          .join(' + '),
+        values,
+      ),
+    };
+  },
+  COUNTA: async ({ fn, knex, pt }: MapFnArgs) => {
+    const values = await Promise.all(
+      pt.arguments.map(async (arg) => (await fn(arg)).builder),
+    );
+    return {
+      builder: knex.raw(
+        values
+          .map(
+            () =>
+              `(CASE WHEN ? IS NOT NULL AND CAST(? AS NVARCHAR(MAX)) != '' THEN 1 ELSE 0 END)`,
+          )
+          .join(' + '),
+        values.flatMap((value) => [value, value]),
+      ),
+    };
+  },
+  DATEADD: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const count = (await fn(pt.arguments[1])).builder;
+    // datepart is a keyword and can't be bound
+    const unit = String((await fn(pt.arguments[2])).builder).replace(
+      /[^a-zA-Z]/g,
+      '',
+    );
+    return {
+      builder: knex.raw(
+        `CASE
+      WHEN CAST(:source AS NVARCHAR(50)) LIKE '%:%' THEN
+        CONVERT(NVARCHAR(19), DATEADD(${unit}, :count, :source), 120)
+      ELSE
+        CONVERT(NVARCHAR(10), DATEADD(${unit}, :count, :source), 23)
+      END`,
+        { source, count },
+      ),
+    };
+  },
+  DATETIME_DIFF: async ({ fn, knex, pt }: MapFnArgs) => {
+    const datetime_expr1 = (await fn(pt.arguments[0])).builder;
+    const datetime_expr2 = (await fn(pt.arguments[1])).builder;
+
+    const unit = convertUnits(
+      pt.arguments[2]
+        ? (await fn(pt.arguments[2])).builder.bindings[0]
+        : 'seconds',
+      'mysql',
+    );
+
+    return {
+      builder: knex.raw(
+        `DATEDIFF_BIG(${unit === 'MICROSECOND' ? 'MILLISECOND' : unit}, ?, ?)`,
+        [datetime_expr2, datetime_expr1],
+      ),
+    };
+  },
+  DATESTR: async ({ fn, knex, pt }: MapFnArgs) => {
+    return {
+      builder: knex.raw(`CONVERT(NVARCHAR(10), ?, 23)`, [
+        (await fn(pt.arguments[0])).builder,
+      ]),
+    };
+  },
+  WEEKDAY: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source =
+      pt.arguments[0].type === 'Literal'
+        ? knex.raw('?', [
+            dayjs((await fn(pt.arguments[0])).builder).format('YYYY-MM-DD'),
+          ])
+        : (await fn(pt.arguments[0])).builder;
+    // index from 0 to 6 for Monday to Sunday, independent of DATEFIRST
+    return {
+      builder: knex.raw(
+        `(((DATEPART(WEEKDAY, ?) + @@DATEFIRST + 5) % 7) - ${getWeekdayByText(
+          pt?.arguments[1]?.value,
+        )} % 7 + 7) % 7`,
+        [source],
+      ),
+    };
+  },
+  DAY: async ({ fn, knex, pt }: MapFnArgs) => {
+    return {
+      builder: knex.raw(`DATEPART(DAY, ?)`, [
+        (await fn(pt.arguments[0])).builder,
+      ]),
+    };
+  },
+  MONTH: async ({ fn, knex, pt }: MapFnArgs) => {
+    return {
+      builder: knex.raw(`DATEPART(MONTH, ?)`, [
+        (await fn(pt.arguments[0])).builder,
+      ]),
+    };
+  },
+  YEAR: async ({ fn, knex, pt }: MapFnArgs) => {
+    return {
+      builder: knex.raw(`DATEPART(YEAR, ?)`, [
+        (await fn(pt.arguments[0])).builder,
+      ]),
+    };
+  },
+  HOUR: async ({ fn, knex, pt }: MapFnArgs) => {
+    return {
+      builder: knex.raw(`DATEPART(HOUR, ?)`, [
+        (await fn(pt.arguments[0])).builder,
+      ]),
+    };
+  },
+  DATETIME_FORMAT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const format = getDateTimeFormat(
+      pt.arguments[1]?.value ?? 'YYYY-MM-DD',
+      'mssql',
+    );
+    return {
+      builder: knex.raw(`FORMAT(CAST(? AS DATETIME2), ?, 'en-US')`, [
+        source,
+        format,
+      ]),
+    };
+  },
+  DATETIME_PARSE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const { positions, glob } = getDateTimeParseLayout(pt.arguments[1].value);
+    const part = (
+      token: keyof typeof positions,
+      width: number,
+      fallback: number,
+    ) =>
+      positions[token]
+        ? knex.raw(`CAST(SUBSTRING(?, ${positions[token]}, ${width}) AS INT)`, [
+            source,
+          ])
+        : fallback;
+    // the glob character classes are valid LIKE patterns as well
+    return {
+      builder: knex.raw(
+        `(CASE WHEN ? LIKE ? THEN DATETIME2FROMPARTS(?, ?, ?, ?, ?, ?, 0, 0) END)`,
+        [
+          source,
+          glob.replace(/[%_]/g, '[$&]'),
+          part('YYYY', 4, 1970),
+          part('MM', 2, 1),
+          part('DD', 2, 1),
+          part('HH', 2, 0),
+          part('mm', 2, 0),
+          part('ss', 2, 0),
+        ],
+      ),
+    };
+  },
+  SET_TIMEZONE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const offset = parseUtcOffset(pt.arguments[1].value);
+    if (offset !== null) {
+      return {
+        builder: knex.raw(`DATEADD(MINUTE, ?, ?)`, [offset, source]),
+      };
+    }
+    // AT TIME ZONE only accepts Windows zone names,
+    // so named zones are resolved from the offset periods
+    return {
+      builder: knex.raw(
+        `DATEADD(MINUTE, (SELECT TOP 1 p.o FROM OPENJSON(?) WITH (u CHAR(19) '$.u', o INT '$.o') AS p WHERE p.u > CONVERT(CHAR(19), ?, 120) ORDER BY p.u), ?)`,
+        [
+          JSON.stringify(getTimezoneOffsetPeriods(pt.arguments[1].value)),
+          source,
+          source,
+        ],
+      ),
+    };
+  },
+  JSON_EXTRACT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const needle = (await fn(pt.arguments[1])).builder;
+    // JSON_VALUE returns scalars only, JSON_QUERY objects and arrays
+    return {
+      builder: knex.raw(
+        `CASE WHEN ISJSON(:source) = 1 THEN COALESCE(JSON_VALUE(:source, CONCAT('$', :needle)), JSON_QUERY(:source, CONCAT('$', :needle))) ELSE NULL END`,
+        {
+          source,
+          needle,
+        },
+      ),
+    };
+  },
+};
+
+export default mssql;
@@ -2,7 +2,13 @@ import dayjs from 'dayjs';
 import commonFns from './commonFns';
 import type { MapFnArgs } from '../mapFunctionName';
 import { convertUnits } from '~/helpers/convertUnits';
-import { getWeekdayByText } from '~/helpers/formulaFnHelper';
+import {
+  getDateTimeFormat,
+  getDateTimeParseLayout,
+  getTimezoneOffsetPeriods,
+  parseUtcOffset,
+} from '~/helpers/formulaDateTimeHelper';
+import { getArraySortOrder, getWeekdayByText } from '~/helpers/formulaFnHelper';
 
 const mysql2 = {
   ...commonFns,
@@ -134,6 +140,74 @@ const mysql2 = {
       ),
     };
   },
+  DATETIME_FORMAT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const format = getDateTimeFormat(
+      pt.arguments[1]?.value ?? 'YYYY-MM-DD',
+      'mysql2',
+    );
+    return {
+      builder: knex.raw(`DATE_FORMAT(?, ?)`, [source, format]),
+    };
+  },
+  DATETIME_PARSE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const layout = getDateTimeParseLayout(pt.arguments[1].value);
+    return {
+      builder: knex.raw(
+        `(CASE WHEN ? REGEXP ? THEN CAST(STR_TO_DATE(?, ?) AS DATETIME) END)`,
+        [source, layout.regex, source, layout.mysqlFormat],
+      ),
+    };
+  },
+  SET_TIMEZONE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const offset = parseUtcOffset(pt.arguments[1].value);
+    if (offset !== null) {
+      return {
+        builder: knex.raw(`DATE_ADD(?, INTERVAL ? MINUTE)`, [source, offset]),
+      };
+    }
+    // named zones are resolved from the offset periods instead of CONVERT_TZ
+    // which depends on the time zone tables being loaded in the server
+    return {
+      builder: knex.raw(
+        `DATE_ADD(?, INTERVAL (SELECT p.o FROM JSON_TABLE(?, '$[*]' COLUMNS (u CHAR(19) PATH '$.u', o INT PATH '$.o')) AS p WHERE p.u > DATE_FORMAT(?, '%Y-%m-%d %H:%i:%s') ORDER BY p.u LIMIT 1) MINUTE)`,
+        [
+          source,
+          JSON.stringify(getTimezoneOffsetPeriods(pt.arguments[1].value)),
+          source,
+        ],
+      ),
+    };
+  },
+  WORKDAY: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const count = (await fn(pt.arguments[1])).builder;
+    const holidays = pt.arguments[2]
+      ? (await fn(pt.arguments[2])).builder
+      : knex.raw('NULL');
+    // JSON_TABLE over a repeated string generates the series of days
+    return {
+      builder: knex.raw(
+        `(SELECT CASE WHEN n.v = 0 THEN n.d ELSE (SELECT w.d FROM (SELECT c.d, ROW_NUMBER() OVER (ORDER BY c.k) AS rn FROM (SELECT s.k, DATE_ADD(n.d, INTERVAL IF(n.v < 0, -CAST(s.k AS SIGNED), s.k) DAY) AS d FROM JSON_TABLE(CONCAT('[', REPEAT('0,', ABS(n.v) * 2 + FLOOR(CHAR_LENGTH(n.h) / 3) + 6), '0]'), '$[*]' COLUMNS (k FOR ORDINALITY)) AS s) c WHERE WEEKDAY(c.d) < 5 AND INSTR(n.h, DATE_FORMAT(c.d, '%Y-%m-%d')) = 0) w WHERE w.rn = ABS(n.v)) END FROM (SELECT DATE(?) AS d, TRUNCATE(?, 0) AS v, COALESCE(?, '') AS h) n)`,
+        [source, count, holidays],
+      ),
+    };
+  },
+  NETWORKDAYS: async ({ fn, knex, pt }: MapFnArgs) => {
+    const start = (await fn(pt.arguments[0])).builder;
+    const end = (await fn(pt.arguments[1])).builder;
+    const holidays = pt.arguments[2]
+      ? (await fn(pt.arguments[2])).builder
+      : knex.raw('NULL');
+    return {
+      builder: knex.raw(
+        `(SELECT (SELECT COUNT(*) FROM (SELECT DATE_ADD(n.s, INTERVAL (CAST(s.k AS SIGNED) - 1) * n.dir DAY) AS d FROM JSON_TABLE(CONCAT('[', REPEAT('0,', ABS(DATEDIFF(n.e, n.s))), '0]'), '$[*]' COLUMNS (k FOR ORDINALITY)) AS s) c WHERE WEEKDAY(c.d) < 5 AND INSTR(n.h, DATE_FORMAT(c.d, '%Y-%m-%d')) = 0) * n.dir FROM (SELECT m.*, CASE WHEN m.e < m.s THEN -1 WHEN m.e >= m.s THEN 1 END AS dir FROM (SELECT DATE(?) AS s, DATE(?) AS e, COALESCE(?, '') AS h) m) n)`,
+        [start, end, holidays],
+      ),
+    };
+  },
   REGEX_MATCH: async ({ fn, knex, pt }: MapFnArgs) => {
     const source = (await fn(pt.arguments[0])).builder;
     const pattern = (await fn(pt.arguments[1])).builder;
@@ -205,6 +279,59 @@ END)`,
       ),
     };
   },
+  ARRAYJOIN: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const separator = pt.arguments[1]
+      ? (await fn(pt.arguments[1])).builder
+      : knex.raw('?', [', ']);
+    return {
+      builder: knex.raw(
+        `(SELECT GROUP_CONCAT(t.s ORDER BY t.i SEPARATOR ?) FROM JSON_TABLE(?, '$[*]' COLUMNS (i FOR ORDINALITY, v JSON PATH '$', s TEXT PATH '$')) AS t)`,
+        [separator, source],
+      ),
+    };
+  },
+  ARRAYUNIQUE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(
+        `(SELECT CAST(COALESCE(JSON_ARRAYAGG(u.v), JSON_ARRAY()) AS CHAR) FROM (SELECT t.v, MIN(t.i) AS i FROM JSON_TABLE(?, '$[*]' COLUMNS (i FOR ORDINALITY, v JSON PATH '$', s TEXT PATH '$')) AS t GROUP BY t.v ORDER BY i) u)`,
+        [source],
+      ),
+    };
+  },
+  ARRAYCOMPACT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(
+        `(SELECT CAST(COALESCE(JSON_ARRAYAGG(u.v), JSON_ARRAY()) AS CHAR) FROM (SELECT t.v FROM JSON_TABLE(?, '$[*]' COLUMNS (i FOR ORDINALITY, v JSON PATH '$', s TEXT PATH '$')) AS t WHERE JSON_TYPE(t.v) <> 'NULL' AND t.s <> '' ORDER BY t.i) u)`,
+        [source],
+      ),
+    };
+  },
+  ARRAYSORT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const order = getArraySortOrder(pt);
+    return {
+      builder: knex.raw(
+        `(SELECT CAST(COALESCE(JSON_ARRAYAGG(u.v), JSON_ARRAY()) AS CHAR) FROM (SELECT t.v FROM JSON_TABLE(?, '$[*]' COLUMNS (i FOR ORDINALITY, v JSON PATH '$', s TEXT PATH '$')) AS t ORDER BY t.v ${order}) u)`,
+        [source],
+      ),
+    };
+  },
+  ARRAYSLICE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const start = (await fn(pt.arguments[1])).builder;
+    const end = pt.arguments[2]
+      ? (await fn(pt.arguments[2])).builder
+      : knex.raw('NULL');
+    return {
+      builder: knex.raw(
+        `(SELECT CAST(COALESCE(JSON_ARRAYAGG(u.v), JSON_ARRAY()) AS CHAR) FROM (SELECT t.v FROM JSON_TABLE(?, '$[*]' COLUMNS (i FOR ORDINALITY, v JSON PATH '$', s TEXT PATH '$')) AS t WHERE t.i >= ? AND t.i <= COALESCE(?, t.i) ORDER BY t.i) u)`,
+        [source, start, end],
+      ),
+    };
+  },
 };
 
 export default mysql2;
@@ -3,7 +3,12 @@ import { FormulaDataTypes } from 'nocodb-sdk';
 import commonFns from './commonFns';
 import type { MapFnArgs } from '~/db/mapFunctionName';
 import { convertUnits } from '~/helpers/convertUnits';
-import { getWeekdayByText } from '~/helpers/formulaFnHelper';
+import {
+  getDateTimeFormat,
+  getDateTimeParseLayout,
+  parseUtcOffset,
+} from '~/helpers/formulaDateTimeHelper';
+import { getArraySortOrder, getWeekdayByText } from '~/helpers/formulaFnHelper';
 
 const pg = {
   ...commonFns,
@@ -193,6 +198,70 @@ const pg = {
       ),
     };
   },
+  DATETIME_FORMAT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const format = getDateTimeFormat(
+      pt.arguments[1]?.value ?? 'YYYY-MM-DD',
+      'pg',
+    );
+    return {
+      builder: knex.raw(`TO_CHAR((?)::timestamp, ?)`, [source, format]),
+    };
+  },
+  DATETIME_PARSE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const layout = getDateTimeParseLayout(pt.arguments[1].value);
+    // TO_TIMESTAMP throws on mismatching input, so it is guarded by a regex
+    return {
+      builder: knex.raw(
+        `(CASE WHEN (?)::text ~ ? THEN TO_TIMESTAMP((?)::text, ?)::timestamp END)`,
+        [source, layout.regex, source, layout.pgFormat],
+      ),
+    };
+  },
+  SET_TIMEZONE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const offset = parseUtcOffset(pt.arguments[1].value);
+    return {
+      builder:
+        offset !== null
+          ? knex.raw(`((?)::timestamp + INTERVAL '${offset} minutes')`, [
+              source,
+            ])
+          : knex.raw(`((?)::timestamp AT TIME ZONE 'UTC' AT TIME ZONE ?)`, [
+              source,
+              pt.arguments[1].value,
+            ]),
+    };
+  },
+  WORKDAY: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const count = (await fn(pt.arguments[1])).builder;
+    const holidays = pt.arguments[2]
+      ? (await fn(pt.arguments[2])).builder
+      : knex.raw('NULL');
+    // walk the following (or preceding) days and pick the n-th working day,
+    // the series is long enough to cover the weekends and holidays in between
+    return {
+      builder: knex.raw(
+        `(SELECT CASE WHEN n.v = 0 THEN n.d ELSE (SELECT w.d FROM (SELECT c.d, ROW_NUMBER() OVER (ORDER BY c.k) AS rn FROM (SELECT k, n.d + (CASE WHEN n.v < 0 THEN -k ELSE k END) AS d FROM generate_series(1, ABS(n.v) * 2 + LENGTH(n.h) / 3 + 7) AS k) c WHERE EXTRACT(ISODOW FROM c.d) < 6 AND POSITION(TO_CHAR(c.d, 'YYYY-MM-DD') IN n.h) = 0) w WHERE w.rn = ABS(n.v)) END FROM (SELECT (?)::date AS d, TRUNC((?)::numeric)::integer AS v, COALESCE((?)::text, '') AS h) n)`,
+        [source, count, holidays],
+      ),
+    };
+  },
+  NETWORKDAYS: async ({ fn, knex, pt }: MapFnArgs) => {
+    const start = (await fn(pt.arguments[0])).builder;
+    const end = (await fn(pt.arguments[1])).builder;
+    const holidays = pt.arguments[2]
+      ? (await fn(pt.arguments[2])).builder
+      : knex.raw('NULL');
+    return {
+      builder: knex.raw(
+        `(SELECT (SELECT COUNT(*) FROM generate_series(0, ABS(n.e - n.s)) AS k WHERE EXTRACT(ISODOW FROM n.s + k * n.dir) < 6 AND POSITION(TO_CHAR(n.s + k * n.dir, 'YYYY-MM-DD') IN n.h) = 0) * n.dir FROM (SELECT m.*, CASE WHEN m.e < m.s THEN -1 WHEN m.e >= m.s THEN 1 END AS dir FROM (SELECT (?)::date AS s, (?)::date AS e, COALESCE((?)::text, '') AS h) m) n)`,
+        [start, end, holidays],
+      ),
+    };
+  },
   AND: async (args: MapFnArgs) => {
     const predicates = (args.pt.arguments.map(() => '?') as string[]).join(
       ' AND ',
@@ -413,6 +482,59 @@ END`,
       ),
     };
   },
+  ARRAYJOIN: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const separator = pt.arguments[1]
+      ? (await fn(pt.arguments[1])).builder
+      : knex.raw('?', [', ']);
+    return {
+      builder: knex.raw(
+        `(SELECT string_agg(t.v, (?)::text ORDER BY t.i) FROM jsonb_array_elements_text((?)::jsonb) WITH ORDINALITY AS t(v, i))`,
+        [separator, source],
+      ),
+    };
+  },
+  ARRAYUNIQUE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(
+        `(SELECT COALESCE(jsonb_agg(t.v ORDER BY t.i), '[]')::text FROM (SELECT e.v, MIN(e.i) AS i FROM jsonb_array_elements((?)::jsonb) WITH ORDINALITY AS e(v, i) GROUP BY e.v) t)`,
+        [source],
+      ),
+    };
+  },
+  ARRAYCOMPACT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(
+        `(SELECT COALESCE(jsonb_agg(t.v ORDER BY t.i), '[]')::text FROM jsonb_array_elements((?)::jsonb) WITH ORDINALITY AS t(v, i) WHERE t.v <> 'null'::jsonb AND t.v <> '""'::jsonb)`,
+        [source],
+      ),
+    };
+  },
+  ARRAYSORT: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const order = getArraySortOrder(pt);
+    return {
+      builder: knex.raw(
+        `(SELECT COALESCE(jsonb_agg(t.v ORDER BY t.v ${order}), '[]')::text FROM jsonb_array_elements((?)::jsonb) AS t(v))`,
+        [source],
+      ),
+    };
+  },
+  ARRAYSLICE: async ({ fn, knex, pt }: MapFnArgs) => {
+    const source = (await fn(pt.arguments[0])).builder;
+    const start = (await fn(pt.arguments[1])).builder;
+    const end = pt.arguments[2]
+      ? (await fn(pt.arguments[2])).builder
+      : knex.raw('NULL');
+    return {
+      builder: knex.raw(
+        `(SELECT COALESCE(jsonb_agg(t.v ORDER BY t.i), '[]')::text FROM jsonb_array_elements((?)::jsonb) WITH ORDINALITY AS t(v, i) WHERE t.i >= ? AND t.i <= COALESCE(?, t.i))`,
+        [source, start, end],
+      ),
+    };
+  },
 };
 
 export default pg;
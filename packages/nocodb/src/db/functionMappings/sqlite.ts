@@ -3,7 +3,13 @@ import { convertToTargetFormat, getDateFormat } from 'nocodb-sdk';
 import commonFns from './commonFns';
 import type { MapFnArgs } from '../mapFunctionName';
 import { convertUnits } from '~/helpers/convertUnits';
-import { getWeekdayByText } from '~/helpers/formulaFnHelper';
+import {
+  getDateTimeParseLayout,
+  getSqliteDateTimeFormatExpr,
+  getTimezoneOffsetPeriods,
+  parseUtcOffset,
+} from '~/helpers/formulaDateTimeHelper';
+import { getArraySortOrder, getWeekdayByText } from '~/helpers/formulaFnHelper';
 
 const sqlite3 = {
   ...commonFns,
@@ -227,6 +233,91 @@ const sqlite3 = {
       ),
     };
   },
+  async DATETIME_FORMAT({ fn, knex, pt }: MapFnArgs) {
+    const source = (await fn(pt.arguments[0])).builder;
+    const { sql, bindings } = getSqliteDateTimeFormatExpr(
+      pt.arguments[1]?.value ?? 'YYYY-MM-DD',
+    );
+    return {
+      builder: knex.raw(
+        `(${sql})`,
+        bindings.map((binding) => binding ?? source),
+      ),
+    };
+  },
+  async DATETIME_PARSE({ fn, knex, pt }: MapFnArgs) {
+    const source = (await fn(pt.arguments[0])).builder;
+    const { positions, glob } = getDateTimeParseLayout(pt.arguments[1].value);
+    const part = (
+      token: keyof typeof positions,
+      width: number,
+      fallback: string,
+    ) =>
+      positions[token]
+        ? knex.raw(`substr(?, ${positions[token]}, ${width})`, [source])
+        : fallback;
+    return {
+      builder: knex.raw(
+        `(CASE WHEN ? GLOB ? THEN datetime(printf('%s-%s-%s %s:%s:%s', ?, ?, ?, ?, ?, ?)) END)`,
+        [
+          source,
+          glob,
+          part('YYYY', 4, '1970'),
+          part('MM', 2, '01'),
+          part('DD', 2, '01'),
+          part('HH', 2, '00'),
+          part('mm', 2, '00'),
+          part('ss', 2, '00'),
+        ],
+      ),
+    };
+  },
+  async SET_TIMEZONE({ fn, knex, pt }: MapFnArgs) {
+    const source = (await fn(pt.arguments[0])).builder;
+    const offset = parseUtcOffset(pt.arguments[1].value);
+    if (offset !== null) {
+      return {
+        builder: knex.raw(`datetime(?, ? || ' minutes')`, [source, offset]),
+      };
+    }
+    return {
+      builder: knex.raw(
+        `datetime(?, (SELECT json_extract(p.value, '$.o') FROM json_each(?) AS p WHERE json_extract(p.value, '$.u') > datetime(?) ORDER BY p.key LIMIT 1) || ' minutes')`,
+        [
+          source,
+          JSON.stringify(getTimezoneOffsetPeriods(pt.arguments[1].value)),
+          source,
+        ],
+      ),
+    };
+  },
+  async WORKDAY({ fn, knex, pt }: MapFnArgs) {
+    const source = (await fn(pt.arguments[0])).builder;
+    const count = (await fn(pt.arguments[1])).builder;
+    const holidays = pt.arguments[2]
+      ? (await fn(pt.arguments[2])).builder
+      : knex.raw('NULL');
+    // json_each over a string of zeroblob length generates the series of days
+    return {
+      builder: knex.raw(
+        `(CASE WHEN CAST(? AS INTEGER) = 0 THEN date(?) ELSE (SELECT w.d FROM (SELECT c.d, ROW_NUMBER() OVER (ORDER BY c.k) AS rn FROM (SELECT s.key + 1 AS k, date(?, (CASE WHEN CAST(? AS INTEGER) < 0 THEN -(s.key + 1) ELSE s.key + 1 END) || ' days') AS d FROM json_each('[' || replace(hex(zeroblob(ABS(CAST(? AS INTEGER)) * 2 + length(COALESCE(?, '')) / 3 + 6)), '00', '0,') || '0]') AS s) c WHERE strftime('%w', c.d) NOT IN ('0', '6') AND instr(COALESCE(?, ''), c.d) = 0) w WHERE w.rn = ABS(CAST(? AS INTEGER))) END)`,
+        [count, source, source, count, count, holidays, holidays, count],
+      ),
+    };
+  },
+  async NETWORKDAYS({ fn, knex, pt }: MapFnArgs) {
+    const start = (await fn(pt.arguments[0])).builder;
+    const end = (await fn(pt.arguments[1])).builder;
+    const holidays = pt.arguments[2]
+      ? (await fn(pt.arguments[2])).builder
+      : knex.raw('NULL');
+    return {
+      builder: knex.raw(
+        `((SELECT COUNT(*) FROM (SELECT date(?, (CASE WHEN date(?) < date(?) THEN -s.key ELSE s.key END) || ' days') AS d FROM json_each('[' || replace(hex(zeroblob(ABS(julianday(date(?)) - julianday(date(?))))), '00', '0,') || '0]') AS s) c WHERE strftime('%w', c.d) NOT IN ('0', '6') AND instr(COALESCE(?, ''), c.d) = 0) * (CASE WHEN date(?) < date(?) THEN -1 WHEN date(?) >= date(?) THEN 1 END))`,
+        [start, end, start, end, start, holidays, end, start, end, start],
+      ),
+    };
+  },
   AND: async (args: MapFnArgs) => {
     const predicates = (args.pt.arguments.map(() => '?') as string[]).join(
       ' AND ',
@@ -286,6 +377,59 @@ const sqlite3 = {
       ),
     };
   },
+  async ARRAYJOIN({ fn, knex, pt }: MapFnArgs) {
+    const source = (await fn(pt.arguments[0])).builder;
+    const separator = pt.arguments[1]
+      ? (await fn(pt.arguments[1])).builder
+      : knex.raw('?', [', ']);
+    return {
+      builder: knex.raw(
+        `(SELECT group_concat(t.value, ?) FROM (SELECT value FROM json_each(?) ORDER BY key) t)`,
+        [separator, source],
+      ),
+    };
+  },
+  async ARRAYUNIQUE({ fn, knex, pt }: MapFnArgs) {
+    const source = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(
+        `(SELECT json_group_array(t.value) FROM (SELECT value, MIN(key) AS k FROM json_each(?) GROUP BY value ORDER BY k) t)`,
+        [source],
+      ),
+    };
+  },
+  async ARRAYCOMPACT({ fn, knex, pt }: MapFnArgs) {
+    const source = (await fn(pt.arguments[0])).builder;
+    return {
+      builder: knex.raw(
+        `(SELECT json_group_array(t.value) FROM (SELECT value FROM json_each(?) WHERE value IS NOT NULL AND value <> '' ORDER BY key) t)`,
+        [source],
+      ),
+    };
+  },
+  async ARRAYSORT({ fn, knex, pt }: MapFnArgs) {
+    const source = (await fn(pt.arguments[0])).builder;
+    const order = getArraySortOrder(pt);
+    return {
+      builder: knex.raw(
+        `(SELECT json_group_array(t.value) FROM (SELECT value FROM json_each(?) ORDER BY value ${order}) t)`,
+        [source],
+      ),
+    };
+  },
+  async ARRAYSLICE({ fn, knex, pt }: MapFnArgs) {
+    const source = (await fn(pt.arguments[0])).builder;
+    const start = (await fn(pt.arguments[1])).builder;
+    const end = pt.arguments[2]
+      ? (await fn(pt.arguments[2])).builder
+      : knex.raw('NULL');
+    return {
+      builder: knex.raw(
+        `(SELECT json_group_array(t.value) FROM (SELECT value FROM json_each(?) WHERE key + 1 >= ? AND key + 1 <= COALESCE(?, key + 1) ORDER BY key) t)`,
+        [source, start, end],
+      ),
+    };
+  },
 };
 
 export default sqlite3;
@@ -12,6 +12,9 @@ import type { XKnex } from '~/db/CustomKnex';
 import { RelationManager } from '~/db/relation-manager';
 import { Model } from '~/models';
 import formulaQueryBuilderv2 from '~/db/formulav2/formulaQueryBuilderv2';
+import conditionV2 from '~/db/conditionV2';
+
+const ROLLUP_SEPARATOR = ', ';
 
 export default async function ({
   baseModelSqlv2,
@@ -48,8 +51,26 @@ export default async function ({
     model: childModel,
     dbDriver: knex,
   });
+  // base model of the table aliased as `__nc_rollup`
+  const refBaseModel = RelationManager.isRelationReversed(
+    relationColumn,
+    relationColumnOption,
+  )
+    ? parentBaseModel
+    : childBaseModel;
+
+  const applyFilters = async (qb: Knex.QueryBuilder) => {
+    const filters = await columnOptions.getFilters(context);
+    if (!filters?.length) return;
+
+    await conditionV2(refBaseModel, filters, qb, refTableAlias);
+  };
 
-  const applyFunction = async (qb: any) => {
+  // resolves to the builder wrapped in an object, a query builder is thenable
+  // and resolving to it directly would execute the correlated subquery
+  const applyFunction = async (
+    qb: any,
+  ): Promise<{ builder: Knex.QueryBuilder }> => {
     let selectColumnName = knex.raw('??.??', [
       refTableAlias,
       rollupColumn.column_name,
@@ -60,12 +81,7 @@ export default async function ({
       >(context);
 
       const formulaQb = await formulaQueryBuilderv2({
-        baseModel: RelationManager.isRelationReversed(
-          relationColumn,
-          relationColumnOption,
-        )
-          ? parentBaseModel
-          : childBaseModel,
+        baseModel: refBaseModel,
         tree: formulOption.formula,
         model: RelationManager.isRelationReversed(
           relationColumn,
@@ -94,12 +110,7 @@ export default async function ({
       // we use formula to generate query that can represent the column
       // to prevent duplicate logic
       const formulaQb = await formulaQueryBuilderv2({
-        baseModel: RelationManager.isRelationReversed(
-          relationColumn,
-          relationColumnOption,
-        )
-          ? parentBaseModel
-          : childBaseModel,
+        baseModel: refBaseModel,
         tree: '{{' + rollupColumn.id + '}}',
         model: RelationManager.isRelationReversed(
           relationColumn,
@@ -135,7 +146,115 @@ export default async function ({
       qb[columnOptions.rollup_function as string]?.(
         knex.raw('??::integer', [selectColumnName]),
       );
-      return;
+      return { builder: qb };
+    }
+
+    switch (columnOptions.rollup_function) {
+      case 'concat':
+      case 'arrayUnique': {
+        const distinct = columnOptions.rollup_function === 'arrayUnique';
+        if (baseModelSqlv2.isPg || baseModelSqlv2.isDuckdb) {
+          return {
+            builder: qb.select(
+              knex.raw(
+                `string_agg(${distinct ? 'DISTINCT ' : ''}CAST(? AS TEXT), ?)`,
+                [selectColumnName, ROLLUP_SEPARATOR],
+              ),
+            ),
+          };
+        }
+        if (baseModelSqlv2.isMySQL) {
+          return {
+            builder: qb.select(
+              knex.raw(
+                `GROUP_CONCAT(${
+                  distinct ? 'DISTINCT ' : ''
+                }? SEPARATOR '${ROLLUP_SEPARATOR}')`,
+                [selectColumnName],
+              ),
+            ),
+          };
+        }
+        if (baseModelSqlv2.isMssql && !distinct) {
+          return {
+            builder: qb.select(
+              knex.raw(`STRING_AGG(CAST(? AS NVARCHAR(MAX)), ?)`, [
+                selectColumnName,
+                ROLLUP_SEPARATOR,
+              ]),
+            ),
+          };
+        }
+        if (!distinct) {
+          return {
+            builder: qb.select(
+              knex.raw(`group_concat(?, ?)`, [
+                selectColumnName,
+                ROLLUP_SEPARATOR,
+              ]),
+            ),
+          };
+        }
+        // sqlite doesn't support a custom separator along with distinct and
+        // mssql STRING_AGG has no distinct, so distinct values are picked in
+        // a derived table
+        return {
+          builder: knex
+            .select(
+              knex.raw(
+                baseModelSqlv2.isMssql
+                  ? `STRING_AGG(CAST(?? AS NVARCHAR(MAX)), ?)`
+                  : `group_concat(??, ?)`,
+                ['__nc_rollup_values.value', ROLLUP_SEPARATOR],
+              ),
+            )
+            .from(
+              qb
+                .distinct(knex.raw('? as ??', [selectColumnName, 'value']))
+                .as('__nc_rollup_values'),
+            ),
+        };
+      }
+      case 'median': {
+        if (baseModelSqlv2.isPg || baseModelSqlv2.isDuckdb) {
+          return {
+            builder: qb.select(
+              knex.raw(`percentile_cont(0.5) WITHIN GROUP (ORDER BY ?)`, [
+                selectColumnName,
+              ]),
+            ),
+          };
+        }
+        // number the non-null values and average the middle one or two rows
+        return {
+          builder: knex
+            .select(
+              knex.raw(
+                // AVG of integers is an integer in mssql
+                baseModelSqlv2.isMssql ? 'AVG(CAST(?? AS FLOAT))' : 'AVG(??)',
+                ['__nc_rollup_values.value'],
+              ),
+            )
+            .from(
+              qb
+                .select(
+                  knex.raw('? as ??', [selectColumnName, 'value']),
+                  knex.raw('ROW_NUMBER() OVER (ORDER BY ?) as ??', [
+                    selectColumnName,
+                    'rn',
+                  ]),
+                  knex.raw('COUNT(*) OVER () as ??', ['cnt']),
+                )
+                .whereRaw('? IS NOT NULL', [selectColumnName])
+                .as('__nc_rollup_values'),
+            )
+            .whereRaw('?? * 2 BETWEEN ?? AND ?? + 2', [
+              '__nc_rollup_values.rn',
+              '__nc_rollup_values.cnt',
+              '__nc_rollup_values.cnt',
+            ]),
+        };
+      }
     }
 
     if (
@@ -151,6 +270,7 @@ export default async function ({
     } else {
       qb[columnOptions.rollup_function as string]?.(selectColumnName);
     }
+    return { builder: qb };
   };
 
   switch (relationColumnOption.type) {
@@ -169,11 +289,9 @@ export default async function ({
         '=',
         knex.ref(`${refTableAlias}.${childCol.column_name}`),
       );
-      await applyFunction(queryBuilder);
+      await applyFilters(queryBuilder);
 
-      return {
-        builder: queryBuilder,
-      };
+      return await applyFunction(queryBuilder);
     }
 
     case RelationTypes.ONE_TO_ONE: {
@@ -192,10 +310,9 @@ export default async function ({
         knex.ref(`${refTableAlias}.${childCol.column_name}`),
       );
 
-      await applyFunction(qb);
-      return {
-        builder: qb,
-      };
+      await applyFilters(qb);
+
+      return await applyFunction(qb);
     }
 
     case RelationTypes.MANY_TO_MANY: {
@@ -244,11 +361,9 @@ export default async function ({
           ),
         );
 
-      await applyFunction(qb);
+      await applyFilters(qb);
 
-      return {
-        builder: qb,
-      };
+      return await applyFunction(qb);
     }
 
     default:
@@ -0,0 +1,162 @@
+import { KM_PER_LATITUDE_DEGREE } from 'nocodb-sdk';
+import type { GeoBoundingBox, GeoPoint } from 'nocodb-sdk';
+import type { Knex } from 'knex';
+import type CustomKnex from '~/db/CustomKnex';
+import { NcError } from '~/helpers/catchError';
+
+// size of a cluster bucket on the screen, in pixels of a 256px map tile
+const GEO_CLUSTER_CELL_SIZE_PX = 64;
+
+export const GEO_CLUSTER_MAX_ZOOM = 22;
+
+type GeoField = string | Knex.Raw | Knex.RawBuilder | Knex.QueryBuilder;
+
+/**
+ * Builds the expressions extracting the latitude and longitude
+ * from a GeoData value, which is stored as `lat;lng` text
+ */
+export function getGeoDataCoordinates(
+  knex: CustomKnex | Knex,
+  field: GeoField,
+): { latitude: Knex.Raw; longitude: Knex.Raw } {
+  const clientType = (knex as CustomKnex).clientType?.() ?? '';
+
+  if (clientType === 'pg') {
+    return {
+      latitude: knex.raw(
+        `CAST(NULLIF(split_part(??, ';', 1), '') AS DOUBLE PRECISION)`,
+        [field],
+      ),
+      longitude: knex.raw(
+        `CAST(NULLIF(split_part(??, ';', 2), '') AS DOUBLE PRECISION)`,
+        [field],
+      ),
+    };
+  } else if (clientType === 'duckdb') {
+    return {
+      latitude: knex.raw(`TRY_CAST(split_part(??, ';', 1) AS DOUBLE)`, [field]),
+      longitude: knex.raw(`TRY_CAST(split_part(??, ';', 2) AS DOUBLE)`, [
+        field,
+      ]),
+    };
+  } else if (clientType.startsWith('mysql')) {
+    return {
+      latitude: knex.raw(
+        `CAST(SUBSTRING_INDEX(??, ';', 1) AS DECIMAL(12, 8))`,
+        [field],
+      ),
+      longitude: knex.raw(
+        `CAST(SUBSTRING_INDEX(??, ';', -1) AS DECIMAL(12, 8))`,
+        [field],
+      ),
+    };
+  } else if (clientType === 'sqlite3') {
+    return {
+      latitude: knex.raw(`CAST(substr(??, 1, instr(??, ';') - 1) AS REAL)`, [
+        field,
+        field,
+      ]),
+      longitude: knex.raw(`CAST(substr(??, instr(??, ';') + 1) AS REAL)`, [
+        field,
+        field,
+      ]),
+    };
+  } else if (clientType === 'mssql') {
+    return {
+      latitude: knex.raw(
+        `TRY_CAST(LEFT(??, NULLIF(CHARINDEX(';', ??), 0) - 1) AS FLOAT)`,
+        [field, field],
+      ),
+      longitude: knex.raw(
+        `TRY_CAST(SUBSTRING(??, NULLIF(CHARINDEX(';', ??), 0) + 1, 50) AS FLOAT)`,
+        [field, field],
+      ),
+    };
+  }
+
+  NcError.notImplemented(`Geo filters and clustering for ${clientType}`);
+}
+
+/**
+ * Condition matching the points within the radius around the centre. Distances
+ * use an equirectangular approximation (see `isGeoPointWithinRadius` in the sdk),
+ * which only needs arithmetic and hence works the same across the databases.
+ */
+export function geoWithinRadiusCondition(
+  knex: CustomKnex | Knex,
+  field: GeoField,
+  { lat, lng, radius }: GeoPoint & { radius: number },
+) {
+  const { latitude, longitude } = getGeoDataCoordinates(knex, field);
+  const lngScale = Math.cos((lat * Math.PI) / 180);
+
+  return knex.raw(`(? - ?) * (? - ?) + (? - ?) * (? - ?) * ? <= ?`, [
+    latitude,
+    lat,
+    latitude,
+    lat,
+    longitude,
+    lng,
+    longitude,
+    lng,
+    lngScale * lngScale,
+    Math.pow(radius / KM_PER_LATITUDE_DEGREE, 2),
+  ]);
+}
+
+export function geoWithinBoundingBoxCondition(
+  knex: CustomKnex | Knex,
+  field: GeoField,
+  { minLat, minLng, maxLat, maxLng }: GeoBoundingBox,
+) {
+  const { latitude, longitude } = getGeoDataCoordinates(knex, field);
+
+  // the box crosses the antimeridian if its west edge is east of its east edge
+  return minLng <= maxLng
+    ? knex.raw(`? BETWEEN ? AND ? AND ? BETWEEN ? AND ?`, [
+        latitude,
+        minLat,
+        maxLat,
+        longitude,
+        minLng,
+        maxLng,
+      ])
+    : knex.raw(`? BETWEEN ? AND ? AND (? >= ? OR ? <= ?)`, [
+        latitude,
+        minLat,
+        maxLat,
+        longitude,
+        minLng,
+        longitude,
+        maxLng,
+      ]);
+}
+
+/**
+ * Size of a cluster bucket in degrees at the given map zoom level
+ */
+export function getGeoClusterCellSize(zoom: number) {
+  return (360 / (256 * Math.pow(2, zoom))) * GEO_CLUSTER_CELL_SIZE_PX;
+}
+
+/**
+ * Index of the grid cell a coordinate falls into. The coordinate is shifted by
+ * `offset` to keep it positive, so that truncation can be used as floor on sqlite.
+ */
+export function geoClusterCellIndex(
+  knex: CustomKnex | Knex,
+  coordinate: Knex.Raw,
+  offset: number,
+  cellSize: number,
+) {
+  const clientType = (knex as CustomKnex).clientType?.() ?? '';
+
+  if (clientType === 'sqlite3') {
+    return knex.raw(`CAST((? + ?) / ? AS INTEGER)`, [
+      coordinate,
+      offset,
+      cellSize,
+    ]);
+  }
+  return knex.raw(`FLOOR((? + ?) / ?)`, [coordinate, offset, cellSize]);
+}
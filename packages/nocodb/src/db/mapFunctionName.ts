@@ -6,6 +6,8 @@ import mysql from '~/db/functionMappings/mysql';
 import pg from '~/db/functionMappings/pg';
 import sqlite from '~/db/functionMappings/sqlite';
 import databricks from '~/db/functionMappings/databricks';
+import mssql from '~/db/functionMappings/mssql';
+import duckdb from '~/db/functionMappings/duckdb';
 
 export interface MapFnArgs {
   pt: any;
@@ -37,6 +39,12 @@ const mapFunctionName = async (args: MapFnArgs): Promise<any> => {
     case 'databricks':
       val = databricks[name] || name;
       break;
+    case 'mssql':
+      val = mssql[name] || name;
+      break;
+    case 'duckdb':
+      val = duckdb[name] || name;
+      break;
   }
 
   if (typeof val === 'function') {
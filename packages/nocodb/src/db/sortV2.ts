@@ -9,6 +9,7 @@ import genRollupSelectv2 from '~/db/genRollupSelectv2';
 import { sanitize } from '~/helpers/sqlSanitize';
 import generateLookupSelectQuery from '~/db/generateLookupSelectQuery';
 import { getRefColumnIfAlias } from '~/helpers';
+import { verifySortColumnNotHidden } from '~/helpers/columnPermissionHelpers';
 
 export default async function sortV2(
   baseModelSqlv2: BaseModelSqlv2,
@@ -32,16 +33,15 @@ export default async function sortV2(
     } else {
       sort = new Sort(_sort);
     }
-    const column = await getRefColumnIfAlias(
-      context,
-      await sort.getColumn(context),
-    );
+    const sortColumn = await sort.getColumn(context);
+    const column = await getRefColumnIfAlias(context, sortColumn);
     if (!column) {
       if (throwErrorIfInvalid) {
         NcError.get(context).fieldNotFound(sort.fk_column_id);
       }
       continue;
     }
+    await verifySortColumnNotHidden(context, sort, sortColumn);
     const model = await column.getModel(context);
 
     const nulls = sort.direction === 'desc' ? 'LAST' : 'FIRST';
@@ -194,6 +194,12 @@ export default async function sortV2(
             ]);
           } else if (knex.clientType() === 'sqlite3') {
             col = knex.raw(`json_extract(??, '$.value')`, [column.column_name]);
+          } else if (knex.clientType() === 'mssql') {
+            col = knex.raw(`JSON_VALUE(??, '$.value')`, [column.column_name]);
+          } else if (knex.clientType() === 'duckdb') {
+            col = knex.raw(`json_extract_string(??, '$.value')`, [
+              column.column_name,
+            ]);
           }
 
           qb.orderBy(col, sort.direction || 'asc', nulls);
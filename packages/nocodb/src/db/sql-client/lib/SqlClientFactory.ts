@@ -7,6 +7,8 @@ import PgClient from '~/db/sql-client/lib/pg/PgClient';
 import YugabyteClient from '~/db/sql-client/lib/pg/YugabyteClient';
 import TidbClient from '~/db/sql-client/lib/mysql/TidbClient';
 import VitessClient from '~/db/sql-client/lib/mysql/VitessClient';
+import MssqlClient from '~/db/sql-client/lib/mssql/MssqlClient';
+import DuckdbClient from '~/db/sql-client/lib/duckdb/DuckdbClient';
 
 export class SqlClientFactory {
   static create(connectionConfig) {
@@ -30,6 +32,10 @@ export class SqlClientFactory {
       if (connectionConfig.meta.dbtype === 'yugabyte')
         return new YugabyteClient(connectionConfig);
       return new PgClient(connectionConfig);
+    } else if (connectionConfig.client === 'mssql') {
+      return new MssqlClient(connectionConfig);
+    } else if (connectionConfig.client === 'duckdb') {
+      return new DuckdbClient(connectionConfig);
     }
 
     throw new Error('Database not supported');
@@ -0,0 +1,566 @@
+import knex from 'knex';
+import KnexClient from '~/db/sql-client/lib/KnexClient';
+import Client_DuckDB, {
+  validateDuckdbFiles,
+} from '~/db/sql-client/lib/duckdb/DuckdbDialect';
+import Debug from '~/db/util/Debug';
+import Result from '~/db/util/Result';
+
+const log = new Debug('DuckdbClient');
+
+/**
+ * Read-mostly client for local parquet / csv files queried through DuckDB.
+ *
+ * Each entry of `connection.files` is exposed as a view in the `main` schema,
+ * optionally on top of a persistent database given by `connection.filename`.
+ */
+class DuckdbClient extends KnexClient {
+  constructor(connectionConfig) {
+    super({
+      ...connectionConfig,
+      knex:
+        connectionConfig.knex ||
+        knex({
+          ...connectionConfig,
+          client: Client_DuckDB,
+          useNullAsDefault: true,
+        }),
+    });
+    this._version = {};
+  }
+
+  get schema() {
+    return 'main';
+  }
+
+  /**
+   *
+   *
+   * @param {Object} args
+   * @returns {Object} result
+   * @returns {Number} code
+   * @returns {String} message
+   */
+  async testConnection(args: any = {}) {
+    const _func = this.testConnection.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      validateDuckdbFiles(this.connectionConfig?.connection?.files);
+      await this.raw('SELECT 1+1 as data');
+    } catch (e) {
+      log.ppe(e);
+      result.code = -1;
+      result.message = e.message;
+    } finally {
+      log.api(`${_func}:result:`, result);
+    }
+
+    return result;
+  }
+
+  getKnexDataTypes() {
+    const result = new Result();
+
+    result.data.list = [
+      'bigint',
+      'blob',
+      'boolean',
+      'date',
+      'decimal',
+      'double',
+      'float',
+      'hugeint',
+      'integer',
+      'interval',
+      'json',
+      'smallint',
+      'time',
+      'timestamp',
+      'timestamp with time zone',
+      'tinyint',
+      'ubigint',
+      'uinteger',
+      'usmallint',
+      'utinyint',
+      'uuid',
+      'varchar',
+    ];
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} args
+   * @returns {Object} result
+   * @returns {Number} code
+   * @returns {String} message
+   * @returns {Object} object - {version, primary, major, minor}
+   */
+  async version(args: any = {}) {
+    const _func = this.version.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      result.data.object = {};
+      const rows = await this.sqlClient.raw(`SELECT version() as version`);
+      // version is reported as `v1.1.3`
+      const version = rows[0].version.replace(/^v/, '').split('.');
+      this._version.version = version.join('.');
+      this._version.primary = version[0];
+      this._version.major = version[1];
+      this._version.minor = version[2];
+      this._version.key = version[0] + version[1];
+      result.data.object = this._version;
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    } finally {
+      log.api(`${_func} :result: %o`, result);
+    }
+    return result;
+  }
+
+  /**
+   * Attached files are read in place, there is nothing to create - only
+   * verifies that they are present.
+   *
+   * @param {Object} args
+   * @returns {Result}
+   */
+  async createDatabaseIfNotExists(args: any = {}) {
+    const _func = this.createDatabaseIfNotExists.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      validateDuckdbFiles(this.connectionConfig?.connection?.files);
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+    return result;
+  }
+
+  async dropDatabase(args) {
+    const _func = this.dropDatabase.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    // source files are never removed
+    await this.sqlClient.destroy();
+
+    log.api(`${_func}: result`, result);
+    return result;
+  }
+
+  async createTableIfNotExists(args) {
+    const _func = this.createTableIfNotExists.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    // duckdb sources are read only, migrations are not tracked in them
+    log.debug(`skipping creation of ${args.tn}`);
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  async hasTable(args: any = {}) {
+    const _func = this.hasTable.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      const rows = await this.sqlClient.raw(
+        `SELECT table_name as tn FROM information_schema.tables WHERE table_schema = ? AND table_name = ?`,
+        [this.schema, args.tn],
+      );
+      result.data.value = rows.length > 0;
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  async hasDatabase(args: any = {}) {
+    const _func = this.hasDatabase.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    result.data.value = true;
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  async databaseList(args: any = {}) {
+    const _func = this.databaseList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      result.data.list = await this.sqlClient.raw(
+        `SELECT database_name FROM duckdb_databases() WHERE NOT internal ORDER BY database_name`,
+      );
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   * Lists tables and views, attached files show up as (temporary) views.
+   *
+   * @param {Object} - args - for future reasons
+   * @returns {Object[]} - tables
+   * @property {String} - tables[].tn
+   */
+  async tableList(args: any = {}) {
+    const _func = this.tableList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      result.data.list = await this.sqlClient.raw(
+        `SELECT DISTINCT table_schema as ts, table_name as tn
+              FROM information_schema.tables
+              WHERE table_schema = ?
+              ORDER BY table_name`,
+        [this.schema],
+      );
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  async schemaList(args: any = {}) {
+    const _func = this.schemaList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    result.data.list = [{ schema_name: this.schema }];
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args - Input arguments
+   * @param {Object} - args.tn -
+   * @returns {Object[]} - columns
+   * @property {String} - columns[].tn
+   * @property {String} - columns[].cn
+   * @property {String} - columns[].dt
+   * @property {String} - columns[].dtx
+   * @property {String} - columns[].np
+   * @property {String} - columns[].ns -
+   * @property {String} - columns[].clen -
+   * @property {String} - columns[].dp -
+   * @property {String} - columns[].cop -
+   * @property {String} - columns[].pk -
+   * @property {String} - columns[].nrqd -
+   * @property {String} - columns[].not_nullable -
+   * @property {String} - columns[].un -
+   * @property {String} - columns[].ai -
+   * @property {String} - columns[].unique -
+   * @property {String} - columns[].cdf -
+   * @property {String} - columns[].cc -
+   * @property {String} - columns[].csn -
+   */
+  async columnList(args: any = {}) {
+    const _func = this.columnList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      const rows = await this.sqlClient.raw(
+        `SELECT
+              c.table_name as tn,
+              c.column_name as cn,
+              c.data_type as dt,
+              c.character_maximum_length as clen,
+              c.numeric_precision as np,
+              c.numeric_scale as ns,
+              c.ordinal_position as cop,
+              c.is_nullable as nrqd,
+              c.column_default as cdf,
+              (SELECT COUNT(*)
+                  FROM duckdb_constraints() dc
+                  WHERE dc.schema_name = c.table_schema
+                    AND dc.table_name = c.table_name
+                    AND dc.constraint_type = 'PRIMARY KEY'
+                    AND list_contains(dc.constraint_column_names, c.column_name)) as is_pk,
+              (SELECT COUNT(*)
+                  FROM duckdb_constraints() dc
+                  WHERE dc.schema_name = c.table_schema
+                    AND dc.table_name = c.table_name
+                    AND dc.constraint_type = 'UNIQUE'
+                    AND list_contains(dc.constraint_column_names, c.column_name)) as is_unique
+            FROM information_schema.columns c
+            WHERE c.table_schema = ? AND c.table_name = ?
+            ORDER BY c.ordinal_position`,
+        [this.schema, args.tn],
+      );
+
+      const columns = [];
+
+      for (const row of rows) {
+        const column: any = {};
+
+        // strip precision from parameterised types, eg: DECIMAL(18,3)
+        const dt = row.dt.replace(/\(.*\)$/, '').toLowerCase();
+
+        column.tn = row.tn;
+        column.cn = row.cn;
+        column.cno = row.cn;
+        column.dt = dt;
+        column.np = row.np;
+        column.ns = row.ns;
+        column.clen = row.clen;
+        column.cop = row.cop;
+        column.dtx = dt;
+        column.pk = row.is_pk > 0;
+
+        column.nrqd = row.nrqd !== 'NO';
+        column.not_nullable = !column.nrqd;
+        column.rqd = !column.nrqd;
+
+        column.un = /^u(tiny|small|big)?int(eger)?$/.test(dt);
+        // there are no auto increment columns, sequences are used instead
+        column.ai = /^nextval\(/i.test(row.cdf || '');
+        column.unique = row.is_unique > 0;
+
+        column.cdf = column.ai ? null : row.cdf;
+        if (column.cdf && /^'[\s\S]*'$/.test(column.cdf)) {
+          column.cdf = column.cdf.replace(/^'|'$/g, '').replace(/''/g, "'");
+        }
+
+        column.dtxp = column.clen || (dt === 'decimal' ? row.np : null);
+        column.dtxs = dt === 'decimal' ? row.ns : null;
+        column.data_type_custom = row.dt;
+
+        columns.push(column);
+      }
+
+      result.data.list = columns;
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args - Input arguments
+   * @param {Object} - args.tn -
+   * @returns {Object[]} - indexes
+   * @property {String} - indexes[].cn -
+   * @property {String} - indexes[].key_name -
+   * @property {String} - indexes[].non_unique -
+   * @property {String} - indexes[].seq_in_index -
+   * @property {String} - indexes[].primarykey -
+   */
+  async indexList(args: any = {}) {
+    const _func = this.indexList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      // duckdb_indexes() doesn't expose the indexed columns, use constraints
+      const rows = await this.sqlClient.raw(
+        `SELECT
+              UNNEST(constraint_column_names) as cn,
+              constraint_name as key_name,
+              constraint_type = 'PRIMARY KEY' as primarykey,
+              0 as non_unique
+            FROM duckdb_constraints()
+            WHERE schema_name = ? AND table_name = ?
+              AND constraint_type IN ('PRIMARY KEY', 'UNIQUE')`,
+        [this.schema, args.tn],
+      );
+
+      let seq = 0;
+      let keyName;
+      for (const row of rows) {
+        seq = keyName === row.key_name ? seq + 1 : 1;
+        keyName = row.key_name;
+        row.seq_in_index = seq;
+        row.primarykey = !!row.primarykey;
+      }
+
+      result.data.list = rows;
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  // foreign keys of the schema, optionally narrowed down to one table
+  private async getRelations(tn?: string) {
+    const rows = await this.sqlClient.raw(
+      `SELECT
+            schema_name as ts,
+            constraint_name as cstn,
+            table_name as tn,
+            UNNEST(constraint_column_names) as cn,
+            referenced_table as rtn,
+            UNNEST(referenced_column_names) as rcn
+          FROM duckdb_constraints()
+          WHERE constraint_type = 'FOREIGN KEY'
+            AND schema_name = ?
+            ${tn ? 'AND table_name = ?' : ''}
+          ORDER BY table_name, constraint_name`,
+      tn ? [this.schema, tn] : [this.schema],
+    );
+
+    // duckdb doesn't support referential actions
+    for (const row of rows) {
+      row.ur = 'NO ACTION';
+      row.dr = 'NO ACTION';
+    }
+
+    return rows;
+  }
+
+  /**
+   *
+   * @param {Object} - args - Input arguments
+   * @param {Object} - args.tn -
+   * @returns {Object[]} - relations
+   * @property {String} - relations[].tn
+   * @property {String} - relations[].cstn -
+   * @property {String} - relations[].cn -
+   * @property {String} - relations[].rtn -
+   * @property {String} - relations[].rcn -
+   * @property {String} - relations[].ur -
+   * @property {String} - relations[].dr -
+   */
+  async relationList(args: any = {}) {
+    const _func = this.relationList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      result.data.list = await this.getRelations(args.tn);
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args - Input arguments
+   * @returns {Object[]} - relations of all tables in the schema
+   */
+  async relationListAll(args: any = {}) {
+    const _func = this.relationListAll.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      result.data.list = await this.getRelations();
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args - Input arguments
+   * @returns {Object[]} - views
+   * @property {String} - views[].view_name
+   */
+  async viewList(args: any = {}) {
+    const _func = this.viewList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      result.data.list = await this.sqlClient.raw(
+        `SELECT view_name, sql as view_definition
+              FROM duckdb_views()
+              WHERE schema_name = ? AND NOT internal
+              ORDER BY view_name`,
+        [this.schema],
+      );
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} args
+   * @returns {Object} result
+   * @returns {Number} code
+   * @returns {String} message
+   */
+  async totalRecords(args: any = {}) {
+    const func = this.totalRecords.name;
+    const result = new Result();
+    log.api(`${func}:args:`, args);
+
+    try {
+      // row counts of views (attached files) are not tracked
+      const rows = await this.sqlClient.raw(
+        `SELECT COALESCE(SUM(estimated_size), 0) as TotalRecords FROM duckdb_tables()`,
+      );
+      result.data = rows[0];
+    } catch (e) {
+      result.code = -1;
+      result.message = e.message;
+      result.object = e;
+    } finally {
+      log.api(`${func} :result: ${result}`);
+    }
+    return result;
+  }
+}
+
+export default DuckdbClient;
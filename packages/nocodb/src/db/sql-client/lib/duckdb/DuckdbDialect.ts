@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+
+// knex has no duckdb dialect, its sql flavour is close enough to sqlite
+// that the sqlite3 query compiler can be reused with a different driver
+const Client_SQLite3 = require('knex/lib/dialects/sqlite3');
+
+export interface DuckdbFile {
+  // path to a local parquet / csv file, globs like `data/*.parquet` are allowed
+  path: string;
+  // name of the table the file is exposed as, defaults to the file name
+  table_name?: string;
+}
+
+const quoteLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`;
+const quoteIdentifier = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export function getDuckdbFileTableName(file: DuckdbFile) {
+  return (
+    file.table_name ||
+    path
+      .basename(file.path)
+      .replace(/\.[^.]*$/, '')
+      .replace(/[^\w]/g, '_')
+  );
+}
+
+export function getDuckdbFileReader(file: DuckdbFile) {
+  const filePath = quoteLiteral(file.path);
+  if (/\.parquet$/i.test(file.path)) return `read_parquet(${filePath})`;
+  if (/\.(csv|tsv|txt)(\.gz)?$/i.test(file.path))
+    return `read_csv_auto(${filePath})`;
+
+  throw new Error(
+    `Unsupported file '${file.path}', only parquet and csv files can be attached`,
+  );
+}
+
+// rejects attached files which do not exist so that a misconfigured
+// source fails on connection test instead of on first query
+export function validateDuckdbFiles(files: DuckdbFile[] = []) {
+  for (const file of files) {
+    // the reader throws for unsupported extensions
+    getDuckdbFileReader(file);
+    if (!/[*?[]/.test(file.path) && !fs.existsSync(file.path)) {
+      throw new Error(`File '${file.path}' does not exist`);
+    }
+  }
+}
+
+// duckdb returns BIGINT / HUGEINT values as BigInt which can't be serialised
+const normaliseValue = (value: any) => {
+  if (typeof value !== 'bigint') return value;
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) &&
+    value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(value)
+    : value.toString();
+};
+
+const normaliseRows = (rows: any[] = []) => {
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      row[key] = normaliseValue(row[key]);
+    }
+  }
+  return rows;
+};
+
+class Client_DuckDB extends Client_SQLite3 {
+  // the native module is loaded only once a duckdb source is connected,
+  // installs without the binding can still run every other source
+  _driver() {
+    return require('duckdb');
+  }
+
+  wrapIdentifierImpl(value: string) {
+    return value !== '*' ? quoteIdentifier(value) : '*';
+  }
+
+  async acquireRawConnection() {
+    const { filename, files = [] } = this.connectionSettings;
+
+    const db = await new Promise<any>((resolve, reject) => {
+      const database = new this.driver.Database(filename || ':memory:', (err) =>
+        err ? reject(err) : resolve(database),
+      );
+    });
+    const connection = db.connect();
+    connection.__knexDb = db;
+
+    // every connection gets its own set of temporary views over the files,
+    // this keeps the database file (if any) untouched
+    for (const file of files as DuckdbFile[]) {
+      await new Promise<void>((resolve, reject) =>
+        connection.exec(
+          `CREATE OR REPLACE TEMP VIEW ${quoteIdentifier(
+            getDuckdbFileTableName(file),
+          )} AS SELECT * FROM ${getDuckdbFileReader(file)}`,
+          (err) => (err ? reject(err) : resolve()),
+        ),
+      );
+    }
+
+    return connection;
+  }
+
+  async destroyRawConnection(connection) {
+    await new Promise<void>((resolve) =>
+      connection.close(() => connection.__knexDb.close(() => resolve())),
+    );
+  }
+
+  _query(connection, obj): Promise<any> {
+    if (!obj.sql) throw new Error('The query is empty');
+
+    return new Promise((resolve, reject) => {
+      if (!connection?.all) {
+        return reject(new Error('Error calling all on connection.'));
+      }
+      connection.all(obj.sql, ...(obj.bindings || []), (err, response) => {
+        if (err) return reject(err);
+        obj.response = normaliseRows(response);
+        resolve(obj);
+      });
+    });
+  }
+
+  async _stream(connection, obj, stream) {
+    try {
+      const { response } = await this._query(connection, obj);
+      for (const row of response) stream.write(row);
+      stream.end();
+    } catch (e) {
+      stream.emit('error', e);
+    }
+  }
+
+  processResponse(obj, runner) {
+    const { response } = obj;
+    if (obj.output) return obj.output.call(runner, response);
+    switch (obj.method) {
+      case 'select':
+        return response;
+      case 'first':
+        return response[0];
+      case 'pluck':
+        return response.map((row) => row[obj.pluck]);
+      case 'insert':
+      case 'update':
+        if (obj.returning) return response;
+        return response?.[0]?.Count ?? 0;
+      case 'del':
+      case 'counter':
+        return response?.[0]?.Count ?? 0;
+      default:
+        return response;
+    }
+  }
+}
+
+Object.assign(Client_DuckDB.prototype, {
+  dialect: 'duckdb',
+  driverName: 'duckdb',
+});
+
+export default Client_DuckDB;
@@ -0,0 +1,1301 @@
+import knex from 'knex';
+import find from 'lodash/find';
+import { ncIsNullOrUndefined } from 'nocodb-sdk';
+import KnexClient from '~/db/sql-client/lib/KnexClient';
+import Debug from '~/db/util/Debug';
+import Result from '~/db/util/Result';
+import deepClone from '~/helpers/deepClone';
+
+const log = new Debug('MssqlClient');
+
+// sys.foreign_keys stores referential actions as NO_ACTION, SET_NULL, etc.
+const ruleMapping = {
+  NO_ACTION: 'NO ACTION',
+  CASCADE: 'CASCADE',
+  SET_NULL: 'SET NULL',
+  SET_DEFAULT: 'SET DEFAULT',
+};
+
+class MssqlClient extends KnexClient {
+  constructor(connectionConfig) {
+    super(connectionConfig);
+    this._version = {};
+  }
+
+  get schema() {
+    return this.connectionConfig?.searchPath?.[0] || 'dbo';
+  }
+
+  protected getEffectiveSchema(args: { schema?: string } = {}) {
+    return args?.schema || this.schema;
+  }
+
+  getTnPath(t, args: { schema?: string } = {}) {
+    return `${this.getEffectiveSchema(args)}.${t}`;
+  }
+
+  // connection to the `master` database, used for database level operations
+  private getMasterClient() {
+    const connectionParamsWithoutDb = deepClone(this.connectionConfig);
+    connectionParamsWithoutDb.connection.password =
+      this.connectionConfig.connection.password;
+    connectionParamsWithoutDb.connection.database = 'master';
+    return knex({
+      ...connectionParamsWithoutDb,
+      pool: { min: 0, max: 1 },
+    });
+  }
+
+  /**
+   *
+   *
+   * @param {Object} args
+   * @returns {Object} result
+   * @returns {Number} code
+   * @returns {String} message
+   */
+  async testConnection(args: any = {}) {
+    const _func = this.testConnection.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      await this.raw('SELECT 1+1 as data');
+    } catch (e1) {
+      // database may not exist yet, it gets created on first use
+      const tempSqlClient = this.getMasterClient();
+      try {
+        await tempSqlClient.raw('SELECT 1+1 as data');
+      } catch (e) {
+        log.ppe(e);
+        result.code = -1;
+        // send back original error message
+        result.message = e1.message;
+      } finally {
+        await tempSqlClient.destroy();
+      }
+    } finally {
+      log.api(`${_func}:result:`, result);
+    }
+
+    return result;
+  }
+
+  getKnexDataTypes() {
+    const result = new Result();
+
+    result.data.list = [
+      'bigint',
+      'binary',
+      'bit',
+      'char',
+      'date',
+      'datetime',
+      'datetime2',
+      'datetimeoffset',
+      'decimal',
+      'float',
+      'geography',
+      'geometry',
+      'image',
+      'int',
+      'money',
+      'nchar',
+      'ntext',
+      'numeric',
+      'nvarchar',
+      'real',
+      'smalldatetime',
+      'smallint',
+      'smallmoney',
+      'text',
+      'time',
+      'tinyint',
+      'uniqueidentifier',
+      'varbinary',
+      'varchar',
+      'xml',
+    ];
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} args
+   * @returns {Object} result
+   * @returns {Number} code
+   * @returns {String} message
+   * @returns {Object} object - {version, primary, major, minor}
+   */
+  async version(args: any = {}) {
+    const _func = this.version.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      result.data.object = {};
+      const rows = await this.sqlClient.raw(
+        `SELECT CAST(SERVERPROPERTY('ProductVersion') AS nvarchar(128)) as version`,
+      );
+      result.data.object.version = rows[0].version;
+      const versions = rows[0].version.split('.');
+
+      if (versions.length >= 2) {
+        result.data.object.primary = versions[0];
+        result.data.object.major = versions[1];
+        result.data.object.minor =
+          versions.length > 2 ? versions[2] : versions[1];
+        result.data.object.key = versions[0] + versions[1];
+      } else {
+        result.code = -1;
+        result.message = `Invalid version : ${rows[0].version}`;
+      }
+    } catch (e) {
+      log.ppe(e);
+      result.code = -1;
+      result.message = e.message;
+    } finally {
+      log.api(`${_func} :result: %o`, result);
+    }
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} args
+   * @param {String} args.database
+   * @returns {Result}
+   */
+  async createDatabaseIfNotExists(args: any = {}) {
+    const _func = this.createDatabaseIfNotExists.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+    const tempSqlClient = this.getMasterClient();
+
+    try {
+      log.debug('checking if db exists');
+      const rows = await tempSqlClient.raw(
+        `SELECT name as database_name FROM sys.databases WHERE name = ?`,
+        [args.database],
+      );
+
+      if (rows.length === 0) {
+        log.debug('creating database:', args);
+        await tempSqlClient.raw(`CREATE DATABASE ??`, [args.database]);
+      }
+
+      const schemaName = this.getEffectiveSchema(args);
+
+      const schemaExists = !!(
+        await this.sqlClient.raw(
+          `SELECT name FROM sys.schemas WHERE name = ?`,
+          [schemaName],
+        )
+      )?.[0];
+
+      if (!schemaExists) {
+        // CREATE SCHEMA has to be the only statement in a batch
+        await this.sqlClient.raw(`EXEC('CREATE SCHEMA ' + QUOTENAME(?))`, [
+          schemaName,
+        ]);
+      }
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    } finally {
+      await tempSqlClient.destroy();
+    }
+
+    log.api(`${_func}: result`, result);
+    return result;
+  }
+
+  async dropDatabase(args) {
+    const _func = this.dropDatabase.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      const tempSqlClient = this.getMasterClient();
+      await this.sqlClient.destroy();
+      this.sqlClient = tempSqlClient;
+
+      log.debug('dropping database:', args);
+      await tempSqlClient.raw(
+        `IF DB_ID(?) IS NOT NULL
+        BEGIN
+          ALTER DATABASE ?? SET SINGLE_USER WITH ROLLBACK IMMEDIATE;
+          DROP DATABASE ??;
+        END`,
+        [args.database, args.database, args.database],
+      );
+      await tempSqlClient.destroy();
+    } catch (e) {
+      log.ppe(e, _func);
+      // throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+    return result;
+  }
+
+  /**
+   *
+   * @param args {tn}
+   * @returns
+   */
+  async createTableIfNotExists(args) {
+    const _func = this.createTableIfNotExists.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      /** ************** START : create _evolution table if not exists *************** */
+      const exists = await this.sqlClient.raw(
+        `SELECT TABLE_NAME as tn FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?`,
+        [this.getEffectiveSchema(args), args.tn],
+      );
+
+      if (exists.length === 0) {
+        const data = await this.sqlClient.raw(
+          this.sqlClient.schema
+            .withSchema(this.getEffectiveSchema(args))
+            .createTable(args.tn, function (table) {
+              table.increments();
+              table.string('title').notNullable();
+              table.string('titleDown').nullable();
+              table.string('description').nullable();
+              table.integer('batch').nullable();
+              table.string('checksum').nullable();
+              table.integer('status').nullable();
+              table.dateTime('created');
+              table.timestamps();
+            })
+            .toQuery(),
+        );
+        log.debug('Table created:', `${args.tn}`, data);
+      } else {
+        log.debug(`${args.tn} tables exists`);
+      }
+      /** ************** END : create _evolution table if not exists *************** */
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  async hasTable(args: any = {}) {
+    const _func = this.hasTable.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      const rows = await this.sqlClient.raw(
+        `SELECT TABLE_NAME as tn FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?`,
+        [this.getEffectiveSchema(args), args.tn],
+      );
+      result.data.value = rows.length > 0;
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  async hasDatabase(args: any = {}) {
+    const _func = this.hasDatabase.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      const rows = await this.sqlClient.raw(
+        `SELECT name as database_name FROM sys.databases WHERE name = ?`,
+        [args.databaseName],
+      );
+
+      result.data.value = rows.length > 0;
+
+      if (result.data.value && args.schema) {
+        const schemas = await this.sqlClient.raw(
+          `SELECT name FROM sys.schemas WHERE name = ?`,
+          [args.schema],
+        );
+        result.data.value = schemas.length > 0;
+      }
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args - for future reasons
+   * @returns {Object[]} - databases
+   * @property {String} - databases[].database_name
+   */
+  async databaseList(args: any = {}) {
+    const _func = this.databaseList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      result.data.list = await this.sqlClient.raw(
+        `SELECT name as database_name FROM sys.databases WHERE database_id > 4 ORDER BY name`,
+      );
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args - for future reasons
+   * @returns {Object[]} - tables
+   * @property {String} - tables[].tn
+   */
+  async tableList(args: any = {}) {
+    const _func = this.tableList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      result.data.list = await this.sqlClient.raw(
+        `SELECT TABLE_SCHEMA as ts, TABLE_NAME as tn
+              FROM INFORMATION_SCHEMA.TABLES
+              WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = 'BASE TABLE'
+              ORDER BY TABLE_SCHEMA, TABLE_NAME`,
+        [this.getEffectiveSchema(args)],
+      );
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  async schemaList(args: any = {}) {
+    const _func = this.schemaList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      result.data.list = await this.sqlClient.raw(
+        `SELECT s.name as schema_name
+              FROM sys.schemas s
+              WHERE s.principal_id < 16384
+                AND s.name NOT IN ('sys', 'INFORMATION_SCHEMA', 'guest')
+                AND s.name NOT LIKE 'db[_]%'
+              ORDER BY s.name`,
+      );
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args - Input arguments
+   * @param {Object} - args.tn -
+   * @returns {Object[]} - columns
+   * @property {String} - columns[].tn
+   * @property {String} - columns[].cn
+   * @property {String} - columns[].dt
+   * @property {String} - columns[].dtx
+   * @property {String} - columns[].np
+   * @property {String} - columns[].ns -
+   * @property {String} - columns[].clen -
+   * @property {String} - columns[].dp -
+   * @property {String} - columns[].cop -
+   * @property {String} - columns[].pk -
+   * @property {String} - columns[].nrqd -
+   * @property {String} - columns[].not_nullable -
+   * @property {String} - columns[].un -
+   * @property {String} - columns[].ai -
+   * @property {String} - columns[].unique -
+   * @property {String} - columns[].cdf -
+   * @property {String} - columns[].cc -
+   * @property {String} - columns[].csn -
+   */
+  async columnList(args: any = {}) {
+    const _func = this.columnList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      const rows = await this.sqlClient.raw(
+        `SELECT
+              c.TABLE_NAME as tn,
+              c.COLUMN_NAME as cn,
+              c.DATA_TYPE as dt,
+              c.CHARACTER_MAXIMUM_LENGTH as clen,
+              c.NUMERIC_PRECISION as np,
+              c.NUMERIC_SCALE as ns,
+              c.DATETIME_PRECISION as dp,
+              c.ORDINAL_POSITION as cop,
+              c.IS_NULLABLE as nrqd,
+              c.COLUMN_DEFAULT as cdf,
+              c.CHARACTER_SET_NAME as csn,
+              sc.is_identity as ai,
+              sc.is_computed as au,
+              CAST(ep.value AS nvarchar(4000)) as cc,
+              pk.CONSTRAINT_NAME as pk_constraint_name,
+              pk.ORDINAL_POSITION as pk_ordinal_position,
+              (SELECT COUNT(*)
+                  FROM INFORMATION_SCHEMA.TABLE_CONSTRAINTS tc1
+                    INNER JOIN INFORMATION_SCHEMA.CONSTRAINT_COLUMN_USAGE cu
+                      ON cu.CONSTRAINT_NAME = tc1.CONSTRAINT_NAME
+                      AND cu.CONSTRAINT_SCHEMA = tc1.CONSTRAINT_SCHEMA
+                  WHERE tc1.CONSTRAINT_TYPE = 'UNIQUE'
+                    AND tc1.TABLE_NAME = c.TABLE_NAME
+                    AND tc1.TABLE_SCHEMA = c.TABLE_SCHEMA
+                    AND cu.COLUMN_NAME = c.COLUMN_NAME) as is_unique
+            FROM INFORMATION_SCHEMA.COLUMNS c
+              INNER JOIN sys.columns sc
+                ON sc.object_id = OBJECT_ID(QUOTENAME(c.TABLE_SCHEMA) + '.' + QUOTENAME(c.TABLE_NAME))
+                AND sc.name = c.COLUMN_NAME
+              LEFT JOIN sys.extended_properties ep
+                ON ep.major_id = sc.object_id
+                AND ep.minor_id = sc.column_id
+                AND ep.name = 'MS_Description'
+              LEFT JOIN (
+                SELECT kcu.TABLE_SCHEMA, kcu.TABLE_NAME, kcu.COLUMN_NAME, kcu.CONSTRAINT_NAME, kcu.ORDINAL_POSITION
+                  FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE kcu
+                    INNER JOIN INFORMATION_SCHEMA.TABLE_CONSTRAINTS tc
+                      ON tc.CONSTRAINT_NAME = kcu.CONSTRAINT_NAME
+                      AND tc.CONSTRAINT_SCHEMA = kcu.CONSTRAINT_SCHEMA
+                      AND tc.CONSTRAINT_TYPE = 'PRIMARY KEY'
+              ) pk
+                ON pk.TABLE_SCHEMA = c.TABLE_SCHEMA
+                AND pk.TABLE_NAME = c.TABLE_NAME
+                AND pk.COLUMN_NAME = c.COLUMN_NAME
+            WHERE c.TABLE_SCHEMA = :schema AND c.TABLE_NAME = :table
+            ORDER BY c.ORDINAL_POSITION`,
+        {
+          schema: this.getEffectiveSchema(args),
+          table: args.tn,
+        },
+      );
+
+      const columns = [];
+
+      for (const row of rows) {
+        const column: any = {};
+
+        column.tn = row.tn;
+        column.cn = row.cn;
+        column.cno = row.cn;
+        column.dt = row.dt;
+        column.np = row.np;
+        column.ns = row.ns;
+        // nvarchar(max) and friends report -1 as length
+        column.clen = row.clen === -1 ? 'max' : row.clen;
+        column.dp = row.dp;
+        column.cop = row.cop;
+        column.dtx = row.dt;
+        column.pk = !ncIsNullOrUndefined(row.pk_constraint_name);
+
+        column.nrqd = row.nrqd !== 'NO';
+        column.not_nullable = !column.nrqd;
+        column.rqd = !column.nrqd;
+
+        // there are no unsigned types in sql server
+        column.un = false;
+        column.ai = !!row.ai;
+        column.unique = row.is_unique > 0;
+
+        // defaults are stored wrapped in parentheses, e.g. ((0)), ('abc'), (getdate())
+        column.cdf = row.cdf
+          ? row.cdf
+              .replace(/^\(([\s\S]*)\)$/, '$1')
+              .replace(/^\(([\s\S]*)\)$/, '$1')
+          : row.cdf;
+        if (column.cdf && /^N?'[\s\S]*'$/.test(column.cdf)) {
+          column.cdf = column.cdf.replace(/^N?'|'$/g, '').replace(/''/g, "'");
+        }
+
+        column.cc = row.cc;
+        column.csn = row.csn;
+        column.dtxp = column.clen || row.np || row.dp;
+        column.dtxs = row.ns;
+        column.au = !!row.au;
+        column.data_type_custom = row.dt;
+
+        columns.push(column);
+      }
+
+      result.data.list = columns;
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args - Input arguments
+   * @param {Object} - args.tn -
+   * @returns {Object[]} - indexes
+   * @property {String} - indexes[].cn -
+   * @property {String} - indexes[].key_name -
+   * @property {String} - indexes[].non_unique -
+   * @property {String} - indexes[].seq_in_index -
+   * @property {String} - indexes[].primarykey -
+   * @property {String} - indexes[].cstn -
+   * @property {String} - indexes[].cst - p = primary key constraint, u = unique constraint
+   */
+  async indexList(args: any = {}) {
+    const _func = this.indexList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      const rows = await this.sqlClient.raw(
+        `SELECT
+              c.name as cn,
+              i.name as key_name,
+              ic.key_ordinal as seq_in_index,
+              c.is_nullable as nrqd,
+              i.is_primary_key as primarykey,
+              CASE WHEN i.is_unique = 1 THEN 0 ELSE 1 END as non_unique,
+              CASE WHEN i.is_unique = 1 THEN 0 ELSE 1 END as non_unique_original,
+              CASE
+                WHEN i.is_primary_key = 1 THEN 'p'
+                WHEN i.is_unique_constraint = 1 THEN 'u'
+              END as cst,
+              CASE
+                WHEN i.is_primary_key = 1 OR i.is_unique_constraint = 1 THEN i.name
+              END as cstn
+            FROM sys.indexes i
+              INNER JOIN sys.index_columns ic
+                ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+              INNER JOIN sys.columns c
+                ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+            WHERE i.object_id = OBJECT_ID(QUOTENAME(?) + '.' + QUOTENAME(?))
+              AND i.type > 0
+              AND ic.is_included_column = 0
+            ORDER BY i.name, ic.key_ordinal`,
+        [this.getEffectiveSchema(args), args.tn],
+      );
+
+      for (const row of rows) {
+        row.primarykey = !!row.primarykey;
+        row.rqd = !row.nrqd;
+      }
+
+      result.data.list = rows;
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  // foreign keys of the schema, optionally narrowed down to one table
+  private async getRelations(schema: string, tn?: string) {
+    const rows = await this.sqlClient.raw(
+      `SELECT
+            SCHEMA_NAME(tbl.schema_id) as ts,
+            fk.name as cstn,
+            tbl.name as tn,
+            col.name as cn,
+            SCHEMA_NAME(f_tbl.schema_id) as foreign_table_schema,
+            f_tbl.name as rtn,
+            f_col.name as rcn,
+            fk.update_referential_action_desc as ur,
+            fk.delete_referential_action_desc as dr
+          FROM sys.foreign_keys fk
+            INNER JOIN sys.foreign_key_columns fkc
+              ON fkc.constraint_object_id = fk.object_id
+            INNER JOIN sys.tables tbl ON tbl.object_id = fkc.parent_object_id
+            INNER JOIN sys.columns col
+              ON col.object_id = fkc.parent_object_id AND col.column_id = fkc.parent_column_id
+            INNER JOIN sys.tables f_tbl ON f_tbl.object_id = fkc.referenced_object_id
+            INNER JOIN sys.columns f_col
+              ON f_col.object_id = fkc.referenced_object_id AND f_col.column_id = fkc.referenced_column_id
+          WHERE SCHEMA_NAME(tbl.schema_id) = :schema
+            AND SCHEMA_NAME(f_tbl.schema_id) = :schema
+            ${tn ? 'AND tbl.name = :table' : ''}
+          ORDER BY tbl.name, fk.name, fkc.constraint_column_id`,
+      tn ? { schema, table: tn } : { schema },
+    );
+
+    for (const row of rows) {
+      row.ur = ruleMapping[row.ur] ?? row.ur;
+      row.dr = ruleMapping[row.dr] ?? row.dr;
+    }
+
+    return rows;
+  }
+
+  /**
+   *
+   * @param {Object} - args - Input arguments
+   * @param {Object} - args.tn -
+   * @returns {Object[]} - relations
+   * @property {String} - relations[].tn
+   * @property {String} - relations[].cstn -
+   * @property {String} - relations[].cn -
+   * @property {String} - relations[].rtn -
+   * @property {String} - relations[].rcn -
+   * @property {String} - relations[].ur -
+   * @property {String} - relations[].dr -
+   */
+  async relationList(args: any = {}) {
+    const _func = this.relationList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      result.data.list = await this.getRelations(
+        this.getEffectiveSchema(args),
+        args.tn,
+      );
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args - Input arguments
+   * @returns {Object[]} - relations of all tables in the schema
+   */
+  async relationListAll(args: any = {}) {
+    const _func = this.relationListAll.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      result.data.list = await this.getRelations(this.getEffectiveSchema(args));
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args
+   * @param {String} - args.parentTable
+   * @param {String} - args.parentColumn
+   * @param {String} - args.childColumn
+   * @param {String} - args.childTable
+   * @returns {Promise<{upStatement, downStatement}>}
+   */
+  async relationCreate(args) {
+    return super.relationCreate({
+      ...args,
+      childTable: this.getTnPath(args.childTable, args),
+      parentTable: this.getTnPath(args.parentTable, args),
+    });
+  }
+
+  /**
+   *
+   * @param {Object} - args
+   * @param {String} - args.parentTable
+   * @param {String} - args.parentColumn
+   * @param {String} - args.childColumn
+   * @param {String} - args.childTable
+   * @param {String} - args.foreignKeyName
+   * @returns {Promise<{upStatement, downStatement}>}
+   */
+  async relationDelete(args) {
+    return super.relationDelete({
+      ...args,
+      childTable: this.getTnPath(args.childTable, args),
+      parentTable: this.getTnPath(args.parentTable, args),
+    });
+  }
+
+  /**
+   *
+   * @param {Object} - args
+   * @param {String} - args.tn
+   * @param {String} - args.indexName
+   * @param {String} - args.non_unique
+   * @param {String[]} - args.columns
+   * @returns {Promise<{upStatement, downStatement}>}
+   */
+  async indexCreate(args) {
+    return super.indexCreate({ ...args, tn: this.getTnPath(args.tn, args) });
+  }
+
+  /**
+   *
+   * @param {Object} - args
+   * @param {String} - args.tn
+   * @param {String[]} - args.columns
+   * @param {String} - args.indexName
+   * @param {String} - args.non_unique
+   * @returns {Promise<{upStatement, downStatement}>}
+   */
+  async indexDelete(args) {
+    return super.indexDelete({ ...args, tn: this.getTnPath(args.tn, args) });
+  }
+
+  /**
+   *
+   * @param {Object} - args - Input arguments
+   * @returns {Object[]} - views
+   * @property {String} - views[].view_name
+   */
+  async viewList(args: any = {}) {
+    const _func = this.viewList.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      const rows = await this.sqlClient.raw(
+        `SELECT TABLE_NAME as view_name, VIEW_DEFINITION as view_definition
+              FROM INFORMATION_SCHEMA.VIEWS
+              WHERE TABLE_SCHEMA = ?
+              ORDER BY TABLE_NAME`,
+        [this.getEffectiveSchema(args)],
+      );
+
+      result.data.list = rows;
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    log.api(`${_func}: result`, result);
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args - Input arguments
+   * @param {String} - args.view_name
+   * @param {String} - args.view_definition
+   * @returns {Object} - up and down statements
+   */
+  async viewCreate(args: any = {}) {
+    const func = this.viewCreate.name;
+    const result = new Result();
+    log.api(`${func}:args:`, args);
+
+    try {
+      const query = args.view_definition;
+
+      await this.sqlClient.raw(query);
+      result.data.object = {
+        upStatement: [{ sql: this.querySeparator() + query }],
+        downStatement: [
+          {
+            sql:
+              this.querySeparator() +
+              `DROP VIEW ${this.genIdentifier(
+                this.getTnPath(args.view_name, args),
+              )}`,
+          },
+        ],
+      };
+    } catch (e) {
+      log.ppe(e, func);
+      throw e;
+    }
+
+    log.api(`${func}: result`, result);
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args - Input arguments
+   * @param {String} - args.view_name
+   * @param {String} - args.oldViewDefination
+   * @returns {Object} - up and down statements
+   */
+  async viewDelete(args: any = {}) {
+    const func = this.viewDelete.name;
+    const result = new Result();
+    log.api(`${func}:args:`, args);
+
+    try {
+      const query = `DROP VIEW ${this.genIdentifier(
+        this.getTnPath(args.view_name, args),
+      )}`;
+
+      await this.sqlClient.raw(query);
+
+      result.data.object = {
+        upStatement: [{ sql: this.querySeparator() + query }],
+        downStatement: [
+          {
+            sql:
+              this.querySeparator() +
+              `CREATE VIEW ${this.genIdentifier(
+                this.getTnPath(args.view_name, args),
+              )} AS \n${args.oldViewDefination}`,
+          },
+        ],
+      };
+    } catch (e) {
+      log.ppe(e, func);
+      throw e;
+    }
+
+    log.api(`${func}: result`, result);
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args
+   * @param {String} - args.tn
+   * @param {Object[]} - args.columns
+   * @returns {Promise<{upStatement, downStatement}>}
+   */
+  async tableCreate(args) {
+    const _func = this.tableCreate.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      args.table = this.getTnPath(args.tn, args);
+
+      /**************** create table ****************/
+      const upQuery =
+        this.querySeparator() + this.createTable(args.table, args);
+      await this.sqlClient.raw(upQuery);
+
+      const downStatement =
+        this.querySeparator() +
+        this.sqlClient.schema.dropTable(args.table).toString();
+
+      this.emit(`Success : ${upQuery}`);
+
+      /**************** return files *************** */
+      result.data.object = {
+        upStatement: [{ sql: upQuery }],
+        downStatement: [{ sql: downStatement }],
+      };
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args
+   * @param {String} - args.tn
+   * @param {Object[]} - args.columns
+   * @param {Object[]} - args.originalColumns
+   * @returns {Promise<{upStatement, downStatement}>}
+   */
+  async tableUpdate(args) {
+    const _func = this.tableUpdate.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      args.table = this.getTnPath(args.tn, args);
+      const originalColumns = args.originalColumns;
+
+      let upQuery = '';
+      let downQuery = '';
+
+      for (let i = 0; i < args.columns.length; ++i) {
+        const oldColumn = find(originalColumns, {
+          cn: args.columns[i].cno,
+        });
+
+        if (args.columns[i].altered & 4) {
+          // col remove
+          upQuery += this.alterTableRemoveColumn(args.table, args.columns[i]);
+          downQuery += this.alterTableAddColumn(args.table, oldColumn);
+        } else if (args.columns[i].altered & 2 || args.columns[i].altered & 8) {
+          // col edit
+          upQuery += this.alterTableChangeColumn(
+            args.table,
+            args.columns[i],
+            oldColumn,
+          );
+          downQuery += this.alterTableChangeColumn(
+            args.table,
+            oldColumn,
+            args.columns[i],
+          );
+        } else if (args.columns[i].altered & 1) {
+          // col addition
+          upQuery += this.alterTableAddColumn(args.table, args.columns[i]);
+          downQuery += this.alterTableRemoveColumn(args.table, args.columns[i]);
+        }
+      }
+
+      upQuery += this.alterTablePK(
+        args.table,
+        args.columns,
+        args.originalColumns,
+      );
+      downQuery += this.alterTablePK(
+        args.table,
+        args.originalColumns,
+        args.columns,
+      );
+
+      if (upQuery !== '') await this.sqlClient.raw(upQuery);
+
+      result.data.object = {
+        upStatement: [{ sql: this.querySeparator() + upQuery }],
+        downStatement: [{ sql: this.querySeparator() + downQuery }],
+      };
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args
+   * @param {String} - args.tn
+   * @returns {Promise<{upStatement, downStatement}>}
+   */
+  async tableDelete(args) {
+    const _func = this.tableDelete.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      args.table = this.getTnPath(args.tn, args);
+
+      const upStatement =
+        this.querySeparator() +
+        this.sqlClient.schema.dropTable(args.table).toString();
+      const downStatement =
+        this.querySeparator() + this.createTable(args.table, args);
+
+      this.emit(`Success : ${upStatement}`);
+
+      await this.sqlClient.raw(
+        this.sqlClient.schema.dropTable(args.table).toQuery(),
+      );
+
+      result.data.object = {
+        upStatement: [{ sql: upStatement }],
+        downStatement: [{ sql: downStatement }],
+      };
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} - args
+   * @param {String} - args.tn
+   * @param {String} - args.tn_old
+   * @returns {Promise<{upStatement, downStatement}>}
+   */
+  async tableRename(args) {
+    const _func = this.tableRename.name;
+    const result = new Result();
+    log.api(`${_func}:args:`, args);
+
+    try {
+      const schema = this.getEffectiveSchema(args);
+
+      const upStatement =
+        this.querySeparator() +
+        this.sqlClient.schema
+          .withSchema(schema)
+          .renameTable(args.tn_old, args.tn)
+          .toQuery();
+
+      await this.sqlClient.raw(upStatement);
+
+      this.emit(`Success : ${upStatement}`);
+
+      const downStatement =
+        this.querySeparator() +
+        this.sqlClient.schema
+          .withSchema(schema)
+          .renameTable(args.tn, args.tn_old)
+          .toQuery();
+
+      result.data.object = {
+        upStatement: [{ sql: upStatement }],
+        downStatement: [{ sql: downStatement }],
+      };
+    } catch (e) {
+      log.ppe(e, _func);
+      throw e;
+    }
+
+    return result;
+  }
+
+  /**
+   *
+   * @param {Object} args
+   * @returns {Object} result
+   * @returns {Number} code
+   * @returns {String} message
+   */
+  async totalRecords(args: any = {}) {
+    const func = this.totalRecords.name;
+    const result = new Result();
+    log.api(`${func}:args:`, args);
+
+    try {
+      const rows = await this.sqlClient.raw(
+        `SELECT SUM(p.rows) as TotalRecords
+              FROM sys.partitions p
+                INNER JOIN sys.tables t ON t.object_id = p.object_id
+              WHERE p.index_id IN (0, 1)`,
+      );
+      result.data = rows[0];
+    } catch (e) {
+      result.code = -1;
+      result.message = e.message;
+      result.object = e;
+    } finally {
+      log.api(`${func} :result: ${result}`);
+    }
+    return result;
+  }
+
+  sanitiseDataType(dt: string) {
+    // allow `max` as length, eg: nvarchar(max), varbinary(max)
+    if (/^[\w -]+(?:\((?:\d+|max)(?:\s?,\s?\d+)?\))?$/i.test(dt)) return dt;
+
+    throw new Error(`Invalid data type: ${dt}`);
+  }
+
+  sanitiseDefaultValue(value: string | number | boolean) {
+    // bit columns only accept 0 and 1
+    if (value === true || `${value}`.toLowerCase() === 'true') return '1';
+    if (value === false || `${value}`.toLowerCase() === 'false') return '0';
+    return super.sanitiseDefaultValue(value);
+  }
+
+  // datatype along with length/precision, eg: nvarchar(255), decimal(10,2)
+  getColumnType(n) {
+    let dt = n.dt;
+    if (!/\(/.test(dt)) {
+      if (
+        [
+          'varchar',
+          'nvarchar',
+          'char',
+          'nchar',
+          'varbinary',
+          'binary',
+        ].includes(dt) &&
+        n.dtxp
+      ) {
+        dt = `${dt}(${n.dtxp})`;
+      } else if (['decimal', 'numeric'].includes(dt) && n.dtxp) {
+        dt = n.dtxs ? `${dt}(${n.dtxp},${n.dtxs})` : `${dt}(${n.dtxp})`;
+      }
+    }
+    return this.sanitiseDataType(dt);
+  }
+
+  // default and primary key constraints are named objects in sql server and
+  // have to be looked up before they can be dropped, each lookup runs as its
+  // own batch so that several of them can be part of the same query
+  private dropConstraint(t, lookupQuery, bindings) {
+    const table = this.genIdentifier(t);
+    const query = this.genQuery(
+      `DECLARE @cstn nvarchar(256) = (${lookupQuery});
+      IF @cstn IS NOT NULL EXEC('ALTER TABLE ' + ? + ' DROP CONSTRAINT ' + @cstn)`,
+      [table, ...bindings, table],
+      true,
+    );
+    return this.genQuery(`EXEC(?);\n`, [query], true);
+  }
+
+  private dropDefaultConstraint(t, cn) {
+    return this.dropConstraint(
+      t,
+      `SELECT QUOTENAME(d.name) FROM sys.default_constraints d
+        INNER JOIN sys.columns c ON c.object_id = d.parent_object_id AND c.column_id = d.parent_column_id
+        WHERE d.parent_object_id = OBJECT_ID(?) AND c.name = ?`,
+      [cn],
+    );
+  }
+
+  private dropPrimaryKeyConstraint(t) {
+    return this.dropConstraint(
+      t,
+      `SELECT QUOTENAME(name) FROM sys.key_constraints
+        WHERE parent_object_id = OBJECT_ID(?) AND type = 'PK'`,
+      [],
+    );
+  }
+
+  alterTablePK(tableName, newColumns, originalColumns, createTable = false) {
+    const newPrimaryKeys = newColumns
+      .filter((c) => c.pk && c.altered !== 4)
+      .map((c) => c.cn);
+    const originalPrimaryKeys = originalColumns
+      .filter((c) => c.pk)
+      .map((c) => c.cn);
+
+    if (
+      newPrimaryKeys.length === originalPrimaryKeys.length &&
+      newPrimaryKeys.every((cn, i) => cn === originalPrimaryKeys[i])
+    ) {
+      return '';
+    }
+
+    if (createTable) {
+      return newPrimaryKeys.length
+        ? this.genQuery(`, PRIMARY KEY(??)`, [newPrimaryKeys])
+        : '';
+    }
+
+    let query = originalPrimaryKeys.length
+      ? this.dropPrimaryKeyConstraint(tableName)
+      : '';
+
+    if (newPrimaryKeys.length) {
+      query += this.genQuery(`ALTER TABLE ?? ADD PRIMARY KEY(??);\n`, [
+        tableName,
+        newPrimaryKeys,
+      ]);
+    }
+
+    return query;
+  }
+
+  alterTableRemoveColumn(t, n) {
+    return (
+      this.dropDefaultConstraint(t, n.cn) +
+      this.genQuery(`ALTER TABLE ?? DROP COLUMN ??;\n`, [t, n.cn], true)
+    );
+  }
+
+  alterTableAddColumn(t, n) {
+    return this.genQuery(
+      `ALTER TABLE ?? ADD ${this.columnDefinition(n)};\n`,
+      [t],
+      true,
+    );
+  }
+
+  alterTableChangeColumn(t, n, o) {
+    let query = '';
+
+    if (n.cn !== o.cn) {
+      query += this.genQuery(
+        `EXEC sp_rename ?, ?, 'COLUMN';\n`,
+        [`${t}.${o.cn}`, n.cn],
+        true,
+      );
+    }
+
+    const typeChanged = n.dt !== o.dt || n.dtxp !== o.dtxp || n.dtxs !== o.dtxs;
+
+    if (typeChanged || n.cdf !== o.cdf) {
+      query += this.dropDefaultConstraint(t, n.cn);
+    }
+
+    if (typeChanged || n.rqd !== o.rqd) {
+      query += this.genQuery(
+        `ALTER TABLE ?? ALTER COLUMN ?? ${this.getColumnType(n)} ${
+          n.rqd ? 'NOT NULL' : 'NULL'
+        };\n`,
+        [t, n.cn],
+        true,
+      );
+    }
+
+    if (typeChanged || n.cdf !== o.cdf) {
+      const defaultValue = this.sanitiseDefaultValue(n.cdf);
+      if (!ncIsNullOrUndefined(defaultValue) && defaultValue !== '') {
+        query += this.genQuery(
+          `ALTER TABLE ?? ADD DEFAULT ${defaultValue} FOR ??;\n`,
+          [t, n.cn],
+          true,
+        );
+      }
+    }
+
+    return query;
+  }
+
+  columnDefinition(n) {
+    let query = this.genQuery(`?? ${this.getColumnType(n)}`, [n.cn], true);
+
+    if (n.ai) {
+      return query + ' IDENTITY(1,1) NOT NULL';
+    }
+
+    const defaultValue = this.sanitiseDefaultValue(n.cdf);
+    query += n.rqd ? ' NOT NULL' : ' NULL';
+    query +=
+      !ncIsNullOrUndefined(defaultValue) && defaultValue !== ''
+        ? ` DEFAULT ${defaultValue}`
+        : '';
+    query += n.unique ? ' UNIQUE' : '';
+    return query;
+  }
+
+  createTable(table, args) {
+    let query = args.columns
+      .map((column) => this.columnDefinition(column))
+      .join(', ');
+
+    query += this.alterTablePK(table, args.columns, [], true);
+
+    return this.genQuery(`CREATE TABLE ?? (${query});`, [table]);
+  }
+}
+
+export default MssqlClient;
@@ -7,6 +7,8 @@ import importFresh from 'import-fresh';
 import inflection from 'inflection';
 import slash from 'slash';
 import { customAlphabet } from 'nanoid';
+import type DuckdbClient from '~/db/sql-client/lib/duckdb/DuckdbClient';
+import type MssqlClient from '~/db/sql-client/lib/mssql/MssqlClient';
 import type MysqlClient from '~/db/sql-client/lib/mysql/MysqlClient';
 import type OracleClient from '~/db/sql-client/lib/oracle/OracleClient';
 import type PGClient from '~/db/sql-client/lib/pg/PgClient';
@@ -343,7 +345,14 @@ export default class SqlMgr {
    */
   public async baseGetSqlClient(
     args,
-  ): Promise<MysqlClient | SqliteClient | OracleClient | PGClient> {
+  ): Promise<
+    | MysqlClient
+    | SqliteClient
+    | OracleClient
+    | PGClient
+    | MssqlClient
+    | DuckdbClient
+  > {
     const func = this.baseGetSqlClient.name;
     log.api(`${func}:args:`, args);
 
@@ -0,0 +1,194 @@
+import BaseModelXcMeta from './BaseModelXcMeta';
+
+class ModelXcMetaDuckdb extends BaseModelXcMeta {
+  /**
+   * @param dir
+   * @param filename
+   * @param ctx
+   * @param ctx.tn
+   * @param ctx.columns
+   * @param ctx.relations
+   */
+  constructor({ dir, filename, ctx }) {
+    super({ dir, filename, ctx });
+  }
+
+  /**
+   *  Prepare variables used in code template
+   */
+  prepare() {
+    const data: any = {};
+
+    /* run of simple variable */
+    data.tn = this.ctx.tn;
+    data.dbType = this.ctx.dbType;
+
+    /* for complex code provide a func and args - do derivation within the func cbk */
+    data.columns = {
+      func: this._renderXcColumns.bind(this),
+      args: {
+        tn: this.ctx.tn,
+        columns: this.ctx.columns,
+        relations: this.ctx.relations,
+      },
+    };
+
+    /* for complex code provide a func and args - do derivation within the func cbk */
+    data.hasMany = {
+      func: this.renderXcHasMany.bind(this),
+      args: {
+        tn: this.ctx.tn,
+        columns: this.ctx.columns,
+        hasMany: this.ctx.hasMany,
+      },
+    };
+
+    /* for complex code provide a func and args - do derivation within the func cbk */
+    data.belongsTo = {
+      func: this.renderXcBelongsTo.bind(this),
+      args: {
+        tn: this.ctx.tn,
+        columns: this.ctx.columns,
+        belongsTo: this.ctx.belongsTo,
+      },
+    };
+
+    return data;
+  }
+
+  /**
+   *
+   * @param args
+   * @param args.columns
+   * @param args.relations
+   * @returns {string}
+   * @private
+   */
+  _renderXcColumns(args) {
+    let str = '[\r\n';
+
+    for (let i = 0; i < args.columns.length; ++i) {
+      str += `{\r\n`;
+      str += `cn: '${args.columns[i].cn}',\r\n`;
+      str += `type: '${this._getAbstractType(args.columns[i])}',\r\n`;
+      str += `dt: '${args.columns[i].dt}',\r\n`;
+      if (args.columns[i].rqd) str += `rqd: ${args.columns[i].rqd},\r\n`;
+
+      if (args.columns[i].cdf) {
+        str += `default: "${args.columns[i].cdf}",\r\n`;
+        str += `columnDefault: "${args.columns[i].cdf}",\r\n`;
+      }
+
+      if (args.columns[i].un) str += `un: ${args.columns[i].un},\r\n`;
+
+      if (args.columns[i].pk) str += `pk: ${args.columns[i].pk},\r\n`;
+
+      if (args.columns[i].ai) str += `ai: ${args.columns[i].ai},\r\n`;
+
+      if (args.columns[i].dtxp) str += `dtxp: "${args.columns[i].dtxp}",\r\n`;
+
+      if (args.columns[i].dtxs) str += `dtxs: ${args.columns[i].dtxs},\r\n`;
+
+      str += `validate: {
+                func: [],
+                args: [],
+                msg: []
+              },`;
+      str += `},\r\n`;
+    }
+
+    str += ']\r\n';
+
+    return str;
+  }
+
+  _getAbstractType(column) {
+    return this.getAbstractType(column);
+  }
+
+  getUIDataType(col): any {
+    const dt = col.dt.toLowerCase();
+    switch (dt) {
+      case 'bigint':
+      case 'integer':
+      case 'smallint':
+      case 'tinyint':
+      case 'hugeint':
+      case 'ubigint':
+      case 'uinteger':
+      case 'usmallint':
+      case 'utinyint':
+        return 'Number';
+      case 'decimal':
+      case 'double':
+      case 'float':
+        return 'Decimal';
+      case 'boolean':
+        return 'Checkbox';
+      case 'timestamp':
+      case 'timestamp with time zone':
+      case 'timestamp_s':
+      case 'timestamp_ms':
+      case 'timestamp_ns':
+        return 'DateTime';
+      case 'date':
+        return 'Date';
+      case 'time':
+        return 'Time';
+      case 'varchar':
+      case 'uuid':
+        return 'SingleLineText';
+      case 'json':
+        return 'JSON';
+
+      case 'blob':
+      case 'interval':
+      case 'bit':
+      default:
+        // lists, structs, maps and unions
+        return 'SpecificDBType';
+    }
+  }
+
+  getAbstractType(col): any {
+    const dt = col.dt.toLowerCase();
+    switch (dt) {
+      case 'bigint':
+      case 'integer':
+      case 'smallint':
+      case 'tinyint':
+      case 'hugeint':
+      case 'ubigint':
+      case 'uinteger':
+      case 'usmallint':
+      case 'utinyint':
+        return 'integer';
+      case 'decimal':
+        return 'decimal';
+      case 'double':
+      case 'float':
+        return 'float';
+      case 'boolean':
+        return 'boolean';
+      case 'timestamp':
+      case 'timestamp with time zone':
+      case 'timestamp_s':
+      case 'timestamp_ms':
+      case 'timestamp_ns':
+        return 'datetime';
+      case 'date':
+        return 'date';
+      case 'time':
+        return 'time';
+      case 'varchar':
+      case 'uuid':
+        return 'string';
+      case 'json':
+        return 'json';
+      default:
+        return dt;
+    }
+  }
+}
+
+export default ModelXcMetaDuckdb;
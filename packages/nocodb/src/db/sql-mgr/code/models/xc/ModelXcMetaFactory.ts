@@ -4,6 +4,8 @@ import ModelXcMetaPg from './ModelXcMetaPg';
 import ModelXcMetaSqlite from './ModelXcMetaSqlite';
 import ModelXcMetaSnowflake from './ModelXcMetaSnowflake';
 import ModelXcMetaDatabricks from './ModelXcMetaDatabricks';
+import ModelXcMetaMssql from './ModelXcMetaMssql';
+import ModelXcMetaDuckdb from './ModelXcMetaDuckdb';
 import type BaseModelXcMeta from './BaseModelXcMeta';
 
 class ModelXcMetaFactory {
@@ -23,6 +25,10 @@ class ModelXcMetaFactory {
       return new ModelXcMetaSnowflake(args);
     } else if (connectionConfig.client === 'databricks') {
       return new ModelXcMetaDatabricks(args);
+    } else if (connectionConfig.client === 'mssql') {
+      return new ModelXcMetaMssql(args);
+    } else if (connectionConfig.client === 'duckdb') {
+      return new ModelXcMetaDuckdb(args);
     }
 
     throw new Error('Database not supported');
@@ -0,0 +1,201 @@
+import BaseModelXcMeta from './BaseModelXcMeta';
+
+class ModelXcMetaMssql extends BaseModelXcMeta {
+  /**
+   * @param dir
+   * @param filename
+   * @param ctx
+   * @param ctx.tn
+   * @param ctx.columns
+   * @param ctx.relations
+   */
+  constructor({ dir, filename, ctx }) {
+    super({ dir, filename, ctx });
+  }
+
+  /**
+   *  Prepare variables used in code template
+   */
+  prepare() {
+    const data: any = {};
+
+    /* run of simple variable */
+    data.tn = this.ctx.tn;
+    data.dbType = this.ctx.dbType;
+
+    /* for complex code provide a func and args - do derivation within the func cbk */
+    data.columns = {
+      func: this._renderXcColumns.bind(this),
+      args: {
+        tn: this.ctx.tn,
+        columns: this.ctx.columns,
+        relations: this.ctx.relations,
+      },
+    };
+
+    /* for complex code provide a func and args - do derivation within the func cbk */
+    data.hasMany = {
+      func: this.renderXcHasMany.bind(this),
+      args: {
+        tn: this.ctx.tn,
+        columns: this.ctx.columns,
+        hasMany: this.ctx.hasMany,
+      },
+    };
+
+    /* for complex code provide a func and args - do derivation within the func cbk */
+    data.belongsTo = {
+      func: this.renderXcBelongsTo.bind(this),
+      args: {
+        tn: this.ctx.tn,
+        columns: this.ctx.columns,
+        belongsTo: this.ctx.belongsTo,
+      },
+    };
+
+    return data;
+  }
+
+  /**
+   *
+   * @param args
+   * @param args.columns
+   * @param args.relations
+   * @returns {string}
+   * @private
+   */
+  _renderXcColumns(args) {
+    let str = '[\r\n';
+
+    for (let i = 0; i < args.columns.length; ++i) {
+      str += `{\r\n`;
+      str += `cn: '${args.columns[i].cn}',\r\n`;
+      str += `type: '${this._getAbstractType(args.columns[i])}',\r\n`;
+      str += `dt: '${args.columns[i].dt}',\r\n`;
+      if (args.columns[i].rqd) str += `rqd: ${args.columns[i].rqd},\r\n`;
+
+      if (args.columns[i].cdf) {
+        str += `default: "${args.columns[i].cdf}",\r\n`;
+        str += `columnDefault: "${args.columns[i].cdf}",\r\n`;
+      }
+
+      if (args.columns[i].un) str += `un: ${args.columns[i].un},\r\n`;
+
+      if (args.columns[i].pk) str += `pk: ${args.columns[i].pk},\r\n`;
+
+      if (args.columns[i].ai) str += `ai: ${args.columns[i].ai},\r\n`;
+
+      if (args.columns[i].dtxp) str += `dtxp: "${args.columns[i].dtxp}",\r\n`;
+
+      if (args.columns[i].dtxs) str += `dtxs: ${args.columns[i].dtxs},\r\n`;
+
+      str += `validate: {
+                func: [],
+                args: [],
+                msg: []
+              },`;
+      str += `},\r\n`;
+    }
+
+    str += ']\r\n';
+
+    return str;
+  }
+
+  _getAbstractType(column) {
+    return this.getAbstractType(column);
+  }
+
+  getUIDataType(col): any {
+    const dt = col.dt.toLowerCase();
+    switch (dt) {
+      case 'bigint':
+      case 'int':
+      case 'smallint':
+      case 'tinyint':
+        return 'Number';
+      case 'decimal':
+      case 'numeric':
+      case 'float':
+      case 'real':
+      case 'money':
+      case 'smallmoney':
+        return 'Decimal';
+      case 'bit':
+        return 'Checkbox';
+      case 'datetime':
+      case 'datetime2':
+      case 'datetimeoffset':
+      case 'smalldatetime':
+        return 'DateTime';
+      case 'date':
+        return 'Date';
+      case 'time':
+        return 'Time';
+      case 'char':
+      case 'nchar':
+      case 'varchar':
+      case 'nvarchar':
+      case 'uniqueidentifier':
+        return 'SingleLineText';
+      case 'text':
+      case 'ntext':
+      case 'xml':
+        return 'LongText';
+
+      case 'binary':
+      case 'varbinary':
+      case 'image':
+      case 'geography':
+      case 'geometry':
+      case 'hierarchyid':
+      case 'sql_variant':
+      default:
+        return 'SpecificDBType';
+    }
+  }
+
+  getAbstractType(col): any {
+    const dt = col.dt.toLowerCase();
+    switch (dt) {
+      case 'bigint':
+      case 'int':
+      case 'smallint':
+      case 'tinyint':
+        return 'integer';
+      case 'decimal':
+      case 'numeric':
+      case 'money':
+      case 'smallmoney':
+        return 'decimal';
+      case 'float':
+      case 'real':
+        return 'float';
+      case 'bit':
+        return 'boolean';
+      case 'datetime':
+      case 'datetime2':
+      case 'datetimeoffset':
+      case 'smalldatetime':
+        return 'datetime';
+      case 'date':
+        return 'date';
+      case 'time':
+        return 'time';
+      case 'char':
+      case 'nchar':
+      case 'varchar':
+      case 'nvarchar':
+      case 'uniqueidentifier':
+        return 'string';
+      case 'text':
+      case 'ntext':
+      case 'xml':
+        return 'text';
+      default:
+        return dt;
+    }
+  }
+}
+
+export default ModelXcMetaMssql;
@@ -1,7 +1,46 @@
 import { Test } from '@nestjs/testing';
+import { AppEvents, ProjectRoles } from 'nocodb-sdk';
 import { SocketGateway } from './socket.gateway';
 import type { TestingModule } from '@nestjs/testing';
 
+jest.mock('~/models', () => {
+  class Model {
+    id: string;
+    base_id: string;
+    columns?: Record<string, any>[];
+
+    static get = jest.fn();
+
+    constructor(data: Record<string, any>) {
+      Object.assign(this, data);
+    }
+
+    async getColumns() {
+      return this.columns;
+    }
+
+    async getViews() {
+      return [{ id: 'view1' }];
+    }
+
+    get primaryKeys() {
+      return this.columns?.filter((c) => c.pk);
+    }
+  }
+
+  return {
+    Base: { get: jest.fn() },
+    Model,
+    ModelRoleVisibility: { list: jest.fn(async () => []) },
+    RowPolicy: { getRowFilter: jest.fn(async () => null) },
+    Source: { get: jest.fn() },
+    User: { getWithRoles: jest.fn() },
+    View: { get: jest.fn() },
+  };
+});
+
+import { Base, Model, ModelRoleVisibility, User } from '~/models';
+
 describe('SocketGateway', () => {
   let gateway: SocketGateway;
 
@@ -17,3 +56,106 @@ describe('SocketGateway', () => {
     expect(gateway).toBeDefined();
   });
 });
+
+describe('SocketGateway realtime', () => {
+  const table = {
+    id: 'tbl1',
+    base_id: 'base1',
+    columns: [
+      { id: 'col1', title: 'Id', column_name: 'id', pk: true },
+      { id: 'col2', title: 'Title', column_name: 'title' },
+    ],
+  };
+
+  const appHooksService = { onAll: jest.fn() };
+  const emit = jest.fn();
+  const subscriber = { id: 'socket2', data: {}, emit };
+  const server = {
+    in: jest.fn(() => ({ fetchSockets: async () => [subscriber] })),
+    to: jest.fn(() => ({ emit, except: jest.fn(() => ({ emit })) })),
+  };
+
+  let gateway: SocketGateway;
+
+  const socketOf = (user?: Record<string, any>) =>
+    ({ id: 'socket1', handshake: { user }, data: {} } as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    gateway = new SocketGateway(
+      {} as any,
+      {} as any,
+      appHooksService as any,
+      {} as any,
+    );
+    gateway.server = server as any;
+  });
+
+  it('broadcasts only the primary keys of the changed rows', async () => {
+    await gateway['broadcast'](AppEvents.DATA_UPDATE, {
+      context: { workspace_id: 'ws1', base_id: 'base1' },
+      table,
+      viewId: 'view1',
+      user: { id: 'user1' },
+      rows: [
+        { Id: 1, Title: 'secret' },
+        { Id: 2, Title: 'hidden' },
+      ],
+    });
+
+    expect(server.in).toHaveBeenCalledWith('table:tbl1');
+    expect(emit).toHaveBeenCalledWith('data:change', {
+      action: AppEvents.DATA_UPDATE,
+      tableId: 'tbl1',
+      viewId: 'view1',
+      userId: 'user1',
+      rowIds: ['1', '2'],
+    });
+    expect(JSON.stringify(emit.mock.calls)).not.toContain('secret');
+  });
+
+  it('skips the row ids of large bulk changes', async () => {
+    await gateway['broadcast'](AppEvents.DATA_DELETE, {
+      context: { workspace_id: 'ws1', base_id: 'base1' },
+      table,
+      rows: Array.from({ length: 101 }, (_, i) => ({ Id: i + 1 })),
+    });
+
+    expect(emit.mock.calls[0][1].rowIds).toBeNull();
+  });
+
+  it('only lets users with access to the base subscribe', async () => {
+    (Base.get as jest.Mock).mockResolvedValue({
+      id: 'base1',
+      fk_workspace_id: 'ws1',
+    });
+    (Model.get as jest.Mock).mockResolvedValue(table);
+
+    const args = { baseId: 'base1', tableId: 'tbl1' };
+
+    expect(await gateway['canSubscribe'](socketOf(), args)).toBe(false);
+
+    (User.getWithRoles as jest.Mock).mockResolvedValue({
+      base_roles: { [ProjectRoles.NO_ACCESS]: true },
+    });
+    expect(await gateway['canSubscribe'](socketOf({ id: 'user1' }), args)).toBe(
+      false,
+    );
+
+    (User.getWithRoles as jest.Mock).mockResolvedValue({
+      base_roles: { [ProjectRoles.EDITOR]: true },
+    });
+    expect(await gateway['canSubscribe'](socketOf({ id: 'user1' }), args)).toBe(
+      true,
+    );
+
+    // table is hidden once all of its views are hidden for the role
+    (ModelRoleVisibility.list as jest.Mock).mockResolvedValue([
+      { fk_view_id: 'view1', role: ProjectRoles.EDITOR, disabled: true },
+    ]);
+    expect(await gateway['canSubscribe'](socketOf({ id: 'user1' }), args)).toBe(
+      false,
+    );
+  });
+});
@@ -1,15 +1,32 @@
 import crypto from 'crypto';
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { AppEvents, OrgUserRoles, ProjectRoles } from 'nocodb-sdk';
 import { HttpAdapterHost } from '@nestjs/core';
 import { Server } from 'socket.io';
 import { AuthGuard } from '@nestjs/passport';
 import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
 import { WebSocketGateway, WebSocketServer } from '@nestjs/websockets';
-import type { OnModuleInit } from '@nestjs/common';
+import type { OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import type { Socket } from 'socket.io';
+import type { NcContext } from '~/interface/config';
+import type { ColumnEvent, DataEvent } from '~/services/app-hooks/interfaces';
+import type { Filter } from '~/models';
 import { T } from '~/utils';
+import { RootScopes } from '~/utils/globals';
+import { getCompositePkValue } from '~/helpers/dbHelpers';
+import { validateCondition } from '~/helpers/webhookHelpers';
+import {
+  Base,
+  Model,
+  ModelRoleVisibility,
+  RowPolicy,
+  Source,
+  User,
+  View,
+} from '~/models';
 import { JwtStrategy } from '~/strategies/jwt.strategy';
 import { TelemetryService } from '~/services/telemetry.service';
+import { AppHooksService } from '~/services/app-hooks/app-hooks.service';
 
 function getHash(str) {
   return crypto.createHash('md5').update(str).digest('hex');
@@ -22,6 +39,29 @@ const url = new URL(
 let namespace = url.pathname;
 namespace += namespace.endsWith('/') ? '' : '/';
 
+// bulk operations above this size are sent without row ids,
+// clients reload the affected view instead of patching it
+const MAX_PATCH_ROWS = 100;
+
+// user attached to the handshake by the jwt guard of the socket middleware
+type SocketHandshake = Socket['handshake'] & {
+  user?: {
+    id: string;
+    email?: string;
+    display_name?: string;
+    roles?: Record<string, boolean>;
+  };
+};
+
+// base roles of the user, kept on the socket when subscribing to a table so
+// that the row policies of the user apply to the broadcasted changes
+type SocketData = {
+  baseRoles?: Record<string, Record<string, boolean> | null>;
+};
+
+const tableRoom = (tableId: string) => `table:${tableId}`;
+const viewRoom = (viewId: string) => `view:${viewId}`;
+
 @WebSocketGateway({
   cors: {
     origin: '*',
@@ -31,16 +71,19 @@ namespace += namespace.endsWith('/') ? '' : '/';
   namespace,
 })
 @Injectable()
-export class SocketGateway implements OnModuleInit {
+export class SocketGateway implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SocketGateway.name);
   // private server: HttpServer;
   private clients: { [id: string]: Socket } = {};
   private _jobs: { [id: string]: { last_message: any } } = {};
   @WebSocketServer()
   private _io: Server;
+  private unsubscribe: () => void;
 
   constructor(
     private jwtStrategy: JwtStrategy,
     private telemetryService: TelemetryService,
+    private appHooksService: AppHooksService,
     @Inject(HttpAdapterHost) private httpAdapterHost: HttpAdapterHost,
   ) {}
 
@@ -61,8 +104,7 @@ export class SocketGateway implements OnModuleInit {
       .on('connection', (socket) => {
         this.clients[socket.id] = socket;
         const id = getHash(
-          (process.env.NC_SERVER_UUID || T.id) +
-            (socket?.handshake as any)?.user?.id,
+          (process.env.NC_SERVER_UUID || T.id) + this.getUser(socket)?.id,
         );
 
         socket.on('page', (args) => {
@@ -77,7 +119,277 @@ export class SocketGateway implements OnModuleInit {
           // T.event({ ...args, id });
           this.telemetryService.sendEvent({ evt_type: event, ...args, id });
         });
+
+        socket.on('subscribe', async ({ baseId, tableId, viewId } = {}) => {
+          try {
+            if (!(await this.canSubscribe(socket, { baseId, tableId, viewId })))
+              return;
+
+            socket.join(tableRoom(tableId));
+            if (viewId) socket.join(viewRoom(viewId));
+          } catch (e) {
+            this.logger.error(e?.message, e?.stack);
+          }
+        });
+
+        socket.on('unsubscribe', ({ tableId, viewId } = {}) => {
+          if (viewId) {
+            this.clearCellSelection(socket, viewRoom(viewId));
+            socket.leave(viewRoom(viewId));
+          }
+          if (tableId) socket.leave(tableRoom(tableId));
+        });
+
+        socket.on('cell:select', ({ viewId, rowId, columnId } = {}) => {
+          // only sockets which passed the access check in `subscribe` are in the room
+          if (!viewId || !socket.rooms.has(viewRoom(viewId))) return;
+
+          socket.to(viewRoom(viewId)).emit('cell:select', {
+            viewId,
+            rowId: rowId ?? null,
+            columnId: columnId ?? null,
+            collaborator: this.getCollaborator(socket),
+          });
+        });
+
+        socket.on('disconnecting', () => {
+          for (const room of socket.rooms) {
+            if (room.startsWith('view:')) this.clearCellSelection(socket, room);
+          }
+        });
+
+        socket.on('disconnect', () => {
+          delete this.clients[socket.id];
+        });
       });
+
+    this.unsubscribe = this.appHooksService.onAll(({ event, data }) =>
+      this.broadcast(event as AppEvents, data),
+    );
+  }
+
+  onModuleDestroy() {
+    this.unsubscribe?.();
+  }
+
+  private async broadcast(event: AppEvents, data: any) {
+    switch (event) {
+      case AppEvents.DATA_CREATE:
+      case AppEvents.DATA_UPDATE:
+      case AppEvents.DATA_DELETE: {
+        const { context, table, viewId, user, rows, prevRows, clientId } =
+          data as DataEvent;
+        if (!table?.id) return;
+
+        const model = table instanceof Model ? table : new Model(table);
+        if (!model.columns) await model.getColumns(context);
+
+        const payload = {
+          action: event,
+          tableId: table.id,
+          viewId,
+          userId: user?.id,
+        };
+
+        // only the ids are sent, clients fetch the rows through the data api
+        // which applies the field access of the user
+        if (rows.length > MAX_PATCH_ROWS) {
+          this.emitToRoom(tableRoom(table.id), clientId, 'data:change', {
+            ...payload,
+            rowIds: null,
+          });
+          return;
+        }
+
+        const sockets = await this.server
+          .in(tableRoom(table.id))
+          .fetchSockets();
+
+        // visible row ids by the roles of the subscribed users
+        const rowIdsByRoles = new Map<string, Promise<string[]>>();
+
+        for (const socket of sockets) {
+          if (socket.id === clientId) continue;
+
+          const roles = (socket.data as SocketData)?.baseRoles?.[model.base_id];
+          const rolesKey = JSON.stringify(roles ?? null);
+
+          if (!rowIdsByRoles.has(rolesKey)) {
+            rowIdsByRoles.set(
+              rolesKey,
+              RowPolicy.getRowFilter(context, {
+                fk_model_id: model.id,
+                roles: roles ?? undefined,
+              }).then((rowFilter) =>
+                this.getRowIds(context, model, rows, prevRows, rowFilter),
+              ),
+            );
+          }
+
+          const rowIds = await rowIdsByRoles.get(rolesKey);
+
+          // none of the changed rows are visible to the user
+          if (!rowIds.length) continue;
+
+          socket.emit('data:change', { ...payload, rowIds });
+        }
+        break;
+      }
+      case AppEvents.COLUMN_CREATE:
+      case AppEvents.COLUMN_UPDATE:
+      case AppEvents.COLUMN_DELETE: {
+        const { table, columnId, clientId } = data as ColumnEvent;
+        if (!table?.id) return;
+
+        this.emitToRoom(tableRoom(table.id), clientId, 'schema:change', {
+          action: event,
+          tableId: table.id,
+          columnId,
+        });
+        break;
+      }
+    }
+  }
+
+  // ids of the rows matching the row filter of the user, an updated row is
+  // included when it matched before the update as well so that clients
+  // drop rows which moved out of the policy
+  private async getRowIds(
+    context: NcContext,
+    model: Model,
+    rows: Record<string, any>[],
+    prevRows: Record<string, any>[] = [],
+    rowFilter?: Filter | null,
+  ) {
+    const client = rowFilter
+      ? (await Source.get(context, model.source_id))?.type
+      : null;
+
+    const rowIds: string[] = [];
+
+    for (const row of rows) {
+      const rowId = getCompositePkValue(model.primaryKeys, row);
+      if (rowId === null || rowId === undefined) continue;
+
+      if (rowFilter) {
+        const prevRow = prevRows.find(
+          (prev) => getCompositePkValue(model.primaryKeys, prev) === rowId,
+        );
+
+        let visible = false;
+        for (const data of [row, prevRow]) {
+          if (!data) continue;
+          if (await validateCondition(context, [rowFilter], data, { client })) {
+            visible = true;
+            break;
+          }
+        }
+        if (!visible) continue;
+      }
+
+      rowIds.push(`${rowId}`);
+    }
+
+    return rowIds;
+  }
+
+  // skip the socket which made the change, it already has the latest state
+  private emitToRoom(
+    room: string,
+    clientId: string | undefined,
+    event: string,
+    payload: Record<string, any>,
+  ) {
+    const operator = this.server.to(room);
+    (clientId ? operator.except(clientId) : operator).emit(event, payload);
+  }
+
+  private async canSubscribe(
+    socket: Socket,
+    {
+      baseId,
+      tableId,
+      viewId,
+    }: { baseId: string; tableId: string; viewId?: string },
+  ) {
+    const user = this.getUser(socket);
+    if (!user?.id || !baseId || !tableId) return false;
+
+    const base = await Base.get(
+      { workspace_id: RootScopes.BYPASS, base_id: RootScopes.BYPASS },
+      baseId,
+    );
+    if (!base || base.deleted) return false;
+
+    const context = { workspace_id: base.fk_workspace_id, base_id: base.id };
+
+    const model = await Model.get(context, tableId);
+    if (!model || model.base_id !== base.id) return false;
+
+    if (viewId) {
+      const view = await View.get(context, viewId);
+      if (!view || view.fk_model_id !== model.id) return false;
+    }
+
+    const socketData = socket.data as SocketData;
+
+    if (user.roles?.[OrgUserRoles.SUPER_ADMIN]) {
+      socketData.baseRoles = { ...socketData.baseRoles, [base.id]: null };
+      return true;
+    }
+
+    const { base_roles } = await User.getWithRoles(context, user.id, {
+      baseId: base.id,
+    });
+
+    if (!base_roles || base_roles[ProjectRoles.NO_ACCESS]) return false;
+
+    // tables are only accessible through the views which are not hidden for
+    // one of the roles of the user
+    const hiddenViews = (
+      await ModelRoleVisibility.list(context, base.id)
+    ).filter((visibility) => visibility.disabled);
+    const visibleViewIds = (await model.getViews(context))
+      .filter((view) =>
+        Object.values(ProjectRoles).some(
+          (role) =>
+            base_roles[role] &&
+            !hiddenViews.some(
+              (visibility) =>
+                visibility.fk_view_id === view.id && visibility.role === role,
+            ),
+        ),
+      )
+      .map((view) => view.id);
+
+    if (!visibleViewIds.length) return false;
+    if (viewId && !visibleViewIds.includes(viewId)) return false;
+
+    socketData.baseRoles = { ...socketData.baseRoles, [base.id]: base_roles };
+    return true;
+  }
+
+  private getUser(socket: Socket) {
+    return (socket.handshake as SocketHandshake).user;
+  }
+
+  private getCollaborator(socket: Socket) {
+    const user = this.getUser(socket);
+    return {
+      socketId: socket.id,
+      id: user?.id,
+      email: user?.email,
+      display_name: user?.display_name,
+    };
+  }
+
+  private clearCellSelection(socket: Socket, room: string) {
+    socket.to(room).emit('cell:select', {
+      viewId: room.slice('view:'.length),
+      rowId: null,
+      columnId: null,
+      collaborator: this.getCollaborator(socket),
+    });
   }
 
   public get io() {
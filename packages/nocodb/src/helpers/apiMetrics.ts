@@ -1,5 +1,10 @@
-import type { Request } from 'express';
+import type { Request, Response } from 'express';
 import { T } from '~/utils';
+import {
+  httpRequestDuration,
+  httpRequestErrors,
+  isMetricsEnabled,
+} from '~/helpers/metricsHelpers';
 
 const countMap = {};
 
@@ -18,9 +23,40 @@ const metaApiMetrics = (_req: Request, _res, next) => {
   // metrics(req, 50).then(() => {});
   next();
 };
-export default (_req: Request, _res, next) => {
-  // metrics(req).then(() => {});
+
+// records the request duration once the response is sent, the route
+// template is only known after routing so it's read on finish
+const prometheusMetrics = (req: Request, res: Response, next) => {
+  if (!isMetricsEnabled()) return next();
+
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    // requests not handled by an api route (gui assets, 404s) are skipped
+    // to keep the number of series bounded
+    if (!req.route?.path) return;
+
+    const labels = {
+      method: req.method,
+      route: `${req.baseUrl ?? ''}${req.route.path}`,
+    };
+
+    httpRequestDuration.observe(
+      labels,
+      Number(process.hrtime.bigint() - start) / 1e9,
+    );
+
+    if (res.statusCode >= 400) {
+      httpRequestErrors.inc({ ...labels, status: res.statusCode });
+    }
+  });
+
   next();
 };
 
+export default (req: Request, res: Response, next) => {
+  // metrics(req).then(() => {});
+  prometheusMetrics(req, res, next);
+};
+
 export { metaApiMetrics };
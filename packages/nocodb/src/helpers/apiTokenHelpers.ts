@@ -0,0 +1,50 @@
+import type { ApiTokenReqType } from 'nocodb-sdk';
+import { NcError } from '~/helpers/catchError';
+import { Base } from '~/models';
+import { RootScopes } from '~/utils/globals';
+
+// validate scope and expiry of a new api token, access to the bases is
+// still verified against the user roles on every request
+export async function validateApiTokenReq(tokenBody: ApiTokenReqType) {
+  if (process.env.NC_API_TOKEN_REQUIRE_EXPIRY === 'true' && !tokenBody.expiry) {
+    NcError.badRequest('Token expiry is required');
+  }
+
+  if (tokenBody.expiry) {
+    const expiry = new Date(tokenBody.expiry);
+
+    if (isNaN(expiry.getTime())) {
+      NcError.badRequest('Invalid token expiry');
+    }
+
+    if (expiry.getTime() <= Date.now()) {
+      NcError.badRequest('Token expiry should be in the future');
+    }
+  }
+
+  for (const baseId of tokenBody.base_ids ?? []) {
+    const base = await Base.get(
+      {
+        workspace_id: RootScopes.BASE,
+        base_id: RootScopes.BASE,
+      },
+      baseId,
+    );
+
+    if (!base) {
+      NcError.baseNotFound(baseId);
+    }
+  }
+}
+
+// api tokens restricted to bases only get to see those bases
+export function filterApiTokenBases<T extends { id?: string }[]>(
+  user: { api_token?: { base_ids?: string[] } },
+  bases: T,
+): T {
+  const baseIds = user?.api_token?.base_ids;
+
+  if (!baseIds?.length) return bases;
+
+  return bases.filter((base) => baseIds.includes(base.id)) as T;
+}
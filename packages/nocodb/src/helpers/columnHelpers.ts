@@ -10,6 +10,7 @@ import { REGEXSTR_INTL_LETTER, REGEXSTR_NUMERIC_ARABIC } from 'nocodb-sdk';
 import type {
   BoolType,
   ColumnReqType,
+  FilterType,
   LinkToAnotherRecordType,
   LookupColumnReqType,
   NcRequest,
@@ -23,6 +24,7 @@ import type { NcContext } from '~/interface/config';
 import type { RollupColumn, View } from '~/models';
 import { GridViewColumn } from '~/models';
 import validateParams from '~/helpers/validateParams';
+import { validatePayload } from '~/helpers/apiHelpers';
 import { getUniqueColumnAliasName } from '~/helpers/getUniqueName';
 import Column from '~/models/Column';
 import { DriverClient } from '~/utils/nc-config';
@@ -357,13 +359,30 @@ export async function validateRollupPayload(
   }
 
   const relatedTable = await relatedColumn.getModel(context);
+  const relatedTableColumns = await relatedTable.getColumns(context);
   if (
-    !(await relatedTable.getColumns(context)).find(
+    !relatedTableColumns.find(
       (c) => c.id === (payload as RollupColumnReqType).fk_rollup_column_id,
     )
   )
     throw new Error('Rollup column not found in related table');
 
+  // filters are applied on the related table records
+  const validateFilters = (filters: FilterType[] = []) => {
+    for (const filter of filters) {
+      validatePayload('swagger.json#/components/schemas/FilterReq', filter);
+
+      if (filter.is_group) {
+        validateFilters(filter.children);
+      } else if (
+        !relatedTableColumns.find((c) => c.id === filter.fk_column_id)
+      ) {
+        throw new Error('Rollup filter column not found in related table');
+      }
+    }
+  };
+  validateFilters((payload as RollupColumnReqType).filters);
+
   if (
     !getAvailableRollupForUiType(relatedColumn.uidt).includes(
       (payload as RollupColumnReqType).rollup_function,
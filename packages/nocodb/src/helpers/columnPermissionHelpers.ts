@@ -0,0 +1,55 @@
+import { isColumnHiddenForRoles } from 'nocodb-sdk';
+import type { NcContext } from '~/interface/config';
+import type { Column } from '~/models';
+import { NcError } from '~/helpers/catchError';
+import { Filter, Sort } from '~/models';
+
+const isHidden = (context: NcContext, column: Column) =>
+  !!column && isColumnHiddenForRoles(column, context.user?.base_roles);
+
+const isSameValue = (a: unknown, b: unknown) => `${a ?? ''}` === `${b ?? ''}`;
+
+const hiddenColumnError = (column: Column) =>
+  NcError.forbidden(`Column "${column.title}" is hidden for your role`);
+
+// values of a hidden column can be inferred by filtering, sorting, grouping
+// or aggregating on it, so these are rejected for the roles it is hidden for
+export function verifyColumnNotHidden(context: NcContext, column: Column) {
+  if (isHidden(context, column)) hiddenColumnError(column);
+}
+
+// filters saved in meta (view filters, row policies) are configured by users
+// with access to the column and are applied as is
+export async function verifyFilterColumnNotHidden(
+  context: NcContext,
+  filter: Filter,
+  column: Column,
+) {
+  if (!isHidden(context, column)) return;
+
+  const savedFilter = filter.id && (await Filter.get(context, filter.id));
+
+  if (
+    !savedFilter ||
+    savedFilter.fk_column_id !== filter.fk_column_id ||
+    savedFilter.comparison_op !== filter.comparison_op ||
+    !isSameValue(savedFilter.comparison_sub_op, filter.comparison_sub_op) ||
+    !isSameValue(savedFilter.value, filter.value)
+  ) {
+    hiddenColumnError(column);
+  }
+}
+
+export async function verifySortColumnNotHidden(
+  context: NcContext,
+  sort: Sort,
+  column: Column,
+) {
+  if (!isHidden(context, column)) return;
+
+  const savedSort = sort.id && (await Sort.get(context, sort.id));
+
+  if (!savedSort || savedSort.fk_column_id !== sort.fk_column_id) {
+    hiddenColumnError(column);
+  }
+}
@@ -1,12 +1,39 @@
+import {
+  CURRENT_USER_TOKEN,
+  isCreatedOrLastModifiedByCol,
+  UITypes,
+} from 'nocodb-sdk';
 import type { NcContext } from 'nocodb-sdk';
 import type Column from '~/models/Column';
 import type Filter from '~/models/Filter';
 
+// replace `@me` in user field filters with the id of the requesting user,
+// when there is no user (eg. shared view) the filter shouldn't match any user
 export const handleCurrentUserFilter = (
-  _context: NcContext,
-  _param: {
+  context: NcContext,
+  param: {
     column: Column;
     filter: Filter;
     setVal: (val: string) => void;
   },
-) => {};
+) => {
+  const { column, filter, setVal } = param;
+
+  if (column.uidt !== UITypes.User && !isCreatedOrLastModifiedByCol(column)) {
+    return;
+  }
+
+  if (typeof filter.value !== 'string') return;
+
+  const values = filter.value.split(',').map((v) => v.trim());
+
+  if (!values.includes(CURRENT_USER_TOKEN)) return;
+
+  setVal(
+    values
+      .map((v) =>
+        v === CURRENT_USER_TOKEN ? context.user?.id ?? '__nc_no_user__' : v,
+      )
+      .join(','),
+  );
+};
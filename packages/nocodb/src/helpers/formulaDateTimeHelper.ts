@@ -0,0 +1,381 @@
+// Helpers for DATETIME_FORMAT, DATETIME_PARSE and SET_TIMEZONE formulas.
+// Patterns use dayjs tokens and are translated into the dialect specific
+// format so that every database produces the same output.
+
+export type DateTimeToken =
+  | 'YYYY'
+  | 'YY'
+  | 'MMMM'
+  | 'MMM'
+  | 'MM'
+  | 'M'
+  | 'DD'
+  | 'D'
+  | 'dddd'
+  | 'ddd'
+  | 'HH'
+  | 'H'
+  | 'hh'
+  | 'h'
+  | 'mm'
+  | 'ss'
+  | 'A';
+
+export type DateTimePatternPart =
+  | { token: DateTimeToken }
+  | { literal: string };
+
+const TOKEN_REGEX =
+  /\[([^\]]*)]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A/g;
+
+// tokens which have a fixed width and can be parsed back in every dialect
+const TOKEN_WIDTH: Partial<Record<DateTimeToken, number>> = {
+  YYYY: 4,
+  MM: 2,
+  DD: 2,
+  HH: 2,
+  mm: 2,
+  ss: 2,
+};
+
+const PG_TOKENS: Record<DateTimeToken, string> = {
+  YYYY: 'YYYY',
+  YY: 'YY',
+  MMMM: 'FMMonth',
+  MMM: 'Mon',
+  MM: 'MM',
+  M: 'FMMM',
+  DD: 'DD',
+  D: 'FMDD',
+  dddd: 'FMDay',
+  ddd: 'Dy',
+  HH: 'HH24',
+  H: 'FMHH24',
+  hh: 'HH12',
+  h: 'FMHH12',
+  mm: 'MI',
+  ss: 'SS',
+  A: 'AM',
+};
+
+const MYSQL_TOKENS: Record<DateTimeToken, string> = {
+  YYYY: '%Y',
+  YY: '%y',
+  MMMM: '%M',
+  MMM: '%b',
+  MM: '%m',
+  M: '%c',
+  DD: '%d',
+  D: '%e',
+  dddd: '%W',
+  ddd: '%a',
+  HH: '%H',
+  H: '%k',
+  hh: '%h',
+  h: '%l',
+  mm: '%i',
+  ss: '%s',
+  A: '%p',
+};
+
+// .NET custom format specifiers used by FORMAT()
+const MSSQL_TOKENS: Record<DateTimeToken, string> = {
+  YYYY: 'yyyy',
+  YY: 'yy',
+  MMMM: 'MMMM',
+  MMM: 'MMM',
+  MM: 'MM',
+  M: 'M',
+  DD: 'dd',
+  D: 'd',
+  dddd: 'dddd',
+  ddd: 'ddd',
+  HH: 'HH',
+  H: 'H',
+  hh: 'hh',
+  h: 'h',
+  mm: 'mm',
+  ss: 'ss',
+  A: 'tt',
+};
+
+// strftime / strptime specifiers of DuckDB
+const DUCKDB_TOKENS: Record<DateTimeToken, string> = {
+  YYYY: '%Y',
+  YY: '%y',
+  MMMM: '%B',
+  MMM: '%b',
+  MM: '%m',
+  M: '%-m',
+  DD: '%d',
+  D: '%-d',
+  dddd: '%A',
+  ddd: '%a',
+  HH: '%H',
+  H: '%-H',
+  hh: '%I',
+  h: '%-I',
+  mm: '%M',
+  ss: '%S',
+  A: '%p',
+};
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+const DAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+// sqlite strftime lacks names and 12 hour clock, so each token
+// is mapped to an expression over the date placeholder `?`
+const SQLITE_TOKENS: Record<DateTimeToken, string> = {
+  YYYY: `strftime('%Y', ?)`,
+  YY: `substr(strftime('%Y', ?), 3, 2)`,
+  MMMM: `(CASE strftime('%m', ?) ${MONTH_NAMES.map(
+    (name, i) => `WHEN '${String(i + 1).padStart(2, '0')}' THEN '${name}'`,
+  ).join(' ')} END)`,
+  MMM: `substr('${MONTH_NAMES.map((name) => name.slice(0, 3)).join(
+    '',
+  )}', strftime('%m', ?) * 3 - 2, 3)`,
+  MM: `strftime('%m', ?)`,
+  M: `CAST(strftime('%m', ?) AS INTEGER)`,
+  DD: `strftime('%d', ?)`,
+  D: `CAST(strftime('%d', ?) AS INTEGER)`,
+  dddd: `(CASE strftime('%w', ?) ${DAY_NAMES.map(
+    (name, i) => `WHEN '${i}' THEN '${name}'`,
+  ).join(' ')} END)`,
+  ddd: `substr('${DAY_NAMES.map((name) => name.slice(0, 3)).join(
+    '',
+  )}', strftime('%w', ?) * 3 + 1, 3)`,
+  HH: `strftime('%H', ?)`,
+  H: `CAST(strftime('%H', ?) AS INTEGER)`,
+  hh: `printf('%02d', (strftime('%H', ?) + 11) % 12 + 1)`,
+  h: `((strftime('%H', ?) + 11) % 12 + 1)`,
+  mm: `strftime('%M', ?)`,
+  ss: `strftime('%S', ?)`,
+  A: `(CASE WHEN strftime('%H', ?) < '12' THEN 'AM' ELSE 'PM' END)`,
+};
+
+export function tokenizeDateTimePattern(
+  pattern: string,
+): DateTimePatternPart[] {
+  const parts: DateTimePatternPart[] = [];
+  let lastIndex = 0;
+  const pushLiteral = (literal: string) => {
+    if (!literal) return;
+    const last = parts[parts.length - 1];
+    if (last && 'literal' in last) last.literal += literal;
+    else parts.push({ literal });
+  };
+
+  for (const match of pattern.matchAll(TOKEN_REGEX)) {
+    pushLiteral(pattern.slice(lastIndex, match.index));
+    if (match[1] !== undefined) pushLiteral(match[1]);
+    else parts.push({ token: match[0] as DateTimeToken });
+    lastIndex = match.index + match[0].length;
+  }
+  pushLiteral(pattern.slice(lastIndex));
+
+  return parts;
+}
+
+// format string for pg TO_CHAR / mysql DATE_FORMAT / mssql FORMAT /
+// duckdb strftime
+export function getDateTimeFormat(pattern: string, clientType: string) {
+  const parts = tokenizeDateTimePattern(pattern);
+  if (clientType === 'mssql') {
+    // every literal character is escaped so letters aren't read as specifiers
+    const format = parts
+      .map((part) =>
+        'token' in part
+          ? MSSQL_TOKENS[part.token]
+          : part.literal.replace(/[\s\S]/g, '\\$&'),
+      )
+      .join('');
+    // a single character format would be read as a standard format
+    return format.length === 1 ? `%${format}` : format;
+  }
+  return parts
+    .map((part) => {
+      if (clientType === 'pg') {
+        return 'token' in part
+          ? PG_TOKENS[part.token]
+          : `"${part.literal.replace(/(["\\])/g, '\\$1')}"`;
+      }
+      if (clientType === 'duckdb') {
+        return 'token' in part
+          ? DUCKDB_TOKENS[part.token]
+          : part.literal.replace(/%/g, '%%');
+      }
+      return 'token' in part
+        ? MYSQL_TOKENS[part.token]
+        : part.literal.replace(/%/g, '%%');
+    })
+    .join('');
+}
+
+// sqlite expression concatenating every token, `null` in bindings
+// marks the places where the date expression has to be bound
+export function getSqliteDateTimeFormatExpr(pattern: string) {
+  const bindings: Array<string | null> = [];
+
+  const sql = tokenizeDateTimePattern(pattern)
+    .map((part) => {
+      if ('token' in part) {
+        bindings.push(null);
+        return SQLITE_TOKENS[part.token];
+      }
+      bindings.push(part.literal);
+      return '?';
+    })
+    .join(' || ');
+
+  return { sql: sql || `''`, bindings };
+}
+
+// fixed width layout of a DATETIME_PARSE pattern, positions are 1-based
+export function getDateTimeParseLayout(pattern: string) {
+  const layout: {
+    positions: Partial<Record<DateTimeToken, number>>;
+    regex: string;
+    glob: string;
+    pgFormat: string;
+    mysqlFormat: string;
+  } = { positions: {}, regex: '^', glob: '', pgFormat: '', mysqlFormat: '' };
+
+  let position = 1;
+  for (const part of tokenizeDateTimePattern(pattern)) {
+    if ('literal' in part) {
+      layout.regex += part.literal.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&');
+      layout.glob += part.literal.replace(/[*?[]/g, '[$&]');
+      layout.pgFormat += `"${part.literal.replace(/(["\\])/g, '\\$1')}"`;
+      layout.mysqlFormat += part.literal.replace(/%/g, '%%');
+      position += part.literal.length;
+      continue;
+    }
+
+    const width = TOKEN_WIDTH[part.token];
+    if (!width) {
+      throw new Error(`Unsupported token ${part.token} in parse pattern`);
+    }
+    layout.positions[part.token] = position;
+    layout.regex += `[0-9]{${width}}`;
+    layout.glob += '[0-9]'.repeat(width);
+    layout.pgFormat += PG_TOKENS[part.token];
+    layout.mysqlFormat += MYSQL_TOKENS[part.token];
+    position += width;
+  }
+  layout.regex += '$';
+
+  return layout;
+}
+
+const OFFSET_REGEX = /^([+-])(\d{2}):?(\d{2})$/;
+
+export function parseUtcOffset(tz: string): number | null {
+  if (tz?.toUpperCase() === 'UTC' || tz?.toUpperCase() === 'Z') return 0;
+  const match = OFFSET_REGEX.exec(tz ?? '');
+  if (!match) return null;
+  return (match[1] === '-' ? -1 : 1) * (+match[2] * 60 + +match[3]);
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getTimezoneOffset(tz: string, ts: number) {
+  let formatter = offsetFormatters.get(tz);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    offsetFormatters.set(tz, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(ts))) {
+    parts[part.type] = +part.value;
+  }
+  const local = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+  );
+  return Math.round((local - Math.floor(ts / 60000) * 60000) / 60000);
+}
+
+const TRANSITION_RANGE = [Date.UTC(1970, 0, 1), Date.UTC(2100, 0, 1)];
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+
+const formatUtc = (ts: number) =>
+  new Date(ts).toISOString().slice(0, 19).replace('T', ' ');
+
+const periodsCache = new Map<string, { u: string; o: number }[]>();
+
+// UTC offset periods of a named time zone between 1970 and 2100 for
+// dialects which can not resolve IANA zones, `u` is the UTC datetime
+// until which the offset `o` (in minutes) applies
+export function getTimezoneOffsetPeriods(tz: string) {
+  if (periodsCache.has(tz)) return periodsCache.get(tz);
+
+  const periods: { u: string; o: number }[] = [];
+  let offset = getTimezoneOffset(tz, TRANSITION_RANGE[0]);
+
+  for (
+    let ts = TRANSITION_RANGE[0] + WEEK;
+    ts < TRANSITION_RANGE[1];
+    ts += WEEK
+  ) {
+    const nextOffset = getTimezoneOffset(tz, ts);
+    if (nextOffset === offset) continue;
+
+    // narrow down the transition to the minute
+    let lo = ts - WEEK;
+    let hi = ts;
+    while (hi - lo > 60000) {
+      const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+      if (getTimezoneOffset(tz, mid) === offset) lo = mid;
+      else hi = mid;
+    }
+    periods.push({ u: formatUtc(hi), o: offset });
+    offset = nextOffset;
+  }
+  periods.push({ u: '9999-12-31 23:59:59', o: offset });
+
+  periodsCache.set(tz, periods);
+  return periods;
+}
+
+export function isValidTimezone(tz: string) {
+  if (parseUtcOffset(tz) !== null) return true;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
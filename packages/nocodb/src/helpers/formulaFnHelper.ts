@@ -27,6 +27,13 @@ export function getWeekdayByIndex(idx: number): string {
   }[idx || 0];
 }
 
+// sort direction of ARRAYSORT, validator restricts it to an 'asc'/'desc' literal
+export function getArraySortOrder(pt: { arguments?: any[] }): 'ASC' | 'DESC' {
+  return String(pt.arguments?.[1]?.value ?? 'asc').toLowerCase() === 'desc'
+    ? 'DESC'
+    : 'ASC';
+}
+
 export async function convertDateFormatForConcat(
   context: NcContext,
   o,
@@ -60,6 +67,12 @@ export async function convertDateFormatForConcat(
         meta.date_format,
         clientType,
       )}', ${query})`;
+    } else if (clientType === 'duckdb') {
+      // same specifiers as sqlite with the arguments swapped
+      query = `strftime(${query}, '${convertDateFormat(
+        meta.date_format,
+        'sqlite3',
+      )}')`;
     }
   }
   return query;
@@ -1,4 +1,5 @@
 import {
+  isColumnHiddenForRoles,
   isCreatedOrLastModifiedByCol,
   isCreatedOrLastModifiedTimeCol,
   isLinksOrLTAR,
@@ -23,6 +24,7 @@ import {
   GridViewColumn,
   KanbanView,
   KanbanViewColumn,
+  TimelineView,
   View,
 } from '~/models';
 import { NcError } from '~/helpers/catchError';
@@ -77,6 +79,8 @@ const getAst = async (
   let coverImageId;
   let dependencyFieldsForCalenderView;
   let kanbanGroupColumnId;
+  let kanbanSwimlaneColumnId;
+  let timelineColumnIds: string[];
   let sortColumnIds: string[] = [];
   let filterColumnIds: string[] = [];
   if (view && view.type === ViewTypes.GALLERY) {
@@ -86,6 +90,7 @@ const getAst = async (
     const kanban = await KanbanView.get(context, view.id);
     coverImageId = kanban.fk_cover_image_col_id;
     kanbanGroupColumnId = kanban.fk_grp_col_id;
+    kanbanSwimlaneColumnId = kanban.fk_swimlane_col_id;
   } else if (view && view.type === ViewTypes.CALENDAR) {
     // const calendar = await CalendarView.get(view.id);
     // coverImageId = calendar.fk_cover_image_col_id;
@@ -93,10 +98,18 @@ const getAst = async (
     if (calenderRanges) {
       dependencyFieldsForCalenderView = calenderRanges.ranges
         .flatMap((obj) =>
-          [obj.fk_from_column_id, (obj as any).fk_to_column_id].filter(Boolean),
+          [obj.fk_from_column_id, obj.fk_to_column_id].filter(Boolean),
         )
         .map(String);
     }
+  } else if (view && view.type === ViewTypes.TIMELINE) {
+    const timeline = await TimelineView.get(context, view.id);
+    timelineColumnIds = [
+      timeline?.fk_start_col_id,
+      timeline?.fk_end_col_id,
+      timeline?.fk_grp_col_id,
+      timeline?.fk_dependency_col_id,
+    ].filter(Boolean);
   }
 
   if (view && includeSortAndFilterColumns) {
@@ -183,11 +196,19 @@ const getAst = async (
     if (coverImageId) {
       allowedCols[coverImageId] = 1;
     }
+    if (kanbanSwimlaneColumnId) {
+      allowedCols[kanbanSwimlaneColumnId] = 1;
+    }
     if (dependencyFieldsForCalenderView) {
       dependencyFieldsForCalenderView.forEach((id) => {
         allowedCols[id] = 1;
       });
     }
+    if (timelineColumnIds) {
+      timelineColumnIds.forEach((id) => {
+        allowedCols[id] = 1;
+      });
+    }
     if (includeSortAndFilterColumns) {
       sortColumnIds.forEach((id) => (allowedCols[id] = 1));
       filterColumnIds.forEach((id) => (allowedCols[id] = 1));
@@ -306,6 +327,15 @@ const getAst = async (
       isRequested = value;
     }
 
+    // exclude columns hidden for the role of the requesting user
+    if (
+      isRequested &&
+      !col.pk &&
+      isColumnHiddenForRoles(col, context.user?.base_roles)
+    ) {
+      isRequested = false;
+    }
+
     if (isRequested || col.pk)
       await extractDependencies(context, col, dependencyFields);
 
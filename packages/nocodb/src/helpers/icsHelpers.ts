@@ -0,0 +1,95 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+
+dayjs.extend(utc);
+
+export interface IcsEvent {
+  uid: string;
+  start: dayjs.Dayjs;
+  // exclusive end of the event, start is used if not set
+  end?: dayjs.Dayjs;
+  // all day events are written as dates without time
+  allDay: boolean;
+  summary?: string;
+  description?: string;
+}
+
+// RFC 5545 3.3.11, backslash, semicolon, comma and new lines are escaped
+export function escapeIcsText(text: string) {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 3.1, lines longer than 75 octets are folded
+export function foldIcsLine(line: string) {
+  const chunks: string[] = [];
+  let chunk = '';
+  let chunkLength = 0;
+
+  for (const char of line) {
+    const charLength = Buffer.byteLength(char);
+    // continuation lines start with a space which counts towards the limit
+    if (chunkLength + charLength > (chunks.length ? 74 : 75)) {
+      chunks.push(chunk);
+      chunk = '';
+      chunkLength = 0;
+    }
+    chunk += char;
+    chunkLength += charLength;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+const formatIcsDate = (date: dayjs.Dayjs, allDay: boolean) =>
+  allDay
+    ? `;VALUE=DATE:${date.format('YYYYMMDD')}`
+    : `:${date.utc().format('YYYYMMDD[T]HHmmss[Z]')}`;
+
+export function serializeIcsCalendar({
+  name,
+  events,
+}: {
+  name: string;
+  events: IcsEvent[];
+}) {
+  const stamp = dayjs().utc().format('YYYYMMDD[T]HHmmss[Z]');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NocoDB//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART${formatIcsDate(event.start, event.allDay)}`,
+    );
+
+    if (event.end) {
+      lines.push(`DTEND${formatIcsDate(event.end, event.allDay)}`);
+    }
+
+    lines.push(`SUMMARY:${escapeIcsText(event.summary ?? '')}`);
+
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    }
+
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
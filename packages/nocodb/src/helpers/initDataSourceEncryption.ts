@@ -100,6 +100,32 @@ export default async function initDataSourceEncryption(_ncMeta = Noco.ncMeta) {
       logger.log(`Encrypted integration config ${integration.title}`);
     }
 
+    const hooks = await ncMeta
+      .knex(MetaTable.HOOKS)
+      .where((qb) => {
+        qb.where('is_encrypted', false).orWhereNull('is_encrypted');
+      })
+      .whereNotNull('signing_secret');
+
+    for (const hook of hooks) {
+      // encrypt the webhook signing secret
+      await ncMeta.metaUpdate(
+        hook.fk_workspace_id,
+        hook.base_id,
+        MetaTable.HOOKS,
+        {
+          signing_secret: encryptPropIfRequired({
+            data: hook,
+            prop: 'signing_secret',
+            secret,
+          }),
+          is_encrypted: true,
+        },
+        hook.id,
+      );
+      logger.log(`Encrypted webhook signing secret ${hook.title}`);
+    }
+
     // if all failed, throw error
     if (successStatus.length && successStatus.every((status) => !status)) {
       // if all fails then rollback and exit
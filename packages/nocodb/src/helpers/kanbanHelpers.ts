@@ -0,0 +1,43 @@
+import { UITypes, ViewTypes } from 'nocodb-sdk';
+import type { NcContext } from '~/interface/config';
+import type { View } from '~/models';
+import { KanbanView } from '~/models';
+
+// field types which can be used to split the stacks into swimlanes
+export const kanbanSwimlaneTypes = [UITypes.SingleSelect, UITypes.User];
+
+export const kanbanWipLimitModes = ['warn', 'block'];
+
+// lanes are counted only when the records of a kanban view are grouped by its stack field
+export async function getKanbanSwimlaneColumnId(
+  context: NcContext,
+  view: View,
+  groupColumnId: string,
+) {
+  if (view?.type !== ViewTypes.KANBAN) return;
+
+  const kanbanView = await KanbanView.get(context, view.id);
+
+  if (kanbanView?.fk_grp_col_id !== groupColumnId) return;
+
+  return kanbanView.fk_swimlane_col_id || undefined;
+}
+
+// group the counts of the stack x lane pairs by the stack
+export function extractLaneCountsByStack(
+  countArr: { key: unknown; sub_key: unknown; count: number | string }[],
+) {
+  const laneCountsByStack = new Map<
+    unknown,
+    { key: unknown; count: number }[]
+  >();
+
+  for (const { key, sub_key, count } of countArr) {
+    if (!laneCountsByStack.has(key)) {
+      laneCountsByStack.set(key, []);
+    }
+    laneCountsByStack.get(key).push({ key: sub_key ?? null, count: +count });
+  }
+
+  return laneCountsByStack;
+}
@@ -0,0 +1,203 @@
+// Minimal Prometheus registry, metrics are kept per process and rendered
+// in the text exposition format by the `/api/v1/metrics` endpoint
+
+type Labels = Record<string, string | number>;
+
+const DEFAULT_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+// endpoint is not behind user auth, so metrics are only collected and served
+// when a token is configured for the scrapers
+export const isMetricsEnabled = () =>
+  process.env.NC_METRICS_ENABLED === 'true' && !!process.env.NC_METRICS_TOKEN;
+
+const escapeLabelValue = (value: string | number) =>
+  `${value}`.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  if (!entries.length) return '';
+  return `{${entries
+    .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+    .join(',')}}`;
+};
+
+// labels are sorted so that the same set of labels always maps to one series
+const getSeriesKey = (labels: Labels) =>
+  JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((key) => [key, labels[key]]),
+  );
+
+abstract class Metric {
+  constructor(public readonly name: string, public readonly help: string) {}
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  protected abstract renderSeries(): string[];
+
+  render() {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSeries(),
+    ].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+
+  protected series = new Map<string, { labels: Labels; value: number }>();
+
+  inc(labels: Labels = {}, value = 1) {
+    if (!isMetricsEnabled()) return;
+
+    const key = getSeriesKey(labels);
+    const series = this.series.get(key);
+    if (series) {
+      series.value += value;
+    } else {
+      this.series.set(key, { labels, value });
+    }
+  }
+
+  values() {
+    return [...this.series.values()];
+  }
+
+  protected renderSeries() {
+    return this.values().map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`,
+    );
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+
+  protected series = new Map<string, { labels: Labels; value: number }>();
+
+  set(labels: Labels, value: number) {
+    this.series.set(getSeriesKey(labels), { labels, value });
+  }
+
+  // gauges collected on scrape are reset so that removed series disappear
+  reset() {
+    this.series.clear();
+  }
+
+  protected renderSeries() {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`,
+    );
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+
+  protected series = new Map<
+    string,
+    { labels: Labels; buckets: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    name: string,
+    help: string,
+    protected readonly buckets = DEFAULT_DURATION_BUCKETS,
+  ) {
+    super(name, help);
+  }
+
+  observe(labels: Labels, value: number) {
+    if (!isMetricsEnabled()) return;
+
+    const key = getSeriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels,
+        buckets: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bucket, i) => {
+      if (value <= bucket) series.buckets[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected renderSeries() {
+    const lines: string[] = [];
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.buckets.forEach((bucket, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({
+            ...labels,
+            le: bucket,
+          })} ${buckets[i]}`,
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({
+          ...labels,
+          le: '+Inf',
+        })} ${count}`,
+      );
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export const httpRequestDuration = new Histogram(
+  'nc_http_request_duration_seconds',
+  'Duration of HTTP requests per route template',
+);
+
+export const httpRequestErrors = new Counter(
+  'nc_http_request_errors_total',
+  'HTTP requests which responded with a 4xx or 5xx status',
+);
+
+export const jobsCompleted = new Counter(
+  'nc_jobs_completed_total',
+  'Jobs which completed successfully',
+);
+
+export const jobsFailed = new Counter(
+  'nc_jobs_failed_total',
+  'Jobs which failed',
+);
+
+export const webhookDeliveries = new Counter(
+  'nc_webhook_deliveries_total',
+  'Webhook deliveries by notification type and outcome',
+);
+
+export const cacheRequests = new Counter(
+  'nc_cache_requests_total',
+  'NocoCache lookups by cache scope and result',
+);
+
+export const recordCacheLookup = (key: string, hit: boolean) =>
+  cacheRequests.inc({
+    scope: `${key}`.split(':')[0],
+    result: hit ? 'hit' : 'miss',
+  });
+
+export const recordJobResult = (
+  job: { name?: string; data?: { jobName?: string } },
+  failed = false,
+) =>
+  (failed ? jobsFailed : jobsCompleted).inc({
+    job: job?.data?.jobName ?? job?.name ?? 'unknown',
+  });
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import Handlebars from 'handlebars';
 import handlebarsHelpers from 'handlebars-helpers-v2';
 import { v4 as uuidv4 } from 'uuid';
@@ -5,7 +6,15 @@ import axios from 'axios';
 import { useAgent } from 'request-filtering-agent';
 import { Logger } from '@nestjs/common';
 import dayjs from 'dayjs';
-import { ColumnHelper, isDateMonthFormat, UITypes } from 'nocodb-sdk';
+import {
+  ColumnHelper,
+  HookLogDeliveryStatus,
+  isDateMonthFormat,
+  UITypes,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_SIGNATURE_PREFIX,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from 'nocodb-sdk';
 import isBetween from 'dayjs/plugin/isBetween';
 import isSameOrBefore from 'dayjs/plugin/isSameOrBefore';
 import isSameOrAfter from 'dayjs/plugin/isSameOrAfter';
@@ -26,6 +35,8 @@ import { Filter, HookLog, Source } from '~/models';
 import { filterBuilder } from '~/utils/api-v3-data-transformation.builder';
 import { addDummyRootAndNest } from '~/services/v3/filters-v3.service';
 import { isEE, isOnPrem } from '~/utils';
+import { NcError } from '~/helpers/catchError';
+import { webhookDeliveries } from '~/helpers/metricsHelpers';
 
 handlebarsHelpers({ handlebars: Handlebars });
 
@@ -43,6 +54,14 @@ Handlebars.registerHelper('json', function (context, pretty = false) {
 
 const logger = new Logger('webhookHelpers');
 
+// status codes which are considered transient when hook doesn't define its own
+export const DEFAULT_WEBHOOK_RETRY_STATUS_CODES = [
+  408, 425, 429, 500, 502, 503, 504,
+];
+
+// upper limit for the exponential backoff between two delivery attempts
+const MAX_WEBHOOK_RETRY_DELAY = 60 * 60 * 1000;
+
 export function parseBody(template: string, data: any): string {
   if (!template) {
     return template;
@@ -521,6 +540,14 @@ function populateAxiosReq({
           return headersObj;
         }, {})
       : {},
+    ...getRequestOptions(url),
+  };
+
+  return reqPayload;
+}
+
+function getRequestOptions(url: string) {
+  return {
     withCredentials: true,
     ...(process.env.NC_ALLOW_LOCAL_HOOKS !== 'true'
       ? {
@@ -534,10 +561,110 @@ function populateAxiosReq({
       : {}),
     timeout: 30 * 1000,
   };
+}
+
+// same signature as `generateWebhookSignature` of the sdk, which consumers
+// use to verify the request
+export function generateWebhookSignature(
+  secret: string,
+  timestamp: number | string,
+  payload: string,
+) {
+  return `${WEBHOOK_SIGNATURE_PREFIX}${crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex')}`;
+}
+
+// add signature headers if the hook has a signing secret, body is
+// serialised here so that the signed content matches the sent content
+function signWebhookRequest(hook: Hook, reqPayload: Record<string, any>) {
+  const secret = hook.getSigningSecret?.();
+
+  // drop stale signature headers, e.g. when redelivering a logged request
+  for (const name of Object.keys(reqPayload.headers || {})) {
+    if (
+      [
+        WEBHOOK_SIGNATURE_HEADER.toLowerCase(),
+        WEBHOOK_TIMESTAMP_HEADER.toLowerCase(),
+      ].includes(name.toLowerCase())
+    ) {
+      delete reqPayload.headers[name];
+    }
+  }
+
+  if (!secret) return reqPayload;
+
+  if (reqPayload.data !== undefined && typeof reqPayload.data !== 'string') {
+    reqPayload.data = JSON.stringify(reqPayload.data);
+
+    // axios sends string bodies as form data unless the content type is set
+    if (
+      !Object.keys(reqPayload.headers || {}).some(
+        (name) => name.toLowerCase() === 'content-type',
+      )
+    ) {
+      reqPayload.headers = {
+        ...(reqPayload.headers || {}),
+        'Content-Type': 'application/json',
+      };
+    }
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  reqPayload.headers = {
+    ...(reqPayload.headers || {}),
+    [WEBHOOK_TIMESTAMP_HEADER]: `${timestamp}`,
+    [WEBHOOK_SIGNATURE_HEADER]: generateWebhookSignature(
+      secret,
+      timestamp,
+      reqPayload.data ?? '',
+    ),
+  };
 
   return reqPayload;
 }
 
+export function getRetryStatusCodes(hook: Pick<Hook, 'retry_status_codes'>) {
+  if (!hook.retry_status_codes) return DEFAULT_WEBHOOK_RETRY_STATUS_CODES;
+
+  return `${hook.retry_status_codes}`
+    .split(',')
+    .map((code) => parseInt(code.trim(), 10))
+    .filter((code) => !isNaN(code));
+}
+
+// check whether a failed delivery is worth another attempt, only network
+// failures, timeouts and the configured status codes are retried
+export function isRetryableWebhookError(
+  hook: Pick<Hook, 'retry_status_codes'>,
+  e: any,
+) {
+  if (!e?.isAxiosError) return false;
+
+  if (
+    e.message?.includes('private IP address') ||
+    e.response?.data?.message?.includes('private IP address')
+  ) {
+    return false;
+  }
+
+  if (!e.response) return true;
+
+  return getRetryStatusCodes(hook).includes(e.response.status);
+}
+
+// exponential backoff based on hook retry interval, `attempt` is the number
+// of the attempt which just failed (starting from 1)
+export function getWebhookRetryDelay(
+  hook: Pick<Hook, 'retry_interval'>,
+  attempt: number,
+) {
+  const interval = +hook.retry_interval || 60 * 1000;
+  return Math.min(interval * 2 ** (attempt - 1), MAX_WEBHOOK_RETRY_DELAY);
+}
+
 function extractReqPayloadForLog(reqPayload, response?: AxiosResponse<any>) {
   return {
     ...reqPayload,
@@ -613,8 +740,9 @@ export async function invokeWebhook(
     testFilters?;
     throwErrorOnFailure?: boolean;
     testHook?: boolean;
+    attempt?: number;
   },
-) {
+): Promise<void | { retryDelay: number }> {
   const {
     hook,
     model,
@@ -624,8 +752,13 @@ export async function invokeWebhook(
     testFilters = null,
     throwErrorOnFailure = false,
     testHook = false,
+    attempt = 1,
   } = param;
 
+  // every attempt is logged when retries are enabled for the hook
+  const hasRetryPolicy = !testHook && +hook.retries > 0;
+  let retryDelay: number;
+
   let { newData } = param;
 
   let hookLog: HookLogType;
@@ -746,13 +879,16 @@ export async function invokeWebhook(
             newData,
           });
 
+          signWebhookRequest(hook, reqPayload);
+
           const { requestPayload, responsePayload } = await handleHttpWebHook({
             reqPayload,
           });
 
           if (
             process.env.NC_AUTOMATION_LOG_LEVEL === 'ALL' ||
-            (isEE && !process.env.NC_AUTOMATION_LOG_LEVEL)
+            (isEE && !process.env.NC_AUTOMATION_LOG_LEVEL) ||
+            hasRetryPolicy
           ) {
             hookLog = {
               ...hook,
@@ -762,6 +898,8 @@ export async function invokeWebhook(
               response: JSON.stringify(responsePayload),
               triggered_by: user?.email,
               conditions: JSON.stringify(filters),
+              attempt,
+              delivery_status: testHook ? null : HookLogDeliveryStatus.SUCCESS,
             };
           }
         }
@@ -807,6 +945,10 @@ export async function invokeWebhook(
         }
         break;
     }
+
+    if (!testHook) {
+      webhookDeliveries.inc({ type: notification.type, outcome: 'success' });
+    }
   } catch (e) {
     if (e.response) {
       logger.error({
@@ -818,9 +960,28 @@ export async function invokeWebhook(
     } else {
       logger.error(e.message, e.stack);
     }
+    const isUrlHook = notification?.type === 'URL';
+
+    if (
+      isUrlHook &&
+      hasRetryPolicy &&
+      attempt <= +hook.retries &&
+      isRetryableWebhookError(hook, e)
+    ) {
+      retryDelay = getWebhookRetryDelay(hook, attempt);
+    }
+
+    if (!testHook) {
+      webhookDeliveries.inc({
+        type: notification?.type,
+        outcome: retryDelay ? 'retrying' : 'failed',
+      });
+    }
+
     if (
       ['ERROR', 'ALL'].includes(process.env.NC_AUTOMATION_LOG_LEVEL) ||
-      isEE
+      isEE ||
+      hasRetryPolicy
     ) {
       hookLog = {
         ...hook,
@@ -845,6 +1006,13 @@ export async function invokeWebhook(
         response: e.response
           ? JSON.stringify(extractResPayloadForLog(e.response))
           : null,
+        attempt,
+        delivery_status:
+          !isUrlHook || testHook
+            ? null
+            : retryDelay
+            ? HookLogDeliveryStatus.RETRYING
+            : HookLogDeliveryStatus.DEAD_LETTER,
       };
     }
     if (throwErrorOnFailure) {
@@ -877,6 +1045,112 @@ export async function invokeWebhook(
       );
     }
   }
+
+  if (retryDelay) {
+    return { retryDelay };
+  }
+}
+
+// resend the request recorded in a hook log as it is and record
+// the outcome as a new log entry
+export async function redeliverWebhook(
+  context: NcContext,
+  param: {
+    hook: Hook;
+    hookLog: HookLog;
+    user;
+  },
+) {
+  const { hook, hookLog, user } = param;
+
+  const loggedPayload =
+    typeof hookLog.payload === 'string'
+      ? JSON.parse(hookLog.payload)
+      : hookLog.payload;
+
+  if (hookLog.type !== 'URL' || !loggedPayload?.url) {
+    NcError.badRequest('Only URL webhook calls can be redelivered');
+  }
+
+  // headers like content-length are populated by axios on send
+  const headers = Object.entries(loggedPayload.headers || {}).reduce(
+    (headersObj, [name, value]) => {
+      if (name.toLowerCase() !== 'content-length') {
+        headersObj[name] = value;
+      }
+      return headersObj;
+    },
+    {},
+  );
+
+  const reqPayload = {
+    params: loggedPayload.params || {},
+    url: loggedPayload.url,
+    method: loggedPayload.method,
+    data: loggedPayload.data,
+    headers,
+    ...getRequestOptions(loggedPayload.url),
+  };
+
+  // signature is regenerated since the timestamp is part of it
+  signWebhookRequest(hook, reqPayload);
+
+  const startTime = process.hrtime();
+  let newHookLog: Partial<HookLog>;
+
+  try {
+    const { requestPayload, responsePayload } = await handleHttpWebHook({
+      reqPayload,
+    });
+
+    newHookLog = {
+      ...hook,
+      fk_hook_id: hook.id,
+      type: hookLog.type,
+      payload: JSON.stringify(requestPayload),
+      response: JSON.stringify(responsePayload),
+      triggered_by: user?.email,
+      conditions: hookLog.conditions,
+      attempt: 1,
+      delivery_status: HookLogDeliveryStatus.SUCCESS,
+    };
+
+    webhookDeliveries.inc({ type: hookLog.type, outcome: 'redelivered' });
+  } catch (e) {
+    logger.error(e.message, e.stack);
+
+    newHookLog = {
+      ...hook,
+      fk_hook_id: hook.id,
+      type: hookLog.type,
+      payload: JSON.stringify(extractReqPayloadForLog(reqPayload, e.response)),
+      error_code: e.error_code,
+      error_message: e.message,
+      error: JSON.stringify(e),
+      triggered_by: user?.email,
+      conditions: hookLog.conditions,
+      response: e.response
+        ? JSON.stringify(extractResPayloadForLog(e.response))
+        : null,
+      attempt: 1,
+      delivery_status: HookLogDeliveryStatus.DEAD_LETTER,
+    };
+
+    webhookDeliveries.inc({ type: hookLog.type, outcome: 'failed' });
+  }
+
+  newHookLog.execution_time = parseHrtimeToMilliSeconds(
+    process.hrtime(startTime),
+  );
+
+  const inserted = await HookLog.insert(context, {
+    ...newHookLog,
+    test_call: false,
+  });
+
+  return inserted?.id
+    ? await HookLog.get(context, inserted.id)
+    : new HookLog(newHookLog);
 }
 
 export function _transformSubmittedFormDataForEmail(
@@ -46,6 +46,7 @@ export enum JobTypes {
   SyncModuleSyncData = 'sync-module-sync-data',
   SyncModuleMigrateSync = 'sync-module-migrate-sync',
   UpdateUsageStats = 'update-usage-stats',
+  NotificationDigest = 'notification-digest',
 }
 
 export const SKIP_STORING_JOB_META = [
@@ -57,6 +58,7 @@ export const SKIP_STORING_JOB_META = [
   JobTypes.UpdateModelStat,
   JobTypes.UpdateWsStat,
   JobTypes.UpdateSrcStat,
+  JobTypes.NotificationDigest,
 ];
 
 export enum JobStatus {
@@ -169,6 +171,8 @@ export interface HandleWebhookJobData extends JobData {
   viewId: string;
   prevData;
   newData;
+  // delivery attempt number, starting from 1
+  attempt?: number;
 }
 
 export interface DataExportJobData extends JobData {
@@ -179,18 +183,23 @@ export interface DataExportJobData extends JobData {
   };
   modelId: string;
   viewId: string;
-  exportAs: 'csv' | 'json' | 'xlsx';
+  exportAs: 'csv' | 'json' | 'xlsx' | 'parquet';
   ncSiteUrl: string;
 }
 
+export interface NotificationDigestJobData extends JobData {
+  // only notifications created after this time are included
+  since: string;
+  siteUrl: string;
+}
+
 export interface ThumbnailGeneratorJobData extends JobData {
   attachments: AttachmentResType[];
   scope?: PublicAttachmentScope;
 }
 
 export interface CreateSnapshotJobData extends JobData {
-  sourceId: string;
-  snapshotBaseId: string;
+  sourceIds: string[];
   req: NcRequest;
   snapshot: SnapshotType;
 }
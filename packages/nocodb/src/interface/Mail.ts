@@ -1,5 +1,7 @@
 import type {
+  AppEvents,
   BaseType,
+  ColumnType,
   CommentType,
   FormType,
   NcRequest,
@@ -22,6 +24,8 @@ enum MailEvent {
   ORGANIZATION_INVITE = 'ORGANIZATION_INVITE', // OSS
   ORGANIZATION_ROLE_UPDATE = 'ORGANIZATION_ROLE_UPDATE', // OSS
   ROW_USER_MENTION = 'ROW_USER_MENTION',
+  ROW_USER_ASSIGN = 'ROW_USER_ASSIGN',
+  NOTIFICATION_DIGEST = 'NOTIFICATION_DIGEST',
   WORKSPACE_INVITE = 'WORKSPACE_INVITE',
   WORKSPACE_ROLE_UPDATE = 'WORKSPACE_ROLE_UPDATE',
   WORKSPACE_REQUEST_UPGRADE = 'WORKSPACE_REQUEST_UPGRADE',
@@ -92,6 +96,40 @@ interface FormSubmissionPayload {
   }[];
 }
 
+interface RowMentionPayload {
+  base: BaseType;
+  model: TableType;
+  rowId: string;
+  displayValue?: string;
+  // user who is mentioned
+  user: UserType;
+  mentionedBy: UserType;
+  comment?: CommentType;
+  column?: ColumnType;
+  req: Pick<NcRequest, 'ncSiteUrl'>;
+}
+
+interface RowUserAssignPayload {
+  base: BaseType;
+  model: TableType;
+  rowId: string;
+  displayValue?: string;
+  // user who is assigned
+  user: UserType;
+  assignedBy: UserType;
+  column: ColumnType;
+  req: Pick<NcRequest, 'ncSiteUrl'>;
+}
+
+interface NotificationDigestPayload {
+  user: UserType;
+  notifications: {
+    type: AppEvents | string;
+    body: Record<string, any>;
+  }[];
+  req: Pick<NcRequest, 'ncSiteUrl'>;
+}
+
 type MailParams =
   | {
       mailEvent: MailEvent.COMMENT_CREATE | MailEvent.COMMENT_UPDATE;
@@ -128,6 +166,18 @@ type MailParams =
   | {
       mailEvent: MailEvent.FORM_SUBMISSION;
       payload: FormSubmissionPayload;
+    }
+  | {
+      mailEvent: MailEvent.ROW_USER_MENTION;
+      payload: RowMentionPayload;
+    }
+  | {
+      mailEvent: MailEvent.ROW_USER_ASSIGN;
+      payload: RowUserAssignPayload;
+    }
+  | {
+      mailEvent: MailEvent.NOTIFICATION_DIGEST;
+      payload: NotificationDigestPayload;
     };
 
 export { MailEvent, MailParams, FormSubmissionPayload };
@@ -15,6 +15,7 @@ import { hasMinimumRole } from '~/utils/roleHelper';
 import NcPluginMgrv2 from '~/helpers/NcPluginMgrv2';
 import { serialize } from '~/helpers/serialize';
 import { AuditsService } from '~/services/audits.service';
+import { Model } from '~/models';
 
 @Injectable()
 export class McpService {
@@ -33,7 +34,7 @@ export class McpService {
     res: Response,
   ) {
     const server = new McpServer({
-      name: `NoocDB MCP Server`,
+      name: `NocoDB MCP Server`,
       version: '1.0.0',
     });
 
@@ -588,6 +589,18 @@ export class McpService {
         async ({ tableId, rowId, limit = 25, offset = 0 }) => {
           limit = Math.max(1, Math.min(limit || 25, 1000));
           try {
+            // audit list is not scoped by base, so verify the table belongs
+            // to the base the token was issued for
+            const model = await Model.get(context, tableId);
+            if (!model || model.base_id !== context.base_id) {
+              return {
+                content: [
+                  { type: 'text', text: `Error: Table "${tableId}" not found` },
+                ],
+                isError: true,
+              };
+            }
+
             const audits = await this.auditService.auditOnlyList({
               query: {
                 row_id: rowId,
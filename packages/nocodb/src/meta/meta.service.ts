@@ -315,6 +315,8 @@ export class MetaService {
       [MetaTable.CALENDAR_VIEW]: 'cv',
       [MetaTable.CALENDAR_VIEW_COLUMNS]: 'cvc',
       [MetaTable.CALENDAR_VIEW_RANGE]: 'cvr',
+      [MetaTable.TIMELINE_VIEW]: 'tv',
+      [MetaTable.TIMELINE_VIEW_COLUMNS]: 'tvc',
       [MetaTable.USERS]: 'us',
       [MetaTable.ORGS_OLD]: 'org',
       [MetaTable.TEAMS]: 'tm',
@@ -334,6 +336,8 @@ export class MetaService {
       [MetaTable.SNAPSHOT]: 'snap',
       [MetaTable.SCRIPTS]: 'scr',
       [MetaTable.SYNC_CONFIGS]: 'sync',
+      [MetaTable.ROW_POLICY]: 'rp',
+      [MetaTable.RECORD_TRASH]: 'trs',
     };
 
     const prefix = prefixMap[target] || 'nc';
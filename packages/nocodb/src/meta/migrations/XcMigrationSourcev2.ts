@@ -67,6 +67,18 @@ import * as nc_077_column_index_name from '~/meta/migrations/v2/nc_077_column_in
 import * as nc_078_mcp_tokens from '~/meta/migrations/v2/nc_078_mcp_tokens';
 import * as nc_079_cross_base_link from '~/meta/migrations/v2/nc_079_cross_base_link';
 import * as nc_080_sync_mappings from '~/meta/migrations/v2/nc_080_sync_mappings';
+import * as nc_081_hook_retry_policy from '~/meta/migrations/v2/nc_081_hook_retry_policy';
+import * as nc_082_hook_signing_secret from '~/meta/migrations/v2/nc_082_hook_signing_secret';
+import * as nc_083_sync_config_meta from '~/meta/migrations/v2/nc_083_sync_config_meta';
+import * as nc_084_snapshots from '~/meta/migrations/v2/nc_084_snapshots';
+import * as nc_085_api_token_scopes from '~/meta/migrations/v2/nc_085_api_token_scopes';
+import * as nc_086_row_policies from '~/meta/migrations/v2/nc_086_row_policies';
+import * as nc_087_column_permissions from '~/meta/migrations/v2/nc_087_column_permissions';
+import * as nc_088_record_trash from '~/meta/migrations/v2/nc_088_record_trash';
+import * as nc_089_timeline_view from '~/meta/migrations/v2/nc_089_timeline_view';
+import * as nc_090_calendar_ics_feed from '~/meta/migrations/v2/nc_090_calendar_ics_feed';
+import * as nc_091_kanban_swimlanes from '~/meta/migrations/v2/nc_091_kanban_swimlanes';
+import * as nc_092_map_view_columns_source from '~/meta/migrations/v2/nc_092_map_view_columns_source';
 
 // Create a custom migration source class
 export default class XcMigrationSourcev2 {
@@ -145,6 +157,18 @@ export default class XcMigrationSourcev2 {
       'nc_078_mcp_tokens',
       'nc_079_cross_base_link',
       'nc_080_sync_mappings',
+      'nc_081_hook_retry_policy',
+      'nc_082_hook_signing_secret',
+      'nc_083_sync_config_meta',
+      'nc_084_snapshots',
+      'nc_085_api_token_scopes',
+      'nc_086_row_policies',
+      'nc_087_column_permissions',
+      'nc_088_record_trash',
+      'nc_089_timeline_view',
+      'nc_090_calendar_ics_feed',
+      'nc_091_kanban_swimlanes',
+      'nc_092_map_view_columns_source',
     ]);
   }
 
@@ -292,6 +316,30 @@ export default class XcMigrationSourcev2 {
         return nc_079_cross_base_link;
       case 'nc_080_sync_mappings':
         return nc_080_sync_mappings;
+      case 'nc_081_hook_retry_policy':
+        return nc_081_hook_retry_policy;
+      case 'nc_082_hook_signing_secret':
+        return nc_082_hook_signing_secret;
+      case 'nc_083_sync_config_meta':
+        return nc_083_sync_config_meta;
+      case 'nc_084_snapshots':
+        return nc_084_snapshots;
+      case 'nc_085_api_token_scopes':
+        return nc_085_api_token_scopes;
+      case 'nc_086_row_policies':
+        return nc_086_row_policies;
+      case 'nc_087_column_permissions':
+        return nc_087_column_permissions;
+      case 'nc_088_record_trash':
+        return nc_088_record_trash;
+      case 'nc_089_timeline_view':
+        return nc_089_timeline_view;
+      case 'nc_090_calendar_ics_feed':
+        return nc_090_calendar_ics_feed;
+      case 'nc_091_kanban_swimlanes':
+        return nc_091_kanban_swimlanes;
+      case 'nc_092_map_view_columns_source':
+        return nc_092_map_view_columns_source;
     }
   }
 }
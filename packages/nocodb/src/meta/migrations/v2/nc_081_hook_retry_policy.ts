@@ -0,0 +1,26 @@
+import type { Knex } from 'knex';
+import { MetaTable } from '~/utils/globals';
+
+const up = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.HOOKS, (table) => {
+    table.string('retry_status_codes', 255);
+  });
+
+  await knex.schema.alterTable(MetaTable.HOOK_LOGS, (table) => {
+    table.integer('attempt').defaultTo(1);
+    table.string('delivery_status', 20);
+  });
+};
+
+const down = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.HOOKS, (table) => {
+    table.dropColumn('retry_status_codes');
+  });
+
+  await knex.schema.alterTable(MetaTable.HOOK_LOGS, (table) => {
+    table.dropColumn('attempt');
+    table.dropColumn('delivery_status');
+  });
+};
+
+export { up, down };
@@ -0,0 +1,18 @@
+import type { Knex } from 'knex';
+import { MetaTable } from '~/utils/globals';
+
+const up = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.HOOKS, (table) => {
+    table.text('signing_secret');
+    table.boolean('is_encrypted').defaultTo(false);
+  });
+};
+
+const down = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.HOOKS, (table) => {
+    table.dropColumn('signing_secret');
+    table.dropColumn('is_encrypted');
+  });
+};
+
+export { up, down };
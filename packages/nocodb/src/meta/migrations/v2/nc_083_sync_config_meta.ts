@@ -0,0 +1,16 @@
+import type { Knex } from 'knex';
+import { MetaTable } from '~/utils/globals';
+
+const up = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.SYNC_CONFIGS, (table) => {
+    table.text('meta');
+  });
+};
+
+const down = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.SYNC_CONFIGS, (table) => {
+    table.dropColumn('meta');
+  });
+};
+
+export { up, down };
@@ -0,0 +1,28 @@
+import type { Knex } from 'knex';
+import { MetaTable } from '~/utils/globals';
+
+const up = async (knex: Knex) => {
+  await knex.schema.createTable(MetaTable.SNAPSHOT, (table) => {
+    table.string('id', 20).primary();
+    table.string('title', 512);
+    table.string('base_id', 20);
+    table.string('fk_workspace_id', 20);
+
+    // source which is captured in the snapshot
+    table.string('fk_source_id', 20);
+
+    table.string('status', 20);
+
+    table.string('created_by', 20);
+
+    table.timestamps(true, true);
+
+    table.index(['base_id', 'fk_workspace_id'], 'nc_snapshots_context');
+  });
+};
+
+const down = async (knex: Knex) => {
+  await knex.schema.dropTableIfExists(MetaTable.SNAPSHOT);
+};
+
+export { up, down };
@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+import type { Knex } from 'knex';
+import { MetaTable } from '~/utils/globals';
+
+const up = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.API_TOKENS, (table) => {
+    table.string('token_hash', 64);
+    table.text('base_ids');
+    table.timestamp('last_used_at');
+
+    table.index('token_hash');
+  });
+
+  // replace plaintext tokens with their hash
+  const tokens = await knex(MetaTable.API_TOKENS)
+    .select('id', 'token')
+    .whereNotNull('token');
+
+  for (const { id, token } of tokens) {
+    await knex(MetaTable.API_TOKENS)
+      .update({
+        token_hash: crypto.createHash('sha256').update(token).digest('hex'),
+        token: null,
+      })
+      .where({ id });
+  }
+};
+
+const down = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.API_TOKENS, (table) => {
+    table.dropIndex('token_hash');
+    table.dropColumn('token_hash');
+    table.dropColumn('base_ids');
+    table.dropColumn('last_used_at');
+  });
+};
+
+export { up, down };
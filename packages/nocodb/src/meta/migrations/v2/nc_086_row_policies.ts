@@ -0,0 +1,40 @@
+import type { Knex } from 'knex';
+import { MetaTable } from '~/utils/globals';
+
+const up = async (knex: Knex) => {
+  await knex.schema.createTable(MetaTable.ROW_POLICY, (table) => {
+    table.string('id', 20).primary();
+    table.string('title', 255);
+    table.string('fk_workspace_id', 20);
+    table.string('base_id', 20);
+    table.string('source_id', 20);
+    table.string('fk_model_id', 20);
+
+    // base role the policy is applied to
+    table.string('role', 20);
+
+    table.boolean('enabled').defaultTo(true);
+
+    table.timestamps(true, true);
+
+    table.index(['base_id', 'fk_workspace_id'], 'nc_row_policies_context');
+    table.index(['fk_model_id'], 'nc_row_policies_model_idx');
+  });
+
+  await knex.schema.alterTable(MetaTable.FILTER_EXP, (table) => {
+    table.string('fk_row_policy_id', 20);
+
+    table.index(['fk_row_policy_id'], 'nc_filter_exp_row_policy_idx');
+  });
+};
+
+const down = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.FILTER_EXP, (table) => {
+    table.dropIndex(['fk_row_policy_id'], 'nc_filter_exp_row_policy_idx');
+    table.dropColumn('fk_row_policy_id');
+  });
+
+  await knex.schema.dropTableIfExists(MetaTable.ROW_POLICY);
+};
+
+export { up, down };
@@ -0,0 +1,16 @@
+import type { Knex } from 'knex';
+import { MetaTable } from '~/utils/globals';
+
+const up = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.COLUMNS, (table) => {
+    table.text('permissions');
+  });
+};
+
+const down = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.COLUMNS, (table) => {
+    table.dropColumn('permissions');
+  });
+};
+
+export { up, down };
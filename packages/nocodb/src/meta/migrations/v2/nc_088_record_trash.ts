@@ -0,0 +1,36 @@
+import type { Knex } from 'knex';
+import { MetaTable } from '~/utils/globals';
+
+const up = async (knex: Knex) => {
+  await knex.schema.createTable(MetaTable.RECORD_TRASH, (table) => {
+    table.string('id', 20).primary();
+    table.string('fk_workspace_id', 20);
+    table.string('base_id', 20);
+    table.string('source_id', 20);
+    table.string('fk_model_id', 20);
+
+    // primary key of the deleted record
+    table.string('row_id', 255);
+    table.text('display_value');
+
+    // deleted record keyed by column name
+    table.text('data', 'mediumtext');
+
+    // records which were linked through mm and hm relations
+    table.text('links', 'mediumtext');
+
+    table.string('deleted_by', 20);
+    table.string('deleted_by_email', 255);
+
+    table.timestamps(true, true);
+
+    table.index(['base_id', 'fk_workspace_id'], 'nc_record_trash_context');
+    table.index(['fk_model_id', 'created_at'], 'nc_record_trash_model_idx');
+  });
+};
+
+const down = async (knex: Knex) => {
+  await knex.schema.dropTableIfExists(MetaTable.RECORD_TRASH);
+};
+
+export { up, down };
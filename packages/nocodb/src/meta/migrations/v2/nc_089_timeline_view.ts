@@ -0,0 +1,54 @@
+import type { Knex } from 'knex';
+import { MetaTable } from '~/utils/globals';
+
+const up = async (knex: Knex) => {
+  await knex.schema.createTable(MetaTable.TIMELINE_VIEW, (table) => {
+    table.string('fk_view_id', 20).primary();
+    table.string('fk_workspace_id', 20);
+    table.string('base_id', 20);
+    table.string('source_id', 20);
+
+    table.string('title');
+
+    table.string('fk_start_col_id', 20);
+    table.string('fk_end_col_id', 20);
+
+    // optional lane grouping and "depends on" Links column
+    table.string('fk_grp_col_id', 20);
+    table.string('fk_dependency_col_id', 20);
+
+    table.text('meta');
+
+    table.timestamps(true, true);
+
+    table.index(['base_id', 'fk_workspace_id'], 'nc_timeline_view_context');
+  });
+
+  await knex.schema.createTable(MetaTable.TIMELINE_VIEW_COLUMNS, (table) => {
+    table.string('id', 20).primary();
+    table.string('fk_workspace_id', 20);
+    table.string('base_id', 20);
+    table.string('source_id', 20);
+
+    table.string('fk_view_id', 20);
+    table.string('fk_column_id', 20);
+
+    table.boolean('show');
+    table.float('order');
+
+    table.timestamps(true, true);
+
+    table.index(
+      ['base_id', 'fk_workspace_id'],
+      'nc_timeline_view_columns_context',
+    );
+    table.index(['fk_view_id'], 'nc_timeline_view_columns_view_idx');
+  });
+};
+
+const down = async (knex: Knex) => {
+  await knex.schema.dropTableIfExists(MetaTable.TIMELINE_VIEW_COLUMNS);
+  await knex.schema.dropTableIfExists(MetaTable.TIMELINE_VIEW);
+};
+
+export { up, down };
@@ -0,0 +1,27 @@
+import type { Knex } from 'knex';
+import { MetaTable } from '~/utils/globals';
+
+const up = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.CALENDAR_VIEW, (table) => {
+    // token of the public read-only iCalendar feed, null if disabled
+    table.string('ics_token', 255);
+
+    // fields used as summary and description of the feed events
+    table.string('fk_ics_title_col_id', 20);
+    table.string('fk_ics_description_col_id', 20);
+
+    table.index('ics_token', 'nc_calendar_view_ics_token_idx');
+  });
+};
+
+const down = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.CALENDAR_VIEW, (table) => {
+    table.dropIndex('ics_token', 'nc_calendar_view_ics_token_idx');
+
+    table.dropColumn('ics_token');
+    table.dropColumn('fk_ics_title_col_id');
+    table.dropColumn('fk_ics_description_col_id');
+  });
+};
+
+export { up, down };
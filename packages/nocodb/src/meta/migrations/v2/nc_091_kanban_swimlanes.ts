@@ -0,0 +1,17 @@
+import type { Knex } from 'knex';
+import { MetaTable } from '~/utils/globals';
+
+const up = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.KANBAN_VIEW, (table) => {
+    // secondary grouping of the cards, rendered as horizontal lanes
+    table.string('fk_swimlane_col_id', 20);
+  });
+};
+
+const down = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.KANBAN_VIEW, (table) => {
+    table.dropColumn('fk_swimlane_col_id');
+  });
+};
+
+export { up, down };
@@ -0,0 +1,29 @@
+import type { Knex } from 'knex';
+import { MetaTable } from '~/utils/globals';
+
+// map view columns were left out of the `base_id` and `project_id` renames
+// in nc_037, while the model writes `source_id` and `base_id`
+const up = async (knex: Knex) => {
+  if (!(await knex.schema.hasColumn(MetaTable.MAP_VIEW_COLUMNS, 'project_id')))
+    return;
+
+  await knex.schema.alterTable(MetaTable.MAP_VIEW_COLUMNS, (table) => {
+    table.renameColumn('base_id', 'source_id');
+  });
+
+  await knex.schema.alterTable(MetaTable.MAP_VIEW_COLUMNS, (table) => {
+    table.renameColumn('project_id', 'base_id');
+  });
+};
+
+const down = async (knex: Knex) => {
+  await knex.schema.alterTable(MetaTable.MAP_VIEW_COLUMNS, (table) => {
+    table.renameColumn('base_id', 'project_id');
+  });
+
+  await knex.schema.alterTable(MetaTable.MAP_VIEW_COLUMNS, (table) => {
+    table.renameColumn('source_id', 'base_id');
+  });
+};
+
+export { up, down };
@@ -18,6 +18,7 @@ import type {
 } from '@nestjs/common';
 import {
   Base,
+  CalendarView,
   Column,
   Comment,
   Extension,
@@ -27,15 +28,22 @@ import {
   GridViewColumn,
   Hook,
   Model,
+  RowPolicy,
   Sort,
+  SyncConfig,
   SyncSource,
   View,
 } from '~/models';
 import rolePermissions from '~/utils/acl';
 import { NcError } from '~/helpers/catchError';
 import { RootScopes } from '~/utils/globals';
-import { sourceRestrictions } from '~/utils/acl';
+import {
+  apiTokenBaseScopedOrgPermissions,
+  apiTokenReadPermissions,
+  sourceRestrictions,
+} from '~/utils/acl';
 import { MCPToken, Source } from '~/models';
+import { ApiTokenPermission } from '~/models/ApiToken';
 
 export const rolesLabel = {
   [OrgUserRoles.SUPER_ADMIN]: 'Super Admin',
@@ -159,7 +167,8 @@ export class ExtractIdsMiddleware implements NestMiddleware, CanActivate {
       params.gridViewId ||
       params.kanbanViewId ||
       params.galleryViewId ||
-      params.calendarViewId
+      params.calendarViewId ||
+      params.timelineViewId
     ) {
       const view = await View.get(
         context,
@@ -167,7 +176,8 @@ export class ExtractIdsMiddleware implements NestMiddleware, CanActivate {
           params.gridViewId ||
           params.kanbanViewId ||
           params.galleryViewId ||
-          params.calendarViewId,
+          params.calendarViewId ||
+          params.timelineViewId,
       );
 
       if (!view) {
@@ -176,7 +186,8 @@ export class ExtractIdsMiddleware implements NestMiddleware, CanActivate {
             params.gridViewId ||
             params.kanbanViewId ||
             params.galleryViewId ||
-            params.calendarViewId,
+            params.calendarViewId ||
+            params.timelineViewId,
         );
       }
 
@@ -200,6 +211,18 @@ export class ExtractIdsMiddleware implements NestMiddleware, CanActivate {
 
       req.ncBaseId = view.base_id;
       req.ncSourceId = view.source_id;
+    } else if (params.icsToken) {
+      const calendarView = await CalendarView.getByIcsToken(
+        context,
+        req.params.icsToken,
+      );
+
+      if (!calendarView) {
+        NcError.notFound('Calendar feed not found');
+      }
+
+      req.ncBaseId = calendarView.base_id;
+      req.ncSourceId = calendarView.source_id;
     } else if (params.sharedBaseUuid) {
       const base = await Base.getByUuid(context, req.params.sharedBaseUuid);
 
@@ -217,6 +240,23 @@ export class ExtractIdsMiddleware implements NestMiddleware, CanActivate {
 
       req.ncBaseId = hook.base_id;
       req.ncSourceId = hook.source_id;
+    } else if (params.rowPolicyId) {
+      const rowPolicy = await RowPolicy.get(context, params.rowPolicyId);
+
+      if (!rowPolicy) {
+        NcError.genericNotFound('RowPolicy', params.rowPolicyId);
+      }
+
+      req.ncBaseId = rowPolicy.base_id;
+      req.ncSourceId = rowPolicy.source_id;
+    } else if (params.syncConfigId) {
+      const syncConfig = await SyncConfig.get(context, params.syncConfigId);
+
+      if (!syncConfig) {
+        NcError.genericNotFound('Sync', params.syncConfigId);
+      }
+
+      req.ncBaseId = syncConfig.base_id;
     } else if (params.gridViewColumnId) {
       const gridViewColumn = await GridViewColumn.get(
         context,
@@ -403,6 +443,11 @@ export class ExtractIdsMiddleware implements NestMiddleware, CanActivate {
       workspace_id: null,
       base_id: req.ncBaseId,
       api_version: context.api_version,
+      // shared view and calendar feed visitors are restricted by the
+      // row policies of viewer role
+      ...(params.sharedViewUuid || params.icsToken
+        ? { user: { base_roles: { [ProjectRoles.VIEWER]: true } } }
+        : {}),
     };
 
     next();
@@ -469,6 +514,11 @@ export class AclMiddleware implements NestInterceptor {
       };
     }
 
+    // base roles are used for applying row policies on data apis
+    if (req.context?.user) {
+      req.context.user.base_roles = extractRolesObj(req.user.base_roles);
+    }
+
     const roles: Record<string, boolean> = extractRolesObj(userScopeRole);
 
     // extendedScope is used to allow access based on extended scope in which permission is prefixed with scope name and separated by underscore
@@ -535,6 +585,42 @@ export class AclMiddleware implements NestInterceptor {
       // );
     }
 
+    // api tokens can be restricted to specific bases and to read-only access
+    if (req.user?.is_api_token && req.user.api_token) {
+      const { base_ids, permissions } = req.user.api_token;
+
+      if (
+        base_ids?.length &&
+        req.ncBaseId &&
+        !base_ids.includes(req.ncBaseId)
+      ) {
+        NcError.apiTokenNotAllowed({
+          customMessage: 'API token is not allowed to access this base',
+        });
+      }
+
+      // org level apis are not bound to a base, so only the ones which
+      // are limited to the accessible bases are allowed
+      if (
+        base_ids?.length &&
+        scope === 'org' &&
+        !apiTokenBaseScopedOrgPermissions[permissionName]
+      ) {
+        NcError.apiTokenNotAllowed({
+          customMessage: `API token restricted to bases is not allowed to perform '${permissionName}'`,
+        });
+      }
+
+      if (
+        permissions === ApiTokenPermission.READ &&
+        !apiTokenReadPermissions[permissionName]
+      ) {
+        NcError.apiTokenNotAllowed({
+          customMessage: `Read-only API token is not allowed to perform '${permissionName}'`,
+        });
+      }
+    }
+
     // check if permission have source level permission restriction
     // 1. Check if it's present in the source restriction list
     // 2. If present, check if write permission is allowed
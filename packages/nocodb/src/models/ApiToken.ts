@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { nanoid } from 'nanoid';
 import type { ApiTokenType } from 'nocodb-sdk';
 import {
@@ -9,6 +10,15 @@ import {
 } from '~/utils/globals';
 import Noco from '~/Noco';
 import NocoCache from '~/cache/NocoCache';
+import { prepareForDb, prepareForResponse } from '~/utils/modelUtils';
+
+export enum ApiTokenPermission {
+  READ = 'read',
+  WRITE = 'write',
+}
+
+// last used time is written at most once in this interval
+const LAST_USED_UPDATE_INTERVAL = 60 * 1000;
 
 export default class ApiToken implements ApiTokenType {
   id?: string;
@@ -16,41 +26,99 @@ export default class ApiToken implements ApiTokenType {
   base_id?: string;
   fk_user_id?: string;
   description?: string;
+  // read or write, tokens without permissions have write access
   permissions?: string;
+  // only available right after the token is created
   token?: string;
+  token_hash?: string;
+  // bases the token is restricted to, all bases of the user if empty
+  base_ids?: string[];
   expiry?: string;
   enabled?: boolean;
+  last_used_at?: string;
 
   constructor(audit: Partial<ApiToken | ApiTokenType>) {
     Object.assign(this, audit);
   }
 
+  public static hashToken(token: string) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  public isExpired() {
+    return !!this.expiry && new Date(this.expiry).getTime() <= Date.now();
+  }
+
+  // sqlite and mysql return the flag as 0 / 1, tokens without it are enabled
+  public isDisabled() {
+    return (
+      this.enabled !== null && this.enabled !== undefined && !+this.enabled
+    );
+  }
+
   public static async insert(
     apiToken: Partial<ApiToken>,
     ncMeta = Noco.ncMeta,
   ) {
     const token = nanoid(40);
+    const tokenHash = this.hashToken(token);
+
     await ncMeta.metaInsert2(
       RootScopes.ROOT,
       RootScopes.ROOT,
       MetaTable.API_TOKENS,
-      {
-        description: apiToken.description,
-        token,
-        fk_user_id: apiToken.fk_user_id,
-      },
+      prepareForDb(
+        {
+          description: apiToken.description,
+          token_hash: tokenHash,
+          fk_user_id: apiToken.fk_user_id,
+          permissions: apiToken.permissions ?? ApiTokenPermission.WRITE,
+          base_ids: apiToken.base_ids?.length ? apiToken.base_ids : null,
+          expiry: apiToken.expiry ?? null,
+          enabled: true,
+        },
+        ['base_ids'],
+      ),
       true,
     );
     return this.getByToken(token).then(async (apiToken) => {
       await NocoCache.appendToList(
         CacheScope.API_TOKEN,
         [],
-        `${CacheScope.API_TOKEN}:${token}`,
+        `${CacheScope.API_TOKEN}:${tokenHash}`,
       );
+      // raw token is returned only once, it can't be retrieved later
+      apiToken.token = token;
+      delete apiToken.token_hash;
       return apiToken;
     });
   }
 
+  // throttled, so that every request doesn't result in a meta write
+  public static async updateLastUsed(apiToken: ApiToken, ncMeta = Noco.ncMeta) {
+    if (
+      apiToken.last_used_at &&
+      Date.now() - new Date(apiToken.last_used_at).getTime() <
+        LAST_USED_UPDATE_INTERVAL
+    ) {
+      return;
+    }
+
+    const last_used_at = ncMeta.now();
+
+    await ncMeta.metaUpdate(
+      RootScopes.ROOT,
+      RootScopes.ROOT,
+      MetaTable.API_TOKENS,
+      { last_used_at },
+      apiToken.id,
+    );
+
+    await NocoCache.update(`${CacheScope.API_TOKEN}:${apiToken.token_hash}`, {
+      last_used_at,
+    });
+  }
+
   static async list(userId: string, ncMeta = Noco.ncMeta) {
     // let tokens = await NocoCache.getList(CacheScope.API_TOKEN, []);
     // if (!tokens.length) {
@@ -64,13 +132,16 @@ export default class ApiToken implements ApiTokenType {
     );
     // await NocoCache.setList(CacheScope.API_TOKEN, [], tokens);
     // }
-    return tokens?.map((t) => new ApiToken(t));
+    return tokens?.map((t) => {
+      delete t.token_hash;
+      return new ApiToken(prepareForResponse(t, ['base_ids']));
+    });
   }
 
   static async delete(tokenId: string, ncMeta = Noco.ncMeta) {
     const tokenData = await this.get(tokenId, ncMeta);
     await NocoCache.deepDel(
-      `${CacheScope.API_TOKEN}:${tokenData.id}`,
+      `${CacheScope.API_TOKEN}:${tokenData.token_hash}`,
       CacheDelDirection.CHILD_TO_PARENT,
     );
     return await ncMeta.metaDelete(
@@ -81,21 +152,26 @@ export default class ApiToken implements ApiTokenType {
     );
   }
 
-  static async getByToken(token, ncMeta = Noco.ncMeta) {
-    let data =
-      token &&
-      (await NocoCache.get(
-        `${CacheScope.API_TOKEN}:${token}`,
-        CacheGetType.TYPE_OBJECT,
-      ));
+  static async getByToken(token: string, ncMeta = Noco.ncMeta) {
+    if (!token) return null;
+
+    const tokenHash = this.hashToken(token);
+
+    let data = await NocoCache.get(
+      `${CacheScope.API_TOKEN}:${tokenHash}`,
+      CacheGetType.TYPE_OBJECT,
+    );
     if (!data) {
       data = await ncMeta.metaGet(
         RootScopes.ROOT,
         RootScopes.ROOT,
         MetaTable.API_TOKENS,
-        { token },
+        { token_hash: tokenHash },
       );
-      await NocoCache.set(`${CacheScope.API_TOKEN}:${token}`, data);
+      if (data) {
+        data = prepareForResponse(data, ['base_ids']);
+        await NocoCache.set(`${CacheScope.API_TOKEN}:${tokenHash}`, data);
+      }
     }
     return data && new ApiToken(data);
   }
@@ -140,10 +216,14 @@ export default class ApiToken implements ApiTokenType {
       .limit(limit)
       .select(
         `${MetaTable.API_TOKENS}.id`,
-        `${MetaTable.API_TOKENS}.token`,
         `${MetaTable.API_TOKENS}.description`,
         `${MetaTable.API_TOKENS}.fk_user_id`,
         `${MetaTable.API_TOKENS}.base_id`,
+        `${MetaTable.API_TOKENS}.base_ids`,
+        `${MetaTable.API_TOKENS}.permissions`,
+        `${MetaTable.API_TOKENS}.expiry`,
+        `${MetaTable.API_TOKENS}.enabled`,
+        `${MetaTable.API_TOKENS}.last_used_at`,
         `${MetaTable.API_TOKENS}.created_at`,
         `${MetaTable.API_TOKENS}.updated_at`,
       )
@@ -165,7 +245,9 @@ export default class ApiToken implements ApiTokenType {
       queryBuilder.orWhereNull(`${MetaTable.API_TOKENS}.fk_user_id`);
     }
 
-    return queryBuilder;
+    return (await queryBuilder).map((apiToken) =>
+      prepareForResponse(apiToken, ['base_ids']),
+    );
   }
 
   static async get(tokenId: string, ncMeta = Noco.ncMeta) {
@@ -1,10 +1,29 @@
-import { AuditOperationTypes } from 'nocodb-sdk';
-import type { AuditV1OperationTypes } from 'nocodb-sdk';
+import { customAlphabet } from 'nanoid';
+import { AuditOperationTypes, AuditV1OperationTypes } from 'nocodb-sdk';
 import Noco from '~/Noco';
 import { extractProps } from '~/helpers/extractProps';
 import { MetaTable, RootScopes } from '~/utils/globals';
 import { stringifyMetaProp } from '~/utils/modelUtils';
 
+const randomSuffix = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 5);
+
+let lastIdTime = 0;
+let idCounter = 0;
+
+// created_at has a precision of seconds, so audits are given ids which sort
+// in the order they are created in, from the time in milliseconds and a counter
+const genAuditId = () => {
+  const now = Date.now();
+
+  idCounter = now === lastIdTime ? idCounter + 1 : 0;
+  lastIdTime = now;
+
+  return `adt${now.toString(36).padStart(9, '0')}${idCounter
+    .toString(36)
+    .padStart(3, '0')
+    .slice(-3)}${randomSuffix()}`;
+};
+
 export default class Audit {
   id?: string;
   user?: string;
@@ -21,6 +40,7 @@ export default class Audit {
   details?: any;
   version?: number;
   fk_parent_id?: string;
+  created_at?: string;
 
   constructor(audit: Partial<Audit>) {
     Object.assign(this, audit);
@@ -76,6 +96,7 @@ export default class Audit {
           const insertObjs = audit
             .filter((k) => k)
             .map((a) => ({
+              id: genAuditId(),
               ...extractProps(a, propsToExtract),
               details: stringifyMetaProp(a, 'details'),
             }));
@@ -93,7 +114,11 @@ export default class Audit {
             RootScopes.ROOT,
             RootScopes.ROOT,
             MetaTable.AUDIT,
-            { ...insertObj, details: stringifyMetaProp(insertObj, 'details') },
+            {
+              id: genAuditId(),
+              ...insertObj,
+              details: stringifyMetaProp(insertObj, 'details'),
+            },
           );
         }
       };
@@ -142,6 +167,34 @@ export default class Audit {
     return audits?.map((a) => new Audit(a));
   }
 
+  // insert and update audits of a row, latest first, used to rebuild the
+  // field values of the row at each audited point
+  public static async rowRevisionAuditList({
+    limit: _limit = 1000,
+    fk_model_id,
+    row_id,
+  }: {
+    limit?: number | string;
+    fk_model_id: string;
+    row_id: string;
+  }) {
+    const limit = Math.max(1, Math.min(+_limit || 1000, 1000));
+
+    const audits = await Noco.ncMeta
+      .knex(MetaTable.AUDIT)
+      .where('row_id', row_id)
+      .where('fk_model_id', fk_model_id)
+      .whereIn('op_type', [
+        AuditV1OperationTypes.DATA_INSERT,
+        AuditV1OperationTypes.DATA_UPDATE,
+      ])
+      .orderBy('created_at', 'desc')
+      .orderBy('id', 'desc')
+      .limit(limit);
+
+    return audits?.map((a) => new Audit(a));
+  }
+
   public static async auditCount({
     fk_model_id,
     row_id,
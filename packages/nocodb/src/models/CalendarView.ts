@@ -1,3 +1,4 @@
+import { v4 as uuidv4 } from 'uuid';
 import type { BoolType, MetaType } from 'nocodb-sdk';
 import type { CalendarType } from 'nocodb-sdk';
 import type { NcContext } from '~/interface/config';
@@ -17,6 +18,10 @@ export default class CalendarView implements CalendarType {
   meta?: MetaType;
   calendar_range?: Array<Partial<CalendarRange>>;
   fk_cover_image_col_id?: string;
+  // token of the read-only iCalendar feed of the view, null if disabled
+  ics_token?: string;
+  fk_ics_title_col_id?: string;
+  fk_ics_description_col_id?: string;
   // below fields are not in use at this moment
   // keep them for time being
   show?: BoolType;
@@ -65,6 +70,65 @@ export default class CalendarView implements CalendarType {
     return view && new CalendarView(view);
   }
 
+  public static async getByIcsToken(
+    context: NcContext,
+    icsToken: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    if (!icsToken) return null;
+
+    const view = await ncMeta.metaGet2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.CALENDAR_VIEW,
+      {
+        ics_token: icsToken,
+      },
+    );
+
+    return view && this.get(context, view.fk_view_id, ncMeta);
+  }
+
+  // generates a new feed token, urls with the previous token stop working
+  public static async regenerateIcsToken(
+    context: NcContext,
+    viewId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    return await this.setIcsToken(context, viewId, uuidv4(), ncMeta);
+  }
+
+  public static async revokeIcsToken(
+    context: NcContext,
+    viewId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    return await this.setIcsToken(context, viewId, null, ncMeta);
+  }
+
+  private static async setIcsToken(
+    context: NcContext,
+    viewId: string,
+    icsToken: string | null,
+    ncMeta = Noco.ncMeta,
+  ) {
+    await ncMeta.metaUpdate(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.CALENDAR_VIEW,
+      { ics_token: icsToken },
+      {
+        fk_view_id: viewId,
+      },
+    );
+
+    await NocoCache.update(`${CacheScope.CALENDAR_VIEW}:${viewId}`, {
+      ics_token: icsToken,
+    });
+
+    return icsToken;
+  }
+
   static async insert(
     context: NcContext,
     view: Partial<CalendarView>,
@@ -94,7 +158,12 @@ export default class CalendarView implements CalendarType {
     body: Partial<CalendarView>,
     ncMeta = Noco.ncMeta,
   ) {
-    const updateObj = extractProps(body, ['fk_cover_image_col_id', 'meta']);
+    const updateObj = extractProps(body, [
+      'fk_cover_image_col_id',
+      'fk_ics_title_col_id',
+      'fk_ics_description_col_id',
+      'meta',
+    ]);
 
     if (body.calendar_range) {
       await ncMeta.metaDelete(
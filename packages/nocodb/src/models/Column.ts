@@ -9,7 +9,11 @@ import {
 } from 'nocodb-sdk';
 import { Logger } from '@nestjs/common';
 import type { MetaService } from 'src/meta/meta.service';
-import type { ColumnReqType, ColumnType } from 'nocodb-sdk';
+import type {
+  ColumnPermissionsType,
+  ColumnReqType,
+  ColumnType,
+} from 'nocodb-sdk';
 import type { NcContext } from '~/interface/config';
 import FormulaColumn from '~/models/FormulaColumn';
 import LinkToAnotherRecordColumn from '~/models/LinkToAnotherRecordColumn';
@@ -25,11 +29,13 @@ import BarcodeColumn from '~/models/BarcodeColumn';
 import AIColumn from '~/models/AIColumn';
 import {
   ButtonColumn,
+  CalendarView,
   FileReference,
   GalleryView,
   KanbanView,
   LinksColumn,
   Source,
+  TimelineView,
 } from '~/models';
 import { extractProps } from '~/helpers/extractProps';
 import { NcError } from '~/helpers/catchError';
@@ -118,6 +124,9 @@ export default class Column<T = any> implements ColumnType {
 
   public readonly?: boolean;
 
+  // per role field permissions, eg. { editor: 'readonly', viewer: 'hidden' }
+  public permissions?: ColumnPermissionsType;
+
   // we create custom index when custom link created using the column
   public custom_index_name?: boolean;
 
@@ -185,6 +194,7 @@ export default class Column<T = any> implements ColumnType {
       'virtual',
       'description',
       'readonly',
+      'permissions',
     ]);
 
     if (!insertObj.column_name) {
@@ -199,6 +209,10 @@ export default class Column<T = any> implements ColumnType {
       insertObj.meta = JSON.stringify(insertObj.meta);
     }
 
+    if (insertObj.permissions && typeof insertObj.permissions === 'object') {
+      insertObj.permissions = JSON.stringify(insertObj.permissions);
+    }
+
     insertObj.order =
       column.order ??
       (await ncMeta.metaGetNextOrder(MetaTable.COLUMNS, {
@@ -668,6 +682,7 @@ export default class Column<T = any> implements ColumnType {
 
       columnsList.forEach((column) => {
         column.meta = parseMetaProp(column);
+        column.permissions = parseMetaProp(column, 'permissions', null);
       });
 
       await NocoCache.setList(CacheScope.COLUMN, [fk_model_id], columnsList);
@@ -762,6 +777,7 @@ export default class Column<T = any> implements ColumnType {
         } catch {
           colData.meta = {};
         }
+        colData.permissions = parseMetaProp(colData, 'permissions', null);
         await NocoCache.set(`${CacheScope.COLUMN}:${colId}`, colData);
       }
     }
@@ -1141,6 +1157,15 @@ export default class Column<T = any> implements ColumnType {
     // Set Gallery & Kanban view `fk_cover_image_col_id` value to null
     await Column.deleteCoverImageColumnId(context, id, ncMeta);
 
+    // Unset the Timeline view fields which refer to the column
+    await Column.deleteTimelineColumnIds(context, id, ncMeta);
+
+    // Unset the Calendar view feed fields which refer to the column
+    await Column.deleteCalendarFeedColumnIds(context, id, ncMeta);
+
+    // Unset the Kanban view swimlane field if it refers to the column
+    await Column.deleteKanbanSwimlaneColumnId(context, id, ncMeta);
+
     // Delete from view columns
     let colOptionTableName = null;
     let cacheScopeName = null;
@@ -1209,6 +1234,7 @@ export default class Column<T = any> implements ColumnType {
       MetaTable.KANBAN_VIEW_COLUMNS,
       MetaTable.GALLERY_VIEW_COLUMNS,
       MetaTable.CALENDAR_VIEW_COLUMNS,
+      MetaTable.TIMELINE_VIEW_COLUMNS,
     ];
     const viewColumnCacheScope = [
       CacheScope.GRID_VIEW_COLUMN,
@@ -1216,6 +1242,7 @@ export default class Column<T = any> implements ColumnType {
       CacheScope.KANBAN_VIEW_COLUMN,
       CacheScope.GALLERY_VIEW_COLUMN,
       CacheScope.CALENDAR_VIEW_COLUMN,
+      CacheScope.TIMELINE_VIEW_COLUMN,
     ];
 
     for (let i = 0; i < viewColumnTables.length; i++) {
@@ -1859,6 +1886,25 @@ export default class Column<T = any> implements ColumnType {
     );
   }
 
+  static async updatePermissions(
+    context: NcContext,
+    {
+      colId,
+      permissions,
+    }: { colId: string; permissions: ColumnPermissionsType | null },
+    ncMeta = Noco.ncMeta,
+  ) {
+    await ncMeta.metaUpdate(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.COLUMNS,
+      { permissions: permissions ? JSON.stringify(permissions) : null },
+      colId,
+    );
+
+    await NocoCache.update(`${CacheScope.COLUMN}:${colId}`, { permissions });
+  }
+
   static async updateValidation(
     context: NcContext,
     { colId, validate }: { colId: string; validate: any },
@@ -1955,12 +2001,17 @@ export default class Column<T = any> implements ColumnType {
         'system',
         'meta',
         'readonly',
+        'permissions',
       ]);
 
       if (column.meta && typeof column.meta === 'object') {
         insertObj.meta = JSON.stringify(column.meta);
       }
 
+      if (column.permissions && typeof column.permissions === 'object') {
+        insertObj.permissions = JSON.stringify(column.permissions);
+      }
+
       if (column.validate) {
         if (typeof column.validate === 'string')
           insertObj.validate = column.validate;
@@ -2280,4 +2331,104 @@ export default class Column<T = any> implements ColumnType {
 
     await Promise.all(promises);
   }
+
+  private static async deleteTimelineColumnIds(
+    context: NcContext,
+    id: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const timelineColumnProps = [
+      'fk_start_col_id',
+      'fk_end_col_id',
+      'fk_grp_col_id',
+      'fk_dependency_col_id',
+    ];
+
+    const timelineViews: TimelineView[] = await ncMeta.metaList2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.TIMELINE_VIEW,
+      {
+        xcCondition: {
+          _or: timelineColumnProps.map((prop) => ({ [prop]: { eq: id } })),
+        },
+      },
+    );
+
+    for (const timelineView of timelineViews) {
+      await TimelineView.update(
+        context,
+        timelineView.fk_view_id,
+        Object.fromEntries(
+          timelineColumnProps
+            .filter((prop) => timelineView[prop] === id)
+            .map((prop) => [prop, null]),
+        ),
+        ncMeta,
+      );
+    }
+  }
+
+  private static async deleteCalendarFeedColumnIds(
+    context: NcContext,
+    id: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const feedColumnProps = [
+      'fk_ics_title_col_id',
+      'fk_ics_description_col_id',
+    ];
+
+    const calendarViews: CalendarView[] = await ncMeta.metaList2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.CALENDAR_VIEW,
+      {
+        xcCondition: {
+          _or: feedColumnProps.map((prop) => ({ [prop]: { eq: id } })),
+        },
+      },
+    );
+
+    for (const calendarView of calendarViews) {
+      await CalendarView.update(
+        context,
+        calendarView.fk_view_id,
+        Object.fromEntries(
+          feedColumnProps
+            .filter((prop) => calendarView[prop] === id)
+            .map((prop) => [prop, null]),
+        ),
+        ncMeta,
+      );
+    }
+  }
+
+  private static async deleteKanbanSwimlaneColumnId(
+    context: NcContext,
+    id: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const kanbanViews: KanbanView[] = await ncMeta.metaList2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.KANBAN_VIEW,
+      {
+        condition: {
+          fk_swimlane_col_id: id,
+        },
+      },
+    );
+
+    for (const kanbanView of kanbanViews) {
+      await KanbanView.update(
+        context,
+        kanbanView.fk_view_id,
+        {
+          fk_swimlane_col_id: null,
+        },
+        ncMeta,
+      );
+    }
+  }
 }
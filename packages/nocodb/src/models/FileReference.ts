@@ -119,6 +119,39 @@ export default class FileReference {
     await this.updateWorkspaceCache(context, fileReferencesSize, true);
   }
 
+  public static async restore(
+    context: NcContext,
+    fileReferenceIds: string[],
+    ncMeta = Noco.ncMeta,
+  ) {
+    if (!fileReferenceIds?.length) return;
+
+    await ncMeta.bulkMetaUpdate(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.FILE_REFERENCES,
+      { deleted: false },
+      fileReferenceIds,
+    );
+
+    let fileReferencesSize = 0;
+
+    try {
+      fileReferencesSize = await FileReference.sumSize(
+        context,
+        {},
+        fileReferenceIds,
+        ncMeta,
+      );
+    } catch (error) {
+      fileReferencesSize = -1;
+      logger.error('Error while summing file reference size');
+      logger.error(error);
+    }
+
+    await this.updateWorkspaceCache(context, fileReferencesSize);
+  }
+
   public static async bulkDelete(
     context: NcContext,
     condition: {
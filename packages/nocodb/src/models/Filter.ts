@@ -9,6 +9,7 @@ import type { NcContext } from '~/interface/config';
 import Model from '~/models/Model';
 import Column from '~/models/Column';
 import Hook from '~/models/Hook';
+import RowPolicy from '~/models/RowPolicy';
 import View from '~/models/View';
 import Noco from '~/Noco';
 import {
@@ -33,6 +34,7 @@ export default class Filter implements FilterType {
   fk_parent_id?: string;
   fk_link_col_id?: string;
   fk_value_col_id?: string;
+  fk_row_policy_id?: string;
 
   comparison_op?: (typeof COMPARISON_OPS)[number];
   comparison_sub_op?: (typeof COMPARISON_SUB_OPS)[number];
@@ -89,6 +91,7 @@ export default class Filter implements FilterType {
       'fk_link_col_id',
       'fk_value_col_id',
       'fk_parent_column_id',
+      'fk_row_policy_id',
       'fk_column_id',
       'comparison_op',
       'comparison_sub_op',
@@ -106,6 +109,7 @@ export default class Filter implements FilterType {
       'fk_view_id',
       'fk_hook_id',
       'fk_link_col_id',
+      'fk_row_policy_id',
     ].find((k) => filter[k]);
 
     insertObj.order = await ncMeta.metaGetNextOrder(MetaTable.FILTER_EXP, {
@@ -118,6 +122,8 @@ export default class Filter implements FilterType {
         model = await View.get(context, filter.fk_view_id, ncMeta);
       } else if (filter.fk_hook_id) {
         model = await Hook.get(context, filter.fk_hook_id, ncMeta);
+      } else if (filter.fk_row_policy_id) {
+        model = await RowPolicy.get(context, filter.fk_row_policy_id, ncMeta);
       } else if (filter.fk_link_col_id) {
         model = await Column.get(
           context,
@@ -178,11 +184,14 @@ export default class Filter implements FilterType {
     if (
       !(
         id &&
-        (filter.fk_view_id || filter.fk_hook_id || filter.fk_parent_column_id)
+        (filter.fk_view_id ||
+          filter.fk_hook_id ||
+          filter.fk_parent_column_id ||
+          filter.fk_row_policy_id)
       )
     ) {
       throw new Error(
-        `Mandatory fields missing in FILTER_EXP cache population : id(${id}), fk_view_id(${filter.fk_view_id}), fk_hook_id(${filter.fk_hook_id}), fk_parent_column_id(${filter.fk_parent_column_id})`,
+        `Mandatory fields missing in FILTER_EXP cache population : id(${id}), fk_view_id(${filter.fk_view_id}), fk_hook_id(${filter.fk_hook_id}), fk_parent_column_id(${filter.fk_parent_column_id}), fk_row_policy_id(${filter.fk_row_policy_id})`,
       );
     }
     const key = `${CacheScope.FILTER_EXP}:${id}`;
@@ -227,6 +236,15 @@ export default class Filter implements FilterType {
             ),
           );
         }
+        if (filter.fk_row_policy_id) {
+          p.push(
+            NocoCache.appendToList(
+              CacheScope.FILTER_EXP,
+              [filter.fk_row_policy_id],
+              key,
+            ),
+          );
+        }
         if (filter.fk_parent_id) {
           if (filter.fk_view_id) {
             p.push(
@@ -255,6 +273,15 @@ export default class Filter implements FilterType {
               ),
             );
           }
+          if (filter.fk_row_policy_id) {
+            p.push(
+              NocoCache.appendToList(
+                CacheScope.FILTER_EXP,
+                [filter.fk_row_policy_id, filter.fk_parent_id],
+                key,
+              ),
+            );
+          }
           p.push(
             NocoCache.appendToList(
               CacheScope.FILTER_EXP,
@@ -494,17 +521,19 @@ export default class Filter implements FilterType {
       hookId,
       linkColId,
       parentColId,
+      rowPolicyId,
     }: {
       viewId?: string;
       hookId?: string;
       linkColId?: string;
       parentColId?: string;
+      rowPolicyId?: string;
     },
     ncMeta = Noco.ncMeta,
   ): Promise<FilterType> {
     const cachedList = await NocoCache.getList(
       CacheScope.FILTER_EXP,
-      [parentColId || viewId || hookId || linkColId],
+      [parentColId || viewId || hookId || linkColId || rowPolicyId],
       {
         key: 'order',
       },
@@ -522,6 +551,8 @@ export default class Filter implements FilterType {
         condition.fk_link_col_id = linkColId;
       } else if (parentColId) {
         condition.fk_parent_column_id = parentColId;
+      } else if (rowPolicyId) {
+        condition.fk_row_policy_id = rowPolicyId;
       }
 
       filters = await ncMeta.metaList2(
@@ -538,7 +569,7 @@ export default class Filter implements FilterType {
 
       await NocoCache.setList(
         CacheScope.FILTER_EXP,
-        [parentColId || viewId || hookId || linkColId],
+        [parentColId || viewId || hookId || linkColId || rowPolicyId],
         filters,
       );
     }
@@ -662,6 +693,32 @@ export default class Filter implements FilterType {
     await deleteRecursively(filter);
   }
 
+  static async deleteAllByRowPolicy(
+    context: NcContext,
+    rowPolicyId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const filter = await this.getFilterObject(context, { rowPolicyId }, ncMeta);
+
+    const deleteRecursively = async (filter) => {
+      if (!filter) return;
+      for (const f of filter?.children || []) await deleteRecursively(f);
+      if (filter.id) {
+        await ncMeta.metaDelete(
+          context.workspace_id,
+          context.base_id,
+          MetaTable.FILTER_EXP,
+          filter.id,
+        );
+        await NocoCache.deepDel(
+          `${CacheScope.FILTER_EXP}:${filter.id}`,
+          CacheDelDirection.CHILD_TO_PARENT,
+        );
+      }
+    };
+    await deleteRecursively(filter);
+  }
+
   public static async get(
     context: NcContext,
     id: string,
@@ -832,6 +889,37 @@ export default class Filter implements FilterType {
       ?.map((f) => this.castType(f));
   }
 
+  static async rootFilterListByRowPolicy(
+    context: NcContext,
+    { rowPolicyId }: { rowPolicyId: string },
+    ncMeta = Noco.ncMeta,
+  ) {
+    const cachedList = await NocoCache.getList(
+      CacheScope.FILTER_EXP,
+      [rowPolicyId],
+      { key: 'order' },
+    );
+    let { list: filterObjs } = cachedList;
+    const { isNoneList } = cachedList;
+    if (!isNoneList && !filterObjs.length) {
+      filterObjs = await ncMeta.metaList2(
+        context.workspace_id,
+        context.base_id,
+        MetaTable.FILTER_EXP,
+        {
+          condition: { fk_row_policy_id: rowPolicyId },
+          orderBy: {
+            order: 'asc',
+          },
+        },
+      );
+      await NocoCache.setList(CacheScope.FILTER_EXP, [rowPolicyId], filterObjs);
+    }
+    return filterObjs
+      ?.filter((f) => !f.fk_parent_id)
+      ?.map((f) => this.castType(f));
+  }
+
   static async parentFilterList(
     context: NcContext,
     {
@@ -18,6 +18,11 @@ import Noco from '~/Noco';
 import NocoCache from '~/cache/NocoCache';
 import { extractProps } from '~/helpers/extractProps';
 import { NcError } from '~/helpers/catchError';
+import {
+  decryptPropIfRequired,
+  encryptPropIfRequired,
+  isEncryptionRequired,
+} from '~/utils';
 
 export default class Hook implements HookType {
   id?: string;
@@ -36,8 +41,11 @@ export default class Hook implements HookType {
   notification?: string | Record<string, any>;
   retries?: number;
   retry_interval?: number;
+  retry_status_codes?: string;
   timeout?: number;
   active?: BoolType;
+  signing_secret?: string;
+  is_encrypted?: BoolType;
 
   fk_workspace_id?: string;
   base_id?: string;
@@ -71,6 +79,25 @@ export default class Hook implements HookType {
     return hook && new Hook(hook);
   }
 
+  // returns the plain signing secret, if one is configured
+  public getSigningSecret(): string | undefined {
+    if (!this.signing_secret) return;
+    return decryptPropIfRequired({
+      data: this,
+      prop: 'signing_secret',
+    });
+  }
+
+  // strip the signing secret before returning hook in api response
+  public static sanitize<T extends Partial<Hook>>(hook: T) {
+    if (!hook) return hook;
+    const { signing_secret, is_encrypted: _isEncrypted, ...rest } = hook;
+    return {
+      ...rest,
+      has_signing_secret: !!signing_secret,
+    };
+  }
+
   public async getFilters(context: NcContext, ncMeta = Noco.ncMeta) {
     return await Filter.rootFilterListByHook(
       context,
@@ -147,6 +174,7 @@ export default class Hook implements HookType {
       'notification',
       'retries',
       'retry_interval',
+      'retry_status_codes',
       'timeout',
       'active',
       'base_id',
@@ -214,6 +242,7 @@ export default class Hook implements HookType {
       'notification',
       'retries',
       'retry_interval',
+      'retry_status_codes',
       'timeout',
       'active',
       'version',
@@ -246,6 +275,35 @@ export default class Hook implements HookType {
     return this.get(context, hookId, ncMeta);
   }
 
+  public static async updateSigningSecret(
+    context: NcContext,
+    hookId: string,
+    secret: string | null,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const updateObj = {
+      signing_secret: secret
+        ? encryptPropIfRequired({
+            data: { signing_secret: JSON.stringify(secret) },
+            prop: 'signing_secret',
+          })
+        : null,
+      is_encrypted: !!secret && isEncryptionRequired(),
+    };
+
+    await ncMeta.metaUpdate(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.HOOKS,
+      updateObj,
+      hookId,
+    );
+
+    await NocoCache.update(`${CacheScope.HOOK}:${hookId}`, updateObj);
+
+    return this.get(context, hookId, ncMeta);
+  }
+
   static async delete(context: NcContext, hookId: any, ncMeta = Noco.ncMeta) {
     // Delete Hook Filters
     const filterList = await ncMeta.metaList2(
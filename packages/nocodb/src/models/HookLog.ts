@@ -18,18 +18,34 @@ export default class HookLog implements HookLogType {
   test_call?: boolean;
   payload?: string;
   conditions?: string;
-  notification?: string;
+  notification?: string | Record<string, any>;
   error_code?: string;
   error_message?: string;
   error?: string;
   execution_time?: string;
   response?: string;
   triggered_by?: string;
+  attempt?: number;
+  delivery_status?: HookLogType['delivery_status'];
 
   constructor(hookLog: Partial<HookLog>) {
     Object.assign(this, hookLog);
   }
 
+  static async get(
+    context: NcContext,
+    hookLogId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const hookLog = await ncMeta.metaGet2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.HOOK_LOGS,
+      hookLogId,
+    );
+    return hookLog && new HookLog(hookLog);
+  }
+
   static async list(
     context: NcContext,
     param: {
@@ -96,6 +112,8 @@ export default class HookLog implements HookLogType {
       'execution_time',
       'response',
       'triggered_by',
+      'attempt',
+      'delivery_status',
     ]);
 
     const hook = await Hook.get(context, hookLog.fk_hook_id, ncMeta);
@@ -20,6 +20,7 @@ export default class KanbanView implements KanbanType {
   base_id?: string;
   source_id?: string;
   fk_grp_col_id?: string;
+  fk_swimlane_col_id?: string;
   fk_cover_image_col_id?: string;
   meta?: MetaType;
 
@@ -96,6 +97,7 @@ export default class KanbanView implements KanbanType {
       'source_id',
       'fk_view_id',
       'fk_grp_col_id',
+      'fk_swimlane_col_id',
       'meta',
     ]);
 
@@ -137,6 +139,7 @@ export default class KanbanView implements KanbanType {
     const updateObj = extractProps(body, [
       'fk_cover_image_col_id',
       'fk_grp_col_id',
+      'fk_swimlane_col_id',
       'meta',
     ]);
 
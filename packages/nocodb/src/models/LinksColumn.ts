@@ -1,4 +1,4 @@
-import type { RollupColumn } from '~/models/';
+import type { Filter, RollupColumn } from '~/models/';
 import type { NcContext } from '~/interface/config';
 import { Column } from '~/models/';
 import LinkToAnotherRecordColumn from '~/models/LinkToAnotherRecordColumn';
@@ -39,6 +39,14 @@ export default class LinksColumn
     );
   }
 
+  // links count every linked record
+  async getFilters(
+    _context: NcContext,
+    _ncMeta = Noco.ncMeta,
+  ): Promise<Filter[]> {
+    return [];
+  }
+
   public static async read(
     context: NcContext,
     columnId: string,
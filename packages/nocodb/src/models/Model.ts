@@ -16,6 +16,8 @@ import type { XKnex } from '~/db/CustomKnex';
 import type { LinksColumn, LinkToAnotherRecordColumn } from '~/models/index';
 import type { NcContext } from '~/interface/config';
 import Hook from '~/models/Hook';
+import RowPolicy from '~/models/RowPolicy';
+import RecordTrash from '~/models/RecordTrash';
 import View from '~/models/View';
 import Comment from '~/models/Comment';
 import Column from '~/models/Column';
@@ -511,7 +513,7 @@ export default class Model implements TableType {
 
     if (source?.isMeta(true, 1)) {
       schema = source.getConfig()?.schema;
-    } else if (source?.type === 'pg') {
+    } else if (source?.type === 'pg' || source?.type === 'mssql') {
       schema = source.getConfig()?.searchPath?.[0];
     }
 
@@ -530,6 +532,7 @@ export default class Model implements TableType {
     force = false,
   ): Promise<boolean> {
     await Comment.deleteModelComments(context, this.id, ncMeta);
+    await RecordTrash.deleteModelEntries(context, this.id, ncMeta);
 
     for (const view of await this.getViews(context, true, ncMeta)) {
       await view.delete(context, ncMeta);
@@ -544,6 +547,15 @@ export default class Model implements TableType {
       await Hook.delete(context, hook.id, ncMeta);
     }
 
+    // delete associated row policies
+    for (const rowPolicy of await RowPolicy.list(
+      context,
+      { fk_model_id: this.id },
+      ncMeta,
+    )) {
+      await RowPolicy.delete(context, rowPolicy.id, ncMeta);
+    }
+
     for (const col of await this.getColumns(context, ncMeta)) {
       let colOptionTableName = null;
       let cacheScopeName = null;
@@ -877,6 +889,30 @@ export default class Model implements TableType {
     return res;
   }
 
+  static async markAsSynced(
+    context: NcContext,
+    tableId,
+    isSynced = true,
+    ncMeta = Noco.ncMeta,
+  ) {
+    // set meta
+    const res = await ncMeta.metaUpdate(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.MODELS,
+      {
+        synced: isSynced,
+      },
+      tableId,
+    );
+
+    await NocoCache.update(`${CacheScope.MODEL}:${tableId}`, {
+      synced: isSynced,
+    });
+
+    return res;
+  }
+
   async getAliasColMapping(context: NcContext) {
     return (await this.getColumns(context)).reduce((o, c) => {
       if (c.column_name) {
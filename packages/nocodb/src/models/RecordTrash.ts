@@ -0,0 +1,250 @@
+import dayjs from 'dayjs';
+import type { RecordTrashType } from 'nocodb-sdk';
+import type { NcContext } from '~/interface/config';
+import type { Condition } from '~/db/CustomKnex';
+import Noco from '~/Noco';
+import { MetaTable } from '~/utils/globals';
+import { prepareForDb, prepareForResponse } from '~/utils/modelUtils';
+import { extractProps } from '~/helpers/extractProps';
+
+// number of days deleted records are kept, `0` disables the trash
+const retentionDays = +(process.env.NC_RECORD_TRASH_RETENTION_DAYS ?? 30);
+
+export interface RecordTrashLink {
+  // mm or hm column of the table the record was deleted from
+  fk_column_id: string;
+  type: 'mm' | 'hm';
+  // primary keys of the records which were linked
+  ids: any[];
+}
+
+export default class RecordTrash implements RecordTrashType {
+  id?: string;
+  fk_workspace_id?: string;
+  base_id?: string;
+  source_id?: string;
+  fk_model_id?: string;
+  row_id?: string;
+  display_value?: string;
+  data?: Record<string, any>;
+  links?: RecordTrashLink[];
+  deleted_by?: string;
+  deleted_by_email?: string;
+  created_at?: string;
+  updated_at?: string;
+
+  constructor(recordTrash: Partial<RecordTrash>) {
+    Object.assign(this, recordTrash);
+  }
+
+  static get retentionDays() {
+    return retentionDays;
+  }
+
+  static isEnabled() {
+    return retentionDays > 0;
+  }
+
+  public static async get(
+    context: NcContext,
+    recordTrashId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const recordTrash = await ncMeta.metaGet2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.RECORD_TRASH,
+      recordTrashId,
+    );
+
+    return (
+      recordTrash &&
+      new RecordTrash(prepareForResponse(recordTrash, ['data', 'links']))
+    );
+  }
+
+  public static async list(
+    context: NcContext,
+    {
+      base_id,
+      fk_model_id,
+      fk_model_ids,
+      limit,
+      offset,
+    }: {
+      base_id: string;
+      fk_model_id?: string;
+      // restricts the entries to the given tables
+      fk_model_ids?: string[];
+      limit?: number;
+      offset?: number;
+    },
+    ncMeta = Noco.ncMeta,
+  ) {
+    const recordTrashList = await ncMeta.metaList2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.RECORD_TRASH,
+      {
+        condition: {
+          base_id,
+          ...(fk_model_id ? { fk_model_id } : {}),
+        },
+        xcCondition: this.getListCondition(fk_model_ids, ncMeta),
+        // entries deleted within the same second are kept in a stable order
+        orderBy: {
+          created_at: 'desc',
+          id: 'desc',
+        },
+        limit,
+        offset,
+      },
+    );
+
+    return recordTrashList.map(
+      (recordTrash) =>
+        new RecordTrash(prepareForResponse(recordTrash, ['data', 'links'])),
+    );
+  }
+
+  public static async count(
+    context: NcContext,
+    {
+      base_id,
+      fk_model_id,
+      fk_model_ids,
+    }: { base_id: string; fk_model_id?: string; fk_model_ids?: string[] },
+    ncMeta = Noco.ncMeta,
+  ) {
+    return await ncMeta.metaCount(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.RECORD_TRASH,
+      {
+        condition: {
+          base_id,
+          ...(fk_model_id ? { fk_model_id } : {}),
+        },
+        xcCondition: this.getListCondition(fk_model_ids, ncMeta),
+      },
+    );
+  }
+
+  // ids of the tables which have records in the trash
+  public static async listModelIds(
+    context: NcContext,
+    { base_id, fk_model_id }: { base_id: string; fk_model_id?: string },
+    ncMeta = Noco.ncMeta,
+  ): Promise<string[]> {
+    const qb = ncMeta
+      .knex(MetaTable.RECORD_TRASH)
+      .distinct('fk_model_id')
+      .where({
+        base_id,
+        ...(fk_model_id ? { fk_model_id } : {}),
+      })
+      .where('created_at', '>=', this.getRetentionCutoff(ncMeta));
+
+    ncMeta.contextCondition(
+      qb,
+      context.workspace_id,
+      context.base_id,
+      MetaTable.RECORD_TRASH,
+    );
+
+    return (await qb).map((r) => r.fk_model_id);
+  }
+
+  public static async bulkInsert(
+    context: NcContext,
+    recordTrashList: Partial<RecordTrash>[],
+    ncMeta = Noco.ncMeta,
+  ) {
+    if (!recordTrashList.length) return [];
+
+    // expired entries are purged whenever new ones are added to the base
+    await this.purgeExpired(context, ncMeta);
+
+    const insertObjs = recordTrashList.map((recordTrash) =>
+      prepareForDb(
+        {
+          ...extractProps(recordTrash, [
+            'source_id',
+            'fk_model_id',
+            'row_id',
+            'display_value',
+            'data',
+            'links',
+            'deleted_by',
+            'deleted_by_email',
+          ]),
+          fk_workspace_id: context.workspace_id,
+        },
+        ['data', 'links'],
+      ),
+    );
+
+    return await ncMeta.bulkMetaInsert(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.RECORD_TRASH,
+      insertObjs,
+    );
+  }
+
+  static async delete(
+    context: NcContext,
+    recordTrashId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    return await ncMeta.metaDelete(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.RECORD_TRASH,
+      recordTrashId,
+    );
+  }
+
+  static async deleteModelEntries(
+    context: NcContext,
+    fk_model_id: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    return await ncMeta.metaDelete(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.RECORD_TRASH,
+      {
+        fk_model_id,
+      },
+    );
+  }
+
+  static async purgeExpired(context: NcContext, ncMeta = Noco.ncMeta) {
+    return await ncMeta.metaDelete(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.RECORD_TRASH,
+      {},
+      {
+        created_at: { lt: this.getRetentionCutoff(ncMeta) },
+      },
+    );
+  }
+
+  private static getListCondition(
+    fk_model_ids?: string[],
+    ncMeta = Noco.ncMeta,
+  ): Condition {
+    return {
+      created_at: { ge: this.getRetentionCutoff(ncMeta) },
+      ...(fk_model_ids ? { fk_model_id: { in: fk_model_ids } } : {}),
+    };
+  }
+
+  private static getRetentionCutoff(ncMeta = Noco.ncMeta) {
+    return ncMeta.formatDateTime(
+      dayjs().subtract(retentionDays, 'day').toISOString(),
+    );
+  }
+}
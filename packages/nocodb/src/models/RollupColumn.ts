@@ -1,6 +1,7 @@
 import type { RollupType } from 'nocodb-sdk';
 import type { NcContext } from '~/interface/config';
 import Column from '~/models/Column';
+import Filter from '~/models/Filter';
 import Noco from '~/Noco';
 import NocoCache from '~/cache/NocoCache';
 import { extractProps } from '~/helpers/extractProps';
@@ -16,6 +17,9 @@ export const ROLLUP_FUNCTIONS = <const>[
   'sumDistinct',
   'avgDistinct',
   'sum',
+  'median',
+  'concat',
+  'arrayUnique',
 ];
 
 export default class RollupColumn implements RollupType {
@@ -26,6 +30,7 @@ export default class RollupColumn implements RollupType {
   fk_relation_column_id;
   fk_rollup_column_id;
   rollup_function: (typeof ROLLUP_FUNCTIONS)[number];
+  filters?: Filter[];
 
   constructor(data: Partial<RollupColumn>) {
     Object.assign(this, data);
@@ -117,4 +122,33 @@ export default class RollupColumn implements RollupType {
   ): Promise<Column> {
     return Column.get(context, { colId: this.fk_relation_column_id }, ncMeta);
   }
+
+  /**
+   * Get the filters restricting the linked records included in the rollup,
+   * children of filter groups are populated as well
+   */
+  public async getFilters(
+    context: NcContext,
+    ncMeta = Noco.ncMeta,
+  ): Promise<Filter[]> {
+    const extractChildren = async (filters: Filter[]) =>
+      Promise.all(
+        (filters ?? []).map(async (filter) => {
+          if (filter.is_group) {
+            filter.children = await extractChildren(
+              await filter.getChildren(context, ncMeta),
+            );
+          }
+          return filter;
+        }),
+      );
+
+    return await extractChildren(
+      await Filter.rootFilterListByParentColumn(
+        context,
+        { parentColId: this.fk_column_id },
+        ncMeta,
+      ),
+    );
+  }
 }
@@ -0,0 +1,239 @@
+import { ProjectRoles } from 'nocodb-sdk';
+import type { BoolType } from 'nocodb-sdk';
+import type { NcContext } from '~/interface/config';
+import Filter from '~/models/Filter';
+import Model from '~/models/Model';
+import Noco from '~/Noco';
+import { extractProps } from '~/helpers/extractProps';
+import {
+  CacheDelDirection,
+  CacheGetType,
+  CacheScope,
+  MetaTable,
+} from '~/utils/globals';
+import NocoCache from '~/cache/NocoCache';
+
+// roles which can be restricted by row policies, owner and creator always see all rows
+export const ROW_POLICY_ROLES = [
+  ProjectRoles.EDITOR,
+  ProjectRoles.COMMENTER,
+  ProjectRoles.VIEWER,
+];
+
+export default class RowPolicy {
+  id?: string;
+  title?: string;
+  fk_workspace_id?: string;
+  base_id?: string;
+  source_id?: string;
+  fk_model_id?: string;
+  role?: ProjectRoles;
+  enabled?: BoolType;
+  created_at?: string;
+  updated_at?: string;
+
+  constructor(rowPolicy: Partial<RowPolicy>) {
+    Object.assign(this, rowPolicy);
+  }
+
+  public static async get(
+    context: NcContext,
+    rowPolicyId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    let rowPolicy =
+      rowPolicyId &&
+      (await NocoCache.get(
+        `${CacheScope.ROW_POLICY}:${rowPolicyId}`,
+        CacheGetType.TYPE_OBJECT,
+      ));
+    if (!rowPolicy) {
+      rowPolicy = await ncMeta.metaGet2(
+        context.workspace_id,
+        context.base_id,
+        MetaTable.ROW_POLICY,
+        rowPolicyId,
+      );
+
+      if (rowPolicy) {
+        await NocoCache.set(
+          `${CacheScope.ROW_POLICY}:${rowPolicyId}`,
+          rowPolicy,
+        );
+      }
+    }
+    return rowPolicy && new RowPolicy(rowPolicy);
+  }
+
+  static async list(
+    context: NcContext,
+    param: { fk_model_id: string },
+    ncMeta = Noco.ncMeta,
+  ) {
+    const cachedList = await NocoCache.getList(CacheScope.ROW_POLICY, [
+      param.fk_model_id,
+    ]);
+    let { list: rowPolicies } = cachedList;
+    const { isNoneList } = cachedList;
+    if (!isNoneList && !rowPolicies.length) {
+      rowPolicies = await ncMeta.metaList2(
+        context.workspace_id,
+        context.base_id,
+        MetaTable.ROW_POLICY,
+        {
+          condition: {
+            fk_model_id: param.fk_model_id,
+          },
+          orderBy: {
+            created_at: 'asc',
+          },
+        },
+      );
+      await NocoCache.setList(
+        CacheScope.ROW_POLICY,
+        [param.fk_model_id],
+        rowPolicies,
+      );
+    }
+    return rowPolicies?.map((p) => new RowPolicy(p));
+  }
+
+  public static async insert(
+    context: NcContext,
+    rowPolicy: Partial<RowPolicy>,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const insertObj = extractProps(rowPolicy, [
+      'title',
+      'fk_model_id',
+      'role',
+      'enabled',
+      'base_id',
+      'source_id',
+    ]);
+
+    if (!insertObj.source_id) {
+      const model = await Model.getByIdOrName(
+        context,
+        { id: rowPolicy.fk_model_id },
+        ncMeta,
+      );
+      insertObj.source_id = model.source_id;
+    }
+
+    const { id } = await ncMeta.metaInsert2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.ROW_POLICY,
+      insertObj,
+    );
+
+    return this.get(context, id, ncMeta).then(async (res) => {
+      await NocoCache.appendToList(
+        CacheScope.ROW_POLICY,
+        [rowPolicy.fk_model_id],
+        `${CacheScope.ROW_POLICY}:${id}`,
+      );
+      return res;
+    });
+  }
+
+  public static async update(
+    context: NcContext,
+    rowPolicyId: string,
+    rowPolicy: Partial<RowPolicy>,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const updateObj = extractProps(rowPolicy, ['title', 'role', 'enabled']);
+
+    await ncMeta.metaUpdate(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.ROW_POLICY,
+      updateObj,
+      rowPolicyId,
+    );
+
+    await NocoCache.update(
+      `${CacheScope.ROW_POLICY}:${rowPolicyId}`,
+      updateObj,
+    );
+
+    return this.get(context, rowPolicyId, ncMeta);
+  }
+
+  static async delete(
+    context: NcContext,
+    rowPolicyId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    await Filter.deleteAllByRowPolicy(context, rowPolicyId, ncMeta);
+
+    await NocoCache.deepDel(
+      `${CacheScope.ROW_POLICY}:${rowPolicyId}`,
+      CacheDelDirection.CHILD_TO_PARENT,
+    );
+
+    return await ncMeta.metaDelete(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.ROW_POLICY,
+      rowPolicyId,
+    );
+  }
+
+  public async getFilters(context: NcContext, ncMeta = Noco.ncMeta) {
+    return await Filter.rootFilterListByRowPolicy(
+      context,
+      { rowPolicyId: this.id },
+      ncMeta,
+    );
+  }
+
+  /**
+   * Build the filter restricting rows of a table for the given base roles.
+   * Rows matching any of the enabled policies of the role are accessible,
+   * returns null when the rows are not restricted.
+   */
+  public static async getRowFilter(
+    context: NcContext,
+    param: { fk_model_id: string; roles?: Record<string, boolean> },
+    ncMeta = Noco.ncMeta,
+  ): Promise<Filter | null> {
+    const { roles } = param;
+
+    // internal operations don't have any roles
+    if (!roles || roles[ProjectRoles.OWNER] || roles[ProjectRoles.CREATOR]) {
+      return null;
+    }
+
+    const rowPolicies = (
+      await this.list(context, { fk_model_id: param.fk_model_id }, ncMeta)
+    ).filter((p) => p.enabled && roles[p.role]);
+
+    if (!rowPolicies.length) return null;
+
+    const children: Filter[] = [];
+
+    for (const rowPolicy of rowPolicies) {
+      const filters = await rowPolicy.getFilters(context, ncMeta);
+
+      // policy without any condition gives access to all rows
+      if (!filters?.length) return null;
+
+      children.push(
+        new Filter({
+          children: filters,
+          is_group: true,
+          logical_op: 'or',
+        }),
+      );
+    }
+
+    return new Filter({
+      children,
+      is_group: true,
+      logical_op: 'and',
+    });
+  }
+}
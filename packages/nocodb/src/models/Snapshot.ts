@@ -0,0 +1,174 @@
+import type { SnapshotType } from 'nocodb-sdk';
+import type { NcContext } from '~/interface/config';
+import Noco from '~/Noco';
+import { extractProps } from '~/helpers/extractProps';
+import {
+  CacheDelDirection,
+  CacheGetType,
+  CacheScope,
+  MetaTable,
+} from '~/utils/globals';
+import NocoCache from '~/cache/NocoCache';
+
+export enum SnapshotStatus {
+  IN_PROGRESS = 'in_progress',
+  SUCCESS = 'success',
+  FAILED = 'failed',
+}
+
+export default class Snapshot implements SnapshotType {
+  id?: string;
+  title?: string;
+  base_id?: string;
+  fk_workspace_id?: string;
+  fk_source_id?: string;
+  status?: SnapshotStatus;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+
+  constructor(snapshot: Partial<Snapshot> | SnapshotType) {
+    Object.assign(this, snapshot);
+  }
+
+  // storage path under which schema and data of the snapshot are stored
+  get path() {
+    return `nc/snapshots/${this.base_id}/${this.id}`;
+  }
+
+  // ids of the snapshotted sources, each source is stored under its own path
+  get sourcesPath() {
+    return `${this.path}/sources.json`;
+  }
+
+  getSourcePath(sourceId: string) {
+    return `${this.path}/${sourceId}`;
+  }
+
+  public static async get(
+    context: NcContext,
+    snapshotId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    let snapshot = await NocoCache.get(
+      `${CacheScope.SNAPSHOT}:${snapshotId}`,
+      CacheGetType.TYPE_OBJECT,
+    );
+
+    if (!snapshot) {
+      snapshot = await ncMeta.metaGet2(
+        context.workspace_id,
+        context.base_id,
+        MetaTable.SNAPSHOT,
+        snapshotId,
+      );
+
+      if (snapshot) {
+        await NocoCache.set(`${CacheScope.SNAPSHOT}:${snapshotId}`, snapshot);
+      }
+    }
+
+    return snapshot && new Snapshot(snapshot);
+  }
+
+  static async list(context: NcContext, baseId: string, ncMeta = Noco.ncMeta) {
+    const cachedList = await NocoCache.getList(CacheScope.SNAPSHOT, [baseId]);
+    let { list: snapshotList } = cachedList;
+    const { isNoneList } = cachedList;
+    if (!isNoneList && !snapshotList.length) {
+      snapshotList = await ncMeta.metaList2(
+        context.workspace_id,
+        context.base_id,
+        MetaTable.SNAPSHOT,
+        {
+          condition: {
+            base_id: baseId,
+          },
+          orderBy: {
+            created_at: 'desc',
+          },
+        },
+      );
+
+      await NocoCache.setList(CacheScope.SNAPSHOT, [baseId], snapshotList);
+    }
+
+    return snapshotList
+      .sort(
+        (a, b) =>
+          new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
+      )
+      .map((snapshot) => new Snapshot(snapshot));
+  }
+
+  public static async insert(
+    context: NcContext,
+    snapshot: Partial<Snapshot>,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const insertObj = extractProps(snapshot, [
+      'title',
+      'base_id',
+      'fk_source_id',
+      'status',
+      'created_by',
+    ]);
+
+    const { id } = await ncMeta.metaInsert2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.SNAPSHOT,
+      insertObj,
+    );
+
+    return this.get(context, id, ncMeta).then(async (res) => {
+      await NocoCache.appendToList(
+        CacheScope.SNAPSHOT,
+        [snapshot.base_id],
+        `${CacheScope.SNAPSHOT}:${id}`,
+      );
+      return res;
+    });
+  }
+
+  public static async update(
+    context: NcContext,
+    snapshotId: string,
+    snapshot: Partial<Snapshot>,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const updateObj = extractProps(snapshot, ['title', 'status']);
+
+    await ncMeta.metaUpdate(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.SNAPSHOT,
+      updateObj,
+      snapshotId,
+    );
+
+    await NocoCache.update(`${CacheScope.SNAPSHOT}:${snapshotId}`, updateObj);
+
+    return this.get(context, snapshotId, ncMeta);
+  }
+
+  static async delete(
+    context: NcContext,
+    snapshotId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const res = await ncMeta.metaDelete(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.SNAPSHOT,
+      snapshotId,
+    );
+
+    await NocoCache.deepDel(
+      `${CacheScope.SNAPSHOT}:${snapshotId}`,
+      CacheDelDirection.CHILD_TO_PARENT,
+    );
+
+    return res;
+  }
+}
@@ -0,0 +1,203 @@
+import { SyncTrigger } from 'nocodb-sdk';
+import type { OnDeleteAction, SyncCategory, SyncType } from 'nocodb-sdk';
+import type { NcContext } from '~/interface/config';
+import Noco from '~/Noco';
+import NocoCache from '~/cache/NocoCache';
+import { CacheGetType, CacheScope, MetaTable } from '~/utils/globals';
+import { extractProps } from '~/helpers/extractProps';
+import { parseMetaProp, prepareForDb } from '~/utils/modelUtils';
+
+export default class SyncConfig {
+  id?: string;
+  fk_workspace_id?: string;
+  base_id?: string;
+  fk_integration_id?: string;
+  fk_model_id?: string;
+  fk_parent_sync_config_id?: string;
+
+  title?: string;
+  sync_type?: SyncType;
+  sync_trigger?: SyncTrigger;
+  sync_trigger_cron?: string;
+  sync_trigger_secret?: string;
+  sync_category?: SyncCategory;
+  sync_job_id?: string;
+  on_delete_action?: OnDeleteAction;
+
+  last_sync_at?: string;
+  next_sync_at?: string;
+
+  // incremental cursors and excluded target tables
+  meta?: {
+    cursors?: Record<string, any>;
+    exclude_models?: string[];
+  };
+
+  created_at?: string;
+  updated_at?: string;
+
+  constructor(syncConfig: Partial<SyncConfig>) {
+    Object.assign(this, syncConfig);
+  }
+
+  public static async get(
+    context: NcContext,
+    syncConfigId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const key = `${CacheScope.SYNC_CONFIGS}:${syncConfigId}`;
+    let syncConfig =
+      syncConfigId && (await NocoCache.get(key, CacheGetType.TYPE_OBJECT));
+
+    if (!syncConfig) {
+      syncConfig = await ncMeta.metaGet2(
+        context.workspace_id,
+        context.base_id,
+        MetaTable.SYNC_CONFIGS,
+        syncConfigId,
+      );
+
+      if (syncConfig) {
+        syncConfig.meta = parseMetaProp(syncConfig);
+        await NocoCache.set(key, syncConfig);
+      }
+    }
+
+    return syncConfig && new SyncConfig(syncConfig);
+  }
+
+  public static async list(
+    context: NcContext,
+    param: {
+      fk_parent_sync_config_id?: string | null;
+    } = {},
+    ncMeta = Noco.ncMeta,
+  ) {
+    const syncConfigs = await ncMeta.metaList2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.SYNC_CONFIGS,
+      {
+        condition: {
+          base_id: context.base_id,
+          ...('fk_parent_sync_config_id' in param
+            ? { fk_parent_sync_config_id: param.fk_parent_sync_config_id }
+            : {}),
+        },
+        orderBy: {
+          created_at: 'asc',
+        },
+      },
+    );
+
+    return syncConfigs.map((syncConfig) => {
+      syncConfig.meta = parseMetaProp(syncConfig);
+      return new SyncConfig(syncConfig);
+    });
+  }
+
+  // list scheduled syncs across all bases, used to restore schedules on boot
+  public static async listScheduled(ncMeta = Noco.ncMeta) {
+    const syncConfigs = await ncMeta
+      .knex(MetaTable.SYNC_CONFIGS)
+      .where('sync_trigger', SyncTrigger.Schedule)
+      .whereNotNull('sync_trigger_cron')
+      .whereNull('fk_parent_sync_config_id');
+
+    return syncConfigs.map((syncConfig) => {
+      syncConfig.meta = parseMetaProp(syncConfig);
+      return new SyncConfig(syncConfig);
+    });
+  }
+
+  public static async insert(
+    context: NcContext,
+    syncConfig: Partial<SyncConfig>,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const insertObj = extractProps(syncConfig, [
+      'fk_integration_id',
+      'fk_model_id',
+      'fk_parent_sync_config_id',
+      'title',
+      'sync_type',
+      'sync_trigger',
+      'sync_trigger_cron',
+      'sync_trigger_secret',
+      'sync_category',
+      'on_delete_action',
+      'next_sync_at',
+      'meta',
+    ]);
+
+    const { id } = await ncMeta.metaInsert2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.SYNC_CONFIGS,
+      prepareForDb(insertObj),
+    );
+
+    return this.get(context, id, ncMeta);
+  }
+
+  public static async update(
+    context: NcContext,
+    syncConfigId: string,
+    syncConfig: Partial<SyncConfig>,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const updateObj = extractProps(syncConfig, [
+      'fk_integration_id',
+      'fk_model_id',
+      'title',
+      'sync_type',
+      'sync_trigger',
+      'sync_trigger_cron',
+      'sync_trigger_secret',
+      'sync_job_id',
+      'on_delete_action',
+      'last_sync_at',
+      'next_sync_at',
+      'meta',
+    ]);
+
+    await ncMeta.metaUpdate(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.SYNC_CONFIGS,
+      prepareForDb({ ...updateObj }),
+      syncConfigId,
+    );
+
+    await NocoCache.update(
+      `${CacheScope.SYNC_CONFIGS}:${syncConfigId}`,
+      updateObj,
+    );
+
+    return this.get(context, syncConfigId, ncMeta);
+  }
+
+  public static async delete(
+    context: NcContext,
+    syncConfigId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    await ncMeta.metaDelete(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.SYNC_MAPPINGS,
+      { fk_sync_config_id: syncConfigId },
+    );
+
+    await ncMeta.metaDelete(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.SYNC_CONFIGS,
+      syncConfigId,
+    );
+
+    await NocoCache.del(`${CacheScope.SYNC_CONFIGS}:${syncConfigId}`);
+
+    return true;
+  }
+}
@@ -0,0 +1,61 @@
+import type { NcContext } from '~/interface/config';
+import Noco from '~/Noco';
+import { MetaTable } from '~/utils/globals';
+import { extractProps } from '~/helpers/extractProps';
+
+// maps a target table of a sync integration to the created table
+export default class SyncMapping {
+  id?: string;
+  fk_workspace_id?: string;
+  base_id?: string;
+  fk_sync_config_id?: string;
+  target_table?: string;
+  fk_model_id?: string;
+
+  constructor(syncMapping: Partial<SyncMapping>) {
+    Object.assign(this, syncMapping);
+  }
+
+  public static async list(
+    context: NcContext,
+    param: { fk_sync_config_id: string },
+    ncMeta = Noco.ncMeta,
+  ) {
+    const syncMappings = await ncMeta.metaList2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.SYNC_MAPPINGS,
+      {
+        condition: {
+          fk_sync_config_id: param.fk_sync_config_id,
+        },
+        orderBy: {
+          created_at: 'asc',
+        },
+      },
+    );
+
+    return syncMappings.map((syncMapping) => new SyncMapping(syncMapping));
+  }
+
+  public static async insert(
+    context: NcContext,
+    syncMapping: Partial<SyncMapping>,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const insertObj = extractProps(syncMapping, [
+      'fk_sync_config_id',
+      'target_table',
+      'fk_model_id',
+    ]);
+
+    const { id } = await ncMeta.metaInsert2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.SYNC_MAPPINGS,
+      insertObj,
+    );
+
+    return new SyncMapping({ ...insertObj, id });
+  }
+}
@@ -0,0 +1,159 @@
+import type { MetaType, TimelineType } from 'nocodb-sdk';
+import type { NcContext } from '~/interface/config';
+import View from '~/models/View';
+import TimelineViewColumn from '~/models/TimelineViewColumn';
+import { extractProps } from '~/helpers/extractProps';
+import NocoCache from '~/cache/NocoCache';
+import Noco from '~/Noco';
+import { CacheGetType, CacheScope, MetaTable } from '~/utils/globals';
+import { prepareForDb, prepareForResponse } from '~/utils/modelUtils';
+
+export default class TimelineView implements TimelineType {
+  fk_view_id: string;
+  title: string;
+  fk_workspace_id?: string;
+  base_id?: string;
+  source_id?: string;
+
+  // date columns the bar of a record spans between
+  fk_start_col_id?: string;
+  fk_end_col_id?: string;
+
+  // optional lane grouping and "depends on" Links column
+  fk_grp_col_id?: string;
+  fk_dependency_col_id?: string;
+
+  meta?: MetaType;
+
+  constructor(data: TimelineView) {
+    Object.assign(this, data);
+  }
+
+  public static async get(
+    context: NcContext,
+    viewId: string,
+    ncMeta = Noco.ncMeta,
+  ) {
+    let view =
+      viewId &&
+      (await NocoCache.get(
+        `${CacheScope.TIMELINE_VIEW}:${viewId}`,
+        CacheGetType.TYPE_OBJECT,
+      ));
+    if (!view) {
+      view = await ncMeta.metaGet2(
+        context.workspace_id,
+        context.base_id,
+        MetaTable.TIMELINE_VIEW,
+        {
+          fk_view_id: viewId,
+        },
+      );
+
+      view = prepareForResponse(view);
+
+      await NocoCache.set(`${CacheScope.TIMELINE_VIEW}:${viewId}`, view);
+    }
+
+    return view && new TimelineView(view);
+  }
+
+  static async insert(
+    context: NcContext,
+    view: Partial<TimelineView>,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const insertObj = {
+      base_id: view.base_id,
+      source_id: view.source_id,
+      fk_view_id: view.fk_view_id,
+      fk_start_col_id: view.fk_start_col_id,
+      fk_end_col_id: view.fk_end_col_id,
+      fk_grp_col_id: view.fk_grp_col_id,
+      fk_dependency_col_id: view.fk_dependency_col_id,
+      meta: view.meta,
+    };
+
+    const viewRef = await View.get(context, insertObj.fk_view_id, ncMeta);
+
+    if (!insertObj.source_id) {
+      insertObj.source_id = viewRef.source_id;
+    }
+
+    await ncMeta.metaInsert2(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.TIMELINE_VIEW,
+      prepareForDb(insertObj),
+      true,
+    );
+
+    return this.get(context, view.fk_view_id, ncMeta);
+  }
+
+  static async update(
+    context: NcContext,
+    timelineId: string,
+    body: Partial<TimelineView>,
+    ncMeta = Noco.ncMeta,
+  ) {
+    const updateObj = extractProps(body, [
+      'fk_start_col_id',
+      'fk_end_col_id',
+      'fk_grp_col_id',
+      'fk_dependency_col_id',
+      'meta',
+    ]);
+
+    // keep the date fields visible since the bars can't be drawn without them
+    const dateColumnIds = [body.fk_start_col_id, body.fk_end_col_id].filter(
+      Boolean,
+    );
+
+    if (dateColumnIds.length) {
+      const timelineViewColumns = await TimelineViewColumn.list(
+        context,
+        timelineId,
+        ncMeta,
+      );
+
+      for (const viewColumn of timelineViewColumns) {
+        if (dateColumnIds.includes(viewColumn.fk_column_id)) {
+          await View.updateColumn(
+            context,
+            timelineId,
+            viewColumn.id,
+            {
+              show: true,
+            },
+            ncMeta,
+          );
+        }
+      }
+    }
+
+    // update meta
+    const res = await ncMeta.metaUpdate(
+      context.workspace_id,
+      context.base_id,
+      MetaTable.TIMELINE_VIEW,
+      prepareForDb(updateObj),
+      {
+        fk_view_id: timelineId,
+      },
+    );
+
+    await NocoCache.update(
+      `${CacheScope.TIMELINE_VIEW}:${timelineId}`,
+      prepareForResponse(updateObj),
+    );
+
+    // on update, delete any optimised single query cache
+    {
+      const view = await View.get(context, timelineId, ncMeta);
+      await View.clearSingleQueryCache(context, view.fk_model_id, [view]);
+    }
+
+    return res;
+  }
+}
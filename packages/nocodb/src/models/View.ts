@@ -34,6 +34,8 @@ import KanbanViewColumn from '~/models/KanbanViewColumn';
 import Column from '~/models/Column';
 import MapView from '~/models/MapView';
 import MapViewColumn from '~/models/MapViewColumn';
+import TimelineView from '~/models/TimelineView';
+import TimelineViewColumn from '~/models/TimelineViewColumn';
 import { extractProps } from '~/helpers/extractProps';
 import NocoCache from '~/cache/NocoCache';
 import {
@@ -95,6 +97,7 @@ export default class View implements ViewType {
     | KanbanView
     | GalleryView
     | MapView
+    | TimelineView
     | CalendarView;
   columns?: Array<
     | FormViewColumn
@@ -102,6 +105,7 @@ export default class View implements ViewType {
     | GalleryViewColumn
     | KanbanViewColumn
     | MapViewColumn
+    | TimelineViewColumn
     | CalendarViewColumn
   >;
 
@@ -277,6 +281,7 @@ export default class View implements ViewType {
           | GalleryView
           | KanbanView
           | MapView
+          | TimelineView
           | CalendarView
         > & {
           copy_from_id?: string;
@@ -364,6 +369,17 @@ export default class View implements ViewType {
             ncMeta,
           );
           break;
+        case ViewTypes.TIMELINE:
+          await TimelineView.insert(
+            context,
+            {
+              ...((copyFromView?.view as TimelineView) || {}),
+              ...(view as TimelineView),
+              fk_view_id: view_id,
+            },
+            ncMeta,
+          );
+          break;
         case ViewTypes.GALLERY:
           await GalleryView.insert(
             context,
@@ -594,6 +610,20 @@ export default class View implements ViewType {
             if (vCol.id === mapView?.fk_geo_data_col_id) {
               show = true;
             }
+          } else if (view.type === ViewTypes.TIMELINE && !copyFromView) {
+            const timelineView = await TimelineView.get(
+              context,
+              view_id,
+              ncMeta,
+            );
+            // show display value, the date fields and the lane field
+            show =
+              !!vCol.pv ||
+              [
+                timelineView?.fk_start_col_id,
+                timelineView?.fk_end_col_id,
+                timelineView?.fk_grp_col_id,
+              ].includes(vCol.id);
           }
 
           // if columns is list of virtual columns then get the parent column
@@ -665,6 +695,7 @@ export default class View implements ViewType {
       const calIds: Set<string> = new Set();
       calRange.ranges.forEach((range) => {
         calIds.add(range.fk_from_column_id);
+        if (range.fk_to_column_id) calIds.add(range.fk_to_column_id);
       });
       return Array.from(calIds) as Array<string>;
     }
@@ -755,6 +786,16 @@ export default class View implements ViewType {
             ncMeta,
           );
           break;
+        case ViewTypes.TIMELINE:
+          await TimelineViewColumn.insert(
+            context,
+            {
+              ...insertObj,
+              fk_view_id: view.id,
+            },
+            ncMeta,
+          );
+          break;
         case ViewTypes.KANBAN:
           await KanbanViewColumn.insert(context, modifiedInsertObj, ncMeta);
           break;
@@ -830,6 +871,18 @@ export default class View implements ViewType {
           );
         }
         break;
+      case ViewTypes.TIMELINE:
+        {
+          col = await TimelineViewColumn.insert(
+            context,
+            {
+              ...param,
+              fk_view_id: view.id,
+            },
+            ncMeta,
+          );
+        }
+        break;
       case ViewTypes.FORM:
         {
           col = await FormViewColumn.insert(
@@ -894,6 +947,7 @@ export default class View implements ViewType {
       | GalleryViewColumn
       | KanbanViewColumn
       | MapViewColumn
+      | TimelineViewColumn
       | CalendarViewColumn
     >
   > {
@@ -911,6 +965,9 @@ export default class View implements ViewType {
       case ViewTypes.MAP:
         columns = await MapViewColumn.list(context, viewId, ncMeta);
         break;
+      case ViewTypes.TIMELINE:
+        columns = await TimelineViewColumn.list(context, viewId, ncMeta);
+        break;
       case ViewTypes.FORM:
         columns = await FormViewColumn.list(context, viewId, ncMeta);
         break;
@@ -956,6 +1013,11 @@ export default class View implements ViewType {
         tableName = MetaTable.MAP_VIEW_COLUMNS;
         cacheScope = CacheScope.MAP_VIEW_COLUMN;
 
+        break;
+      case ViewTypes.TIMELINE:
+        tableName = MetaTable.TIMELINE_VIEW_COLUMNS;
+        cacheScope = CacheScope.TIMELINE_VIEW_COLUMN;
+
         break;
       case ViewTypes.FORM:
         tableName = MetaTable.FORM_VIEW_COLUMNS;
@@ -1019,6 +1081,10 @@ export default class View implements ViewType {
         table = MetaTable.MAP_VIEW_COLUMNS;
         cacheScope = CacheScope.MAP_VIEW_COLUMN;
         break;
+      case ViewTypes.TIMELINE:
+        table = MetaTable.TIMELINE_VIEW_COLUMNS;
+        cacheScope = CacheScope.TIMELINE_VIEW_COLUMN;
+        break;
       case ViewTypes.GALLERY:
         table = MetaTable.GALLERY_VIEW_COLUMNS;
         cacheScope = CacheScope.GALLERY_VIEW_COLUMN;
@@ -1100,6 +1166,8 @@ export default class View implements ViewType {
         return GridViewColumn.get(context, colId, ncMeta);
       case ViewTypes.MAP:
         return MapViewColumn.get(context, colId, ncMeta);
+      case ViewTypes.TIMELINE:
+        return TimelineViewColumn.get(context, colId, ncMeta);
       case ViewTypes.GALLERY:
         return GalleryViewColumn.get(context, colId, ncMeta);
       case ViewTypes.KANBAN:
@@ -1127,6 +1195,7 @@ export default class View implements ViewType {
     | GalleryViewColumn
     | KanbanViewColumn
     | MapViewColumn
+    | TimelineViewColumn
     | any
   > {
     const view = await this.get(context, viewId, ncMeta);
@@ -1209,6 +1278,17 @@ export default class View implements ViewType {
             },
             ncMeta,
           );
+        case ViewTypes.TIMELINE:
+          return await TimelineViewColumn.insert(
+            context,
+            {
+              fk_view_id: viewId,
+              fk_column_id: fkColId,
+              order: colData.order,
+              show: colData.show,
+            },
+            ncMeta,
+          );
         case ViewTypes.FORM:
           return await FormViewColumn.insert(
             context,
@@ -1661,10 +1741,19 @@ export default class View implements ViewType {
     const { list: dataList } = cachedList;
     const { isNoneList } = cachedList;
 
-    const colsEssentialForView =
-      view.type === ViewTypes.MAP
-        ? [(await MapView.get(context, viewId, ncMeta)).fk_geo_data_col_id]
-        : [];
+    let colsEssentialForView = [];
+
+    if (view.type === ViewTypes.MAP) {
+      colsEssentialForView = [
+        (await MapView.get(context, viewId, ncMeta)).fk_geo_data_col_id,
+      ];
+    } else if (view.type === ViewTypes.TIMELINE) {
+      const timelineView = await TimelineView.get(context, viewId, ncMeta);
+      colsEssentialForView = [
+        timelineView.fk_start_col_id,
+        timelineView.fk_end_col_id,
+      ].filter(Boolean);
+    }
 
     const mergedIgnoreColdIds = [...ignoreColdIds, ...colsEssentialForView];
 
@@ -1724,6 +1813,9 @@ export default class View implements ViewType {
       case ViewTypes.MAP:
         viewType = 'map';
         break;
+      case ViewTypes.TIMELINE:
+        viewType = 'timeline';
+        break;
       case ViewTypes.CALENDAR:
         viewType = 'calendar';
         break;
@@ -1937,6 +2029,7 @@ export default class View implements ViewType {
         | FormViewColumn
         | KanbanViewColumn
         | MapViewColumn
+        | TimelineViewColumn
         | CalendarViewColumn
       )[];
     },
@@ -2012,11 +2105,9 @@ export default class View implements ViewType {
         );
         if (calendarRange) {
           calendarRangeColumns = calendarRange.ranges
-            .map((range) => [
-              range.fk_from_column_id,
-              (range as any).fk_to_column_id,
-            ])
-            .flat();
+            .map((range) => [range.fk_from_column_id, range.fk_to_column_id])
+            .flat()
+            .filter(Boolean);
         }
       }
 
@@ -2076,6 +2167,16 @@ export default class View implements ViewType {
           if (column.id === mapView?.fk_geo_data_col_id) {
             show = true;
           }
+        } else if (view.type === ViewTypes.TIMELINE && !copyFromView) {
+          const timelineView = await TimelineView.get(context, view.id, ncMeta);
+          // show display value, the date fields and the lane field
+          show =
+            !!column.pv ||
+            [
+              timelineView?.fk_start_col_id,
+              timelineView?.fk_end_col_id,
+              timelineView?.fk_grp_col_id,
+            ].includes(column.id);
         } else if (view.type === ViewTypes.FORM && isSystemColumn(column)) {
           show = false;
         } else if (view.type === ViewTypes.CALENDAR) {
@@ -2126,6 +2227,14 @@ export default class View implements ViewType {
           insertObjs,
         );
         break;
+      case ViewTypes.TIMELINE:
+        await ncMeta.bulkMetaInsert(
+          context.workspace_id,
+          context.base_id,
+          MetaTable.TIMELINE_VIEW_COLUMNS,
+          insertObjs,
+        );
+        break;
       case ViewTypes.KANBAN:
         await ncMeta.bulkMetaInsert(
           context.workspace_id,
@@ -2166,6 +2275,7 @@ export default class View implements ViewType {
           | GalleryView
           | KanbanView
           | MapView
+          | TimelineView
           | CalendarView
         > & {
           copy_from_id?: string;
@@ -2269,6 +2379,17 @@ export default class View implements ViewType {
           ncMeta,
         );
         break;
+      case ViewTypes.TIMELINE:
+        await TimelineView.insert(
+          context,
+          {
+            ...((copyFromView?.view as TimelineView) || {}),
+            ...(view as TimelineView),
+            fk_view_id: view_id,
+          },
+          ncMeta,
+        );
+        break;
       case ViewTypes.GALLERY:
         await GalleryView.insert(
           context,
@@ -2496,6 +2617,9 @@ export default class View implements ViewType {
       case ViewTypes.MAP:
         table = MetaTable.MAP_VIEW_COLUMNS;
         break;
+      case ViewTypes.TIMELINE:
+        table = MetaTable.TIMELINE_VIEW_COLUMNS;
+        break;
       case ViewTypes.CALENDAR:
         table = MetaTable.CALENDAR_VIEW_COLUMNS;
         break;
@@ -2521,6 +2645,9 @@ export default class View implements ViewType {
       case ViewTypes.MAP:
         table = MetaTable.MAP_VIEW;
         break;
+      case ViewTypes.TIMELINE:
+        table = MetaTable.TIMELINE_VIEW;
+        break;
       case ViewTypes.CALENDAR:
         table = MetaTable.CALENDAR_VIEW;
         break;
@@ -2540,6 +2667,9 @@ export default class View implements ViewType {
       case ViewTypes.MAP:
         scope = CacheScope.MAP_VIEW_COLUMN;
         break;
+      case ViewTypes.TIMELINE:
+        scope = CacheScope.TIMELINE_VIEW_COLUMN;
+        break;
       case ViewTypes.KANBAN:
         scope = CacheScope.KANBAN_VIEW_COLUMN;
         break;
@@ -2565,6 +2695,9 @@ export default class View implements ViewType {
       case ViewTypes.MAP:
         scope = CacheScope.MAP_VIEW;
         break;
+      case ViewTypes.TIMELINE:
+        scope = CacheScope.TIMELINE_VIEW;
+        break;
       case ViewTypes.KANBAN:
         scope = CacheScope.KANBAN_VIEW;
         break;
@@ -2611,6 +2744,9 @@ export default class View implements ViewType {
       case ViewTypes.MAP:
         this.view = await MapView.get(context, this.id, ncMeta);
         break;
+      case ViewTypes.TIMELINE:
+        this.view = await TimelineView.get(context, this.id, ncMeta);
+        break;
       case ViewTypes.FORM:
         this.view = await FormView.get(context, this.id, ncMeta);
         break;
@@ -2638,6 +2774,9 @@ export default class View implements ViewType {
       case ViewTypes.MAP:
         this.view = await MapView.get(context, this.id, ncMeta);
         break;
+      case ViewTypes.TIMELINE:
+        this.view = await TimelineView.get(context, this.id, ncMeta);
+        break;
       case ViewTypes.FORM:
         this.view = await FormView.get(context, this.id, ncMeta);
         break;
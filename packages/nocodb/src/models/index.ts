@@ -54,3 +54,10 @@ export { default as CustomUrl } from './CustomUrl';
 export { default as Script } from './Script';
 export { default as DataReflection } from './DataReflection';
 export { default as MCPToken } from './MCPToken';
+export { default as SyncConfig } from './SyncConfig';
+export { default as SyncMapping } from './SyncMapping';
+export { default as Snapshot } from './Snapshot';
+export { default as RowPolicy } from './RowPolicy';
+export { default as RecordTrash } from './RecordTrash';
+export { default as TimelineView } from './TimelineView';
+export { default as TimelineViewColumn } from './TimelineViewColumn';
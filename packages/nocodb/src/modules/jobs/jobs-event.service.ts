@@ -17,6 +17,7 @@ import {
 import { Job } from '~/models';
 import { RootScopes } from '~/utils/globals';
 import { PubSubRedis } from '~/redis/pubsub-redis';
+import { recordJobResult } from '~/helpers/metricsHelpers';
 
 @Processor(JOBS_QUEUE)
 export class JobsEventService {
@@ -67,6 +68,8 @@ export class JobsEventService {
 
   @OnQueueFailed()
   onFailed(job: BullJob, error: Error & { data: any }) {
+    recordJobResult(job, true);
+
     PubSubRedis.publish(`worker:job:${job.id}`, {
       success: false,
       error,
@@ -127,6 +130,8 @@ export class JobsEventService {
 
   @OnQueueCompleted()
   onCompleted(job: BullJob, data: any) {
+    if (data !== JobStatus.REQUEUED) recordJobResult(job);
+
     PubSubRedis.publish(`worker:job:${job.id}`, {
       success: true,
       result: data,
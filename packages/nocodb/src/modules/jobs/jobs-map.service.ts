@@ -11,6 +11,9 @@ import { AttachmentCleanUpProcessor } from '~/modules/jobs/jobs/attachment-clean
 import { InitMigrationJobs } from '~/modules/jobs/migration-jobs/init-migration-jobs';
 import { UseWorkerProcessor } from '~/modules/jobs/jobs/use-worker/use-worker.processor';
 import { DataExportCleanUpProcessor } from '~/modules/jobs/jobs/data-export-clean-up/data-export-clean-up.processor';
+import { SyncModuleSyncDataProcessor } from '~/modules/jobs/jobs/sync-module/sync-module-sync-data.processor';
+import { SnapshotProcessor } from '~/modules/jobs/jobs/snapshot/snapshot.processor';
+import { NotificationDigestProcessor } from '~/modules/jobs/jobs/notification-digest/notification-digest.processor';
 import { JobTypes } from '~/interface/Jobs';
 
 @Injectable()
@@ -28,6 +31,9 @@ export class JobsMap {
     protected readonly initMigrationJobs: InitMigrationJobs,
     protected readonly useWorkerProcessor: UseWorkerProcessor,
     protected readonly dataExportCleanUpProcessor: DataExportCleanUpProcessor,
+    protected readonly syncModuleSyncDataProcessor: SyncModuleSyncDataProcessor,
+    protected readonly snapshotProcessor: SnapshotProcessor,
+    protected readonly notificationDigestProcessor: NotificationDigestProcessor,
   ) {}
 
   protected get _jobMap(): {
@@ -82,6 +88,20 @@ export class JobsMap {
       [JobTypes.UseWorker]: {
         this: this.useWorkerProcessor,
       },
+      [JobTypes.SyncModuleSyncData]: {
+        this: this.syncModuleSyncDataProcessor,
+      },
+      [JobTypes.CreateSnapshot]: {
+        this: this.snapshotProcessor,
+        fn: 'createSnapshot',
+      },
+      [JobTypes.RestoreSnapshot]: {
+        this: this.snapshotProcessor,
+        fn: 'restoreSnapshot',
+      },
+      [JobTypes.NotificationDigest]: {
+        this: this.notificationDigestProcessor,
+      },
     };
   }
 
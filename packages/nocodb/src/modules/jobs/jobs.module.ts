@@ -28,6 +28,11 @@ import { PublicDataExportController } from '~/modules/jobs/jobs/data-export/publ
 import { ThumbnailGeneratorProcessor } from '~/modules/jobs/jobs/thumbnail-generator/thumbnail-generator.processor';
 import { AttachmentCleanUpProcessor } from '~/modules/jobs/jobs/attachment-clean-up/attachment-clean-up';
 import { UseWorkerProcessor } from '~/modules/jobs/jobs/use-worker/use-worker.processor';
+import { SyncModuleSyncDataProcessor } from '~/modules/jobs/jobs/sync-module/sync-module-sync-data.processor';
+import { SnapshotController } from '~/modules/jobs/jobs/snapshot/snapshot.controller';
+import { SnapshotProcessor } from '~/modules/jobs/jobs/snapshot/snapshot.processor';
+import { NotificationDigestProcessor } from '~/modules/jobs/jobs/notification-digest/notification-digest.processor';
+import { SnapshotService } from '~/modules/jobs/jobs/snapshot/snapshot.service';
 
 // Job Processor
 import { JobsProcessor } from '~/modules/jobs/jobs.processor';
@@ -87,6 +92,7 @@ export const JobsModuleMetadata = {
           SourceDeleteController,
           DataExportController,
           PublicDataExportController,
+          SnapshotController,
         ]
       : []),
   ],
@@ -117,6 +123,10 @@ export const JobsModuleMetadata = {
     ThumbnailGeneratorProcessor,
     AttachmentCleanUpProcessor,
     UseWorkerProcessor,
+    SyncModuleSyncDataProcessor,
+    SnapshotProcessor,
+    SnapshotService,
+    NotificationDigestProcessor,
 
     // Migration Jobs
     InitMigrationJobs,
@@ -1,5 +1,10 @@
 import moment from 'moment';
-import { AuditV1OperationTypes, SqlUiFactory, UITypes } from 'nocodb-sdk';
+import {
+  ArrayFormulaFunctions,
+  AuditV1OperationTypes,
+  SqlUiFactory,
+  UITypes,
+} from 'nocodb-sdk';
 import Airtable from 'airtable';
 import hash from 'object-hash';
 import dayjs from 'dayjs';
@@ -1169,9 +1174,9 @@ export class AtImportProcessor {
       const fn = aTblFunction.split('(')[0];
       const aTbl_ncRollUp = {
         AND: '',
-        ARRAYCOMPACT: '',
-        ARRAYJOIN: '',
-        ARRAYUNIQUE: '',
+        ARRAYCOMPACT: 'ARRAYCOMPACT',
+        ARRAYJOIN: 'ARRAYJOIN',
+        ARRAYUNIQUE: 'ARRAYUNIQUE',
         AVERAGE: 'avg',
         CONCATENATE: '',
         COUNT: 'count',
@@ -1186,6 +1191,73 @@ export class AtImportProcessor {
       return aTbl_ncRollUp[fn];
     };
 
+    const nocoCreateArrayFormula = async ({
+      aTblColumn,
+      srcTableId,
+      srcTableSchema,
+      ncRelationColumnId,
+      ncLookupColumnId,
+      ncArrayFn,
+    }) => {
+      const ncLookupName = nc_getSanitizedColumnName(
+        `${aTblColumn.name} (values)`,
+        srcTableSchema.table_name,
+      );
+      const ncName = nc_getSanitizedColumnName(
+        aTblColumn.name,
+        srcTableSchema.table_name,
+      );
+
+      try {
+        logDetailed(
+          `NC API: dbTableColumn.create LOOKUP ${ncLookupName.title}`,
+        );
+        let _perfStart = recordPerfStart();
+        const ncLookupTbl: any = await this.columnsService.columnAdd(context, {
+          tableId: srcTableId,
+          column: {
+            uidt: UITypes.Lookup,
+            title: ncLookupName.title,
+            column_name: ncLookupName.column_name,
+            fk_relation_column_id: ncRelationColumnId,
+            fk_lookup_column_id: ncLookupColumnId,
+          },
+          req,
+          user: syncDB.user,
+        });
+        recordPerfStats(_perfStart, 'dbTableColumn.create');
+        updateNcTblSchema(ncLookupTbl);
+
+        logDetailed(`NC API: dbTableColumn.create FORMULA ${ncName.title}`);
+        _perfStart = recordPerfStart();
+        const ncTbl: any = await this.columnsService.columnAdd(context, {
+          tableId: srcTableId,
+          column: {
+            uidt: UITypes.Formula,
+            title: ncName.title,
+            column_name: ncName.column_name,
+            formula_raw: `${ncArrayFn}({${ncLookupName.title}})`,
+          },
+          req,
+          user: syncDB.user,
+        });
+        recordPerfStats(_perfStart, 'dbTableColumn.create');
+        updateNcTblSchema(ncTbl);
+
+        const ncId = ncTbl.columns.find((x) => x.title === aTblColumn.name)?.id;
+        await sMap.addToMappingTbl(
+          aTblColumn.id,
+          ncId,
+          aTblColumn.name,
+          ncTbl.id,
+        );
+      } catch (e) {
+        logWarning(
+          `Skipped creating rollup column ${aTblColumn.name} :: ${e.message}`,
+        );
+      }
+    };
+
     const nocoCreateRollup = async (aTblSchema) => {
       // Rollup
       for (let idx = 0; idx < aTblSchema.length; idx++) {
@@ -1268,6 +1340,20 @@ export class AtImportProcessor {
               continue;
             }
 
+            // array rollups have no rollup counterpart; migrate them as
+            // a lookup of the linked values wrapped in an array formula
+            if (ArrayFormulaFunctions.includes(ncRollupFn)) {
+              await nocoCreateArrayFormula({
+                aTblColumn: aTblColumns[i],
+                srcTableId,
+                srcTableSchema,
+                ncRelationColumnId,
+                ncLookupColumnId: ncRollupColumnId,
+                ncArrayFn: ncRollupFn,
+              });
+              continue;
+            }
+
             // skip, if rollup column was pointing to another virtual column
             const ncColSchema = await nc_getColumnSchema(
               aTblColumns[i].typeOptions.foreignTableRollupColumnId,
@@ -7,6 +7,7 @@ import type { Job } from 'bull';
 import { type DataExportJobData } from '~/interface/Jobs';
 import { elapsedTime, initTime } from '~/modules/jobs/helpers';
 import { ExportService } from '~/modules/jobs/jobs/export-import/export.service';
+import { getDataExportWriter } from '~/modules/jobs/jobs/data-export/writers';
 import { Model, PresignedUrl, View } from '~/models';
 import { NcError } from '~/helpers/catchError';
 import NcPluginMgrv2 from '~/helpers/NcPluginMgrv2';
@@ -32,8 +33,6 @@ export class DataExportProcessor {
       ncSiteUrl,
     } = job.data;
 
-    if (exportAs !== 'csv') NcError.notImplemented(`Export as ${exportAs}`);
-
     const hrTime = initTime();
 
     const model = await Model.get(context, modelId);
@@ -44,6 +43,16 @@ export class DataExportProcessor {
 
     if (!view) NcError.viewNotFound(viewId);
 
+    const writer = getDataExportWriter(exportAs, {
+      title: getViewTitle(view),
+    });
+
+    if (exportAs !== 'csv' && !writer)
+      NcError.notImplemented(`Export as ${exportAs}`);
+
+    const extension = writer?.extension ?? 'csv';
+    const mimetype = writer?.mimetype ?? 'text/csv';
+
     // date time as containing folder YYYY-MM-DD/HH
     const dateFolder = moment().format('YYYY-MM-DD/HH');
 
@@ -51,7 +60,7 @@ export class DataExportProcessor {
 
     const destPath = `nc/uploads/data-export/${dateFolder}/${modelId}/${
       model.title
-    } (${getViewTitle(view)}) - ${Date.now()}.csv`;
+    } (${getViewTitle(view)}) - ${Date.now()}.${extension}`;
 
     let url = null;
 
@@ -60,9 +69,11 @@ export class DataExportProcessor {
         read() {},
       });
 
-      dataStream.setEncoding('utf8');
+      // encoding options only apply to csv, other formats are always utf-8
+      if (!writer) dataStream.setEncoding('utf8');
 
       const encodedStream =
+        !writer &&
         options?.encoding &&
         options.encoding !== 'utf-8' &&
         iconv.encodingExists(options.encoding)
@@ -89,6 +100,7 @@ export class DataExportProcessor {
           viewId: view.id,
           ncSiteUrl: ncSiteUrl,
           delimiter: options?.delimiter,
+          writer,
         })
         .catch((e) => {
           this.logger.debug(e);
@@ -102,20 +114,20 @@ export class DataExportProcessor {
       if (!url) {
         url = await PresignedUrl.getSignedUrl({
           pathOrUrl: path.join(destPath.replace('nc/uploads/', '')),
-          filename: `${model.title} (${getViewTitle(view)}).csv`,
+          filename: `${model.title} (${getViewTitle(view)}).${extension}`,
           expireSeconds: 3 * 60 * 60, // 3 hours
           preview: false,
-          mimetype: 'text/csv',
-          encoding: options?.encoding || 'utf-8',
+          mimetype,
+          encoding: (!writer && options?.encoding) || 'utf-8',
         });
       } else {
         url = await PresignedUrl.getSignedUrl({
           pathOrUrl: url,
-          filename: `${model.title} (${getViewTitle(view)}).csv`,
+          filename: `${model.title} (${getViewTitle(view)}).${extension}`,
           expireSeconds: 3 * 60 * 60, // 3 hours
           preview: false,
-          mimetype: 'text/csv',
-          encoding: options?.encoding || 'utf-8',
+          mimetype,
+          encoding: (!writer && options?.encoding) || 'utf-8',
         });
       }
 
@@ -0,0 +1,91 @@
+import { UITypes } from 'nocodb-sdk';
+import type { Column } from '~/models';
+
+/**
+ * Serializes exported rows into a file format.
+ *
+ * Every method returns the chunk to be pushed to the export stream,
+ * so rows are written page by page without buffering the whole view.
+ */
+export interface DataExportWriter {
+  readonly extension: string;
+  readonly mimetype: string;
+  writeHeader(columns: Column[]): Buffer | string;
+  writeRows(rows: Record<string, any>[]): Buffer | string;
+  writeFooter(): Buffer | string;
+}
+
+export type DataExportFormat = 'csv' | 'json' | 'xlsx' | 'parquet';
+
+// columns which are passed to writers with their raw value instead of serialized text
+const typedExportUITypes = [
+  UITypes.ID,
+  UITypes.AutoNumber,
+  UITypes.Number,
+  UITypes.Decimal,
+  UITypes.Currency,
+  UITypes.Percent,
+  UITypes.Rating,
+  UITypes.Year,
+  UITypes.Checkbox,
+  UITypes.Date,
+  UITypes.DateTime,
+  UITypes.CreatedTime,
+  UITypes.LastModifiedTime,
+];
+
+export function isTypedExportColumn(column: Column) {
+  return typedExportUITypes.includes(column.uidt as UITypes);
+}
+
+export function isDateExportColumn(column: Column) {
+  return column.uidt === UITypes.Date;
+}
+
+export function isDateTimeExportColumn(column: Column) {
+  return [
+    UITypes.DateTime,
+    UITypes.CreatedTime,
+    UITypes.LastModifiedTime,
+  ].includes(column.uidt as UITypes);
+}
+
+export function isNumericExportColumn(column: Column) {
+  return (
+    isTypedExportColumn(column) &&
+    !isBooleanExportColumn(column) &&
+    !isDateExportColumn(column) &&
+    !isDateTimeExportColumn(column)
+  );
+}
+
+// parse date and datetime values, plain dates are treated as UTC midnight
+export function toExportDate(value: any): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  const date = value instanceof Date ? value : new Date(value);
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function toExportNumber(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  const num = Number(value);
+
+  return Number.isFinite(num) ? num : null;
+}
+
+export function toExportBoolean(value: any): boolean | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (typeof value === 'string') {
+    return !['false', '0'].includes(value.toLowerCase());
+  }
+
+  return !!value;
+}
+
+export function isBooleanExportColumn(column: Column) {
+  return column.uidt === UITypes.Checkbox;
+}
@@ -0,0 +1,22 @@
+import { JsonLinesWriter } from './json.writer';
+import { ParquetWriter } from './parquet.writer';
+import { XlsxWriter } from './xlsx.writer';
+import type { DataExportFormat, DataExportWriter } from './helpers';
+
+export * from './helpers';
+
+export function getDataExportWriter(
+  exportAs: DataExportFormat,
+  { title }: { title: string },
+): DataExportWriter {
+  switch (exportAs) {
+    case 'json':
+      return new JsonLinesWriter();
+    case 'xlsx':
+      return new XlsxWriter({ sheetName: title });
+    case 'parquet':
+      return new ParquetWriter();
+    default:
+      return null;
+  }
+}
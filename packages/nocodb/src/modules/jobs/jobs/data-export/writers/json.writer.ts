@@ -0,0 +1,64 @@
+import {
+  isBooleanExportColumn,
+  isDateExportColumn,
+  isDateTimeExportColumn,
+  isNumericExportColumn,
+  toExportBoolean,
+  toExportDate,
+  toExportNumber,
+} from './helpers';
+import type { DataExportWriter } from './helpers';
+import type { Column } from '~/models';
+
+/**
+ * Writes one JSON object per line (JSON Lines), keyed by field title in view column order.
+ */
+export class JsonLinesWriter implements DataExportWriter {
+  readonly extension = 'jsonl';
+  readonly mimetype = 'application/x-ndjson';
+
+  private columns: Column[] = [];
+
+  writeHeader(columns: Column[]) {
+    this.columns = columns;
+    return '';
+  }
+
+  writeRows(rows: Record<string, any>[]) {
+    return rows
+      .map((row) => {
+        const record = {};
+        for (const column of this.columns) {
+          record[column.title] = this.formatValue(column, row[column.title]);
+        }
+        return `${JSON.stringify(record)}\n`;
+      })
+      .join('');
+  }
+
+  writeFooter() {
+    return '';
+  }
+
+  private formatValue(column: Column, value: any) {
+    if (value === undefined) return null;
+
+    if (isNumericExportColumn(column)) {
+      return toExportNumber(value);
+    }
+
+    if (isBooleanExportColumn(column)) {
+      return toExportBoolean(value);
+    }
+
+    if (isDateExportColumn(column)) {
+      return toExportDate(value)?.toISOString().slice(0, 10) ?? null;
+    }
+
+    if (isDateTimeExportColumn(column)) {
+      return toExportDate(value)?.toISOString() ?? null;
+    }
+
+    return value;
+  }
+}
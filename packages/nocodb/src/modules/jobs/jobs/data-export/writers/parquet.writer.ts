@@ -0,0 +1,371 @@
+import {
+  isBooleanExportColumn,
+  isDateExportColumn,
+  isDateTimeExportColumn,
+  isNumericExportColumn,
+  toExportBoolean,
+  toExportDate,
+  toExportNumber,
+} from './helpers';
+import type { DataExportWriter } from './helpers';
+import type { Column } from '~/models';
+
+const PARQUET_MAGIC = Buffer.from('PAR1');
+
+// rows buffered before writing a row group
+const ROW_GROUP_SIZE = 5000;
+
+// parquet physical types
+enum ParquetType {
+  BOOLEAN = 0,
+  INT32 = 1,
+  INT64 = 2,
+  DOUBLE = 5,
+  BYTE_ARRAY = 6,
+}
+
+// parquet converted (logical) types
+enum ConvertedType {
+  UTF8 = 0,
+  DATE = 6,
+  TIMESTAMP_MILLIS = 9,
+}
+
+const REPETITION_OPTIONAL = 1;
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const PAGE_TYPE_DATA_PAGE = 0;
+const CODEC_UNCOMPRESSED = 0;
+
+// thrift compact protocol types
+enum TType {
+  I32 = 5,
+  I64 = 6,
+  BINARY = 8,
+  LIST = 9,
+  STRUCT = 12,
+}
+
+type ThriftField = [id: number, type: TType, value: any, elemType?: TType];
+
+interface ParquetColumn {
+  column: Column;
+  type: ParquetType;
+  convertedType?: ConvertedType;
+  toValue: (value: any) => any;
+}
+
+/**
+ * Writes an uncompressed Parquet file with one optional column per field.
+ *
+ * Rows are buffered up to `ROW_GROUP_SIZE` and written as row groups,
+ * the file metadata is written as the footer once all rows are written.
+ */
+export class ParquetWriter implements DataExportWriter {
+  readonly extension = 'parquet';
+  readonly mimetype = 'application/vnd.apache.parquet';
+
+  private columns: ParquetColumn[] = [];
+  private rows: Record<string, any>[] = [];
+  private rowGroups: ThriftField[][] = [];
+  private numRows = 0;
+  private offset = 0;
+
+  writeHeader(columns: Column[]) {
+    this.columns = columns.map((column) => this.getParquetColumn(column));
+    this.offset = PARQUET_MAGIC.length;
+    return PARQUET_MAGIC;
+  }
+
+  writeRows(rows: Record<string, any>[]) {
+    this.rows.push(...rows);
+
+    const chunks: Buffer[] = [];
+    while (this.rows.length >= ROW_GROUP_SIZE) {
+      chunks.push(this.writeRowGroup(this.rows.splice(0, ROW_GROUP_SIZE)));
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  writeFooter() {
+    const chunks: Buffer[] = [];
+
+    if (this.rows.length) {
+      chunks.push(this.writeRowGroup(this.rows.splice(0)));
+    }
+
+    const schema: ThriftField[][] = [
+      [
+        [4, TType.BINARY, 'schema'],
+        [5, TType.I32, this.columns.length],
+      ],
+      ...this.columns.map(({ column, type, convertedType }) => {
+        const fields: ThriftField[] = [
+          [1, TType.I32, type],
+          [3, TType.I32, REPETITION_OPTIONAL],
+          [4, TType.BINARY, column.title],
+        ];
+        if (convertedType !== undefined) {
+          fields.push([6, TType.I32, convertedType]);
+        }
+        return fields;
+      }),
+    ];
+
+    const metadata = encodeStruct([
+      [1, TType.I32, 1],
+      [2, TType.LIST, schema, TType.STRUCT],
+      [3, TType.I64, this.numRows],
+      [4, TType.LIST, this.rowGroups, TType.STRUCT],
+      [6, TType.BINARY, 'NocoDB'],
+    ]);
+
+    const metadataLength = Buffer.alloc(4);
+    metadataLength.writeUInt32LE(metadata.length);
+
+    chunks.push(metadata, metadataLength, PARQUET_MAGIC);
+
+    return Buffer.concat(chunks);
+  }
+
+  private writeRowGroup(rows: Record<string, any>[]) {
+    const chunks: Buffer[] = [];
+    const columnChunks: ThriftField[][] = [];
+    let totalByteSize = 0;
+
+    for (const parquetColumn of this.columns) {
+      const values = rows.map((row) => {
+        const value = row[parquetColumn.column.title];
+        return value === null || value === undefined || value === ''
+          ? null
+          : parquetColumn.toValue(value);
+      });
+
+      const page = encodeDataPage(parquetColumn.type, values);
+
+      const pageHeader = encodeStruct([
+        [1, TType.I32, PAGE_TYPE_DATA_PAGE],
+        [2, TType.I32, page.length],
+        [3, TType.I32, page.length],
+        [
+          5,
+          TType.STRUCT,
+          [
+            [1, TType.I32, values.length],
+            [2, TType.I32, ENCODING_PLAIN],
+            [3, TType.I32, ENCODING_RLE],
+            [4, TType.I32, ENCODING_RLE],
+          ],
+        ],
+      ]);
+
+      const dataPageOffset = this.offset;
+      const size = pageHeader.length + page.length;
+
+      chunks.push(pageHeader, page);
+      this.offset += size;
+      totalByteSize += size;
+
+      columnChunks.push([
+        [2, TType.I64, dataPageOffset],
+        [
+          3,
+          TType.STRUCT,
+          [
+            [1, TType.I32, parquetColumn.type],
+            [2, TType.LIST, [ENCODING_PLAIN, ENCODING_RLE], TType.I32],
+            [3, TType.LIST, [parquetColumn.column.title], TType.BINARY],
+            [4, TType.I32, CODEC_UNCOMPRESSED],
+            [5, TType.I64, values.length],
+            [6, TType.I64, size],
+            [7, TType.I64, size],
+            [9, TType.I64, dataPageOffset],
+          ],
+        ],
+      ]);
+    }
+
+    this.rowGroups.push([
+      [1, TType.LIST, columnChunks, TType.STRUCT],
+      [2, TType.I64, totalByteSize],
+      [3, TType.I64, rows.length],
+    ]);
+    this.numRows += rows.length;
+
+    return Buffer.concat(chunks);
+  }
+
+  private getParquetColumn(column: Column): ParquetColumn {
+    if (isNumericExportColumn(column)) {
+      return {
+        column,
+        type: ParquetType.DOUBLE,
+        toValue: toExportNumber,
+      };
+    }
+
+    if (isBooleanExportColumn(column)) {
+      return {
+        column,
+        type: ParquetType.BOOLEAN,
+        toValue: toExportBoolean,
+      };
+    }
+
+    if (isDateExportColumn(column)) {
+      return {
+        column,
+        type: ParquetType.INT32,
+        convertedType: ConvertedType.DATE,
+        toValue: (value) => {
+          const date = toExportDate(value);
+          return date ? Math.floor(date.getTime() / 86400000) : null;
+        },
+      };
+    }
+
+    if (isDateTimeExportColumn(column)) {
+      return {
+        column,
+        type: ParquetType.INT64,
+        convertedType: ConvertedType.TIMESTAMP_MILLIS,
+        toValue: (value) => toExportDate(value)?.getTime() ?? null,
+      };
+    }
+
+    return {
+      column,
+      type: ParquetType.BYTE_ARRAY,
+      convertedType: ConvertedType.UTF8,
+      toValue: (value) =>
+        typeof value === 'object' ? JSON.stringify(value) : `${value}`,
+    };
+  }
+}
+
+// data page v1: length prefixed definition levels followed by plain encoded non null values
+function encodeDataPage(type: ParquetType, values: any[]) {
+  const definitionLevels = encodeBitPackedBooleans(
+    values.map((value) => value !== null),
+  );
+
+  // bit packed run header: number of 8 value groups, lowest bit set
+  const header = varint((Math.ceil(values.length / 8) << 1) | 1);
+
+  const levelsLength = Buffer.alloc(4);
+  levelsLength.writeUInt32LE(header.length + definitionLevels.length);
+
+  return Buffer.concat([
+    levelsLength,
+    header,
+    definitionLevels,
+    encodePlain(
+      type,
+      values.filter((value) => value !== null),
+    ),
+  ]);
+}
+
+function encodePlain(type: ParquetType, values: any[]) {
+  switch (type) {
+    case ParquetType.BOOLEAN:
+      return encodeBitPackedBooleans(values);
+    case ParquetType.INT32: {
+      const buf = Buffer.alloc(values.length * 4);
+      values.forEach((value, i) => buf.writeInt32LE(value, i * 4));
+      return buf;
+    }
+    case ParquetType.INT64: {
+      const buf = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) => buf.writeBigInt64LE(BigInt(value), i * 8));
+      return buf;
+    }
+    case ParquetType.DOUBLE: {
+      const buf = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) => buf.writeDoubleLE(value, i * 8));
+      return buf;
+    }
+    case ParquetType.BYTE_ARRAY:
+      return Buffer.concat(
+        values.flatMap((value) => {
+          const data = Buffer.from(value);
+          const length = Buffer.alloc(4);
+          length.writeUInt32LE(data.length);
+          return [length, data];
+        }),
+      );
+  }
+}
+
+// pack booleans as bits, least significant bit first
+function encodeBitPackedBooleans(values: boolean[]) {
+  const buf = Buffer.alloc(Math.ceil(values.length / 8));
+  values.forEach((value, i) => {
+    if (value) buf[i >> 3] |= 1 << (i & 7);
+  });
+  return buf;
+}
+
+function varint(value: number) {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push(value % 0x80 | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
+
+function zigzag(value: number) {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+// encode a struct with the thrift compact protocol
+function encodeStruct(fields: ThriftField[]): Buffer {
+  const chunks: Buffer[] = [];
+  let lastId = 0;
+
+  for (const [id, type, value, elemType] of fields) {
+    const delta = id - lastId;
+    if (delta > 0 && delta <= 15) {
+      chunks.push(Buffer.from([(delta << 4) | type]));
+    } else {
+      chunks.push(Buffer.from([type]), varint(zigzag(id)));
+    }
+    lastId = id;
+
+    chunks.push(encodeValue(type, value, elemType));
+  }
+
+  chunks.push(Buffer.from([0]));
+
+  return Buffer.concat(chunks);
+}
+
+function encodeValue(type: TType, value: any, elemType?: TType): Buffer {
+  switch (type) {
+    case TType.I32:
+    case TType.I64:
+      return varint(zigzag(value));
+    case TType.BINARY: {
+      const data = Buffer.from(value);
+      return Buffer.concat([varint(data.length), data]);
+    }
+    case TType.STRUCT:
+      return encodeStruct(value);
+    case TType.LIST: {
+      const header =
+        value.length < 15
+          ? Buffer.from([(value.length << 4) | elemType])
+          : Buffer.concat([
+              Buffer.from([0xf0 | elemType]),
+              varint(value.length),
+            ]);
+      return Buffer.concat([
+        header,
+        ...value.map((item) => encodeValue(elemType, item)),
+      ]);
+    }
+  }
+}
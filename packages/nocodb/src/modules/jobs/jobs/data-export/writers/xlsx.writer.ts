@@ -0,0 +1,285 @@
+import { UITypes } from 'nocodb-sdk';
+import { ZipWriter } from './zip';
+import {
+  isBooleanExportColumn,
+  isDateExportColumn,
+  isDateTimeExportColumn,
+  isNumericExportColumn,
+  toExportBoolean,
+  toExportDate,
+  toExportNumber,
+} from './helpers';
+import type { DataExportWriter } from './helpers';
+import type { Column } from '~/models';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const SPREADSHEET_NS =
+  'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS =
+  'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// excel limits the cell text length
+const MAX_CELL_TEXT_LENGTH = 32767;
+
+// days between 1899-12-30 (excel epoch) and 1970-01-01
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+// custom number formats start from this id
+const CUSTOM_NUM_FMT_START_ID = 164;
+
+const HEADER_STYLE_INDEX = 1;
+
+/**
+ * Writes a single sheet XLSX workbook.
+ *
+ * Rows are streamed into the worksheet using inline strings and typed cells,
+ * number formats for dates, currency, percent and decimals are derived from field meta.
+ */
+export class XlsxWriter implements DataExportWriter {
+  readonly extension = 'xlsx';
+  readonly mimetype =
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+  private zip = new ZipWriter();
+  private columns: Column[] = [];
+  private columnStyles: number[] = [];
+  private rowIndex = 0;
+
+  constructor(private readonly options: { sheetName: string }) {}
+
+  writeHeader(columns: Column[]) {
+    this.columns = columns;
+
+    const numFmts: string[] = [];
+
+    // style index 0 is the default style and 1 is the header style
+    this.columnStyles = columns.map((column) => {
+      const numFmt = this.getNumberFormat(column);
+      if (!numFmt) return 0;
+
+      let index = numFmts.indexOf(numFmt);
+      if (index === -1) index = numFmts.push(numFmt) - 1;
+
+      return HEADER_STYLE_INDEX + 1 + index;
+    });
+
+    const chunks = [
+      this.zip.addFile('[Content_Types].xml', this.contentTypesXml()),
+      this.zip.addFile('_rels/.rels', this.rootRelsXml()),
+      this.zip.addFile('xl/workbook.xml', this.workbookXml()),
+      this.zip.addFile('xl/_rels/workbook.xml.rels', this.workbookRelsXml()),
+      this.zip.addFile('xl/styles.xml', this.stylesXml(numFmts)),
+      this.zip.startFile('xl/worksheets/sheet1.xml'),
+      this.zip.writeFileData(
+        `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${this.rowXml(
+          (ref, i) =>
+            this.stringCell(ref, columns[i].title, HEADER_STYLE_INDEX),
+        )}`,
+      ),
+    ];
+
+    return Buffer.concat(chunks);
+  }
+
+  writeRows(rows: Record<string, any>[]) {
+    const xml = rows
+      .map((row) =>
+        this.rowXml((ref, i) =>
+          this.cell(
+            ref,
+            this.columns[i],
+            row[this.columns[i].title],
+            this.columnStyles[i],
+          ),
+        ),
+      )
+      .join('');
+
+    return this.zip.writeFileData(xml);
+  }
+
+  writeFooter() {
+    return Buffer.concat([
+      this.zip.writeFileData('</sheetData></worksheet>'),
+      this.zip.endFile(),
+      this.zip.end(),
+    ]);
+  }
+
+  private rowXml(cell: (ref: string, columnIndex: number) => string) {
+    const r = ++this.rowIndex;
+
+    return `<row r="${r}">${this.columns
+      .map((_, i) => cell(`${columnName(i)}${r}`, i))
+      .join('')}</row>`;
+  }
+
+  private cell(ref: string, column: Column, value: any, style: number) {
+    if (value === null || value === undefined || value === '') return '';
+
+    const styleAttr = style ? ` s="${style}"` : '';
+
+    if (isNumericExportColumn(column)) {
+      let num = toExportNumber(value);
+      if (num === null) return this.stringCell(ref, value);
+
+      // percent values are stored as 0-100, excel expects a fraction
+      if (column.uidt === UITypes.Percent) num = num / 100;
+
+      return `<c r="${ref}"${styleAttr}><v>${num}</v></c>`;
+    }
+
+    if (isBooleanExportColumn(column)) {
+      return `<c r="${ref}" t="b"><v>${toExportBoolean(value) ? 1 : 0}</v></c>`;
+    }
+
+    if (isDateExportColumn(column) || isDateTimeExportColumn(column)) {
+      const date = toExportDate(value);
+      if (!date) return this.stringCell(ref, value);
+
+      const serial = date.getTime() / 86400000 + EXCEL_EPOCH_OFFSET_DAYS;
+
+      return `<c r="${ref}"${styleAttr}><v>${serial}</v></c>`;
+    }
+
+    return this.stringCell(ref, value);
+  }
+
+  private stringCell(ref: string, value: any, style?: number) {
+    const text = (
+      typeof value === 'object' ? JSON.stringify(value) : `${value}`
+    ).slice(0, MAX_CELL_TEXT_LENGTH);
+
+    return `<c r="${ref}"${
+      style ? ` s="${style}"` : ''
+    } t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+      text,
+    )}</t></is></c>`;
+  }
+
+  private getNumberFormat(column: Column) {
+    const meta = (column.meta ?? {}) as Record<string, any>;
+
+    switch (column.uidt) {
+      case UITypes.Date:
+        return 'yyyy-mm-dd';
+      case UITypes.DateTime:
+      case UITypes.CreatedTime:
+      case UITypes.LastModifiedTime:
+        return 'yyyy-mm-dd hh:mm:ss';
+      case UITypes.Percent:
+        return decimalFormat(meta.precision ?? 0) + '%';
+      case UITypes.Decimal:
+        return decimalFormat(meta.precision ?? 1);
+      case UITypes.Currency: {
+        const symbol = getCurrencySymbol(
+          meta.currency_locale,
+          meta.currency_code,
+        );
+        const format = `#,##${decimalFormat(meta.precision ?? 2)}`;
+        return symbol ? `"${symbol}"${format}` : format;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private contentTypesXml() {
+    return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+  }
+
+  private rootRelsXml() {
+    return `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}"><Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+  }
+
+  private workbookXml() {
+    return `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}"><sheets><sheet name="${escapeXml(
+      sheetName(this.options.sheetName),
+    )}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+  }
+
+  private workbookRelsXml() {
+    return `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}"><Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/></Relationships>`;
+  }
+
+  private stylesXml(numFmts: string[]) {
+    const numFmtsXml = numFmts
+      .map(
+        (format, i) =>
+          `<numFmt numFmtId="${
+            CUSTOM_NUM_FMT_START_ID + i
+          }" formatCode="${escapeXml(format)}"/>`,
+      )
+      .join('');
+
+    const cellXfs = [
+      '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>',
+      ...numFmts.map(
+        (_, i) =>
+          `<xf numFmtId="${
+            CUSTOM_NUM_FMT_START_ID + i
+          }" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`,
+      ),
+    ];
+
+    return `${XML_HEADER}<styleSheet xmlns="${SPREADSHEET_NS}">${
+      numFmts.length
+        ? `<numFmts count="${numFmts.length}">${numFmtsXml}</numFmts>`
+        : ''
+    }<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="${
+      cellXfs.length
+    }">${cellXfs.join(
+      '',
+    )}</cellXfs><cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>`;
+  }
+}
+
+function decimalFormat(precision: number) {
+  return precision > 0 ? `0.${'0'.repeat(precision)}` : '0';
+}
+
+function getCurrencySymbol(locale: string, currency: string) {
+  if (!currency) return null;
+
+  try {
+    return new Intl.NumberFormat(locale || 'en-US', {
+      style: 'currency',
+      currency,
+    })
+      .formatToParts(0)
+      .find((part) => part.type === 'currency')?.value;
+  } catch {
+    return null;
+  }
+}
+
+// convert zero based column index to excel column name (A, B, ..., AA, ...)
+function columnName(index: number) {
+  let name = '';
+  for (let i = index + 1; i > 0; i = Math.floor((i - 1) / 26)) {
+    name = String.fromCharCode(65 + ((i - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// sheet names are limited to 31 characters and can't contain []:*?/\
+function sheetName(name: string) {
+  return (name || 'Sheet1').replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+}
+
+function escapeXml(value: string) {
+  return (
+    value
+      // strip characters which are not allowed in xml
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  );
+}
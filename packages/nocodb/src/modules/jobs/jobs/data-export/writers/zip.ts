@@ -0,0 +1,163 @@
+import zlib from 'zlib';
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  flags: number;
+}
+
+// empty final deflate block, terminates a deflate stream built from sync flushed chunks
+const DEFLATE_END_BLOCK = Buffer.from([0x03, 0x00]);
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+// DOS date and time of 1980-01-01 00:00:00, entry timestamps are not relevant for exports
+const DOS_TIME = 0;
+const DOS_DATE = 0x21;
+
+/**
+ * Minimal zip writer which returns the bytes to be written for each operation,
+ * so an archive can be produced as a stream without holding it in memory.
+ *
+ * Streamed entries are compressed chunk by chunk and closed with a data descriptor.
+ */
+export class ZipWriter {
+  private offset = 0;
+  private entries: ZipEntry[] = [];
+  private current: ZipEntry = null;
+
+  // add a complete file entry
+  addFile(name: string, content: Buffer | string) {
+    const data = Buffer.isBuffer(content) ? content : Buffer.from(content);
+    const compressed = zlib.deflateRawSync(data);
+
+    const entry: ZipEntry = {
+      name: Buffer.from(name),
+      crc: zlib.crc32(data) >>> 0,
+      compressedSize: compressed.length,
+      size: data.length,
+      offset: this.offset,
+      flags: FLAG_UTF8,
+    };
+
+    return this.push(
+      entry,
+      Buffer.concat([this.localHeader(entry), compressed]),
+    );
+  }
+
+  // start a file entry whose content is written in chunks
+  startFile(name: string) {
+    if (this.current) throw new Error('Previous zip entry is not closed');
+
+    this.current = {
+      name: Buffer.from(name),
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset,
+      flags: FLAG_UTF8 | FLAG_DATA_DESCRIPTOR,
+    };
+
+    return this.write(this.localHeader(this.current));
+  }
+
+  writeFileData(content: Buffer | string) {
+    const data = Buffer.isBuffer(content) ? content : Buffer.from(content);
+
+    if (!data.length) return Buffer.alloc(0);
+
+    // sync flush keeps the output byte aligned and non final,
+    // so the compressed chunks can be concatenated into a single deflate stream
+    const compressed = zlib.deflateRawSync(data, {
+      finishFlush: zlib.constants.Z_SYNC_FLUSH,
+    });
+
+    this.current.crc = zlib.crc32(data, this.current.crc) >>> 0;
+    this.current.size += data.length;
+    this.current.compressedSize += compressed.length;
+
+    return this.write(compressed);
+  }
+
+  endFile() {
+    const entry = this.current;
+    this.current = null;
+
+    entry.compressedSize += DEFLATE_END_BLOCK.length;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+
+    return this.push(entry, Buffer.concat([DEFLATE_END_BLOCK, descriptor]));
+  }
+
+  // write central directory and end of central directory record
+  end() {
+    const centralDirectoryOffset = this.offset;
+
+    const headers = this.entries.map((entry) => {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(entry.flags, 8);
+      header.writeUInt16LE(8, 10);
+      header.writeUInt16LE(DOS_TIME, 12);
+      header.writeUInt16LE(DOS_DATE, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([header, entry.name]);
+    });
+
+    const centralDirectory = Buffer.concat(headers);
+
+    const endRecord = Buffer.alloc(22);
+    endRecord.writeUInt32LE(0x06054b50, 0);
+    endRecord.writeUInt16LE(this.entries.length, 8);
+    endRecord.writeUInt16LE(this.entries.length, 10);
+    endRecord.writeUInt32LE(centralDirectory.length, 12);
+    endRecord.writeUInt32LE(centralDirectoryOffset, 16);
+
+    return this.write(Buffer.concat([centralDirectory, endRecord]));
+  }
+
+  private localHeader(entry: ZipEntry) {
+    const streamed = entry.flags & FLAG_DATA_DESCRIPTOR;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(entry.flags, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt16LE(DOS_TIME, 10);
+    header.writeUInt16LE(DOS_DATE, 12);
+    // sizes and crc of streamed entries are written in the data descriptor
+    header.writeUInt32LE(streamed ? 0 : entry.crc, 14);
+    header.writeUInt32LE(streamed ? 0 : entry.compressedSize, 18);
+    header.writeUInt32LE(streamed ? 0 : entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+
+    return Buffer.concat([header, entry.name]);
+  }
+
+  private push(entry: ZipEntry, data: Buffer) {
+    this.entries.push(entry);
+    return this.write(data);
+  }
+
+  private write(data: Buffer) {
+    this.offset += data.length;
+    return data;
+  }
+}
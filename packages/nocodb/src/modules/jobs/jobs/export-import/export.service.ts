@@ -13,7 +13,9 @@ import debug from 'debug';
 import { Injectable } from '@nestjs/common';
 import { NcApiVersion } from 'nocodb-sdk';
 import { elapsedTime, initTime } from '../../helpers';
+import { isTypedExportColumn } from '../data-export/writers';
 import type { LookupType, RollupType } from 'nocodb-sdk';
+import type { DataExportWriter } from '../data-export/writers';
 import type { BaseModelSqlv2 } from '~/db/BaseModelSqlv2';
 import type { NcContext } from '~/interface/config';
 import type { LinkToAnotherRecordColumn } from '~/models';
@@ -336,6 +338,7 @@ export class ExportService {
               case 'fk_column_id':
               case 'fk_cover_image_col_id':
               case 'fk_grp_col_id':
+              case 'fk_swimlane_col_id':
                 view.view[k] = idMap.get(v as string);
                 break;
               case 'meta':
@@ -578,9 +581,11 @@ export class ExportService {
       ncSiteUrl?: string;
       delimiter?: string;
       excludeUsers?: boolean;
+      // serialize rows with a format writer instead of csv (data export only)
+      writer?: DataExportWriter;
     },
   ) {
-    const { dataStream, linkStream, handledMmList } = param;
+    const { dataStream, linkStream, handledMmList, writer } = param;
 
     const dataExportMode = !linkStream;
 
@@ -657,7 +662,8 @@ export class ExportService {
 
     const hasLink = !dataExportMode && mmColumns.length > 0;
 
-    dataStream.setEncoding('utf8');
+    // writers produce binary output (xlsx, parquet)
+    if (!writer) dataStream.setEncoding('utf8');
 
     const formatData = (data: any) => {
       for (const row of data) {
@@ -753,6 +759,9 @@ export class ExportService {
         for (const [k, v] of Object.entries(row)) {
           const col = model.columns.find((c) => c.title === k);
           if (col) {
+            // writers handle typed values (numbers, dates, checkbox) themselves
+            if (writer && isTypedExportColumn(col)) continue;
+
             row[k] = await serializeCellValue(context, {
               value: v,
               column: col,
@@ -773,6 +782,14 @@ export class ExportService {
     const limit = 200;
     const offset = 0;
 
+    if (writer) {
+      dataStream.push(
+        writer.writeHeader(
+          fields.map((title) => model.columns.find((c) => c.title === title)),
+        ),
+      );
+    }
+
     try {
       await this.recursiveRead(
         context,
@@ -787,6 +804,7 @@ export class ExportService {
         true,
         param.delimiter,
         dataExportMode,
+        writer,
       );
     } catch (e) {
       this.debugLog(e);
@@ -905,6 +923,7 @@ export class ExportService {
     header = false,
     delimiter = ',',
     dataExportMode = false,
+    writer?: DataExportWriter,
   ): Promise<void> {
     return new Promise((resolve, reject) => {
       this.datasService
@@ -918,7 +937,7 @@ export class ExportService {
         })
         .then((result) => {
           try {
-            if (!header) {
+            if (!header && !writer) {
               stream.push('\r\n');
             }
 
@@ -926,8 +945,13 @@ export class ExportService {
             const formatterPromise = formatter(result.list);
             if (formatterPromise instanceof Promise) {
               formatterPromise.then(({ data }) => {
-                stream.push(unparse(data, { header, delimiter }));
+                stream.push(
+                  writer
+                    ? writer.writeRows(data)
+                    : unparse(data, { header, delimiter }),
+                );
                 if (result.pageInfo.isLastPage) {
+                  if (writer) stream.push(writer.writeFooter());
                   stream.push(null);
                   resolve();
                 } else {
@@ -944,6 +968,7 @@ export class ExportService {
                     false,
                     delimiter,
                     dataExportMode,
+                    writer,
                   )
                     .then(resolve)
                     .catch(reject);
@@ -1038,7 +1063,12 @@ export class ExportService {
 
   async exportBase(
     context: NcContext,
-    param: { path: string; sourceId: string },
+    param: {
+      path: string;
+      sourceId: string;
+      // full storage path, overrides the default export path
+      destPath?: string;
+    },
   ) {
     const hrTime = initTime();
 
@@ -1070,7 +1100,8 @@ export class ExportService {
 
     const storageAdapter = await NcPluginMgrv2.storageAdapter();
 
-    const destPath = `export/${base.id}/${source.id}/${param.path}`;
+    const destPath =
+      param.destPath ?? `export/${base.id}/${source.id}/${param.path}`;
 
     try {
       const readableStream = new Readable({
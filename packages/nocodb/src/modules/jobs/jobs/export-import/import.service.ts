@@ -1684,7 +1684,7 @@ export class ImportService {
             calendar_range: (vw.view as CalendarView).calendar_range.map(
               (a) => ({
                 fk_from_column_id: idMap.get(a.fk_from_column_id),
-                fk_to_column_id: idMap.get((a as any).fk_to_column_id),
+                fk_to_column_id: idMap.get(a.fk_to_column_id),
               }),
             ),
           } as ViewCreateReqType,
@@ -1734,6 +1734,7 @@ export class ImportService {
           for (const [k, v] of Object.entries(kanbanData)) {
             switch (k) {
               case 'fk_grp_col_id':
+              case 'fk_swimlane_col_id':
               case 'fk_cover_image_col_id':
                 kanbanData[k] = idMap.get(v as string) ?? null;
                 break;
@@ -0,0 +1,76 @@
+import debug from 'debug';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import { Injectable } from '@nestjs/common';
+import { AppEvents, NotificationEmailPreference } from 'nocodb-sdk';
+import type { Job } from 'bull';
+import type { NotificationDigestJobData } from '~/interface/Jobs';
+import { MailService } from '~/services/mail/mail.service';
+import { MailEvent } from '~/interface/Mail';
+import { Notification, User } from '~/models';
+
+dayjs.extend(utc);
+
+const DIGEST_NOTIFICATION_TYPES = [
+  AppEvents.ROW_USER_MENTION,
+  AppEvents.ROW_USER_ASSIGN,
+];
+
+@Injectable()
+export class NotificationDigestProcessor {
+  private readonly debugLog = debug('nc:jobs:notification-digest');
+
+  constructor(protected readonly mailService: MailService) {}
+
+  async job(job: Job<NotificationDigestJobData>) {
+    const { since, siteUrl } = job.data;
+
+    const user = await User.get(job.data.user.id);
+
+    // the preference might have changed since the digest was scheduled
+    if (
+      (user?.meta as Record<string, any>)?.notificationEmail !==
+      NotificationEmailPreference.DIGEST
+    ) {
+      this.debugLog(`Digest skipped for ${job.data.user.id}`);
+      return;
+    }
+
+    const notifications = (
+      await Notification.list({
+        fk_user_id: user.id,
+        is_read: false,
+        is_deleted: false,
+        limit: 100,
+      })
+    )
+      .filter(
+        (notification) =>
+          DIGEST_NOTIFICATION_TYPES.includes(notification.type) &&
+          !dayjs
+            .utc(notification.created_at)
+            .isBefore(dayjs.utc(since), 'second'),
+      )
+      // oldest first
+      .reverse();
+
+    if (!notifications.length) {
+      this.debugLog(`No unread notifications for ${user.id}`);
+      return;
+    }
+
+    await this.mailService.sendMail({
+      mailEvent: MailEvent.NOTIFICATION_DIGEST,
+      payload: {
+        user,
+        notifications: notifications.map((notification) => ({
+          type: notification.type,
+          body: notification.body as Record<string, any>,
+        })),
+        req: { ncSiteUrl: siteUrl },
+      },
+    });
+
+    this.debugLog(`Digest with ${notifications.length} notifications sent`);
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { GlobalGuard } from '~/guards/global/global.guard';
+import { Acl } from '~/middlewares/extract-ids/extract-ids.middleware';
+import { MetaApiLimiterGuard } from '~/guards/meta-api-limiter.guard';
+import { PagedResponseImpl } from '~/helpers/PagedResponse';
+import { TenantContext } from '~/decorators/tenant-context.decorator';
+import { NcContext, NcRequest } from '~/interface/config';
+import { SnapshotService } from '~/modules/jobs/jobs/snapshot/snapshot.service';
+
+@Controller()
+@UseGuards(MetaApiLimiterGuard, GlobalGuard)
+export class SnapshotController {
+  constructor(protected readonly snapshotService: SnapshotService) {}
+
+  @Get(['/api/v2/meta/bases/:baseId/snapshots'])
+  @Acl('snapshotList')
+  async snapshotList(
+    @TenantContext() context: NcContext,
+    @Param('baseId') baseId: string,
+  ) {
+    return new PagedResponseImpl(
+      await this.snapshotService.snapshotList(context, { baseId }),
+    );
+  }
+
+  @Post(['/api/v2/meta/bases/:baseId/snapshots'])
+  @HttpCode(200)
+  @Acl('snapshotCreate')
+  async snapshotCreate(
+    @TenantContext() context: NcContext,
+    @Req() req: NcRequest,
+    @Param('baseId') baseId: string,
+    @Body() body: { title?: string },
+  ) {
+    return await this.snapshotService.snapshotCreate(context, {
+      baseId,
+      snapshot: body,
+      req,
+    });
+  }
+
+  @Post(['/api/v2/meta/bases/:baseId/snapshots/:snapshotId/restore'])
+  @HttpCode(200)
+  @Acl('snapshotRestore')
+  async snapshotRestore(
+    @TenantContext() context: NcContext,
+    @Req() req: NcRequest,
+    @Param('baseId') baseId: string,
+    @Param('snapshotId') snapshotId: string,
+    @Body()
+    body?: {
+      overwrite?: boolean;
+      base?: { title?: string };
+    },
+  ) {
+    return await this.snapshotService.snapshotRestore(context, {
+      baseId,
+      snapshotId,
+      body,
+      req,
+    });
+  }
+
+  @Delete(['/api/v2/meta/bases/:baseId/snapshots/:snapshotId'])
+  @Acl('snapshotDelete')
+  async snapshotDelete(
+    @TenantContext() context: NcContext,
+    @Param('baseId') baseId: string,
+    @Param('snapshotId') snapshotId: string,
+  ) {
+    return await this.snapshotService.snapshotDelete(context, {
+      baseId,
+      snapshotId,
+    });
+  }
+}
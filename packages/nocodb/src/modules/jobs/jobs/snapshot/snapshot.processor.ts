@@ -0,0 +1,185 @@
+import { Readable } from 'stream';
+import debug from 'debug';
+import { Injectable } from '@nestjs/common';
+import type { Job } from 'bull';
+import type {
+  CreateSnapshotJobData,
+  RestoreSnapshotJobData,
+} from '~/interface/Jobs';
+import { Base, Snapshot } from '~/models';
+import { SnapshotStatus } from '~/models/Snapshot';
+import { JobTypes } from '~/interface/Jobs';
+import NcPluginMgrv2 from '~/helpers/NcPluginMgrv2';
+import { elapsedTime, initTime } from '~/modules/jobs/helpers';
+import { ExportService } from '~/modules/jobs/jobs/export-import/export.service';
+import { ImportService } from '~/modules/jobs/jobs/export-import/import.service';
+import { BasesService } from '~/services/bases.service';
+import { TablesService } from '~/services/tables.service';
+
+@Injectable()
+export class SnapshotProcessor {
+  protected readonly debugLog = debug('nc:jobs:snapshot');
+
+  constructor(
+    protected readonly exportService: ExportService,
+    protected readonly importService: ImportService,
+    protected readonly basesService: BasesService,
+    protected readonly tablesService: TablesService,
+  ) {}
+
+  async createSnapshot(job: Job<CreateSnapshotJobData>) {
+    this.debugLog(`job started for ${job.id} (${JobTypes.CreateSnapshot})`);
+
+    const hrTime = initTime();
+
+    const { context, sourceIds } = job.data;
+
+    const snapshot = new Snapshot(job.data.snapshot);
+
+    try {
+      for (const sourceId of sourceIds) {
+        await this.exportService.exportBase(context, {
+          path: snapshot.id,
+          sourceId,
+          destPath: snapshot.getSourcePath(sourceId),
+        });
+      }
+
+      const storageAdapter = await NcPluginMgrv2.storageAdapter();
+
+      await storageAdapter.fileCreateByStream(
+        snapshot.sourcesPath,
+        Readable.from([JSON.stringify(sourceIds)]),
+      );
+    } catch (e) {
+      await Snapshot.update(context, snapshot.id, {
+        status: SnapshotStatus.FAILED,
+      });
+      throw e;
+    }
+
+    await Snapshot.update(context, snapshot.id, {
+      status: SnapshotStatus.SUCCESS,
+    });
+
+    elapsedTime(
+      hrTime,
+      `created snapshot ${snapshot.id} of ${snapshot.base_id}`,
+      JobTypes.CreateSnapshot,
+    );
+
+    return { id: snapshot.id };
+  }
+
+  async restoreSnapshot(job: Job<RestoreSnapshotJobData>) {
+    this.debugLog(`job started for ${job.id} (${JobTypes.RestoreSnapshot})`);
+
+    const hrTime = initTime();
+
+    const { targetBaseId, targetContext, req } = job.data;
+
+    const snapshot = new Snapshot(job.data.snapshot);
+
+    // restoring over the base the snapshot was taken from
+    const overwrite = targetBaseId === snapshot.base_id;
+
+    const targetBase = await Base.get(targetContext, targetBaseId);
+
+    try {
+      const storageAdapter = await NcPluginMgrv2.storageAdapter();
+
+      const sourceIds: string[] = JSON.parse(
+        await storageAdapter.fileRead(snapshot.sourcesPath),
+      );
+
+      const targetSources = await targetBase.getSources();
+
+      // sources are restored in place when overwriting, otherwise all of them
+      // are restored to the default source of the new base
+      const restoreTargets = sourceIds
+        .map((sourceId) => ({
+          path: snapshot.getSourcePath(sourceId),
+          source: overwrite
+            ? targetSources.find((s) => s.id === sourceId)
+            : targetSources[0],
+        }))
+        .filter((target) => {
+          if (!target.source) {
+            this.debugLog(`skipped ${target.path} as its source was deleted`);
+          }
+          return !!target.source;
+        });
+
+      if (overwrite) {
+        // drop current tables, relations are removed along with the tables
+        for (const { source } of restoreTargets) {
+          const models = (await source.getModels(targetContext)).filter(
+            (m) => m.source_id === source.id && !m.mm && m.type === 'table',
+          );
+
+          for (const model of models) {
+            await this.tablesService.tableDelete(targetContext, {
+              tableId: model.id,
+              user: req.user,
+              forceDeleteRelations: true,
+              forceDeleteSyncs: true,
+              req,
+            });
+          }
+        }
+
+        elapsedTime(hrTime, `cleared base ${targetBaseId}`, 'restoreSnapshot');
+      }
+
+      for (const { path, source } of restoreTargets) {
+        await this.importService.importBase(targetContext, {
+          user: req.user,
+          baseId: targetBase.id,
+          sourceId: source.id,
+          src: {
+            type: 'local',
+            path,
+          },
+          req,
+        });
+      }
+
+      await this.basesService.baseUpdate(targetContext, {
+        baseId: targetBase.id,
+        base: {
+          status: null,
+        },
+        user: req.user,
+        req,
+      });
+    } catch (e) {
+      if (overwrite) {
+        // keep the base accessible, snapshot can be restored again
+        await this.basesService.baseUpdate(targetContext, {
+          baseId: targetBase.id,
+          base: {
+            status: null,
+          },
+          user: req.user,
+          req,
+        });
+      } else {
+        await this.basesService.baseSoftDelete(targetContext, {
+          baseId: targetBase.id,
+          user: req.user,
+          req,
+        });
+      }
+
+      throw e;
+    }
+
+    elapsedTime(
+      hrTime,
+      `restored snapshot ${snapshot.id} to ${targetBaseId}`,
+      JobTypes.RestoreSnapshot,
+    );
+
+    return { id: targetBase.id };
+  }
+}
@@ -0,0 +1,202 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ProjectStatus } from 'nocodb-sdk';
+import type { NcContext, NcRequest } from '~/interface/config';
+import { Base, Snapshot } from '~/models';
+import { SnapshotStatus } from '~/models/Snapshot';
+import { generateUniqueName } from '~/helpers/exportImportHelpers';
+import { JobTypes } from '~/interface/Jobs';
+import { NcError } from '~/helpers/catchError';
+import NcPluginMgrv2 from '~/helpers/NcPluginMgrv2';
+import { BasesService } from '~/services/bases.service';
+import { IJobsService } from '~/modules/jobs/jobs-service.interface';
+
+@Injectable()
+export class SnapshotService {
+  private readonly logger = new Logger(SnapshotService.name);
+
+  constructor(
+    @Inject('JobsService') protected readonly jobsService: IJobsService,
+    protected readonly basesService: BasesService,
+  ) {}
+
+  async snapshotList(context: NcContext, param: { baseId: string }) {
+    return await Snapshot.list(context, param.baseId);
+  }
+
+  async snapshotCreate(
+    context: NcContext,
+    param: {
+      baseId: string;
+      snapshot: { title?: string };
+      req: NcRequest;
+    },
+  ) {
+    const { req } = param;
+
+    const base = await Base.get(context, param.baseId);
+
+    if (!base) NcError.baseNotFound(param.baseId);
+
+    const sources = await base.getSources();
+
+    if (!sources.length) NcError.sourceNotFound(param.baseId);
+
+    const snapshot = await Snapshot.insert(context, {
+      title: param.snapshot?.title || new Date().toISOString(),
+      base_id: base.id,
+      fk_source_id: sources[0].id,
+      status: SnapshotStatus.IN_PROGRESS,
+      created_by: req.user?.id,
+    });
+
+    const job = await this.jobsService.add(JobTypes.CreateSnapshot, {
+      context,
+      user: req.user,
+      sourceIds: sources.map((source) => source.id),
+      snapshot,
+      req: {
+        user: req.user,
+        clientIp: req.clientIp,
+        headers: req.headers,
+      },
+    });
+
+    return { id: job.id, snapshot };
+  }
+
+  async snapshotRestore(
+    context: NcContext,
+    param: {
+      baseId: string;
+      snapshotId: string;
+      body?: {
+        // restore over the snapshot base instead of creating a new base
+        overwrite?: boolean;
+        // override restored base
+        base?: { title?: string };
+      };
+      req: NcRequest;
+    },
+  ) {
+    const { req, body } = param;
+
+    const base = await Base.get(context, param.baseId);
+
+    if (!base) NcError.baseNotFound(param.baseId);
+
+    const snapshot = await this.getSnapshot(context, param);
+
+    if (snapshot.status !== SnapshotStatus.SUCCESS) {
+      NcError.badRequest('Snapshot is not ready to be restored');
+    }
+
+    let targetBase = base;
+
+    if (body?.overwrite) {
+      await this.basesService.baseUpdate(context, {
+        baseId: base.id,
+        base: {
+          status: ProjectStatus.JOB,
+        },
+        user: req.user,
+        req,
+      });
+    } else {
+      const bases = await Base.list(context.workspace_id);
+
+      targetBase = await this.basesService.baseCreate({
+        base: {
+          title: generateUniqueName(
+            body?.base?.title ?? `${base.title} ${snapshot.title}`,
+            bases.map((p) => p.title),
+          ),
+          status: ProjectStatus.JOB,
+        },
+        user: {
+          id: req.user.id,
+          email: req.user.email,
+          display_name: req.user.display_name,
+        },
+        req,
+      });
+    }
+
+    const job = await this.jobsService.add(JobTypes.RestoreSnapshot, {
+      context,
+      user: req.user,
+      sourceId: snapshot.fk_source_id,
+      targetBaseId: targetBase.id,
+      targetContext: {
+        workspace_id: targetBase.fk_workspace_id,
+        base_id: targetBase.id,
+      },
+      snapshot,
+      req: {
+        user: req.user,
+        clientIp: req.clientIp,
+        headers: req.headers,
+      },
+    });
+
+    return { id: job.id, base_id: targetBase.id };
+  }
+
+  async snapshotDelete(
+    context: NcContext,
+    param: { baseId: string; snapshotId: string },
+  ) {
+    const snapshot = await this.getSnapshot(context, param);
+
+    if (snapshot.status === SnapshotStatus.IN_PROGRESS) {
+      NcError.badRequest('Snapshot is being created');
+    }
+
+    await Snapshot.delete(context, snapshot.id);
+
+    // remove stored files, failing to do so shouldn't block the delete
+    try {
+      const storageAdapter = await NcPluginMgrv2.storageAdapter();
+
+      const sourceIds: string[] = await storageAdapter
+        .fileRead(snapshot.sourcesPath)
+        .then((data) => JSON.parse(data))
+        .catch(() => []);
+
+      for (const sourceId of sourceIds) {
+        const sourcePath = snapshot.getSourcePath(sourceId);
+
+        const dataFiles = await storageAdapter
+          .getDirectoryList(`${sourcePath}/data`)
+          .catch(() => []);
+
+        for (const file of [
+          'schema.json',
+          ...dataFiles.map((file) => `data/${file}`),
+        ]) {
+          await storageAdapter
+            .fileDelete(`${sourcePath}/${file}`)
+            .catch(() => {});
+        }
+      }
+
+      await storageAdapter.fileDelete(snapshot.sourcesPath).catch(() => {});
+    } catch (e) {
+      this.logger.error(e);
+    }
+
+    return true;
+  }
+
+  protected async getSnapshot(
+    context: NcContext,
+    param: { baseId: string; snapshotId: string },
+  ) {
+    const snapshot = await Snapshot.get(context, param.snapshotId);
+
+    if (!snapshot || snapshot.base_id !== param.baseId) {
+      NcError.notFound('Snapshot not found');
+    }
+
+    return snapshot;
+  }
+}
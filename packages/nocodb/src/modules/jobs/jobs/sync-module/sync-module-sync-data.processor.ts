@@ -0,0 +1,69 @@
+import debug from 'debug';
+import { Injectable } from '@nestjs/common';
+import { SyncTrigger } from 'nocodb-sdk';
+import type { Job } from 'bull';
+import type { SyncDataSyncModuleJobData } from '~/interface/Jobs';
+import { SyncConfig } from '~/models';
+import { SyncModuleService } from '~/services/sync-module.service';
+import { JobsLogService } from '~/modules/jobs/jobs/jobs-log.service';
+
+@Injectable()
+export class SyncModuleSyncDataProcessor {
+  private readonly debugLog = debug('nc:jobs:sync-module-sync-data');
+
+  constructor(
+    private readonly syncModuleService: SyncModuleService,
+    private readonly jobsLogService: JobsLogService,
+  ) {}
+
+  async job(job: Job<SyncDataSyncModuleJobData>) {
+    this.debugLog(`job started for ${job.id}`);
+
+    const { context, syncConfigId, targetTables, trigger, bulk, req } =
+      job.data;
+
+    const logBasic = (log) => {
+      this.jobsLogService.sendLog(job, { message: log });
+      this.debugLog(log);
+    };
+
+    const syncConfig = await SyncConfig.get(context, syncConfigId);
+
+    if (!syncConfig) {
+      this.debugLog(`sync ${syncConfigId} not found, skipping job ${job.id}`);
+      return;
+    }
+
+    // schedule was changed or removed after this job was added
+    if (
+      trigger === SyncTrigger.Schedule &&
+      syncConfig.sync_job_id !== `${job.id}`
+    ) {
+      this.debugLog(`skipping outdated scheduled job ${job.id}`);
+      return;
+    }
+
+    try {
+      const result = await this.syncModuleService.syncData(context, {
+        syncConfigId,
+        syncRunId: `${job.id}`,
+        targetTables,
+        bulk,
+        req,
+        logger: logBasic,
+      });
+
+      this.debugLog(`job completed for ${job.id}`);
+
+      return result;
+    } finally {
+      if (trigger === SyncTrigger.Schedule) {
+        await this.syncModuleService.scheduleNextSync(
+          context,
+          syncConfigId,
+          req,
+        );
+      }
+    }
+  }
+}
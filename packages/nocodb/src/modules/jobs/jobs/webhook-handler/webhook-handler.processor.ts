@@ -1,15 +1,30 @@
-import { Logger } from '@nestjs/common';
+import { forwardRef, Inject, Injectable, Logger } from '@nestjs/common';
 import type { Job } from 'bull';
 import { invokeWebhook } from '~/helpers/webhookHelpers';
 import { Hook, Model, View } from '~/models';
-import { type HandleWebhookJobData } from '~/interface/Jobs';
+import { type HandleWebhookJobData, JobTypes } from '~/interface/Jobs';
+import { IJobsService } from '~/modules/jobs/jobs-service.interface';
 
+@Injectable()
 export class WebhookHandlerProcessor {
   protected logger = new Logger(WebhookHandlerProcessor.name);
 
+  constructor(
+    @Inject(forwardRef(() => 'JobsService'))
+    protected readonly jobsService: IJobsService,
+  ) {}
+
   async job(job: Job<HandleWebhookJobData>) {
-    const { context, hookId, modelId, viewId, prevData, newData, user } =
-      job.data;
+    const {
+      context,
+      hookId,
+      modelId,
+      viewId,
+      prevData,
+      newData,
+      user,
+      attempt = 1,
+    } = job.data;
 
     const hook = await Hook.get(context, hookId);
     if (!hook) {
@@ -25,13 +40,34 @@ export class WebhookHandlerProcessor {
 
     const view = viewId ? await View.get(context, viewId) : null;
 
-    await invokeWebhook(context, {
+    const result = await invokeWebhook(context, {
       hook,
       model,
       view,
       prevData,
       newData,
       user,
+      attempt,
     });
+
+    // schedule next delivery attempt with backoff delay
+    if (result && result.retryDelay) {
+      await this.jobsService.add(
+        JobTypes.HandleWebhook,
+        {
+          context,
+          hookId,
+          modelId,
+          viewId,
+          prevData,
+          newData,
+          user,
+          attempt: attempt + 1,
+        },
+        {
+          delay: result.retryDelay,
+        },
+      );
+    }
   }
 }
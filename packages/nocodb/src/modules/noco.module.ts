@@ -51,6 +51,7 @@ import { HooksController } from '~/controllers/hooks.controller';
 import { JobsMetaController } from '~/controllers/jobs-meta.controller';
 import { KanbansController } from '~/controllers/kanbans.controller';
 import { MapsController } from '~/controllers/maps.controller';
+import { TimelinesController } from '~/controllers/timelines.controller';
 import { MetaDiffsController } from '~/controllers/meta-diffs.controller';
 import { ModelVisibilitiesController } from '~/controllers/model-visibilities.controller';
 import { NotificationsController } from '~/controllers/notifications.controller';
@@ -59,12 +60,17 @@ import { OrgTokensController } from '~/controllers/org-tokens.controller';
 import { OrgUsersController } from '~/controllers/org-users.controller';
 import { PluginsController } from '~/controllers/plugins.controller';
 import { PublicMetasController } from '~/controllers/public-metas.controller';
+import { RowPoliciesController } from '~/controllers/row-policies.controller';
 import { SharedBasesController } from '~/controllers/shared-bases.controller';
 import { SortsController } from '~/controllers/sorts.controller';
 import { SourcesController } from '~/controllers/sources.controller';
 import { SyncController } from '~/controllers/sync.controller';
+import { SyncModuleController } from '~/controllers/sync-module.controller';
 import { TablesController } from '~/controllers/tables.controller';
 import { UtilsController } from '~/controllers/utils.controller';
+import { MetricsController } from '~/controllers/metrics.controller';
+import { RecordTrashController } from '~/controllers/record-trash.controller';
+import { RecordRevisionsController } from '~/controllers/record-revisions.controller';
 import { ViewColumnsController } from '~/controllers/view-columns.controller';
 import { ViewsController } from '~/controllers/views.controller';
 import { MetaService } from '~/meta/meta.service';
@@ -90,9 +96,11 @@ import { HooksService } from '~/services/hooks.service';
 import { JobsMetaService } from '~/services/jobs-meta.service';
 import { KanbansService } from '~/services/kanbans.service';
 import { MapsService } from '~/services/maps.service';
+import { TimelinesService } from '~/services/timelines.service';
 import { MetaDiffsService } from '~/services/meta-diffs.service';
 import { ModelVisibilitiesService } from '~/services/model-visibilities.service';
 import { NocoJobsService } from '~/services/noco-jobs.service';
+import { SyncModuleService } from '~/services/sync-module.service';
 import { NotificationsService } from '~/services/notifications/notifications.service';
 import { OrgLcenseService } from '~/services/org-lcense.service';
 import { OrgTokensEeService } from '~/services/org-tokens-ee.service';
@@ -100,12 +108,16 @@ import { OrgTokensService } from '~/services/org-tokens.service';
 import { OrgUsersService } from '~/services/org-users.service';
 import { PluginsService } from '~/services/plugins.service';
 import { PublicMetasService } from '~/services/public-metas.service';
+import { RowPoliciesService } from '~/services/row-policies.service';
 import { SharedBasesService } from '~/services/shared-bases.service';
 import { SortsService } from '~/services/sorts.service';
 import { SourcesService } from '~/services/sources.service';
 import { SyncService } from '~/services/sync.service';
 import { TablesService } from '~/services/tables.service';
 import { UtilsService } from '~/services/utils.service';
+import { MetricsService } from '~/services/metrics.service';
+import { RecordTrashService } from '~/services/record-trash.service';
+import { RecordRevisionsService } from '~/services/record-revisions.service';
 import { ViewColumnsService } from '~/services/view-columns.service';
 import { ViewsService } from '~/services/views.service';
 import { McpTokenService } from '~/services/mcp.service';
@@ -116,6 +128,7 @@ import { InternalController } from '~/controllers/internal.controller';
 /* Datas */
 import { BulkDataAliasController } from '~/controllers/bulk-data-alias.controller';
 import { CalendarDatasController } from '~/controllers/calendars-datas.controller';
+import { CalendarFeedsController } from '~/controllers/calendar-feeds.controller';
 import { DataAliasNestedController } from '~/controllers/data-alias-nested.controller';
 import { DataAliasController } from '~/controllers/data-alias.controller';
 import { DataTableController } from '~/controllers/data-table.controller';
@@ -134,6 +147,7 @@ import { TablesV3Controller } from '~/controllers/v3/tables-v3.controller';
 import { ViewsV3Controller } from '~/controllers/v3/views-v3.controller';
 import { BulkDataAliasService } from '~/services/bulk-data-alias.service';
 import { CalendarDatasService } from '~/services/calendar-datas.service';
+import { CalendarFeedsService } from '~/services/calendar-feeds.service';
 import { DataAliasNestedService } from '~/services/data-alias-nested.service';
 import { DataTableService } from '~/services/data-table.service';
 import { DatasService } from '~/services/datas.service';
@@ -197,6 +211,7 @@ export const nocoModuleMetadata = {
           HooksController,
           KanbansController,
           MapsController,
+          TimelinesController,
           MetaDiffsController,
           ModelVisibilitiesController,
           OrgLcenseController,
@@ -207,11 +222,16 @@ export const nocoModuleMetadata = {
           BaseUsersV3Controller,
           BasesController,
           PublicMetasController,
+          RowPoliciesController,
           ViewsController,
           ViewColumnsController,
           UtilsController,
+          MetricsController,
+          RecordTrashController,
+          RecordRevisionsController,
           TablesController,
           SyncController,
+          SyncModuleController,
           SortsController,
           SharedBasesController,
           NotificationsController,
@@ -236,6 +256,7 @@ export const nocoModuleMetadata = {
           DataTableController,
           DatasController,
           CalendarDatasController,
+          CalendarFeedsController,
           BulkDataAliasController,
           DataAliasController,
           DataAliasNestedController,
@@ -281,6 +302,7 @@ export const nocoModuleMetadata = {
     HooksService,
     KanbansService,
     MapsService,
+    TimelinesService,
     MetaDiffsService,
     ModelVisibilitiesService,
     OrgLcenseService,
@@ -292,9 +314,13 @@ export const nocoModuleMetadata = {
     BaseUsersV3Service,
     BasesService,
     PublicMetasService,
+    RowPoliciesService,
     ViewsService,
     ViewColumnsService,
     UtilsService,
+    MetricsService,
+    RecordTrashService,
+    RecordRevisionsService,
     TablesService,
     SyncService,
     SortsService,
@@ -311,6 +337,7 @@ export const nocoModuleMetadata = {
     ViewsV3Service,
     FiltersV3Service,
     NocoJobsService,
+    SyncModuleService,
     McpTokenService,
     McpService,
     /* Datas */
@@ -319,6 +346,7 @@ export const nocoModuleMetadata = {
     BulkDataAliasService,
     DataAliasNestedService,
     CalendarDatasService,
+    CalendarFeedsService,
     OldDatasService,
     PublicDatasService,
     PublicDatasExportService,
@@ -335,6 +363,7 @@ export const nocoModuleMetadata = {
     AppHooksService,
     TelemetryService,
     HookHandlerService,
+    MailService,
     JwtStrategy,
 
     /* Users */
@@ -364,6 +393,7 @@ export const nocoModuleMetadata = {
     UtilsService,
     IntegrationsService,
     NocoJobsService,
+    SyncModuleService,
 
     /* Datas */
     DatasService,
@@ -1,4 +1,9 @@
-import { RelationTypes, UITypes } from 'nocodb-sdk';
+import {
+  ColumnPermission,
+  getColumnPermission,
+  RelationTypes,
+  UITypes,
+} from 'nocodb-sdk';
 import type { Base, Column, LinkToAnotherRecordColumn } from '~/models';
 import type { NcContext } from '~/interface/config';
 import SwaggerTypes from '~/db/sql-mgr/code/routers/xc-ts/SwaggerTypes';
@@ -11,8 +16,15 @@ export default async (
   ncMeta = Noco.ncMeta,
 ): Promise<SwaggerColumn[]> => {
   const dbType = await base.getSources().then((b) => b?.[0]?.type);
+  // exclude columns hidden for the role of the requesting user
+  const accessibleColumns = columns.filter(
+    (c) =>
+      getColumnPermission(c, context.user?.base_roles) !==
+      ColumnPermission.HIDDEN,
+  );
+
   return Promise.all(
-    columns.map(async (c) => {
+    accessibleColumns.map(async (c) => {
       const field: SwaggerColumn = {
         title: c.title,
         type: 'object',
@@ -69,6 +81,13 @@ export default async (
           break;
       }
 
+      if (
+        getColumnPermission(c, context.user?.base_roles) ===
+        ColumnPermission.READONLY
+      ) {
+        field.readOnly = true;
+      }
+
       return field;
     }),
   );
@@ -79,6 +98,7 @@ export interface SwaggerColumn {
   title: string;
   description?: string;
   virtual?: boolean;
+  readOnly?: boolean;
   $ref?: any;
   column: Column;
   items?: any;
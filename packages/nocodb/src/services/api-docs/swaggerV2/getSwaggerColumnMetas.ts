@@ -1,4 +1,4 @@
-import { UITypes } from 'nocodb-sdk';
+import { ColumnPermission, getColumnPermission, UITypes } from 'nocodb-sdk';
 import type { Base, Column, LinkToAnotherRecordColumn } from '~/models';
 import type { NcContext } from '~/interface/config';
 import SwaggerTypes from '~/db/sql-mgr/code/routers/xc-ts/SwaggerTypes';
@@ -11,8 +11,15 @@ export default async (
   ncMeta = Noco.ncMeta,
 ): Promise<SwaggerColumn[]> => {
   const dbType = await base.getSources().then((b) => b?.[0]?.type);
+  // exclude columns hidden for the role of the requesting user
+  const accessibleColumns = columns.filter(
+    (c) =>
+      getColumnPermission(c, context.user?.base_roles) !==
+      ColumnPermission.HIDDEN,
+  );
+
   return Promise.all(
-    columns.map(async (c) => {
+    accessibleColumns.map(async (c) => {
       const field: SwaggerColumn = {
         title: c.title,
         type: 'object',
@@ -62,6 +69,13 @@ export default async (
           break;
       }
 
+      if (
+        getColumnPermission(c, context.user?.base_roles) ===
+        ColumnPermission.READONLY
+      ) {
+        field.readOnly = true;
+      }
+
       return field;
     }),
   );
@@ -72,6 +86,7 @@ export interface SwaggerColumn {
   title: string;
   description?: string;
   virtual?: boolean;
+  readOnly?: boolean;
   $ref?: any;
   column: Column;
   items?: any;
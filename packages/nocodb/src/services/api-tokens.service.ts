@@ -6,6 +6,7 @@ import type { NcRequest } from '~/interface/config';
 import { AppHooksService } from '~/services/app-hooks/app-hooks.service';
 import { NcError } from '~/helpers/catchError';
 import { validatePayload } from '~/helpers';
+import { validateApiTokenReq } from '~/helpers/apiTokenHelpers';
 import { ApiToken } from '~/models';
 
 @Injectable()
@@ -24,6 +25,9 @@ export class ApiTokensService {
       'swagger.json#/components/schemas/ApiTokenReq',
       param.tokenBody,
     );
+
+    await validateApiTokenReq(param.tokenBody);
+
     const token = await ApiToken.insert({
       ...param.tokenBody,
       fk_user_id: param.userId,
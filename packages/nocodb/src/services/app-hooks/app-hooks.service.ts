@@ -12,6 +12,7 @@ import type {
   ColumnDuplicateEvent,
   ColumnEvent,
   ColumnUpdateEvent,
+  DataEvent,
   DataExportEvent,
   DataImportEvent,
   FilterEvent,
@@ -172,6 +173,13 @@ export class AppHooksService {
       | AppEvents.COLUMN_CREATE,
     listener: (data: ColumnEvent) => void,
   ): () => void;
+  on(
+    event:
+      | AppEvents.DATA_CREATE
+      | AppEvents.DATA_UPDATE
+      | AppEvents.DATA_DELETE,
+    listener: (data: DataEvent) => void,
+  ): () => void;
 
   on(
     event: AppEvents.ROW_USER_MENTION,
@@ -333,7 +341,8 @@ export class AppHooksService {
       | AppEvents.CALENDAR_CREATE
       | AppEvents.GALLERY_CREATE
       | AppEvents.KANBAN_CREATE
-      | AppEvents.MAP_CREATE,
+      | AppEvents.MAP_CREATE
+      | AppEvents.TIMELINE_CREATE,
     data: ViewCreateEvent,
   ): void;
   emit(
@@ -343,7 +352,8 @@ export class AppHooksService {
       | AppEvents.CALENDAR_DELETE
       | AppEvents.GALLERY_DELETE
       | AppEvents.KANBAN_DELETE
-      | AppEvents.MAP_DELETE,
+      | AppEvents.MAP_DELETE
+      | AppEvents.TIMELINE_DELETE,
     data: ViewDeleteEvent,
   ): void;
   emit(
@@ -352,7 +362,8 @@ export class AppHooksService {
       | AppEvents.CALENDAR_UPDATE
       | AppEvents.GALLERY_UPDATE
       | AppEvents.KANBAN_UPDATE
-      | AppEvents.MAP_UPDATE,
+      | AppEvents.MAP_UPDATE
+      | AppEvents.TIMELINE_UPDATE,
     data:
       | ViewUpdateEvent
       | GridViewUpdateEvent
@@ -396,6 +407,13 @@ export class AppHooksService {
   ): void;
   emit(event: AppEvents.DATA_EXPORT, data: DataExportEvent): void;
   emit(event: AppEvents.DATA_IMPORT, data: DataImportEvent): void;
+  emit(
+    event:
+      | AppEvents.DATA_CREATE
+      | AppEvents.DATA_UPDATE
+      | AppEvents.DATA_DELETE,
+    data: DataEvent,
+  ): void;
 
   emit(
     event:
@@ -404,7 +422,8 @@ export class AppHooksService {
       | AppEvents.CALENDAR_UPDATE
       | AppEvents.GALLERY_UPDATE
       | AppEvents.KANBAN_UPDATE
-      | AppEvents.MAP_UPDATE,
+      | AppEvents.MAP_UPDATE
+      | AppEvents.TIMELINE_UPDATE,
     data:
       | ViewUpdateEvent
       | GridViewUpdateEvent
@@ -47,7 +47,10 @@ export interface RowMentionEvent extends NcBaseEvent {
   model: TableType;
   rowId: string;
   user: UserType;
-  column: ColumnType;
+  // set when mentioned in a rich text field
+  column?: ColumnType;
+  // set when mentioned in a record comment
+  comment?: CommentType;
   mentions: string[];
 }
 
@@ -440,6 +443,17 @@ export interface DataExportEvent extends NcBaseEvent {
   type: 'excel' | 'csv';
 }
 
+export interface DataEvent extends Optional<NcBaseEvent, 'req'> {
+  table: TableType;
+  viewId?: string;
+  user?: UserType;
+  // inserted / updated rows, for delete these are the removed rows
+  rows: Record<string, any>[];
+  prevRows?: Record<string, any>[];
+  // site url of the request which made the change, used to build record links
+  siteUrl?: string;
+}
+
 export type AppEventPayload =
   | ProjectInviteEvent
   | ProjectCreateEvent
@@ -455,4 +469,5 @@ export type AppEventPayload =
   | RowCommentEvent
   | RowMentionEvent
   | WebhookTriggerEvent
-  | ColumnEvent;
+  | ColumnEvent
+  | DataEvent;
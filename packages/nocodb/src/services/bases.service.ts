@@ -20,6 +20,7 @@ import { AppHooksService } from '~/services/app-hooks/app-hooks.service';
 import { populateMeta, validatePayload } from '~/helpers';
 import { NcError } from '~/helpers/catchError';
 import { extractPropsAndSanitize } from '~/helpers/extractProps';
+import { filterApiTokenBases } from '~/helpers/apiTokenHelpers';
 import syncMigration from '~/helpers/syncMigration';
 import { Base, BaseUser, Integration } from '~/models';
 import Noco from '~/Noco';
@@ -42,7 +43,11 @@ export class BasesService {
   async baseList(
     context: NcContext,
     param: {
-      user: { id: string; roles?: string | Record<string, boolean> };
+      user: {
+        id: string;
+        roles?: string | Record<string, boolean>;
+        api_token?: { base_ids?: string[] };
+      };
       query?: any;
     },
   ) {
@@ -50,7 +55,7 @@ export class BasesService {
       ? await Base.list()
       : await BaseUser.getProjectsList(param.user.id, param.query);
 
-    return bases;
+    return filterApiTokenBases(param.user, bases);
   }
 
   async getProject(context: NcContext, param: { baseId: string }) {
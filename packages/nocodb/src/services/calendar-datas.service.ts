@@ -224,12 +224,32 @@ export class CalendarDatasService {
       const fromCol = columns.find(
         (c) => c.id === range.fk_from_column_id,
       )?.title;
+      const toCol = range.fk_to_column_id
+        ? columns.find((c) => c.id === range.fk_to_column_id)?.title
+        : null;
 
       data.list.forEach((date) => {
         const fromDt = dayjs(date[fromCol]);
 
-        if (fromCol && fromDt.isValid()) {
-          dates.push(fromDt.format('YYYY-MM-DD HH:mm:ssZ'));
+        if (!fromCol || !fromDt.isValid()) return;
+
+        dates.push(fromDt.format('YYYY-MM-DD HH:mm:ssZ'));
+
+        const toDt = toCol ? dayjs(date[toCol]) : null;
+
+        if (!toDt?.isValid() || !toDt.isAfter(fromDt)) return;
+
+        // mark every day spanned by the record within the requested window
+        let day = fromDt.startOf('day').add(1, 'day');
+        if (day.isBefore(dayjs(from_date))) {
+          day = dayjs(from_date).startOf('day');
+        }
+
+        const lastDay = toDt.isAfter(dayjs(to_date)) ? dayjs(to_date) : toDt;
+
+        while (!day.isAfter(lastDay)) {
+          dates.push(day.format('YYYY-MM-DD HH:mm:ssZ'));
+          day = day.add(1, 'day');
         }
       });
     });
@@ -273,25 +293,65 @@ export class CalendarDatasService {
 
     calendarRange?.ranges.forEach((range: CalendarRange) => {
       const fromColumn = range.fk_from_column_id;
-      let rangeFilter: any = [];
-      if (fromColumn) {
-        rangeFilter = [
-          {
-            fk_column_id: fromColumn,
-            comparison_op: 'lt',
-            comparison_sub_op: 'exactDate',
-            value: next_date as string,
-          },
-          {
-            fk_column_id: fromColumn,
-            comparison_op: 'gt',
-            comparison_sub_op: 'exactDate',
-            value: prev_date as string,
-          },
-        ];
-      }
-
-      if (rangeFilter.length > 0) filterArr.children.push(rangeFilter);
+      const toColumn = range.fk_to_column_id;
+
+      if (!fromColumn) return;
+
+      // logical_op of a filter decides how it is joined with the previous
+      // filter of the same group
+      const startsBeforeWindowEnd: FilterType = {
+        fk_column_id: fromColumn,
+        comparison_op: 'lt',
+        comparison_sub_op: 'exactDate',
+        value: next_date as string,
+        logical_op: 'and',
+      };
+
+      const startsAfterWindowStart: FilterType = {
+        fk_column_id: fromColumn,
+        comparison_op: 'gt',
+        comparison_sub_op: 'exactDate',
+        value: prev_date as string,
+        logical_op: 'and',
+      };
+
+      // records with an end date are returned when they overlap the window,
+      // records without one only when they start within the window
+      const rangeFilter: FilterType = {
+        is_group: true,
+        // a record is returned if any of the ranges matches
+        logical_op: 'or',
+        children: toColumn
+          ? [
+              startsBeforeWindowEnd,
+              {
+                is_group: true,
+                logical_op: 'and',
+                children: [
+                  {
+                    fk_column_id: toColumn,
+                    comparison_op: 'gt',
+                    comparison_sub_op: 'exactDate',
+                    value: prev_date as string,
+                  },
+                  {
+                    is_group: true,
+                    logical_op: 'or',
+                    children: [
+                      {
+                        fk_column_id: toColumn,
+                        comparison_op: 'blank',
+                      },
+                      startsAfterWindowStart,
+                    ],
+                  },
+                ],
+              },
+            ]
+          : [startsBeforeWindowEnd, startsAfterWindowStart],
+      };
+
+      filterArr.children.push(rangeFilter);
     });
 
     return [filterArr];
@@ -0,0 +1,162 @@
+import { Injectable } from '@nestjs/common';
+import dayjs from 'dayjs';
+import { UITypes, ViewTypes } from 'nocodb-sdk';
+import type { IcsEvent } from '~/helpers/icsHelpers';
+import type { NcContext } from '~/interface/config';
+import type { Column } from '~/models';
+import { NcError } from '~/helpers/catchError';
+import { serializeIcsCalendar } from '~/helpers/icsHelpers';
+import { CalendarView, Model, View } from '~/models';
+import { DatasService } from '~/services/datas.service';
+
+// max number of records rendered in a feed
+const FEED_RECORD_LIMIT = 3000;
+
+@Injectable()
+export class CalendarFeedsService {
+  constructor(protected datasService: DatasService) {}
+
+  async calendarFeedTokenGenerate(
+    context: NcContext,
+    param: { calendarViewId: string },
+  ) {
+    await this.getCalendarView(context, param.calendarViewId);
+
+    const icsToken = await CalendarView.regenerateIcsToken(
+      context,
+      param.calendarViewId,
+    );
+
+    return { ics_token: icsToken };
+  }
+
+  async calendarFeedTokenRevoke(
+    context: NcContext,
+    param: { calendarViewId: string },
+  ) {
+    await this.getCalendarView(context, param.calendarViewId);
+
+    await CalendarView.revokeIcsToken(context, param.calendarViewId);
+
+    return true;
+  }
+
+  async calendarFeedIcs(context: NcContext, param: { icsToken: string }) {
+    const calendarView = await CalendarView.getByIcsToken(
+      context,
+      param.icsToken,
+    );
+
+    if (!calendarView) {
+      NcError.notFound('Calendar feed not found');
+    }
+
+    const view = await View.get(context, calendarView.fk_view_id);
+    const model = await Model.get(context, view.fk_model_id);
+    const columns = await model.getColumns(context);
+
+    const getColumn = (columnId?: string) =>
+      columnId ? columns.find((c) => c.id === columnId) : undefined;
+
+    const ranges = (calendarView.calendar_range ?? [])
+      .map((range) => ({
+        fromColumn: getColumn(range.fk_from_column_id),
+        toColumn: getColumn(range.fk_to_column_id),
+      }))
+      .filter(({ fromColumn }) => fromColumn);
+
+    const titleColumn =
+      getColumn(calendarView.fk_ics_title_col_id) ?? model.displayValue;
+    const descriptionColumn = getColumn(calendarView.fk_ics_description_col_id);
+
+    // view filters and sorts are applied, hidden fields are still needed
+    // to render the ranges, summary and description of the events
+    const { list } = await this.datasService.dataList(context, {
+      model,
+      view,
+      query: {},
+      getHiddenColumns: true,
+      limitOverride: FEED_RECORD_LIMIT,
+    });
+
+    const events: IcsEvent[] = [];
+
+    for (const row of list) {
+      const pk = model.primaryKeys.map((pk) => row[pk.title]).join('___');
+
+      ranges.forEach(({ fromColumn, toColumn }, rangeIndex) => {
+        const event = this.buildEvent(row, fromColumn, toColumn);
+        if (!event) return;
+
+        events.push({
+          ...event,
+          uid: `${view.id}-${rangeIndex}-${encodeURIComponent(pk)}@nocodb`,
+          summary: this.stringifyValue(row[titleColumn?.title]),
+          description: descriptionColumn
+            ? this.stringifyValue(row[descriptionColumn.title])
+            : undefined,
+        });
+      });
+    }
+
+    return {
+      title: view.title,
+      ics: serializeIcsCalendar({ name: view.title, events }),
+    };
+  }
+
+  protected async getCalendarView(context: NcContext, calendarViewId: string) {
+    const view = await View.get(context, calendarViewId);
+
+    if (!view) {
+      NcError.viewNotFound(calendarViewId);
+    }
+
+    if (view.type !== ViewTypes.CALENDAR) {
+      NcError.badRequest('View is not a calendar view');
+    }
+
+    return view;
+  }
+
+  protected buildEvent(
+    row: Record<string, any>,
+    fromColumn: Column,
+    toColumn?: Column,
+  ): Pick<IcsEvent, 'start' | 'end' | 'allDay'> | null {
+    const start = row[fromColumn.title] ? dayjs(row[fromColumn.title]) : null;
+    if (!start?.isValid()) return null;
+
+    const allDay = fromColumn.uidt === UITypes.Date;
+
+    let end =
+      toColumn && row[toColumn.title] ? dayjs(row[toColumn.title]) : null;
+    if (!end?.isValid() || end.isBefore(start)) end = null;
+
+    if (allDay) {
+      // end date of all day events is exclusive
+      return { start, end: (end ?? start).add(1, 'day'), allDay };
+    }
+
+    return { start, end: end ?? undefined, allDay };
+  }
+
+  protected stringifyValue(value: any): string {
+    if (value === null || value === undefined) return '';
+
+    if (Array.isArray(value)) {
+      return value.map((v) => this.stringifyValue(v)).join(', ');
+    }
+
+    if (typeof value === 'object') {
+      return (
+        value.display_name ??
+        value.title ??
+        value.email ??
+        JSON.stringify(value)
+      );
+    }
+
+    return String(value);
+  }
+}
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { AppEvents, ViewTypes } from 'nocodb-sdk';
 import type {
+  CalendarRangeType,
   CalendarUpdateReqType,
   UserType,
   ViewCreateReqType,
@@ -38,6 +39,12 @@ export class CalendarsService {
 
     const model = await Model.get(context, param.tableId);
 
+    if (!model) {
+      NcError.tableNotFound(param.tableId);
+    }
+
+    await this.validateCalendarColumns(context, model, param.calendar);
+
     const { id } = await View.insertMetaOnly(context, {
       view: {
         ...param.calendar,
@@ -103,6 +110,12 @@ export class CalendarsService {
       param.calendarViewId,
     );
 
+    await this.validateCalendarColumns(
+      context,
+      await Model.get(context, view.fk_model_id),
+      param.calendar,
+    );
+
     const res = await CalendarView.update(
       context,
       param.calendarViewId,
@@ -128,4 +141,56 @@ export class CalendarsService {
     });
     return res;
   }
+
+  // the end date field of a range has to be of the same type as the start
+  // date field so that the range can be compared within a single query
+  protected async validateCalendarColumns(
+    context: NcContext,
+    model: Model,
+    body: {
+      calendar_range?: CalendarRangeType[] | null;
+      fk_ics_title_col_id?: string | null;
+      fk_ics_description_col_id?: string | null;
+    },
+  ) {
+    const columns = await model.getColumns(context);
+
+    const getColumn = (columnId: string) => {
+      const column = columns.find((c) => c.id === columnId);
+      if (!column) {
+        NcError.fieldNotFound(columnId);
+      }
+      return column;
+    };
+
+    for (const prop of [
+      'fk_ics_title_col_id',
+      'fk_ics_description_col_id',
+    ] as const) {
+      if (body[prop]) getColumn(body[prop]);
+    }
+
+    for (const range of body.calendar_range ?? []) {
+      if (!range.fk_to_column_id) continue;
+
+      if (!range.fk_from_column_id) {
+        NcError.badRequest('Start date field is required for an end date');
+      }
+
+      const fromColumn = getColumn(range.fk_from_column_id);
+      const toColumn = getColumn(range.fk_to_column_id);
+
+      if (fromColumn.id === toColumn.id) {
+        NcError.badRequest(
+          `Field '${toColumn.title}' can't be used as both start and end date`,
+        );
+      }
+
+      if (fromColumn.uidt !== toColumn.uidt) {
+        NcError.badRequest(
+          `End date field '${toColumn.title}' must be of the same type as '${fromColumn.title}'`,
+        );
+      }
+    }
+  }
 }
@@ -2,6 +2,8 @@ import { forwardRef, Inject, Injectable } from '@nestjs/common';
 import {
   AppEvents,
   ButtonActionsType,
+  ColumnPermission,
+  ColumnPermissionRoles,
   FormulaDataTypes,
   isAIPromptCol,
   isCreatedOrLastModifiedByCol,
@@ -26,13 +28,17 @@ import { pluralize, singularize } from 'inflection';
 import rfdc from 'rfdc';
 import { NcApiVersion } from 'nocodb-sdk';
 import type {
+  ColumnPermissionsReqType,
+  ColumnPermissionsType,
   ColumnReqType,
+  FilterType,
   LinkToAnotherColumnReqType,
   LinkToAnotherRecordType,
+  RollupColumnReqType,
   UserType,
 } from 'nocodb-sdk';
 import type SqlMgrv2 from '~/db/sql-mgr/v2/SqlMgrv2';
-import type { Base, LinkToAnotherRecordColumn } from '~/models';
+import type { Base, LinkToAnotherRecordColumn, RollupColumn } from '~/models';
 import type CustomKnex from '~/db/CustomKnex';
 import type { BaseModelSqlv2 } from '~/db/BaseModelSqlv2';
 import type { NcContext, NcRequest } from '~/interface/config';
@@ -1904,6 +1910,69 @@ export class ColumnsService implements IColumnsService {
     return result;
   }
 
+  async columnPermissionsUpdate(
+    context: NcContext,
+    param: {
+      columnId: string;
+      permissions: ColumnPermissionsReqType;
+      req: NcRequest;
+    },
+  ) {
+    validatePayload(
+      'swagger.json#/components/schemas/ColumnPermissionsReq',
+      param.permissions,
+    );
+
+    const oldColumn = await Column.get(context, { colId: param.columnId });
+
+    if (!oldColumn) {
+      NcError.fieldNotFound(param.columnId);
+    }
+
+    if (oldColumn.pk) {
+      NcError.badRequest('Permissions cannot be set on primary key column');
+    }
+
+    const permissions: ColumnPermissionsType = {};
+
+    for (const [role, permission] of Object.entries(param.permissions ?? {})) {
+      if (!ColumnPermissionRoles.includes(role as ProjectRoles)) {
+        NcError.badRequest(
+          `Permission role should be one of ${ColumnPermissionRoles.join(
+            ', ',
+          )}`,
+        );
+      }
+
+      // editable is the default, so it is not stored
+      if (permission && permission !== ColumnPermission.EDITABLE) {
+        permissions[role] = permission;
+      }
+    }
+
+    await Column.updatePermissions(context, {
+      colId: oldColumn.id,
+      permissions: Object.keys(permissions).length ? permissions : null,
+    });
+
+    const column = await Column.get(context, { colId: oldColumn.id });
+    const table = await Model.getWithInfo(context, {
+      id: column.fk_model_id,
+    });
+
+    this.appHooksService.emit(AppEvents.COLUMN_UPDATE, {
+      table,
+      oldColumn,
+      column,
+      columnId: column.id,
+      req: param.req,
+      context,
+      columns: table.columns,
+    });
+
+    return column;
+  }
+
   async columnAdd<T extends NcApiVersion = NcApiVersion | null | undefined>(
     context: NcContext,
     param: {
@@ -2040,6 +2109,12 @@ export class ColumnsService implements IColumnsService {
             ...colBody,
             fk_model_id: table.id,
           });
+
+          await this.insertRollupFilters(
+            context,
+            savedColumn.id,
+            (param.column as RollupColumnReqType).filters,
+          );
         }
         break;
       case UITypes.Lookup:
@@ -4208,7 +4283,31 @@ export class ColumnsService implements IColumnsService {
     ) {
       // Perform additional validation for rollup payload
       await validateRollupPayload(context, colBody);
+      const oldColOptions = await column.getColOptions<RollupColumn>(context);
       await Column.update(context, column.id, colBody);
+
+      // filters refer to the fields of the linked table, replace them when
+      // provided and drop them when the rollup is moved to another link
+      if (
+        colBody.filters ||
+        oldColOptions?.fk_relation_column_id !== colBody.fk_relation_column_id
+      ) {
+        await Filter.deleteAllByParentColumn(context, column.id);
+        await this.insertRollupFilters(context, column.id, colBody.filters);
+      }
+    }
+  }
+
+  protected async insertRollupFilters(
+    context: NcContext,
+    columnId: string,
+    filters: FilterType[] = [],
+  ) {
+    for (const filter of filters) {
+      await Filter.insert(context, {
+        ...(filter as Filter),
+        fk_parent_column_id: columnId,
+      });
     }
   }
 
@@ -13,6 +13,7 @@ import { AppHooksService } from '~/services/app-hooks/app-hooks.service';
 import Comment from '~/models/Comment';
 import { MailService } from '~/services/mail/mail.service';
 import { MailEvent } from '~/interface/Mail';
+import { extractMentions } from '~/utils/richTextHelper';
 
 @Injectable()
 export class CommentsService {
@@ -65,6 +66,14 @@ export class CommentsService {
       context,
     });
 
+    this.emitMentions(context, {
+      model,
+      user: param.user,
+      comment: res,
+      mentions: extractMentions(res.comment),
+      req: param.req,
+    });
+
     return res;
   }
 
@@ -177,6 +186,45 @@ export class CommentsService {
       context,
     });
 
+    // only notify users who were not already mentioned before the edit
+    const prevMentions = extractMentions(comment.comment);
+
+    this.emitMentions(context, {
+      model,
+      user: param.user,
+      comment: res,
+      mentions: extractMentions(res.comment).filter(
+        (id) => !prevMentions.includes(id),
+      ),
+      req: param.req,
+    });
+
     return res;
   }
+
+  protected emitMentions(
+    context: NcContext,
+    param: {
+      model: Model;
+      user: UserType;
+      comment: Comment;
+      mentions: string[];
+      req: NcRequest;
+    },
+  ) {
+    // mentioning yourself doesn't need a notification
+    const mentions = param.mentions.filter((id) => id !== param.user?.id);
+
+    if (!mentions.length) return;
+
+    this.appHooksService.emit(AppEvents.ROW_USER_MENTION, {
+      model: param.model,
+      rowId: param.comment.row_id,
+      user: param.user,
+      comment: param.comment,
+      mentions,
+      req: param.req,
+      context,
+    });
+  }
 }
@@ -9,6 +9,10 @@ import type LinkToAnotherRecordColumn from '../models/LinkToAnotherRecordColumn'
 import { NcBaseError, NcError } from '~/helpers/catchError';
 import { getViewAndModelByAliasOrId } from '~/helpers/dataHelpers';
 import getAst from '~/helpers/getAst';
+import {
+  extractLaneCountsByStack,
+  getKanbanSwimlaneColumnId,
+} from '~/helpers/kanbanHelpers';
 import { PagedResponseImpl } from '~/helpers/PagedResponse';
 import { Base, Column, Model, Source, View } from '~/models';
 import { nocoExecute } from '~/utils';
@@ -499,26 +503,88 @@ export class DatasService {
       groupColumnId: param.columnId,
     });
     data = await nocoExecute({ key: 1, value: ast }, groupedData, {}, listArgs);
+    // swimlanes of a kanban view are counted per stack
+    const swimlaneColumnId = await getKanbanSwimlaneColumnId(
+      context,
+      view,
+      param.columnId,
+    );
     const countArr = await baseModel.groupedListCount({
       ...listArgs,
       groupColumnId: param.columnId,
+      subGroupColumnId: swimlaneColumnId,
     });
+    const laneCountsByStack = swimlaneColumnId
+      ? extractLaneCountsByStack(countArr)
+      : null;
     data = data.map((item) => {
       // todo: use map to avoid loop
-      const count =
-        countArr.find((countItem: any) => countItem.key === item.key)?.count ??
-        0;
+      const count = laneCountsByStack
+        ? (laneCountsByStack.get(item.key) ?? []).reduce(
+            (sum, lane) => sum + lane.count,
+            0,
+          )
+        : countArr.find((countItem: any) => countItem.key === item.key)
+            ?.count ?? 0;
 
       item.value = new PagedResponseImpl(item.value, {
         ...query,
         count: count,
       });
+      if (laneCountsByStack) {
+        item.lanes = laneCountsByStack.get(item.key) ?? [];
+      }
       return item;
     });
 
     return data;
   }
 
+  async geoClusterList(
+    context: NcContext,
+    param: PathParams & { query: any; columnId: string },
+  ) {
+    const { model, view } = await getViewAndModelByAliasOrId(context, param);
+    return await this.getGeoClusterList(context, {
+      model,
+      view,
+      query: param.query,
+      columnId: param.columnId,
+    });
+  }
+
+  async getGeoClusterList(
+    context: NcContext,
+    param: {
+      model: Model;
+      view?: View;
+      query: any;
+      columnId: string;
+    },
+  ) {
+    const { model, view, query = {} } = param;
+
+    const source = await Source.get(context, model.source_id);
+
+    const baseModel = await Model.getBaseModelSQL(context, {
+      id: model.id,
+      viewId: view?.id,
+      dbDriver: await NcConnectionMgrv2.get(source),
+      source,
+    });
+
+    const listArgs: any = { ...query };
+    try {
+      listArgs.filterArr = JSON.parse(listArgs.filterArrJson);
+    } catch (e) {}
+
+    return await baseModel.geoClusterList({
+      ...listArgs,
+      geoColumnId: param.columnId,
+      zoom: query.zoom,
+    });
+  }
+
   async dataListByViewId(
     context: NcContext,
     param: { viewId: string; query: any; apiVersion?: NcApiVersion },
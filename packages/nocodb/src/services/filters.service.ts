@@ -56,6 +56,13 @@ export class FiltersService {
       NcError.badRequest('Filter not found');
     }
 
+    // row policy filters are managed along with the row policy
+    if (filter.fk_row_policy_id) {
+      NcError.badRequest(
+        'Row policy filters can be updated only via row policy',
+      );
+    }
+
     const parentData = await filter.extractRelatedParentMetas(context);
 
     await Filter.delete(context, param.filterId);
@@ -114,6 +121,13 @@ export class FiltersService {
     if (!filter) {
       NcError.badRequest('Filter not found');
     }
+
+    // row policy filters are managed along with the row policy
+    if (filter.fk_row_policy_id) {
+      NcError.badRequest(
+        'Row policy filters can be updated only via row policy',
+      );
+    }
     // todo: type correction
     const res = await Filter.update(
       context,
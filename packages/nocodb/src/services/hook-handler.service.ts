@@ -1,5 +1,5 @@
 import { Inject, Injectable, Logger } from '@nestjs/common';
-import { UITypes, ViewTypes } from 'nocodb-sdk';
+import { AppEvents, UITypes, ViewTypes } from 'nocodb-sdk';
 import type { NcContext } from '~/interface/config';
 import type { FormColumnType, FormType, HookType } from 'nocodb-sdk';
 import type { ColumnType } from 'nocodb-sdk';
@@ -11,9 +11,19 @@ import { JobTypes } from '~/interface/Jobs';
 import { IJobsService } from '~/modules/jobs/jobs-service.interface';
 import { MailService } from '~/services/mail/mail.service';
 import { MailEvent } from '~/interface/Mail';
+import { AppHooksService } from '~/services/app-hooks/app-hooks.service';
 
 export const HANDLE_WEBHOOK = '__nc_handleHooks';
 
+const DATA_EVENTS = {
+  insert: AppEvents.DATA_CREATE,
+  bulkInsert: AppEvents.DATA_CREATE,
+  update: AppEvents.DATA_UPDATE,
+  bulkUpdate: AppEvents.DATA_UPDATE,
+  delete: AppEvents.DATA_DELETE,
+  bulkDelete: AppEvents.DATA_DELETE,
+};
+
 @Injectable()
 export class HookHandlerService implements OnModuleInit, OnModuleDestroy {
   private logger = new Logger(HookHandlerService.name);
@@ -23,15 +33,37 @@ export class HookHandlerService implements OnModuleInit, OnModuleDestroy {
     @Inject('IEventEmitter') private readonly eventEmitter: IEventEmitter,
     @Inject('JobsService') private readonly jobsService: IJobsService,
     private readonly mailService: MailService,
+    private readonly appHooksService: AppHooksService,
   ) {}
 
   public async handleHooks(
     context: NcContext,
-    { hookName, prevData, newData, user, viewId, modelId },
+    { hookName, prevData, newData, user, viewId, modelId, clientId, siteUrl },
   ): Promise<void> {
     const view = await View.get(context, viewId);
     const model = await Model.get(context, modelId);
 
+    const [event, operation] = hookName.split('.');
+
+    if (event === 'after' && DATA_EVENTS[operation]) {
+      const toArray = (data) =>
+        Array.isArray(data) ? data : data ? [data] : [];
+
+      this.appHooksService.emit(DATA_EVENTS[operation], {
+        context,
+        clientId,
+        table: model,
+        viewId,
+        user,
+        // deleted rows are only available as previous data
+        rows: toArray(
+          DATA_EVENTS[operation] === AppEvents.DATA_DELETE ? prevData : newData,
+        ),
+        prevRows: toArray(prevData),
+        siteUrl,
+      });
+    }
+
     // handle form view data submission
     if (
       (hookName === 'after.insert' || hookName === 'after.bulkInsert') &&
@@ -125,7 +157,6 @@ export class HookHandlerService implements OnModuleInit, OnModuleDestroy {
       }
     }
 
-    const [event, operation] = hookName.split('.');
     const hooks = await Hook.list(context, {
       fk_model_id: modelId,
       event: event as HookType['event'],
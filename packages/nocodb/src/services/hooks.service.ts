@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { Inject, Injectable } from '@nestjs/common';
 import { AppEvents } from 'nocodb-sdk';
 import View from '../models/View';
@@ -10,7 +11,7 @@ import {
   populateSamplePayload,
   populateSamplePayloadV2,
 } from '~/helpers/populateSamplePayload';
-import { invokeWebhook } from '~/helpers/webhookHelpers';
+import { invokeWebhook, redeliverWebhook } from '~/helpers/webhookHelpers';
 import { ButtonColumn, Hook, HookLog, Model } from '~/models';
 import { DatasService } from '~/services/datas.service';
 import { JobTypes } from '~/interface/Jobs';
@@ -39,7 +40,9 @@ export class HooksService {
   }
 
   async hookList(context: NcContext, param: { tableId: string }) {
-    return await Hook.list(context, { fk_model_id: param.tableId });
+    return (await Hook.list(context, { fk_model_id: param.tableId })).map(
+      (hook) => Hook.sanitize(hook),
+    );
   }
 
   async hookLogList(context: NcContext, param: { query: any; hookId: string }) {
@@ -74,7 +77,7 @@ export class HooksService {
       tableId: hook.fk_model_id,
     });
 
-    return hook;
+    return Hook.sanitize(hook);
   }
 
   async hookDelete(
@@ -160,7 +163,7 @@ export class HooksService {
       context,
     });
 
-    return res;
+    return Hook.sanitize(res);
   }
 
   async hookTrigger(
@@ -233,9 +236,17 @@ export class HooksService {
       hook,
       payload: { data, user },
     } = param.hookTest;
+
+    // sign test requests with the stored secret of an existing hook
+    const savedHook = hook?.id ? await Hook.get(context, hook.id) : null;
+
     try {
       await invokeWebhook(context, {
-        hook: new Hook(hook),
+        hook: new Hook({
+          ...hook,
+          signing_secret: savedHook?.signing_secret,
+          is_encrypted: savedHook?.is_encrypted,
+        }),
         model: model,
         view: null,
         prevData: null,
@@ -290,4 +301,60 @@ export class HooksService {
   async hookLogCount(context: NcContext, param: { hookId: string }) {
     return await HookLog.count(context, { hookId: param.hookId });
   }
+
+  async hookLogRedeliver(
+    context: NcContext,
+    param: { hookId: string; hookLogId: string; req: NcRequest },
+  ) {
+    const hook = await Hook.get(context, param.hookId);
+
+    if (!hook) {
+      NcError.hookNotFound(param.hookId);
+    }
+
+    const hookLog = await HookLog.get(context, param.hookLogId);
+
+    if (!hookLog || hookLog.fk_hook_id !== hook.id) {
+      NcError.notFound('Hook log not found');
+    }
+
+    return await redeliverWebhook(context, {
+      hook,
+      hookLog,
+      user: param.req.user,
+    });
+  }
+
+  async hookSecretRotate(
+    context: NcContext,
+    param: { hookId: string; req: NcRequest },
+  ) {
+    const hook = await Hook.get(context, param.hookId);
+
+    if (!hook) {
+      NcError.hookNotFound(param.hookId);
+    }
+
+    const secret = `whsec_${crypto.randomBytes(32).toString('hex')}`;
+
+    await Hook.updateSigningSecret(context, hook.id, secret);
+
+    // plain secret is only returned once, it can't be read back later
+    return { secret };
+  }
+
+  async hookSecretDelete(
+    context: NcContext,
+    param: { hookId: string; req: NcRequest },
+  ) {
+    const hook = await Hook.get(context, param.hookId);
+
+    if (!hook) {
+      NcError.hookNotFound(param.hookId);
+    }
+
+    await Hook.updateSigningSecret(context, hook.id, null);
+
+    return true;
+  }
 }
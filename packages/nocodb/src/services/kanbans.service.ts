@@ -9,9 +9,14 @@ import type { NcContext, NcRequest } from '~/interface/config';
 import { AppHooksService } from '~/services/app-hooks/app-hooks.service';
 import { validatePayload } from '~/helpers';
 import { NcError } from '~/helpers/catchError';
+import {
+  kanbanSwimlaneTypes,
+  kanbanWipLimitModes,
+} from '~/helpers/kanbanHelpers';
 import { KanbanView, Model, User, View } from '~/models';
 import NocoCache from '~/cache/NocoCache';
 import { CacheScope } from '~/utils/globals';
+import { parseMetaProp } from '~/utils/modelUtils';
 
 @Injectable()
 export class KanbansService {
@@ -38,6 +43,12 @@ export class KanbansService {
 
     const model = await Model.get(context, param.tableId);
 
+    await this.validateKanbanColumns(
+      context,
+      model,
+      param.kanban as Partial<KanbanView>,
+    );
+
     let fk_cover_image_col_id =
       (param.kanban as KanbanView).fk_cover_image_col_id ?? null;
 
@@ -120,6 +131,18 @@ export class KanbansService {
 
     const oldKanbanView = await KanbanView.get(context, param.kanbanViewId);
 
+    await this.validateKanbanColumns(
+      context,
+      await Model.get(context, view.fk_model_id),
+      {
+        ...param.kanban,
+        fk_grp_col_id:
+          param.kanban.fk_grp_col_id !== undefined
+            ? param.kanban.fk_grp_col_id
+            : oldKanbanView?.fk_grp_col_id,
+      } as Partial<KanbanView>,
+    );
+
     const res = await KanbanView.update(
       context,
       param.kanbanViewId,
@@ -144,4 +167,65 @@ export class KanbansService {
 
     return res;
   }
+
+  // swimlanes split the stacks by a second select or single user field,
+  // work in progress limits are stored in the stack meta of the view
+  protected async validateKanbanColumns(
+    context: NcContext,
+    model: Model,
+    body: Pick<
+      Partial<KanbanView>,
+      'fk_grp_col_id' | 'fk_swimlane_col_id' | 'meta'
+    >,
+  ) {
+    if (body.fk_swimlane_col_id) {
+      const column = (await model.getColumns(context)).find(
+        (c) => c.id === body.fk_swimlane_col_id,
+      );
+
+      if (!column) {
+        NcError.fieldNotFound(body.fk_swimlane_col_id);
+      }
+
+      if (
+        !kanbanSwimlaneTypes.includes(column.uidt as UITypes) ||
+        (column.uidt === UITypes.User && parseMetaProp(column)?.is_multi)
+      ) {
+        NcError.badRequest(
+          `Field '${column.title}' must be a SingleSelect or a single User field`,
+        );
+      }
+
+      if (column.id === body.fk_grp_col_id) {
+        NcError.badRequest(
+          `Field '${column.title}' is already used to group the stacks`,
+        );
+      }
+    }
+
+    const stacks = body.fk_grp_col_id
+      ? parseMetaProp(body)?.[body.fk_grp_col_id]
+      : null;
+
+    if (!Array.isArray(stacks)) return;
+
+    for (const stack of stacks) {
+      if (
+        stack?.wip_limit !== undefined &&
+        stack.wip_limit !== null &&
+        !(Number.isInteger(stack.wip_limit) && stack.wip_limit > 0)
+      ) {
+        NcError.badRequest('WIP limit must be a positive integer');
+      }
+
+      if (
+        stack?.wip_limit_mode !== undefined &&
+        !kanbanWipLimitModes.includes(stack.wip_limit_mode)
+      ) {
+        NcError.badRequest(
+          `WIP limit mode must be one of ${kanbanWipLimitModes.join(', ')}`,
+        );
+      }
+    }
+  }
 }
@@ -1,5 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { RoleLabels } from 'nocodb-sdk';
+import { AppEvents, RoleLabels } from 'nocodb-sdk';
 import { render } from '@react-email/render';
 import type { NcRequest } from 'nocodb-sdk';
 import type { MailParams } from '~/interface/Mail';
@@ -10,6 +10,7 @@ import NcPluginMgrv2 from '~/helpers/NcPluginMgrv2';
 import Noco from '~/Noco';
 import config from '~/app.config';
 import { extractDisplayNameFromEmail } from '~/utils';
+import { formatMentions } from '~/utils/richTextHelper';
 
 type TemplateComponent<K extends keyof typeof MailTemplates> =
   (typeof MailTemplates)[K];
@@ -39,7 +40,7 @@ export class MailService {
   }
 
   buildUrl(
-    req: NcRequest,
+    req: Pick<NcRequest, 'ncSiteUrl'>,
     params: {
       token?: string;
       workspaceId?: string;
@@ -258,6 +259,120 @@ export class MailService {
               baseTitle: base.title,
             }),
           });
+          break;
+        }
+        case MailEvent.ROW_USER_MENTION: {
+          const {
+            req,
+            user,
+            base,
+            model,
+            rowId,
+            displayValue,
+            mentionedBy,
+            comment,
+            column,
+          } = payload;
+
+          await mailerAdapter.mailSend({
+            to: user.email,
+            subject: `You were mentioned in ${model.title}`,
+            html: await this.renderMail('RowMention', {
+              baseTitle: base.title,
+              tableTitle: model.title,
+              recordTitle: displayValue || rowId,
+              name: extractDisplayNameFromEmail(
+                mentionedBy.email,
+                mentionedBy.display_name,
+              ),
+              email: mentionedBy.email,
+              comment: comment ? formatMentions(comment.comment) : undefined,
+              columnTitle: column?.title,
+              link: this.buildUrl(req, {
+                workspaceId: base.fk_workspace_id,
+                baseId: base.id,
+                tableId: model.id,
+                rowId,
+                commentId: comment?.id,
+              }),
+            }),
+          });
+          break;
+        }
+        case MailEvent.ROW_USER_ASSIGN: {
+          const {
+            req,
+            user,
+            base,
+            model,
+            rowId,
+            displayValue,
+            assignedBy,
+            column,
+          } = payload;
+
+          await mailerAdapter.mailSend({
+            to: user.email,
+            subject: `You were assigned to a record in ${model.title}`,
+            html: await this.renderMail('RowUserAssign', {
+              baseTitle: base.title,
+              tableTitle: model.title,
+              recordTitle: displayValue || rowId,
+              columnTitle: column.title,
+              name: extractDisplayNameFromEmail(
+                assignedBy.email,
+                assignedBy.display_name,
+              ),
+              email: assignedBy.email,
+              link: this.buildUrl(req, {
+                workspaceId: base.fk_workspace_id,
+                baseId: base.id,
+                tableId: model.id,
+                rowId,
+              }),
+            }),
+          });
+          break;
+        }
+        case MailEvent.NOTIFICATION_DIGEST: {
+          const { req, user, notifications } = payload;
+
+          await mailerAdapter.mailSend({
+            to: user.email,
+            subject: `You have ${notifications.length} unread notification${
+              notifications.length === 1 ? '' : 's'
+            }`,
+            html: await this.renderMail('NotificationDigest', {
+              notifications: notifications.map(({ type, body }) => {
+                const name = extractDisplayNameFromEmail(
+                  body.user?.email,
+                  body.user?.display_name,
+                );
+                const record = body.displayValue || body.rowId;
+
+                return {
+                  title:
+                    type === AppEvents.ROW_USER_ASSIGN
+                      ? `${name} assigned you to ${record}`
+                      : `${name} mentioned you in ${record}`,
+                  description: body.comment
+                    ? formatMentions(body.comment.comment)
+                    : `${body.column?.title ?? ''} in ${body.table?.title} (${
+                        body.base?.title
+                      })`,
+                  link: this.buildUrl(req, {
+                    workspaceId: body.base?.fk_workspace_id,
+                    baseId: body.base?.id,
+                    tableId: body.table?.id,
+                    rowId: body.rowId,
+                    commentId: body.comment?.id,
+                  }),
+                };
+              }),
+              link: this.buildUrl(req, {}),
+            }),
+          });
+          break;
         }
       }
       return true;
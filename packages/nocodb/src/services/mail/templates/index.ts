@@ -6,6 +6,9 @@ import OrganizationInvite from '~/services/mail/templates/org-invite';
 import OrganizationRoleUpdate from '~/services/mail/templates/org-role-update';
 import BaseRoleUpdate from '~/services/mail/templates/base-role-update';
 import FormSubmission from '~/services/mail/templates/form-submission';
+import RowMention from '~/services/mail/templates/row-mention';
+import RowUserAssign from '~/services/mail/templates/row-user-assign';
+import NotificationDigest from '~/services/mail/templates/notification-digest';
 
 export {
   Welcome,
@@ -16,4 +19,7 @@ export {
   OrganizationInvite,
   OrganizationRoleUpdate,
   FormSubmission,
+  RowMention,
+  RowUserAssign,
+  NotificationDigest,
 };
@@ -0,0 +1,92 @@
+import {
+  Body,
+  Button,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Link,
+  Preview,
+  Section,
+  Text,
+} from '@react-email/components';
+import * as React from 'react';
+import {
+  ContentWrapper,
+  Footer,
+  RootWrapper,
+} from '~/services/mail/templates/components';
+
+interface NotificationDigestTemplateProps {
+  notifications: Array<{
+    title: string;
+    description: string;
+    link: string;
+  }>;
+  link: string;
+}
+
+export const NotificationDigest = ({
+  notifications,
+  link,
+}: NotificationDigestTemplateProps) => (
+  <Html>
+    <RootWrapper>
+      <Head />
+      <Preview>
+        {`You have ${notifications.length} unread notification${
+          notifications.length === 1 ? '' : 's'
+        }`}
+      </Preview>
+      <Body className="bg-white">
+        <ContentWrapper>
+          <Heading className="text-gray-900 text-center font-bold m-auto text-xl md:text-2xl">
+            Your notification digest
+          </Heading>
+          <Text className="text-gray-600 text-center text-sm !mt-6 !mb-6">
+            Here is what happened since your last digest.
+          </Text>
+          {notifications.map((notification, i) => (
+            <Section key={i}>
+              <Hr />
+              <Link href={notification.link}>
+                <Text className="font-bold text-gray-800 text-sm !my-2">
+                  {notification.title}
+                </Text>
+              </Link>
+              <Text className="text-gray-600 text-sm !mt-0 !mb-2">
+                {notification.description}
+              </Text>
+            </Section>
+          ))}
+          <Hr />
+          <Button
+            className="text-center w-full text-base font-bold bg-brand-500 text-white rounded-lg h-10 mt-4"
+            href={link}
+          >
+            <Text className="!my-[8px]">Open NocoDB</Text>
+          </Button>
+        </ContentWrapper>
+        <Footer />
+      </Body>
+    </RootWrapper>
+  </Html>
+);
+
+NotificationDigest.PreviewProps = {
+  notifications: [
+    {
+      title: 'John Doe mentioned you',
+      description: 'In a comment on Record Title in Table Title',
+      link: 'https://app.nocodb.com',
+    },
+    {
+      title: 'John Doe assigned you',
+      description: 'Added you to Assignee on Record Title in Table Title',
+      link: 'https://app.nocodb.com',
+    },
+  ],
+  link: 'https://app.nocodb.com',
+};
+
+export default NotificationDigest;
@@ -0,0 +1,91 @@
+import {
+  Body,
+  Button,
+  Head,
+  Heading,
+  Html,
+  Preview,
+  Section,
+  Text,
+} from '@react-email/components';
+import * as React from 'react';
+import {
+  ContentWrapper,
+  Footer,
+  RootWrapper,
+} from '~/services/mail/templates/components';
+
+interface RowMentionTemplateProps {
+  baseTitle: string;
+  tableTitle: string;
+  recordTitle: string;
+  name: string;
+  email: string;
+  // comment the user was mentioned in, mentions are replaced by names
+  comment?: string;
+  // rich text field the user was mentioned in
+  columnTitle?: string;
+  link: string;
+}
+
+export const RowMention = ({
+  baseTitle,
+  tableTitle,
+  recordTitle,
+  name,
+  email,
+  comment,
+  columnTitle,
+  link,
+}: RowMentionTemplateProps) => (
+  <Html>
+    <RootWrapper>
+      <Head />
+      <Preview>You were mentioned in {recordTitle}</Preview>
+      <Body className="bg-white">
+        <ContentWrapper>
+          <Heading className="text-gray-900 text-center font-bold m-auto text-xl md:text-2xl">
+            You were mentioned
+          </Heading>
+          <Section className="py-6 text-center font-bold text-gray-900 text-base">
+            {recordTitle}
+          </Section>
+          <Text className="text-gray-600 text-center text-sm !mt-0 !mb-6">
+            <span className="font-bold text-gray-800">{name}</span> ({email})
+            mentioned you {comment ? 'in a comment' : `in ${columnTitle}`} on a
+            record of
+            <span className="font-bold text-gray-800"> {tableTitle} </span>
+            in
+            <span className="font-bold text-gray-800"> {baseTitle}</span>.
+          </Text>
+          {comment ? (
+            <Section className="px-4 mb-6 border border-1 border-solid rounded-lg border-gray-200">
+              <Text className="text-gray-800 text-sm whitespace-pre-wrap">
+                {comment}
+              </Text>
+            </Section>
+          ) : null}
+          <Button
+            className="text-center w-full text-base font-bold bg-brand-500 text-white rounded-lg h-10"
+            href={link}
+          >
+            <Text className="!my-[8px]">Open Record</Text>
+          </Button>
+        </ContentWrapper>
+        <Footer />
+      </Body>
+    </RootWrapper>
+  </Html>
+);
+
+RowMention.PreviewProps = {
+  baseTitle: 'Base Title',
+  tableTitle: 'Table Title',
+  recordTitle: 'Record Title',
+  name: 'John Doe',
+  email: 'johndoe@nocodb.com',
+  comment: '@Jane Doe can you review this?',
+  link: 'https://app.nocodb.com',
+};
+
+export default RowMention;
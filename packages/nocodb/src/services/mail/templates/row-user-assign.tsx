@@ -0,0 +1,81 @@
+import {
+  Body,
+  Button,
+  Head,
+  Heading,
+  Html,
+  Preview,
+  Section,
+  Text,
+} from '@react-email/components';
+import * as React from 'react';
+import {
+  ContentWrapper,
+  Footer,
+  RootWrapper,
+} from '~/services/mail/templates/components';
+
+interface RowUserAssignTemplateProps {
+  baseTitle: string;
+  tableTitle: string;
+  recordTitle: string;
+  columnTitle: string;
+  name: string;
+  email: string;
+  link: string;
+}
+
+export const RowUserAssign = ({
+  baseTitle,
+  tableTitle,
+  recordTitle,
+  columnTitle,
+  name,
+  email,
+  link,
+}: RowUserAssignTemplateProps) => (
+  <Html>
+    <RootWrapper>
+      <Head />
+      <Preview>You were assigned to {recordTitle}</Preview>
+      <Body className="bg-white">
+        <ContentWrapper>
+          <Heading className="text-gray-900 text-center font-bold m-auto text-xl md:text-2xl">
+            You were assigned to a record
+          </Heading>
+          <Section className="py-6 text-center font-bold text-gray-900 text-base">
+            {recordTitle}
+          </Section>
+          <Text className="text-gray-600 text-center text-sm !mt-0 !mb-6">
+            <span className="font-bold text-gray-800">{name}</span> ({email})
+            added you to
+            <span className="font-bold text-gray-800"> {columnTitle} </span>
+            on a record of
+            <span className="font-bold text-gray-800"> {tableTitle} </span>
+            in
+            <span className="font-bold text-gray-800"> {baseTitle}</span>.
+          </Text>
+          <Button
+            className="text-center w-full text-base font-bold bg-brand-500 text-white rounded-lg h-10"
+            href={link}
+          >
+            <Text className="!my-[8px]">Open Record</Text>
+          </Button>
+        </ContentWrapper>
+        <Footer />
+      </Body>
+    </RootWrapper>
+  </Html>
+);
+
+RowUserAssign.PreviewProps = {
+  baseTitle: 'Base Title',
+  tableTitle: 'Table Title',
+  recordTitle: 'Record Title',
+  columnTitle: 'Assignee',
+  name: 'John Doe',
+  email: 'johndoe@nocodb.com',
+  link: 'https://app.nocodb.com',
+};
+
+export default RowUserAssign;
@@ -0,0 +1,139 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import type { IJobsService } from '~/modules/jobs/jobs-service.interface';
+import { JobStatus } from '~/interface/Jobs';
+import {
+  cacheRequests,
+  Gauge,
+  httpRequestDuration,
+  httpRequestErrors,
+  jobsCompleted,
+  jobsFailed,
+  webhookDeliveries,
+} from '~/helpers/metricsHelpers';
+import NcConnectionMgrv2 from '~/utils/common/NcConnectionMgrv2';
+
+const QUEUED_JOB_STATUSES = [
+  JobStatus.ACTIVE,
+  JobStatus.WAITING,
+  JobStatus.DELAYED,
+  JobStatus.PAUSED,
+] as const;
+
+@Injectable()
+export class MetricsService {
+  protected logger = new Logger(MetricsService.name);
+
+  // gauges below are collected on every scrape
+  protected jobsQueueDepth = new Gauge(
+    'nc_jobs_queue_depth',
+    'Jobs in the queue by job type and status',
+  );
+
+  protected cacheHitRatio = new Gauge(
+    'nc_cache_hit_ratio',
+    'Ratio of NocoCache lookups which were hits, by cache scope',
+  );
+
+  protected dbPoolConnections = new Gauge(
+    'nc_db_pool_connections',
+    'Database pool connections per source by state',
+  );
+
+  protected dbPoolMax = new Gauge(
+    'nc_db_pool_max_connections',
+    'Maximum database pool size per source',
+  );
+
+  constructor(
+    @Inject('JobsService') protected readonly jobsService: IJobsService,
+  ) {}
+
+  async render() {
+    await this.collectJobs();
+    this.collectCacheRatio();
+    this.collectDbPools();
+
+    return (
+      [
+        httpRequestDuration,
+        httpRequestErrors,
+        jobsCompleted,
+        jobsFailed,
+        this.jobsQueueDepth,
+        webhookDeliveries,
+        cacheRequests,
+        this.cacheHitRatio,
+        this.dbPoolConnections,
+        this.dbPoolMax,
+      ]
+        .map((metric) => metric.render())
+        .join('\n') + '\n'
+    );
+  }
+
+  protected async collectJobs() {
+    this.jobsQueueDepth.reset();
+
+    try {
+      for (const status of QUEUED_JOB_STATUSES) {
+        const jobs = await this.jobsService.jobsQueue.getJobs([status]);
+
+        const countByType = new Map<string, number>();
+        for (const job of jobs) {
+          if (!job) continue;
+          const type = job.data?.jobName ?? job.name;
+          countByType.set(type, (countByType.get(type) ?? 0) + 1);
+        }
+
+        for (const [job, count] of countByType) {
+          this.jobsQueueDepth.set({ job, status }, count);
+        }
+      }
+    } catch (e) {
+      this.logger.error(`Failed to collect job metrics: ${e.message}`);
+    }
+  }
+
+  protected collectCacheRatio() {
+    this.cacheHitRatio.reset();
+
+    const lookups = new Map<string, { hit: number; total: number }>();
+    for (const { labels, value } of cacheRequests.values()) {
+      const scope = `${labels.scope}`;
+      const entry = lookups.get(scope) ?? { hit: 0, total: 0 };
+      if (labels.result === 'hit') entry.hit += value;
+      entry.total += value;
+      lookups.set(scope, entry);
+    }
+
+    for (const [scope, { hit, total }] of lookups) {
+      this.cacheHitRatio.set({ scope }, total ? hit / total : 0);
+    }
+  }
+
+  protected collectDbPools() {
+    this.dbPoolConnections.reset();
+    this.dbPoolMax.reset();
+
+    for (const {
+      baseId,
+      sourceId,
+      client,
+      used,
+      free,
+      pending,
+      max,
+    } of NcConnectionMgrv2.getPoolStats()) {
+      const labels = {
+        base: baseId ?? '',
+        source: sourceId,
+        client: client ?? '',
+      };
+
+      this.dbPoolConnections.set({ ...labels, state: 'used' }, used);
+      this.dbPoolConnections.set({ ...labels, state: 'free' }, free);
+      this.dbPoolConnections.set({ ...labels, state: 'pending' }, pending);
+      this.dbPoolMax.set(labels, max);
+    }
+  }
+}
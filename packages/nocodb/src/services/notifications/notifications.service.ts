@@ -1,25 +1,47 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { AppEvents } from 'nocodb-sdk';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  AppEvents,
+  NotificationEmailPreference,
+  ProjectRoles,
+  UITypes,
+} from 'nocodb-sdk';
 import type {
+  DataEvent,
   ProjectInviteEvent,
+  RowMentionEvent,
   WelcomeEvent,
 } from '~/services/app-hooks/interfaces';
 import type { OnModuleDestroy, OnModuleInit } from '@nestjs/common';
-import type { UserType } from 'nocodb-sdk';
-import type { NcRequest } from '~/interface/config';
+import type { ColumnType, CommentType, TableType, UserType } from 'nocodb-sdk';
+import type { NcContext, NcRequest } from '~/interface/config';
 import type { Response } from 'express';
+import type { NotificationDigestJobData } from '~/interface/Jobs';
+import type { IJobsService } from '~/modules/jobs/jobs-service.interface';
 import { AppHooksService } from '~/services/app-hooks/app-hooks.service';
+import { MailService } from '~/services/mail/mail.service';
+import { MailEvent } from '~/interface/Mail';
+import { JobStatus, JobTypes } from '~/interface/Jobs';
 import { NcError } from '~/helpers/catchError';
 import { PagedResponseImpl } from '~/helpers/PagedResponse';
-import { Notification } from '~/models';
+import { Base, BaseUser, Model, Notification, Source, User } from '~/models';
+import NcConnectionMgrv2 from '~/utils/common/NcConnectionMgrv2';
+import { RootScopes } from '~/utils/globals';
 
 import { getCircularReplacer } from '~/utils';
 import { PubSubRedis } from '~/redis/pubsub-redis';
+
+// delay between the first unread notification and the digest email
+const NOTIFICATION_DIGEST_DELAY = 24 * 60 * 60 * 1000;
+
 @Injectable()
 export class NotificationsService implements OnModuleInit, OnModuleDestroy {
   protected logger: Logger = new Logger(NotificationsService.name);
 
-  constructor(protected readonly appHooks: AppHooksService) {}
+  constructor(
+    protected readonly appHooks: AppHooksService,
+    protected readonly mailService: MailService,
+    @Inject('JobsService') protected readonly jobsService: IJobsService,
+  ) {}
 
   connections = new Map<
     string,
@@ -191,7 +213,7 @@ export class NotificationsService implements OnModuleInit, OnModuleDestroy {
     data,
   }: {
     event: AppEvents;
-    data: ProjectInviteEvent | WelcomeEvent;
+    data: ProjectInviteEvent | WelcomeEvent | RowMentionEvent | DataEvent;
   }) {
     const { req } = data;
     switch (event) {
@@ -235,6 +257,267 @@ export class NotificationsService implements OnModuleInit, OnModuleDestroy {
           );
         }
         break;
+      case AppEvents.ROW_USER_MENTION:
+        try {
+          const { context, model, rowId, user, column, comment, mentions } =
+            data as RowMentionEvent;
+
+          const base = await Base.get(context, model.base_id);
+          const displayValue = await this.getRowDisplayValue(
+            context,
+            model.id,
+            rowId,
+          );
+
+          for (const userId of mentions) {
+            await this.notifyRowUser(context, {
+              type: AppEvents.ROW_USER_MENTION,
+              userId,
+              base,
+              model,
+              rowId,
+              displayValue,
+              column,
+              comment,
+              user,
+              siteUrl: req?.ncSiteUrl,
+            });
+          }
+        } catch (e) {
+          this.logger.error(e);
+        }
+        break;
+      case AppEvents.DATA_UPDATE:
+        try {
+          await this.notifyAssignedUsers(data as DataEvent);
+        } catch (e) {
+          this.logger.error(e);
+        }
+        break;
+    }
+  }
+
+  // notifies users who were added to a User field of the updated rows
+  protected async notifyAssignedUsers({
+    context,
+    table,
+    user,
+    rows,
+    prevRows = [],
+    siteUrl,
+  }: DataEvent) {
+    if (!user?.id || !rows?.length) return;
+
+    const model = await Model.get(context, table.id);
+    const columns = await model.getColumns(context);
+
+    const userColumns = columns.filter((c) => c.uidt === UITypes.User);
+    if (!userColumns.length) return;
+
+    const base = await Base.get(context, model.base_id);
+
+    const getRowId = (row: Record<string, any>) =>
+      model.primaryKeys
+        .map((pk) => row?.[pk.title] ?? row?.[pk.column_name])
+        .join('___');
+
+    const prevRowsById = new Map(prevRows.map((row) => [getRowId(row), row]));
+
+    for (const row of rows) {
+      const rowId = getRowId(row);
+      const prevRow = prevRowsById.get(rowId);
+
+      // without the previous state we can't tell who is newly assigned
+      if (!prevRow) continue;
+
+      for (const column of userColumns) {
+        const prevUserIds = getUserIds(
+          prevRow[column.title] ?? prevRow[column.column_name],
+        );
+        const assignedUserIds = getUserIds(
+          row[column.title] ?? row[column.column_name],
+        ).filter((id) => id !== user.id && !prevUserIds.includes(id));
+
+        for (const userId of assignedUserIds) {
+          await this.notifyRowUser(context, {
+            type: AppEvents.ROW_USER_ASSIGN,
+            userId,
+            base,
+            model,
+            rowId,
+            displayValue: row[model.displayValue?.title],
+            column,
+            user,
+            siteUrl,
+          });
+        }
+      }
+    }
+  }
+
+  protected async notifyRowUser(
+    context: NcContext,
+    param: {
+      type: AppEvents.ROW_USER_MENTION | AppEvents.ROW_USER_ASSIGN;
+      // user who is notified
+      userId: string;
+      base: Base;
+      model: TableType;
+      rowId: string;
+      displayValue?: string;
+      column?: ColumnType;
+      comment?: CommentType;
+      // user who mentioned or assigned
+      user: UserType;
+      siteUrl?: string;
+    },
+  ) {
+    const { type, userId, base, model, rowId, column, comment, user } = param;
+
+    // users without access to the base can't open the record
+    const baseUser = await BaseUser.get(context, base.id, userId);
+    if (!baseUser?.roles || baseUser.roles === ProjectRoles.NO_ACCESS) return;
+
+    const displayValue =
+      param.displayValue === null || param.displayValue === undefined
+        ? undefined
+        : `${param.displayValue}`;
+
+    // notifications created after this point are covered by a digest scheduled now
+    const scheduledAt = new Date().toISOString();
+
+    await this.insertNotification(
+      {
+        fk_user_id: userId,
+        type,
+        body: {
+          base: {
+            id: base.id,
+            title: base.title,
+            fk_workspace_id: base.fk_workspace_id,
+          },
+          table: {
+            id: model.id,
+            title: model.title,
+          },
+          rowId,
+          displayValue,
+          ...(column ? { column: { id: column.id, title: column.title } } : {}),
+          ...(comment
+            ? { comment: { id: comment.id, comment: comment.comment } }
+            : {}),
+          user: {
+            id: user.id,
+            email: user.email,
+            display_name: user.display_name,
+          },
+        },
+      },
+      null,
+    );
+
+    const recipient = await User.get(userId);
+    const preference =
+      (recipient?.meta as Record<string, any>)?.notificationEmail ??
+      NotificationEmailPreference.INSTANT;
+
+    if (
+      !recipient ||
+      preference === NotificationEmailPreference.OFF ||
+      !param.siteUrl ||
+      !(await this.mailService.getAdapter())
+    ) {
+      return;
+    }
+
+    if (preference === NotificationEmailPreference.DIGEST) {
+      await this.scheduleDigest(recipient, scheduledAt, param.siteUrl);
+      return;
+    }
+
+    const req = { ncSiteUrl: param.siteUrl };
+
+    if (type === AppEvents.ROW_USER_ASSIGN) {
+      await this.mailService.sendMail({
+        mailEvent: MailEvent.ROW_USER_ASSIGN,
+        payload: {
+          base,
+          model,
+          rowId,
+          displayValue,
+          user: recipient,
+          assignedBy: user,
+          column,
+          req,
+        },
+      });
+    } else {
+      await this.mailService.sendMail({
+        mailEvent: MailEvent.ROW_USER_MENTION,
+        payload: {
+          base,
+          model,
+          rowId,
+          displayValue,
+          user: recipient,
+          mentionedBy: user,
+          column,
+          comment,
+          req,
+        },
+      });
+    }
+  }
+
+  // one digest job per user, notifications arriving while it is pending are picked up by it
+  protected async scheduleDigest(user: User, since: string, siteUrl: string) {
+    const jobId = `notification-digest-${user.id}`;
+
+    const status = await this.jobsService.jobStatus(jobId);
+    if (status === JobStatus.WAITING || status === JobStatus.DELAYED) return;
+
+    await this.jobsService.add(
+      JobTypes.NotificationDigest,
+      {
+        context: {
+          workspace_id: RootScopes.ROOT,
+          base_id: RootScopes.ROOT,
+        },
+        user: {
+          id: user.id,
+          email: user.email,
+        },
+        since,
+        siteUrl,
+      } as NotificationDigestJobData,
+      {
+        jobId,
+        delay: NOTIFICATION_DIGEST_DELAY,
+      },
+    );
+  }
+
+  protected async getRowDisplayValue(
+    context: NcContext,
+    modelId: string,
+    rowId: string,
+  ) {
+    try {
+      const model = await Model.get(context, modelId);
+      await model.getColumns(context);
+
+      const source = await Source.get(context, model.source_id);
+      const baseModel = await Model.getBaseModelSQL(context, {
+        model,
+        source,
+        dbDriver: await NcConnectionMgrv2.get(source),
+      });
+
+      const row = await baseModel.readByPk(rowId);
+
+      return row?.[model.displayValue?.title];
+    } catch (e) {
+      this.logger.error(e);
     }
   }
 
@@ -249,5 +532,27 @@ export class NotificationsService implements OnModuleInit, OnModuleDestroy {
     this.appHooks.on(AppEvents.WELCOME, (data) =>
       this.hookHandler({ event: AppEvents.WELCOME, data }),
     );
+    this.appHooks.on(AppEvents.ROW_USER_MENTION, (data) =>
+      this.hookHandler({ event: AppEvents.ROW_USER_MENTION, data }),
+    );
+    this.appHooks.on(AppEvents.DATA_UPDATE, (data) =>
+      this.hookHandler({ event: AppEvents.DATA_UPDATE, data }),
+    );
   }
 }
+
+// user field values are either a comma separated list of ids or user objects
+const getUserIds = (value: unknown): string[] => {
+  if (!value) return [];
+
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+  }
+
+  return (Array.isArray(value) ? value : [value])
+    .map((user) => (typeof user === 'string' ? user : user?.id))
+    .filter(Boolean);
+};
@@ -5,6 +5,7 @@ import type { ApiTokenReqType } from 'nocodb-sdk';
 import type { NcRequest } from '~/interface/config';
 import { AppHooksService } from '~/services/app-hooks/app-hooks.service';
 import { validatePayload } from '~/helpers';
+import { validateApiTokenReq } from '~/helpers/apiTokenHelpers';
 import { NcError } from '~/helpers/catchError';
 import { PagedResponseImpl } from '~/helpers/PagedResponse';
 import { ApiToken } from '~/models';
@@ -46,6 +47,8 @@ export class OrgTokensService {
       param.apiToken,
     );
 
+    await validateApiTokenReq(param.apiToken);
+
     const apiToken = await ApiToken.insert({
       ...param.apiToken,
       fk_user_id: param['user'].id,
@@ -5,9 +5,13 @@ import type { LinkToAnotherRecordColumn } from '~/models';
 import type { NcContext } from '~/interface/config';
 import type { DependantFields } from '~/helpers/getAst';
 import { nocoExecute } from '~/utils';
-import { Column, Model, Source, View } from '~/models';
+import { Column, MapView, Model, Source, View } from '~/models';
 import { NcError } from '~/helpers/catchError';
 import getAst from '~/helpers/getAst';
+import {
+  extractLaneCountsByStack,
+  getKanbanSwimlaneColumnId,
+} from '~/helpers/kanbanHelpers';
 import { PagedResponseImpl } from '~/helpers/PagedResponse';
 import { getColumnByIdOrName } from '~/helpers/dataHelpers';
 import NcConnectionMgrv2 from '~/utils/common/NcConnectionMgrv2';
@@ -280,20 +284,37 @@ export class PublicDatasService {
         {},
         listArgs,
       );
+      // swimlanes of a kanban view are counted per stack
+      const swimlaneColumnId = await getKanbanSwimlaneColumnId(
+        context,
+        view,
+        groupColumnId,
+      );
       const countArr = await baseModel.groupedListCount({
         ...listArgs,
         groupColumnId,
+        subGroupColumnId: swimlaneColumnId,
       });
+      const laneCountsByStack = swimlaneColumnId
+        ? extractLaneCountsByStack(countArr)
+        : null;
       data = data.map((item) => {
         // todo: use map to avoid loop
-        const count =
-          countArr.find((countItem: any) => countItem.key === item.key)
-            ?.count ?? 0;
+        const count = laneCountsByStack
+          ? (laneCountsByStack.get(item.key) ?? []).reduce(
+              (sum, lane) => sum + lane.count,
+              0,
+            )
+          : countArr.find((countItem: any) => countItem.key === item.key)
+              ?.count ?? 0;
 
         item.value = new PagedResponseImpl(item.value, {
           ...query,
           count: count,
         });
+        if (laneCountsByStack) {
+          item.lanes = laneCountsByStack.get(item.key) ?? [];
+        }
         return item;
       });
     } catch (e) {
@@ -303,6 +324,41 @@ export class PublicDatasService {
     return data;
   }
 
+  async geoClusterList(
+    context: NcContext,
+    param: {
+      sharedViewUuid: string;
+      password?: string;
+      query: any;
+    },
+  ) {
+    const view = await View.getByUUID(context, param.sharedViewUuid);
+
+    if (!view) NcError.viewNotFound(param.sharedViewUuid);
+
+    if (view.type !== ViewTypes.MAP) {
+      NcError.notFound('Not found');
+    }
+
+    if (view.password && view.password !== param.password) {
+      return NcError.invalidSharedViewPassword();
+    }
+
+    const model = await Model.getByIdOrName(context, {
+      id: view?.fk_model_id,
+    });
+
+    // only the geo data field of the map is exposed
+    const mapView = await MapView.get(context, view.id);
+
+    return await this.datasService.getGeoClusterList(context, {
+      model,
+      view,
+      query: param.query,
+      columnId: mapView?.fk_geo_data_col_id,
+    });
+  }
+
   async dataGroupByCount(
     context: NcContext,
     param: {
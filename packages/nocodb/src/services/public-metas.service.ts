@@ -65,11 +65,15 @@ export class PublicMetasService {
     const rangeColumns = [];
 
     if (view.type === ViewTypes.CALENDAR) {
+      // feed token gives access to the records regardless of the share
+      (view.view as CalendarView).ics_token = undefined;
+
       for (const c of (view.view as CalendarView).calendar_range) {
         if (c.fk_from_column_id) {
           rangeColumns.push(c.fk_from_column_id);
-        } else if ((c as any).fk_to_column_id) {
-          rangeColumns.push((c as any).fk_to_column_id);
+        }
+        if (c.fk_to_column_id) {
+          rangeColumns.push(c.fk_to_column_id);
         }
       }
     }
@@ -0,0 +1,278 @@
+import { Injectable } from '@nestjs/common';
+import equal from 'fast-deep-equal';
+import {
+  AuditV1OperationTypes,
+  ColumnPermission,
+  getColumnPermission,
+  isReadOnlyColumn,
+  isSystemColumn,
+  isVirtualCol,
+  parseProp,
+} from 'nocodb-sdk';
+import type { NcContext, NcRequest } from '~/interface/config';
+import type { Column } from '~/models';
+import type { IBaseModelSqlV2 } from '~/db/IBaseModelSqlV2';
+import { NcError } from '~/helpers/catchError';
+import { formatDataForAudit } from '~/helpers/dbHelpers';
+import { extractLimitAndOffset } from '~/helpers/extractLimitAndOffset';
+import { PagedResponseImpl } from '~/helpers/PagedResponse';
+import { extractColsMetaForAudit } from '~/utils/audit';
+import { Audit, Model, Source } from '~/models';
+import NcConnectionMgrv2 from '~/utils/common/NcConnectionMgrv2';
+
+export interface RecordRevision {
+  id: string;
+  op_type: AuditV1OperationTypes;
+  user?: string;
+  fk_user_id?: string;
+  created_at?: string;
+  // field values of the record right after the audited change
+  data: Record<string, any>;
+  // fields changed by the audited change
+  modifications: Record<string, { previous?: any; next: any }>;
+  // editable fields whose value differs from the current record
+  restorable_fields: string[];
+  // current values of the restorable fields
+  current_data: Record<string, any>;
+  // meta of the restorable fields to render their values
+  column_meta: Record<string, any>;
+}
+
+@Injectable()
+export class RecordRevisionsService {
+  async recordRevisionList(
+    context: NcContext,
+    param: {
+      modelId: string;
+      rowId: string;
+      query: { limit?: number | string; offset?: number | string };
+    },
+  ) {
+    const { limit, offset } = extractLimitAndOffset(param.query);
+
+    const baseModel = await this.getBaseModel(context, param.modelId);
+    const { revisions } = await this.getRevisions(baseModel, param.rowId);
+
+    return new PagedResponseImpl(revisions.slice(offset, offset + limit), {
+      count: revisions.length,
+      limit,
+      offset,
+    });
+  }
+
+  async recordRevisionRestore(
+    context: NcContext,
+    param: {
+      modelId: string;
+      rowId: string;
+      revisionId: string;
+      body: { fields?: string[] };
+      req: NcRequest;
+    },
+  ) {
+    const baseModel = await this.getBaseModel(context, param.modelId);
+    const { row, revisions } = await this.getRevisions(baseModel, param.rowId);
+
+    const revision = revisions.find((r) => r.id === param.revisionId);
+
+    if (!revision) {
+      NcError.notFound(`Revision '${param.revisionId}' not found`);
+    }
+
+    const fields = param.body?.fields?.length
+      ? param.body.fields
+      : revision.restorable_fields;
+
+    for (const field of fields) {
+      if (!revision.restorable_fields.includes(field)) {
+        NcError.badRequest(
+          `Field '${field}' can't be restored from revision '${revision.id}'`,
+        );
+      }
+    }
+
+    if (!fields.length) {
+      NcError.badRequest('Record already matches the selected revision');
+    }
+
+    const updateObj = {
+      ...Object.fromEntries(
+        baseModel.model.primaryKeys.map((pk) => [pk.title, row[pk.title]]),
+      ),
+      ...Object.fromEntries(
+        fields.map((field) => [field, revision.data[field] ?? null]),
+      ),
+    };
+
+    // regular update so that the restore is audited and hooks are triggered
+    await baseModel.bulkUpdate([updateObj], {
+      cookie: param.req,
+      throwExceptionIfNotExist: true,
+      isSingleRecordUpdation: true,
+    });
+
+    return await baseModel.readByPk(param.rowId);
+  }
+
+  protected async getBaseModel(context: NcContext, modelId: string) {
+    const model = await Model.get(context, modelId);
+
+    if (!model) {
+      NcError.tableNotFound(modelId);
+    }
+
+    const source = await Source.get(context, model.source_id);
+
+    return await Model.getBaseModelSQL(context, {
+      id: model.id,
+      dbDriver: await NcConnectionMgrv2.get(source),
+      source,
+    });
+  }
+
+  // walks the audits from the latest to the oldest one starting with the
+  // current record values, reverting each update to get the earlier state
+  protected async getRevisions(baseModel: IBaseModelSqlV2, rowId: string) {
+    const columns = await baseModel.model.getColumns(baseModel.context);
+
+    const row = await baseModel.readByPk(
+      rowId,
+      false,
+      {},
+      { ignoreView: true, getHiddenColumn: true },
+    );
+
+    if (!row) {
+      NcError.recordNotFound(rowId);
+    }
+
+    const audits = await Audit.rowRevisionAuditList({
+      fk_model_id: baseModel.model.id,
+      row_id: baseModel.extractPksValues(row, true),
+    });
+
+    const current: Record<string, any> = formatDataForAudit(row, columns);
+
+    // values of hidden fields are left out, and only the fields which are
+    // editable by the role can be restored
+    const roles = baseModel.context.user?.base_roles;
+    const hiddenTitles = columns
+      .filter((c) => getColumnPermission(c, roles) === ColumnPermission.HIDDEN)
+      .map((c) => c.title);
+    const restorableColumns = columns.filter(
+      (c) =>
+        !isSystemColumn(c) &&
+        !isVirtualCol(c) &&
+        !isReadOnlyColumn(c) &&
+        !c.pk &&
+        getColumnPermission(c, roles) === ColumnPermission.EDITABLE,
+    );
+
+    const columnMeta = extractColsMetaForAudit(restorableColumns);
+
+    const pending = audits.map((audit) => {
+      const details = parseProp(audit.details);
+      return {
+        audit,
+        data: this.mapToCurrentTitles(details, 'data', columns),
+        oldData: this.mapToCurrentTitles(details, 'old_data', columns),
+      };
+    });
+
+    const revisions: RecordRevision[] = [];
+    let state = { ...current };
+
+    // audits are listed latest first
+    for (const { audit, data, oldData } of pending) {
+      const isUpdate = audit.op_type === AuditV1OperationTypes.DATA_UPDATE;
+
+      const modifications: RecordRevision['modifications'] = {};
+      for (const title of Object.keys(data)) {
+        modifications[title] = isUpdate
+          ? { previous: oldData[title], next: data[title] }
+          : { next: data[title] };
+      }
+
+      revisions.push(
+        this.buildRevision(
+          audit,
+          state,
+          modifications,
+          current,
+          restorableColumns,
+          columnMeta,
+          hiddenTitles,
+        ),
+      );
+
+      // earlier audits belong to a deleted record which had the same id
+      if (!isUpdate) break;
+
+      state = { ...state, ...oldData };
+    }
+
+    return { row, revisions };
+  }
+
+  protected buildRevision(
+    audit: Audit,
+    data: Record<string, any>,
+    modifications: RecordRevision['modifications'],
+    current: Record<string, any>,
+    restorableColumns: Column[],
+    columnMeta: Record<string, any>,
+    hiddenTitles: string[],
+  ): RecordRevision {
+    const isVisible = ([title]: [string, any]) => !hiddenTitles.includes(title);
+
+    const restorableFields = restorableColumns
+      .filter(
+        (c) =>
+          c.title in data &&
+          !equal(data[c.title] ?? null, current[c.title] ?? null),
+      )
+      .map((c) => c.title);
+
+    return {
+      id: audit.id,
+      op_type: audit.op_type,
+      user: audit.user,
+      fk_user_id: audit.fk_user_id,
+      created_at: audit.created_at,
+      data: Object.fromEntries(Object.entries(data).filter(isVisible)),
+      modifications: Object.fromEntries(
+        Object.entries(modifications).filter(isVisible),
+      ),
+      restorable_fields: restorableFields,
+      current_data: Object.fromEntries(
+        restorableFields.map((title) => [title, current[title] ?? null]),
+      ),
+      column_meta: Object.fromEntries(
+        restorableFields.map((title) => [title, columnMeta[title]]),
+      ),
+    };
+  }
+
+  // audit payloads are keyed by the field title at the time of the change,
+  // column meta is used to map them to the current title of the field
+  protected mapToCurrentTitles(
+    details: Record<string, any>,
+    key: 'data' | 'old_data',
+    columns: Column[],
+  ) {
+    const result: Record<string, any> = {};
+
+    for (const [title, value] of Object.entries(details?.[key] ?? {})) {
+      const columnId = details?.column_meta?.[title]?.id;
+      const column =
+        columns.find((c) => columnId && c.id === columnId) ??
+        columns.find((c) => c.title === title);
+
+      if (!column || isSystemColumn(column) || isVirtualCol(column)) continue;
+
+      result[column.title] = value;
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,241 @@
+import { Injectable } from '@nestjs/common';
+import { isColumnHiddenForRoles, ProjectRoles } from 'nocodb-sdk';
+import type { NcContext, NcRequest } from '~/interface/config';
+import type { Filter } from '~/models';
+import { NcError } from '~/helpers/catchError';
+import { extractLimitAndOffset } from '~/helpers/extractLimitAndOffset';
+import { PagedResponseImpl } from '~/helpers/PagedResponse';
+import { validateCondition } from '~/helpers/webhookHelpers';
+import { Model, RecordTrash, RowPolicy, Source } from '~/models';
+import NcConnectionMgrv2 from '~/utils/common/NcConnectionMgrv2';
+
+// number of trash entries read at once to evaluate the row policies
+const TRASH_CHUNK_SIZE = 100;
+
+@Injectable()
+export class RecordTrashService {
+  async recordTrashList(
+    context: NcContext,
+    param: {
+      baseId: string;
+      query: {
+        fk_model_id?: string;
+        limit?: number | string;
+        offset?: number | string;
+      };
+    },
+  ) {
+    const { limit, offset } = extractLimitAndOffset(param.query);
+    const condition = {
+      base_id: param.baseId,
+      fk_model_id: param.query.fk_model_id,
+    };
+
+    if (this.isUnrestricted(context)) {
+      return new PagedResponseImpl(
+        await RecordTrash.list(context, { ...condition, limit, offset }),
+        {
+          count: await RecordTrash.count(context, condition),
+          limit,
+          offset,
+        },
+      );
+    }
+
+    const tableAccess = await this.getTableAccess(
+      context,
+      await RecordTrash.listModelIds(context, condition),
+    );
+    const fk_model_ids = [...tableAccess.keys()];
+
+    // without any row policy the entries of the accessible tables
+    // are paginated in sql
+    if (![...tableAccess.values()].some(({ rowFilter }) => rowFilter)) {
+      return new PagedResponseImpl(
+        (
+          await RecordTrash.list(context, {
+            ...condition,
+            fk_model_ids,
+            limit,
+            offset,
+          })
+        ).map((entry) =>
+          this.hideColumns(context, entry, tableAccess.get(entry.fk_model_id)),
+        ),
+        {
+          count: await RecordTrash.count(context, {
+            ...condition,
+            fk_model_ids,
+          }),
+          limit,
+          offset,
+        },
+      );
+    }
+
+    // row policies are evaluated against the stored copy of the records,
+    // so the entries are read in chunks and the page and the count are
+    // collected in a single pass
+    const list: RecordTrash[] = [];
+    let count = 0;
+
+    for (let chunkOffset = 0; ; chunkOffset += TRASH_CHUNK_SIZE) {
+      const entries = await RecordTrash.list(context, {
+        ...condition,
+        fk_model_ids,
+        limit: TRASH_CHUNK_SIZE,
+        offset: chunkOffset,
+      });
+
+      for (const entry of entries) {
+        const access = tableAccess.get(entry.fk_model_id);
+
+        if (!(await this.isAccessible(context, entry, access))) continue;
+
+        if (count >= offset && list.length < limit) {
+          list.push(this.hideColumns(context, entry, access));
+        }
+        count++;
+      }
+
+      if (entries.length < TRASH_CHUNK_SIZE) break;
+    }
+
+    return new PagedResponseImpl(list, { count, limit, offset });
+  }
+
+  async recordTrashRestore(
+    context: NcContext,
+    param: { baseId: string; recordTrashId: string; req: NcRequest },
+  ) {
+    const entry = await this.getEntry(context, param);
+
+    const model = await Model.get(context, entry.fk_model_id);
+
+    if (!model) {
+      NcError.tableNotFound(entry.fk_model_id);
+    }
+
+    const source = await Source.get(context, model.source_id);
+
+    const baseModel = await Model.getBaseModelSQL(context, {
+      id: model.id,
+      dbDriver: await NcConnectionMgrv2.get(source),
+      source,
+    });
+
+    return await baseModel.restoreFromTrash(entry, param.req);
+  }
+
+  async recordTrashDelete(
+    context: NcContext,
+    param: { baseId: string; recordTrashId: string },
+  ) {
+    await this.getEntry(context, param);
+
+    await RecordTrash.delete(context, param.recordTrashId);
+
+    return true;
+  }
+
+  protected async getEntry(
+    context: NcContext,
+    param: { baseId: string; recordTrashId: string },
+  ) {
+    const entry = await RecordTrash.get(context, param.recordTrashId);
+
+    if (!entry || entry.base_id !== param.baseId) {
+      NcError.notFound('Deleted record not found in trash');
+    }
+
+    if (this.isUnrestricted(context)) return entry;
+
+    const access = (
+      await this.getTableAccess(context, [entry.fk_model_id])
+    ).get(entry.fk_model_id);
+
+    if (!(await this.isAccessible(context, entry, access))) {
+      NcError.notFound('Deleted record not found in trash');
+    }
+
+    return entry;
+  }
+
+  // row policies and column permissions don't apply to owner and creator
+  protected isUnrestricted(context: NcContext) {
+    const roles = context.user?.base_roles;
+    return !roles || roles[ProjectRoles.OWNER] || roles[ProjectRoles.CREATOR];
+  }
+
+  // tables which still exist along with the row policy of the requesting user
+  protected async getTableAccess(context: NcContext, modelIds: string[]) {
+    const tableAccess = new Map<
+      string,
+      { model: Model; client: string; rowFilter: Filter | null }
+    >();
+
+    for (const modelId of modelIds) {
+      const model = await Model.get(context, modelId);
+      if (!model) continue;
+
+      await model.getColumns(context);
+
+      tableAccess.set(modelId, {
+        model,
+        client: (await Source.get(context, model.source_id))?.type,
+        rowFilter: await RowPolicy.getRowFilter(context, {
+          fk_model_id: model.id,
+          roles: context.user?.base_roles,
+        }),
+      });
+    }
+
+    return tableAccess;
+  }
+
+  protected async isAccessible(
+    context: NcContext,
+    entry: RecordTrash,
+    access?: { model: Model; client: string; rowFilter: Filter | null },
+  ) {
+    if (!access) return false;
+    if (!access.rowFilter) return true;
+
+    const data = entry.data ?? {};
+
+    return await validateCondition(
+      context,
+      [access.rowFilter],
+      Object.fromEntries(
+        access.model.columns
+          .filter((c) => c.column_name in data)
+          .map((c) => [c.title, data[c.column_name]]),
+      ),
+      { client: access.client },
+    );
+  }
+
+  // copy of the entry without the values of the columns hidden for the user
+  protected hideColumns(
+    context: NcContext,
+    entry: RecordTrash,
+    { model }: { model: Model },
+  ) {
+    const hiddenColumns = model.columns.filter((c) =>
+      isColumnHiddenForRoles(c, context.user?.base_roles),
+    );
+
+    return new RecordTrash({
+      ...entry,
+      data: Object.fromEntries(
+        Object.entries(entry.data ?? {}).filter(
+          ([columnName]) =>
+            !hiddenColumns.some((c) => c.column_name === columnName),
+        ),
+      ),
+      display_value: hiddenColumns.some((c) => c.id === model.displayValue?.id)
+        ? null
+        : entry.display_value,
+    });
+  }
+}
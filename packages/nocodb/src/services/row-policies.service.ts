@@ -0,0 +1,180 @@
+import { Injectable } from '@nestjs/common';
+import type { FilterReqType, RowPolicyReqType } from 'nocodb-sdk';
+import type { NcContext } from '~/interface/config';
+import { validatePayload } from '~/helpers';
+import { NcError } from '~/helpers/catchError';
+import { Filter, Model, RowPolicy } from '~/models';
+import { ROW_POLICY_ROLES } from '~/models/RowPolicy';
+import Noco from '~/Noco';
+
+@Injectable()
+export class RowPoliciesService {
+  async rowPolicyList(context: NcContext, param: { tableId: string }) {
+    const rowPolicies = await RowPolicy.list(context, {
+      fk_model_id: param.tableId,
+    });
+
+    return await Promise.all(
+      rowPolicies.map((rowPolicy) => this.serialize(context, rowPolicy)),
+    );
+  }
+
+  async rowPolicyCreate(
+    context: NcContext,
+    param: { tableId: string; rowPolicy: RowPolicyReqType },
+  ) {
+    validatePayload(
+      'swagger.json#/components/schemas/RowPolicyReq',
+      param.rowPolicy,
+    );
+
+    const model = await Model.get(context, param.tableId);
+
+    if (!model) {
+      NcError.tableNotFound(param.tableId);
+    }
+
+    this.validateRole(param.rowPolicy.role);
+
+    const ncMeta = await Noco.ncMeta.startTransaction();
+
+    try {
+      const rowPolicy = await RowPolicy.insert(
+        context,
+        {
+          title: param.rowPolicy.title,
+          role: param.rowPolicy.role as RowPolicy['role'],
+          enabled: param.rowPolicy.enabled ?? true,
+          fk_model_id: model.id,
+          base_id: model.base_id,
+          source_id: model.source_id,
+        },
+        ncMeta,
+      );
+
+      await this.insertFilters(
+        context,
+        rowPolicy.id,
+        param.rowPolicy.filters,
+        ncMeta,
+      );
+
+      await ncMeta.commit();
+
+      return await this.serialize(context, rowPolicy);
+    } catch (e) {
+      await ncMeta.rollback();
+      throw e;
+    }
+  }
+
+  async rowPolicyUpdate(
+    context: NcContext,
+    param: { rowPolicyId: string; rowPolicy: RowPolicyReqType },
+  ) {
+    validatePayload(
+      'swagger.json#/components/schemas/RowPolicyReq',
+      param.rowPolicy,
+    );
+
+    const rowPolicy = await RowPolicy.get(context, param.rowPolicyId);
+
+    if (!rowPolicy) {
+      NcError.genericNotFound('RowPolicy', param.rowPolicyId);
+    }
+
+    if (param.rowPolicy.role) {
+      this.validateRole(param.rowPolicy.role);
+    }
+
+    const ncMeta = await Noco.ncMeta.startTransaction();
+
+    try {
+      const res = await RowPolicy.update(
+        context,
+        rowPolicy.id,
+        param.rowPolicy as Partial<RowPolicy>,
+        ncMeta,
+      );
+
+      // filters are replaced as a whole when provided
+      if (param.rowPolicy.filters) {
+        await Filter.deleteAllByRowPolicy(context, rowPolicy.id, ncMeta);
+        await this.insertFilters(
+          context,
+          rowPolicy.id,
+          param.rowPolicy.filters,
+          ncMeta,
+        );
+      }
+
+      await ncMeta.commit();
+
+      return await this.serialize(context, res);
+    } catch (e) {
+      await ncMeta.rollback();
+      throw e;
+    }
+  }
+
+  async rowPolicyDelete(context: NcContext, param: { rowPolicyId: string }) {
+    const rowPolicy = await RowPolicy.get(context, param.rowPolicyId);
+
+    if (!rowPolicy) {
+      NcError.genericNotFound('RowPolicy', param.rowPolicyId);
+    }
+
+    await RowPolicy.delete(context, rowPolicy.id);
+
+    return true;
+  }
+
+  protected validateRole(role: string) {
+    if (!ROW_POLICY_ROLES.includes(role as RowPolicy['role'])) {
+      NcError.badRequest(
+        `Row policy role should be one of ${ROW_POLICY_ROLES.join(', ')}`,
+      );
+    }
+  }
+
+  protected async insertFilters(
+    context: NcContext,
+    rowPolicyId: string,
+    filters: FilterReqType[] = [],
+    ncMeta = Noco.ncMeta,
+  ) {
+    for (const filter of filters) {
+      validatePayload('swagger.json#/components/schemas/FilterReq', filter);
+
+      await Filter.insert(
+        context,
+        {
+          ...(filter as Filter),
+          fk_row_policy_id: rowPolicyId,
+        },
+        ncMeta,
+      );
+    }
+  }
+
+  protected async serialize(context: NcContext, rowPolicy: RowPolicy) {
+    const extractChildren = async (filters: Filter[]) =>
+      Promise.all(
+        (filters ?? []).map(async (filter) => {
+          if (!filter.is_group) return filter;
+
+          return {
+            ...filter,
+            children: await extractChildren(
+              await new Filter(filter).getChildren(context),
+            ),
+          };
+        }),
+      );
+
+    return {
+      ...rowPolicy,
+      filters: await extractChildren(await rowPolicy.getFilters(context)),
+    };
+  }
+}
@@ -14,6 +14,10 @@ import { Base, Integration, Source } from '~/models';
 import { NcError } from '~/helpers/catchError';
 import Noco from '~/Noco';
 
+// sources which are only browsed, data and schema can't be modified through
+// nocodb so the readonly flags are always enabled for them
+const READONLY_CLIENTS = ['duckdb'];
+
 @Injectable()
 export class SourcesService {
   constructor(protected readonly appHooksService: AppHooksService) {}
@@ -48,6 +52,12 @@ export class SourcesService {
     }
 
     const baseBody = param.source;
+
+    if (READONLY_CLIENTS.includes(baseBody.config?.client ?? oldSource.type)) {
+      baseBody.is_schema_readonly = true;
+      baseBody.is_data_readonly = true;
+    }
+
     const source = await Source.update(context, param.sourceId, {
       ...baseBody,
       type: baseBody.config?.client,
@@ -194,13 +204,23 @@ export class SourcesService {
       );
     }
 
+    const isReadonlyClient = READONLY_CLIENTS.includes(baseBody.type);
+
+    if (isReadonlyClient) {
+      baseBody.is_schema_readonly = true;
+      baseBody.is_data_readonly = true;
+    }
+
     const source = await Source.createBase(context, {
       ...baseBody,
       baseId: base.id,
     });
 
     try {
-      await syncBaseMigration(base, source);
+      // nothing can be migrated in a readonly source
+      if (!isReadonlyClient) {
+        await syncBaseMigration(base, source);
+      }
 
       param.logger?.('Populating meta');
 
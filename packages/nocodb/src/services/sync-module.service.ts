@@ -0,0 +1,1426 @@
+import crypto from 'crypto';
+import { Injectable, Logger } from '@nestjs/common';
+import { CronExpressionParser } from 'cron-parser';
+import {
+  IntegrationsType,
+  isLinksOrLTAR,
+  OnDeleteAction,
+  SqlUiFactory,
+  syncSystemFields,
+  syncSystemFieldsMap,
+  SyncTrigger,
+  SyncType,
+  UITypes,
+} from 'nocodb-sdk';
+import type { OnApplicationBootstrap } from '@nestjs/common';
+import type {
+  AuthIntegration,
+  DataObject,
+  SyncColumnDefinition,
+  SyncIntegration,
+  SyncRecord,
+  SyncTable,
+} from '@noco-local-integrations/core';
+import type { NcContext, NcRequest } from '~/interface/config';
+import type { LinkToAnotherRecordColumn } from '~/models';
+import type { BaseModelSqlv2 } from '~/db/BaseModelSqlv2';
+import { JobTypes } from '~/interface/Jobs';
+import {
+  Column,
+  Integration,
+  Model,
+  Source,
+  SyncConfig,
+  SyncMapping,
+} from '~/models';
+import { NcError } from '~/helpers/catchError';
+import { generateUniqueName } from '~/helpers/exportImportHelpers';
+import { ColumnsService } from '~/services/columns.service';
+import { IntegrationsService } from '~/services/integrations.service';
+import { NocoJobsService } from '~/services/noco-jobs.service';
+import { TablesService } from '~/services/tables.service';
+import NcConnectionMgrv2 from '~/utils/common/NcConnectionMgrv2';
+
+// number of records buffered per target table before writing
+const SYNC_CHUNK_SIZE = 100;
+
+interface SyncSettings {
+  title?: string;
+  sync_type?: SyncType;
+  sync_trigger?: SyncTrigger;
+  sync_trigger_cron?: string | null;
+  sync_category?: SyncConfig['sync_category'];
+  on_delete_action?: OnDeleteAction;
+  exclude_models?: string[];
+}
+
+interface SyncIntegrationConfig {
+  id?: string;
+  title?: string;
+  type?: IntegrationsType;
+  sub_type?: string;
+  config?: Record<string, any>;
+}
+
+interface SyncTargetModel {
+  model: Model;
+  baseModel: BaseModelSqlv2;
+}
+
+@Injectable()
+export class SyncModuleService implements OnApplicationBootstrap {
+  protected logger = new Logger(SyncModuleService.name);
+
+  constructor(
+    protected readonly tablesService: TablesService,
+    protected readonly columnsService: ColumnsService,
+    protected readonly integrationsService: IntegrationsService,
+    protected readonly nocoJobsService: NocoJobsService,
+  ) {}
+
+  // delayed jobs are lost with the in-memory queue, restore them on boot
+  async onApplicationBootstrap() {
+    if (process.env.NC_WORKER_CONTAINER === 'true') return;
+
+    try {
+      const syncConfigs = await SyncConfig.listScheduled();
+
+      for (const syncConfig of syncConfigs) {
+        if (
+          syncConfig.sync_job_id &&
+          (await this.nocoJobsService.getJob(syncConfig.sync_job_id))
+        ) {
+          continue;
+        }
+
+        await this.scheduleNextSync(
+          {
+            workspace_id: syncConfig.fk_workspace_id,
+            base_id: syncConfig.base_id,
+          },
+          syncConfig.id,
+        );
+      }
+    } catch (e) {
+      this.logger.error('Failed to restore scheduled syncs', e);
+    }
+  }
+
+  async listSync(context: NcContext) {
+    return await SyncConfig.list(context, { fk_parent_sync_config_id: null });
+  }
+
+  async readSync(context: NcContext, syncConfigId: string) {
+    const syncConfig = await SyncConfig.get(context, syncConfigId);
+
+    if (!syncConfig) {
+      NcError.genericNotFound('Sync', syncConfigId);
+    }
+
+    const children = await SyncConfig.list(context, {
+      fk_parent_sync_config_id: syncConfig.id,
+    });
+
+    const mappings = await SyncMapping.list(context, {
+      fk_sync_config_id: syncConfig.fk_parent_sync_config_id ?? syncConfig.id,
+    });
+
+    return {
+      ...syncConfig,
+      children,
+      mappings,
+    };
+  }
+
+  async createSync(
+    context: NcContext,
+    param: {
+      sync: SyncSettings & {
+        fk_model_id?: string;
+        configs?: SyncIntegrationConfig[];
+      } & SyncIntegrationConfig;
+      req: NcRequest;
+    },
+  ) {
+    const { sync, req } = param;
+
+    // single integration payload carries its settings under `config.sync`
+    const configs = sync.configs?.length ? sync.configs : [sync];
+    const settings = this.extractSettings({
+      ...(configs[0]?.config?.sync ?? {}),
+      ...sync,
+    });
+
+    if (!settings.title) {
+      NcError.badRequest('Missing sync `title` property in request body');
+    }
+
+    this.validateSettings(settings);
+
+    let parentSyncConfig: SyncConfig;
+
+    for (const config of configs) {
+      if (!config.sub_type && !config.id) {
+        NcError.badRequest('Missing integration for sync');
+      }
+
+      const integrationId =
+        config.id ??
+        (
+          await this.integrationsService.integrationCreate(context, {
+            integration: {
+              title: config.title || settings.title,
+              type: IntegrationsType.Sync,
+              sub_type: config.sub_type,
+              config: config.config ?? {},
+            },
+            req,
+          })
+        ).id;
+
+      const syncConfig = await SyncConfig.insert(context, {
+        ...this.toSyncConfigProps(settings),
+        fk_integration_id: integrationId,
+        fk_model_id: sync.fk_model_id,
+        fk_parent_sync_config_id: parentSyncConfig?.id ?? null,
+        sync_trigger_secret:
+          !parentSyncConfig && settings.sync_trigger === SyncTrigger.Webhook
+            ? this.generateTriggerSecret()
+            : null,
+      });
+
+      parentSyncConfig = parentSyncConfig ?? syncConfig;
+    }
+
+    const job = await this.addSyncJob(context, {
+      syncConfigId: parentSyncConfig.id,
+      trigger: SyncTrigger.Manual,
+      bulk: true,
+      req,
+    });
+
+    return {
+      syncConfig: parentSyncConfig,
+      job: { id: job.id },
+    };
+  }
+
+  async updateSync(
+    context: NcContext,
+    param: {
+      syncConfigId: string;
+      sync: SyncSettings & { config?: SyncIntegrationConfig };
+      req: NcRequest;
+    },
+  ) {
+    const { sync, req } = param;
+
+    let syncConfig = await SyncConfig.get(context, param.syncConfigId);
+
+    if (!syncConfig) {
+      NcError.genericNotFound('Sync', param.syncConfigId);
+    }
+
+    // update or add an integration of the sync
+    if (sync.config) {
+      const config = sync.config;
+      let integration: Integration;
+
+      if (config.id) {
+        await this.integrationsService.integrationUpdate(context, {
+          integrationId: config.id,
+          integration: {
+            title: config.title,
+            type: IntegrationsType.Sync,
+            sub_type: config.sub_type,
+            config: config.config ?? {},
+          },
+          req,
+        });
+
+        integration = await Integration.get(context, config.id);
+      } else {
+        integration = await this.integrationsService.integrationCreate(
+          context,
+          {
+            integration: {
+              title: config.title || syncConfig.title,
+              type: IntegrationsType.Sync,
+              sub_type: config.sub_type,
+              config: config.config ?? {},
+            },
+            req,
+          },
+        );
+
+        const parentSyncConfigId =
+          syncConfig.fk_parent_sync_config_id ?? syncConfig.id;
+        const parentSyncConfig = await SyncConfig.get(
+          context,
+          parentSyncConfigId,
+        );
+
+        syncConfig = await SyncConfig.insert(context, {
+          ...this.toSyncConfigProps(
+            this.extractSettings({
+              ...parentSyncConfig,
+              exclude_models: parentSyncConfig.meta?.exclude_models,
+            }),
+          ),
+          fk_integration_id: integration.id,
+          fk_model_id: parentSyncConfig.fk_model_id,
+          fk_parent_sync_config_id: parentSyncConfigId,
+        });
+      }
+
+      integration.config = undefined;
+
+      return { syncConfig, integration };
+    }
+
+    const settings = this.extractSettings(sync);
+
+    this.validateSettings({ ...syncConfig, ...settings });
+
+    if (syncConfig.fk_parent_sync_config_id) {
+      syncConfig = await SyncConfig.get(
+        context,
+        syncConfig.fk_parent_sync_config_id,
+      );
+    }
+
+    const { exclude_models, ...updateObj } = settings;
+
+    // keep the settings of all integrations of a sync in line
+    const children = await SyncConfig.list(context, {
+      fk_parent_sync_config_id: syncConfig.id,
+    });
+
+    for (const child of children) {
+      await SyncConfig.update(context, child.id, {
+        ...updateObj,
+        ...(exclude_models ? { meta: { ...child.meta, exclude_models } } : {}),
+      });
+    }
+
+    const triggeredByUrl =
+      (updateObj.sync_trigger ?? syncConfig.sync_trigger) ===
+      SyncTrigger.Webhook;
+
+    await SyncConfig.update(context, syncConfig.id, {
+      ...updateObj,
+      ...(exclude_models
+        ? { meta: { ...syncConfig.meta, exclude_models } }
+        : {}),
+      ...(triggeredByUrl && !syncConfig.sync_trigger_secret
+        ? { sync_trigger_secret: this.generateTriggerSecret() }
+        : {}),
+    });
+
+    await this.scheduleNextSync(context, syncConfig.id, req);
+
+    return {
+      syncConfig: await SyncConfig.get(context, syncConfig.id),
+    };
+  }
+
+  async deleteSync(
+    context: NcContext,
+    param: { syncConfigId: string; req: NcRequest },
+  ) {
+    const syncConfig = await SyncConfig.get(context, param.syncConfigId);
+
+    if (!syncConfig) {
+      NcError.genericNotFound('Sync', param.syncConfigId);
+    }
+
+    if (!syncConfig.fk_parent_sync_config_id) {
+      // synced tables are kept with the data, as regular tables
+      const mappings = await SyncMapping.list(context, {
+        fk_sync_config_id: syncConfig.id,
+      });
+
+      for (const mapping of mappings) {
+        await Model.markAsSynced(context, mapping.fk_model_id, false);
+      }
+
+      const children = await SyncConfig.list(context, {
+        fk_parent_sync_config_id: syncConfig.id,
+      });
+
+      for (const child of children) {
+        await SyncConfig.delete(context, child.id);
+      }
+    }
+
+    await SyncConfig.delete(context, syncConfig.id);
+
+    return true;
+  }
+
+  async triggerSync(
+    context: NcContext,
+    param: { syncConfigId: string; bulk?: boolean; req: NcRequest },
+  ) {
+    const syncConfig = await SyncConfig.get(context, param.syncConfigId);
+
+    if (!syncConfig) {
+      NcError.genericNotFound('Sync', param.syncConfigId);
+    }
+
+    const job = await this.addSyncJob(context, {
+      syncConfigId: syncConfig.fk_parent_sync_config_id ?? syncConfig.id,
+      trigger: SyncTrigger.Manual,
+      bulk: !!param.bulk,
+      req: param.req,
+    });
+
+    return { id: job.id };
+  }
+
+  // trigger a sync from the public trigger url, authenticated by the secret
+  async triggerSyncByUrl(
+    context: NcContext,
+    param: { syncConfigId: string; secret: string; req: NcRequest },
+  ) {
+    const syncConfig = await SyncConfig.get(context, param.syncConfigId);
+
+    if (
+      !syncConfig ||
+      syncConfig.fk_parent_sync_config_id ||
+      syncConfig.sync_trigger !== SyncTrigger.Webhook
+    ) {
+      NcError.genericNotFound('Sync', param.syncConfigId);
+    }
+
+    if (
+      !syncConfig.sync_trigger_secret ||
+      !param.secret ||
+      !this.compareSecret(syncConfig.sync_trigger_secret, param.secret)
+    ) {
+      NcError.unauthorized('Invalid sync trigger secret');
+    }
+
+    const job = await this.addSyncJob(context, {
+      syncConfigId: syncConfig.id,
+      trigger: SyncTrigger.Webhook,
+      req: {
+        clientIp: param.req.clientIp,
+        headers: param.req.headers,
+      } as NcRequest,
+    });
+
+    return { id: job.id };
+  }
+
+  async syncIntegrationFetchDestinationSchema(
+    context: NcContext,
+    param: { integration: SyncIntegrationConfig },
+  ) {
+    const { wrapper, auth } = await this.getTempSyncIntegration(
+      context,
+      param.integration,
+    );
+
+    return await wrapper.getDestinationSchema(auth);
+  }
+
+  async syncIntegrationFetchOptions(
+    context: NcContext,
+    param: { integration: SyncIntegrationConfig; key: string },
+  ) {
+    const { wrapper, auth } = await this.getTempSyncIntegration(
+      context,
+      param.integration,
+    );
+
+    return await wrapper.fetchOptions(auth, param.key);
+  }
+
+  /**
+   * Schedule the next run of a scheduled sync based on its cron expression,
+   * or clear the schedule if the sync is not scheduled anymore.
+   * Only the job referenced by `sync_job_id` is executed, previously
+   * scheduled jobs are skipped by the processor.
+   */
+  async scheduleNextSync(
+    context: NcContext,
+    syncConfigId: string,
+    req?: Partial<NcRequest>,
+  ) {
+    const syncConfig = await SyncConfig.get(context, syncConfigId);
+
+    if (!syncConfig || syncConfig.fk_parent_sync_config_id) return;
+
+    if (
+      syncConfig.sync_trigger !== SyncTrigger.Schedule ||
+      !syncConfig.sync_trigger_cron
+    ) {
+      if (syncConfig.sync_job_id || syncConfig.next_sync_at) {
+        await SyncConfig.update(context, syncConfig.id, {
+          sync_job_id: null,
+          next_sync_at: null,
+        });
+      }
+      return;
+    }
+
+    const nextSyncAt = CronExpressionParser.parse(syncConfig.sync_trigger_cron)
+      .next()
+      .toDate();
+
+    const job = await this.addSyncJob(
+      context,
+      {
+        syncConfigId: syncConfig.id,
+        trigger: SyncTrigger.Schedule,
+        req: { user: req?.user } as NcRequest,
+      },
+      Math.max(0, nextSyncAt.getTime() - Date.now()),
+    );
+
+    await SyncConfig.update(context, syncConfig.id, {
+      sync_job_id: `${job.id}`,
+      next_sync_at: nextSyncAt.toISOString(),
+    });
+  }
+
+  /**
+   * Run a sync: create the target tables if missing, then stream the records
+   * of every integration of the sync into them.
+   */
+  async syncData(
+    context: NcContext,
+    param: {
+      syncConfigId: string;
+      syncRunId: string;
+      targetTables?: string[];
+      bulk?: boolean;
+      req: NcRequest;
+      logger?: (message: string) => void;
+    },
+  ) {
+    const logger = param.logger ?? ((message) => this.logger.log(message));
+
+    const parentSyncConfig = await SyncConfig.get(context, param.syncConfigId);
+
+    if (!parentSyncConfig) {
+      NcError.genericNotFound('Sync', param.syncConfigId);
+    }
+
+    const syncConfigs = [
+      parentSyncConfig,
+      ...(await SyncConfig.list(context, {
+        fk_parent_sync_config_id: parentSyncConfig.id,
+      })),
+    ];
+
+    const targetModels = await this.setupDestinationSchema(context, {
+      syncConfig: parentSyncConfig,
+      req: param.req,
+      logger,
+    });
+
+    let recordCount = 0;
+
+    for (const syncConfig of syncConfigs) {
+      recordCount += await this.syncIntegrationData(context, {
+        syncConfig,
+        targetModels,
+        syncRunId: param.syncRunId,
+        targetTables: param.targetTables,
+        bulk: param.bulk,
+        req: param.req,
+        logger,
+      });
+    }
+
+    await SyncConfig.update(context, parentSyncConfig.id, {
+      last_sync_at: new Date().toISOString(),
+    });
+
+    return { recordCount };
+  }
+
+  protected async setupDestinationSchema(
+    context: NcContext,
+    param: {
+      syncConfig: SyncConfig;
+      req: NcRequest;
+      logger: (message: string) => void;
+    },
+  ) {
+    const { syncConfig, req, logger } = param;
+
+    const targetModels: Record<string, SyncTargetModel> = {};
+
+    const mappings = await SyncMapping.list(context, {
+      fk_sync_config_id: syncConfig.id,
+    });
+
+    for (const mapping of mappings) {
+      const model = await Model.get(context, mapping.fk_model_id);
+      if (!model) continue;
+      targetModels[mapping.target_table] = await this.getTargetModel(
+        context,
+        model.id,
+      );
+    }
+
+    const { wrapper, auth } = await this.getSyncIntegration(
+      context,
+      syncConfig,
+      logger,
+    );
+
+    const schema: Record<string, SyncTable> =
+      await wrapper.getDestinationSchema(auth);
+
+    const excludedTables = syncConfig.meta?.exclude_models ?? [];
+
+    const source = (await Source.list(context, { baseId: context.base_id }))[0];
+
+    const createdTables: string[] = [];
+
+    for (const [targetTable, table] of Object.entries(schema)) {
+      if (targetModels[targetTable] || excludedTables.includes(targetTable)) {
+        continue;
+      }
+
+      logger(`Creating table ${table.title}`);
+
+      const model = await this.tablesService.tableCreate(context, {
+        baseId: context.base_id,
+        sourceId: source.id,
+        table: {
+          title: await this.getUniqueTableTitle(context, source, table.title),
+          columns: this.getTableColumns(source, table),
+        },
+        user: req.user,
+        req,
+        synced: true,
+      });
+
+      await SyncMapping.insert(context, {
+        fk_sync_config_id: syncConfig.id,
+        target_table: targetTable,
+        fk_model_id: model.id,
+      });
+
+      targetModels[targetTable] = await this.getTargetModel(context, model.id);
+      createdTables.push(targetTable);
+    }
+
+    // links are created once both sides of a relation exist
+    for (const targetTable of createdTables) {
+      for (const relation of schema[targetTable].relations ?? []) {
+        const relatedTargetModel = targetModels[relation.relatedTable];
+
+        if (!relatedTargetModel) continue;
+
+        const model = await Model.get(
+          context,
+          targetModels[targetTable].model.id,
+        );
+        const columns = await model.getColumns(context);
+
+        // relation could be already added from the other side
+        if (columns.some((c) => c.title === relation.columnTitle)) continue;
+
+        logger(`Creating link ${relation.columnTitle} in ${model.title}`);
+
+        const updatedModel = (await this.columnsService.columnAdd(context, {
+          tableId: model.id,
+          column: {
+            uidt: UITypes.Links,
+            title: relation.columnTitle,
+            parentId: model.id,
+            childId: relatedTargetModel.model.id,
+            type: 'mm',
+          } as any,
+          req,
+          user: req.user,
+        })) as Model;
+
+        const linkColumn = updatedModel.columns.find(
+          (c) => c.title === relation.columnTitle,
+        ) as Column<LinkToAnotherRecordColumn>;
+
+        const relatedModel = await Model.get(
+          context,
+          relatedTargetModel.model.id,
+        );
+        await relatedModel.getColumns(context);
+        await linkColumn.getColOptions(context);
+
+        const relatedLinkColumn = relatedModel.columns.find(
+          (c) =>
+            isLinksOrLTAR(c) &&
+            (c.colOptions as LinkToAnotherRecordColumn)?.fk_related_model_id ===
+              model.id &&
+            (c.colOptions as LinkToAnotherRecordColumn)?.fk_mm_model_id ===
+              linkColumn.colOptions.fk_mm_model_id,
+        );
+
+        if (
+          relatedLinkColumn &&
+          relation.relatedTableColumnTitle &&
+          relatedLinkColumn.title !== relation.relatedTableColumnTitle
+        ) {
+          await Column.updateAlias(context, relatedLinkColumn.id, {
+            title: relation.relatedTableColumnTitle,
+          });
+        }
+      }
+
+      targetModels[targetTable] = await this.getTargetModel(
+        context,
+        targetModels[targetTable].model.id,
+      );
+    }
+
+    // reload related tables as well since new link columns were added
+    if (createdTables.length) {
+      for (const targetTable of Object.keys(targetModels)) {
+        targetModels[targetTable] = await this.getTargetModel(
+          context,
+          targetModels[targetTable].model.id,
+        );
+      }
+    }
+
+    return targetModels;
+  }
+
+  protected async syncIntegrationData(
+    context: NcContext,
+    param: {
+      syncConfig: SyncConfig;
+      targetModels: Record<string, SyncTargetModel>;
+      syncRunId: string;
+      targetTables?: string[];
+      bulk?: boolean;
+      req: NcRequest;
+      logger: (message: string) => void;
+    },
+  ) {
+    const { syncConfig, targetModels, logger } = param;
+
+    const { integration, wrapper, auth } = await this.getSyncIntegration(
+      context,
+      syncConfig,
+      logger,
+    );
+
+    const incremental =
+      !param.bulk && syncConfig.sync_type === SyncType.Incremental;
+
+    const targetTables = Object.keys(targetModels).filter(
+      (targetTable) =>
+        !param.targetTables || param.targetTables.includes(targetTable),
+    );
+
+    const cursors: Record<string, any> = incremental
+      ? { ...(syncConfig.meta?.cursors ?? {}) }
+      : {};
+    const nextCursors: Record<string, any> = JSON.parse(
+      JSON.stringify(syncConfig.meta?.cursors ?? {}),
+    );
+    const namespaced = wrapper.getNamespaces().length > 0;
+
+    logger(`Fetching data from ${integration.title}`);
+
+    const stream = await wrapper.fetchData(auth, {
+      targetTables,
+      targetTableIncrementalValues: cursors,
+    });
+
+    const buffers: Record<string, DataObject<SyncRecord>[]> = {};
+    const links: Record<string, DataObject<SyncRecord>[]> = {};
+    const receivedRecordIds: Record<string, Set<string>> = {};
+    let recordCount = 0;
+
+    const writeOptions = {
+      syncConfig,
+      syncRunId: param.syncRunId,
+      provider: integration.sub_type,
+      req: param.req,
+    };
+
+    for await (const record of stream as AsyncIterable<
+      DataObject<SyncRecord>
+    >) {
+      const targetModel = targetModels[record?.targetTable];
+
+      if (
+        !targetModel ||
+        !record.recordId ||
+        !targetTables.includes(record.targetTable)
+      ) {
+        continue;
+      }
+
+      (receivedRecordIds[record.targetTable] ??= new Set()).add(
+        `${record.recordId}`,
+      );
+
+      if (record.links) {
+        (links[record.targetTable] ??= []).push({
+          targetTable: record.targetTable,
+          recordId: record.recordId,
+          links: record.links,
+        });
+      }
+
+      if (!record.data) continue;
+
+      // track the highest incremental value seen
+      const incrementalKey = wrapper.getIncrementalKey(record.targetTable);
+      const incrementalValue = incrementalKey && record.data[incrementalKey];
+
+      if (incrementalValue !== undefined && incrementalValue !== null) {
+        const namespace = namespaced && record.data.RemoteNamespace;
+        const tableCursors = namespace
+          ? (nextCursors[namespace] ??= {})
+          : nextCursors;
+
+        if (
+          tableCursors[record.targetTable] === undefined ||
+          tableCursors[record.targetTable] < incrementalValue
+        ) {
+          tableCursors[record.targetTable] = incrementalValue;
+        }
+      }
+
+      (buffers[record.targetTable] ??= []).push(record);
+      recordCount++;
+
+      if (buffers[record.targetTable].length >= SYNC_CHUNK_SIZE) {
+        await this.writeRecords(context, {
+          ...writeOptions,
+          targetModel,
+          records: buffers[record.targetTable].splice(0),
+        });
+      }
+    }
+
+    for (const [targetTable, records] of Object.entries(buffers)) {
+      if (!records.length) continue;
+      await this.writeRecords(context, {
+        ...writeOptions,
+        targetModel: targetModels[targetTable],
+        records,
+      });
+    }
+
+    logger(`Synced ${recordCount} records from ${integration.title}`);
+
+    for (const [targetTable, records] of Object.entries(links)) {
+      await this.writeLinks(context, {
+        syncConfig,
+        targetModel: targetModels[targetTable],
+        targetModels,
+        records,
+        req: param.req,
+      });
+    }
+
+    // records missing from a full sync were deleted at the source
+    if (!incremental) {
+      for (const targetTable of targetTables) {
+        await this.handleMissingRecords(context, {
+          syncConfig,
+          targetModel: targetModels[targetTable],
+          receivedRecordIds: receivedRecordIds[targetTable] ?? new Set(),
+          req: param.req,
+        });
+      }
+    }
+
+    await SyncConfig.update(context, syncConfig.id, {
+      last_sync_at: new Date().toISOString(),
+      meta: {
+        ...syncConfig.meta,
+        cursors: nextCursors,
+      },
+    });
+
+    return recordCount;
+  }
+
+  // upsert records by their remote id
+  protected async writeRecords(
+    context: NcContext,
+    param: {
+      syncConfig: SyncConfig;
+      targetModel: SyncTargetModel;
+      records: DataObject<SyncRecord>[];
+      syncRunId: string;
+      provider: string;
+      req: NcRequest;
+    },
+  ) {
+    const { syncConfig, targetModel, req } = param;
+    const { model, baseModel } = targetModel;
+
+    // keep the last occurrence of a record in the chunk
+    const records = [
+      ...new Map(param.records.map((r) => [`${r.recordId}`, r])).values(),
+    ];
+
+    const existingRecords = await this.getRecordPks(context, {
+      syncConfig,
+      targetModel,
+      recordIds: records.map((r) => `${r.recordId}`),
+    });
+
+    const columnTitles = new Set(model.columns.map((c) => c.title));
+    const syncedAt = new Date().toISOString();
+
+    const insertData = [];
+    const updateData = [];
+    const deleteData = [];
+
+    for (const record of records) {
+      const pk = existingRecords.get(`${record.recordId}`);
+
+      if (
+        record.data.RemoteDeleted &&
+        syncConfig.on_delete_action === OnDeleteAction.Delete
+      ) {
+        if (pk !== undefined) deleteData.push({ [model.primaryKey.title]: pk });
+        continue;
+      }
+
+      const rowData = {};
+
+      for (const [key, value] of Object.entries(record.data)) {
+        const title = key === 'RemoteDeletedAt' ? 'RemoteDeletedTime' : key;
+        if (columnTitles.has(title)) rowData[title] = value;
+      }
+
+      Object.assign(rowData, {
+        [syncSystemFieldsMap.RemoteId.title]: `${record.recordId}`,
+        [syncSystemFieldsMap.RemoteDeleted.title]: !!record.data.RemoteDeleted,
+        [syncSystemFieldsMap.SyncConfigId.title]: syncConfig.id,
+        [syncSystemFieldsMap.SyncRunId.title]: param.syncRunId,
+        [syncSystemFieldsMap.SyncProvider.title]: param.provider,
+        [syncSystemFieldsMap.RemoteSyncedAt.title]: syncedAt,
+      });
+
+      if (pk !== undefined) {
+        updateData.push({ ...rowData, [model.primaryKey.title]: pk });
+      } else {
+        insertData.push(rowData);
+      }
+    }
+
+    if (insertData.length) {
+      await baseModel.bulkInsert(insertData, {
+        cookie: req,
+        allowSystemColumn: true,
+        typecast: true,
+      });
+    }
+
+    if (updateData.length) {
+      await baseModel.bulkUpdate(updateData, {
+        cookie: req,
+        allowSystemColumn: true,
+        typecast: true,
+      });
+    }
+
+    if (deleteData.length) {
+      await baseModel.bulkDelete(deleteData, {
+        cookie: req,
+        allowSystemColumn: true,
+      });
+    }
+  }
+
+  // replace the links of records with the linked remote records
+  protected async writeLinks(
+    context: NcContext,
+    param: {
+      syncConfig: SyncConfig;
+      targetModel: SyncTargetModel;
+      targetModels: Record<string, SyncTargetModel>;
+      records: DataObject<SyncRecord>[];
+      req: NcRequest;
+    },
+  ) {
+    const { syncConfig, targetModel, req } = param;
+    const { model, baseModel } = targetModel;
+
+    for (let i = 0; i < param.records.length; i += SYNC_CHUNK_SIZE) {
+      const records = param.records.slice(i, i + SYNC_CHUNK_SIZE);
+
+      const recordPks = await this.getRecordPks(context, {
+        syncConfig,
+        targetModel,
+        recordIds: records.map((r) => `${r.recordId}`),
+      });
+
+      for (const record of records) {
+        const rowId = recordPks.get(`${record.recordId}`);
+        if (rowId === undefined) continue;
+
+        for (const [columnTitle, linkedRecordIds] of Object.entries(
+          record.links,
+        )) {
+          const column = model.columns.find(
+            (c) => c.title === columnTitle && isLinksOrLTAR(c),
+          ) as Column<LinkToAnotherRecordColumn>;
+
+          if (!column) continue;
+
+          const colOptions = await column.getColOptions(context);
+
+          const relatedTargetModel = Object.values(param.targetModels).find(
+            (t) => t.model.id === colOptions.fk_related_model_id,
+          );
+
+          if (!relatedTargetModel) continue;
+
+          const linkedPks = await this.getRecordPks(context, {
+            syncConfig,
+            targetModel: relatedTargetModel,
+            recordIds: (linkedRecordIds ?? []).map((id) => `${id}`),
+          });
+
+          const currentPks = await this.getLinkedPks(context, {
+            baseModel,
+            column,
+            rowId,
+          });
+
+          const targetPks = new Set(
+            [...linkedPks.values()].map((pk) => `${pk}`),
+          );
+
+          const toAdd = [...targetPks].filter((pk) => !currentPks.has(pk));
+          const toRemove = [...currentPks].filter((pk) => !targetPks.has(pk));
+
+          if (toRemove.length) {
+            await baseModel.removeLinks({
+              cookie: req,
+              colId: column.id,
+              rowId: `${rowId}`,
+              childIds: toRemove,
+            });
+          }
+
+          if (toAdd.length) {
+            await baseModel.addLinks({
+              cookie: req,
+              colId: column.id,
+              rowId: `${rowId}`,
+              childIds: toAdd,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  protected async handleMissingRecords(
+    context: NcContext,
+    param: {
+      syncConfig: SyncConfig;
+      targetModel: SyncTargetModel;
+      receivedRecordIds: Set<string>;
+      req: NcRequest;
+    },
+  ) {
+    const { syncConfig, targetModel, receivedRecordIds, req } = param;
+    const { model, baseModel } = targetModel;
+
+    const remoteIdColumn = this.getSystemColumn(model, 'RemoteId');
+    const remoteDeletedColumn = this.getSystemColumn(model, 'RemoteDeleted');
+    const syncConfigIdColumn = this.getSystemColumn(model, 'SyncConfigId');
+
+    const rows = await baseModel.execAndParse(
+      baseModel
+        .dbDriver(baseModel.getTnPath(model))
+        .select(
+          model.primaryKey.column_name,
+          remoteIdColumn.column_name,
+          remoteDeletedColumn.column_name,
+        )
+        .where(syncConfigIdColumn.column_name, syncConfig.id),
+      null,
+      { raw: true },
+    );
+
+    const missingRows = rows.filter(
+      (row) =>
+        !receivedRecordIds.has(`${row[remoteIdColumn.column_name]}`) &&
+        !row[remoteDeletedColumn.column_name],
+    );
+
+    for (let i = 0; i < missingRows.length; i += SYNC_CHUNK_SIZE) {
+      const chunk = missingRows.slice(i, i + SYNC_CHUNK_SIZE).map((row) => ({
+        [model.primaryKey.title]: row[model.primaryKey.column_name],
+      }));
+
+      if (syncConfig.on_delete_action === OnDeleteAction.Delete) {
+        await baseModel.bulkDelete(chunk, {
+          cookie: req,
+          allowSystemColumn: true,
+        });
+      } else {
+        await baseModel.bulkUpdate(
+          chunk.map((row) => ({
+            ...row,
+            [remoteDeletedColumn.title]: true,
+          })),
+          {
+            cookie: req,
+            allowSystemColumn: true,
+            typecast: true,
+          },
+        );
+      }
+    }
+  }
+
+  // map remote record ids to primary keys of the synced records
+  protected async getRecordPks(
+    _context: NcContext,
+    param: {
+      syncConfig: SyncConfig;
+      targetModel: SyncTargetModel;
+      recordIds: string[];
+    },
+  ) {
+    const { model, baseModel } = param.targetModel;
+    const recordPks = new Map<string, any>();
+
+    if (!param.recordIds.length) return recordPks;
+
+    const remoteIdColumn = this.getSystemColumn(model, 'RemoteId');
+    const syncConfigIdColumn = this.getSystemColumn(model, 'SyncConfigId');
+
+    const rows = await baseModel.execAndParse(
+      baseModel
+        .dbDriver(baseModel.getTnPath(model))
+        .select(model.primaryKey.column_name, remoteIdColumn.column_name)
+        .where(syncConfigIdColumn.column_name, param.syncConfig.id)
+        .whereIn(remoteIdColumn.column_name, param.recordIds),
+      null,
+      { raw: true },
+    );
+
+    for (const row of rows) {
+      recordPks.set(
+        `${row[remoteIdColumn.column_name]}`,
+        row[model.primaryKey.column_name],
+      );
+    }
+
+    return recordPks;
+  }
+
+  protected async getLinkedPks(
+    context: NcContext,
+    param: {
+      baseModel: BaseModelSqlv2;
+      column: Column<LinkToAnotherRecordColumn>;
+      rowId: any;
+    },
+  ) {
+    const { baseModel, column } = param;
+    const colOptions = await column.getColOptions(context);
+
+    const mmModel = await colOptions.getMMModel(context);
+    const mmChildColumn = await colOptions.getMMChildColumn(context);
+    const mmParentColumn = await colOptions.getMMParentColumn(context);
+
+    const rows = await baseModel.execAndParse(
+      baseModel
+        .dbDriver(baseModel.getTnPath(mmModel))
+        .select(mmParentColumn.column_name)
+        .where(mmChildColumn.column_name, param.rowId),
+      null,
+      { raw: true },
+    );
+
+    return new Set<string>(
+      rows.map((row) => `${row[mmParentColumn.column_name]}`),
+    );
+  }
+
+  protected async getTargetModel(
+    context: NcContext,
+    modelId: string,
+  ): Promise<SyncTargetModel> {
+    const model = await Model.get(context, modelId);
+    await model.getColumns(context);
+
+    const source = await Source.get(context, model.source_id);
+
+    const baseModel = await Model.getBaseModelSQL(context, {
+      model,
+      source,
+      dbDriver: await NcConnectionMgrv2.get(source),
+    });
+
+    return { model, baseModel };
+  }
+
+  protected getSystemColumn(
+    model: Model,
+    title: keyof typeof syncSystemFieldsMap,
+  ) {
+    const column = model.columns.find(
+      (c) => c.title === syncSystemFieldsMap[title].title,
+    );
+
+    if (!column) {
+      NcError.badRequest(
+        `Field '${syncSystemFieldsMap[title].title}' is missing in synced table '${model.title}'`,
+      );
+    }
+
+    return column;
+  }
+
+  protected getTableColumns(source: Source, table: SyncTable) {
+    const sqlUi = SqlUiFactory.create({ client: source.type });
+
+    const columns: Record<string, any>[] = [
+      ...sqlUi.getNewTableColumns().filter((c) => c.column_name === 'id'),
+    ];
+
+    const syncColumns: SyncColumnDefinition[] = [
+      ...table.columns.filter((c) => !c.exclude),
+      ...syncSystemFields.filter(
+        (f) => !table.columns.some((c) => c.title === f.title),
+      ),
+    ];
+
+    for (const column of syncColumns) {
+      const options = column.colOptions?.options ?? [];
+
+      columns.push({
+        title: column.title,
+        column_name: column.column_name,
+        uidt: column.uidt,
+        pv: column.pv,
+        meta: column.meta ?? {},
+        readonly: true,
+        ...(options.length
+          ? {
+              colOptions: { options },
+              dtxp: options
+                .map((o) => `'${o.title.replace(/'/g, "''")}'`)
+                .join(','),
+            }
+          : {}),
+      });
+    }
+
+    return columns as any[];
+  }
+
+  protected async getUniqueTableTitle(
+    context: NcContext,
+    source: Source,
+    title: string,
+  ) {
+    const models = await Model.list(context, {
+      base_id: context.base_id,
+      source_id: source.id,
+    });
+
+    return generateUniqueName(
+      title,
+      models.map((m) => m.title),
+    );
+  }
+
+  protected async getSyncIntegration(
+    context: NcContext,
+    syncConfig: SyncConfig,
+    logger?: (message: string) => void,
+  ) {
+    const integration = await Integration.get(
+      context,
+      syncConfig.fk_integration_id,
+    );
+
+    if (!integration) {
+      NcError.integrationNotFound(syncConfig.fk_integration_id);
+    }
+
+    const wrapper = integration.getIntegrationWrapper<SyncIntegration>(logger);
+
+    const auth = await this.authenticate(context, integration.getConfig());
+
+    return { integration, wrapper, auth };
+  }
+
+  protected async getTempSyncIntegration(
+    context: NcContext,
+    config: SyncIntegrationConfig,
+  ) {
+    if (!config) {
+      NcError.badRequest('Missing integration');
+    }
+
+    let integrationConfig = config.config;
+
+    // saved integration without the config loaded in the form
+    if (config.id && !integrationConfig) {
+      const integration = await Integration.get(context, config.id);
+
+      if (!integration) {
+        NcError.integrationNotFound(config.id);
+      }
+
+      integrationConfig = integration.getConfig();
+    }
+
+    const wrapper = Integration.tempIntegrationWrapper<SyncIntegration>({
+      type: IntegrationsType.Sync,
+      sub_type: config.sub_type,
+      config: integrationConfig ?? {},
+    });
+
+    const auth = await this.authenticate(context, integrationConfig);
+
+    return { wrapper, auth };
+  }
+
+  // sync integrations refer to an auth integration for the credentials
+  protected async authenticate(
+    context: NcContext,
+    config: Record<string, any>,
+  ) {
+    if (!config?.authIntegrationId) return null;
+
+    const authIntegration = await Integration.get(
+      context,
+      config.authIntegrationId,
+    );
+
+    if (!authIntegration) {
+      NcError.integrationNotFound(config.authIntegrationId);
+    }
+
+    return await authIntegration
+      .getIntegrationWrapper<AuthIntegration>()
+      .authenticate();
+  }
+
+  protected async addSyncJob(
+    context: NcContext,
+    param: {
+      syncConfigId: string;
+      trigger: SyncTrigger;
+      bulk?: boolean;
+      req: NcRequest;
+    },
+    delay?: number,
+  ) {
+    return await this.nocoJobsService.add(
+      JobTypes.SyncModuleSyncData,
+      {
+        context,
+        syncConfigId: param.syncConfigId,
+        trigger: param.trigger,
+        bulk: param.bulk,
+        user: param.req?.user,
+        req: {
+          user: param.req?.user,
+          clientIp: param.req?.clientIp,
+          headers: param.req?.headers,
+        },
+      },
+      delay ? { delay } : undefined,
+    );
+  }
+
+  protected extractSettings(payload: Record<string, any>): SyncSettings {
+    const settings: SyncSettings = {};
+
+    for (const key of [
+      'title',
+      'sync_type',
+      'sync_trigger',
+      'sync_trigger_cron',
+      'sync_category',
+      'on_delete_action',
+      'exclude_models',
+    ]) {
+      if (payload[key] !== undefined) {
+        settings[key] = payload[key];
+      }
+    }
+
+    return settings;
+  }
+
+  protected toSyncConfigProps(settings: SyncSettings): Partial<SyncConfig> {
+    const { exclude_models, ...props } = settings;
+
+    return {
+      ...props,
+      ...(exclude_models ? { meta: { exclude_models } } : {}),
+    } as Partial<SyncConfig>;
+  }
+
+  protected validateSettings(settings: SyncSettings) {
+    if (
+      settings.sync_type &&
+      !Object.values(SyncType).includes(settings.sync_type)
+    ) {
+      NcError.badRequest(`Invalid sync type '${settings.sync_type}'`);
+    }
+
+    if (
+      settings.sync_trigger &&
+      !Object.values(SyncTrigger).includes(settings.sync_trigger)
+    ) {
+      NcError.badRequest(`Invalid sync trigger '${settings.sync_trigger}'`);
+    }
+
+    if (
+      settings.on_delete_action &&
+      !Object.values(OnDeleteAction).includes(settings.on_delete_action)
+    ) {
+      NcError.badRequest(
+        `Invalid on delete action '${settings.on_delete_action}'`,
+      );
+    }
+
+    if (settings.sync_trigger === SyncTrigger.Schedule) {
+      if (!settings.sync_trigger_cron) {
+        NcError.badRequest('Cron expression is required for scheduled sync');
+      }
+
+      try {
+        CronExpressionParser.parse(settings.sync_trigger_cron);
+      } catch {
+        NcError.badRequest(
+          `Invalid cron expression '${settings.sync_trigger_cron}'`,
+        );
+      }
+    }
+  }
+
+  protected generateTriggerSecret() {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  protected compareSecret(expected: string, actual: string) {
+    const expectedBuffer = Buffer.from(expected);
+    const actualBuffer = Buffer.from(actual);
+
+    return (
+      expectedBuffer.length === actualBuffer.length &&
+      crypto.timingSafeEqual(expectedBuffer, actualBuffer)
+    );
+  }
+}
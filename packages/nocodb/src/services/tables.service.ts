@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import DOMPurify from 'isomorphic-dompurify';
 import {
   AppEvents,
+  isColumnHiddenForRoles,
   isCreatedOrLastModifiedByCol,
   isCreatedOrLastModifiedTimeCol,
   isLinksOrLTAR,
@@ -415,6 +416,11 @@ export class TablesService {
       );
     });
 
+    // exclude columns hidden for the role of the user
+    table.columns = table.columns?.filter(
+      (column) => !isColumnHiddenForRoles(column, context.user?.base_roles),
+    );
+
     return table;
   }
 
@@ -0,0 +1,201 @@
+import { Injectable } from '@nestjs/common';
+import { AppEvents, isLinksOrLTAR, UITypes, ViewTypes } from 'nocodb-sdk';
+import type {
+  TimelineUpdateReqType,
+  UserType,
+  ViewCreateReqType,
+} from 'nocodb-sdk';
+import type { NcContext, NcRequest } from '~/interface/config';
+import type { LinkToAnotherRecordColumn } from '~/models';
+import { AppHooksService } from '~/services/app-hooks/app-hooks.service';
+import { validatePayload } from '~/helpers';
+import { NcError } from '~/helpers/catchError';
+import { Model, TimelineView, User, View } from '~/models';
+import { CacheScope } from '~/utils/globals';
+import NocoCache from '~/cache/NocoCache';
+
+const timelineDateTypes = [UITypes.Date, UITypes.DateTime];
+
+@Injectable()
+export class TimelinesService {
+  constructor(private readonly appHooksService: AppHooksService) {}
+
+  async timelineViewGet(context: NcContext, param: { timelineViewId: string }) {
+    return await TimelineView.get(context, param.timelineViewId);
+  }
+
+  async timelineViewCreate(
+    context: NcContext,
+    param: {
+      tableId: string;
+      timeline: ViewCreateReqType;
+      user: UserType;
+      req: NcRequest;
+    },
+  ) {
+    validatePayload(
+      'swagger.json#/components/schemas/ViewCreateReq',
+      param.timeline,
+    );
+
+    const model = await Model.get(context, param.tableId);
+
+    if (!model) {
+      NcError.tableNotFound(param.tableId);
+    }
+
+    if (!param.timeline.copy_from_id) {
+      if (!param.timeline.fk_start_col_id) {
+        NcError.badRequest('Start date field is required for a timeline view');
+      }
+
+      await this.validateTimelineColumns(context, model, param.timeline);
+    }
+
+    const { id } = await View.insertMetaOnly(context, {
+      view: {
+        ...param.timeline,
+        // todo: sanitize
+        fk_model_id: param.tableId,
+        type: ViewTypes.TIMELINE,
+        base_id: model.base_id,
+        source_id: model.source_id,
+        created_by: param.user?.id,
+        owned_by: param.user?.id,
+      },
+      model,
+      req: param.req,
+    });
+
+    // populate  cache and add to list since the list cache already exist
+    const view = await View.get(context, id);
+    await NocoCache.appendToList(
+      CacheScope.VIEW,
+      [view.fk_model_id],
+      `${CacheScope.VIEW}:${id}`,
+    );
+
+    this.appHooksService.emit(AppEvents.TIMELINE_CREATE, {
+      view,
+      req: param.req,
+      owner: param.req.user,
+      context,
+    });
+
+    return view;
+  }
+
+  async timelineViewUpdate(
+    context: NcContext,
+    param: {
+      timelineViewId: string;
+      timeline: TimelineUpdateReqType;
+      req: NcRequest;
+    },
+  ) {
+    validatePayload(
+      'swagger.json#/components/schemas/TimelineUpdateReq',
+      param.timeline,
+    );
+
+    const view = await View.get(context, param.timelineViewId);
+
+    if (!view) {
+      NcError.viewNotFound(param.timelineViewId);
+    }
+
+    if (
+      'fk_start_col_id' in param.timeline &&
+      !param.timeline.fk_start_col_id
+    ) {
+      NcError.badRequest('Start date field is required for a timeline view');
+    }
+
+    await this.validateTimelineColumns(
+      context,
+      await view.getModel(context),
+      param.timeline,
+    );
+
+    const res = await TimelineView.update(
+      context,
+      param.timelineViewId,
+      param.timeline,
+    );
+
+    let owner = param.req.user;
+
+    if (view.owned_by && view.owned_by !== param.req.user?.id) {
+      owner = await User.get(view.owned_by);
+    }
+
+    this.appHooksService.emit(AppEvents.TIMELINE_UPDATE, {
+      view: { ...view, ...param.timeline },
+      oldView: view,
+      req: param.req,
+      context,
+      owner,
+    });
+
+    return res;
+  }
+
+  // bars are drawn between two date fields of the table, dependencies are
+  // links between the records of the same table
+  protected async validateTimelineColumns(
+    context: NcContext,
+    model: Model,
+    body: {
+      fk_start_col_id?: string | null;
+      fk_end_col_id?: string | null;
+      fk_grp_col_id?: string | null;
+      fk_dependency_col_id?: string | null;
+    },
+  ) {
+    const columns = await model.getColumns(context);
+
+    const getColumn = (columnId: string) => {
+      const column = columns.find((c) => c.id === columnId);
+      if (!column) {
+        NcError.fieldNotFound(columnId);
+      }
+      return column;
+    };
+
+    for (const prop of ['fk_start_col_id', 'fk_end_col_id'] as const) {
+      if (!body[prop]) continue;
+
+      const column = getColumn(body[prop]);
+
+      if (!timelineDateTypes.includes(column.uidt as UITypes)) {
+        NcError.badRequest(
+          `Field '${column.title}' must be a Date or DateTime field`,
+        );
+      }
+    }
+
+    if (body.fk_grp_col_id) {
+      const column = getColumn(body.fk_grp_col_id);
+
+      if (isLinksOrLTAR(column)) {
+        NcError.badRequest(
+          `Field '${column.title}' can't be used for grouping`,
+        );
+      }
+    }
+
+    if (body.fk_dependency_col_id) {
+      const column = getColumn(body.fk_dependency_col_id);
+
+      const colOptions = isLinksOrLTAR(column)
+        ? await column.getColOptions<LinkToAnotherRecordColumn>(context)
+        : null;
+
+      if (colOptions?.fk_related_model_id !== model.id) {
+        NcError.badRequest(
+          `Field '${column.title}' must be a Links field to the same table`,
+        );
+      }
+    }
+  }
+}
@@ -12,6 +12,7 @@ import { Base, BaseUser, Source } from '~/models';
 import { BasesService } from '~/services/bases.service';
 import { RootScopes } from '~/utils/globals';
 import { validatePayload } from '~/helpers';
+import { filterApiTokenBases } from '~/helpers/apiTokenHelpers';
 import { baseBuilder, sourceBuilder } from '~/utils/builders/base';
 
 @Injectable()
@@ -21,19 +22,29 @@ export class BasesV3Service {
   protected async getBaseList(
     context: NcContext,
     param: {
-      user: { id: string; roles?: string | Record<string, boolean> };
+      user: {
+        id: string;
+        roles?: string | Record<string, boolean>;
+        api_token?: { base_ids?: string[] };
+      };
       query?: any;
     },
   ) {
-    return extractRolesObj(param.user?.roles)[OrgUserRoles.SUPER_ADMIN]
+    const bases = extractRolesObj(param.user?.roles)[OrgUserRoles.SUPER_ADMIN]
       ? await Base.list()
       : await BaseUser.getProjectsList(param.user.id, param.query);
+
+    return filterApiTokenBases(param.user, bases);
   }
 
   async baseList(
     context: NcContext,
     param: {
-      user: { id: string; roles?: string | Record<string, boolean> };
+      user: {
+        id: string;
+        roles?: string | Record<string, boolean>;
+        api_token?: { base_ids?: string[] };
+      };
       query?: any;
       workspaceId: string;
     },
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { isLinksOrLTAR, NcApiVersion, UITypes } from 'nocodb-sdk';
 import type {
+  ColumnPermissionsReqType,
   ColumnReqType,
   FieldUpdateV3Type,
   FieldV3Type,
@@ -42,13 +43,14 @@ export class ColumnsV3Service {
 
     const type = (param.column?.type ?? column.uidt) as FieldV3Type['type'];
 
-    const processedColumnReq = columnV3ToV2Builder().build({
+    const { permissions, ...processedColumnReq } = columnV3ToV2Builder().build({
       ...param.column,
       type,
     } as FieldV3Type) as ColumnReqType & {
       meta?: any;
       colOptions?: any;
       dtxp?: string;
+      permissions?: ColumnPermissionsReqType;
     };
 
     if (!processedColumnReq.column_name) {
@@ -79,6 +81,14 @@ export class ColumnsV3Service {
       req: param.req,
     });
 
+    if (permissions) {
+      await this.columnsService.columnPermissionsUpdate(context, {
+        columnId: param.columnId,
+        permissions,
+        req: param.req,
+      });
+    }
+
     column = await Column.get(context, { colId: param.columnId });
 
     // do tranformation
@@ -107,13 +117,15 @@ export class ColumnsV3Service {
       true,
     );
 
-    const column = columnV3ToV2Builder().build(
+    // permissions are validated and stored once the column is created
+    const { permissions, ...column } = columnV3ToV2Builder().build(
       param.column,
     ) as ColumnReqType & {
       parentId?: string;
       meta?: any;
       colOptions?: any;
       dtxp?: string;
+      permissions?: ColumnPermissionsReqType;
     };
 
     // if LTAR column then define tablr id as parent id in request
@@ -140,6 +152,18 @@ export class ColumnsV3Service {
       apiVersion: NcApiVersion.V3,
     });
 
+    if (permissions) {
+      await this.columnsService.columnPermissionsUpdate(context, {
+        columnId: res.id,
+        permissions,
+        req: param.req,
+      });
+
+      return columnBuilder().build(
+        await Column.get(context, { colId: res.id }),
+      );
+    }
+
     // do tranformation
     return columnBuilder().build(res);
   }
@@ -1,11 +1,12 @@
-import { NcApiVersion, UITypes } from 'nocodb-sdk';
+import { isVirtualCol, NcApiVersion, UITypes } from 'nocodb-sdk';
 import { Injectable } from '@nestjs/common';
 import { NcError } from 'src/helpers/catchError';
 import type { NcContext, NcRequest } from '~/interface/config';
 import { PagedResponseV3Impl } from '~/helpers/PagedResponse';
 import { DataTableService } from '~/services/data-table.service';
-import { Model } from '~/models';
+import { Model, Source } from '~/models';
 import { BaseModelSqlv2 } from '~/db/BaseModelSqlv2';
+import NcConnectionMgrv2 from '~/utils/common/NcConnectionMgrv2';
 
 const V3_INSERT_LIMIT = 10;
 
@@ -85,6 +86,96 @@ export class DataV3Service {
     });
   }
 
+  async dataUpsert(
+    context: NcContext,
+    param: {
+      baseId?: string;
+      modelId: string;
+      body: {
+        matchFields: string[];
+        records: Record<string, any> | Record<string, any>[];
+      };
+      cookie: any;
+    },
+  ) {
+    const matchFields = param.body?.matchFields;
+    const records = param.body?.records;
+
+    if (!Array.isArray(matchFields) || !matchFields.length) {
+      NcError.badRequest('matchFields must be a non-empty array of fields');
+    }
+
+    if (!records || (Array.isArray(records) && !records.length)) {
+      NcError.badRequest('records must be a record or a non-empty array');
+    }
+
+    const datas = Array.isArray(records) ? records : [records];
+
+    if (datas.length > V3_INSERT_LIMIT) {
+      NcError.maxInsertLimitExceeded(V3_INSERT_LIMIT);
+    }
+
+    const model = await Model.get(context, param.modelId);
+
+    if (!model || (param.baseId && model.base_id !== param.baseId)) {
+      NcError.get(context).tableNotFound(param.modelId);
+    }
+
+    if (model.synced) {
+      NcError.get(context).prohibitedSyncTableOperation({
+        modelName: model.title,
+        operation: 'insert',
+      });
+    }
+
+    const columns = await model.getColumns(context);
+
+    // match fields can be referred by title or id
+    const matchColumns = matchFields.map((field) => {
+      const column = columns.find((c) => c.title === field || c.id === field);
+
+      if (!column) {
+        NcError.get(context).fieldNotFound(field);
+      }
+
+      if (
+        isVirtualCol(column) ||
+        [UITypes.Attachment, UITypes.JSON].includes(column.uidt as UITypes)
+      ) {
+        NcError.badRequest(
+          `Field '${column.title}' cannot be used to match records`,
+        );
+      }
+
+      return column;
+    });
+
+    const source = await Source.get(context, model.source_id);
+
+    const baseModel = await Model.getBaseModelSQL(context, {
+      id: model.id,
+      dbDriver: await NcConnectionMgrv2.get(source),
+    });
+
+    const { insertedRecords, updatedRecords } =
+      await baseModel.bulkUpsertRecords(datas, {
+        cookie: param.cookie,
+        typecast: (param.cookie?.query?.typecast ?? '') === 'true',
+        matchColumns,
+      });
+
+    const extractPkObj = (record: Record<string, any>) =>
+      model.primaryKeys.reduce((acc, pk) => {
+        acc[pk.title] = record[pk.title];
+        return acc;
+      }, {});
+
+    return {
+      created: insertedRecords.map(extractPkObj),
+      updated: updatedRecords.map(extractPkObj),
+    };
+  }
+
   async dataDelete(
     context: NcContext,
     param: {
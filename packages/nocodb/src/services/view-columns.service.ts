@@ -4,6 +4,7 @@ import GridViewColumn from '../models/GridViewColumn';
 import GalleryViewColumn from '../models/GalleryViewColumn';
 import KanbanViewColumn from '../models/KanbanViewColumn';
 import MapViewColumn from '../models/MapViewColumn';
+import TimelineViewColumn from '../models/TimelineViewColumn';
 import FormViewColumn from '../models/FormViewColumn';
 import type {
   CalendarColumnReqType,
@@ -284,6 +285,34 @@ export class ViewColumnsService {
               );
             }
             break;
+          case ViewTypes.TIMELINE:
+            validatePayload(
+              'swagger.json#/components/schemas/TimelineColumn',
+              column,
+            );
+            if (existingCol) {
+              updateOrInsertOptions.push(
+                TimelineViewColumn.update(
+                  context,
+                  existingCol.id,
+                  column,
+                  ncMeta,
+                ),
+              );
+            } else {
+              updateOrInsertOptions.push(
+                TimelineViewColumn.insert(
+                  context,
+                  {
+                    ...(column as TimelineViewColumn),
+                    fk_view_id: viewId,
+                    fk_column_id: columnId,
+                  },
+                  ncMeta,
+                ),
+              );
+            }
+            break;
           case ViewTypes.FORM:
             validatePayload(
               'swagger.json#/components/schemas/FormColumnReq',
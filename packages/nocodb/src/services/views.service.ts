@@ -272,6 +272,8 @@ export class ViewsService {
       deleteEvent = AppEvents.KANBAN_DELETE;
     } else if (view.type === ViewTypes.MAP) {
       deleteEvent = AppEvents.MAP_DELETE;
+    } else if (view.type === ViewTypes.TIMELINE) {
+      deleteEvent = AppEvents.TIMELINE_DELETE;
     }
 
     let owner = param.req.user;
@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { extractRolesObj, ProjectRoles } from 'nocodb-sdk';
 import { Strategy } from 'passport-custom';
@@ -8,18 +8,41 @@ import { sanitiseUserObj } from '~/utils';
 
 @Injectable()
 export class AuthTokenStrategy extends PassportStrategy(Strategy, 'authtoken') {
+  private readonly logger = new Logger(AuthTokenStrategy.name);
+
   // eslint-disable-next-line @typescript-eslint/ban-types
   async validate(req: NcRequest, callback: Function) {
     try {
       let user;
       if (req.headers['xc-token']) {
-        const apiToken = await ApiToken.getByToken(req.headers['xc-token']);
+        const apiToken = await ApiToken.getByToken(
+          req.headers['xc-token'] as string,
+        );
         if (!apiToken) {
           return callback({ msg: 'Invalid token' });
         }
 
+        if (apiToken.isDisabled()) {
+          return callback({ msg: 'Token is disabled' });
+        }
+
+        if (apiToken.isExpired()) {
+          return callback({ msg: 'Token expired' });
+        }
+
+        // tracking usage shouldn't block or fail the request
+        ApiToken.updateLastUsed(apiToken).catch((e) =>
+          this.logger.error(e?.message, e?.stack),
+        );
+
         user = {
           is_api_token: true,
+          // scope of the token, enforced in acl middleware
+          api_token: {
+            id: apiToken.id,
+            permissions: apiToken.permissions,
+            base_ids: apiToken.base_ids,
+          },
         };
 
         // old auth tokens will not have fk_user_id, so we return editor role
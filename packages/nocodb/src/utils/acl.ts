@@ -89,7 +89,9 @@ const permissionScopes = {
     'gridViewUpdate',
     'formViewUpdate',
     'calendarViewGet',
+    'timelineViewGet',
     'groupedDataList',
+    'geoClusterList',
     'mmList',
     'hmList',
     'commentRow',
@@ -118,6 +120,7 @@ const permissionScopes = {
     'dataUpdate',
     'dataDelete',
     'dataInsert',
+    'dataUpsert',
     'viewColumnUpdate',
     'sortCreate',
     'sortUpdate',
@@ -159,6 +162,34 @@ const permissionScopes = {
     'extensionUpdate',
     'extensionDelete',
 
+    // Snapshots
+    'snapshotList',
+    'snapshotCreate',
+    'snapshotRestore',
+    'snapshotDelete',
+
+    // Row policies
+    'rowPolicyList',
+    'rowPolicyCreate',
+    'rowPolicyUpdate',
+    'rowPolicyDelete',
+
+    // Field permissions
+    'columnPermissionsUpdate',
+
+    // Record trash
+    'recordTrashList',
+    'recordTrashRestore',
+    'recordTrashDelete',
+
+    // Record revisions
+    'recordRevisionList',
+    'recordRevisionRestore',
+
+    // Calendar feeds
+    'calendarFeedTokenGenerate',
+    'calendarFeedTokenRevoke',
+
     // Jobs
     'jobList',
 
@@ -180,6 +211,16 @@ const permissionScopes = {
     'mcpCreate',
     'mcpUpdate',
     'mcpDelete',
+
+    // Sync
+    'listSync',
+    'readSync',
+    'createSync',
+    'updateSync',
+    'deleteSync',
+    'triggerSync',
+    'syncIntegrationFetchDestinationSchema',
+    'syncIntegrationFetchOptions',
   ],
 };
 
@@ -218,7 +259,9 @@ const rolePermissions:
       galleryViewGet: true,
       kanbanViewGet: true,
       groupedDataList: true,
+      geoClusterList: true,
       calendarViewGet: true,
+      timelineViewGet: true,
 
       mmList: true,
       hmList: true,
@@ -250,6 +293,7 @@ const rolePermissions:
       commentList: true,
       commentsCount: true,
       recordAuditList: true,
+      recordRevisionList: true,
 
       userInvite: true,
 
@@ -274,6 +318,7 @@ const rolePermissions:
       dataUpdate: true,
       dataDelete: true,
       dataInsert: true,
+      dataUpsert: true,
       nestedDataListCopyPasteOrDeleteAll: true,
       viewColumnUpdate: true,
       gridViewUpdate: true,
@@ -298,6 +343,9 @@ const rolePermissions:
       bulkDataDeleteAll: true,
       relationDataRemove: true,
       relationDataAdd: true,
+      recordTrashList: true,
+      recordTrashRestore: true,
+      recordRevisionRestore: true,
 
       nestedDataLink: true,
       nestedDataUnlink: true,
@@ -523,6 +571,7 @@ export const sourceRestrictions = {
     dataUpdate: true,
     dataDelete: true,
     dataInsert: true,
+    dataUpsert: true,
     bulkDataInsert: true,
     bulkDataUpdate: true,
     bulkDataUpdateAll: true,
@@ -536,6 +585,32 @@ export const sourceRestrictions = {
   },
 };
 
+// Permissions allowed for read-only api tokens, derived from viewer role
+// excluding the permissions which modify base or user data
+export const apiTokenReadPermissions: Record<string, boolean> = {
+  ...(rolePermissions as Record<string, any>)[ProjectRoles.VIEWER].include,
+  baseList: true,
+};
+
+[
+  'baseUserMetaUpdate',
+  'userInvite',
+  'mcpCreate',
+  'mcpUpdate',
+  'mcpDelete',
+].forEach((permission) => delete apiTokenReadPermissions[permission]);
+
+// Org level permissions allowed for api tokens restricted to specific bases,
+// rest of them either create bases or manage the whole instance
+export const apiTokenBaseScopedOrgPermissions: Record<string, boolean> = {
+  baseList: true,
+  isPluginActive: true,
+  commandPalette: true,
+  notification: true,
+  upload: true,
+  uploadViaURL: true,
+};
+
 export default rolePermissions;
 
 const permissionDescriptions: Record<string, string> = {
@@ -618,9 +693,11 @@ const permissionDescriptions: Record<string, string> = {
   galleryViewGet: 'view gallery',
   kanbanViewGet: 'view Kanban board',
   calendarViewGet: 'view calendar',
+  timelineViewGet: 'view timeline',
   gridViewUpdate: 'update grid view',
   formViewUpdate: 'update form view',
   groupedDataList: 'view grouped data',
+  geoClusterList: 'view clustered map data',
   mmList: 'view many-to-many relationships',
   hmList: 'view hierarchical relationships',
   commentRow: 'comment on a row',
@@ -650,6 +727,7 @@ const permissionDescriptions: Record<string, string> = {
   dataUpdate: 'update data',
   dataDelete: 'delete data',
   dataInsert: 'insert new data',
+  dataUpsert: 'insert or update data by matching fields',
   viewColumnUpdate: 'update view columns',
   sortCreate: 'create a new sort',
   sortUpdate: 'update an existing sort',
@@ -685,12 +763,42 @@ const permissionDescriptions: Record<string, string> = {
 
   jobList: 'view list of jobs',
 
+  snapshotList: 'view list of base snapshots',
+  snapshotCreate: 'create a base snapshot',
+  snapshotRestore: 'restore a base snapshot',
+  snapshotDelete: 'delete a base snapshot',
+
+  rowPolicyList: 'view list of row policies',
+  rowPolicyCreate: 'create a row policy',
+  rowPolicyUpdate: 'update a row policy',
+  rowPolicyDelete: 'delete a row policy',
+  columnPermissionsUpdate: 'update role permissions of a field',
+
+  recordTrashList: 'view list of deleted records in the trash',
+  recordTrashRestore: 'restore a deleted record from the trash',
+  recordTrashDelete: 'permanently delete a record from the trash',
+  recordRevisionList: 'view previous versions of a record',
+  recordRevisionRestore: 'restore a record to a previous version',
+
+  calendarFeedTokenGenerate: 'generate the calendar feed url of a view',
+  calendarFeedTokenRevoke: 'revoke the calendar feed url of a view',
+
   hookTrigger: 'trigger a webhook',
 
   mcpList: 'view list of MCP tokens',
   mcpCreate: 'create a new MCP token',
   mcpUpdate: 'update an MCP token',
   mcpDelete: 'delete an MCP token',
+
+  listSync: 'view list of syncs',
+  readSync: 'view a sync',
+  createSync: 'create a new sync',
+  updateSync: 'update a sync',
+  deleteSync: 'delete a sync',
+  triggerSync: 'trigger a sync',
+  syncIntegrationFetchDestinationSchema:
+    'view the destination schema of a sync integration',
+  syncIntegrationFetchOptions: 'view the options of a sync integration',
 };
 
 // Human-readable descriptions for roles
@@ -342,6 +342,7 @@ export const columnBuilder = builderGenerator<Column | ColumnType, FieldV3Type>(
       'description',
       'meta',
       'colOptions',
+      'permissions',
     ],
     mappings: {
       uidt: 'type',
@@ -556,7 +557,15 @@ export const columnOptionsV3ToV2Builder = builderGenerator({
 });
 
 export const columnV3ToV2Builder = builderGenerator<FieldV3Type, ColumnType>({
-  allowed: ['id', 'title', 'type', 'default_value', 'options', 'description'],
+  allowed: [
+    'id',
+    'title',
+    'type',
+    'default_value',
+    'options',
+    'description',
+    'permissions',
+  ],
   mappings: {
     type: 'uidt',
     default_value: 'cdf',
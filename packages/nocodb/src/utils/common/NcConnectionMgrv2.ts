@@ -25,6 +25,40 @@ export default class NcConnectionMgrv2 {
     }
   }
 
+  // connection pool usage of every open source connection and the meta db
+  public static getPoolStats() {
+    const connections: {
+      baseId?: string;
+      sourceId: string;
+      knex: XKnex;
+    }[] = [{ sourceId: 'meta', knex: Noco.ncMeta?.knex }];
+
+    for (const baseId in this.connectionRefs) {
+      for (const sourceId in this.connectionRefs[baseId]) {
+        connections.push({
+          baseId,
+          sourceId,
+          knex: this.connectionRefs[baseId][sourceId],
+        });
+      }
+    }
+
+    return connections
+      .filter(({ knex }) => knex?.client?.pool)
+      .map(({ baseId, sourceId, knex }) => {
+        const pool = knex.client.pool;
+        return {
+          baseId,
+          sourceId,
+          client: knex.client.config?.client,
+          used: pool.numUsed(),
+          free: pool.numFree(),
+          pending: pool.numPendingAcquires(),
+          max: pool.max,
+        };
+      });
+  }
+
   public static async deleteAwait(source: Source) {
     // todo: ignore meta bases
     if (this.connectionRefs?.[source.base_id]?.[source.id]) {
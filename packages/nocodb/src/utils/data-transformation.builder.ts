@@ -280,7 +280,16 @@ export const colOptionBuilder = builderGenerator({
 });
 
 export const columnBuilder = builderGenerator<Column | ColumnType, unknown>({
-  allowed: ['id', 'title', 'uidt', 'cdf', 'description', 'meta', 'colOptions'],
+  allowed: [
+    'id',
+    'title',
+    'uidt',
+    'cdf',
+    'description',
+    'meta',
+    'colOptions',
+    'permissions',
+  ],
   mappings: {
     uidt: 'type',
     cdf: 'default_value',
@@ -160,6 +160,11 @@ export function batchUpdate(
 
   columns.forEach((column) => {
     const filteredData = data.filter((row) => !ncIsUndefined(row[column]));
+
+    // column is not set in any of the rows, e.g. `updated_by` of a sync
+    // triggered without a user
+    if (!filteredData.length) return;
+
     updateObj[column] = kn.raw(
       `CASE ?? ${filteredData
         .map(() => 'WHEN ? THEN ?')
@@ -46,6 +46,8 @@ export enum MetaTable {
   SYNC_LOGS = 'nc_sync_logs_v2',
   MAP_VIEW = 'nc_map_view_v2',
   MAP_VIEW_COLUMNS = 'nc_map_view_columns_v2',
+  TIMELINE_VIEW = 'nc_timeline_view_v2',
+  TIMELINE_VIEW_COLUMNS = 'nc_timeline_view_columns_v2',
   STORE = 'nc_store',
   NOTIFICATION = 'notification',
   USER_REFRESH_TOKENS = 'nc_user_refresh_tokens',
@@ -66,6 +68,8 @@ export enum MetaTable {
   SYNC_MAPPINGS = 'nc_sync_mappings',
   USAGE_STATS = 'nc_usage_stats',
   MCP_TOKENS = 'nc_mcp_tokens',
+  ROW_POLICY = 'nc_row_policies',
+  RECORD_TRASH = 'nc_record_trash',
 }
 
 export enum MetaTableOldV2 {
@@ -85,6 +89,8 @@ export const orderedMetaTables = [
   MetaTable.USERS,
   MetaTable.MAP_VIEW,
   MetaTable.MAP_VIEW_COLUMNS,
+  MetaTable.TIMELINE_VIEW,
+  MetaTable.TIMELINE_VIEW_COLUMNS,
   MetaTable.KANBAN_VIEW_COLUMNS,
   MetaTable.KANBAN_VIEW,
   MetaTable.CALENDAR_VIEW,
@@ -97,6 +103,7 @@ export const orderedMetaTables = [
   MetaTable.FORM_VIEW_COLUMNS,
   MetaTable.FORM_VIEW,
   MetaTable.SHARED_VIEWS,
+  MetaTable.ROW_POLICY,
   MetaTable.SORT,
   MetaTable.FILTER_EXP,
   MetaTable.HOOK_LOGS,
@@ -170,6 +177,8 @@ export enum CacheScope {
   CALENDAR_VIEW_RANGE = 'calendarViewRange',
   MAP_VIEW = 'mapView',
   MAP_VIEW_COLUMN = 'mapViewColumn',
+  TIMELINE_VIEW = 'timelineView',
+  TIMELINE_VIEW_COLUMN = 'timelineViewColumn',
   KANBAN_VIEW_COLUMN = 'kanbanViewColumn',
   USER = 'user',
   ORGS_OLD = 'orgs',
@@ -210,6 +219,7 @@ export enum CacheScope {
   STORAGE_STATS = 'storageStats',
   CLOUD_FEATURES = 'cloudFeatures',
   MCP_TOKEN = 'mcpToken',
+  ROW_POLICY = 'rowPolicy',
 }
 
 export enum CacheGetType {
@@ -231,6 +241,8 @@ export const DB_TYPES = <const>[
   'oracledb',
   'pg',
   'databricks',
+  'mssql',
+  'duckdb',
 ];
 
 export enum RootScopes {
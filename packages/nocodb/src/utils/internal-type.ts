@@ -1,5 +1,9 @@
-import type { MCPToken } from '~/models';
+import type { MCPToken, SyncConfig } from '~/models';
 
-export type InternalGETResponseType = Promise<void | MCPToken | MCPToken[]>;
+export type InternalGETResponseType = Promise<
+  void | MCPToken | MCPToken[] | SyncConfig | SyncConfig[]
+>;
 
-export type InternalPOSTResponseType = Promise<void | boolean | MCPToken>;
+export type InternalPOSTResponseType = Promise<
+  void | boolean | MCPToken | Record<string, any>
+>;
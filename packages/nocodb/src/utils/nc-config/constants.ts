@@ -4,6 +4,7 @@ export const driverClientMapping = {
   postgres: 'pg',
   postgresql: 'pg',
   sqlite: 'sqlite3',
+  sqlserver: 'mssql',
 };
 
 export const defaultClientPortMapping = {
@@ -11,6 +12,7 @@ export const defaultClientPortMapping = {
   mysql2: 3306,
   postgres: 5432,
   pg: 5432,
+  mssql: 1433,
 };
 
 export const defaultConnectionConfig: any = {
@@ -80,4 +82,6 @@ export enum DriverClient {
   SQLITE = 'sqlite3',
   SNOWFLAKE = 'snowflake',
   DATABRICKS = 'databricks',
+  MSSQL = 'mssql',
+  DUCKDB = 'duckdb',
 }
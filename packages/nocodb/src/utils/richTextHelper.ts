@@ -16,3 +16,10 @@ export const extractMentions = (richText: string) => {
 
   return Array.from(new Set(mentions));
 };
+
+// replaces the stored mention format with a readable `@display_name`
+export const formatMentions = (richText: string) =>
+  (richText ?? '').replace(/@\(([^)]+)\)/g, (_, mention: string) => {
+    const [, email, displayName] = mention.split('|');
+    return `@${displayName || email || ''}`;
+  });
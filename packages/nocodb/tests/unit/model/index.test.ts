@@ -1,8 +1,12 @@
 import 'mocha';
 import baseModelSqlTest from './tests/baseModelSql.test';
+import duckdbClientTest from './tests/duckdbClient.test';
+import mssqlClientTest from './tests/mssqlClient.test';
 
 function modelTests() {
   baseModelSqlTest();
+  duckdbClientTest();
+  mssqlClientTest();
 }
 
 export default function () {
@@ -0,0 +1,111 @@
+import 'mocha';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import DuckdbClient from '~/db/sql-client/lib/duckdb/DuckdbClient';
+import {
+  getDuckdbFileReader,
+  getDuckdbFileTableName,
+  validateDuckdbFiles,
+} from '~/db/sql-client/lib/duckdb/DuckdbDialect';
+
+// Test case list
+// 1. Attached files are exposed as tables named after the file
+// 2. Unsupported and missing files are rejected
+// 3. Files are queried through knex with big integers normalised
+
+function duckdbClientTests() {
+  let dir: string;
+  let csvPath: string;
+  let client: DuckdbClient;
+
+  beforeEach(async function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nc-duckdb-'));
+    csvPath = path.join(dir, 'people 2024.csv');
+    fs.writeFileSync(
+      csvPath,
+      ['id,name,views', "1,O'Brien,9007199254740993", '2,Smith,42'].join('\n'),
+    );
+
+    client = new DuckdbClient({
+      client: 'duckdb',
+      connection: { files: [{ path: csvPath }] },
+    });
+  });
+
+  afterEach(async function () {
+    await client.knex.destroy();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('Attached files are exposed as tables named after the file', async () => {
+    expect(getDuckdbFileTableName({ path: csvPath })).to.equal('people_2024');
+    expect(
+      getDuckdbFileTableName({ path: csvPath, table_name: 'people' }),
+    ).to.equal('people');
+
+    expect(getDuckdbFileReader({ path: "data/o'clock.parquet" })).to.equal(
+      "read_parquet('data/o''clock.parquet')",
+    );
+    expect(getDuckdbFileReader({ path: 'data/*.csv.gz' })).to.equal(
+      "read_csv_auto('data/*.csv.gz')",
+    );
+
+    expect((await client.testConnection()).code).to.not.equal(-1);
+
+    const tables = (await client.tableList()).data.list;
+    expect(tables.map((t) => t.tn)).to.include('people_2024');
+
+    const columns = (await client.columnList({ tn: 'people_2024' })).data.list;
+    expect(columns.map((c) => [c.cn, c.dt])).to.deep.equal([
+      ['id', 'bigint'],
+      ['name', 'varchar'],
+      ['views', 'bigint'],
+    ]);
+  });
+
+  it('Unsupported and missing files are rejected', async () => {
+    expect(() => getDuckdbFileReader({ path: 'data.xlsx' })).to.throw(
+      'only parquet and csv files can be attached',
+    );
+    expect(() =>
+      validateDuckdbFiles([{ path: path.join(dir, 'missing.csv') }]),
+    ).to.throw('does not exist');
+    // globs are resolved by duckdb
+    expect(() =>
+      validateDuckdbFiles([{ path: path.join(dir, '*.csv') }]),
+    ).to.not.throw();
+
+    const missingFileClient = new DuckdbClient({
+      client: 'duckdb',
+      connection: { files: [{ path: path.join(dir, 'missing.csv') }] },
+    });
+    try {
+      expect((await missingFileClient.testConnection()).code).to.equal(-1);
+    } finally {
+      await missingFileClient.knex.destroy();
+    }
+  });
+
+  it('Files are queried through knex with big integers normalised', async () => {
+    const rows = await client
+      .knex('people_2024')
+      .select('id', 'name', 'views')
+      .orderBy('id');
+
+    // values beyond the safe integer range are kept as strings
+    expect(rows).to.deep.equal([
+      { id: 1, name: "O'Brien", views: '9007199254740993' },
+      { id: 2, name: 'Smith', views: 42 },
+    ]);
+
+    expect(
+      await client.knex('people_2024').where('name', "O'Brien").first('id'),
+    ).to.deep.equal({ id: 1 });
+  });
+}
+
+export default function () {
+  describe('DuckdbClient', duckdbClientTests);
+}
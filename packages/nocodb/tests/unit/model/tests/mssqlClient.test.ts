@@ -0,0 +1,114 @@
+import 'mocha';
+import { expect } from 'chai';
+import MssqlClient from '~/db/sql-client/lib/mssql/MssqlClient';
+
+// Test case list
+// 1. Tables are created with identity, defaults and primary key
+// 2. Changing a column replaces its default constraint
+// 3. Invalid data types are rejected
+
+function mssqlClientTests() {
+  let client: MssqlClient;
+
+  // queries are only generated, no connection is made to the server
+  beforeEach(function () {
+    client = new MssqlClient({
+      client: 'mssql',
+      connection: {
+        host: 'localhost',
+        port: 1433,
+        user: 'sa',
+        password: 'password',
+        database: 'nocodb',
+      },
+      searchPath: ['sales'],
+    });
+  });
+
+  afterEach(async function () {
+    await client.knex.destroy();
+  });
+
+  it('Tables are created with identity, defaults and primary key', async () => {
+    expect(client.getTnPath('orders')).to.equal('sales.orders');
+    expect(client.getTnPath('orders', { schema: 'dbo' })).to.equal(
+      'dbo.orders',
+    );
+
+    const query = client.createTable('orders', {
+      columns: [
+        { cn: 'id', dt: 'int', ai: true, pk: true },
+        { cn: 'title', dt: 'nvarchar', dtxp: 255, rqd: true, cdf: "'draft'" },
+        { cn: 'done', dt: 'bit', cdf: true },
+        { cn: 'price', dt: 'decimal', dtxp: 10, dtxs: 2 },
+        { cn: 'notes', dt: 'nvarchar(max)' },
+      ],
+    });
+
+    expect(query.startsWith('CREATE TABLE [orders] (')).to.equal(true);
+    expect(query).to.contain('[id] int IDENTITY(1,1) NOT NULL');
+    expect(query).to.match(/\[title\] nvarchar\(255\) NOT NULL DEFAULT N?'/);
+    // bit columns only accept 0 and 1
+    expect(query).to.contain('[done] bit NULL DEFAULT 1');
+    expect(query).to.contain('[price] decimal(10,2) NULL');
+    expect(query).to.contain('[notes] nvarchar(max) NULL');
+    expect(query).to.contain(', PRIMARY KEY([id])');
+
+    // primary key is left as is when unchanged
+    expect(
+      client.alterTablePK(
+        'orders',
+        [{ cn: 'id', pk: true }],
+        [{ cn: 'id', pk: true }],
+      ),
+    ).to.equal('');
+  });
+
+  it('Changing a column replaces its default constraint', async () => {
+    const query = client.alterTableChangeColumn(
+      'orders',
+      { cn: 'name', dt: 'nvarchar', dtxp: 100, rqd: true, cdf: "'none'" },
+      { cn: 'title', dt: 'nvarchar', dtxp: 255, rqd: false, cdf: null },
+    );
+
+    const statements = [
+      `EXEC sp_rename`,
+      'sys.default_constraints',
+      'ALTER TABLE [orders] ALTER COLUMN [name] nvarchar(100) NOT NULL',
+      'ALTER TABLE [orders] ADD DEFAULT',
+    ];
+
+    // statements have to be executed in this order
+    const positions = statements.map((statement) => query.indexOf(statement));
+    expect(positions.every((position) => position > -1)).to.equal(true);
+    expect([...positions].sort((a, b) => a - b)).to.deep.equal(positions);
+
+    // default constraint isn't touched when only nullability changes
+    expect(
+      client.alterTableChangeColumn(
+        'orders',
+        { cn: 'title', dt: 'int', rqd: true },
+        { cn: 'title', dt: 'int', rqd: false },
+      ),
+    ).to.not.contain('sys.default_constraints');
+  });
+
+  it('Invalid data types are rejected', async () => {
+    expect(client.sanitiseDataType('varbinary(max)')).to.equal(
+      'varbinary(max)',
+    );
+    expect(client.sanitiseDataType('decimal(18, 4)')).to.equal(
+      'decimal(18, 4)',
+    );
+    expect(() => client.sanitiseDataType('int; DROP TABLE orders')).to.throw(
+      'Invalid data type',
+    );
+    expect(() => client.columnDefinition({ cn: 'id', dt: 'int) --' })).to.throw(
+      'Invalid data type',
+    );
+  });
+}
+
+export default function () {
+  describe('MssqlClient', mssqlClientTests);
+}
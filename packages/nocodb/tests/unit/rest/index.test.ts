@@ -12,6 +12,24 @@ import formulaTests from './tests/formula.test';
 import typeCastsTest from './tests/typeCasts.test';
 import readOnlyTest from './tests/readOnlySource.test';
 import aggregationTest from './tests/aggregation.test';
+import syncModuleTests from './tests/syncModule.test';
+import rowPolicyTests from './tests/rowPolicy.test';
+import columnPermissionTests from './tests/columnPermission.test';
+import recordTrashTests from './tests/recordTrash.test';
+import recordRevisionsTests from './tests/recordRevisions.test';
+import timelineViewTests from './tests/timelineView.test';
+import calendarRangeTests from './tests/calendarRange.test';
+import calendarFeedTests from './tests/calendarFeed.test';
+import kanbanSwimlaneTests from './tests/kanbanSwimlane.test';
+import geoFilterTests from './tests/geoFilter.test';
+import snapshotTests from './tests/snapshot.test';
+import dataExportTests from './tests/dataExport.test';
+import webhookRetryTests from './tests/webhookRetry.test';
+import webhookSignatureTests from './tests/webhookSignature.test';
+import notificationsTests from './tests/notifications.test';
+import metricsTests from './tests/metrics.test';
+import mcpTests from './tests/mcp.test';
+import realtimeTests from './tests/realtime.test';
 
 import dataAPIsV3Test from './tests/dataAPIsV3.test';
 import baseTestV3 from './tests/metaApiV3/base.test';
@@ -55,6 +73,24 @@ function restTests() {
   bulkAggregationTest();
   columnTest();
   integrationTest();
+  syncModuleTests();
+  rowPolicyTests();
+  columnPermissionTests();
+  recordTrashTests();
+  recordRevisionsTests();
+  timelineViewTests();
+  calendarRangeTests();
+  calendarFeedTests();
+  kanbanSwimlaneTests();
+  geoFilterTests();
+  snapshotTests();
+  dataExportTests();
+  webhookRetryTests();
+  webhookSignatureTests();
+  notificationsTests();
+  metricsTests();
+  mcpTests();
+  realtimeTests();
 
   if (testVersion.includes('v1')) tableTests('v1');
   if (testVersion.includes('v2')) dataAPIsV3Test('v2');
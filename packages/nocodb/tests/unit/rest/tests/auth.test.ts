@@ -3,6 +3,7 @@ import 'mocha';
 import request from 'supertest';
 import init from '../../init';
 import { defaultUserArgs } from '../../factory/user';
+import { createProject } from '../../factory/base';
 
 // Test case list
 // 1. Signup with valid email
@@ -24,6 +25,12 @@ import { defaultUserArgs } from '../../factory/user';
 // 17. TBD: Forgot password validate with a valid token
 // 18. TBD: Reset Password with an valid token
 // 19. TBD: refresh token api
+// 20. API token with read permission
+// 21. API token restricted to bases
+// 22. API token with past expiry
+// 23. API token can't create or delete tokens
+// 24. API token restricted to bases lists only those bases
+// 25. API token restricted to bases can't create bases
 
 function authTests() {
   let context;
@@ -113,6 +120,130 @@ function authTests() {
     expect(email).to.equal(defaultUserArgs.email);
   });
 
+  it('API token with read permission', async () => {
+    const base = await createProject(context);
+
+    const tokenRes = await request(context.app)
+      .post('/api/v1/tokens')
+      .set('xc-auth', context.token)
+      .send({ description: 'read token', permissions: 'read' })
+      .expect(200);
+
+    expect(tokenRes.body.token).to.be.a('string');
+    expect(tokenRes.body).to.not.have.property('token_hash');
+
+    await request(context.app)
+      .get(`/api/v1/db/meta/projects/${base.id}/tables`)
+      .set('xc-token', tokenRes.body.token)
+      .expect(200);
+
+    await request(context.app)
+      .post(`/api/v1/db/meta/projects/${base.id}/tables`)
+      .set('xc-token', tokenRes.body.token)
+      .send({ table_name: 'table1', title: 'table1', columns: [] })
+      .expect(401);
+  });
+
+  it('API token restricted to bases', async () => {
+    const base1 = await createProject(context, { title: 'base1' });
+    const base2 = await createProject(context, { title: 'base2' });
+
+    const tokenRes = await request(context.app)
+      .post('/api/v1/tokens')
+      .set('xc-auth', context.token)
+      .send({ description: 'base token', base_ids: [base1.id] })
+      .expect(200);
+
+    await request(context.app)
+      .get(`/api/v1/db/meta/projects/${base1.id}/tables`)
+      .set('xc-token', tokenRes.body.token)
+      .expect(200);
+
+    await request(context.app)
+      .get(`/api/v1/db/meta/projects/${base2.id}/tables`)
+      .set('xc-token', tokenRes.body.token)
+      .expect(401);
+  });
+
+  it('API token with past expiry', async () => {
+    await request(context.app)
+      .post('/api/v1/tokens')
+      .set('xc-auth', context.token)
+      .send({ description: 'expired token', expiry: '2020-01-01T00:00:00Z' })
+      .expect(400);
+  });
+
+  it("API token can't create or delete tokens", async () => {
+    const base = await createProject(context);
+
+    const tokenRes = await request(context.app)
+      .post('/api/v1/tokens')
+      .set('xc-auth', context.token)
+      .send({ description: 'base token', base_ids: [base.id] })
+      .expect(200);
+
+    await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/api-tokens`)
+      .set('xc-token', tokenRes.body.token)
+      .send({ description: 'unrestricted token' })
+      .expect(401);
+
+    await request(context.app)
+      .delete(`/api/v2/meta/bases/${base.id}/api-tokens/${tokenRes.body.id}`)
+      .set('xc-token', tokenRes.body.token)
+      .expect(401);
+  });
+
+  it('API token restricted to bases lists only those bases', async () => {
+    const base1 = await createProject(context, { title: 'base1' });
+    await createProject(context, { title: 'base2' });
+
+    const tokenRes = await request(context.app)
+      .post('/api/v1/tokens')
+      .set('xc-auth', context.token)
+      .send({ description: 'base token', base_ids: [base1.id] })
+      .expect(200);
+
+    const response = await request(context.app)
+      .get('/api/v2/meta/bases')
+      .set('xc-token', tokenRes.body.token)
+      .expect(200);
+
+    expect(response.body.list.map((base) => base.id)).to.deep.equal([base1.id]);
+
+    const v3Response = await request(context.app)
+      .get(`/api/v3/meta/workspaces/${context.fk_workspace_id}/bases`)
+      .set('xc-token', tokenRes.body.token)
+      .expect(200);
+
+    expect(v3Response.body.list.map((base) => base.id)).to.deep.equal([
+      base1.id,
+    ]);
+  });
+
+  it("API token restricted to bases can't create bases", async () => {
+    const base = await createProject(context);
+
+    const tokenRes = await request(context.app)
+      .post('/api/v1/tokens')
+      .set('xc-auth', context.token)
+      .send({ description: 'base token', base_ids: [base.id] })
+      .expect(200);
+
+    await request(context.app)
+      .post('/api/v2/meta/bases')
+      .set('xc-token', tokenRes.body.token)
+      .send({ title: 'new base' })
+      .expect(401);
+
+    // other org level writes are rejected as well
+    await request(context.app)
+      .post('/api/v1/db/meta/connection/test')
+      .set('xc-token', tokenRes.body.token)
+      .send({})
+      .expect(401);
+  });
+
   it('Forgot password with a non-existing email id', async () => {
     await request(context.app)
       .post('/api/v1/auth/password/forgot')
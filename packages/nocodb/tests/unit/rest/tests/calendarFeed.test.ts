@@ -0,0 +1,192 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import { ProjectRoles, UITypes, ViewTypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { customColumns } from '../../factory/column';
+import { createBulkRows } from '../../factory/row';
+import type { Base, Column, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Calendar feed renders the records of the view as events
+// 2. Regenerating or revoking the token disables the previous feed url
+// 3. Calendar feed is restricted by the row policies of viewer role
+
+function calendarFeedTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let columns: Column[];
+  let viewId: string;
+
+  const columnId = (title: string) => columns.find((c) => c.title === title).id;
+
+  const generateToken = async () =>
+    (
+      await request(context.app)
+        .post(`/api/v2/meta/calendars/${viewId}/feed`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body.ics_token;
+
+  const getFeed = (token: string) =>
+    request(context.app).get(
+      `/api/v2/public/calendar-feed/${token}/calendar.ics`,
+    );
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Bookings',
+      table_name: 'bookings',
+      columns: customColumns('custom', [
+        {
+          title: 'Title',
+          column_name: 'title',
+          uidt: UITypes.SingleLineText,
+          pv: true,
+        },
+        {
+          title: 'Notes',
+          column_name: 'notes',
+          uidt: UITypes.LongText,
+        },
+        {
+          title: 'CheckIn',
+          column_name: 'check_in',
+          uidt: UITypes.Date,
+        },
+        {
+          title: 'CheckOut',
+          column_name: 'check_out',
+          uidt: UITypes.Date,
+        },
+      ]),
+    });
+
+    columns = await table.getColumns({
+      workspace_id: table.fk_workspace_id,
+      base_id: table.base_id,
+    });
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [
+        {
+          Title: 'Room 1, Tom',
+          Notes: 'Late arrival',
+          CheckIn: '2024-06-01',
+          CheckOut: '2024-06-03',
+        },
+        { Title: 'Room 2', CheckIn: '2024-06-05' },
+        { Title: 'Unscheduled' },
+      ],
+    });
+
+    viewId = (
+      await request(context.app)
+        .post(`/api/v2/meta/tables/${table.id}/calendars`)
+        .set('xc-auth', context.token)
+        .send({
+          title: 'Bookings',
+          type: ViewTypes.CALENDAR,
+          calendar_range: [
+            {
+              fk_from_column_id: columnId('CheckIn'),
+              fk_to_column_id: columnId('CheckOut'),
+            },
+          ],
+        })
+        .expect(200)
+    ).body.id;
+  });
+
+  it('Calendar feed renders the records of the view as events', async () => {
+    await request(context.app)
+      .patch(`/api/v2/meta/calendars/${viewId}`)
+      .set('xc-auth', context.token)
+      .send({ fk_ics_description_col_id: columnId('Notes') })
+      .expect(200);
+
+    const token = await generateToken();
+    expect(token).to.be.a('string');
+
+    const response = await getFeed(token).expect(200);
+    expect(response.headers['content-type']).to.contain('text/calendar');
+
+    const ics: string = response.text;
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).to.equal(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).to.have.length(2);
+
+    expect(ics).to.contain('SUMMARY:Room 1\\, Tom');
+    expect(ics).to.contain('DESCRIPTION:Late arrival');
+    // end date of all day events is exclusive
+    expect(ics).to.contain('DTSTART;VALUE=DATE:20240601');
+    expect(ics).to.contain('DTEND;VALUE=DATE:20240604');
+    expect(ics).to.contain('DTSTART;VALUE=DATE:20240605');
+    expect(ics).to.contain('DTEND;VALUE=DATE:20240606');
+
+    // uids are stable between the requests
+    const uids = (ics: string) => ics.match(/^UID:.*$/gm);
+    expect(uids((await getFeed(token).expect(200)).text)).to.deep.equal(
+      uids(ics),
+    );
+  });
+
+  it('Regenerating or revoking the token disables the previous feed url', async () => {
+    const token = await generateToken();
+    const newToken = await generateToken();
+
+    expect(newToken).to.not.equal(token);
+    await getFeed(token).expect(404);
+    await getFeed(newToken).expect(200);
+
+    await request(context.app)
+      .delete(`/api/v2/meta/calendars/${viewId}/feed`)
+      .set('xc-auth', context.token)
+      .expect(200);
+
+    await getFeed(newToken).expect(404);
+
+    const calendar = (
+      await request(context.app)
+        .get(`/api/v2/meta/calendars/${viewId}`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body;
+    expect(calendar.ics_token).to.equal(null);
+  });
+
+  it('Calendar feed is restricted by the row policies of viewer role', async () => {
+    await request(context.app)
+      .post(`/api/v2/meta/tables/${table.id}/row-policies`)
+      .set('xc-auth', context.token)
+      .send({
+        title: 'Only room 2',
+        role: ProjectRoles.VIEWER,
+        filters: [
+          {
+            fk_column_id: columnId('Title'),
+            comparison_op: 'eq',
+            value: 'Room 2',
+          },
+        ],
+      })
+      .expect(200);
+
+    const ics: string = (await getFeed(await generateToken()).expect(200)).text;
+
+    expect(ics.match(/BEGIN:VEVENT/g)).to.have.length(1);
+    expect(ics).to.contain('SUMMARY:Room 2');
+    expect(ics).to.not.contain('Room 1');
+  });
+}
+
+export default function () {
+  describe('CalendarFeed', calendarFeedTests);
+}
@@ -0,0 +1,226 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import { UITypes, ViewTypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { customColumns } from '../../factory/column';
+import { createBulkRows } from '../../factory/row';
+import type { Base, Column, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Calendar view is created with an end date field
+// 2. End date field must be of the same type as the start date field
+// 3. Calendar data list returns the records overlapping the visible window
+
+function calendarRangeTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let columns: Column[];
+
+  const columnId = (title: string) => columns.find((c) => c.title === title).id;
+
+  const createCalendar = async (body: Record<string, any>, status = 200) =>
+    (
+      await request(context.app)
+        .post(`/api/v2/meta/tables/${table.id}/calendars`)
+        .set('xc-auth', context.token)
+        .send({ title: 'Bookings', type: ViewTypes.CALENDAR, ...body })
+        .expect(status)
+    ).body;
+
+  const readCalendar = async (viewId: string) =>
+    (
+      await request(context.app)
+        .get(`/api/v2/meta/calendars/${viewId}`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body;
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Bookings',
+      table_name: 'bookings',
+      columns: customColumns('custom', [
+        {
+          title: 'Title',
+          column_name: 'title',
+          uidt: UITypes.SingleLineText,
+          pv: true,
+        },
+        {
+          title: 'CheckIn',
+          column_name: 'check_in',
+          uidt: UITypes.Date,
+        },
+        {
+          title: 'CheckOut',
+          column_name: 'check_out',
+          uidt: UITypes.Date,
+        },
+        {
+          title: 'BookedAt',
+          column_name: 'booked_at',
+          uidt: UITypes.DateTime,
+        },
+      ]),
+    });
+
+    columns = await table.getColumns({
+      workspace_id: table.fk_workspace_id,
+      base_id: table.base_id,
+    });
+  });
+
+  it('Calendar view is created with an end date field', async () => {
+    const view = await createCalendar({
+      calendar_range: [
+        {
+          fk_from_column_id: columnId('CheckIn'),
+          fk_to_column_id: columnId('CheckOut'),
+        },
+      ],
+    });
+
+    const calendar = await readCalendar(view.id);
+    expect(calendar.calendar_range).to.have.length(1);
+    expect(calendar.calendar_range[0].fk_from_column_id).to.equal(
+      columnId('CheckIn'),
+    );
+    expect(calendar.calendar_range[0].fk_to_column_id).to.equal(
+      columnId('CheckOut'),
+    );
+
+    await request(context.app)
+      .patch(`/api/v2/meta/calendars/${view.id}`)
+      .set('xc-auth', context.token)
+      .send({
+        calendar_range: [
+          { fk_from_column_id: columnId('CheckIn'), fk_to_column_id: null },
+        ],
+      })
+      .expect(200);
+
+    expect(
+      (await readCalendar(view.id)).calendar_range[0].fk_to_column_id,
+    ).to.equal(null);
+  });
+
+  it('End date field must be of the same type as the start date field', async () => {
+    await createCalendar(
+      {
+        calendar_range: [
+          {
+            fk_from_column_id: columnId('CheckIn'),
+            fk_to_column_id: columnId('BookedAt'),
+          },
+        ],
+      },
+      400,
+    );
+
+    await createCalendar(
+      {
+        calendar_range: [
+          {
+            fk_from_column_id: columnId('CheckIn'),
+            fk_to_column_id: columnId('CheckIn'),
+          },
+        ],
+      },
+      400,
+    );
+
+    const view = await createCalendar({
+      calendar_range: [{ fk_from_column_id: columnId('CheckIn') }],
+    });
+
+    await request(context.app)
+      .patch(`/api/v2/meta/calendars/${view.id}`)
+      .set('xc-auth', context.token)
+      .send({
+        calendar_range: [
+          {
+            fk_from_column_id: columnId('CheckIn'),
+            fk_to_column_id: columnId('BookedAt'),
+          },
+        ],
+      })
+      .expect(400);
+  });
+
+  it('Calendar data list returns the records overlapping the visible window', async () => {
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [
+        // starts before and ends within the window
+        { Title: 'Spanning', CheckIn: '2024-05-28', CheckOut: '2024-06-03' },
+        // starts and ends within the window
+        { Title: 'Within', CheckIn: '2024-06-10', CheckOut: '2024-06-12' },
+        // without an end date
+        { Title: 'Single', CheckIn: '2024-06-15' },
+        // covers the whole window
+        { Title: 'Covering', CheckIn: '2024-05-01', CheckOut: '2024-07-31' },
+        // ends before the window
+        { Title: 'Before', CheckIn: '2024-05-01', CheckOut: '2024-05-20' },
+        // starts after the window
+        { Title: 'After', CheckIn: '2024-07-10', CheckOut: '2024-07-12' },
+      ],
+    });
+
+    const view = await createCalendar({
+      calendar_range: [
+        {
+          fk_from_column_id: columnId('CheckIn'),
+          fk_to_column_id: columnId('CheckOut'),
+        },
+      ],
+    });
+
+    const window = {
+      from_date: '2024-06-01',
+      to_date: '2024-06-30',
+      prev_date: '2024-05-31',
+      next_date: '2024-07-01',
+    };
+
+    const response = await request(context.app)
+      .get(
+        `/api/v1/db/calendar-data/noco/${base.id}/${table.id}/views/${view.id}`,
+      )
+      .set('xc-auth', context.token)
+      .query(window)
+      .expect(200);
+
+    expect(response.body.list.map((r) => r.Title).sort()).to.deep.equal([
+      'Covering',
+      'Single',
+      'Spanning',
+      'Within',
+    ]);
+
+    const countResponse = await request(context.app)
+      .get(
+        `/api/v1/db/calendar-data/noco/${base.id}/${table.id}/views/${view.id}/countByDate/`,
+      )
+      .set('xc-auth', context.token)
+      .query(window)
+      .expect(200);
+
+    const days = new Set(
+      countResponse.body.dates.map((date) => date.slice(0, 10)),
+    );
+    expect(days.has('2024-06-02')).to.equal(true);
+    expect(days.has('2024-06-11')).to.equal(true);
+  });
+}
+
+export default function () {
+  describe('CalendarRange', calendarRangeTests);
+}
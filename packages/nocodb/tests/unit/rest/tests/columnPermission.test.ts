@@ -0,0 +1,241 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import { ProjectRoles, UITypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { createColumn } from '../../factory/column';
+import { createBulkRows } from '../../factory/row';
+import { createUser } from '../../factory/user';
+import type { Base, Column, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Hidden column is excluded from data and table meta of the role
+// 2. Read-only column can't be updated by the role
+// 3. Column permissions don't restrict owner
+// 4. Column permissions can't be updated by editor
+// 5. Hidden column can't be filtered, sorted, grouped or aggregated by the role
+// 6. View filters on a hidden column still apply for the role
+// 7. Field permissions set through the v3 api are validated
+
+function columnPermissionTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let salaryColumn: Column;
+  let editorToken: string;
+
+  const updatePermissions = async (permissions: Record<string, string>) =>
+    request(context.app)
+      .patch(`/api/v2/meta/columns/${salaryColumn.id}/permissions`)
+      .set('xc-auth', context.token)
+      .send(permissions)
+      .expect(200);
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+    table = await createTable(context, base);
+
+    salaryColumn = await createColumn(context, table, {
+      title: 'Salary',
+      column_name: 'salary',
+      uidt: UITypes.Number,
+    });
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [{ Title: 'a1', Salary: 100 }],
+    });
+
+    ({ token: editorToken } = await createUser(context, {
+      email: 'editor@example.com',
+    }));
+
+    await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/users`)
+      .set('xc-auth', context.token)
+      .send({ email: 'editor@example.com', roles: ProjectRoles.EDITOR })
+      .expect(200);
+  });
+
+  it('Hidden column is excluded from data and table meta of the role', async () => {
+    const res = await updatePermissions({ [ProjectRoles.EDITOR]: 'hidden' });
+    expect(res.body.permissions).to.deep.eq({ editor: 'hidden' });
+
+    const rows = (
+      await request(context.app)
+        .get(`/api/v1/db/data/noco/${base.id}/${table.id}`)
+        .set('xc-auth', editorToken)
+        .expect(200)
+    ).body.list;
+    expect(rows[0].Title).to.eq('a1');
+    expect(rows[0]).to.not.have.property('Salary');
+
+    const tableMeta = (
+      await request(context.app)
+        .get(`/api/v2/meta/tables/${table.id}`)
+        .set('xc-auth', editorToken)
+        .expect(200)
+    ).body;
+    expect(tableMeta.columns.map((c) => c.title)).to.not.include('Salary');
+  });
+
+  it(`Read-only column can't be updated by the role`, async () => {
+    await updatePermissions({ [ProjectRoles.EDITOR]: 'readonly' });
+
+    await request(context.app)
+      .patch(`/api/v1/db/data/noco/${base.id}/${table.id}/1`)
+      .set('xc-auth', editorToken)
+      .send({ Salary: 200 })
+      .expect(403);
+
+    await request(context.app)
+      .patch(`/api/v1/db/data/noco/${base.id}/${table.id}/1`)
+      .set('xc-auth', editorToken)
+      .send({ Title: 'a2' })
+      .expect(200);
+  });
+
+  it(`Column permissions don't restrict owner`, async () => {
+    await updatePermissions({ [ProjectRoles.EDITOR]: 'hidden' });
+
+    const row = (
+      await request(context.app)
+        .patch(`/api/v1/db/data/noco/${base.id}/${table.id}/1`)
+        .set('xc-auth', context.token)
+        .send({ Salary: 200 })
+        .expect(200)
+    ).body;
+    expect(row.Salary).to.eq(200);
+  });
+
+  it(`Column permissions can't be updated by editor`, async () => {
+    await request(context.app)
+      .patch(`/api/v2/meta/columns/${salaryColumn.id}/permissions`)
+      .set('xc-auth', editorToken)
+      .send({ [ProjectRoles.EDITOR]: 'editable' })
+      .expect(403);
+  });
+
+  it(`Hidden column can't be filtered, sorted, grouped or aggregated by the role`, async () => {
+    await updatePermissions({ [ProjectRoles.EDITOR]: 'hidden' });
+
+    await request(context.app)
+      .get(`/api/v1/db/data/noco/${base.id}/${table.id}`)
+      .set('xc-auth', editorToken)
+      .query({ where: '(Salary,gt,50)' })
+      .expect(403);
+
+    await request(context.app)
+      .get(`/api/v1/db/data/noco/${base.id}/${table.id}`)
+      .set('xc-auth', editorToken)
+      .query({ sort: '-Salary' })
+      .expect(403);
+
+    await request(context.app)
+      .get(`/api/v1/db/data/noco/${base.id}/${table.id}/groupby`)
+      .set('xc-auth', editorToken)
+      .query({ column_name: 'Salary' })
+      .expect(403);
+
+    const [view] = await table.getViews({
+      workspace_id: table.fk_workspace_id,
+      base_id: table.base_id,
+    });
+
+    await request(context.app)
+      .get(`/api/v2/tables/${table.id}/aggregate`)
+      .set('xc-auth', editorToken)
+      .query({
+        viewId: view.id,
+        aggregation: JSON.stringify([{ field: salaryColumn.id, type: 'sum' }]),
+      })
+      .expect(403);
+
+    await request(context.app)
+      .get(`/api/v1/db/data/noco/${base.id}/${table.id}`)
+      .set('xc-auth', context.token)
+      .query({ where: '(Salary,gt,50)', sort: '-Salary' })
+      .expect(200);
+
+    await request(context.app)
+      .get(`/api/v2/tables/${table.id}/aggregate`)
+      .set('xc-auth', context.token)
+      .query({
+        viewId: view.id,
+        aggregation: JSON.stringify([{ field: salaryColumn.id, type: 'sum' }]),
+      })
+      .expect(200);
+  });
+
+  it('View filters on a hidden column still apply for the role', async () => {
+    const [view] = await table.getViews({
+      workspace_id: table.fk_workspace_id,
+      base_id: table.base_id,
+    });
+
+    await request(context.app)
+      .post(`/api/v2/meta/views/${view.id}/filters`)
+      .set('xc-auth', context.token)
+      .send({
+        fk_column_id: salaryColumn.id,
+        comparison_op: 'gt',
+        value: '500',
+      })
+      .expect(200);
+
+    await updatePermissions({ [ProjectRoles.EDITOR]: 'hidden' });
+
+    const rows = (
+      await request(context.app)
+        .get(`/api/v1/db/data/noco/${base.id}/${table.id}/views/${view.id}`)
+        .set('xc-auth', editorToken)
+        .expect(200)
+    ).body.list;
+    expect(rows).to.have.length(0);
+  });
+
+  it('Field permissions set through the v3 api are validated', async () => {
+    const field = (
+      await request(context.app)
+        .post(`/api/v3/meta/bases/${base.id}/tables/${table.id}/fields`)
+        .set('xc-auth', context.token)
+        .send({
+          title: 'Bonus',
+          type: UITypes.Number,
+          permissions: {
+            [ProjectRoles.EDITOR]: 'readonly',
+            [ProjectRoles.VIEWER]: 'editable',
+          },
+        })
+        .expect(200)
+    ).body;
+    // editable is the default, so it is not stored
+    expect(field.permissions).to.deep.eq({ editor: 'readonly' });
+
+    const columns = await table.getColumns({
+      workspace_id: table.fk_workspace_id,
+      base_id: table.base_id,
+    });
+    const pkColumn = columns.find((c) => c.pk);
+
+    await request(context.app)
+      .patch(`/api/v3/meta/bases/${base.id}/fields/${pkColumn.id}`)
+      .set('xc-auth', context.token)
+      .send({ permissions: { [ProjectRoles.EDITOR]: 'hidden' } })
+      .expect(400);
+
+    await request(context.app)
+      .patch(`/api/v3/meta/bases/${base.id}/fields/${salaryColumn.id}`)
+      .set('xc-auth', context.token)
+      .send({ permissions: { [ProjectRoles.EDITOR]: 'invisible' } })
+      .expect(400);
+  });
+}
+
+export default function () {
+  describe('ColumnPermission', columnPermissionTests);
+}
@@ -6,11 +6,18 @@ import init from '../../init';
 import { createProject, createSakilaProject } from '../../factory/base';
 import {
   createColumn,
+  createLtarColumn,
   createQrCodeColumn,
   deleteColumn,
+  updateColumn,
 } from '../../factory/column';
 import { createTable, getColumnsByAPI, getTable } from '../../factory/table';
-import { createBulkRows, listRow, rowMixedValue } from '../../factory/row';
+import {
+  createBulkRows,
+  createChildRow,
+  listRow,
+  rowMixedValue,
+} from '../../factory/row';
 import type Model from '../../../../src/models/Model';
 import type Base from '~/models/Base';
 import type Column from '../../../../src/models/Column';
@@ -20,6 +27,10 @@ import type Column from '../../../../src/models/Column';
 // a. adding a QR code column which references another column
 //   - delivers the same cell values as the referenced column
 //   - gets deleted if the referenced column gets deleted
+// 2. Rollup Column
+//   - aggregates only the linked records matching the filters
+//   - supports median, concat and arrayUnique functions
+//   - replaces the filters on update
 
 function columnTypeSpecificTests() {
   let context;
@@ -533,6 +544,173 @@ function columnTypeSpecificTests() {
       });
     });
   });
+
+  describe('Rollup Column', () => {
+    let invoiceTable: Model;
+    let linkColumn: Column;
+    let amountColumn: Column;
+    let statusColumn: Column;
+
+    const statusFilter = (value: string) => [
+      {
+        fk_column_id: statusColumn.id,
+        comparison_op: 'eq',
+        value,
+      },
+    ];
+
+    const createRollup = async (
+      title: string,
+      rollupFunction: string,
+      rollupColumn: Column,
+      filters?: Record<string, any>[],
+    ) => {
+      await request(context.app)
+        .post(`/api/v1/db/meta/tables/${customerTable.id}/columns`)
+        .set('xc-auth', context.token)
+        .send({
+          title,
+          uidt: UITypes.Rollup,
+          fk_relation_column_id: linkColumn.id,
+          fk_rollup_column_id: rollupColumn.id,
+          rollup_function: rollupFunction,
+          filters,
+        })
+        .expect(200);
+
+      return (await getColumnsByAPI(context, base, customerTable)).columns.find(
+        (c) => c.title === title,
+      );
+    };
+
+    const getCustomer = async () =>
+      (await listRow({ base, table: customerTable }))[0];
+
+    beforeEach(async function () {
+      context = await init();
+      base = await createProject(context);
+
+      customerTable = await createTable(context, base, {
+        table_name: 'customer',
+        title: 'Customer',
+      });
+      invoiceTable = await createTable(context, base, {
+        table_name: 'invoice',
+        title: 'Invoice',
+      });
+      amountColumn = await createColumn(context, invoiceTable, {
+        title: 'Amount',
+        column_name: 'amount',
+        uidt: UITypes.Number,
+      });
+      statusColumn = await createColumn(context, invoiceTable, {
+        title: 'Status',
+        column_name: 'status',
+        uidt: UITypes.SingleLineText,
+      });
+      linkColumn = await createLtarColumn(context, {
+        title: 'Invoices',
+        parentTable: customerTable,
+        childTable: invoiceTable,
+        type: 'hm',
+      });
+
+      await createBulkRows(context, {
+        base,
+        table: customerTable,
+        values: [{ Title: 'c1' }],
+      });
+      await createBulkRows(context, {
+        base,
+        table: invoiceTable,
+        values: [
+          { Title: 'i1', Amount: 10, Status: 'Paid' },
+          { Title: 'i2', Amount: 20, Status: 'Due' },
+          { Title: 'i3', Amount: 40, Status: 'Paid' },
+          { Title: 'i4', Amount: 60, Status: 'Paid' },
+        ],
+      });
+      for (const childRowId of ['1', '2', '3', '4']) {
+        await createChildRow(context, {
+          base,
+          table: customerTable,
+          childTable: invoiceTable,
+          column: linkColumn,
+          rowId: '1',
+          childRowId,
+          type: 'hm',
+        });
+      }
+    });
+
+    it('aggregates only the linked records matching the filters', async () => {
+      await createRollup('Total', 'sum', amountColumn);
+      await createRollup('Paid', 'sum', amountColumn, statusFilter('Paid'));
+      await createRollup('Paid count', 'count', amountColumn, [
+        {
+          is_group: true,
+          logical_op: 'and',
+          children: [
+            ...statusFilter('Paid'),
+            {
+              fk_column_id: amountColumn.id,
+              comparison_op: 'gt',
+              value: '20',
+              logical_op: 'and',
+            },
+          ],
+        },
+      ]);
+
+      const customer = await getCustomer();
+      expect(+customer['Total']).to.equal(130);
+      expect(+customer['Paid']).to.equal(110);
+      expect(+customer['Paid count']).to.equal(2);
+    });
+
+    it('supports median, concat and arrayUnique functions', async () => {
+      await createRollup('Median', 'median', amountColumn);
+      await createRollup('Statuses', 'concat', statusColumn);
+      await createRollup('Unique statuses', 'arrayUnique', statusColumn);
+
+      const customer = await getCustomer();
+      expect(+customer['Median']).to.equal(30);
+      expect(customer['Statuses'].split(', ').sort()).to.deep.equal([
+        'Due',
+        'Paid',
+        'Paid',
+        'Paid',
+      ]);
+      expect(customer['Unique statuses'].split(', ').sort()).to.deep.equal([
+        'Due',
+        'Paid',
+      ]);
+    });
+
+    it('replaces the filters on update', async () => {
+      const rollupColumn = await createRollup(
+        'Amount',
+        'sum',
+        amountColumn,
+        statusFilter('Paid'),
+      );
+
+      await updateColumn(context, {
+        table: customerTable,
+        column: rollupColumn,
+        attr: {
+          title: 'Amount',
+          uidt: UITypes.Rollup,
+          fk_relation_column_id: linkColumn.id,
+          fk_rollup_column_id: amountColumn.id,
+          rollup_function: 'sum',
+          filters: statusFilter('Due'),
+        },
+      });
+
+      expect(+(await getCustomer())['Amount']).to.equal(20);
+    });
+  });
 }
 
 export default function () {
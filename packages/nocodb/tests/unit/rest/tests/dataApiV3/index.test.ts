@@ -4,6 +4,7 @@ export const dataApiV3Test = async () => {
   await import('./get-record.test');
   await import('./post-insert.test');
   await import('./patch-update.test');
+  await import('./put-upsert.test');
   await import('./delete.test');
   await import('./list-and-crud.test');
 };
@@ -32,6 +32,15 @@ export interface INcAxios {
     body?: any;
     status?: number;
   }) => Promise<request.Response>;
+  ncAxiosPut: ({
+    url,
+    body,
+    status,
+  }: {
+    url: string;
+    body?: any;
+    status?: number;
+  }) => Promise<request.Response>;
   ncAxiosDelete: ({
     url,
     body,
@@ -135,6 +144,23 @@ export const ncAxios = (testContext: ITestContext) => {
     return response;
   }
 
+  async function ncAxiosPut({
+    url,
+    body = {},
+    status = 200,
+  }: {
+    url: string;
+    body?: any;
+    status?: number;
+  }) {
+    const response = await request(testContext.context.app)
+      .put(url)
+      .set('xc-auth', testContext.context.token)
+      .send(body);
+    expect(response.status).to.equal(status);
+    return response;
+  }
+
   async function ncAxiosDelete({
     url,
     body = {},
@@ -230,6 +256,7 @@ export const ncAxios = (testContext: ITestContext) => {
     ncAxiosGet,
     ncAxiosPost,
     ncAxiosPatch,
+    ncAxiosPut,
     ncAxiosDelete,
     ncAxiosLinkGet,
     ncAxiosLinkAdd,
@@ -0,0 +1,145 @@
+import { expect } from 'chai';
+import {
+  beforeEachTextBased,
+  beforeEach as dataApiV3BeforeEach,
+} from './beforeEach';
+import { ncAxios } from './ncAxios';
+import type { ITestContext } from './helpers';
+import type { Model } from '../../../../../src/models';
+import type { INcAxios } from './ncAxios';
+
+const API_VERSION = 'v3';
+
+describe('dataApiV3', () => {
+  describe('put-upsert', () => {
+    let testContext: ITestContext;
+    let testAxios: INcAxios;
+    let urlPrefix: string;
+    let ncAxiosGet: INcAxios['ncAxiosGet'];
+    let ncAxiosPost: INcAxios['ncAxiosPost'];
+    let ncAxiosPut: INcAxios['ncAxiosPut'];
+
+    beforeEach(async () => {
+      testContext = await dataApiV3BeforeEach();
+      testAxios = ncAxios(testContext);
+      urlPrefix = `/api/${API_VERSION}/${testContext.base.id}`;
+
+      ncAxiosGet = testAxios.ncAxiosGet;
+      ncAxiosPost = testAxios.ncAxiosPost;
+      ncAxiosPut = testAxios.ncAxiosPut;
+    });
+
+    describe('text-based', () => {
+      let table: Model;
+
+      beforeEach(async function () {
+        const initResult = await beforeEachTextBased(testContext);
+        table = initResult.table;
+      });
+
+      it('Upsert: insert when no record matches', async function () {
+        const rsp = await ncAxiosPut({
+          url: `${urlPrefix}/${table.id}/upsert`,
+          body: {
+            matchFields: ['Email'],
+            records: [{ Email: 'upsert@nocodb.com', SingleLineText: 'new' }],
+          },
+        });
+        expect(rsp.body).to.deep.equal({ created: [{ Id: 401 }], updated: [] });
+      });
+
+      it('Upsert: update matching records and insert the rest', async function () {
+        await ncAxiosPut({
+          url: `${urlPrefix}/${table.id}/upsert`,
+          body: {
+            matchFields: ['Email'],
+            records: { Email: 'upsert@nocodb.com', SingleLineText: 'new' },
+          },
+        });
+
+        const rsp = await ncAxiosPut({
+          url: `${urlPrefix}/${table.id}/upsert`,
+          body: {
+            matchFields: ['Email'],
+            records: [
+              { Email: 'upsert@nocodb.com', SingleLineText: 'updated' },
+              { Email: 'upsert-2@nocodb.com', SingleLineText: 'another' },
+            ],
+          },
+        });
+        expect(rsp.body).to.deep.equal({
+          created: [{ Id: 402 }],
+          updated: [{ Id: 401 }],
+        });
+
+        const record = await ncAxiosGet({
+          url: `${urlPrefix}/${table.id}/401`,
+        });
+        expect(record.body.SingleLineText).to.equal('updated');
+      });
+
+      // Error handling
+
+      it('Upsert: invalid match fields', async function () {
+        // missing match fields
+        await ncAxiosPut({
+          url: `${urlPrefix}/${table.id}/upsert`,
+          body: { records: [{ Email: 'upsert@nocodb.com' }] },
+          status: 400,
+        });
+
+        // unknown field
+        await ncAxiosPut({
+          url: `${urlPrefix}/${table.id}/upsert`,
+          body: {
+            matchFields: ['NotAField'],
+            records: [{ Email: 'upsert@nocodb.com' }],
+          },
+          status: 422,
+        });
+
+        // match value missing in a record
+        await ncAxiosPut({
+          url: `${urlPrefix}/${table.id}/upsert`,
+          body: {
+            matchFields: ['Email'],
+            records: [{ SingleLineText: 'no email' }],
+          },
+          status: 422,
+        });
+
+        // duplicate match values within the request
+        await ncAxiosPut({
+          url: `${urlPrefix}/${table.id}/upsert`,
+          body: {
+            matchFields: ['Email'],
+            records: [
+              { Email: 'upsert@nocodb.com' },
+              { Email: 'upsert@nocodb.com' },
+            ],
+          },
+          status: 400,
+        });
+      });
+
+      it('Upsert: ambiguous match', async function () {
+        await ncAxiosPost({
+          url: `${urlPrefix}/${table.id}`,
+          body: [
+            { SingleLineText: 'duplicate', Email: 'a@nocodb.com' },
+            { SingleLineText: 'duplicate', Email: 'b@nocodb.com' },
+          ],
+        });
+
+        await ncAxiosPut({
+          url: `${urlPrefix}/${table.id}/upsert`,
+          body: {
+            matchFields: ['SingleLineText'],
+            records: [{ SingleLineText: 'duplicate', Email: 'c@nocodb.com' }],
+          },
+          status: 400,
+        });
+      });
+    });
+  });
+});
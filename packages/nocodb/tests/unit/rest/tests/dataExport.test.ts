@@ -0,0 +1,214 @@
+import 'mocha';
+import zlib from 'zlib';
+import { expect } from 'chai';
+import request from 'supertest';
+import { UITypes, ViewTypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { customColumns } from '../../factory/column';
+import { createBulkRows } from '../../factory/row';
+import { createView } from '../../factory/view';
+import { listenForJob } from '../../factory/job';
+import type { Base, Model, View } from '../../../../src/models';
+
+// Test case list
+// 1. Export as JSON writes a typed record per line
+// 2. Export as XLSX writes escaped and typed cells
+// 3. Export as Parquet writes a file with typed columns
+
+const TITLE = 'Tom & "Jerry" <cat>';
+
+// read an entry from the central directory of a zip archive and inflate it
+const readZipEntry = (zip: Buffer, name: string) => {
+  const endRecord = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(endRecord + 10);
+  let offset = zip.readUInt32LE(endRecord + 16);
+
+  for (let i = 0; i < count; i++) {
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const localOffset = zip.readUInt32LE(offset + 42);
+
+    if (zip.toString('utf8', offset + 46, offset + 46 + nameLength) === name) {
+      const dataOffset = localOffset + 30 + zip.readUInt16LE(localOffset + 26);
+      return zlib
+        .inflateRawSync(zip.subarray(dataOffset, dataOffset + compressedSize))
+        .toString();
+    }
+
+    offset += 46 + nameLength;
+  }
+
+  return null;
+};
+
+function dataExportTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let view: View;
+
+  const exportView = async (exportAs: string) => {
+    const jobResponse = await request(context.app)
+      .post(`/api/v2/export/${view.id}/${exportAs}`)
+      .set('xc-auth', context.token)
+      .expect(200);
+
+    const result = await listenForJob({
+      context,
+      base_id: base.id,
+      job_id: jobResponse.body.id,
+    });
+
+    return (
+      await request(context.app)
+        .get(`/${encodeURI(result.url)}`)
+        .set('xc-auth', context.token)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200)
+    ).body as Buffer;
+  };
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Tasks',
+      table_name: 'tasks',
+      columns: customColumns('custom', [
+        {
+          title: 'Title',
+          column_name: 'title',
+          uidt: UITypes.SingleLineText,
+          pv: true,
+        },
+        {
+          title: 'Notes',
+          column_name: 'notes',
+          uidt: UITypes.LongText,
+        },
+        {
+          title: 'Amount',
+          column_name: 'amount',
+          uidt: UITypes.Decimal,
+          meta: { precision: 2 },
+        },
+        {
+          title: 'Done',
+          column_name: 'done',
+          uidt: UITypes.Checkbox,
+        },
+        {
+          title: 'Due',
+          column_name: 'due',
+          uidt: UITypes.Date,
+        },
+      ]),
+    });
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [
+        {
+          Title: TITLE,
+          Notes: 'line 1\nline 2\u0001',
+          Amount: 12.5,
+          Done: true,
+          Due: '2024-01-15',
+        },
+        { Title: 'Empty' },
+      ],
+    });
+
+    view = await createView(context, {
+      title: 'Tasks: 2024/Q1',
+      table,
+      type: ViewTypes.GRID,
+    });
+  });
+
+  it('Export as JSON writes a typed record per line', async () => {
+    const lines = (await exportView('json')).toString().trim().split('\n');
+
+    expect(lines).to.have.length(2);
+
+    const [record, emptyRecord] = lines.map((line) => JSON.parse(line));
+
+    expect(record).to.include({
+      Title: TITLE,
+      Notes: 'line 1\nline 2\u0001',
+      Amount: 12.5,
+      Done: true,
+      Due: '2024-01-15',
+    });
+    expect(emptyRecord).to.include({
+      Title: 'Empty',
+      Notes: null,
+      Amount: null,
+      Due: null,
+    });
+  });
+
+  it('Export as XLSX writes escaped and typed cells', async () => {
+    const xlsx = await exportView('xlsx');
+
+    // sheet name is stripped from characters excel doesn't allow
+    expect(readZipEntry(xlsx, 'xl/workbook.xml')).to.include(
+      '<sheet name="Tasks  2024 Q1"',
+    );
+
+    const styles = readZipEntry(xlsx, 'xl/styles.xml');
+    expect(styles).to.include('formatCode="0.00"');
+    expect(styles).to.include('formatCode="yyyy-mm-dd"');
+
+    const sheet = readZipEntry(xlsx, 'xl/worksheets/sheet1.xml');
+
+    expect(sheet).to.include(
+      '<t xml:space="preserve">Tom &amp; &quot;Jerry&quot; &lt;cat&gt;</t>',
+    );
+    // control characters are not allowed in xml
+    expect(sheet).to.include('<t xml:space="preserve">line 1\nline 2</t>');
+    expect(sheet).to.not.include('\u0001');
+    expect(sheet).to.match(/<c r="[A-Z]+2" s="\d+"><v>12.5<\/v><\/c>/);
+    expect(sheet).to.match(/<c r="[A-Z]+2" t="b"><v>1<\/v><\/c>/);
+    // 2024-01-15 as days since the excel epoch
+    expect(sheet).to.match(/<c r="[A-Z]+2" s="\d+"><v>45306<\/v><\/c>/);
+    expect(sheet).to.include('<t xml:space="preserve">Empty</t>');
+  });
+
+  it('Export as Parquet writes a file with typed columns', async () => {
+    const parquet = await exportView('parquet');
+
+    expect(parquet.subarray(0, 4).toString()).to.equal('PAR1');
+    expect(parquet.subarray(-4).toString()).to.equal('PAR1');
+
+    const metadataLength = parquet.readUInt32LE(parquet.length - 8);
+    const metadata = parquet.subarray(
+      parquet.length - 8 - metadataLength,
+      parquet.length - 8,
+    );
+
+    for (const title of ['Title', 'Notes', 'Amount', 'Done', 'Due']) {
+      expect(metadata.includes(Buffer.from(title))).to.equal(true);
+    }
+
+    // values are stored unescaped and uncompressed
+    expect(parquet.includes(Buffer.from(TITLE))).to.equal(true);
+
+    const amount = Buffer.alloc(8);
+    amount.writeDoubleLE(12.5);
+    expect(parquet.includes(amount)).to.equal(true);
+  });
+}
+
+export default function () {
+  describe('DataExport', dataExportTests);
+}
@@ -4,8 +4,17 @@ import { expect } from 'chai';
 import init from '../../init';
 import { createProject } from '../../factory/base';
 import { createTable } from '../../factory/table';
-import { createBulkRows, listRow, rowMixedValue } from '../../factory/row';
-import { updateColumn } from '../../factory/column';
+import {
+  createBulkRows,
+  createChildRow,
+  listRow,
+  rowMixedValue,
+} from '../../factory/row';
+import {
+  createLookupColumn,
+  createLtarColumn,
+  updateColumn,
+} from '../../factory/column';
 import type Model from '../../../../src/models/Model';
 import type Base from '~/models/Base';
 
@@ -130,6 +139,226 @@ function formulaRegExpBased() {
   });
 }
 
+function formulaDateTimeBased() {
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      table_name: 'sampleTable',
+      title: 'sampleTable',
+      columns: [
+        {
+          column_name: 'Id',
+          title: 'Id',
+          uidt: UITypes.ID,
+        },
+        {
+          column_name: 'Title',
+          title: 'Title',
+          uidt: UITypes.SingleLineText,
+        },
+        {
+          column_name: 'formula',
+          title: 'formula',
+          uidt: UITypes.Formula,
+          formula: '20',
+        },
+      ],
+    });
+
+    columns = await table.getColumns({
+      workspace_id: base.fk_workspace_id,
+      base_id: base.id,
+    });
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [{ Title: 'date' }],
+    });
+  });
+
+  it('Type: DATETIME_FORMAT, DATETIME_PARSE, SET_TIMEZONE, WORKDAY and NETWORKDAYS', async () => {
+    const formulaColumn = columns.find((c) => c.title === 'formula');
+    const formulaList = [
+      [
+        'DATETIME_FORMAT("2024-03-05 14:07:09", "dddd, MMMM D [at] h:mm A")',
+        'Tuesday, March 5 at 2:07 PM',
+      ],
+      [
+        'DATETIME_FORMAT(DATETIME_PARSE("25.12.2024 10:30", "DD.MM.YYYY HH:mm"), "YYYY-MM-DD HH:mm")',
+        '2024-12-25 10:30',
+      ],
+      [
+        'DATETIME_FORMAT(SET_TIMEZONE("2024-07-01 12:00:00", "America/New_York"), "YYYY-MM-DD HH:mm")',
+        '2024-07-01 08:00',
+      ],
+      [
+        'DATETIME_FORMAT(SET_TIMEZONE("2024-01-01 12:00:00", "+05:30"), "YYYY-MM-DD HH:mm")',
+        '2024-01-01 17:30',
+      ],
+      [
+        'DATETIME_FORMAT(WORKDAY("2024-03-01", 3, "2024-03-05, 2024-03-06"), "YYYY-MM-DD")',
+        '2024-03-08',
+      ],
+      [
+        'DATETIME_FORMAT(WORKDAY("2024-03-01", -1), "YYYY-MM-DD")',
+        '2024-02-29',
+      ],
+      ['NETWORKDAYS("2024-03-01", "2024-03-31", "2024-03-05")', 20],
+      ['NETWORKDAYS("2024-03-31", "2024-03-01")', -21],
+    ];
+
+    for (const [formula, expected] of formulaList) {
+      await updateColumn(context, {
+        table,
+        column: formulaColumn,
+        attr: {
+          formula,
+          formula_raw: formula,
+          title: 'formula',
+          uidt: UITypes.Formula,
+        },
+      });
+
+      const records = await listRow({ base, table });
+      if (typeof expected === 'number') {
+        expect(Number(records[0].formula)).to.equal(expected);
+      } else {
+        expect(records[0].formula).to.equal(expected);
+      }
+    }
+  });
+}
+
+function formulaArrayBased() {
+  let taskTable: Model;
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      table_name: 'project',
+      title: 'Project',
+      columns: [
+        {
+          column_name: 'Id',
+          title: 'Id',
+          uidt: UITypes.ID,
+        },
+        {
+          column_name: 'Title',
+          title: 'Title',
+          uidt: UITypes.SingleLineText,
+        },
+        {
+          column_name: 'formula',
+          title: 'formula',
+          uidt: UITypes.Formula,
+          formula: '20',
+        },
+      ],
+    });
+
+    taskTable = await createTable(context, base, {
+      table_name: 'task',
+      title: 'Task',
+      columns: [
+        {
+          column_name: 'Id',
+          title: 'Id',
+          uidt: UITypes.ID,
+        },
+        {
+          column_name: 'Title',
+          title: 'Title',
+          uidt: UITypes.SingleLineText,
+        },
+      ],
+    });
+
+    const tasksColumn = await createLtarColumn(context, {
+      title: 'Tasks',
+      parentTable: table,
+      childTable: taskTable,
+      type: 'hm',
+    });
+
+    await createLookupColumn(context, {
+      base,
+      title: 'TaskTitles',
+      table,
+      relatedTableName: taskTable.table_name,
+      relatedTableColumnTitle: 'Title',
+    });
+
+    columns = await table.getColumns({
+      workspace_id: base.fk_workspace_id,
+      base_id: base.id,
+    });
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [{ Title: 'Project' }],
+    });
+
+    const taskTitles = ['b', 'a', 'b', '', null];
+
+    await createBulkRows(context, {
+      base,
+      table: taskTable,
+      values: taskTitles.map((title) => ({ Title: title })),
+    });
+
+    for (let i = 0; i < taskTitles.length; i++) {
+      await createChildRow(context, {
+        base,
+        table,
+        childTable: taskTable,
+        column: tasksColumn,
+        rowId: '1',
+        childRowId: `${i + 1}`,
+        type: 'hm',
+      });
+    }
+  });
+
+  it('Type: ARRAYJOIN, ARRAYUNIQUE, ARRAYCOMPACT, ARRAYSORT and ARRAYSLICE', async () => {
+    const formulaColumn = columns.find((c) => c.title === 'formula');
+    const formulaList = [
+      ["ARRAYJOIN(ARRAYSORT(ARRAYCOMPACT({TaskTitles})), ' | ')", 'a | b | b'],
+      ['ARRAYJOIN(ARRAYSORT(ARRAYUNIQUE(ARRAYCOMPACT({TaskTitles}))))', 'a, b'],
+      ["ARRAYJOIN(ARRAYSORT(ARRAYCOMPACT({TaskTitles}), 'desc'))", 'b, b, a'],
+      [
+        'ARRAYJOIN(ARRAYSLICE(ARRAYSORT(ARRAYCOMPACT({TaskTitles})), 2, 3))',
+        'b, b',
+      ],
+      ['ARRAYJOIN(ARRAYSLICE(ARRAYSORT(ARRAYCOMPACT({TaskTitles})), 3))', 'b'],
+    ];
+
+    for (const [formula, expected] of formulaList) {
+      await updateColumn(context, {
+        table,
+        column: formulaColumn,
+        attr: {
+          formula,
+          formula_raw: formula,
+          title: 'formula',
+          uidt: UITypes.Formula,
+        },
+      });
+
+      const records = await listRow({ base, table });
+      expect(records[0].formula).to.equal(expected);
+    }
+  });
+}
+
 export default function () {
   describe('Formula: REGEXP based', formulaRegExpBased);
+  describe('Formula: date and time based', formulaDateTimeBased);
+  describe('Formula: array based', formulaArrayBased);
 }
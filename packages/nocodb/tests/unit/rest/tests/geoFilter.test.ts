@@ -0,0 +1,153 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import { UITypes, ViewTypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { customColumns } from '../../factory/column';
+import { createBulkRows } from '../../factory/row';
+import type { Base, Column, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Geo filters match the records within a radius or a bounding box
+// 2. Geo filters are rejected for non GeoData fields
+// 3. Geo clusters count the records of each grid cell of the zoom level
+
+function geoFilterTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let columns: Column[];
+  let viewId: string;
+
+  const columnId = (title: string) => columns.find((c) => c.title === title).id;
+
+  const listTitles = async (where: string) =>
+    (
+      await request(context.app)
+        .get(`/api/v1/db/data/noco/${base.id}/${table.id}`)
+        .set('xc-auth', context.token)
+        .query({ where })
+        .expect(200)
+    ).body.list
+      .map((row) => row.Title)
+      .sort();
+
+  const listClusterCounts = async (query: Record<string, any>) =>
+    (
+      await request(context.app)
+        .get(
+          `/api/v1/db/data/noco/${base.id}/${
+            table.id
+          }/views/${viewId}/geo-clusters/${columnId('Location')}`,
+        )
+        .set('xc-auth', context.token)
+        .query(query)
+        .expect(200)
+    ).body
+      .map((cluster) => cluster.count)
+      .sort();
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Places',
+      table_name: 'places',
+      columns: customColumns('custom', [
+        {
+          title: 'Title',
+          column_name: 'title',
+          uidt: UITypes.SingleLineText,
+          pv: true,
+        },
+        {
+          title: 'Location',
+          column_name: 'location',
+          uidt: UITypes.GeoData,
+        },
+      ]),
+    });
+
+    columns = await table.getColumns({
+      workspace_id: table.fk_workspace_id,
+      base_id: table.base_id,
+    });
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [
+        { Title: 'Berlin', Location: '52.52;13.405' },
+        { Title: 'Potsdam', Location: '52.39;13.06' },
+        { Title: 'Paris', Location: '48.8566;2.3522' },
+        { Title: 'Tokyo', Location: '35.68;139.69' },
+        { Title: 'Nowhere' },
+      ],
+    });
+
+    viewId = (
+      await request(context.app)
+        .post(`/api/v2/meta/tables/${table.id}/maps`)
+        .set('xc-auth', context.token)
+        .send({
+          title: 'Map',
+          type: ViewTypes.MAP,
+          fk_geo_data_col_id: columnId('Location'),
+        })
+        .expect(200)
+    ).body.id;
+  });
+
+  it('Geo filters match the records within a radius or a bounding box', async () => {
+    expect(
+      await listTitles('(Location,withinRadius,52.52;13.405;50)'),
+    ).to.deep.equal(['Berlin', 'Potsdam']);
+    expect(
+      await listTitles('(Location,withinRadius,52.52;13.405;5)'),
+    ).to.deep.equal(['Berlin']);
+
+    expect(
+      await listTitles('(Location,withinBoundingBox,40;-10;60;20)'),
+    ).to.deep.equal(['Berlin', 'Paris', 'Potsdam']);
+    // the box crosses the antimeridian as its west edge is east of its east edge
+    expect(
+      await listTitles('(Location,withinBoundingBox,30;130;40;-170)'),
+    ).to.deep.equal(['Tokyo']);
+  });
+
+  it('Geo filters are rejected for non GeoData fields', async () => {
+    await request(context.app)
+      .get(`/api/v1/db/data/noco/${base.id}/${table.id}`)
+      .set('xc-auth', context.token)
+      .query({ where: '(Title,withinRadius,52.52;13.405;50)' })
+      .expect(400);
+  });
+
+  it('Geo clusters count the records of each grid cell of the zoom level', async () => {
+    expect(await listClusterCounts({ zoom: 0 })).to.deep.equal([1, 3]);
+    expect(await listClusterCounts({ zoom: 10 })).to.deep.equal([1, 1, 1, 1]);
+    expect(
+      await listClusterCounts({
+        zoom: 0,
+        where: '(Location,withinRadius,52.52;13.405;50)',
+      }),
+    ).to.deep.equal([2]);
+
+    await request(context.app)
+      .get(
+        `/api/v1/db/data/noco/${base.id}/${
+          table.id
+        }/views/${viewId}/geo-clusters/${columnId('Location')}`,
+      )
+      .set('xc-auth', context.token)
+      .query({ zoom: 23 })
+      .expect(400);
+  });
+}
+
+export default function () {
+  describe('GeoFilter', geoFilterTests);
+}
@@ -0,0 +1,185 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import { UITypes, ViewTypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { customColumns, deleteColumn } from '../../factory/column';
+import { createBulkRows } from '../../factory/row';
+import type { Base, Column, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Swimlane field and WIP limits are validated on update
+// 2. Grouped data returns the record count of each lane in a stack
+// 3. Deleting the swimlane field clears it from the view
+
+function kanbanSwimlaneTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let columns: Column[];
+  let viewId: string;
+
+  const columnId = (title: string) => columns.find((c) => c.title === title).id;
+
+  const updateKanban = (body: Record<string, any>) =>
+    request(context.app)
+      .patch(`/api/v2/meta/kanbans/${viewId}`)
+      .set('xc-auth', context.token)
+      .send(body);
+
+  const readKanban = async () =>
+    (
+      await request(context.app)
+        .get(`/api/v2/meta/kanbans/${viewId}`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body;
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Tasks',
+      table_name: 'tasks',
+      columns: customColumns('custom', [
+        {
+          title: 'Title',
+          column_name: 'title',
+          uidt: UITypes.SingleLineText,
+          pv: true,
+        },
+        {
+          title: 'Status',
+          column_name: 'status',
+          uidt: UITypes.SingleSelect,
+          dtxp: "'Todo','Doing','Done'",
+        },
+        {
+          title: 'Priority',
+          column_name: 'priority',
+          uidt: UITypes.SingleSelect,
+          dtxp: "'High','Low'",
+        },
+      ]),
+    });
+
+    columns = await table.getColumns({
+      workspace_id: table.fk_workspace_id,
+      base_id: table.base_id,
+    });
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [
+        { Title: 'Task 1', Status: 'Todo', Priority: 'High' },
+        { Title: 'Task 2', Status: 'Todo', Priority: 'High' },
+        { Title: 'Task 3', Status: 'Todo', Priority: 'Low' },
+        { Title: 'Task 4', Status: 'Doing', Priority: 'High' },
+        { Title: 'Task 5', Status: 'Done' },
+        { Title: 'Task 6' },
+      ],
+    });
+
+    viewId = (
+      await request(context.app)
+        .post(`/api/v2/meta/tables/${table.id}/kanbans`)
+        .set('xc-auth', context.token)
+        .send({
+          title: 'Board',
+          type: ViewTypes.KANBAN,
+          fk_grp_col_id: columnId('Status'),
+        })
+        .expect(200)
+    ).body.id;
+  });
+
+  it('Swimlane field and WIP limits are validated on update', async () => {
+    await updateKanban({ fk_swimlane_col_id: columnId('Title') }).expect(400);
+    await updateKanban({ fk_swimlane_col_id: columnId('Status') }).expect(400);
+
+    await updateKanban({
+      meta: {
+        [columnId('Status')]: [{ id: 'uncategorized', wip_limit: -1 }],
+      },
+    }).expect(400);
+    await updateKanban({
+      meta: {
+        [columnId('Status')]: [
+          { id: 'uncategorized', wip_limit: 2, wip_limit_mode: 'ignore' },
+        ],
+      },
+    }).expect(400);
+
+    await updateKanban({
+      fk_swimlane_col_id: columnId('Priority'),
+      meta: {
+        [columnId('Status')]: [
+          { id: 'uncategorized', wip_limit: 2, wip_limit_mode: 'block' },
+        ],
+      },
+    }).expect(200);
+
+    const kanban = await readKanban();
+    expect(kanban.fk_swimlane_col_id).to.equal(columnId('Priority'));
+    expect(kanban.meta[columnId('Status')][0].wip_limit).to.equal(2);
+  });
+
+  it('Grouped data returns the record count of each lane in a stack', async () => {
+    const groupedDataList = async () =>
+      (
+        await request(context.app)
+          .get(
+            `/api/v1/db/data/noco/${base.id}/${
+              table.id
+            }/views/${viewId}/group/${columnId('Status')}`,
+          )
+          .set('xc-auth', context.token)
+          .expect(200)
+      ).body;
+
+    // lanes are counted only if the view has a swimlane field
+    expect((await groupedDataList())[0].lanes).to.equal(undefined);
+
+    await updateKanban({ fk_swimlane_col_id: columnId('Priority') }).expect(
+      200,
+    );
+
+    const stacks = await groupedDataList();
+    const laneCounts = (stackKey: string | null) =>
+      Object.fromEntries(
+        stacks
+          .find((stack) => stack.key === stackKey)
+          .lanes.map((lane) => [lane.key, lane.count]),
+      );
+
+    expect(laneCounts('Todo')).to.deep.equal({ High: 2, Low: 1 });
+    expect(laneCounts('Doing')).to.deep.equal({ High: 1 });
+    expect(laneCounts('Done')).to.deep.equal({ null: 1 });
+    expect(laneCounts(null)).to.deep.equal({ null: 1 });
+
+    const todo = stacks.find((stack) => stack.key === 'Todo');
+    expect(todo.value.pageInfo.totalRows).to.equal(3);
+    expect(todo.value.list[0]).to.have.property('Priority');
+  });
+
+  it('Deleting the swimlane field clears it from the view', async () => {
+    await updateKanban({ fk_swimlane_col_id: columnId('Priority') }).expect(
+      200,
+    );
+
+    await deleteColumn(context, {
+      table,
+      column: columns.find((c) => c.title === 'Priority'),
+    });
+
+    expect((await readKanban()).fk_swimlane_col_id).to.equal(null);
+  });
+}
+
+export default function () {
+  describe('KanbanSwimlane', kanbanSwimlaneTests);
+}
@@ -0,0 +1,187 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import { ProjectRoles, UITypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { customColumns } from '../../factory/column';
+import { createUser } from '../../factory/user';
+import { MCPToken } from '../../../../src/models';
+import type { Base, Model } from '../../../../src/models';
+
+// Test case list
+// 1. MCP token of a base member lists the tables of the base
+// 2. MCP token is rejected once its owner has no access to the base
+// 3. Audit logs tool only reads tables of the token base
+
+function mcpTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let editor;
+  let editorToken: string;
+
+  const columns = customColumns('custom', [
+    {
+      title: 'Title',
+      column_name: 'title',
+      uidt: UITypes.SingleLineText,
+      pv: true,
+    },
+  ]);
+
+  // internal post apis respond with the default 201 status
+  const createMcpToken = async () =>
+    (
+      await request(context.app)
+        .post(`/api/v2/internal/${context.fk_workspace_id ?? 'nc'}/${base.id}`)
+        .query({ operation: 'mcpCreate' })
+        .set('xc-auth', editorToken)
+        .send({ title: 'Agent' })
+        .expect(201)
+    ).body;
+
+  // the server responds with a single server sent event per request
+  const callTool = async (
+    mcpToken: { id: string; token: string },
+    name: string,
+    args: Record<string, any> = {},
+    status = 200,
+  ) => {
+    const res = await request(context.app)
+      .post(`/mcp/${mcpToken.id}`)
+      .set('xc-mcp-token', mcpToken.token)
+      .set('Accept', 'application/json, text/event-stream')
+      .send({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tools/call',
+        params: { name, arguments: args },
+      })
+      .buffer(true)
+      .parse((res, callback) => {
+        let body = '';
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => callback(null, body));
+      })
+      .expect(status);
+
+    if (status !== 200) return res;
+
+    const data = (res.body as string)
+      .split('\n')
+      .find((line) => line.startsWith('data: '));
+
+    return JSON.parse(data.slice('data: '.length)).result;
+  };
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Tasks',
+      table_name: 'tasks',
+      columns,
+    });
+
+    ({ token: editorToken, user: editor } = await createUser(context, {
+      email: 'editor@example.com',
+    }));
+
+    await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/users`)
+      .set('xc-auth', context.token)
+      .send({ email: 'editor@example.com', roles: ProjectRoles.EDITOR })
+      .expect(200);
+  });
+
+  it('MCP token of a base member lists the tables of the base', async () => {
+    const mcpToken = await createMcpToken();
+
+    const result = await callTool(mcpToken, 'getTablesList');
+
+    expect(result.isError).to.not.equal(true);
+    expect(result.content[0].text).to.include(table.id);
+
+    await request(context.app)
+      .post(`/mcp/${mcpToken.id}`)
+      .set('Accept', 'application/json, text/event-stream')
+      .send({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      .expect(401);
+
+    await request(context.app)
+      .post(`/mcp/${mcpToken.id}`)
+      .set('xc-mcp-token', 'invalid')
+      .set('Accept', 'application/json, text/event-stream')
+      .send({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      .expect(404);
+  });
+
+  it('MCP token is rejected once its owner has no access to the base', async () => {
+    const mcpToken = await createMcpToken();
+
+    await request(context.app)
+      .patch(`/api/v2/meta/bases/${base.id}/users/${editor.id}`)
+      .set('xc-auth', context.token)
+      .send({ email: 'editor@example.com', roles: ProjectRoles.NO_ACCESS })
+      .expect(200);
+
+    await callTool(mcpToken, 'getTablesList', {}, 403);
+
+    await request(context.app)
+      .delete(`/api/v2/meta/bases/${base.id}/users/${editor.id}`)
+      .set('xc-auth', context.token)
+      .expect(200);
+
+    // tokens are removed along with the membership
+    await callTool(mcpToken, 'getTablesList', {}, 404);
+
+    // token of a user who isn't a member of the base
+    const outsiderToken = await MCPToken.insert(
+      { workspace_id: base.fk_workspace_id, base_id: base.id },
+      {
+        title: 'Agent',
+        base_id: base.id,
+        fk_workspace_id: base.fk_workspace_id,
+        fk_user_id: editor.id,
+      },
+    );
+
+    await callTool(outsiderToken, 'getTablesList', {}, 403);
+  });
+
+  it('Audit logs tool only reads tables of the token base', async () => {
+    const mcpToken = await createMcpToken();
+
+    // base the editor is not a member of
+    const otherBase = await createProject(context, { title: 'Other' });
+    const otherTable = await createTable(context, otherBase, {
+      title: 'Secrets',
+      table_name: 'secrets',
+      columns,
+    });
+
+    const otherResult = await callTool(mcpToken, 'readAuditLogs', {
+      tableId: otherTable.id,
+      rowId: '1',
+    });
+
+    expect(otherResult.isError).to.equal(true);
+    expect(otherResult.content[0].text).to.equal(
+      `Error: Table "${otherTable.id}" not found`,
+    );
+
+    const result = await callTool(mcpToken, 'readAuditLogs', {
+      tableId: table.id,
+      rowId: '1',
+    });
+
+    expect(result.isError).to.not.equal(true);
+  });
+}
+
+export default function () {
+  describe('Mcp', mcpTests);
+}
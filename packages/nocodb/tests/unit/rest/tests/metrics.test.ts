@@ -0,0 +1,178 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import init from '../../init';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  isMetricsEnabled,
+} from '../../../../src/helpers/metricsHelpers';
+
+// Test case list
+// 1. Metrics are disabled unless enabled with a token
+// 2. Metrics endpoint requires the token
+// 3. Metrics endpoint renders request and queue metrics
+// 4. Metrics are rendered in the Prometheus text format
+
+const METRICS_TOKEN = 'metrics-token';
+
+function metricsTests() {
+  let context;
+
+  let metricsEnabled: string;
+  let metricsToken: string;
+
+  const setEnv = (enabled?: string, token?: string) => {
+    if (enabled === undefined) delete process.env.NC_METRICS_ENABLED;
+    else process.env.NC_METRICS_ENABLED = enabled;
+
+    if (token === undefined) delete process.env.NC_METRICS_TOKEN;
+    else process.env.NC_METRICS_TOKEN = token;
+  };
+
+  before(async function () {
+    metricsEnabled = process.env.NC_METRICS_ENABLED;
+    metricsToken = process.env.NC_METRICS_TOKEN;
+  });
+
+  after(async function () {
+    setEnv(metricsEnabled, metricsToken);
+  });
+
+  beforeEach(async function () {
+    context = await init();
+    setEnv('true', METRICS_TOKEN);
+  });
+
+  it('Metrics are disabled unless enabled with a token', async () => {
+    setEnv(undefined, undefined);
+    expect(isMetricsEnabled()).to.equal(false);
+    await request(context.app).get('/api/v1/metrics').expect(404);
+
+    // the endpoint is not behind user auth, so it's not served without a token
+    setEnv('true', undefined);
+    expect(isMetricsEnabled()).to.equal(false);
+    await request(context.app).get('/api/v1/metrics').expect(404);
+
+    setEnv(undefined, METRICS_TOKEN);
+    expect(isMetricsEnabled()).to.equal(false);
+    await request(context.app)
+      .get('/api/v1/metrics')
+      .set('Authorization', `Bearer ${METRICS_TOKEN}`)
+      .expect(404);
+  });
+
+  it('Metrics endpoint requires the token', async () => {
+    await request(context.app).get('/api/v1/metrics').expect(401);
+
+    await request(context.app)
+      .get('/api/v1/metrics')
+      .set('Authorization', 'Bearer metrics-tokem')
+      .expect(401);
+
+    // user auth doesn't give access to the metrics
+    await request(context.app)
+      .get('/api/v1/metrics')
+      .set('xc-auth', context.token)
+      .expect(401);
+
+    const res = await request(context.app)
+      .get('/api/v1/metrics')
+      .set('Authorization', `Bearer ${METRICS_TOKEN}`)
+      .expect(200);
+
+    expect(res.headers['content-type']).to.include('text/plain');
+  });
+
+  it('Metrics endpoint renders request and queue metrics', async () => {
+    await request(context.app)
+      .get('/api/v1/auth/user/me')
+      .set('xc-auth', context.token)
+      .expect(200);
+
+    await request(context.app)
+      .get('/api/v2/meta/bases/unknown')
+      .set('xc-auth', context.token);
+
+    const metrics = (
+      await request(context.app)
+        .get('/api/v1/metrics')
+        .set('Authorization', `Bearer ${METRICS_TOKEN}`)
+        .expect(200)
+    ).text;
+
+    for (const name of [
+      'nc_http_request_duration_seconds',
+      'nc_http_request_errors_total',
+      'nc_jobs_completed_total',
+      'nc_jobs_failed_total',
+      'nc_jobs_queue_depth',
+      'nc_webhook_deliveries_total',
+      'nc_cache_requests_total',
+      'nc_cache_hit_ratio',
+      'nc_db_pool_connections',
+      'nc_db_pool_max_connections',
+    ]) {
+      expect(metrics).to.include(`# TYPE ${name} `);
+    }
+
+    // series are labeled by the route template, not the requested path
+    expect(metrics).to.match(
+      /nc_http_request_duration_seconds_count\{method="GET",route="\/api\/v1\/auth\/user\/me"\} \d+/,
+    );
+    expect(metrics).to.match(
+      /nc_http_request_errors_total\{method="GET",route="\/api\/v2\/meta\/bases\/:baseId",status="\d{3}"\} \d+/,
+    );
+    expect(metrics).to.not.include('/api/v2/meta/bases/unknown');
+  });
+
+  it('Metrics are rendered in the Prometheus text format', async () => {
+    const counter = new Counter('test_total', 'Test counter');
+    counter.inc({ b: 'x', a: 'quote " slash \\ newline \n' });
+    // labels in a different order belong to the same series
+    counter.inc({ a: 'quote " slash \\ newline \n', b: 'x' }, 2);
+
+    expect(counter.render()).to.equal(
+      [
+        '# HELP test_total Test counter',
+        '# TYPE test_total counter',
+        'test_total{b="x",a="quote \\" slash \\\\ newline \\n"} 3',
+      ].join('\n'),
+    );
+
+    const histogram = new Histogram('test_seconds', 'Test histogram', [1, 5]);
+    histogram.observe({ route: '/' }, 0.5);
+    histogram.observe({ route: '/' }, 3);
+    histogram.observe({ route: '/' }, 10);
+
+    // buckets are cumulative
+    expect(histogram.render().split('\n').slice(2)).to.deep.equal([
+      'test_seconds_bucket{route="/",le="1"} 1',
+      'test_seconds_bucket{route="/",le="5"} 2',
+      'test_seconds_bucket{route="/",le="+Inf"} 3',
+      'test_seconds_sum{route="/"} 13.5',
+      'test_seconds_count{route="/"} 3',
+    ]);
+
+    const gauge = new Gauge('test_gauge', 'Test gauge');
+    gauge.set({ state: 'used' }, 2);
+    gauge.set({ state: 'used' }, 4);
+    expect(gauge.render()).to.include('test_gauge{state="used"} 4');
+
+    gauge.reset();
+    expect(gauge.render()).to.not.include('test_gauge{');
+
+    // nothing is recorded while metrics are disabled
+    setEnv('true', undefined);
+    counter.inc({ a: 'b' });
+    histogram.observe({ route: '/' }, 1);
+
+    expect(counter.values()).to.have.length(1);
+    expect(histogram.render()).to.include('test_seconds_count{route="/"} 3');
+  });
+}
+
+export default function () {
+  describe('Metrics', metricsTests);
+}
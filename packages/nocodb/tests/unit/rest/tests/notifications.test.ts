@@ -0,0 +1,235 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import {
+  AppEvents,
+  NotificationEmailPreference,
+  ProjectRoles,
+  UITypes,
+} from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { customColumns } from '../../factory/column';
+import { createBulkRows } from '../../factory/row';
+import { createUser } from '../../factory/user';
+import { NotificationsService } from '../../../../src/services/notifications/notifications.service';
+import { NotificationDigestProcessor } from '../../../../src/modules/jobs/jobs/notification-digest/notification-digest.processor';
+import { JobStatus, JobTypes } from '../../../../src/interface/Jobs';
+import { MailEvent } from '../../../../src/interface/Mail';
+import { User } from '../../../../src/models';
+import type { Base, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Mentioned base members are notified about the comment
+// 2. Users added to a User field are notified once
+// 3. Notifications of digest users are mailed by a single digest job
+
+function notificationsTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let member: User;
+  let memberToken: string;
+
+  // mention and assignment notifications, without the ones of signup and invite
+  const listRowNotifications = async (token: string) =>
+    (
+      await request(context.app)
+        .get('/api/v1/notifications')
+        .set('xc-auth', token)
+        .expect(200)
+    ).body.list.filter((notification) =>
+      [AppEvents.ROW_USER_MENTION, AppEvents.ROW_USER_ASSIGN].includes(
+        notification.type,
+      ),
+    );
+
+  // notifications are created in the background, so wait for them
+  const listNotifications = async (count: number) => {
+    for (let i = 0; i < 20; i++) {
+      const list = await listRowNotifications(memberToken);
+
+      if (list.length >= count) return list;
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    throw new Error(`Expected ${count} notifications`);
+  };
+
+  const mention = (userId: string) => `@(${userId}|${userId}@example.com|)`;
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Tasks',
+      table_name: 'tasks',
+      columns: customColumns('custom', [
+        {
+          title: 'Title',
+          column_name: 'title',
+          uidt: UITypes.SingleLineText,
+          pv: true,
+        },
+        {
+          title: 'Assignee',
+          column_name: 'assignee',
+          uidt: UITypes.User,
+          meta: { is_multi: true },
+        },
+      ]),
+    });
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [{ Title: 'Task 1' }],
+    });
+
+    ({ token: memberToken, user: member } = await createUser(context, {
+      email: 'member@example.com',
+    }));
+
+    await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/users`)
+      .set('xc-auth', context.token)
+      .send({ email: 'member@example.com', roles: ProjectRoles.EDITOR })
+      .expect(200);
+  });
+
+  it('Mentioned base members are notified about the comment', async () => {
+    const { token: outsiderToken, user: outsider } = await createUser(context, {
+      email: 'outsider@example.com',
+    });
+
+    const comment = (
+      await request(context.app)
+        .post('/api/v2/meta/comments')
+        .set('xc-auth', context.token)
+        .send({
+          fk_model_id: table.id,
+          row_id: '1',
+          // self mention and users without access to the base are skipped
+          comment: `Hey ${mention(member.id)} ${mention(
+            context.user.id,
+          )} ${mention(outsider.id)}`,
+        })
+        .expect(200)
+    ).body;
+
+    const [notification] = await listNotifications(1);
+
+    expect(notification.type).to.equal(AppEvents.ROW_USER_MENTION);
+    expect(notification.body.base.id).to.equal(base.id);
+    expect(notification.body.table).to.deep.equal({
+      id: table.id,
+      title: 'Tasks',
+    });
+    expect(notification.body.rowId).to.equal('1');
+    expect(notification.body.displayValue).to.equal('Task 1');
+    expect(notification.body.comment.id).to.equal(comment.id);
+    expect(notification.body.user.id).to.equal(context.user.id);
+
+    expect(await listRowNotifications(context.token)).to.have.length(0);
+    expect(await listRowNotifications(outsiderToken)).to.have.length(0);
+  });
+
+  it('Users added to a User field are notified once', async () => {
+    const assign = async (Assignee: string) =>
+      await request(context.app)
+        .patch(`/api/v2/tables/${table.id}/records`)
+        .set('xc-auth', context.token)
+        .send([{ Id: 1, Assignee }])
+        .expect(200);
+
+    await assign('member@example.com');
+
+    const [notification] = await listNotifications(1);
+
+    expect(notification.type).to.equal(AppEvents.ROW_USER_ASSIGN);
+    expect(notification.body.rowId).to.equal('1');
+    expect(notification.body.displayValue).to.equal('Task 1');
+    expect(notification.body.column.title).to.equal('Assignee');
+    expect(notification.body.user.id).to.equal(context.user.id);
+
+    // already assigned users and the user who assigns are not notified again
+    await assign(`member@example.com,${context.user.email}`);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    expect(await listNotifications(1)).to.have.length(1);
+  });
+
+  it('Notifications of digest users are mailed by a single digest job', async () => {
+    await User.update(member.id, {
+      meta: { notificationEmail: NotificationEmailPreference.DIGEST },
+    });
+
+    const listeners = {};
+    const sentMails = [];
+    const jobs = [];
+
+    const mailService = {
+      getAdapter: async () => ({}),
+      sendMail: async (mail) => sentMails.push(mail),
+    };
+
+    const notificationsService = new NotificationsService(
+      {
+        on: (event, listener) => (listeners[event] = listener),
+      } as any,
+      mailService as any,
+      {
+        add: async (name, data, options) => jobs.push({ name, data, options }),
+        // a digest is pending once the first one is added
+        jobStatus: async () => (jobs.length ? JobStatus.DELAYED : null),
+      } as any,
+    );
+    notificationsService.onModuleInit();
+
+    for (const comment of ['First', 'Second']) {
+      await listeners[AppEvents.ROW_USER_MENTION]({
+        context: { workspace_id: base.fk_workspace_id, base_id: base.id },
+        model: table,
+        rowId: '1',
+        user: context.user,
+        comment: { id: comment, comment },
+        mentions: [member.id],
+        req: { ncSiteUrl: 'http://localhost:8080' },
+      });
+    }
+
+    // digest users don't get an instant mail
+    expect(sentMails).to.have.length(0);
+    expect(jobs).to.have.length(1);
+    expect(jobs[0].name).to.equal(JobTypes.NotificationDigest);
+    expect(jobs[0].data.user.id).to.equal(member.id);
+    expect(jobs[0].options.jobId).to.equal(`notification-digest-${member.id}`);
+    expect(jobs[0].options.delay).to.equal(24 * 60 * 60 * 1000);
+
+    const processor = new NotificationDigestProcessor(mailService as any);
+
+    await processor.job({ data: jobs[0].data } as any);
+
+    expect(sentMails).to.have.length(1);
+    expect(sentMails[0].mailEvent).to.equal(MailEvent.NOTIFICATION_DIGEST);
+    expect(sentMails[0].payload.user.id).to.equal(member.id);
+    expect(
+      sentMails[0].payload.notifications.map(({ body }) => body.comment.id),
+    ).to.have.members(['First', 'Second']);
+
+    // no digest once the user opts out
+    await User.update(member.id, {
+      meta: { notificationEmail: NotificationEmailPreference.INSTANT },
+    });
+    await processor.job({ data: jobs[0].data } as any);
+
+    expect(sentMails).to.have.length(1);
+  });
+}
+
+export default function () {
+  describe('Notifications', notificationsTests);
+}
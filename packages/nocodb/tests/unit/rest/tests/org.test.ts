@@ -136,7 +136,8 @@ function authTests() {
 
     expect(response.body).to.have.keys(['list', 'pageInfo']);
     expect(response.body.list).to.have.length(1);
-    expect(response.body.list[0]).to.have.property('token').to.be.a('string');
+    expect(r.body).to.have.property('token').to.be.a('string');
+    expect(response.body.list[0]).to.not.have.property('token');
     expect(response.body.list[0])
       .to.have.property('description')
       .to.be.a('string')
@@ -159,7 +160,7 @@ function authTests() {
     expect(response.body.list).to.have.length(1);
 
     await request(context.app)
-      .delete('/api/v1/db/tokens/' + r.body.token)
+      .delete('/api/v1/db/tokens/' + r.body.id)
       .set('xc-auth', context.token)
       .expect(200);
 
@@ -0,0 +1,240 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import { AppEvents, ProjectRoles, UITypes, ViewTypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { customColumns } from '../../factory/column';
+import { createView } from '../../factory/view';
+import { createUser } from '../../factory/user';
+import { SocketGateway } from '../../../../src/gateways/socket.gateway';
+import type { Base, Model, View } from '../../../../src/models';
+
+// Test case list
+// 1. Users only subscribe to tables with a view visible to their role
+// 2. Changes are sent with the row ids visible by the row policy of the user
+
+function realtimeTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let gridView: View;
+  let editor;
+
+  let gateway: SocketGateway;
+  // sockets in the room of the table along with the events sent to them
+  let sockets: {
+    id: string;
+    handshake: { user: Record<string, any> };
+    data: Record<string, any>;
+    events: { event: string; payload: any }[];
+    emit: (event: string, payload: any) => void;
+  }[];
+
+  const socketOf = (user: Record<string, any>) => {
+    const socket = {
+      id: `socket${sockets.length + 1}`,
+      handshake: { user },
+      data: {},
+      events: [],
+      emit: (event, payload) => socket.events.push({ event, payload }),
+    };
+    sockets.push(socket);
+    return socket;
+  };
+
+  const canSubscribe = (socket, viewId?: string) =>
+    gateway['canSubscribe'](socket as any, {
+      baseId: base.id,
+      tableId: table.id,
+      viewId,
+    });
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Tasks',
+      table_name: 'tasks',
+      columns: customColumns('custom', [
+        {
+          title: 'Title',
+          column_name: 'title',
+          uidt: UITypes.SingleLineText,
+          pv: true,
+        },
+        {
+          title: 'Status',
+          column_name: 'status',
+          uidt: UITypes.SingleLineText,
+        },
+      ]),
+    });
+
+    gridView = await createView(context, {
+      title: 'Open tasks',
+      table,
+      type: ViewTypes.GRID,
+    });
+
+    ({ user: editor } = await createUser(context, {
+      email: 'editor@example.com',
+    }));
+
+    await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/users`)
+      .set('xc-auth', context.token)
+      .send({ email: 'editor@example.com', roles: ProjectRoles.EDITOR })
+      .expect(200);
+
+    sockets = [];
+
+    gateway = new SocketGateway(
+      {} as any,
+      {} as any,
+      { onAll: () => () => {} } as any,
+      {} as any,
+    );
+    gateway.server = {
+      in: () => ({ fetchSockets: async () => sockets }),
+      to: () => ({
+        emit: () => {},
+        except: () => ({ emit: () => {} }),
+      }),
+    } as any;
+  });
+
+  it('Users only subscribe to tables with a view visible to their role', async () => {
+    const views = (
+      await request(context.app)
+        .get(`/api/v2/meta/tables/${table.id}/views`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body.list;
+    const defaultView = views.find((view) => view.id !== gridView.id);
+
+    const hideViews = async (viewIds: string[]) =>
+      await request(context.app)
+        .post(`/api/v2/meta/bases/${base.id}/visibility-rules`)
+        .set('xc-auth', context.token)
+        .send(
+          views.map((view) => ({
+            id: view.id,
+            disabled: { [ProjectRoles.EDITOR]: viewIds.includes(view.id) },
+          })),
+        )
+        .expect(200);
+
+    await hideViews([defaultView.id]);
+
+    const editorSocket = socketOf({ id: editor.id });
+
+    expect(await canSubscribe(editorSocket)).to.equal(true);
+    expect(await canSubscribe(editorSocket, gridView.id)).to.equal(true);
+    expect(await canSubscribe(editorSocket, defaultView.id)).to.equal(false);
+
+    await hideViews([defaultView.id, gridView.id]);
+
+    expect(await canSubscribe(editorSocket)).to.equal(false);
+    expect(await canSubscribe(editorSocket, gridView.id)).to.equal(false);
+
+    // visibility rules of the editor don't apply to the owner
+    expect(await canSubscribe(socketOf({ id: context.user.id }))).to.equal(
+      true,
+    );
+  });
+
+  it('Changes are sent with the row ids visible by the row policy of the user', async () => {
+    const statusColumn = (
+      await table.getColumns({
+        workspace_id: base.fk_workspace_id,
+        base_id: base.id,
+      })
+    ).find((c) => c.title === 'Status');
+
+    await request(context.app)
+      .post(`/api/v2/meta/tables/${table.id}/row-policies`)
+      .set('xc-auth', context.token)
+      .send({
+        title: 'Only open tasks',
+        role: ProjectRoles.EDITOR,
+        filters: [
+          {
+            fk_column_id: statusColumn.id,
+            comparison_op: 'eq',
+            value: 'Open',
+          },
+        ],
+      })
+      .expect(200);
+
+    const ownerSocket = socketOf({ id: context.user.id });
+    const editorSocket = socketOf({ id: editor.id });
+    const clientSocket = socketOf({ id: context.user.id });
+
+    for (const socket of sockets) {
+      expect(await canSubscribe(socket)).to.equal(true);
+    }
+
+    const broadcast = async (
+      event: AppEvents,
+      rows: Record<string, any>[],
+      prevRows?: Record<string, any>[],
+    ) => {
+      for (const socket of sockets) socket.events = [];
+
+      await gateway['broadcast'](event, {
+        context: { workspace_id: base.fk_workspace_id, base_id: base.id },
+        table,
+        user: context.user,
+        rows,
+        prevRows,
+        clientId: clientSocket.id,
+      });
+    };
+
+    await broadcast(AppEvents.DATA_UPDATE, [
+      { Id: 1, Title: 'Task 1', Status: 'Open' },
+      { Id: 2, Title: 'Task 2', Status: 'Closed' },
+    ]);
+
+    expect(ownerSocket.events).to.deep.equal([
+      {
+        event: 'data:change',
+        payload: {
+          action: AppEvents.DATA_UPDATE,
+          tableId: table.id,
+          viewId: undefined,
+          userId: context.user.id,
+          rowIds: ['1', '2'],
+        },
+      },
+    ]);
+    expect(editorSocket.events[0].payload.rowIds).to.deep.equal(['1']);
+    // the socket which made the change is skipped
+    expect(clientSocket.events).to.have.length(0);
+
+    // rows which moved out of the policy are sent so that they get removed
+    await broadcast(
+      AppEvents.DATA_UPDATE,
+      [{ Id: 3, Title: 'Task 3', Status: 'Closed' }],
+      [{ Id: 3, Title: 'Task 3', Status: 'Open' }],
+    );
+
+    expect(editorSocket.events[0].payload.rowIds).to.deep.equal(['3']);
+
+    // nothing is sent when none of the rows are visible
+    await broadcast(AppEvents.DATA_DELETE, [
+      { Id: 4, Title: 'Task 4', Status: 'Closed' },
+    ]);
+
+    expect(ownerSocket.events).to.have.length(1);
+    expect(editorSocket.events).to.have.length(0);
+  });
+}
+
+export default function () {
+  describe('Realtime', realtimeTests);
+}
@@ -0,0 +1,211 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import { ProjectRoles, UITypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { customColumns } from '../../factory/column';
+import { createUser } from '../../factory/user';
+import type { Base, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Revisions rebuild the field values of the record at each change
+// 2. Restoring a revision reverts the whole record and is audited
+// 3. Restoring a single field keeps the other fields as they are
+// 4. Hidden fields are left out of the revisions and restores of the role
+
+function recordRevisionsTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+
+  const updateRecord = async (data: Record<string, any>) =>
+    await request(context.app)
+      .patch(`/api/v2/tables/${table.id}/records`)
+      .set('xc-auth', context.token)
+      .send({ Id: 1, ...data })
+      .expect(200);
+
+  const listRevisions = async () =>
+    (
+      await request(context.app)
+        .get(`/api/v2/tables/${table.id}/records/1/revisions`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body;
+
+  const readRecord = async () =>
+    (
+      await request(context.app)
+        .get(`/api/v2/tables/${table.id}/records/1`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body;
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Tasks',
+      table_name: 'tasks',
+      columns: customColumns('custom', [
+        {
+          title: 'Title',
+          column_name: 'title',
+          uidt: UITypes.SingleLineText,
+        },
+        {
+          title: 'Notes',
+          column_name: 'notes',
+          uidt: UITypes.LongText,
+        },
+      ]),
+    });
+
+    await request(context.app)
+      .post(`/api/v2/tables/${table.id}/records`)
+      .set('xc-auth', context.token)
+      .send({ Title: 'First', Notes: 'a' })
+      .expect(200);
+
+    await updateRecord({ Title: 'Second' });
+    await updateRecord({ Title: 'Third', Notes: 'b' });
+  });
+
+  it('Revisions rebuild the field values of the record at each change', async () => {
+    const { list, pageInfo } = await listRevisions();
+
+    expect(pageInfo.totalRows).to.equal(3);
+    expect(list.map((r) => r.op_type)).to.deep.equal([
+      'DATA_UPDATE',
+      'DATA_UPDATE',
+      'DATA_INSERT',
+    ]);
+    expect(list.map((r) => [r.data.Title, r.data.Notes])).to.deep.equal([
+      ['Third', 'b'],
+      ['Second', 'a'],
+      ['First', 'a'],
+    ]);
+    expect(list[0].restorable_fields).to.deep.equal([]);
+    expect(list[1].modifications).to.deep.equal({
+      Title: { previous: 'First', next: 'Second' },
+    });
+    expect(list[2].restorable_fields).to.have.members(['Title', 'Notes']);
+    expect(list[2].current_data).to.deep.equal({ Title: 'Third', Notes: 'b' });
+  });
+
+  it('Restoring a revision reverts the whole record and is audited', async () => {
+    const { list } = await listRevisions();
+
+    const res = await request(context.app)
+      .post(
+        `/api/v2/tables/${table.id}/records/1/revisions/${list[2].id}/restore`,
+      )
+      .set('xc-auth', context.token)
+      .send({})
+      .expect(200);
+
+    expect(res.body.Title).to.equal('First');
+    expect(res.body.Notes).to.equal('a');
+
+    const { list: revisions } = await listRevisions();
+    expect(revisions).to.have.length(4);
+    expect(revisions[0].op_type).to.equal('DATA_UPDATE');
+    expect(revisions[0].modifications).to.deep.equal({
+      Title: { previous: 'Third', next: 'First' },
+      Notes: { previous: 'b', next: 'a' },
+    });
+
+    await request(context.app)
+      .post(
+        `/api/v2/tables/${table.id}/records/1/revisions/${revisions[0].id}/restore`,
+      )
+      .set('xc-auth', context.token)
+      .send({})
+      .expect(400);
+  });
+
+  it('Restoring a single field keeps the other fields as they are', async () => {
+    const { list } = await listRevisions();
+
+    await request(context.app)
+      .post(
+        `/api/v2/tables/${table.id}/records/1/revisions/${list[1].id}/restore`,
+      )
+      .set('xc-auth', context.token)
+      .send({ fields: ['Title'] })
+      .expect(200);
+
+    const record = await readRecord();
+    expect(record.Title).to.equal('Second');
+    expect(record.Notes).to.equal('b');
+
+    await request(context.app)
+      .post(
+        `/api/v2/tables/${table.id}/records/1/revisions/${list[1].id}/restore`,
+      )
+      .set('xc-auth', context.token)
+      .send({ fields: ['Id'] })
+      .expect(400);
+  });
+
+  it('Hidden fields are left out of the revisions and restores of the role', async () => {
+    const { token: editorToken } = await createUser(context, {
+      email: 'editor@example.com',
+    });
+
+    await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/users`)
+      .set('xc-auth', context.token)
+      .send({ email: 'editor@example.com', roles: ProjectRoles.EDITOR })
+      .expect(200);
+
+    const notesColumn = (
+      await table.getColumns({
+        workspace_id: table.fk_workspace_id,
+        base_id: table.base_id,
+      })
+    ).find((c) => c.title === 'Notes');
+
+    await request(context.app)
+      .patch(`/api/v2/meta/columns/${notesColumn.id}/permissions`)
+      .set('xc-auth', context.token)
+      .send({ [ProjectRoles.EDITOR]: 'hidden' })
+      .expect(200);
+
+    const { list } = (
+      await request(context.app)
+        .get(`/api/v2/tables/${table.id}/records/1/revisions`)
+        .set('xc-auth', editorToken)
+        .expect(200)
+    ).body;
+
+    expect(list.map((r) => r.data)).to.deep.equal([
+      { Title: 'Third' },
+      { Title: 'Second' },
+      { Title: 'First' },
+    ]);
+    expect(list[0].modifications).to.deep.equal({
+      Title: { previous: 'Second', next: 'Third' },
+    });
+    expect(list[2].restorable_fields).to.deep.equal(['Title']);
+
+    await request(context.app)
+      .post(
+        `/api/v2/tables/${table.id}/records/1/revisions/${list[2].id}/restore`,
+      )
+      .set('xc-auth', editorToken)
+      .send({})
+      .expect(200);
+
+    const record = await readRecord();
+    expect(record.Title).to.equal('First');
+    expect(record.Notes).to.equal('b');
+  });
+}
+
+export default function () {
+  describe('RecordRevisions', recordRevisionsTests);
+}
@@ -0,0 +1,353 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import { ProjectRoles, UITypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { createBulkRows } from '../../factory/row';
+import { createLtarColumn, customColumns } from '../../factory/column';
+import { createUser } from '../../factory/user';
+import type { Base, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Deleted record is listed in the trash of the base
+// 2. Restore inserts the record back and relinks mm and hm records
+// 3. Bulk deleted records are listed per table and can be deleted permanently
+// 4. Records deleted by a filter are listed in the trash along with their links
+// 5. Records can't be deleted permanently by editor
+// 6. Trash of editor is restricted by row policies and column permissions
+
+function recordTrashTests() {
+  let context;
+  let base: Base;
+  let tblActor: Model;
+  let tblFilm: Model;
+  let tblCountry: Model;
+  let tblCity: Model;
+  let filmsColumnId: string;
+  let citiesColumnId: string;
+
+  const createTitledTable = async (title: string, count: number) => {
+    const columns = customColumns('custom', [
+      {
+        title,
+        column_name: title,
+        uidt: 'SingleLineText',
+      },
+    ]);
+
+    const table = await createTable(context, base, {
+      title,
+      table_name: title,
+      columns,
+    });
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: Array.from({ length: count }, (_, i) => ({
+        [title]: `${title} ${i + 1}`,
+      })),
+    });
+
+    return table;
+  };
+
+  const listTrash = async (query: Record<string, string> = {}) =>
+    (
+      await request(context.app)
+        .get(`/api/v2/meta/bases/${base.id}/trash`)
+        .set('xc-auth', context.token)
+        .query(query)
+        .expect(200)
+    ).body;
+
+  const listLinks = async (tableId: string, linkId: string, rowId: number) =>
+    (
+      await request(context.app)
+        .get(`/api/v2/tables/${tableId}/links/${linkId}/records/${rowId}`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body.list;
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    tblActor = await createTitledTable('Actor', 3);
+    tblFilm = await createTitledTable('Film', 3);
+    tblCountry = await createTitledTable('Country', 2);
+    tblCity = await createTitledTable('City', 3);
+
+    filmsColumnId = (
+      await createLtarColumn(context, {
+        title: 'Films',
+        parentTable: tblActor,
+        childTable: tblFilm,
+        type: 'mm',
+      })
+    ).id;
+
+    citiesColumnId = (
+      await createLtarColumn(context, {
+        title: 'Cities',
+        parentTable: tblCountry,
+        childTable: tblCity,
+        type: 'hm',
+      })
+    ).id;
+
+    await request(context.app)
+      .post(`/api/v2/tables/${tblActor.id}/links/${filmsColumnId}/records/1`)
+      .set('xc-auth', context.token)
+      .send([{ Id: 1 }, { Id: 2 }])
+      .expect(201);
+
+    await request(context.app)
+      .post(`/api/v2/tables/${tblCountry.id}/links/${citiesColumnId}/records/1`)
+      .set('xc-auth', context.token)
+      .send([{ Id: 1 }, { Id: 2 }])
+      .expect(201);
+  });
+
+  it('Deleted record is listed in the trash of the base', async () => {
+    await request(context.app)
+      .delete(`/api/v1/db/data/noco/${base.id}/${tblActor.id}/1`)
+      .set('xc-auth', context.token)
+      .expect(200);
+
+    const { list, pageInfo } = await listTrash();
+
+    expect(pageInfo.totalRows).to.equal(1);
+    expect(list[0].fk_model_id).to.equal(tblActor.id);
+    expect(`${list[0].row_id}`).to.equal('1');
+    expect(list[0].display_value).to.equal('Actor 1');
+    expect(list[0].deleted_by_email).to.equal(context.user.email);
+    expect(list[0].links).to.deep.equal([
+      { fk_column_id: filmsColumnId, type: 'mm', ids: [1, 2] },
+    ]);
+  });
+
+  it('Restore inserts the record back and relinks mm and hm records', async () => {
+    await request(context.app)
+      .delete(`/api/v1/db/data/noco/${base.id}/${tblActor.id}/1`)
+      .set('xc-auth', context.token)
+      .expect(200);
+
+    await request(context.app)
+      .delete(`/api/v2/tables/${tblCountry.id}/records`)
+      .set('xc-auth', context.token)
+      .send([{ Id: 1 }])
+      .expect(200);
+
+    const actorsColumnId = (
+      await tblFilm.getColumns({
+        workspace_id: tblFilm.fk_workspace_id,
+        base_id: tblFilm.base_id,
+      })
+    ).find((c) => c.uidt === UITypes.Links).id;
+
+    expect(await listLinks(tblFilm.id, actorsColumnId, 1)).to.have.length(0);
+
+    const { list } = await listTrash();
+    expect(list).to.have.length(2);
+
+    for (const entry of list) {
+      await request(context.app)
+        .post(`/api/v2/meta/bases/${base.id}/trash/${entry.id}/restore`)
+        .set('xc-auth', context.token)
+        .expect(200);
+    }
+
+    const actor = (
+      await request(context.app)
+        .get(`/api/v2/tables/${tblActor.id}/records/1`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body;
+    expect(actor.Actor).to.equal('Actor 1');
+
+    expect(
+      (await listLinks(tblActor.id, filmsColumnId, 1)).map((r) => r.Id),
+    ).to.deep.equal([1, 2]);
+    expect(
+      (await listLinks(tblCountry.id, citiesColumnId, 1)).map((r) => r.Id),
+    ).to.deep.equal([1, 2]);
+
+    expect((await listTrash()).list).to.have.length(0);
+  });
+
+  it('Bulk deleted records are listed per table and can be deleted permanently', async () => {
+    await request(context.app)
+      .delete(`/api/v2/tables/${tblFilm.id}/records`)
+      .set('xc-auth', context.token)
+      .send([{ Id: 2 }, { Id: 3 }])
+      .expect(200);
+
+    await request(context.app)
+      .delete(`/api/v2/tables/${tblCity.id}/records`)
+      .set('xc-auth', context.token)
+      .send([{ Id: 3 }])
+      .expect(200);
+
+    const { list } = await listTrash({ fk_model_id: tblFilm.id });
+    expect(list.map((r) => r.display_value).sort()).to.deep.equal([
+      'Film 2',
+      'Film 3',
+    ]);
+
+    await request(context.app)
+      .delete(`/api/v2/meta/bases/${base.id}/trash/${list[0].id}`)
+      .set('xc-auth', context.token)
+      .expect(200);
+
+    expect((await listTrash({ fk_model_id: tblFilm.id })).list).to.have.length(
+      1,
+    );
+    expect((await listTrash()).list).to.have.length(2);
+  });
+
+  it('Records deleted by a filter are listed in the trash along with their links', async () => {
+    await request(context.app)
+      .delete(`/api/v1/db/data/bulk/noco/${base.id}/${tblActor.id}/all`)
+      .set('xc-auth', context.token)
+      .query({ where: '(Actor,eq,Actor 1)' })
+      .expect(200);
+
+    const { list, pageInfo } = await listTrash();
+
+    expect(pageInfo.totalRows).to.equal(1);
+    expect(list[0].display_value).to.equal('Actor 1');
+    expect(list[0].links).to.deep.equal([
+      { fk_column_id: filmsColumnId, type: 'mm', ids: [1, 2] },
+    ]);
+  });
+
+  it("Records can't be deleted permanently by editor", async () => {
+    const { token: editorToken } = await createUser(context, {
+      email: 'editor@example.com',
+    });
+
+    await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/users`)
+      .set('xc-auth', context.token)
+      .send({ email: 'editor@example.com', roles: ProjectRoles.EDITOR })
+      .expect(200);
+
+    await request(context.app)
+      .delete(`/api/v1/db/data/noco/${base.id}/${tblActor.id}/2`)
+      .set('xc-auth', editorToken)
+      .expect(200);
+
+    const { list } = (
+      await request(context.app)
+        .get(`/api/v2/meta/bases/${base.id}/trash`)
+        .set('xc-auth', editorToken)
+        .expect(200)
+    ).body;
+    expect(list).to.have.length(1);
+
+    await request(context.app)
+      .delete(`/api/v2/meta/bases/${base.id}/trash/${list[0].id}`)
+      .set('xc-auth', editorToken)
+      .expect(403);
+  });
+
+  it('Trash of editor is restricted by row policies and column permissions', async () => {
+    const { token: editorToken } = await createUser(context, {
+      email: 'editor@example.com',
+    });
+
+    await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/users`)
+      .set('xc-auth', context.token)
+      .send({ email: 'editor@example.com', roles: ProjectRoles.EDITOR })
+      .expect(200);
+
+    const actorColumn = (
+      await tblActor.getColumns({
+        workspace_id: tblActor.fk_workspace_id,
+        base_id: tblActor.base_id,
+      })
+    ).find((c) => c.title === 'Actor');
+
+    await request(context.app)
+      .post(`/api/v2/meta/tables/${tblActor.id}/row-policies`)
+      .set('xc-auth', context.token)
+      .send({
+        title: 'Only actor 1',
+        role: ProjectRoles.EDITOR,
+        filters: [
+          {
+            fk_column_id: actorColumn.id,
+            comparison_op: 'eq',
+            value: 'Actor 1',
+          },
+        ],
+      })
+      .expect(200);
+
+    await request(context.app)
+      .patch(`/api/v2/meta/columns/${actorColumn.id}/permissions`)
+      .set('xc-auth', context.token)
+      .send({ [ProjectRoles.EDITOR]: 'hidden' })
+      .expect(200);
+
+    for (const rowId of [1, 2]) {
+      await request(context.app)
+        .delete(`/api/v1/db/data/noco/${base.id}/${tblActor.id}/${rowId}`)
+        .set('xc-auth', context.token)
+        .expect(200);
+    }
+
+    const { list, pageInfo } = (
+      await request(context.app)
+        .get(`/api/v2/meta/bases/${base.id}/trash`)
+        .set('xc-auth', editorToken)
+        .expect(200)
+    ).body;
+    expect(pageInfo.totalRows).to.equal(1);
+    expect(`${list[0].row_id}`).to.equal('1');
+    expect(list[0].display_value).to.equal(null);
+    expect(list[0].data).to.not.have.property('Actor');
+
+    // pages are taken from the accessible entries
+    await request(context.app)
+      .delete(`/api/v1/db/data/noco/${base.id}/${tblFilm.id}/3`)
+      .set('xc-auth', context.token)
+      .expect(200);
+
+    const pages = [];
+    for (const offset of [0, 1]) {
+      pages.push(
+        (
+          await request(context.app)
+            .get(`/api/v2/meta/bases/${base.id}/trash`)
+            .set('xc-auth', editorToken)
+            .query({ limit: 1, offset })
+            .expect(200)
+        ).body,
+      );
+    }
+    expect(pages.map((page) => page.pageInfo.totalRows)).to.deep.equal([2, 2]);
+    expect(
+      pages
+        .map((page) => `${page.list[0].fk_model_id}:${page.list[0].row_id}`)
+        .sort(),
+    ).to.deep.equal([`${tblActor.id}:1`, `${tblFilm.id}:3`].sort());
+
+    const hiddenEntry = (await listTrash()).list.find(
+      (entry) => `${entry.row_id}` === '2',
+    );
+
+    await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/trash/${hiddenEntry.id}/restore`)
+      .set('xc-auth', editorToken)
+      .expect(404);
+  });
+}
+
+export default function () {
+  describe('RecordTrash', recordTrashTests);
+}
@@ -0,0 +1,143 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import { ProjectRoles } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable, getColumnsByAPI } from '../../factory/table';
+import { createBulkRows } from '../../factory/row';
+import { createUser } from '../../factory/user';
+import type { Base, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Row policy restricts list and read of the role
+// 2. Row policy doesn't restrict owner
+// 3. Disabled row policy doesn't restrict rows
+// 4. Row policy restricts update and delete of the role
+// 5. Row policy can't be managed by editor
+
+function rowPolicyTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let editorToken: string;
+  let rowPolicy;
+
+  const listRows = async (token: string) =>
+    (
+      await request(context.app)
+        .get(`/api/v1/db/data/noco/${base.id}/${table.id}`)
+        .set('xc-auth', token)
+        .expect(200)
+    ).body.list;
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+    table = await createTable(context, base);
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [{ Title: 'a1' }, { Title: 'a2' }, { Title: 'b1' }],
+    });
+
+    ({ token: editorToken } = await createUser(context, {
+      email: 'editor@example.com',
+    }));
+
+    await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/users`)
+      .set('xc-auth', context.token)
+      .send({ email: 'editor@example.com', roles: ProjectRoles.EDITOR })
+      .expect(200);
+
+    const titleColumn = (
+      await getColumnsByAPI(context, base, table)
+    ).columns.find((c) => c.title === 'Title');
+
+    rowPolicy = (
+      await request(context.app)
+        .post(`/api/v2/meta/tables/${table.id}/row-policies`)
+        .set('xc-auth', context.token)
+        .send({
+          title: 'Only a',
+          role: ProjectRoles.EDITOR,
+          filters: [
+            {
+              fk_column_id: titleColumn.id,
+              comparison_op: 'like',
+              value: 'a%',
+            },
+          ],
+        })
+        .expect(200)
+    ).body;
+  });
+
+  it('Row policy restricts list and read of the role', async () => {
+    expect(rowPolicy.filters).to.have.length(1);
+
+    const rows = await listRows(editorToken);
+    expect(rows.map((r) => r.Title)).to.deep.eq(['a1', 'a2']);
+
+    await request(context.app)
+      .get(`/api/v1/db/data/noco/${base.id}/${table.id}/3`)
+      .set('xc-auth', editorToken)
+      .expect(404);
+
+    const countRes = await request(context.app)
+      .get(`/api/v1/db/data/noco/${base.id}/${table.id}/count`)
+      .set('xc-auth', editorToken)
+      .expect(200);
+    expect(countRes.body.count).to.eq(2);
+  });
+
+  it(`Row policy doesn't restrict owner`, async () => {
+    const rows = await listRows(context.token);
+    expect(rows).to.have.length(3);
+  });
+
+  it(`Disabled row policy doesn't restrict rows`, async () => {
+    await request(context.app)
+      .patch(`/api/v2/meta/row-policies/${rowPolicy.id}`)
+      .set('xc-auth', context.token)
+      .send({ enabled: false })
+      .expect(200);
+
+    const rows = await listRows(editorToken);
+    expect(rows).to.have.length(3);
+  });
+
+  it('Row policy restricts update and delete of the role', async () => {
+    await request(context.app)
+      .patch(`/api/v1/db/data/noco/${base.id}/${table.id}/3`)
+      .set('xc-auth', editorToken)
+      .send({ Title: 'b2' })
+      .expect(404);
+
+    await request(context.app)
+      .delete(`/api/v1/db/data/noco/${base.id}/${table.id}/3`)
+      .set('xc-auth', editorToken)
+      .expect(404);
+
+    const rows = await listRows(context.token);
+    expect(rows.find((r) => r.Id === 3)?.Title).to.eq('b1');
+  });
+
+  it(`Row policy can't be managed by editor`, async () => {
+    await request(context.app)
+      .get(`/api/v2/meta/tables/${table.id}/row-policies`)
+      .set('xc-auth', editorToken)
+      .expect(403);
+
+    await request(context.app)
+      .delete(`/api/v2/meta/row-policies/${rowPolicy.id}`)
+      .set('xc-auth', editorToken)
+      .expect(403);
+  });
+}
+
+export default function () {
+  describe('RowPolicy', rowPolicyTests);
+}
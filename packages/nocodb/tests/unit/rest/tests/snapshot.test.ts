@@ -0,0 +1,195 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import { UITypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { customColumns } from '../../factory/column';
+import { createBulkRows } from '../../factory/row';
+import { listenForJob } from '../../factory/job';
+import type { Base, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Snapshot is created and listed once its job is done
+// 2. Snapshot is restored to a new base
+// 3. Snapshot is restored over the base it was taken from
+// 4. Snapshot is deleted
+
+function snapshotTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+
+  const createSnapshot = async () => {
+    const response = await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/snapshots`)
+      .set('xc-auth', context.token)
+      .send({ title: 'Before changes' })
+      .expect(200);
+
+    await listenForJob({
+      context,
+      base_id: base.id,
+      job_id: response.body.id,
+    });
+
+    return response.body.snapshot;
+  };
+
+  const restoreSnapshot = async (snapshotId: string, body = {}) => {
+    const response = await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/snapshots/${snapshotId}/restore`)
+      .set('xc-auth', context.token)
+      .send(body)
+      .expect(200);
+
+    await listenForJob({
+      context,
+      base_id: response.body.base_id,
+      job_id: response.body.id,
+    });
+
+    return response.body.base_id;
+  };
+
+  // tables are recreated on restore, so they are looked up by title
+  const listTitles = async (baseId: string) => {
+    const tables = (
+      await request(context.app)
+        .get(`/api/v2/meta/bases/${baseId}/tables`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body.list;
+
+    const tableId = tables.find((t) => t.title === 'Tasks').id;
+
+    return (
+      await request(context.app)
+        .get(`/api/v1/db/data/noco/${baseId}/${tableId}`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body.list
+      .map((row) => row.Title)
+      .sort();
+  };
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Tasks',
+      table_name: 'tasks',
+      columns: customColumns('custom', [
+        {
+          title: 'Title',
+          column_name: 'title',
+          uidt: UITypes.SingleLineText,
+          pv: true,
+        },
+      ]),
+    });
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [{ Title: 'Task 1' }, { Title: 'Task 2' }],
+    });
+  });
+
+  it('Snapshot is created and listed once its job is done', async () => {
+    const snapshot = await createSnapshot();
+
+    const list = (
+      await request(context.app)
+        .get(`/api/v2/meta/bases/${base.id}/snapshots`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body.list;
+
+    expect(list).to.have.length(1);
+    expect(list[0].id).to.equal(snapshot.id);
+    expect(list[0].title).to.equal('Before changes');
+    expect(list[0].status).to.equal('success');
+  });
+
+  it('Snapshot is restored to a new base', async () => {
+    const snapshot = await createSnapshot();
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [{ Title: 'Task 3' }],
+    });
+
+    const restoredBaseId = await restoreSnapshot(snapshot.id, {
+      base: { title: 'Restored' },
+    });
+
+    expect(restoredBaseId).to.not.equal(base.id);
+    expect(await listTitles(restoredBaseId)).to.deep.equal([
+      'Task 1',
+      'Task 2',
+    ]);
+    expect(await listTitles(base.id)).to.deep.equal([
+      'Task 1',
+      'Task 2',
+      'Task 3',
+    ]);
+  });
+
+  it('Snapshot is restored over the base it was taken from', async () => {
+    const snapshot = await createSnapshot();
+
+    await createBulkRows(context, {
+      base,
+      table,
+      values: [{ Title: 'Task 3' }],
+    });
+
+    const restoredBaseId = await restoreSnapshot(snapshot.id, {
+      overwrite: true,
+    });
+
+    expect(restoredBaseId).to.equal(base.id);
+    expect(await listTitles(base.id)).to.deep.equal(['Task 1', 'Task 2']);
+
+    const restoredBase = (
+      await request(context.app)
+        .get(`/api/v2/meta/bases/${base.id}`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body;
+
+    expect(restoredBase.status).to.not.be.ok;
+  });
+
+  it('Snapshot is deleted', async () => {
+    const snapshot = await createSnapshot();
+
+    await request(context.app)
+      .delete(`/api/v2/meta/bases/${base.id}/snapshots/${snapshot.id}`)
+      .set('xc-auth', context.token)
+      .expect(200);
+
+    const list = (
+      await request(context.app)
+        .get(`/api/v2/meta/bases/${base.id}/snapshots`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body.list;
+
+    expect(list).to.have.length(0);
+
+    await request(context.app)
+      .post(`/api/v2/meta/bases/${base.id}/snapshots/${snapshot.id}/restore`)
+      .set('xc-auth', context.token)
+      .send({})
+      .expect(404);
+  });
+}
+
+export default function () {
+  describe('Snapshot', snapshotTests);
+}
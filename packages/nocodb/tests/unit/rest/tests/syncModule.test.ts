@@ -0,0 +1,345 @@
+import 'mocha';
+import { Readable } from 'stream';
+import request from 'supertest';
+import { expect } from 'chai';
+import {
+  IntegrationsType,
+  OnDeleteAction,
+  SyncTrigger,
+  SyncType,
+  UITypes,
+} from 'nocodb-sdk';
+import { Integration } from '../../../../src/models';
+import { createProject } from '../../factory/base';
+import { getAllTables } from '../../factory/table';
+import { listenForJob } from '../../factory/job';
+import { listRow } from '../../factory/row';
+import init from '../../init';
+
+// Test case list
+// 1. Create sync creates the target tables and syncs records with links
+// 2. Full sync updates records and marks missing records as deleted
+// 3. Incremental sync passes the stored cursor to the integration
+// 4. Trigger url requires the sync secret
+// 5. Scheduled sync requires a valid cron expression
+
+const TEST_SYNC_SUB_TYPE = 'test-sync';
+
+const remoteData: {
+  users: { id: string; name: string; updatedAt: string }[];
+  tickets: {
+    id: string;
+    title: string;
+    status: string;
+    updatedAt: string;
+    assignees: string[];
+  }[];
+  lastIncrementalValues?: Record<string, any>;
+} = {
+  users: [],
+  tickets: [],
+};
+
+// local sync integration which serves records from `remoteData`
+class TestSyncIntegration {
+  constructor(public config: any) {}
+
+  async getDestinationSchema() {
+    return {
+      tickets: {
+        title: 'Tickets',
+        columns: [
+          { title: 'Title', uidt: UITypes.SingleLineText, pv: true },
+          {
+            title: 'Status',
+            uidt: UITypes.SingleSelect,
+            colOptions: { options: [{ title: 'Open' }, { title: 'Closed' }] },
+          },
+        ],
+        relations: [
+          {
+            columnTitle: 'Assignees',
+            relatedTable: 'users',
+            relatedTableColumnTitle: 'Tickets',
+          },
+        ],
+      },
+      users: {
+        title: 'Users',
+        columns: [{ title: 'Name', uidt: UITypes.SingleLineText, pv: true }],
+        relations: [],
+      },
+    };
+  }
+
+  async fetchData(_auth, args) {
+    remoteData.lastIncrementalValues = args.targetTableIncrementalValues;
+
+    const stream = new Readable({ objectMode: true, read() {} });
+
+    for (const user of remoteData.users) {
+      stream.push({
+        targetTable: 'users',
+        recordId: user.id,
+        data: {
+          Name: user.name,
+          RemoteUpdatedAt: user.updatedAt,
+        },
+      });
+    }
+
+    for (const ticket of remoteData.tickets) {
+      stream.push({
+        targetTable: 'tickets',
+        recordId: ticket.id,
+        data: {
+          Title: ticket.title,
+          Status: ticket.status,
+          RemoteUpdatedAt: ticket.updatedAt,
+        },
+        links: {
+          Assignees: ticket.assignees,
+        },
+      });
+    }
+
+    stream.push(null);
+
+    return stream;
+  }
+
+  formatData(_targetTable, data) {
+    return { data };
+  }
+
+  getIncrementalKey() {
+    return 'RemoteUpdatedAt';
+  }
+
+  getNamespaces() {
+    return [];
+  }
+
+  async fetchOptions() {
+    return [];
+  }
+}
+
+function syncModuleTests() {
+  let context;
+  let base;
+
+  const internalUrl = () =>
+    `/api/v2/internal/${context.fk_workspace_id ?? 'nc'}/${base.id}`;
+
+  // internal post apis respond with the default 201 status
+  const createSync = async (payload = {}, status = 201) => {
+    const response = await request(context.app)
+      .post(internalUrl())
+      .query({ operation: 'createSync' })
+      .set('xc-auth', context.token)
+      .send({
+        title: 'Test Sync',
+        sync_type: SyncType.Full,
+        sync_trigger: SyncTrigger.Manual,
+        on_delete_action: OnDeleteAction.MarkDeleted,
+        configs: [
+          {
+            title: 'Test Sync Integration',
+            type: IntegrationsType.Sync,
+            sub_type: TEST_SYNC_SUB_TYPE,
+            config: {},
+          },
+        ],
+        ...payload,
+      })
+      .expect(status);
+
+    if (status !== 201) return response.body;
+
+    await listenForJob({
+      context,
+      base_id: base.id,
+      job_id: response.body.job.id,
+    });
+
+    return response.body;
+  };
+
+  const triggerSync = async (syncConfigId: string) => {
+    const response = await request(context.app)
+      .post(internalUrl())
+      .query({ operation: 'triggerSync' })
+      .set('xc-auth', context.token)
+      .send({ syncConfigId })
+      .expect(201);
+
+    await listenForJob({
+      context,
+      base_id: base.id,
+      job_id: response.body.id,
+    });
+  };
+
+  const listSyncedRows = async (title: string) => {
+    const table = (await getAllTables({ base })).find((t) => t.title === title);
+    expect(table, `table ${title}`).to.exist;
+
+    const rows = await listRow({ base, table });
+    return rows.sort((a, b) => a.RemoteId.localeCompare(b.RemoteId));
+  };
+
+  before(function () {
+    Integration.availableIntegrations.push({
+      type: IntegrationsType.Sync,
+      sub_type: TEST_SYNC_SUB_TYPE,
+      wrapper: TestSyncIntegration as any,
+      manifest: { title: 'Test Sync' },
+    });
+  });
+
+  after(function () {
+    Integration.availableIntegrations =
+      Integration.availableIntegrations.filter(
+        (i) => i.sub_type !== TEST_SYNC_SUB_TYPE,
+      );
+  });
+
+  beforeEach(async function () {
+    console.time('#### syncModuleTests');
+    context = await init();
+    base = await createProject(context);
+
+    remoteData.users = [
+      { id: 'u1', name: 'Alice', updatedAt: '2024-01-01T00:00:00.000Z' },
+      { id: 'u2', name: 'Bob', updatedAt: '2024-01-02T00:00:00.000Z' },
+    ];
+    remoteData.tickets = [
+      {
+        id: 't1',
+        title: 'First ticket',
+        status: 'Open',
+        updatedAt: '2024-01-03T00:00:00.000Z',
+        assignees: ['u1', 'u2'],
+      },
+      {
+        id: 't2',
+        title: 'Second ticket',
+        status: 'Closed',
+        updatedAt: '2024-01-04T00:00:00.000Z',
+        assignees: ['u2'],
+      },
+    ];
+    remoteData.lastIncrementalValues = undefined;
+    console.timeEnd('#### syncModuleTests');
+  });
+
+  it('Create sync creates target tables and syncs records', async () => {
+    await createSync();
+
+    const tickets = await listSyncedRows('Tickets');
+    expect(tickets).to.have.length(2);
+    expect(tickets[0]).to.include({
+      RemoteId: 't1',
+      Title: 'First ticket',
+      Status: 'Open',
+    });
+    expect(+tickets[0].Assignees).to.eq(2);
+    expect(+tickets[1].Assignees).to.eq(1);
+
+    const users = await listSyncedRows('Users');
+    expect(users.map((u) => u.Name)).to.deep.eq(['Alice', 'Bob']);
+    expect(+users[1].Tickets).to.eq(2);
+  });
+
+  it('Full sync updates records and marks missing records as deleted', async () => {
+    const { syncConfig } = await createSync();
+
+    remoteData.tickets = [
+      {
+        ...remoteData.tickets[0],
+        title: 'First ticket updated',
+        assignees: ['u1'],
+      },
+    ];
+
+    await triggerSync(syncConfig.id);
+
+    const tickets = await listSyncedRows('Tickets');
+    expect(tickets).to.have.length(2);
+    expect(tickets[0].Title).to.eq('First ticket updated');
+    expect(!!tickets[0].RemoteDeleted).to.eq(false);
+    expect(+tickets[0].Assignees).to.eq(1);
+    expect(!!tickets[1].RemoteDeleted).to.eq(true);
+  });
+
+  it('Incremental sync passes the stored cursor', async () => {
+    const { syncConfig } = await createSync({
+      sync_type: SyncType.Incremental,
+    });
+
+    // initial sync fetches everything
+    expect(remoteData.lastIncrementalValues).to.deep.eq({});
+
+    await triggerSync(syncConfig.id);
+
+    expect(remoteData.lastIncrementalValues).to.deep.eq({
+      users: '2024-01-02T00:00:00.000Z',
+      tickets: '2024-01-04T00:00:00.000Z',
+    });
+  });
+
+  it('Sync trigger url requires the sync secret', async () => {
+    const { syncConfig } = await createSync({
+      sync_trigger: SyncTrigger.Webhook,
+    });
+
+    const sync = (
+      await request(context.app)
+        .get(internalUrl())
+        .query({ operation: 'readSync', id: syncConfig.id })
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body;
+
+    expect(sync.sync_trigger_secret).to.be.a('string');
+
+    await request(context.app)
+      .post(`/api/v2/public/syncs/${syncConfig.id}/trigger`)
+      .set('xc-sync-secret', 'invalid')
+      .expect(401);
+
+    // secret is not accepted in the url, where it would end up in logs
+    await request(context.app)
+      .post(`/api/v2/public/syncs/${syncConfig.id}/trigger`)
+      .query({ secret: sync.sync_trigger_secret })
+      .expect(401);
+
+    const response = await request(context.app)
+      .post(`/api/v2/public/syncs/${syncConfig.id}/trigger`)
+      .set('xc-sync-secret', sync.sync_trigger_secret)
+      .expect(200);
+
+    await listenForJob({
+      context,
+      base_id: base.id,
+      job_id: response.body.id,
+    });
+  });
+
+  it('Scheduled sync requires a valid cron expression', async () => {
+    const body = await createSync(
+      {
+        sync_trigger: SyncTrigger.Schedule,
+        sync_trigger_cron: 'not a cron',
+      },
+      400,
+    );
+
+    expect(body.msg).to.include('Invalid cron expression');
+  });
+}
+
+export default function () {
+  describe('SyncModule', syncModuleTests);
+}
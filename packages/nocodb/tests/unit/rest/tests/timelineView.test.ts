@@ -0,0 +1,167 @@
+import 'mocha';
+import { expect } from 'chai';
+import request from 'supertest';
+import { UITypes, ViewTypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import {
+  createLtarColumn,
+  customColumns,
+  deleteColumn,
+} from '../../factory/column';
+import type { Base, Column, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Timeline view is created with start, end and dependency fields
+// 2. Start and end fields must be date fields, dependency a self link
+// 3. Deleting a field used by the timeline clears it from the view
+
+function timelineViewTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let otherTable: Model;
+  let columns: Column[];
+  let dependsOn: Column;
+  let otherLink: Column;
+
+  const columnId = (title: string) => columns.find((c) => c.title === title).id;
+
+  const createTimeline = async (body: Record<string, any>, status = 200) =>
+    (
+      await request(context.app)
+        .post(`/api/v2/meta/tables/${table.id}/timelines`)
+        .set('xc-auth', context.token)
+        .send({ title: 'Schedule', type: ViewTypes.TIMELINE, ...body })
+        .expect(status)
+    ).body;
+
+  const readTimeline = async (viewId: string) =>
+    (
+      await request(context.app)
+        .get(`/api/v2/meta/timelines/${viewId}`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body;
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Tasks',
+      table_name: 'tasks',
+      columns: customColumns('custom', [
+        {
+          title: 'Title',
+          column_name: 'title',
+          uidt: UITypes.SingleLineText,
+          pv: true,
+        },
+        {
+          title: 'Start',
+          column_name: 'start',
+          uidt: UITypes.Date,
+        },
+        {
+          title: 'End',
+          column_name: 'end',
+          uidt: UITypes.Date,
+        },
+      ]),
+    });
+
+    otherTable = await createTable(context, base, {
+      title: 'Teams',
+      table_name: 'teams',
+    });
+
+    dependsOn = await createLtarColumn(context, {
+      title: 'DependsOn',
+      parentTable: table,
+      childTable: table,
+      type: 'mm',
+    });
+
+    otherLink = await createLtarColumn(context, {
+      title: 'Teams',
+      parentTable: table,
+      childTable: otherTable,
+      type: 'mm',
+    });
+
+    columns = await table.getColumns({
+      workspace_id: table.fk_workspace_id,
+      base_id: table.base_id,
+    });
+  });
+
+  it('Timeline view is created with start, end and dependency fields', async () => {
+    const view = await createTimeline({
+      fk_start_col_id: columnId('Start'),
+      fk_end_col_id: columnId('End'),
+      fk_dependency_col_id: dependsOn.id,
+    });
+
+    expect(view.type).to.equal(ViewTypes.TIMELINE);
+
+    const timeline = await readTimeline(view.id);
+    expect(timeline.fk_start_col_id).to.equal(columnId('Start'));
+    expect(timeline.fk_end_col_id).to.equal(columnId('End'));
+    expect(timeline.fk_dependency_col_id).to.equal(dependsOn.id);
+
+    await request(context.app)
+      .patch(`/api/v2/meta/timelines/${view.id}`)
+      .set('xc-auth', context.token)
+      .send({ fk_end_col_id: null })
+      .expect(200);
+
+    expect((await readTimeline(view.id)).fk_end_col_id).to.equal(null);
+  });
+
+  it('Start and end fields must be date fields, dependency a self link', async () => {
+    await createTimeline({}, 400);
+
+    await createTimeline({ fk_start_col_id: columnId('Title') }, 400);
+
+    await createTimeline(
+      {
+        fk_start_col_id: columnId('Start'),
+        fk_dependency_col_id: otherLink.id,
+      },
+      400,
+    );
+
+    const view = await createTimeline({ fk_start_col_id: columnId('Start') });
+
+    await request(context.app)
+      .patch(`/api/v2/meta/timelines/${view.id}`)
+      .set('xc-auth', context.token)
+      .send({ fk_grp_col_id: dependsOn.id })
+      .expect(400);
+  });
+
+  it('Deleting a field used by the timeline clears it from the view', async () => {
+    const view = await createTimeline({
+      fk_start_col_id: columnId('Start'),
+      fk_end_col_id: columnId('End'),
+      fk_dependency_col_id: dependsOn.id,
+    });
+
+    await deleteColumn(context, {
+      table,
+      column: columns.find((c) => c.title === 'End'),
+    });
+    await deleteColumn(context, { table, column: dependsOn });
+
+    const timeline = await readTimeline(view.id);
+    expect(timeline.fk_start_col_id).to.equal(columnId('Start'));
+    expect(timeline.fk_end_col_id).to.equal(null);
+    expect(timeline.fk_dependency_col_id).to.equal(null);
+  });
+}
+
+export default function () {
+  describe('TimelineView', timelineViewTests);
+}
@@ -0,0 +1,231 @@
+import 'mocha';
+import http from 'http';
+import { expect } from 'chai';
+import request from 'supertest';
+import { HookLogDeliveryStatus, UITypes } from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { customColumns } from '../../factory/column';
+import { getWebhookRetryDelay } from '../../../../src/helpers/webhookHelpers';
+import { WebhookHandlerProcessor } from '../../../../src/modules/jobs/jobs/webhook-handler/webhook-handler.processor';
+import type { AddressInfo } from 'net';
+import type { Base, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Failed deliveries are retried with exponential backoff until the retries run out
+// 2. Non transient failures are not retried
+// 3. Logged delivery is redelivered
+
+function webhookRetryTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let hookId: string;
+
+  let server: http.Server;
+  let serverUrl: string;
+  let responseStatus: number;
+  let receivedBodies: string[];
+
+  let allowLocalHooks: string;
+
+  // jobs scheduled by the processor for the next delivery attempts
+  let scheduledJobs: { data: any; options: any }[];
+  let processor: WebhookHandlerProcessor;
+
+  const deliver = async (data: Record<string, any> = {}) => {
+    await processor.job({
+      data: {
+        context: { workspace_id: base.fk_workspace_id, base_id: base.id },
+        hookId,
+        modelId: table.id,
+        viewId: null,
+        prevData: null,
+        newData: { Id: 1, Title: 'Task 1' },
+        user: context.user,
+        ...data,
+      },
+    } as any);
+  };
+
+  // logs are written in the background, so wait until all of them are there
+  const listLogs = async (count: number) => {
+    for (let i = 0; i < 20; i++) {
+      const list = (
+        await request(context.app)
+          .get(`/api/v2/meta/hooks/${hookId}/logs`)
+          .set('xc-auth', context.token)
+          .expect(200)
+      ).body.list;
+
+      if (list.length >= count) {
+        return list.sort((a, b) => a.attempt - b.attempt);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    throw new Error(`Expected ${count} hook logs`);
+  };
+
+  before(async function () {
+    allowLocalHooks = process.env.NC_ALLOW_LOCAL_HOOKS;
+    process.env.NC_ALLOW_LOCAL_HOOKS = 'true';
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        receivedBodies.push(body);
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    serverUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async function () {
+    process.env.NC_ALLOW_LOCAL_HOOKS = allowLocalHooks;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Tasks',
+      table_name: 'tasks',
+      columns: customColumns('custom', [
+        {
+          title: 'Title',
+          column_name: 'title',
+          uidt: UITypes.SingleLineText,
+          pv: true,
+        },
+      ]),
+    });
+
+    // inactive, so that it is only delivered by the test
+    hookId = (
+      await request(context.app)
+        .post(`/api/v2/meta/tables/${table.id}/hooks`)
+        .set('xc-auth', context.token)
+        .send({
+          title: 'Notify',
+          event: 'after',
+          operation: 'insert',
+          active: false,
+          retries: 2,
+          retry_interval: 1000,
+          notification: {
+            type: 'URL',
+            payload: {
+              method: 'POST',
+              path: `${serverUrl}/hook`,
+              body: '{{ json data }}',
+            },
+          },
+        })
+        .expect(200)
+    ).body.id;
+
+    responseStatus = 503;
+    receivedBodies = [];
+    scheduledJobs = [];
+
+    processor = new WebhookHandlerProcessor({
+      add: async (_name, data, options) => {
+        scheduledJobs.push({ data, options });
+        return { id: `${scheduledJobs.length}` };
+      },
+    } as any);
+  });
+
+  it('Failed deliveries are retried with exponential backoff until the retries run out', async () => {
+    await deliver();
+
+    expect(scheduledJobs).to.have.length(1);
+    expect(scheduledJobs[0].data.attempt).to.equal(2);
+    expect(scheduledJobs[0].options.delay).to.equal(1000);
+
+    await deliver(scheduledJobs[0].data);
+
+    expect(scheduledJobs).to.have.length(2);
+    expect(scheduledJobs[1].data.attempt).to.equal(3);
+    expect(scheduledJobs[1].options.delay).to.equal(2000);
+
+    // last attempt allowed by the retries of the hook
+    await deliver(scheduledJobs[1].data);
+
+    expect(scheduledJobs).to.have.length(2);
+    expect(receivedBodies).to.have.length(3);
+
+    const logs = await listLogs(3);
+
+    expect(logs.map((log) => log.attempt)).to.deep.equal([1, 2, 3]);
+    expect(logs.map((log) => log.delivery_status)).to.deep.equal([
+      HookLogDeliveryStatus.RETRYING,
+      HookLogDeliveryStatus.RETRYING,
+      HookLogDeliveryStatus.DEAD_LETTER,
+    ]);
+
+    // backoff doubles with every attempt and is capped at an hour
+    expect(getWebhookRetryDelay({ retry_interval: 1000 }, 4)).to.equal(8000);
+    expect(getWebhookRetryDelay({ retry_interval: 1000 }, 30)).to.equal(
+      60 * 60 * 1000,
+    );
+  });
+
+  it('Non transient failures are not retried', async () => {
+    responseStatus = 400;
+
+    await deliver();
+
+    expect(scheduledJobs).to.have.length(0);
+
+    const [log] = await listLogs(1);
+
+    expect(log.attempt).to.equal(1);
+    expect(log.delivery_status).to.equal(HookLogDeliveryStatus.DEAD_LETTER);
+  });
+
+  it('Logged delivery is redelivered', async () => {
+    responseStatus = 400;
+
+    await deliver();
+
+    const [log] = await listLogs(1);
+
+    responseStatus = 200;
+
+    const redelivered = (
+      await request(context.app)
+        .post(`/api/v2/meta/hooks/${hookId}/logs/${log.id}/redeliver`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body;
+
+    expect(redelivered.id).to.not.equal(log.id);
+    expect(redelivered.delivery_status).to.equal(HookLogDeliveryStatus.SUCCESS);
+
+    // the logged request is sent again as it is
+    expect(receivedBodies).to.have.length(2);
+    expect(receivedBodies[1]).to.equal(receivedBodies[0]);
+
+    expect(await listLogs(2)).to.have.length(2);
+
+    await request(context.app)
+      .post(`/api/v2/meta/hooks/${hookId}/logs/unknown/redeliver`)
+      .set('xc-auth', context.token)
+      .expect(404);
+  });
+}
+
+export default function () {
+  describe('WebhookRetry', webhookRetryTests);
+}
@@ -0,0 +1,206 @@
+import 'mocha';
+import http from 'http';
+import { expect } from 'chai';
+import request from 'supertest';
+import {
+  generateWebhookSignature as generateSdkWebhookSignature,
+  UITypes,
+  verifyWebhookSignature,
+} from 'nocodb-sdk';
+import init from '../../init';
+import { createProject } from '../../factory/base';
+import { createTable } from '../../factory/table';
+import { customColumns } from '../../factory/column';
+import { generateWebhookSignature } from '../../../../src/helpers/webhookHelpers';
+import { WebhookHandlerProcessor } from '../../../../src/modules/jobs/jobs/webhook-handler/webhook-handler.processor';
+import type { AddressInfo } from 'net';
+import type { Base, Model } from '../../../../src/models';
+
+// Test case list
+// 1. Requests of a hook with a secret are signed over the timestamp and body
+// 2. Rotating the secret invalidates signatures of the previous secret
+
+function webhookSignatureTests() {
+  let context;
+  let base: Base;
+  let table: Model;
+  let hookId: string;
+
+  let server: http.Server;
+  let serverUrl: string;
+  let receivedRequests: { body: string; headers: http.IncomingHttpHeaders }[];
+
+  let allowLocalHooks: string;
+
+  const deliver = async () => {
+    const processor = new WebhookHandlerProcessor({
+      add: async () => ({ id: '1' }),
+    } as any);
+
+    await processor.job({
+      data: {
+        context: { workspace_id: base.fk_workspace_id, base_id: base.id },
+        hookId,
+        modelId: table.id,
+        viewId: null,
+        prevData: null,
+        newData: { Id: 1, Title: 'Task 1' },
+        user: context.user,
+      },
+    } as any);
+
+    return receivedRequests[receivedRequests.length - 1];
+  };
+
+  const rotateSecret = async () =>
+    (
+      await request(context.app)
+        .post(`/api/v2/meta/hooks/${hookId}/secret`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body.secret as string;
+
+  const verify = (
+    { body, headers }: (typeof receivedRequests)[number],
+    secret: string,
+  ) =>
+    verifyWebhookSignature({
+      payload: body,
+      signature: headers['x-nocodb-signature'] as string,
+      timestamp: headers['x-nocodb-timestamp'] as string,
+      secret,
+    });
+
+  before(async function () {
+    allowLocalHooks = process.env.NC_ALLOW_LOCAL_HOOKS;
+    process.env.NC_ALLOW_LOCAL_HOOKS = 'true';
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        receivedRequests.push({ body, headers: req.headers });
+        res.statusCode = 200;
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    serverUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async function () {
+    process.env.NC_ALLOW_LOCAL_HOOKS = allowLocalHooks;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async function () {
+    context = await init();
+    base = await createProject(context);
+
+    table = await createTable(context, base, {
+      title: 'Tasks',
+      table_name: 'tasks',
+      columns: customColumns('custom', [
+        {
+          title: 'Title',
+          column_name: 'title',
+          uidt: UITypes.SingleLineText,
+          pv: true,
+        },
+      ]),
+    });
+
+    // inactive, so that it is only delivered by the test
+    hookId = (
+      await request(context.app)
+        .post(`/api/v2/meta/tables/${table.id}/hooks`)
+        .set('xc-auth', context.token)
+        .send({
+          title: 'Notify',
+          event: 'after',
+          operation: 'insert',
+          active: false,
+          notification: {
+            type: 'URL',
+            payload: {
+              method: 'POST',
+              path: `${serverUrl}/hook`,
+              body: '{{ json data }}',
+            },
+          },
+        })
+        .expect(200)
+    ).body.id;
+
+    receivedRequests = [];
+  });
+
+  it('Requests of a hook with a secret are signed over the timestamp and body', async () => {
+    const unsigned = await deliver();
+
+    expect(unsigned.headers).to.not.have.property('x-nocodb-signature');
+    expect(unsigned.headers).to.not.have.property('x-nocodb-timestamp');
+
+    const secret = await rotateSecret();
+    expect(secret).to.match(/^whsec_[0-9a-f]{64}$/);
+
+    // secret can't be read back once it is rotated
+    const hook = (
+      await request(context.app)
+        .get(`/api/v2/meta/tables/${table.id}/hooks`)
+        .set('xc-auth', context.token)
+        .expect(200)
+    ).body.list.find((h) => h.id === hookId);
+    expect(hook.has_signing_secret).to.equal(true);
+    expect(hook).to.not.have.property('signing_secret');
+
+    const signed = await deliver();
+    const timestamp = signed.headers['x-nocodb-timestamp'] as string;
+
+    expect(
+      Math.abs(Number(timestamp) - Math.floor(Date.now() / 1000)),
+    ).to.be.at.most(5);
+    expect(signed.headers['x-nocodb-signature']).to.equal(
+      generateWebhookSignature(secret, timestamp, signed.body),
+    );
+    expect(await verify(signed, secret)).to.equal(true);
+    expect(
+      await verify(
+        { ...signed, body: signed.body.replace('Task', 'Job') },
+        secret,
+      ),
+    ).to.equal(false);
+
+    // server and sdk helpers produce the same signature
+    expect(
+      await generateSdkWebhookSignature(secret, timestamp, signed.body),
+    ).to.equal(generateWebhookSignature(secret, timestamp, signed.body));
+  });
+
+  it('Rotating the secret invalidates signatures of the previous secret', async () => {
+    const previousSecret = await rotateSecret();
+    const secret = await rotateSecret();
+
+    expect(secret).to.not.equal(previousSecret);
+
+    const signed = await deliver();
+
+    expect(await verify(signed, secret)).to.equal(true);
+    expect(await verify(signed, previousSecret)).to.equal(false);
+
+    await request(context.app)
+      .delete(`/api/v2/meta/hooks/${hookId}/secret`)
+      .set('xc-auth', context.token)
+      .expect(200);
+
+    const unsigned = await deliver();
+
+    expect(unsigned.headers).to.not.have.property('x-nocodb-signature');
+  });
+}
+
+export default function () {
+  describe('WebhookSignature', webhookSignatureTests);
+}